@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm, mkdir, writeFile, readFile, access } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createLock, diffLock, hashContent, loadLock, getLockPath } from "../lib/lockfile";
+import { addRepository } from "../lib/repo-store";
+import { saveConfig } from "../lib/store";
+import { pull } from "../commands/pull";
+import type { LockedTopic } from "../lib/types";
+
+describe("lockfile", () => {
+  const entry = (topic: string, source: string, content: string, revision?: string): LockedTopic => ({
+    topic,
+    source,
+    ...(revision ? { revision } : {}),
+    hash: hashContent(content),
+  });
+
+  it("sorts topics by source then topic", () => {
+    const lock = createLock([entry("b/x", "repo-b", "x"), entry("z/y", "repo-a", "y"), entry("a/y", "repo-a", "y")]);
+    expect(lock.topics.map((t) => `${t.source}:${t.topic}`)).toEqual(["repo-a:a/y", "repo-a:z/y", "repo-b:b/x"]);
+    expect(lock.topics[0].hash).toMatch(/^sha256-[0-9a-f]{64}$/);
+  });
+
+  it("reports added, removed and changed topics", () => {
+    const lock = createLock([entry("a", "repo", "one"), entry("b", "repo", "two"), entry("c", "repo", "three")]);
+    const differences = diffLock(lock, [entry("a", "repo", "one"), entry("b", "repo", "TWO"), entry("d", "repo", "four")]);
+
+    expect(differences).toEqual([
+      { topic: "b", source: "repo", change: "changed" },
+      { topic: "c", source: "repo", change: "removed" },
+      { topic: "d", source: "repo", change: "added" },
+    ]);
+  });
+
+  it("ignores a new revision that leaves the content unchanged", () => {
+    const lock = createLock([entry("a", "repo", "one", "1111111")]);
+    expect(diffLock(lock, [entry("a", "repo", "one", "2222222")])).toEqual([]);
+  });
+});
+
+describe("pull with docs-lock.yml", () => {
+  const previousHome = process.env.DOCS_SKILL_HOME;
+  let tempDir: string;
+  let projectDir: string;
+  let repoDir: string;
+  let consoleOutput: string[];
+
+  const writeDoc = (name: string, topic: string, body: string) =>
+    writeFile(join(repoDir, "docs", name), `---\ntopic: ${topic}\ntitle: ${topic}\n---\n\n${body}\n`);
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "docs-skill-lock-test-"));
+    process.env.DOCS_SKILL_HOME = join(tempDir, "home");
+    projectDir = join(tempDir, "project");
+    repoDir = join(tempDir, "repo");
+    await mkdir(join(repoDir, "docs"), { recursive: true });
+    await writeDoc("routing.md", "guide/routing", "# Routing");
+    await writeDoc("hooks.md", "guide/hooks", "# Hooks");
+    expect((await addRepository(repoDir)).success).toBe(true);
+    await saveConfig(projectDir, { version: 1, topics: ["guide/**"] });
+
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation(() => {});
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+  });
+
+  afterEach(async () => {
+    if (previousHome === undefined) {
+      delete process.env.DOCS_SKILL_HOME;
+    } else {
+      process.env.DOCS_SKILL_HOME = previousHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("records each pulled topic with its source and content hash", async () => {
+    const result = await pull({ cwd: projectDir });
+    expect(result.success).toBe(true);
+
+    const lock = await loadLock(projectDir);
+    expect(lock?.topics.map((t) => t.topic)).toEqual(["guide/hooks", "guide/routing"]);
+    const written = await readFile(join(projectDir, ".docs", result.locked![0].source.replace(/[/:]/g, "_"), "hooks.md"), "utf-8");
+    expect(lock?.topics[0]).toEqual({ topic: "guide/hooks", source: lock!.topics[0].source, hash: hashContent(written) });
+  });
+
+  it("fails a frozen pull without a lock or when the docs changed", async () => {
+    expect((await pull({ cwd: projectDir, frozen: true })).success).toBe(false);
+    expect(consoleOutput[0]).toContain("No docs-lock.yml found");
+    await expect(access(getLockPath(projectDir))).rejects.toThrow();
+
+    await pull({ cwd: projectDir });
+    expect((await pull({ cwd: projectDir, frozen: true })).success).toBe(true);
+
+    await writeDoc("routing.md", "guide/routing", "# Routing, rewritten");
+    await writeDoc("state.md", "guide/state", "# State");
+    const lockBefore = await readFile(getLockPath(projectDir), "utf-8");
+    const result = await pull({ cwd: projectDir, frozen: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Docs differ from docs-lock.yml:");
+    expect(result.error).toContain("~ guide/routing");
+    expect(result.error).toContain("+ guide/state");
+    expect(await readFile(getLockPath(projectDir), "utf-8")).toBe(lockBefore);
+  });
+});
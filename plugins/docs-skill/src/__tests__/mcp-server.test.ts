@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createMcpHandler, handleLine } from "../lib/mcp-server";
+import { saveConfig, writeDocToUserDir } from "../lib/store";
+
+describe("MCP server", () => {
+  const previousHome = process.env.DOCS_SKILL_HOME;
+  let tempDir: string;
+  let handle: ReturnType<typeof createMcpHandler>;
+  let nextId = 1;
+
+  const request = async (method: string, params?: Record<string, unknown>) => {
+    const response = await handle({ jsonrpc: "2.0", id: nextId++, method, params });
+    return response!;
+  };
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const { result } = await request("tools/call", { name, arguments: args });
+    return result as { content: Array<{ text: string }>; isError?: boolean };
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "docs-skill-mcp-test-"));
+    process.env.DOCS_SKILL_HOME = join(tempDir, "home");
+    await saveConfig(tempDir, { version: 1, topics: ["**"] });
+    await writeDocToUserDir(tempDir, {
+      path: "nextjs/routing.md",
+      frontmatter: { topic: "nextjs/routing", title: "Routing", description: "File-based routing" },
+      content: "Intro.\n\n## Dynamic Routes\n\nUse [slug] folders.\n\n## Middleware\n\nRuns first.",
+      lineCount: 9,
+    });
+    await writeDocToUserDir(tempDir, {
+      path: "nextjs/caching/fetch.md",
+      frontmatter: { topic: "nextjs/caching/fetch", title: "Fetch Cache" },
+      content: "# Fetch Cache\n\nRevalidate fetch requests.",
+      lineCount: 3,
+    });
+    handle = createMcpHandler({ cwd: tempDir, version: "1.2.3" });
+  });
+
+  afterEach(async () => {
+    if (previousHome === undefined) {
+      delete process.env.DOCS_SKILL_HOME;
+    } else {
+      process.env.DOCS_SKILL_HOME = previousHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("initializes and lists its tools", async () => {
+    const init = await request("initialize", { protocolVersion: "2025-03-26", capabilities: {} });
+    expect(init.result).toMatchObject({
+      protocolVersion: "2025-03-26",
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: "docs-skill", version: "1.2.3" },
+    });
+    expect(await handle({ jsonrpc: "2.0", method: "notifications/initialized" })).toBeNull();
+
+    const { result } = await request("tools/list");
+    expect((result as { tools: Array<{ name: string }> }).tools.map((t) => t.name)).toEqual([
+      "search_docs",
+      "list_docs",
+      "show_doc",
+      "show_section",
+    ]);
+  });
+
+  it("searches, lists and shows docs and sections", async () => {
+    const search = await callTool("search_docs", { query: "slug folders" });
+    expect(JSON.parse(search.content[0].text)[0]).toMatchObject({ topic: "nextjs/routing", anchor: "dynamic-routes" });
+
+    const list = JSON.parse((await callTool("list_docs", { path: "nextjs" })).content[0].text);
+    expect(list).toEqual({
+      path: "nextjs",
+      directories: [{ path: "nextjs/caching", docCount: 1 }],
+      docs: [{ topic: "nextjs/routing", title: "Routing", description: "File-based routing" }],
+    });
+
+    const doc = await callTool("show_doc", { topic: "nextjs/caching/fetch" });
+    expect(doc.content[0].text).toContain("Revalidate fetch requests.");
+
+    const section = await callTool("show_section", { topic: "nextjs/routing", section: "middleware" });
+    expect(section.content[0].text).toBe("Routing > Middleware\n\n## Middleware\n\nRuns first.");
+  });
+
+  it("reports missing docs and sections as tool errors", async () => {
+    const doc = await callTool("show_doc", { topic: "nextjs/routin" });
+    expect(doc.isError).toBe(true);
+    expect(doc.content[0].text).toContain("Did you mean: nextjs/routing");
+
+    const section = await callTool("show_section", { topic: "nextjs/routing", section: "caching" });
+    expect(section.content[0].text).toBe('No section "caching" in nextjs/routing. Sections: dynamic-routes, middleware');
+
+    const missing = await request("tools/call", { name: "show_doc", arguments: {} });
+    expect(missing.error).toEqual({ code: -32602, message: "Missing required argument: topic" });
+  });
+
+  it("serves synced docs as resources", async () => {
+    const { result } = await request("resources/list");
+    expect((result as { resources: Array<{ uri: string }> }).resources.map((r) => r.uri)).toEqual([
+      "docs://nextjs/caching/fetch",
+      "docs://nextjs/routing",
+    ]);
+
+    const read = await request("resources/read", { uri: "docs://nextjs/routing" });
+    expect(read.result).toMatchObject({ contents: [{ uri: "docs://nextjs/routing", mimeType: "text/markdown" }] });
+    expect((await request("resources/read", { uri: "docs://nextjs" })).error?.message).toBe("Resource not found: docs://nextjs");
+  });
+
+  it("answers protocol errors", async () => {
+    expect(await handleLine(handle, "{not json")).toEqual({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32700, message: "Parse error" },
+    });
+    expect(await handleLine(handle, "")).toBeNull();
+    expect((await request("prompts/list")).error).toEqual({ code: -32601, message: "Method not found: prompts/list" });
+  });
+});
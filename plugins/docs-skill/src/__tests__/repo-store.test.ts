@@ -1,8 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { mkdtemp, rm, mkdir, writeFile } from "fs/promises";
+import { mkdtemp, rm, mkdir, writeFile, access } from "fs/promises";
 import { join, resolve } from "path";
 import { tmpdir, homedir } from "os";
+import { execFileSync } from "child_process";
 import {
+  addRepository,
+  removeRepository,
+  updateRepositories,
+  listRepositories,
+  getRepoCloneDir,
   getGlobalConfigDir,
   getRepositoriesPath,
   createDefaultRepositoriesFile,
@@ -52,6 +58,10 @@ describe("repo-store", () => {
       expect(result).toBe("github:owner/repo");
     });
 
+    it("keeps github:owner/repo IDs", () => {
+      expect(normalizeRepoPath("github:owner/repo")).toBe("github:owner/repo");
+    });
+
     it("normalizes GitHub URL with .git suffix", () => {
       const result = normalizeRepoPath("https://github.com/owner/repo.git");
       expect(result).toBe("github:owner/repo");
@@ -255,7 +265,7 @@ Nested content.
       expect(docs[0].frontmatter.topic).toBe("example/topic");
     });
 
-    it("returns empty array for github repos (not yet implemented)", async () => {
+    it("returns empty array for github repos that are not cloned", async () => {
       const repo: Repository = {
         id: "github:owner/repo",
         type: "github",
@@ -283,4 +293,116 @@ Nested content.
       await rm(emptyRepoDir, { recursive: true, force: true });
     });
   });
+
+  describe("GitHub repositories", () => {
+    let tempDir: string;
+    let workDir: string;
+    let remote: string;
+    const previousHome = process.env.DOCS_SKILL_HOME;
+
+    function git(cwd: string, ...args: string[]): string {
+      return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+        cwd,
+        encoding: "utf-8",
+      }).trim();
+    }
+
+    async function commitDoc(title: string): Promise<string> {
+      await writeFile(join(workDir, "docs", "guide.md"), `---\ntopic: guide/intro\ntitle: ${title}\n---\n\n# ${title}\n`);
+      git(workDir, "add", "-A");
+      git(workDir, "commit", "-q", "-m", title);
+      git(workDir, "push", "-q", "origin", "HEAD:main");
+      return git(workDir, "rev-parse", "HEAD");
+    }
+
+    async function exists(path: string): Promise<boolean> {
+      return access(path).then(
+        () => true,
+        () => false
+      );
+    }
+
+    beforeEach(async () => {
+      // A local bare repository stands in for GitHub
+      tempDir = await mkdtemp(join(tmpdir(), "docs-skill-github-test-"));
+      process.env.DOCS_SKILL_HOME = join(tempDir, "home");
+      remote = join(tempDir, "remote.git");
+      workDir = join(tempDir, "work");
+      git(tempDir, "init", "-q", "--bare", "-b", "main", remote);
+      await mkdir(join(workDir, "docs"), { recursive: true });
+      git(workDir, "init", "-q", "-b", "main");
+      git(workDir, "remote", "add", "origin", remote);
+    });
+
+    afterEach(async () => {
+      if (previousHome === undefined) {
+        delete process.env.DOCS_SKILL_HOME;
+      } else {
+        process.env.DOCS_SKILL_HOME = previousHome;
+      }
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("clones on add and reads docs from the clone", async () => {
+      const first = await commitDoc("First");
+
+      const result = await addRepository("github:owner/docs", undefined, undefined, { remote });
+      expect(result.success).toBe(true);
+      expect(result.repository).toMatchObject({ id: "github:owner/docs", type: "github", commit: first });
+      expect(getRepoCloneDir(result.repository!)).toBe(join(tempDir, "home", "cache", "github", "owner", "docs"));
+
+      const docs = await loadDocsFromRepo(result.repository!);
+      expect(docs.map((d) => d.frontmatter.title)).toEqual(["First"]);
+    });
+
+    it("moves branches on update but keeps tags pinned", async () => {
+      const first = await commitDoc("First");
+      git(workDir, "tag", "v1");
+      git(workDir, "push", "-q", "origin", "v1");
+      await addRepository("github:owner/branch", undefined, undefined, { remote, ref: "main" });
+      await addRepository("github:owner/tag", undefined, undefined, { remote, ref: "v1" });
+
+      const second = await commitDoc("Second");
+      const result = await updateRepositories();
+      expect(result.success).toBe(true);
+      expect(result.updated!.map((u) => [u.repository.id, u.previousCommit, u.repository.commit])).toEqual([
+        ["github:owner/branch", first, second],
+        ["github:owner/tag", first, first],
+      ]);
+
+      const repos = await listRepositories();
+      expect(repos.map((r) => r.commit)).toEqual([second, first]);
+      const docs = await loadDocsFromRepo(repos[0]);
+      expect(docs.map((d) => d.frontmatter.title)).toEqual(["Second"]);
+    });
+
+    it("rejects unknown refs without registering the repository", async () => {
+      await commitDoc("First");
+
+      const result = await addRepository("github:owner/docs", undefined, undefined, { remote, ref: "nope" });
+      expect(result).toEqual({ success: false, error: "Unknown branch, tag or commit: nope" });
+      expect(await listRepositories()).toEqual([]);
+      expect(await exists(join(tempDir, "home", "cache", "github", "owner", "docs"))).toBe(false);
+    });
+
+    it("does not pass refs or remotes starting with - to git as options", async () => {
+      await commitDoc("First");
+
+      const badRef = await addRepository("github:owner/docs", undefined, undefined, { remote, ref: "--all" });
+      expect(badRef).toEqual({ success: false, error: "Invalid branch, tag or commit: --all" });
+
+      const badRemote = await addRepository("github:owner/docs", undefined, undefined, { remote: "--template=x" });
+      expect(badRemote.success).toBe(false);
+      expect(badRemote.error).toContain("repository '--template=x' does not exist");
+      expect(await listRepositories()).toEqual([]);
+    });
+
+    it("removes the clone with the repository", async () => {
+      await commitDoc("First");
+      const { repository } = await addRepository("github:owner/docs", undefined, undefined, { remote });
+
+      expect(await removeRepository("github:owner/docs")).toEqual({ success: true });
+      expect(await exists(getRepoCloneDir(repository!))).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm, readFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  tokenize,
+  indexDoc,
+  createSearchIndex,
+  updateSearchIndex,
+  refreshSearchIndex,
+  loadSearchIndex,
+  searchIndex,
+  getSnippet,
+} from "../lib/search-index";
+import { saveConfig, writeDocToUserDir } from "../lib/store";
+import { search } from "../commands/search";
+import type { ParsedDoc } from "../lib/types";
+
+const doc = (path: string, topic: string, content: string, tags?: string[]): ParsedDoc => ({
+  path,
+  frontmatter: { topic, title: topic.split("/").pop()!, ...(tags ? { tags } : {}) },
+  content,
+  lineCount: content.split("\n").length,
+});
+
+const routing = doc(
+  "routing.md",
+  "nextjs/routing",
+  [
+    "Routing in Next.js is file based.",
+    "",
+    "## Dynamic Routes",
+    "",
+    "Wrap a folder name in brackets to create a dynamic segment, e.g. [slug].",
+    "",
+    "## Middleware",
+    "",
+    "Middleware runs before a request is completed.",
+    "",
+    "## Middleware",
+    "",
+    "A second section with the same heading.",
+  ].join("\n")
+);
+const hooks = doc("hooks.md", "react/hooks", "# Hooks\n\nuseState and useEffect manage state and effects.", ["state"]);
+
+describe("search index", () => {
+  it("tokenizes to lowercase terms without stopwords", () => {
+    expect(tokenize("The Dynamic-Routes of [slug] in Next.js 15")).toEqual([
+      "dynamic", "routes", "slug", "next", "js", "15",
+    ]);
+  });
+
+  it("indexes sections with unique anchors and the metadata in the intro", () => {
+    const indexed = indexDoc("nextjs", routing, "hash");
+    expect(indexed.sections.map((s) => [s.heading, s.anchor, s.startLine])).toEqual([
+      ["", "", 1],
+      ["Dynamic Routes", "dynamic-routes", 3],
+      ["Middleware", "middleware", 7],
+      ["Middleware", "middleware-1", 11],
+    ]);
+    expect(indexed.sections[0].terms.nextjs).toBe(1);
+    expect(indexed.sections[1].terms.dynamic).toBe(3);
+  });
+
+  it("ranks the most relevant section first", () => {
+    const index = createSearchIndex();
+    updateSearchIndex(index, new Map([["nextjs", [routing]], ["react", [hooks]]]));
+
+    const hits = searchIndex(index, "dynamic segment");
+    expect(hits[0].section.anchor).toBe("dynamic-routes");
+    expect(searchIndex(index, "state")[0].doc.topic).toBe("react/hooks");
+    expect(searchIndex(index, "middle").map((h) => h.section.anchor)).toEqual(["middleware", "middleware-1"]);
+    expect(searchIndex(index, "state", { sources: ["nextjs"] })).toEqual([]);
+    expect(searchIndex(index, "kubernetes")).toEqual([]);
+  });
+
+  it("re-indexes only changed docs and drops removed ones", () => {
+    const index = createSearchIndex();
+    expect(updateSearchIndex(index, new Map([["nextjs", [routing]], ["react", [hooks]]]))).toEqual({ indexed: 2, removed: 0 });
+    expect(updateSearchIndex(index, new Map([["nextjs", [routing]], ["react", [hooks]]]))).toEqual({ indexed: 0, removed: 0 });
+
+    const changed = { ...routing, content: `${routing.content}\n\n## Caching\n\nRevalidate data.` };
+    expect(updateSearchIndex(index, new Map([["nextjs", [changed]]]))).toEqual({ indexed: 1, removed: 1 });
+    expect(searchIndex(index, "revalidate")[0].section.anchor).toBe("caching");
+  });
+
+  it("caches the index on disk", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "docs-skill-index-test-"));
+    try {
+      const indexPath = join(tempDir, "cache", "search-index.json");
+      await refreshSearchIndex(indexPath, new Map([["react", [hooks]]]));
+      expect(Object.keys((await loadSearchIndex(indexPath)).docs)).toHaveLength(1);
+      expect(await readFile(join(tempDir, "cache", ".gitignore"), "utf-8")).toBe("*\n");
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("excerpts the line with the first matched term", () => {
+    const index = createSearchIndex();
+    updateSearchIndex(index, new Map([["nextjs", [routing]]]));
+    const [hit] = searchIndex(index, "brackets");
+    expect(getSnippet(routing.content, hit.section, hit.matchedTerms)).toBe(
+      "Wrap a folder name in brackets to create a dynamic segment, e.g. [slug]."
+    );
+
+    const long = { ...hit.section, startLine: 1, endLine: 1 };
+    const snippet = getSnippet(`${"word ".repeat(60)}brackets ${"tail ".repeat(60)}`, long, ["brackets"]);
+    expect(snippet.startsWith("...")).toBe(true);
+    expect(snippet.endsWith("...")).toBe(true);
+    expect(snippet).toContain("brackets");
+  });
+});
+
+describe("search command", () => {
+  const previousHome = process.env.DOCS_SKILL_HOME;
+  let tempDir: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "docs-skill-search-test-"));
+    process.env.DOCS_SKILL_HOME = join(tempDir, "home");
+    output = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      output.push(args.join(" "));
+    });
+  });
+
+  afterEach(async () => {
+    if (previousHome === undefined) {
+      delete process.env.DOCS_SKILL_HOME;
+    } else {
+      process.env.DOCS_SKILL_HOME = previousHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("searches synced docs and prints JSON", async () => {
+    await saveConfig(tempDir, { version: 1, topics: ["**"] });
+    await writeDocToUserDir(tempDir, { ...routing, path: "nextjs/routing.md" });
+    await writeDocToUserDir(tempDir, { ...hooks, path: "react/hooks.md" });
+
+    const results = await search({ cwd: tempDir, query: "middleware", syncedOnly: true, json: true });
+    expect(results.map((r) => `${r.topic}#${r.anchor}`)).toEqual(["nextjs/routing#middleware", "nextjs/routing#middleware-1"]);
+    expect(results[0]).toMatchObject({ source: "nextjs", path: "nextjs/routing.md", heading: "Middleware", line: 7 });
+    expect(JSON.parse(output.join("\n"))).toHaveLength(2);
+
+    const filtered = await search({ cwd: tempDir, query: "state", syncedOnly: true, source: "nextjs", json: true });
+    expect(filtered).toEqual([]);
+  });
+});
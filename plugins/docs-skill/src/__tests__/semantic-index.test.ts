@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm, mkdir, writeFile, access } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createHashingEmbedder,
+  createHttpEmbedder,
+  cosineSimilarity,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from "../lib/embeddings";
+import {
+  fuseRankings,
+  getEmbeddingIndexPath,
+  loadEmbeddingIndex,
+  refreshEmbeddingIndex,
+  semanticSearch,
+  updateEmbeddingIndex,
+} from "../lib/semantic-index";
+import { addRepository } from "../lib/repo-store";
+import { saveConfig } from "../lib/store";
+import { pull } from "../commands/pull";
+import { search } from "../commands/search";
+import type { ParsedDoc } from "../lib/types";
+
+const doc = (path: string, topic: string, content: string): ParsedDoc => ({
+  path,
+  frontmatter: { topic, title: topic.split("/").pop()! },
+  content,
+  lineCount: content.split("\n").length,
+});
+
+const invalidation = doc(
+  "invalidation.md",
+  "query/invalidation",
+  "# Query Invalidation\n\nCall invalidateQueries after a mutation succeeds to refetch stale queries."
+);
+const devtools = doc("devtools.md", "query/devtools", "# Devtools\n\nInspect the cache in the browser panel.");
+
+describe("hashing embedder", () => {
+  const embedder = createHashingEmbedder(256);
+
+  it("embeds deterministically as unit vectors", async () => {
+    const [a, b] = await embedder.embed(["refetch stale queries", "refetch stale queries"]);
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(256);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 6);
+    expect(embedder.id).toBe("hashing-256");
+  });
+
+  it("puts related word forms closer than unrelated text", async () => {
+    const [query, related, unrelated] = await embedder.embed([
+      "how do I invalidate a query after mutation",
+      "Call invalidateQueries after a mutation to invalidate queries",
+      "Inspect the cache in the browser panel",
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("is the provider when none is configured", () => {
+    expect(getEmbeddingProvider().id).toBe("hashing-512");
+    expect(() => getEmbeddingProvider({ provider: "http" })).toThrow("needs 'url' and 'model'");
+  });
+});
+
+describe("http embedder", () => {
+  it("posts batches to an OpenAI-compatible endpoint", async () => {
+    const requests: Array<{ model: string; input: string[] }> = [];
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const body = (await request.json()) as { model: string; input: string[] };
+        requests.push(body);
+        // Out of order, as the index field allows
+        const data = body.input.map((text, index) => ({ index, embedding: [text.length, 0] })).reverse();
+        return Response.json({ data });
+      },
+    });
+    try {
+      const embedder = createHttpEmbedder(`http://localhost:${server.port}/v1/embeddings`, "tiny");
+      const vectors = await embedder.embed(["ab", "abc"]);
+      expect(requests).toEqual([{ model: "tiny", input: ["ab", "abc"] }]);
+      expect(vectors).toEqual([[1, 0], [1, 0]]);
+      expect(embedder.id).toBe("http:tiny");
+    } finally {
+      server.stop(true);
+    }
+  });
+});
+
+describe("embedding index", () => {
+  let embedded: string[];
+  const counting = (id = "test"): EmbeddingProvider => {
+    const inner = createHashingEmbedder(64);
+    return {
+      id,
+      embed: async (texts) => {
+        embedded.push(...texts);
+        return inner.embed(texts);
+      },
+    };
+  };
+
+  beforeEach(() => {
+    embedded = [];
+  });
+
+  it("embeds only new and changed docs", async () => {
+    const index = { version: 1 as const, provider: "test", docs: {} };
+    const docs = new Map([["query", [invalidation, devtools]]]);
+    expect(await updateEmbeddingIndex(index, docs, counting())).toEqual({ embedded: 2, removed: 0 });
+    expect(embedded).toHaveLength(4);
+
+    embedded = [];
+    const changed = { ...devtools, content: `${devtools.content}\n\n## Panels\n\nQuery and mutation panels.` };
+    expect(await updateEmbeddingIndex(index, new Map([["query", [invalidation, changed]]]), counting())).toEqual({
+      embedded: 1,
+      removed: 0,
+    });
+    expect(embedded).toHaveLength(3);
+  });
+
+  it("ranks sections by similarity and rebuilds for another provider", async () => {
+    const tempDir = await mkdtemp(join(tmpdir(), "docs-skill-embed-test-"));
+    try {
+      const provider = counting();
+      const index = await refreshEmbeddingIndex(tempDir, new Map([["query", [invalidation, devtools]]]), provider);
+      const [queryVector] = await provider.embed(["how do I invalidate a query after mutation"]);
+      const hits = semanticSearch(index, queryVector);
+      expect(hits[0].doc.topic).toBe("query/invalidation");
+      expect(semanticSearch(index, queryVector, { sources: ["other"] })).toEqual([]);
+
+      await access(getEmbeddingIndexPath(tempDir));
+      expect(Object.keys((await loadEmbeddingIndex(tempDir, "test")).docs)).toHaveLength(2);
+      expect((await loadEmbeddingIndex(tempDir, "another")).docs).toEqual({});
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("fuses rankings by reciprocal rank", () => {
+    const fused = fuseRankings([["a", "b"], ["b", "c"]], (x) => x);
+    expect(fused.map((f) => f.item)).toEqual(["b", "a", "c"]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61, 10);
+  });
+});
+
+describe("semantic search and pull", () => {
+  const previousHome = process.env.DOCS_SKILL_HOME;
+  let tempDir: string;
+  let projectDir: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "docs-skill-semantic-test-"));
+    process.env.DOCS_SKILL_HOME = join(tempDir, "home");
+    projectDir = join(tempDir, "project");
+    const repoDir = join(tempDir, "repo");
+    await mkdir(join(repoDir, "docs"), { recursive: true });
+    for (const d of [invalidation, devtools]) {
+      await writeFile(join(repoDir, "docs", d.path), `---\ntopic: ${d.frontmatter.topic}\ntitle: ${d.frontmatter.title}\n---\n\n${d.content}\n`);
+    }
+    expect((await addRepository(repoDir)).success).toBe(true);
+
+    output = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      output.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    if (previousHome === undefined) {
+      delete process.env.DOCS_SKILL_HOME;
+    } else {
+      process.env.DOCS_SKILL_HOME = previousHome;
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("updates a configured embedding index on pull", async () => {
+    await saveConfig(projectDir, { version: 1, topics: ["query/**"], embeddings: { provider: "hashing", dimensions: 128 } });
+    await pull({ cwd: projectDir });
+
+    expect(output).toContain("Updated the semantic index (docs search --semantic)");
+    expect(Object.keys((await loadEmbeddingIndex(projectDir, "hashing-128")).docs)).toHaveLength(2);
+  });
+
+  it("searches synced docs semantically and hybrid", async () => {
+    await saveConfig(projectDir, { version: 1, topics: ["query/**"] });
+    await pull({ cwd: projectDir });
+    await expect(access(getEmbeddingIndexPath(projectDir))).rejects.toThrow();
+
+    const query = "how do I invalidate a query after mutation";
+    const semantic = await search({ cwd: projectDir, query, semantic: true, json: true });
+    expect(semantic[0]).toMatchObject({ topic: "query/invalidation", anchor: "query-invalidation" });
+
+    const hybrid = await search({ cwd: projectDir, query, hybrid: true, json: true });
+    expect(hybrid[0].topic).toBe("query/invalidation");
+    expect(hybrid[0].snippet).toContain("invalidateQueries");
+  });
+});
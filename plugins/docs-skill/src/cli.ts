@@ -29,19 +29,21 @@ MAINTAINER COMMANDS:
 
 USER COMMANDS:
   init                          Create .docs/ folder with config
-  search <query>                Search available docs and topics
+  search <query>                Search docs by relevance, down to sections
   config [--add | --remove]     View or modify topic patterns
   check                         Validate config against available docs
-  pull [--force]                Sync configured docs to .docs/ folder
+  pull [--force] [--frozen]     Sync configured docs to .docs/ folder
   list [path]                   Browse synced docs progressively
   show <topic>                  Display full content of a doc
   inject-claude                 Update CLAUDE.md with synced docs info
   ui [--port <number>]          Start web UI for managing docs
+  mcp                           Serve synced docs to agents over MCP (stdio)
 
 REPOSITORY COMMANDS:
   repo add <path>               Register a docs repository
   repo list                     List registered repositories
   repo remove <path>            Remove a repository
+  repo update [path]            Fetch GitHub repositories
 
 VERSION COMMANDS:
   version                       Show version information
@@ -76,6 +78,8 @@ EXAMPLES:
 
   # Repository management
   docs repo add ~/projects/my-docs
+  docs repo add github:owner/docs-repo --ref v2.0
+  docs repo update
   docs repo list
   docs repo remove ~/projects/my-docs
 
@@ -134,14 +138,41 @@ const SEARCH_HELP = `
 docs search - Search available documentation
 
 USAGE:
-  docs search <query>
+  docs search <query> [options]
 
 ARGUMENTS:
-  <query>  Search term to find in topic names, titles, and descriptions
+  <query>  Words to find in doc content, headings, titles, topics and tags
+
+OPTIONS:
+  --source <name>  Only search one plugin source or repository
+  --synced-only    Only search the docs synced to .docs/
+  --semantic       Rank synced docs by meaning (embeddings) instead of words
+  --hybrid         Combine the word and semantic rankings of synced docs
+  --json           Output results as JSON
+
+DESCRIPTION:
+  Ranks doc sections by relevance (BM25) and shows each match with
+  its heading anchor and a snippet. The index is cached and only
+  re-indexes docs that changed since the last search.
+
+  Semantic search embeds the sections of the synced docs into
+  .docs/.cache/. Without configuration it uses an offline hashing
+  embedder; for a real model, point it at an OpenAI-compatible
+  endpoint in .docs/config.yml (and 'docs pull' keeps it updated):
+
+    embeddings:
+      provider: http
+      url: http://localhost:11434/v1/embeddings
+      model: nomic-embed-text
+
+  An API key, if needed, is read from DOCS_SKILL_EMBEDDINGS_API_KEY.
 
 EXAMPLES:
   docs search routing
   docs search "data fetching"
+  docs search middleware --source github:vercel/next.js
+  docs search "server actions" --synced-only --json
+  docs search "how do I invalidate a query after a mutation" --hybrid
 `.trim();
 
 const CONFIG_HELP = `
@@ -186,18 +217,24 @@ const PULL_HELP = `
 docs pull - Sync configured docs to .docs folder
 
 USAGE:
-  docs pull [--force]
+  docs pull [--force] [--frozen]
 
 OPTIONS:
-  --force  Overwrite existing files without prompting
+  --force   Overwrite existing files without prompting
+  --frozen  Fail, writing nothing, if the docs differ from .docs/docs-lock.yml
 
 DESCRIPTION:
   Copies documentation files matching your topic patterns from
   the plugin's docs to your .docs/ folder.
 
+  Each pull records the topics it wrote in .docs/docs-lock.yml, with
+  their source repository, revision and content hash. Commit the lock
+  and run 'docs pull --frozen' so everyone reads the exact same docs.
+
 EXAMPLES:
-  docs pull          # Sync matching docs
-  docs pull --force  # Overwrite existing files
+  docs pull           # Sync matching docs
+  docs pull --force   # Overwrite existing files
+  docs pull --frozen  # Sync exactly what docs-lock.yml records (CI)
 `.trim();
 
 const REPO_HELP = `
@@ -207,19 +244,32 @@ USAGE:
   docs repo add <path>          Register a new repository
   docs repo list                List all registered repositories
   docs repo remove <path>       Remove a repository
+  docs repo update [path]       Fetch GitHub repositories (all by default)
 
 ARGUMENTS:
-  <path>  Local filesystem path or GitHub repository URL
+  <path>  Local filesystem path, GitHub repository URL or github:owner/repo
           Examples: /path/to/repo, ./relative/path, https://github.com/owner/repo
 
 OPTIONS:
   --docs-path <dir>  Subdirectory containing docs (default: "docs/")
+  --ref <ref>        GitHub: branch, tag or commit to pin to
+                     (default: the default branch)
+  --remote <url>     GitHub: git URL to clone from instead of github.com
+                     (a mirror, or a local bare repository)
+
+DESCRIPTION:
+  GitHub repositories are cloned under ~/.docs-skill/cache/ and read
+  at the commit their ref resolved to. 'docs repo update' fetches them:
+  a branch moves to its latest commit, tags and commits stay put.
+  'docs pull' records the commit it read in .docs/config.yml.
 
 EXAMPLES:
   docs repo add ~/projects/my-framework
   docs repo add https://github.com/owner/docs-repo
+  docs repo add github:owner/docs-repo --ref v2.0
   docs repo add ./local-docs --docs-path content/
   docs repo list
+  docs repo update github:owner/docs-repo
   docs repo remove ~/projects/my-framework
 `.trim();
 
@@ -241,6 +291,29 @@ EXAMPLES:
   docs ui --port 8080
 `.trim();
 
+const MCP_HELP = `
+docs mcp - Serve synced docs over the Model Context Protocol
+
+USAGE:
+  docs mcp [--cwd <path>]
+
+DESCRIPTION:
+  Runs an MCP server on stdin/stdout for the docs in .docs/, so any
+  MCP-capable agent can browse them without parsing CLI output.
+
+  Tools:
+    search_docs   Ranked sections (keyword, semantic or hybrid)
+    list_docs     Subdirectories and docs under a topic path
+    show_doc      Full markdown of a doc by topic
+    show_section  One section of a doc by heading anchor or text
+
+  Resources: every synced doc, as docs://<topic>
+
+EXAMPLES:
+  docs mcp
+  claude mcp add docs -- docs mcp --cwd /path/to/project
+`.trim();
+
 const LIST_HELP = `
 docs list - Browse synced documentation progressively
 
@@ -386,7 +459,15 @@ async function main() {
           console.log(SEARCH_HELP);
           process.exit(1);
         }
-        await search({ cwd, query });
+        await search({
+          cwd,
+          query,
+          source: typeof parsed.source === "string" ? parsed.source : undefined,
+          syncedOnly: Boolean(parsed["synced-only"]),
+          semantic: Boolean(parsed.semantic),
+          hybrid: Boolean(parsed.hybrid),
+          json: Boolean(parsed.json),
+        });
         break;
       }
 
@@ -417,7 +498,10 @@ async function main() {
           console.log(PULL_HELP);
           process.exit(0);
         }
-        await pull({ cwd, force: Boolean(parsed.force) });
+        const result = await pull({ cwd, force: Boolean(parsed.force), frozen: Boolean(parsed.frozen) });
+        if (!result.success) {
+          process.exit(1);
+        }
         break;
       }
 
@@ -459,9 +543,9 @@ async function main() {
           console.log(REPO_HELP);
           process.exit(0);
         }
-        const subcommand = commandArgs[0] as "add" | "list" | "remove";
-        if (!subcommand || !["add", "list", "remove"].includes(subcommand)) {
-          console.error("Usage: docs repo <add|list|remove> [path]");
+        const subcommand = commandArgs[0] as "add" | "list" | "remove" | "update";
+        if (!subcommand || !["add", "list", "remove", "update"].includes(subcommand)) {
+          console.error("Usage: docs repo <add|list|remove|update> [path]");
           process.exit(1);
         }
         await repo({
@@ -469,6 +553,8 @@ async function main() {
           subcommand,
           path: commandArgs[1],
           docsPath: typeof parsed["docs-path"] === "string" ? parsed["docs-path"] : undefined,
+          ref: typeof parsed.ref === "string" ? parsed.ref : undefined,
+          remote: typeof parsed.remote === "string" ? parsed.remote : undefined,
         });
         break;
       }
@@ -484,6 +570,16 @@ async function main() {
         break;
       }
 
+      case "mcp": {
+        if (parsed.help || parsed.h) {
+          console.log(MCP_HELP);
+          process.exit(0);
+        }
+        const { mcp } = await import("./commands/mcp");
+        await mcp({ cwd, version: getCurrentVersion() });
+        break;
+      }
+
       case "version":
         console.log(`docs v${getCurrentVersion()}`);
         break;
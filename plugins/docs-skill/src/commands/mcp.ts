@@ -0,0 +1,34 @@
+/**
+ * mcp command - Serve the synced docs over the Model Context Protocol (stdio)
+ */
+
+import { createInterface } from "readline";
+import { createMcpHandler, handleLine } from "../lib/mcp-server";
+import { docsDirExists } from "../lib/store";
+
+export interface McpArgs {
+  cwd: string;
+  version: string;
+}
+
+export async function mcp(args: McpArgs): Promise<void> {
+  const { cwd, version } = args;
+
+  // stdout carries the protocol: everything else goes to stderr
+  if (!(await docsDirExists(cwd))) {
+    console.error("No .docs/ folder found. Run 'docs init' and 'docs pull' first.");
+    process.exit(1);
+  }
+
+  const handleMessage = createMcpHandler({ cwd, version });
+  const lines = createInterface({ input: process.stdin, terminal: false });
+  console.error(`docs-skill MCP server ready (${cwd})`);
+
+  // One message per line; answer in order
+  for await (const line of lines) {
+    const response = await handleLine(handleMessage, line);
+    if (response) {
+      process.stdout.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+}
@@ -4,26 +4,37 @@
 
 import { rm } from "fs/promises";
 import { join } from "path";
-import type { PullArgs } from "../lib/types";
+import type { PullArgs, ParsedDoc, LockedTopic } from "../lib/types";
+import { LOCK_FILE } from "../lib/types";
 import {
   loadConfig,
   saveConfig,
   docsDirExists,
   writeDocToUserDir,
   getDocsDir,
+  formatDocFile,
+  loadUserDocsBySource,
 } from "../lib/store";
-import { loadAllRepoDocs, listRepositories } from "../lib/repo-store";
+import { loadAllRepoDocs, listRepositories, ensureRepoClone } from "../lib/repo-store";
+import { getHeadCommit } from "../lib/git";
+import { createLock, diffLock, hashContent, loadLock, saveLock } from "../lib/lockfile";
 import { getIncludedTopics } from "../lib/topic-matcher";
+import { getEmbeddingProvider } from "../lib/embeddings";
+import { refreshEmbeddingIndex } from "../lib/semantic-index";
 
 export interface PullResult {
   success: boolean;
   error?: string;
   writtenCount?: number;
   bySource?: Map<string, number>;
+  /** Commit each GitHub repository was read at */
+  commits?: Record<string, string>;
+  /** Topics written, as recorded in docs-lock.yml */
+  locked?: LockedTopic[];
 }
 
 export async function pull(args: PullArgs): Promise<PullResult> {
-  const { cwd, force } = args;
+  const { cwd, frozen } = args;
 
   // Check if initialized
   if (!(await docsDirExists(cwd))) {
@@ -39,12 +50,39 @@ export async function pull(args: PullArgs): Promise<PullResult> {
     return { success: false, error };
   }
 
-  if (config.topics.length === 0) {
+  // A frozen pull still has to compare an empty selection against the lock
+  if (config.topics.length === 0 && !frozen) {
     console.log("No topic patterns configured.");
     console.log("Add patterns with: docs config --add \"<pattern>\"");
     return { success: true, writtenCount: 0 };
   }
 
+  // GitHub repositories are read from their clones, at the commit they are
+  // pinned to ('docs repo update' moves them)
+  const repos = await listRepositories();
+  const commits: Record<string, string> = {};
+  for (const repo of repos) {
+    if (repo.type !== "github") continue;
+    try {
+      commits[repo.id] = await ensureRepoClone(repo);
+    } catch (error) {
+      const message = `Failed to clone ${repo.id}: ${(error as Error).message}`;
+      console.error(message);
+      return { success: false, error: message };
+    }
+  }
+
+  // Local repositories in git are read at their checked out commit
+  const revisions: Record<string, string> = { ...commits };
+  for (const repo of repos) {
+    if (repo.type !== "local") continue;
+    try {
+      revisions[repo.id] = await getHeadCommit(repo.path);
+    } catch {
+      // Not a git repository: the lock has only content hashes
+    }
+  }
+
   // Load all docs from registered repositories
   const allDocs = await loadAllRepoDocs();
 
@@ -65,6 +103,40 @@ export async function pull(args: PullArgs): Promise<PullResult> {
   // Filter to included topics
   const includedTopics = new Set(getIncludedTopics(allTopics, config.topics));
 
+  // Resolve what would be written, and its lock entries
+  const toWrite: { repoId: string; doc: ParsedDoc }[] = [];
+  const locked: LockedTopic[] = [];
+  for (const [repoId, docs] of allDocs) {
+    // Use a safe folder name for the repo
+    const folderName = repoId.replace(/[/:]/g, "_");
+
+    for (const doc of docs) {
+      if (includedTopics.has(doc.frontmatter.topic)) {
+        // Update path to include source prefix
+        const docWithPath = {
+          ...doc,
+          path: join(folderName, doc.path),
+        };
+        toWrite.push({ repoId, doc: docWithPath });
+        locked.push({
+          topic: doc.frontmatter.topic,
+          source: repoId,
+          ...(revisions[repoId] ? { revision: revisions[repoId] } : {}),
+          hash: hashContent(formatDocFile(docWithPath)),
+        });
+      }
+    }
+  }
+
+  // A frozen pull writes nothing unless it reproduces the lock exactly
+  if (frozen) {
+    const error = await checkFrozen(cwd, locked);
+    if (error) {
+      console.error(error);
+      return { success: false, error };
+    }
+  }
+
   if (includedTopics.size === 0) {
     console.log("No topics matched your patterns.");
     console.log("Run 'docs check' to see what your patterns select.");
@@ -75,7 +147,6 @@ export async function pull(args: PullArgs): Promise<PullResult> {
 
   // Clean existing doc files (keep config.yml)
   const docsDir = getDocsDir(cwd);
-  const repos = await listRepositories();
   for (const repo of repos) {
     // Use a safe folder name for the repo
     const folderName = repo.id.replace(/[/:]/g, "_");
@@ -90,41 +161,91 @@ export async function pull(args: PullArgs): Promise<PullResult> {
   let writtenCount = 0;
   const bySource = new Map<string, number>();
 
-  for (const [repoId, docs] of allDocs) {
-    // Use a safe folder name for the repo
-    const folderName = repoId.replace(/[/:]/g, "_");
+  for (const { repoId, doc } of toWrite) {
+    await writeDocToUserDir(cwd, doc);
+    writtenCount++;
 
-    for (const doc of docs) {
-      if (includedTopics.has(doc.frontmatter.topic)) {
-        // Update path to include source prefix
-        const docWithPath = {
-          ...doc,
-          path: join(folderName, doc.path),
-        };
-        await writeDocToUserDir(cwd, docWithPath);
-        writtenCount++;
+    // Track count by source
+    const currentCount = bySource.get(repoId) ?? 0;
+    bySource.set(repoId, currentCount + 1);
+  }
 
-        // Track count by source
-        const currentCount = bySource.get(repoId) ?? 0;
-        bySource.set(repoId, currentCount + 1);
-      }
+  // The lock already matches a frozen pull
+  if (!frozen) {
+    await saveLock(cwd, createLock(locked));
+  }
+
+  // Keep the optional embedding index in step; the docs are synced either way
+  let embeddingError: string | undefined;
+  if (config.embeddings) {
+    try {
+      const provider = getEmbeddingProvider(config.embeddings);
+      await refreshEmbeddingIndex(cwd, await loadUserDocsBySource(cwd), provider);
+    } catch (error) {
+      embeddingError = (error as Error).message;
     }
   }
 
-  // Update lastSync
+  // Update lastSync and the commits the docs came from
   config.lastSync = new Date().toISOString();
+  const pulledCommits = Object.fromEntries(Object.entries(commits).filter(([id]) => bySource.has(id)));
+  if (Object.keys(pulledCommits).length > 0) {
+    config.commits = pulledCommits;
+  } else {
+    delete config.commits;
+  }
   await saveConfig(cwd, config);
 
   // Summary
   console.log("Sync complete!\n");
   console.log(`Written ${writtenCount} document(s) to ${docsDir}/`);
+  console.log(frozen ? `Matched ${LOCK_FILE}` : `Locked in ${LOCK_FILE}`);
+  if (config.embeddings) {
+    console.log(
+      embeddingError
+        ? `Semantic index not updated: ${embeddingError}`
+        : "Updated the semantic index (docs search --semantic)"
+    );
+  }
 
   for (const [source, count] of bySource) {
-    console.log(`  ${source}: ${count} files`);
+    const commit = commits[source];
+    console.log(`  ${source}: ${count} files${commit ? ` @ ${commit.slice(0, 7)}` : ""}`);
   }
 
   console.log();
   console.log("Docs are now available in your .docs/ folder.");
 
-  return { success: true, writtenCount, bySource };
+  return { success: true, writtenCount, bySource, commits: pulledCommits, locked };
+}
+
+/**
+ * Check the topics a pull would write against docs-lock.yml
+ * @returns an error listing the differences, or null if they match
+ */
+async function checkFrozen(cwd: string, locked: LockedTopic[]): Promise<string | null> {
+  let lock;
+  try {
+    lock = await loadLock(cwd);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  if (!lock) {
+    return `No ${LOCK_FILE} found. Run 'docs pull' without --frozen to create it.`;
+  }
+
+  const differences = diffLock(lock, locked);
+  if (differences.length === 0) {
+    return null;
+  }
+
+  const symbols = { added: "+", removed: "-", changed: "~" };
+  const lines = differences.map(
+    (diff) => `  ${symbols[diff.change]} ${diff.topic} (${diff.source}, ${diff.change})`
+  );
+  return [
+    `Docs differ from ${LOCK_FILE}:`,
+    ...lines,
+    "Run 'docs pull' without --frozen to update the lock.",
+  ].join("\n");
 }
@@ -7,11 +7,12 @@ import {
   addRepository,
   removeRepository,
   listRepositories,
+  updateRepositories,
   getRepositoriesPath,
 } from "../lib/repo-store";
 
 export async function repo(args: RepoArgs): Promise<void> {
-  const { subcommand, path, docsPath } = args;
+  const { subcommand, path, docsPath, ref, remote } = args;
 
   switch (subcommand) {
     case "add": {
@@ -21,7 +22,7 @@ export async function repo(args: RepoArgs): Promise<void> {
         process.exit(1);
       }
 
-      const result = await addRepository(path, docsPath);
+      const result = await addRepository(path, docsPath, undefined, { ref, remote });
       if (!result.success) {
         console.error(`Error: ${result.error}`);
         process.exit(1);
@@ -33,6 +34,10 @@ export async function repo(args: RepoArgs): Promise<void> {
       if (result.repository!.docsPath) {
         console.log(`  Docs path: ${result.repository!.docsPath}`);
       }
+      if (result.repository!.commit) {
+        console.log(`  Ref: ${result.repository!.ref ?? "(default branch)"}`);
+        console.log(`  Commit: ${result.repository!.commit}`);
+      }
       break;
     }
 
@@ -54,6 +59,16 @@ export async function repo(args: RepoArgs): Promise<void> {
         if (r.docsPath) {
           console.log(`    Docs path: ${r.docsPath}`);
         }
+        if (r.type === "github") {
+          if (r.remote) {
+            console.log(`    Remote: ${r.remote}`);
+          }
+          console.log(`    Ref: ${r.ref ?? "(default branch)"}`);
+          console.log(`    Commit: ${r.commit ?? "(not cloned)"}`);
+          if (r.fetchedAt) {
+            console.log(`    Fetched: ${r.fetchedAt}`);
+          }
+        }
         console.log(`    Added: ${r.addedAt}`);
         console.log();
       }
@@ -79,6 +94,31 @@ export async function repo(args: RepoArgs): Promise<void> {
       break;
     }
 
+    case "update": {
+      const result = await updateRepositories(path);
+      if (!result.success) {
+        console.error(`Error: ${result.error}`);
+        process.exit(1);
+      }
+
+      if (result.updated!.length === 0) {
+        console.log("No GitHub repositories to update.");
+        return;
+      }
+
+      for (const { repository, previousCommit } of result.updated!) {
+        const commit = repository.commit!.slice(0, 7);
+        if (previousCommit === repository.commit) {
+          console.log(`${repository.id}: up to date (${commit})`);
+        } else {
+          console.log(`${repository.id}: ${previousCommit ? previousCommit.slice(0, 7) : "(none)"} -> ${commit}`);
+        }
+      }
+      console.log();
+      console.log("Run 'docs pull' to sync the updated docs.");
+      break;
+    }
+
     default:
       console.error(`Unknown repo subcommand: ${subcommand}`);
       process.exit(1);
@@ -0,0 +1,101 @@
+/**
+ * Doc search: keyword, semantic or hybrid ranking of doc sections
+ */
+
+import { join } from "path";
+import type { SearchArgs, DocSearchResult, ParsedDoc, IndexedSection, IndexedDoc } from "./types";
+import { SEARCH_INDEX_FILE } from "./types";
+import { loadAllDocs, loadConfig, loadUserDocsBySource, getDocsCacheDir } from "./store";
+import { loadAllRepoDocs, getGlobalConfigDir } from "./repo-store";
+import { docKey, getSnippet, refreshSearchIndex, searchIndex, tokenize } from "./search-index";
+import { fuseRankings, refreshEmbeddingIndex, semanticSearch } from "./semantic-index";
+import { getEmbeddingProvider } from "./embeddings";
+
+/** Hits taken from each ranking before a hybrid search fuses them */
+const HYBRID_CANDIDATES = 30;
+
+type DocInfo = Pick<IndexedDoc, "source" | "path" | "topic" | "title" | "description">;
+type SectionInfo = Pick<IndexedSection, "heading" | "anchor" | "startLine" | "endLine">;
+
+/**
+ * Rank doc sections for a search, without printing anything
+ */
+export async function findDocs(
+  args: Omit<SearchArgs, "json"> & { limit?: number }
+): Promise<DocSearchResult[]> {
+  const { cwd, query, source, syncedOnly, semantic, hybrid, limit } = args;
+  const sources = source ? [source, `repo:${source}`] : undefined;
+
+  let allDocs: Map<string, ParsedDoc[]>;
+  let indexPath: string;
+
+  // Semantic and hybrid search use the embedding index, which covers the synced docs only
+  if (syncedOnly || semantic || hybrid) {
+    allDocs = await loadUserDocsBySource(cwd);
+    indexPath = join(getDocsCacheDir(cwd), SEARCH_INDEX_FILE);
+  } else {
+    // Load all docs from the plugin
+    allDocs = await loadAllDocs();
+
+    // Also load docs from registered repositories
+    const repoDocs = await loadAllRepoDocs();
+    for (const [repoId, docs] of repoDocs) {
+      allDocs.set(`repo:${repoId}`, docs);
+    }
+    indexPath = join(getGlobalConfigDir(), "cache", SEARCH_INDEX_FILE);
+  }
+
+  const contents = new Map<string, string>();
+  for (const [docSource, docs] of allDocs) {
+    for (const doc of docs) {
+      contents.set(docKey(docSource, doc.path), doc.content);
+    }
+  }
+
+  const toResult = (doc: DocInfo, section: SectionInfo, score: number, terms: string[]): DocSearchResult => ({
+    topic: doc.topic,
+    title: doc.title,
+    description: doc.description,
+    source: doc.source,
+    path: doc.path,
+    heading: section.heading,
+    anchor: section.anchor,
+    line: section.startLine,
+    score: Math.round(score * 1000) / 1000,
+    snippet: getSnippet(contents.get(docKey(doc.source, doc.path)) ?? "", section, terms) || doc.description || "",
+  });
+
+  let results: DocSearchResult[] = [];
+  let keywordResults: DocSearchResult[] = [];
+
+  if (!semantic || hybrid) {
+    // Re-index only the docs that changed since the last search
+    const index = await refreshSearchIndex(indexPath, allDocs);
+    keywordResults = searchIndex(index, query, { sources, limit: hybrid ? Math.max(HYBRID_CANDIDATES, limit ?? 0) : limit }).map(
+      ({ doc, section, score, matchedTerms }) => toResult(doc, section, score, matchedTerms)
+    );
+    results = keywordResults;
+  }
+
+  if (semantic || hybrid) {
+    const config = await loadConfig(cwd);
+    const provider = getEmbeddingProvider(config?.embeddings);
+    const embeddingIndex = await refreshEmbeddingIndex(cwd, allDocs, provider);
+    const [queryVector] = await provider.embed([query]);
+    const queryTerms = tokenize(query);
+    const semanticResults = semanticSearch(embeddingIndex, queryVector, {
+      sources,
+      limit: hybrid ? Math.max(HYBRID_CANDIDATES, limit ?? 0) : limit,
+    }).map(({ doc, section, score }) => toResult(doc, section, score, queryTerms));
+
+    results = hybrid
+      ? fuseRankings(
+          [keywordResults, semanticResults],
+          (result) => `${docKey(result.source, result.path)}#${result.anchor}`,
+          limit
+        ).map(({ item, score }) => ({ ...item, score: Math.round(score * 10000) / 10000 }))
+      : semanticResults;
+  }
+
+  return results;
+}
@@ -0,0 +1,138 @@
+/**
+ * Embedding providers for semantic search
+ */
+
+import type { EmbeddingsConfig } from "./types";
+import { tokenize } from "./search-index";
+
+const DEFAULT_DIMENSIONS = 512;
+/** Texts sent per request to an embeddings endpoint */
+const HTTP_BATCH_SIZE = 32;
+
+export interface EmbeddingProvider {
+  /** Identifies the vectors: indexes built by another provider are rebuilt */
+  id: string;
+  /** Embed texts as unit-length vectors, in order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors stay zero)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? vector : vector.map((x) => x / norm);
+}
+
+/**
+ * Dot product, the cosine similarity of unit vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// ============================================
+// HASHING PROVIDER
+// ============================================
+
+// FNV-1a, 32-bit
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic embedder that needs no model or network: words, word pairs
+ * and character trigrams are hashed into a fixed-size vector. Trigrams let
+ * word forms meet ("invalidate", "invalidation"); it is lexical, not a model.
+ */
+export function createHashingEmbedder(dimensions = DEFAULT_DIMENSIONS): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      vector[h % dimensions] += h & 0x80000000 ? -weight : weight;
+    };
+
+    const words = tokenize(text);
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.5);
+      const padded = ` ${word} `;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`t:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    // Dampen repeated features so long sections don't drown short ones
+    return normalizeVector(vector.map((x) => Math.sign(x) * Math.sqrt(Math.abs(x))));
+  };
+
+  return {
+    id: `hashing-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// ============================================
+// HTTP PROVIDER
+// ============================================
+
+/**
+ * Embedder backed by an OpenAI-compatible /embeddings endpoint (Ollama,
+ * LM Studio, llama.cpp server, or a hosted API). An API key, if any, comes
+ * from DOCS_SKILL_EMBEDDINGS_API_KEY.
+ */
+export function createHttpEmbedder(url: string, model: string): EmbeddingProvider {
+  const apiKey = process.env.DOCS_SKILL_EMBEDDINGS_API_KEY;
+
+  return {
+    id: `http:${model}`,
+    embed: async (texts) => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += HTTP_BATCH_SIZE) {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model, input: texts.slice(i, i + HTTP_BATCH_SIZE) }),
+        });
+        if (!response.ok) {
+          throw new Error(`Embedding request failed (${response.status}): ${await response.text()}`);
+        }
+
+        const body = (await response.json()) as { data?: Array<{ embedding: number[]; index?: number }> };
+        if (!Array.isArray(body.data)) {
+          throw new Error(`Unexpected embeddings response from ${url}`);
+        }
+        const batch = [...body.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+        vectors.push(...batch.map((item) => normalizeVector(item.embedding)));
+      }
+      return vectors;
+    },
+  };
+}
+
+/**
+ * Provider for a config's embeddings settings (hashing if none)
+ * @throws if an http provider lacks its url or model
+ */
+export function getEmbeddingProvider(config?: EmbeddingsConfig): EmbeddingProvider {
+  if (config?.provider === "http") {
+    if (!config.url || !config.model) {
+      throw new Error("The http embeddings provider needs 'url' and 'model' in .docs/config.yml");
+    }
+    return createHttpEmbedder(config.url, config.model);
+  }
+  return createHashingEmbedder(config?.dimensions);
+}
@@ -0,0 +1,91 @@
+/**
+ * Git operations for managed clones of documentation repositories
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { access } from "fs/promises";
+import { join } from "path";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run git and return its trimmed stdout
+ * @throws Error with git's stderr if the command fails
+ */
+async function git(args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (error as Error).message}`);
+  }
+}
+
+/**
+ * Check if a directory is the root of a git clone
+ */
+export async function isClone(dir: string): Promise<boolean> {
+  try {
+    await access(join(dir, ".git"));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Clone a remote (any URL or path git accepts) without checking out files.
+ * A remote starting with "-" is not read as an option.
+ */
+export async function cloneRepo(remote: string, dir: string): Promise<void> {
+  await git(["clone", "--quiet", "--no-checkout", "--", remote, dir]);
+}
+
+/**
+ * Fetch all branches and tags of a clone's origin
+ */
+export async function fetchRepo(dir: string): Promise<void> {
+  await git(["fetch", "--quiet", "--force", "--prune", "--tags", "origin"], dir);
+}
+
+/**
+ * Resolve a branch, tag or commit to a commit hash. Branches resolve to the
+ * fetched remote branch, so a fetch moves them; no ref means the remote's
+ * default branch.
+ * @throws if nothing in the clone matches the ref, or the ref starts with "-"
+ *   (git would read it as an option)
+ */
+export async function resolveRef(dir: string, ref?: string): Promise<string> {
+  if (ref?.startsWith("-")) {
+    throw new Error(`Invalid branch, tag or commit: ${ref}`);
+  }
+
+  const candidates = ref
+    ? [`refs/remotes/origin/${ref}`, `refs/tags/${ref}`, ref]
+    : ["refs/remotes/origin/HEAD"];
+
+  for (const candidate of candidates) {
+    try {
+      return await git(["rev-parse", "--verify", "--quiet", `${candidate}^{commit}`], dir);
+    } catch {
+      // Try the next kind of ref
+    }
+  }
+  throw new Error(ref ? `Unknown branch, tag or commit: ${ref}` : "The remote has no default branch");
+}
+
+/**
+ * Check out a commit (detached), discarding any local changes
+ */
+export async function checkoutCommit(dir: string, commit: string): Promise<void> {
+  await git(["checkout", "--quiet", "--force", "--detach", commit], dir);
+}
+
+/**
+ * The commit a clone has checked out
+ */
+export async function getHeadCommit(dir: string): Promise<string> {
+  return git(["rev-parse", "HEAD"], dir);
+}
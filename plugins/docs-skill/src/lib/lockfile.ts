@@ -0,0 +1,99 @@
+/**
+ * Lock file I/O (.docs/docs-lock.yml) and comparison for reproducible pulls
+ */
+
+import { createHash } from "crypto";
+import { readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import type { DocsLock, LockedTopic } from "./types";
+import { LOCK_FILE } from "./types";
+import { createDocsDir, getDocsDir } from "./store";
+
+// ============================================
+// LOCK FILE OPERATIONS
+// ============================================
+
+export function getLockPath(cwd: string): string {
+  return join(getDocsDir(cwd), LOCK_FILE);
+}
+
+/**
+ * Load the lock file, or null if there is none
+ * @throws if the lock file exists but is not a valid lock
+ */
+export async function loadLock(cwd: string): Promise<DocsLock | null> {
+  let content: string;
+  try {
+    content = await readFile(getLockPath(cwd), "utf-8");
+  } catch {
+    return null;
+  }
+
+  const lock = parseYaml(content) as DocsLock | null;
+  if (lock?.version !== 1 || !Array.isArray(lock.topics)) {
+    throw new Error(`Invalid ${LOCK_FILE}. Run 'docs pull' to regenerate it.`);
+  }
+  return lock;
+}
+
+export async function saveLock(cwd: string, lock: DocsLock): Promise<void> {
+  await createDocsDir(cwd);
+  await writeFile(getLockPath(cwd), stringifyYaml(lock));
+}
+
+/**
+ * Build a lock from pulled topics, in a stable order so the file diffs cleanly
+ */
+export function createLock(topics: LockedTopic[]): DocsLock {
+  const sorted = [...topics].sort(
+    (a, b) => a.source.localeCompare(b.source) || a.topic.localeCompare(b.topic)
+  );
+  return { version: 1, topics: sorted };
+}
+
+/**
+ * Hash the content of a written doc file
+ */
+export function hashContent(content: string): string {
+  return `sha256-${createHash("sha256").update(content).digest("hex")}`;
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+export interface LockDifference {
+  topic: string;
+  source: string;
+  /** added: not in the lock; removed: only in the lock; changed: different content */
+  change: "added" | "removed" | "changed";
+}
+
+/**
+ * Compare the topics a pull would write against a lock. Only content counts:
+ * a newer revision that leaves a doc as it was is not a difference.
+ * @returns differences sorted like the lock, empty if the pull matches it
+ */
+export function diffLock(lock: DocsLock, topics: LockedTopic[]): LockDifference[] {
+  const key = (entry: LockedTopic) => `${entry.source}\0${entry.topic}`;
+  const locked = new Map(lock.topics.map((entry) => [key(entry), entry]));
+  const differences: LockDifference[] = [];
+
+  for (const entry of createLock(topics).topics) {
+    const previous = locked.get(key(entry));
+    locked.delete(key(entry));
+    if (!previous) {
+      differences.push({ topic: entry.topic, source: entry.source, change: "added" });
+    } else if (previous.hash !== entry.hash) {
+      differences.push({ topic: entry.topic, source: entry.source, change: "changed" });
+    }
+  }
+  for (const entry of locked.values()) {
+    differences.push({ topic: entry.topic, source: entry.source, change: "removed" });
+  }
+
+  return differences.sort(
+    (a, b) => a.source.localeCompare(b.source) || a.topic.localeCompare(b.topic)
+  );
+}
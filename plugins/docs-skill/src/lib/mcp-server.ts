@@ -0,0 +1,393 @@
+/**
+ * Model Context Protocol server for the synced docs (JSON-RPC 2.0 messages;
+ * the transport lives in commands/mcp.ts)
+ */
+
+import type { ParsedDoc } from "./types";
+import { loadUserDocs } from "./store";
+import { buildDocTree, getNodeAtPath, getNodeContents, findSimilarTopics, type DocTreeNode } from "./doc-tree";
+import { splitDocSections } from "./search-index";
+import { findDocs } from "./doc-search";
+
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const RESOURCE_SCHEME = "docs://";
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+// ============================================
+// TOOLS
+// ============================================
+
+const TOOLS = [
+  {
+    name: "search_docs",
+    description:
+      "Search documentation and return the best matching sections, with topic, heading anchor and snippet. " +
+      "Searches the docs synced to .docs/ unless scope is 'available'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Words or a natural-language question" },
+        mode: {
+          type: "string",
+          enum: ["keyword", "semantic", "hybrid"],
+          description: "keyword (default) ranks by matching words; semantic and hybrid use embeddings",
+        },
+        scope: {
+          type: "string",
+          enum: ["synced", "available"],
+          description: "synced (default): this project's .docs/; available: every registered source (keyword only)",
+        },
+        source: { type: "string", description: "Only search this source or repository" },
+        limit: { type: "number", description: "Maximum results (default: 10)" },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "list_docs",
+    description:
+      "List the synced docs under a topic path: its subdirectories with doc counts and its docs with titles. " +
+      "Without a path, lists the top-level categories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Topic path, e.g., 'nextjs/routing'" },
+      },
+    },
+  },
+  {
+    name: "show_doc",
+    description: "Show the full markdown of a synced doc by its topic.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        topic: { type: "string", description: "Doc topic, e.g., 'nextjs/routing/dynamic-routes'" },
+      },
+      required: ["topic"],
+    },
+  },
+  {
+    name: "show_section",
+    description:
+      "Show one section of a synced doc, by heading anchor (as search_docs returns) or heading text. " +
+      "Cheaper than show_doc for long docs.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        topic: { type: "string", description: "Doc topic" },
+        section: { type: "string", description: "Heading anchor (e.g., 'dynamic-routes') or heading text" },
+      },
+      required: ["topic", "section"],
+    },
+  },
+];
+
+function text(value: unknown): ToolResult {
+  return { content: [{ type: "text", text: typeof value === "string" ? value : JSON.stringify(value, null, 2) }] };
+}
+
+function toolError(message: string): ToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new RpcError(INVALID_PARAMS, `Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Markdown of a doc with its metadata, as 'docs show' prints it
+ */
+function formatDoc(doc: ParsedDoc): string {
+  const { frontmatter } = doc;
+  const meta = [
+    `Topic: ${frontmatter.topic}`,
+    frontmatter.sourceUrl && `Source: ${frontmatter.sourceUrl}`,
+    frontmatter.version && `Version: ${frontmatter.version}`,
+    frontmatter.tags?.length && `Tags: ${frontmatter.tags.join(", ")}`,
+  ].filter(Boolean);
+
+  return [
+    `# ${frontmatter.title}`,
+    "",
+    ...meta,
+    ...(frontmatter.description ? ["", frontmatter.description] : []),
+    "",
+    "---",
+    "",
+    doc.content,
+  ].join("\n");
+}
+
+function notFound(docs: ParsedDoc[], topic: string): ToolResult {
+  const similar = findSimilarTopics(docs, topic).map((doc) => doc.frontmatter.topic);
+  return toolError(
+    `Topic not found: ${topic}` + (similar.length > 0 ? `\nDid you mean: ${similar.join(", ")}` : "")
+  );
+}
+
+function findDoc(tree: DocTreeNode, topic: string): ParsedDoc | null {
+  const node = getNodeAtPath(tree, topic.replace(/\/$/, ""));
+  return node?.isDoc && node.doc ? node.doc : null;
+}
+
+// ============================================
+// SERVER
+// ============================================
+
+export interface McpServerOptions {
+  /** Project directory with the .docs/ folder */
+  cwd: string;
+  /** Version reported to clients */
+  version: string;
+}
+
+/**
+ * Create a handler for MCP messages. Docs are re-read per request, so a
+ * 'docs pull' while the server runs is picked up.
+ * @returns a function resolving to the response, or null for notifications
+ */
+export function createMcpHandler(options: McpServerOptions) {
+  const { cwd, version } = options;
+
+  const loadTree = async () => {
+    const docs = await loadUserDocs(cwd);
+    return { docs, tree: buildDocTree(docs) };
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown>): Promise<ToolResult> => {
+    switch (name) {
+      case "search_docs": {
+        const query = requireString(args, "query");
+        const mode = args.mode ?? "keyword";
+        if (mode !== "keyword" && mode !== "semantic" && mode !== "hybrid") {
+          throw new RpcError(INVALID_PARAMS, `Invalid mode: ${String(mode)}`);
+        }
+        if (args.scope === "available" && mode !== "keyword") {
+          return toolError("Semantic and hybrid search cover the synced docs only. Use scope 'synced'.");
+        }
+
+        const results = await findDocs({
+          cwd,
+          query,
+          source: typeof args.source === "string" ? args.source : undefined,
+          syncedOnly: args.scope !== "available",
+          semantic: mode === "semantic",
+          hybrid: mode === "hybrid",
+          limit: typeof args.limit === "number" ? args.limit : undefined,
+        });
+        return text(results);
+      }
+
+      case "list_docs": {
+        const path = typeof args.path === "string" ? args.path.replace(/\/$/, "") : "";
+        const { tree } = await loadTree();
+        const node = getNodeAtPath(tree, path);
+        if (!node) {
+          return toolError(`Path not found: ${path}. List without a path to see the categories.`);
+        }
+        if (node.isDoc && node.doc) {
+          return toolError(`"${path}" is a doc. Use show_doc to read it.`);
+        }
+
+        const { directories, docs } = getNodeContents(node);
+        return text({
+          path,
+          directories: directories.map((dir) => ({
+            path: path ? `${path}/${dir.name}` : dir.name,
+            docCount: dir.docCount,
+          })),
+          docs: docs.map(({ doc }) => ({
+            topic: doc.frontmatter.topic,
+            title: doc.frontmatter.title,
+            description: doc.frontmatter.description,
+          })),
+        });
+      }
+
+      case "show_doc": {
+        const topic = requireString(args, "topic");
+        const { docs, tree } = await loadTree();
+        const doc = findDoc(tree, topic);
+        return doc ? text(formatDoc(doc)) : notFound(docs, topic);
+      }
+
+      case "show_section": {
+        const topic = requireString(args, "topic");
+        const wanted = requireString(args, "section").replace(/^#/, "");
+        const { docs, tree } = await loadTree();
+        const doc = findDoc(tree, topic);
+        if (!doc) {
+          return notFound(docs, topic);
+        }
+
+        const sections = splitDocSections(doc).filter((s) => s.heading);
+        const section =
+          sections.find((s) => s.anchor === wanted) ??
+          sections.find((s) => s.heading.toLowerCase() === wanted.toLowerCase());
+        if (!section) {
+          const anchors = sections.map((s) => s.anchor).join(", ");
+          return toolError(`No section "${wanted}" in ${topic}. Sections: ${anchors || "(none)"}`);
+        }
+
+        const lines = doc.content.split("\n").slice(section.startLine - 1, section.endLine);
+        return text(`${doc.frontmatter.title} > ${section.heading}\n\n${lines.join("\n").trim()}`);
+      }
+
+      default:
+        throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+  };
+
+  const dispatch = async (method: string, params: Record<string, unknown>): Promise<unknown> => {
+    switch (method) {
+      case "initialize": {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion:
+            typeof requested === "string" && PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: "docs-skill", version },
+          instructions:
+            "Documentation synced to this project's .docs/ folder. Use search_docs to find sections, " +
+            "list_docs to browse topics, and show_doc or show_section to read them.",
+        };
+      }
+
+      case "ping":
+        return {};
+
+      case "tools/list":
+        return { tools: TOOLS };
+
+      case "tools/call": {
+        const name = requireString(params, "name");
+        const args = (params.arguments ?? {}) as Record<string, unknown>;
+        try {
+          return await callTool(name, args);
+        } catch (error) {
+          // Bad arguments are protocol errors; failures while running are tool errors
+          if (error instanceof RpcError) throw error;
+          return toolError((error as Error).message);
+        }
+      }
+
+      case "resources/list": {
+        const { docs } = await loadTree();
+        return {
+          resources: docs
+            .map((doc) => ({
+              uri: `${RESOURCE_SCHEME}${doc.frontmatter.topic}`,
+              name: doc.frontmatter.topic,
+              title: doc.frontmatter.title,
+              ...(doc.frontmatter.description ? { description: doc.frontmatter.description } : {}),
+              mimeType: "text/markdown",
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        };
+      }
+
+      case "resources/templates/list":
+        return {
+          resourceTemplates: [
+            {
+              uriTemplate: `${RESOURCE_SCHEME}{+topic}`,
+              name: "Synced doc",
+              description: "A doc in .docs/ by topic",
+              mimeType: "text/markdown",
+            },
+          ],
+        };
+
+      case "resources/read": {
+        const uri = requireString(params, "uri");
+        if (!uri.startsWith(RESOURCE_SCHEME)) {
+          throw new RpcError(INVALID_PARAMS, `Unknown resource: ${uri}`);
+        }
+        const { tree } = await loadTree();
+        const doc = findDoc(tree, uri.slice(RESOURCE_SCHEME.length));
+        if (!doc) {
+          throw new RpcError(INVALID_PARAMS, `Resource not found: ${uri}`);
+        }
+        return { contents: [{ uri, mimeType: "text/markdown", text: formatDoc(doc) }] };
+      }
+
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  };
+
+  return async function handleMessage(message: unknown): Promise<JsonRpcResponse | null> {
+    const request = message as JsonRpcMessage;
+    const id = request?.id ?? null;
+
+    if (request?.jsonrpc !== "2.0" || typeof request.method !== "string") {
+      return { jsonrpc: "2.0", id, error: { code: INVALID_REQUEST, message: "Invalid JSON-RPC request" } };
+    }
+    // Notifications (initialized, cancelled...) need no answer
+    if (request.id === undefined) {
+      return null;
+    }
+
+    try {
+      const result = await dispatch(request.method, request.params ?? {});
+      return { jsonrpc: "2.0", id, result };
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : INTERNAL_ERROR;
+      return { jsonrpc: "2.0", id, error: { code, message: (error as Error).message } };
+    }
+  };
+}
+
+/**
+ * Parse one line of the stdio transport and handle it
+ */
+export async function handleLine(
+  handleMessage: ReturnType<typeof createMcpHandler>,
+  line: string
+): Promise<JsonRpcResponse | null> {
+  if (!line.trim()) {
+    return null;
+  }
+  let message: unknown;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return { jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } };
+  }
+  return handleMessage(message);
+}
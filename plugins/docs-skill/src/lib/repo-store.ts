@@ -2,7 +2,7 @@
  * Store for global repositories config (~/.docs-skill/repositories.yml)
  */
 
-import { readFile, writeFile, mkdir, access } from "fs/promises";
+import { readFile, writeFile, mkdir, access, rm } from "fs/promises";
 import { join, resolve, normalize, relative } from "path";
 import { homedir } from "os";
 import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
@@ -10,13 +10,17 @@ import { glob } from "glob";
 import type { Repository, RepositoriesFile, RepositoryType, ParsedDoc } from "./types";
 import { GLOBAL_CONFIG_DIR, REPOSITORIES_FILE } from "./types";
 import { parseFrontmatter } from "./frontmatter";
+import { checkoutCommit, cloneRepo, fetchRepo, getHeadCommit, isClone, resolveRef } from "./git";
+
+const GITHUB_ID = /^github:([^/\s]+)\/([^/\s]+)$/;
 
 // ============================================
 // PATH HELPERS
 // ============================================
 
 export function getGlobalConfigDir(): string {
-  return join(homedir(), GLOBAL_CONFIG_DIR);
+  // DOCS_SKILL_HOME relocates the global config and clones (e.g. for tests)
+  return process.env.DOCS_SKILL_HOME || join(homedir(), GLOBAL_CONFIG_DIR);
 }
 
 export function getRepositoriesPath(): string {
@@ -81,6 +85,11 @@ export function createDefaultRepositoriesFile(): RepositoriesFile {
  * Normalize a path for use as repository ID
  */
 export function normalizeRepoPath(inputPath: string): string {
+  // Already a GitHub ID
+  if (GITHUB_ID.test(inputPath)) {
+    return inputPath.replace(/\.git$/, "");
+  }
+
   // GitHub URL normalization
   if (inputPath.includes("github.com")) {
     // Extract owner/repo from various GitHub URL formats
@@ -116,8 +125,8 @@ export async function validateRepoPath(
   const type = getRepoType(path);
 
   if (type === "github") {
-    // For GitHub repos, just validate the URL format for now
-    if (!path.match(/github\.com[/:]([^/]+\/[^/.]+)/)) {
+    // The repository itself is checked when it is cloned
+    if (!GITHUB_ID.test(path) && !path.match(/github\.com[/:]([^/]+\/[^/.]+)/)) {
       return { valid: false, error: "Invalid GitHub repository URL" };
     }
     return { valid: true };
@@ -134,21 +143,27 @@ export async function validateRepoPath(
 }
 
 /**
- * Add a repository to the global config
- * @param path - The path to the repository (local or GitHub URL)
+ * Add a repository to the global config. GitHub repositories are cloned
+ * under the global config dir and checked out at their ref.
+ * @param path - The path to the repository (local, GitHub URL or github:owner/repo)
  * @param docsPath - Optional subdirectory containing docs
  * @param cwd - Base directory for resolving relative paths (defaults to process.cwd())
+ * @param options - GitHub only: ref to pin to, remote to clone from instead of github.com
  */
 export async function addRepository(
   path: string,
   docsPath?: string,
-  cwd?: string
+  cwd?: string,
+  options: { ref?: string; remote?: string } = {}
 ): Promise<{ success: boolean; error?: string; repository?: Repository }> {
   // Validate path
   const validation = await validateRepoPath(path, cwd);
   if (!validation.valid) {
     return { success: false, error: validation.error };
   }
+  if (getRepoType(path) === "local" && (options.ref || options.remote)) {
+    return { success: false, error: "--ref and --remote only apply to GitHub repositories" };
+  }
 
   // Use the resolved path from validation for local repos
   const resolvedPath = validation.resolved || path;
@@ -168,6 +183,20 @@ export async function addRepository(
     docsPath,
   };
 
+  if (repository.type === "github") {
+    if (options.ref) repository.ref = options.ref;
+    if (options.remote) repository.remote = options.remote;
+    const cloneDir = getRepoCloneDir(repository);
+    try {
+      // Start from a fresh clone, e.g. after a failed add
+      await rm(cloneDir, { recursive: true, force: true });
+      await updateRepositoryClone(repository);
+    } catch (error) {
+      await rm(cloneDir, { recursive: true, force: true });
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
   config.repositories.push(repository);
   await saveRepositories(config);
 
@@ -188,12 +217,62 @@ export async function removeRepository(
     return { success: false, error: `Repository not found: ${id}` };
   }
 
-  config.repositories.splice(index, 1);
+  const [removed] = config.repositories.splice(index, 1);
   await saveRepositories(config);
 
+  // The managed clone of a GitHub repository goes with it
+  if (removed.type === "github") {
+    await rm(getRepoCloneDir(removed), { recursive: true, force: true });
+  }
+
   return { success: true };
 }
 
+/**
+ * Fetch GitHub repositories and check out their ref again (a branch moves to
+ * its latest commit; tags and commits stay put)
+ * @param path - Only this repository (default: every GitHub repository)
+ * @returns the repositories whose clone was updated, with their previous commit
+ */
+export async function updateRepositories(
+  path?: string
+): Promise<{
+  success: boolean;
+  error?: string;
+  updated?: Array<{ repository: Repository; previousCommit?: string }>;
+}> {
+  const config = await loadRepositories();
+  let repos = config.repositories.filter((r) => r.type === "github");
+
+  if (path) {
+    const id = normalizeRepoPath(path);
+    const repo = config.repositories.find((r) => r.id === id);
+    if (!repo) {
+      return { success: false, error: `Repository not found: ${id}` };
+    }
+    if (repo.type !== "github") {
+      return { success: false, error: `Local repositories are read in place, nothing to update: ${id}` };
+    }
+    repos = [repo];
+  }
+
+  const updated: Array<{ repository: Repository; previousCommit?: string }> = [];
+  for (const repo of repos) {
+    const previousCommit = repo.commit;
+    try {
+      await updateRepositoryClone(repo);
+    } catch (error) {
+      // Keep what the earlier repositories fetched
+      await saveRepositories(config);
+      return { success: false, error: `${repo.id}: ${(error as Error).message}` };
+    }
+    updated.push({ repository: repo, previousCommit });
+  }
+
+  await saveRepositories(config);
+  return { success: true, updated };
+}
+
 /**
  * List all registered repositories
  */
@@ -202,6 +281,64 @@ export async function listRepositories(): Promise<Repository[]> {
   return config.repositories;
 }
 
+// ============================================
+// GITHUB CLONES
+// ============================================
+
+/**
+ * Get the managed clone directory of a GitHub repository
+ */
+export function getRepoCloneDir(repo: Repository): string {
+  return join(getGlobalConfigDir(), "cache", repo.id.replace(":", "/"));
+}
+
+/**
+ * Get the git URL a GitHub repository is cloned from
+ */
+export function getRepoRemote(repo: Repository): string {
+  if (repo.remote) {
+    return repo.remote;
+  }
+  const match = repo.id.match(GITHUB_ID);
+  return match ? `https://github.com/${match[1]}/${match[2]}.git` : repo.path;
+}
+
+/**
+ * Clone or fetch a GitHub repository and check out its ref. Sets the
+ * repository's commit and fetchedAt; the caller saves the config.
+ */
+export async function updateRepositoryClone(repo: Repository): Promise<string> {
+  const cloneDir = getRepoCloneDir(repo);
+  if (await isClone(cloneDir)) {
+    await fetchRepo(cloneDir);
+  } else {
+    await mkdir(join(cloneDir, ".."), { recursive: true });
+    await cloneRepo(getRepoRemote(repo), cloneDir);
+  }
+
+  const commit = await resolveRef(cloneDir, repo.ref);
+  await checkoutCommit(cloneDir, commit);
+  repo.commit = commit;
+  repo.fetchedAt = new Date().toISOString();
+  return commit;
+}
+
+/**
+ * Make sure a GitHub repository's clone exists (e.g. after the global config
+ * was copied to another machine), cloning it at its recorded commit. Does not
+ * fetch an existing clone - see updateRepositories.
+ * @returns the commit the clone has checked out
+ */
+export async function ensureRepoClone(repo: Repository): Promise<string> {
+  const cloneDir = getRepoCloneDir(repo);
+  if (!(await isClone(cloneDir))) {
+    await mkdir(join(cloneDir, ".."), { recursive: true });
+    await cloneRepo(getRepoRemote(repo), cloneDir);
+    await checkoutCommit(cloneDir, repo.commit ?? (await resolveRef(cloneDir, repo.ref)));
+  }
+  return getHeadCommit(cloneDir);
+}
+
 // ============================================
 // REPOSITORY DOCS LOADING
 // ============================================
@@ -213,23 +350,17 @@ export function getRepoDocsDir(repo: Repository): string {
   const docsPath = repo.docsPath || "docs";
 
   if (repo.type === "github") {
-    // GitHub repos would need to be cloned first
-    // For now, return a cached path
-    return join(getGlobalConfigDir(), "cache", repo.id.replace(":", "/"), docsPath);
+    return join(getRepoCloneDir(repo), docsPath);
   }
 
   return join(repo.path, docsPath);
 }
 
 /**
- * Load docs from a single repository
+ * Load docs from a single repository (a GitHub repository from its clone;
+ * none if it isn't cloned)
  */
 export async function loadDocsFromRepo(repo: Repository): Promise<ParsedDoc[]> {
-  if (repo.type === "github") {
-    // GitHub repos not yet implemented - skip for now
-    return [];
-  }
-
   const docsDir = getRepoDocsDir(repo);
   const pattern = join(docsDir, "**", "*.md");
 
@@ -0,0 +1,333 @@
+/**
+ * Full-text search index: BM25 ranking over doc sections, cached on disk
+ *
+ * Docs are split into sections at every heading. The cache keeps the term
+ * frequencies of each section with a hash of its doc, so only new and changed
+ * docs are re-tokenized; the inverted index is assembled from it per search.
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import type { IndexedDoc, IndexedSection, ParsedDoc, SearchIndex } from "./types";
+import { splitByHeadings, extractHeadingText, headingToSlug } from "./markdown-splitter";
+import { formatDocFile } from "./store";
+import { hashContent } from "./lockfile";
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+/** BM25 document length normalization */
+const B = 0.75;
+/** Query terms at least this long also match longer terms they start */
+const MIN_PREFIX_LENGTH = 3;
+const SNIPPET_LENGTH = 160;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "how", "if", "in",
+  "into", "is", "it", "its", "of", "on", "or", "that", "the", "their", "then", "there",
+  "these", "this", "to", "was", "what", "when", "which", "will", "with", "you", "your",
+]);
+
+// ============================================
+// TOKENIZING
+// ============================================
+
+/**
+ * Split text into lowercase search terms, without stopwords
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((word) => word.length > 1 && !STOPWORDS.has(word));
+}
+
+function countTerms(texts: string[]): { terms: Record<string, number>; length: number } {
+  const terms: Record<string, number> = {};
+  let length = 0;
+  for (const text of texts) {
+    for (const term of tokenize(text)) {
+      terms[term] = (terms[term] ?? 0) + 1;
+      length++;
+    }
+  }
+  return { terms, length };
+}
+
+/**
+ * A doc section with the text that represents it in an index
+ */
+export interface DocSectionText {
+  /** Heading text without # (empty for the text before the first heading) */
+  heading: string;
+  /** Slug of the heading, unique within the doc */
+  anchor: string;
+  startLine: number;
+  endLine: number;
+  /** Heading first, then the body */
+  text: string[];
+}
+
+/**
+ * Split a doc into sections at every heading. The text before the first
+ * heading also carries the title, topic, description and tags.
+ */
+export function splitDocSections(doc: ParsedDoc): DocSectionText[] {
+  const { frontmatter } = doc;
+  const lines = doc.content.split("\n");
+  const headed = splitByHeadings(doc.content, { maxLevel: 6 }).filter((s) => s.level > 0);
+  const introEnd = headed.length > 0 ? headed[0].startLine - 1 : lines.length;
+
+  const sections: DocSectionText[] = [
+    {
+      heading: "",
+      anchor: "",
+      startLine: 1,
+      endLine: introEnd,
+      text: [
+        frontmatter.title,
+        frontmatter.topic,
+        frontmatter.description ?? "",
+        (frontmatter.tags ?? []).join(" "),
+        lines.slice(0, introEnd).join("\n"),
+      ],
+    },
+  ];
+
+  // Repeated headings get -1, -2... like GitHub anchors
+  const slugCounts = new Map<string, number>();
+  for (const section of headed) {
+    const heading = extractHeadingText(section.heading);
+    const slug = headingToSlug(section.heading);
+    const seen = slugCounts.get(slug) ?? 0;
+    slugCounts.set(slug, seen + 1);
+
+    sections.push({
+      heading,
+      anchor: seen === 0 ? slug : `${slug}-${seen}`,
+      startLine: section.startLine,
+      endLine: section.endLine,
+      text: [heading, section.content],
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Index a doc's sections; headings (the title, for the intro) count twice
+ */
+export function indexDoc(source: string, doc: ParsedDoc, hash: string): IndexedDoc {
+  const { frontmatter } = doc;
+  const sections: IndexedSection[] = splitDocSections(doc).map(({ text, ...section }) => ({
+    ...section,
+    ...countTerms([text[0], ...text]),
+  }));
+
+  return {
+    source,
+    path: doc.path,
+    topic: frontmatter.topic,
+    title: frontmatter.title,
+    ...(frontmatter.description ? { description: frontmatter.description } : {}),
+    hash,
+    sections,
+  };
+}
+
+// ============================================
+// INDEX FILE OPERATIONS
+// ============================================
+
+export function docKey(source: string, path: string): string {
+  return `${source}\0${path}`;
+}
+
+export function createSearchIndex(): SearchIndex {
+  return { version: 1, docs: {} };
+}
+
+/**
+ * Load a cached index; a missing, unreadable or outdated one loads empty
+ */
+export async function loadSearchIndex(indexPath: string): Promise<SearchIndex> {
+  try {
+    const index = JSON.parse(await readFile(indexPath, "utf-8")) as SearchIndex;
+    return index.version === 1 && index.docs ? index : createSearchIndex();
+  } catch {
+    return createSearchIndex();
+  }
+}
+
+/**
+ * Write an index file, with a .gitignore so the cache directory is never committed
+ */
+export async function writeCacheFile(filePath: string, data: unknown): Promise<void> {
+  const dir = dirname(filePath);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, ".gitignore"), "*\n");
+  await writeFile(filePath, JSON.stringify(data));
+}
+
+export async function saveSearchIndex(indexPath: string, index: SearchIndex): Promise<void> {
+  await writeCacheFile(indexPath, index);
+}
+
+/**
+ * Bring an index up to date with the current docs: new and changed docs are
+ * indexed, unchanged ones kept, and docs that are gone dropped
+ * @returns how many docs were indexed and removed
+ */
+export function updateSearchIndex(
+  index: SearchIndex,
+  docs: Map<string, ParsedDoc[]>
+): { indexed: number; removed: number } {
+  const current = new Set<string>();
+  let indexed = 0;
+
+  for (const [source, sourceDocs] of docs) {
+    for (const doc of sourceDocs) {
+      const key = docKey(source, doc.path);
+      const hash = hashContent(formatDocFile(doc));
+      current.add(key);
+      if (index.docs[key]?.hash !== hash) {
+        index.docs[key] = indexDoc(source, doc, hash);
+        indexed++;
+      }
+    }
+  }
+
+  let removed = 0;
+  for (const key of Object.keys(index.docs)) {
+    if (!current.has(key)) {
+      delete index.docs[key];
+      removed++;
+    }
+  }
+
+  return { indexed, removed };
+}
+
+/**
+ * Load the cached index at a path, update it and save it if anything changed
+ */
+export async function refreshSearchIndex(
+  indexPath: string,
+  docs: Map<string, ParsedDoc[]>
+): Promise<SearchIndex> {
+  const index = await loadSearchIndex(indexPath);
+  const { indexed, removed } = updateSearchIndex(index, docs);
+  if (indexed > 0 || removed > 0) {
+    await saveSearchIndex(indexPath, index);
+  }
+  return index;
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+export interface SearchHit {
+  doc: IndexedDoc;
+  section: IndexedSection;
+  score: number;
+  /** Indexed terms the section matched */
+  matchedTerms: string[];
+}
+
+export interface SearchOptions {
+  /** Only return hits from these sources */
+  sources?: string[];
+  /** Maximum number of hits (default: 10) */
+  limit?: number;
+}
+
+/**
+ * Rank doc sections for a query with BM25
+ * @returns the best sections first, only those matching a query term
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchHit[] {
+  const { sources, limit = 10 } = options;
+
+  // Inverted index: term -> sections containing it
+  const postings = new Map<string, Array<{ doc: IndexedDoc; section: IndexedSection }>>();
+  let sectionCount = 0;
+  let totalLength = 0;
+  for (const doc of Object.values(index.docs)) {
+    for (const section of doc.sections) {
+      sectionCount++;
+      totalLength += section.length;
+      for (const term of Object.keys(section.terms)) {
+        const list = postings.get(term) ?? [];
+        list.push({ doc, section });
+        postings.set(term, list);
+      }
+    }
+  }
+  if (sectionCount === 0) {
+    return [];
+  }
+  const averageLength = totalLength / sectionCount || 1;
+
+  // A query term missing from the index matches the terms it starts
+  const queryTerms = new Set<string>();
+  for (const term of new Set(tokenize(query))) {
+    if (postings.has(term)) {
+      queryTerms.add(term);
+    } else if (term.length >= MIN_PREFIX_LENGTH) {
+      for (const indexed of postings.keys()) {
+        if (indexed.startsWith(term)) queryTerms.add(indexed);
+      }
+    }
+  }
+
+  const hits = new Map<IndexedSection, SearchHit>();
+  for (const term of queryTerms) {
+    const list = postings.get(term)!;
+    const idf = Math.log(1 + (sectionCount - list.length + 0.5) / (list.length + 0.5));
+
+    for (const { doc, section } of list) {
+      if (sources && !sources.includes(doc.source)) continue;
+      const tf = section.terms[term];
+      const score = idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * section.length) / averageLength)));
+
+      const hit = hits.get(section) ?? { doc, section, score: 0, matchedTerms: [] };
+      hit.score += score;
+      hit.matchedTerms.push(term);
+      hits.set(section, hit);
+    }
+  }
+
+  return [...hits.values()]
+    .sort((a, b) => b.score - a.score || a.doc.topic.localeCompare(b.doc.topic) || a.section.startLine - b.section.startLine)
+    .slice(0, limit);
+}
+
+/**
+ * Excerpt of a section around the first line with a matched term. A doc
+ * that starts with a heading has no intro text, so its intro uses the doc's.
+ */
+export function getSnippet(
+  content: string,
+  section: Pick<IndexedSection, "heading" | "startLine" | "endLine">,
+  matchedTerms: string[]
+): string {
+  const isText = (line: string) => line.trim() !== "" && !/^#{1,6}\s/.test(line);
+  const allLines = content.split("\n");
+  let lines = allLines.slice(section.startLine - 1, section.endLine).filter(isText);
+  if (lines.length === 0 && !section.heading) {
+    lines = allLines.filter(isText);
+  }
+
+  const terms = new Set(matchedTerms);
+  const line = lines.find((l) => tokenize(l).some((term) => terms.has(term))) ?? lines[0] ?? "";
+  const text = line.replace(/^\s*(?:[-*>]|\d+\.)\s+/, "").replace(/\s+/g, " ").trim();
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+
+  // Center the window on the first matching word
+  const lower = text.toLowerCase();
+  const positions = matchedTerms.map((term) => lower.indexOf(term)).filter((pos) => pos >= 0);
+  const match = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, Math.min(match - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+  const excerpt = text.slice(start, start + SNIPPET_LENGTH).trim();
+  return `${start > 0 ? "..." : ""}${excerpt}${start + SNIPPET_LENGTH < text.length ? "..." : ""}`;
+}
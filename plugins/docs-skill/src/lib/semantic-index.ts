@@ -0,0 +1,177 @@
+/**
+ * Embedding index of the synced docs for semantic and hybrid search
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type { EmbeddedDoc, EmbeddingIndex, ParsedDoc } from "./types";
+import { EMBEDDING_INDEX_FILE } from "./types";
+import { formatDocFile, getDocsCacheDir } from "./store";
+import { hashContent } from "./lockfile";
+import { docKey, splitDocSections, writeCacheFile } from "./search-index";
+import { cosineSimilarity, type EmbeddingProvider } from "./embeddings";
+
+/** Characters of a section sent to the embedder */
+const MAX_SECTION_CHARS = 2000;
+/** Reciprocal rank fusion constant: higher flattens the rank differences */
+const RRF_K = 60;
+
+// ============================================
+// INDEX FILE OPERATIONS
+// ============================================
+
+export function getEmbeddingIndexPath(cwd: string): string {
+  return join(getDocsCacheDir(cwd), EMBEDDING_INDEX_FILE);
+}
+
+/**
+ * Load the embedding index; a missing one, or one from another provider,
+ * loads empty
+ */
+export async function loadEmbeddingIndex(cwd: string, providerId: string): Promise<EmbeddingIndex> {
+  try {
+    const index = JSON.parse(await readFile(getEmbeddingIndexPath(cwd), "utf-8")) as EmbeddingIndex;
+    if (index.version === 1 && index.provider === providerId && index.docs) {
+      return index;
+    }
+  } catch {
+    // Missing or unreadable: rebuild
+  }
+  return { version: 1, provider: providerId, docs: {} };
+}
+
+/**
+ * Bring an index up to date with the docs: new and changed docs are
+ * embedded (in one batch), unchanged ones kept, and docs that are gone dropped
+ * @returns how many docs were embedded and removed
+ */
+export async function updateEmbeddingIndex(
+  index: EmbeddingIndex,
+  docs: Map<string, ParsedDoc[]>,
+  provider: EmbeddingProvider
+): Promise<{ embedded: number; removed: number }> {
+  const current = new Set<string>();
+  const changed: Array<{ key: string; source: string; doc: ParsedDoc; hash: string }> = [];
+
+  for (const [source, sourceDocs] of docs) {
+    for (const doc of sourceDocs) {
+      const key = docKey(source, doc.path);
+      const hash = hashContent(formatDocFile(doc));
+      current.add(key);
+      if (index.docs[key]?.hash !== hash) {
+        changed.push({ key, source, doc, hash });
+      }
+    }
+  }
+
+  const sections = changed.map(({ doc }) => splitDocSections(doc));
+  const texts = changed.flatMap(({ doc }, i) =>
+    sections[i].map((section) =>
+      [doc.frontmatter.title, ...section.text].join("\n").slice(0, MAX_SECTION_CHARS)
+    )
+  );
+  const vectors = texts.length > 0 ? await provider.embed(texts) : [];
+
+  let next = 0;
+  changed.forEach(({ key, source, doc, hash }, i) => {
+    const entry: EmbeddedDoc = {
+      source,
+      path: doc.path,
+      topic: doc.frontmatter.topic,
+      title: doc.frontmatter.title,
+      ...(doc.frontmatter.description ? { description: doc.frontmatter.description } : {}),
+      hash,
+      sections: sections[i].map(({ text: _text, ...section }) => ({
+        ...section,
+        // Four decimals keep the file small without changing rankings
+        vector: vectors[next++].map((x) => Math.round(x * 1e4) / 1e4),
+      })),
+    };
+    index.docs[key] = entry;
+  });
+
+  let removed = 0;
+  for (const key of Object.keys(index.docs)) {
+    if (!current.has(key)) {
+      delete index.docs[key];
+      removed++;
+    }
+  }
+
+  return { embedded: changed.length, removed };
+}
+
+/**
+ * Load the embedding index of a project, update it with its synced docs and
+ * save it if anything changed
+ */
+export async function refreshEmbeddingIndex(
+  cwd: string,
+  docs: Map<string, ParsedDoc[]>,
+  provider: EmbeddingProvider
+): Promise<EmbeddingIndex> {
+  const index = await loadEmbeddingIndex(cwd, provider.id);
+  const { embedded, removed } = await updateEmbeddingIndex(index, docs, provider);
+  if (embedded > 0 || removed > 0) {
+    await writeCacheFile(getEmbeddingIndexPath(cwd), index);
+  }
+  return index;
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+export interface SemanticHit {
+  doc: EmbeddedDoc;
+  section: EmbeddedDoc["sections"][number];
+  /** Cosine similarity to the query */
+  score: number;
+}
+
+/**
+ * Rank doc sections by similarity to an embedded query
+ */
+export function semanticSearch(
+  index: EmbeddingIndex,
+  queryVector: number[],
+  options: { sources?: string[]; limit?: number } = {}
+): SemanticHit[] {
+  const { sources, limit = 10 } = options;
+  const hits: SemanticHit[] = [];
+
+  for (const doc of Object.values(index.docs)) {
+    if (sources && !sources.includes(doc.source)) continue;
+    for (const section of doc.sections) {
+      const score = cosineSimilarity(queryVector, section.vector);
+      if (score > 0) {
+        hits.push({ doc, section, score });
+      }
+    }
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || a.doc.topic.localeCompare(b.doc.topic) || a.section.startLine - b.section.startLine)
+    .slice(0, limit);
+}
+
+/**
+ * Merge rankings with reciprocal rank fusion: an item scores 1 / (k + rank)
+ * in each ranking it appears in, so no score scales need to agree
+ * @returns items by fused score, each with the first ranking's item for its key
+ */
+export function fuseRankings<T>(
+  rankings: T[][],
+  key: (item: T) => string,
+  limit = 10
+): Array<{ item: T; score: number }> {
+  const fused = new Map<string, { item: T; score: number }>();
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      const entry = fused.get(key(item)) ?? { item, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(key(item), entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -9,6 +9,7 @@ import { glob } from "glob";
 import type { UserConfig, ParsedDoc } from "./types";
 import { DOCS_DIR, CONFIG_FILE } from "./types";
 import { parseFrontmatter } from "./frontmatter";
+import { listRepositories } from "./repo-store";
 
 // ============================================
 // PATH HELPERS
@@ -22,6 +23,13 @@ export function getConfigPath(cwd: string): string {
   return join(getDocsDir(cwd), CONFIG_FILE);
 }
 
+/**
+ * Directory for the search indexes of the synced docs
+ */
+export function getDocsCacheDir(cwd: string): string {
+  return join(getDocsDir(cwd), ".cache");
+}
+
 // ============================================
 // CONFIG OPERATIONS
 // ============================================
@@ -175,6 +183,14 @@ export async function getAllTopics(): Promise<string[]> {
 // USER DOCS OPERATIONS (for writing to user's .docs folder)
 // ============================================
 
+/**
+ * Reconstruct the markdown file of a doc, with frontmatter
+ */
+export function formatDocFile(doc: ParsedDoc): string {
+  const frontmatterYaml = stringifyYaml(doc.frontmatter);
+  return `---\n${frontmatterYaml}---\n\n${doc.content}`;
+}
+
 /**
  * Write a doc file to the user's .docs folder
  */
@@ -187,12 +203,7 @@ export async function writeDocToUserDir(
   const fileDir = join(filePath, "..");
 
   await mkdir(fileDir, { recursive: true });
-
-  // Reconstruct the markdown file with frontmatter
-  const frontmatterYaml = stringifyYaml(doc.frontmatter);
-  const content = `---\n${frontmatterYaml}---\n\n${doc.content}`;
-
-  await writeFile(filePath, content);
+  await writeFile(filePath, formatDocFile(doc));
 }
 
 /**
@@ -226,3 +237,24 @@ export async function loadUserDocs(cwd: string): Promise<ParsedDoc[]> {
 
   return docs;
 }
+
+/**
+ * Load the docs synced to .docs/, by the repository each folder came from
+ */
+export async function loadUserDocsBySource(cwd: string): Promise<Map<string, ParsedDoc[]>> {
+  // 'docs pull' writes each repository to a folder named after its ID
+  const folderSources = new Map<string, string>();
+  for (const repo of await listRepositories()) {
+    folderSources.set(repo.id.replace(/[/:]/g, "_"), `repo:${repo.id}`);
+  }
+
+  const bySource = new Map<string, ParsedDoc[]>();
+  for (const doc of await loadUserDocs(cwd)) {
+    const folder = doc.path.split(/[/\\]/)[0];
+    const source = folderSources.get(folder) ?? folder;
+    const docs = bySource.get(source) ?? [];
+    docs.push(doc);
+    bySource.set(source, docs);
+  }
+  return bySource;
+}
@@ -8,6 +8,9 @@
 
 export const DOCS_DIR = ".docs";
 export const CONFIG_FILE = "config.yml";
+export const LOCK_FILE = "docs-lock.yml";
+export const SEARCH_INDEX_FILE = "search-index.json";
+export const EMBEDDING_INDEX_FILE = "embeddings.json";
 export const MAX_LINES_PER_FILE = 1000;
 export const FRONTMATTER_DELIMITER = "---";
 
@@ -146,8 +149,53 @@ export interface UserConfig {
   /** Last sync timestamp */
   lastSync?: string;
 
+  /** Commit of each GitHub repository at the last sync, by repository ID */
+  commits?: Record<string, string>;
+
   /** Plugin source URL (for fetching available docs) */
   source?: string;
+
+  /** Embedding index for semantic search; when set, 'docs pull' updates it */
+  embeddings?: EmbeddingsConfig;
+}
+
+/**
+ * Embedding provider for semantic search
+ * - hashing: deterministic, offline word hashing (no model needed)
+ * - http: an OpenAI-compatible embeddings endpoint, e.g. a local Ollama
+ */
+export interface EmbeddingsConfig {
+  provider: "hashing" | "http";
+  /** http: endpoint URL, e.g., "http://localhost:11434/v1/embeddings" */
+  url?: string;
+  /** http: model name, e.g., "nomic-embed-text" */
+  model?: string;
+  /** hashing: vector size (default: 512) */
+  dimensions?: number;
+}
+
+/**
+ * A pulled topic as recorded in .docs/docs-lock.yml
+ */
+export interface LockedTopic {
+  /** Topic identifier, e.g., "nextjs/routing" */
+  topic: string;
+  /** ID of the repository the doc was pulled from */
+  source: string;
+  /** Commit of the repository (absent for local folders outside git) */
+  revision?: string;
+  /** Hash of the written file, e.g., "sha256-..." */
+  hash: string;
+}
+
+/**
+ * .docs/docs-lock.yml: exactly what the last 'docs pull' wrote
+ */
+export interface DocsLock {
+  /** Version of lock schema */
+  version: 1;
+  /** Pulled topics, sorted by source then topic */
+  topics: LockedTopic[];
 }
 
 /**
@@ -210,6 +258,93 @@ export interface DocSearchResult {
   /** e.g., "nextjs", "react" */
   source: string;
   path: string;
+  /** Heading of the matching section (empty for the text before the first heading) */
+  heading?: string;
+  /** Slug of the matching heading, e.g., "dynamic-routes" */
+  anchor?: string;
+  /** Line of the section in the doc content */
+  line?: number;
+  /** BM25 relevance score */
+  score?: number;
+  /** Excerpt of the section around the first matching term */
+  snippet?: string;
+}
+
+/**
+ * A doc section in the search index
+ */
+export interface IndexedSection {
+  /** Heading text without # (empty for the text before the first heading) */
+  heading: string;
+  /** Slug of the heading, unique within the doc */
+  anchor: string;
+  /** First and last line of the section in the doc content (1-based) */
+  startLine: number;
+  endLine: number;
+  /** Number of indexed terms */
+  length: number;
+  /** Frequency of each term */
+  terms: Record<string, number>;
+}
+
+/**
+ * A doc in the search index
+ */
+export interface IndexedDoc {
+  source: string;
+  path: string;
+  topic: string;
+  title: string;
+  description?: string;
+  /** Hash of the doc file; the doc is re-indexed when it changes */
+  hash: string;
+  sections: IndexedSection[];
+}
+
+/**
+ * Search index cached on disk, by source and path
+ */
+export interface SearchIndex {
+  /** Version of index format; other versions are rebuilt */
+  version: 1;
+  docs: Record<string, IndexedDoc>;
+}
+
+/**
+ * A doc section in the embedding index
+ */
+export interface EmbeddedSection {
+  heading: string;
+  anchor: string;
+  startLine: number;
+  endLine: number;
+  /** Unit-length embedding of the section */
+  vector: number[];
+}
+
+/**
+ * A doc in the embedding index
+ */
+export interface EmbeddedDoc {
+  source: string;
+  path: string;
+  topic: string;
+  title: string;
+  description?: string;
+  /** Hash of the doc file; the doc is re-embedded when it changes */
+  hash: string;
+  sections: EmbeddedSection[];
+}
+
+/**
+ * Embedding index of the synced docs (.docs/.cache/embeddings.json)
+ */
+export interface EmbeddingIndex {
+  /** Version of index format; other versions are rebuilt */
+  version: 1;
+  /** Provider the vectors came from; a different provider rebuilds the index */
+  provider: string;
+  docs: Record<string, EmbeddedDoc>;
 }
 
 // ============================================
@@ -233,6 +368,15 @@ export interface InitArgs {
 export interface SearchArgs {
   cwd: string;
   query: string;
+  /** Only search this source (plugin source or repository ID) */
+  source?: string;
+  /** Only search the docs synced to .docs/ */
+  syncedOnly?: boolean;
+  /** Rank synced docs by embedding similarity instead of keywords */
+  semantic?: boolean;
+  /** Fuse the keyword and semantic rankings of synced docs */
+  hybrid?: boolean;
+  json?: boolean;
 }
 
 export interface ConfigArgs {
@@ -248,6 +392,8 @@ export interface CheckArgs {
 export interface PullArgs {
   cwd: string;
   force?: boolean;
+  /** Fail instead of writing if the docs differ from docs-lock.yml */
+  frozen?: boolean;
 }
 
 // ============================================
@@ -276,6 +422,14 @@ export interface Repository {
   addedAt: string;
   /** Optional subdirectory containing docs (defaults to "docs/") */
   docsPath?: string;
+  /** GitHub: branch, tag or commit the clone is pinned to (default: the default branch) */
+  ref?: string;
+  /** GitHub: git URL to clone from (default: https://github.com/<owner>/<repo>.git) */
+  remote?: string;
+  /** GitHub: commit the managed clone has checked out */
+  commit?: string;
+  /** GitHub: ISO date of the last fetch */
+  fetchedAt?: string;
 }
 
 /**
@@ -293,7 +447,11 @@ export interface RepositoriesFile {
  */
 export interface RepoArgs {
   cwd: string;
-  subcommand: "add" | "list" | "remove";
+  subcommand: "add" | "list" | "remove" | "update";
   path?: string;
   docsPath?: string;
+  /** GitHub: branch, tag or commit to pin to */
+  ref?: string;
+  /** GitHub: git URL to clone from instead of github.com */
+  remote?: string;
 }
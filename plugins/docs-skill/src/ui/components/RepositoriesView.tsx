@@ -161,7 +161,9 @@ export function RepositoriesView({ repositories, onRefresh }: Props) {
                         : "text-muted-foreground"
                     }`}
                   >
-                    {repo.type === "local" ? repo.path : "GitHub"}
+                    {repo.type === "local"
+                      ? repo.path
+                      : `GitHub${repo.commit ? ` @ ${repo.commit.slice(0, 7)}` : ""}`}
                   </div>
                 </button>
               ))
@@ -204,6 +206,17 @@ export function RepositoriesView({ repositories, onRefresh }: Props) {
                   <p className="text-sm font-mono">{selectedRepo.docsPath}</p>
                 </div>
               )}
+              {selectedRepo.type === "github" && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">
+                    Ref
+                  </label>
+                  <p className="text-sm font-mono">
+                    {selectedRepo.ref ?? "(default branch)"}
+                    {selectedRepo.commit && ` @ ${selectedRepo.commit.slice(0, 7)}`}
+                  </p>
+                </div>
+              )}
               <div>
                 <label className="text-sm font-medium text-muted-foreground">
                   Added
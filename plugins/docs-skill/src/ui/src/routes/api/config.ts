@@ -30,10 +30,9 @@ export const Route = createFileRoute("/api/config")({
 
           const existingConfig = await loadConfig(cwd);
           const config: UserConfig = {
+            ...existingConfig,
             version: 1,
             topics: body.topics,
-            lastSync: existingConfig?.lastSync,
-            source: existingConfig?.source,
           };
 
           await saveConfig(cwd, config);
@@ -18,6 +18,8 @@ export const Route = createFileRoute("/api/repositories")({
           const body = (await request.json()) as {
             path: string;
             docsPath?: string;
+            ref?: string; // GitHub: branch, tag or commit to pin to
+            remote?: string; // GitHub: git URL to clone from
           };
 
           if (!body.path) {
@@ -27,7 +29,10 @@ export const Route = createFileRoute("/api/repositories")({
             );
           }
 
-          const result = await addRepository(body.path, body.docsPath, getProjectCwd());
+          const result = await addRepository(body.path, body.docsPath, getProjectCwd(), {
+            ref: body.ref,
+            remote: body.remote,
+          });
 
           if (!result.success) {
             return json(
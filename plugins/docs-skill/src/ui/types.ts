@@ -5,6 +5,10 @@ export interface Repository {
   path: string;
   addedAt: string;
   docsPath?: string;
+  ref?: string;
+  remote?: string;
+  commit?: string;
+  fetchedAt?: string;
 }
 
 export interface DocFrontmatter {
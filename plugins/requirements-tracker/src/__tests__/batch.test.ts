@@ -0,0 +1,200 @@
+/**
+ * Tests for bulk requirement operations (req batch)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm, writeFile, readFile, access } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createRequirementsDir,
+  getRequirementsDir,
+  loadRequirement,
+  saveConfig,
+  saveRequirement,
+} from "../lib/store";
+import { diffLines, matchTargets, parseBatchOperations } from "../lib/batch";
+import { batch } from "../commands/batch";
+import type { Requirement } from "../lib/types";
+
+describe("parseBatchOperations", () => {
+  it("parses a YAML list and JSON lines", () => {
+    const yaml = "- op: priority\n  target: payments/**\n  priority: high\n";
+    expect(parseBatchOperations(yaml, "yaml")).toEqual([
+      { op: "priority", target: "payments/**", priority: "high" },
+    ]);
+
+    const jsonl = '# reprioritize\n{"op": "status", "target": "REQ_a.yml", "state": "done"}\n\n';
+    expect(parseBatchOperations(jsonl, "jsonl")).toEqual([{ op: "status", target: "REQ_a.yml", state: "done" }]);
+  });
+
+  it("rejects malformed operations", () => {
+    expect(() => parseBatchOperations("op: priority", "yaml")).toThrow("must be a list of operations");
+    expect(() => parseBatchOperations("- op: delete\n  target: a", "yaml")).toThrow('operation 1: unknown op "delete"');
+    expect(() => parseBatchOperations('{"op": "move"}', "jsonl")).toThrow('line 1: "target" must be');
+    expect(() => parseBatchOperations("{nope", "jsonl")).toThrow("line 1: invalid JSON");
+  });
+});
+
+describe("matchTargets", () => {
+  const paths = ["REQ_root.yml", "payments/REQ_checkout.yml", "payments/refunds/REQ_refund.yml"];
+
+  it("matches globs and exact paths", () => {
+    expect(matchTargets("payments/**", paths)).toEqual(["payments/REQ_checkout.yml", "payments/refunds/REQ_refund.yml"]);
+    expect(matchTargets("payments/*", paths)).toEqual(["payments/REQ_checkout.yml"]);
+    expect(matchTargets("REQ_root.yml", paths)).toEqual(["REQ_root.yml"]);
+    expect(matchTargets("REQ_gone.yml", paths)).toEqual([]);
+  });
+});
+
+describe("diffLines", () => {
+  it("shows changed lines with context", () => {
+    const before = "a\nb\nc\nd\ne\nf\ng\n";
+    const after = "a\nB\nc\nd\ne\nf\ng\nh\n";
+    expect(diffLines(before, after, 1)).toEqual(["  a", "- b", "+ B", "  c", "@@", "  g", "+ h"]);
+  });
+});
+
+describe("Batch Command", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  const requirement = (data: Partial<Requirement> = {}): Requirement => ({
+    gherkin: "Given a user\nWhen they act\nThen result occurs",
+    mainSource: { type: "manual", description: "Test" },
+    tests: [],
+    status: "planned",
+    ...data,
+  });
+
+  const load = async (path: string) => (await loadRequirement(tempDir, path))?.data;
+  const exists = (path: string) =>
+    access(join(getRequirementsDir(tempDir), path)).then(
+      () => true,
+      () => false
+    );
+
+  async function runBatch(content: string, options: { file?: string; dryRun?: boolean } = {}) {
+    const file = options.file ?? "ops.yml";
+    await writeFile(join(tempDir, file), content);
+    await batch({ cwd: tempDir, file, dryRun: options.dryRun });
+  }
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-batch-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+    await saveRequirement(tempDir, "payments/REQ_checkout.yml", requirement());
+    await saveRequirement(tempDir, "payments/refunds/REQ_refund.yml", requirement({ status: "done" }));
+    await saveRequirement(
+      tempDir,
+      "REQ_report.yml",
+      requirement({ dependencies: [{ path: "payments/REQ_checkout.yml" }] })
+    );
+    await writeFile(
+      join(tempDir, "checkout.test.ts"),
+      'import { it } from "bun:test";\n\nit("charges the card", () => {\n  expect(1).toBe(1);\n});\n'
+    );
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("sets priority on every requirement a glob matches", async () => {
+    await runBatch("- op: priority\n  target: payments/**\n  priority: high\n");
+
+    expect((await load("payments/REQ_checkout.yml"))?.priority).toBe("high");
+    expect((await load("payments/refunds/REQ_refund.yml"))?.priority).toBe("high");
+    expect((await load("REQ_report.yml"))?.priority).toBeUndefined();
+    expect(consoleOutput.join("\n")).toContain("Applied 1 operation(s) to 2 requirement(s).");
+  });
+
+  it("applies operations in order from JSON lines", async () => {
+    await runBatch(
+      [
+        '{"op": "link", "target": "payments/REQ_checkout.yml", "test": "checkout.test.ts:charges the card"}',
+        '{"op": "add-scenario", "target": "payments/REQ_checkout.yml", "name": "declined", "gherkin": "Given a declined card When paying Then an error is shown"}',
+        '{"op": "status", "target": "payments/REQ_checkout.yml", "state": "planned", "reason": "Needs rework"}',
+      ].join("\n"),
+      { file: "ops.jsonl" }
+    );
+
+    const checkout = await load("payments/REQ_checkout.yml");
+    expect(checkout?.tests.map((t) => t.identifier)).toEqual(["charges the card"]);
+    expect(checkout?.scenarios?.[0]).toEqual({
+      name: "declined",
+      gherkin: "Given a declined card\nWhen paying\nThen an error is shown",
+    });
+    // Linking moved it to done, then the status op moved it back
+    expect(checkout?.statusLog?.map((entry) => `${entry.from}->${entry.to}`)).toEqual(["planned->done", "done->planned"]);
+    expect(checkout?.status).toBe("planned");
+  });
+
+  it("moves requirements into a folder and updates dependencies", async () => {
+    await runBatch("- op: move\n  target: payments/*\n  to: billing/\n");
+
+    expect(await exists("payments/REQ_checkout.yml")).toBe(false);
+    expect(await exists("billing/REQ_checkout.yml")).toBe(true);
+    expect((await load("REQ_report.yml"))?.dependencies).toEqual([{ path: "billing/REQ_checkout.yml" }]);
+    expect(consoleOutput.join("\n")).toContain("payments/REQ_checkout.yml -> billing/REQ_checkout.yml");
+  });
+
+  it("changes nothing when any operation fails", async () => {
+    const reportBefore = await readFile(join(getRequirementsDir(tempDir), "REQ_report.yml"), "utf-8");
+
+    await expect(
+      runBatch(
+        [
+          "- op: priority",
+          "  target: REQ_report.yml",
+          "  priority: low",
+          "- op: status",
+          "  target: payments/**",
+          "  state: in-review",
+          "- op: unlink",
+          "  target: nothing/*",
+          "  test: a.test.ts:x",
+        ].join("\n")
+      )
+    ).rejects.toThrow("process.exit(1)");
+
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("Batch failed - no requirements were changed (3 error(s)):");
+    expect(output).toContain('operation 2 (status payments/**): Unknown state "in-review"');
+    expect(output).toContain("operation 3 (unlink nothing/*): no requirement matches nothing/*");
+    expect(await readFile(join(getRequirementsDir(tempDir), "REQ_report.yml"), "utf-8")).toBe(reportBefore);
+  });
+
+  it("rejects moves onto existing requirements", async () => {
+    await expect(
+      runBatch("- op: move\n  target: payments/refunds/REQ_refund.yml\n  to: payments/REQ_checkout.yml\n")
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(consoleOutput.join("\n")).toContain("Destination already exists: payments/REQ_checkout.yml");
+    expect(await exists("payments/refunds/REQ_refund.yml")).toBe(true);
+  });
+
+  it("previews changes as a diff without writing on --dry-run", async () => {
+    await runBatch("- op: priority\n  target: REQ_report.yml\n  priority: critical\n", { dryRun: true });
+
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("REQ_report.yml\n  * priority: (none) -> critical");
+    expect(output).toContain("    + priority: critical");
+    expect(output).toContain("Dry run: 1 operation(s) would change 1 requirement(s). Nothing was written.");
+    expect((await load("REQ_report.yml"))?.priority).toBeUndefined();
+  });
+});
@@ -6,6 +6,7 @@ import {
   isCacheValid,
   buildCache,
   getTestsWithCache,
+  refreshTestsIncrementally,
 } from "../lib/cache";
 import { createRequirementsDir, saveCache } from "../lib/store";
 import type { TestCache, ExtractedTest } from "../lib/types";
@@ -32,7 +33,7 @@ describe("Cache", () => {
       const mtime = stat.mtime.getTime();
 
       const cache: TestCache = {
-        version: 1,
+        version: 3,
         generatedAt: new Date().toISOString(),
         fileMtimes: {
           "test.test.ts": mtime,
@@ -57,7 +58,7 @@ describe("Cache", () => {
 
       // Create cache with old mtime
       const cache: TestCache = {
-        version: 1,
+        version: 3,
         generatedAt: new Date().toISOString(),
         fileMtimes: {
           "test.test.ts": oldMtime,
@@ -85,7 +86,7 @@ describe("Cache", () => {
 
       // Cache only knows about test1
       const cache: TestCache = {
-        version: 1,
+        version: 3,
         generatedAt: new Date().toISOString(),
         fileMtimes: {
           "test1.test.ts": mtime,
@@ -104,7 +105,7 @@ describe("Cache", () => {
 
     it("returns false when file deleted", async () => {
       const cache: TestCache = {
-        version: 1,
+        version: 3,
         generatedAt: new Date().toISOString(),
         fileMtimes: {
           "test1.test.ts": 123456,
@@ -148,7 +149,7 @@ describe("Cache", () => {
 
     it("returns true when no files exist and cache is empty", async () => {
       const cache: TestCache = {
-        version: 1,
+        version: 3,
         generatedAt: new Date().toISOString(),
         fileMtimes: {},
         tests: {},
@@ -189,7 +190,7 @@ describe("Cache", () => {
 
       const cache = buildCache(tests, mtimes);
 
-      expect(cache.version).toBe(1);
+      expect(cache.version).toBe(3);
       expect(cache.generatedAt).toBeDefined();
       expect(cache.fileMtimes).toEqual({
         "test1.test.ts": 1234567890,
@@ -430,4 +431,52 @@ describe("Cache", () => {
       expect(identifiers2.sort()).toEqual(identifiers1.sort());
     });
   });
+
+  describe("refreshTestsIncrementally", () => {
+    it("treats every file as changed without a cache", async () => {
+      await createRequirementsDir(tempDir);
+
+      await writeFile(join(tempDir, "a.test.ts"), `it("a", () => {});`);
+      await writeFile(join(tempDir, "b.test.ts"), `it("b", () => {});`);
+
+      const result = await refreshTestsIncrementally(tempDir, "**/*.test.ts");
+
+      expect(result.changedFiles).toEqual(["a.test.ts", "b.test.ts"]);
+      expect(result.tests.map((t) => t.identifier).sort()).toEqual(["a", "b"]);
+    });
+
+    it("re-extracts only modified, added and deleted files", async () => {
+      await createRequirementsDir(tempDir);
+
+      await writeFile(join(tempDir, "a.test.ts"), `it("a", () => { return 1; });`);
+      await writeFile(join(tempDir, "b.test.ts"), `it("b", () => {});`);
+      await writeFile(join(tempDir, "c.test.ts"), `it("c", () => {});`);
+      await refreshTestsIncrementally(tempDir, "**/*.test.ts");
+
+      const modified = join(tempDir, "a.test.ts");
+      await writeFile(modified, `it("a", () => { return 2; });`);
+      const future = new Date(Date.now() + 10000);
+      await utimes(modified, future, future);
+      await rm(join(tempDir, "c.test.ts"));
+      await writeFile(join(tempDir, "d.test.ts"), `it("d", () => {});`);
+
+      const result = await refreshTestsIncrementally(tempDir, "**/*.test.ts");
+
+      expect(result.changedFiles).toEqual(["a.test.ts", "c.test.ts", "d.test.ts"]);
+      expect(result.tests.map((t) => t.identifier).sort()).toEqual(["a", "b", "d"]);
+      expect(result.tests.find((t) => t.identifier === "a")?.body).toContain("return 2");
+    });
+
+    it("reports no changes when nothing was touched", async () => {
+      await createRequirementsDir(tempDir);
+
+      await writeFile(join(tempDir, "a.test.ts"), `it("a", () => {});`);
+      await refreshTestsIncrementally(tempDir, "**/*.test.ts");
+
+      const result = await refreshTestsIncrementally(tempDir, "**/*.test.ts");
+
+      expect(result.changedFiles).toEqual([]);
+      expect(result.tests.length).toBe(1);
+    });
+  });
 });
@@ -198,6 +198,108 @@ describe("Check Command", () => {
     expect(updated?.data.aiAssessment).toBeUndefined(); // Assessment cleared
   });
 
+  it("migrates legacy hashes without clearing the assessment", async () => {
+    await setupRequirements();
+
+    const testContent = `
+      it("test", () => {
+        expect(true).toBe(true);
+      });
+    `;
+    await writeFile(join(tempDir, "legacy.test.ts"), testContent);
+
+    // Hash as computed by the pre-AST extractor
+    const { computeHash, extractFunctionBody } = await import("../lib/test-parser");
+    const legacyHash = computeHash(
+      extractFunctionBody(testContent, testContent.indexOf('"test"') + 6)
+    );
+
+    const requirement: Requirement = {
+      gherkin: "Given a user\nWhen they act\nThen result occurs",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "legacy.test.ts", identifier: "test", hash: legacyHash }],
+      status: "done",
+      aiAssessment: {
+        sufficient: true,
+        notes: "Good",
+        assessedAt: new Date().toISOString(),
+      },
+    };
+    await saveRequirement(tempDir, "auth/REQ_login.yml", requirement);
+
+    await check({ cwd: tempDir, json: true, noCache: true });
+
+    const parsed = JSON.parse(consoleOutput.join("\n"));
+    expect(parsed.requirements[0].requirements[0].verification).toBe("verified");
+
+    const { loadRequirement } = await import("../lib/store");
+    const updated = await loadRequirement(tempDir, "auth/REQ_login.yml");
+    expect(updated?.data.tests[0].hash).not.toBe(legacyHash);
+    expect(updated?.data.aiAssessment?.notes).toBe("Good");
+  });
+
+  it("resolves plain-name links to nested tests and stores the qualified name", async () => {
+    await setupRequirements();
+    await writeFile(
+      join(tempDir, "nested.test.ts"),
+      `describe("session", () => { it("expires", () => { expect(true).toBe(true); }); });`
+    );
+
+    const requirement: Requirement = {
+      gherkin: "Given a user\nWhen they act\nThen result occurs",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "nested.test.ts", identifier: "expires", hash: "old" }],
+      status: "done",
+    };
+    await saveRequirement(tempDir, "auth/REQ_login.yml", requirement);
+
+    await check({ cwd: tempDir, json: true, noCache: true });
+
+    const parsed = JSON.parse(consoleOutput.join("\n"));
+    expect(parsed.orphanedTests).toEqual([]);
+    expect(parsed.brokenLinks).toEqual([]);
+
+    const { loadRequirement } = await import("../lib/store");
+    const updated = await loadRequirement(tempDir, "auth/REQ_login.yml");
+    expect(updated?.data.tests[0].identifier).toBe("session > expires");
+  });
+
+  it("uses the result of the linked nested test, not another test of the same name", async () => {
+    await setupRequirements();
+    await writeFile(
+      join(tempDir, "dup.test.ts"),
+      `describe("a", () => { it("same", () => {}); });
+describe("b", () => { it("same", () => {}); });`
+    );
+    await saveRequirement(tempDir, "auth/REQ_login.yml", {
+      gherkin: "Given a user\nWhen they act\nThen result occurs",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "dup.test.ts", identifier: "b > same", hash: "old" }],
+      status: "done",
+    });
+    const { saveTestResults } = await import("../lib/result-store");
+
+    await saveTestResults(tempDir, [
+      { file: "dup.test.ts", identifier: "a > same", status: "failed" },
+      { file: "dup.test.ts", identifier: "b > same", status: "passed" },
+    ]);
+    await check({ cwd: tempDir, json: true, noCache: true });
+    expect(JSON.parse(consoleOutput.join("\n")).requirements[0].requirements[0].lastResult).toBe(
+      "passed"
+    );
+
+    // Plain names reported for both tests do not identify either one
+    consoleOutput = [];
+    await saveTestResults(tempDir, [
+      { file: "dup.test.ts", identifier: "same", status: "failed" },
+      { file: "dup.test.ts", identifier: "same", status: "passed" },
+    ]);
+    await check({ cwd: tempDir, json: true, noCache: true });
+    expect(
+      JSON.parse(consoleOutput.join("\n")).requirements[0].requirements[0].lastResult
+    ).toBeUndefined();
+  });
+
   it("reports coverage: untested vs tested requirements", async () => {
     await setupRequirements();
 
@@ -354,6 +456,36 @@ describe("Check Command", () => {
     expect(parsed.summary.orphanedTestCount).toBe(0);
   });
 
+  it("resolves ignored plain names of nested tests and stores the qualified name", async () => {
+    await setupRequirements();
+    await saveRequirement(tempDir, "auth/REQ_login.yml", {
+      gherkin: "Given a user\nWhen they act\nThen result occurs",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [],
+      status: "done",
+    });
+    await writeFile(
+      join(tempDir, "ignored.test.ts"),
+      `describe("helpers", () => { it("ignored test", () => {}); });`
+    );
+    await saveIgnoredTests(tempDir, {
+      tests: [
+        {
+          file: "ignored.test.ts",
+          identifier: "ignored test",
+          reason: "Test reason",
+          ignoredAt: new Date().toISOString(),
+        },
+      ],
+    });
+
+    await check({ cwd: tempDir, json: true, noCache: true });
+
+    expect(JSON.parse(consoleOutput.join("\n")).summary.orphanedTestCount).toBe(0);
+    const { loadIgnoredTests } = await import("../lib/store");
+    expect((await loadIgnoredTests(tempDir)).tests[0].identifier).toBe("helpers > ignored test");
+  });
+
   it("noCache flag forces re-extraction", async () => {
     await setupRequirements();
 
@@ -453,4 +585,52 @@ describe("Check Command", () => {
     expect(parsed.summary.unansweredQuestions).toBe(2);
     expect(parsed.requirements[0].requirements[0].unansweredQuestions).toBe(2);
   });
+
+  it("reports per-scenario coverage and last results", async () => {
+    await setupRequirements();
+    await writeFile(
+      join(tempDir, "login.test.ts"),
+      `it("logs in", () => {});\nit("rejects password", () => {});`
+    );
+    await writeFile(
+      join(tempDir, ".requirements", "test-results.xml"),
+      `<testsuites><testsuite name="login" file="login.test.ts">
+        <testcase name="logs in"/>
+        <testcase name="rejects password"><failure message="boom"/></testcase>
+      </testsuite></testsuites>`
+    );
+
+    const requirement: Requirement = {
+      gherkin: "Given a user\nWhen they log in\nThen they are in",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "login.test.ts", identifier: "logs in", hash: "" }],
+      status: "done",
+      scenarios: [
+        {
+          name: "wrong_password",
+          gherkin: "Given a user\nWhen the password is wrong\nThen they see an error",
+          tests: [{ file: "login.test.ts", identifier: "rejects password", hash: "" }],
+        },
+        { name: "locked_out", gherkin: "Given a locked user\nWhen they log in\nThen they are refused" },
+      ],
+    };
+    await saveRequirement(tempDir, "auth/REQ_login.yml", requirement);
+
+    await check({ cwd: tempDir, json: true });
+
+    const parsed = JSON.parse(consoleOutput.join("\n"));
+    const result = parsed.requirements[0].requirements[0];
+    expect(result.testCount).toBe(2);
+    expect(result.scenarios).toEqual([
+      { name: "wrong_password", testCount: 1, verification: "unverified", lastResult: "failed" },
+      { name: "locked_out", testCount: 0, verification: "n/a" },
+    ]);
+    expect(parsed.summary.orphanedTestCount).toBe(0);
+
+    consoleOutput = [];
+    await check({ cwd: tempDir });
+    expect(consoleOutput.join("\n")).toContain(
+      "Scenarios without linked tests:\n  - auth/REQ_login.yml#locked_out"
+    );
+  });
 });
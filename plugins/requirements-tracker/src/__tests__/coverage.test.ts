@@ -0,0 +1,301 @@
+/**
+ * Tests for coverage parsers, req import-coverage and implementation checks
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement, loadRequirement } from "../lib/store";
+import {
+  parseCoverage,
+  detectCoverageFormat,
+  cobertura,
+  istanbulJson,
+  lcov,
+} from "../lib/coverage-parsers";
+import {
+  loadCoverage,
+  normalizeCoveragePaths,
+  findTestCoverage,
+  getRequirementCoverage,
+} from "../lib/coverage";
+import { importCoverage } from "../commands/import-coverage";
+import { check } from "../commands/check";
+import type { CoverageData, Requirement } from "../lib/types";
+
+const LCOV = `TN:
+SF:src/auth.ts
+DA:1,1
+DA:2,0
+DA:3,4
+end_of_record
+SF:src/billing.ts
+DA:10,0
+end_of_record
+`;
+
+const PER_TEST_LCOV = `TN:logs in
+SF:src/auth.ts
+DA:1,1
+DA:3,1
+end_of_record
+TN:charges card
+SF:src/billing.ts
+DA:10,2
+end_of_record
+TN:charges card
+SF:src/auth.ts
+DA:1,1
+end_of_record
+`;
+
+const ISTANBUL = JSON.stringify({
+  "/project/src/auth.ts": {
+    path: "/project/src/auth.ts",
+    statementMap: {
+      "0": { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
+      "1": { start: { line: 4, column: 0 }, end: { line: 6, column: 1 } },
+      "2": { start: { line: 8, column: 0 }, end: { line: 8, column: 5 } },
+    },
+    s: { "0": 3, "1": 1, "2": 0 },
+  },
+});
+
+const COBERTURA = `<?xml version="1.0" ?>
+<coverage line-rate="0.5" version="7.4">
+  <sources>
+    <source>/project/src</source>
+  </sources>
+  <packages>
+    <package name="auth">
+      <classes>
+        <class name="login.py" filename="auth/login.py">
+          <lines>
+            <line number="1" hits="1"/>
+            <line number="2" hits="0"/>
+            <line number="5" hits="2"/>
+          </lines>
+        </class>
+        <class name="empty.py" filename="auth/empty.py">
+          <lines/>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>
+`;
+
+describe("coverage parsers", () => {
+  it("detects each format", () => {
+    expect(detectCoverageFormat(LCOV)).toBe("lcov");
+    expect(detectCoverageFormat(ISTANBUL)).toBe("istanbul-json");
+    expect(detectCoverageFormat(COBERTURA)).toBe("cobertura");
+    expect(detectCoverageFormat('{"tests": []}')).toBeNull();
+    expect(detectCoverageFormat("<testsuites></testsuites>")).toBeNull();
+  });
+
+  it("parses executed lines from LCOV", () => {
+    const result = lcov.parse(LCOV);
+    expect(result.files).toEqual({ "src/auth.ts": [1, 3] });
+    expect(result.tests).toEqual({});
+  });
+
+  it("parses per-test coverage from LCOV test names", () => {
+    const result = lcov.parse(PER_TEST_LCOV);
+    expect(result.files).toEqual({ "src/auth.ts": [1, 3], "src/billing.ts": [10] });
+    expect(result.tests).toEqual({
+      "logs in": { "src/auth.ts": [1, 3] },
+      "charges card": { "src/billing.ts": [10], "src/auth.ts": [1] },
+    });
+  });
+
+  it("parses statement coverage from Istanbul JSON", () => {
+    expect(istanbulJson.canParse('{"a": {"statementMap": {}}}')).toBe(false);
+    expect(istanbulJson.parse(ISTANBUL).files).toEqual({ "/project/src/auth.ts": [1, 4] });
+  });
+
+  it("resolves Cobertura file names against the source root", () => {
+    expect(cobertura.canParse(COBERTURA)).toBe(true);
+    expect(cobertura.parse(COBERTURA).files).toEqual({ "/project/src/auth/login.py": [1, 5] });
+  });
+
+  it("honors a format hint", () => {
+    expect(() => parseCoverage(LCOV, "cobertura")).toThrow();
+    expect(parseCoverage(LCOV, "lcov").format).toBe("lcov");
+  });
+});
+
+describe("coverage mapping", () => {
+  const data: CoverageData = {
+    importedAt: "2025-01-01T00:00:00.000Z",
+    sourceFile: "lcov.info",
+    format: "lcov",
+    files: { "src/auth.ts": [1], "src/billing.ts": [10] },
+    tests: {
+      "logs in": { "src/auth.ts": [1, 3] },
+      "src/auth.test.ts::logs out": { "src/session.ts": [2] },
+    },
+    requirements: { "REQ_billing.yml": { "src/billing.ts": [10, 11] } },
+  };
+
+  function req(path: string, identifiers: string[]) {
+    const requirement: Requirement = {
+      gherkin: "Given x\nWhen y\nThen z",
+      mainSource: { type: "manual", description: "Test" },
+      tests: identifiers.map((identifier) => ({ file: "src/auth.test.ts", identifier, hash: "" })),
+      status: "done",
+    };
+    return { path, data: requirement };
+  }
+
+  it("makes report paths relative to the project", () => {
+    expect(
+      normalizeCoveragePaths({ "/project/src/a.ts": [2], "./src/a.ts": [1], "/elsewhere/b.ts": [1] }, "/project")
+    ).toEqual({ "src/a.ts": [1, 2], "/elsewhere/b.ts": [1] });
+  });
+
+  it("matches linked tests to per-test names", () => {
+    expect(findTestCoverage({ file: "src/auth.test.ts", identifier: "login > logs in" }, data.tests)).toEqual({
+      "src/auth.ts": [1, 3],
+    });
+    expect(findTestCoverage({ file: "src/auth.test.ts", identifier: "logs out" }, data.tests)).toEqual({
+      "src/session.ts": [2],
+    });
+    expect(findTestCoverage({ file: "src/auth.test.ts", identifier: "other" }, data.tests)).toBeNull();
+  });
+
+  it("uses the most specific coverage available", () => {
+    expect(getRequirementCoverage(req("REQ_login.yml", ["logs in", "logs out"]), data)).toEqual({
+      evidence: "tests",
+      files: { "src/auth.ts": [1, 3], "src/session.ts": [2] },
+    });
+    expect(getRequirementCoverage(req("REQ_billing.yml", ["charges"]), data)?.evidence).toBe("requirement");
+    expect(getRequirementCoverage(req("REQ_other.yml", ["other"]), data)?.evidence).toBe("run");
+    expect(getRequirementCoverage(req("REQ_untested.yml", []), data)).toBeNull();
+  });
+});
+
+describe("import-coverage and check commands", () => {
+  let tempDir: string;
+  let consoleOutput: string[];
+  let exitSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-coverage-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts" });
+    await mkdir(join(tempDir, "src"));
+    await writeFile(join(tempDir, "src", "auth.ts"), "export {};\n");
+    await writeFile(join(tempDir, "src", "billing.ts"), "export {};\n");
+    await writeFile(
+      join(tempDir, "auth.test.ts"),
+      `it("logs in", () => {});\nit("charges card", () => {});`
+    );
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function saveImplementedRequirement(path: string, identifier: string, implementation: string[]) {
+    await saveRequirement(tempDir, path, {
+      gherkin: "Given a user\nWhen they act\nThen it works",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "auth.test.ts", identifier, hash: "" }],
+      status: "done",
+      implementation,
+    });
+  }
+
+  it("stores coverage with project-relative paths", async () => {
+    const absolute = PER_TEST_LCOV.replaceAll("SF:src/", `SF:${tempDir}/src/`);
+    await writeFile(join(tempDir, "lcov.info"), absolute);
+    await saveImplementedRequirement("REQ_login.yml", "logs in", ["src/auth.ts"]);
+
+    await importCoverage({ cwd: tempDir, file: "lcov.info" });
+
+    const coverage = await loadCoverage(tempDir);
+    expect(coverage?.format).toBe("lcov");
+    expect(coverage?.files).toEqual({ "src/auth.ts": [1, 3], "src/billing.ts": [10] });
+    expect(coverage?.tests["logs in"]).toEqual({ "src/auth.ts": [1, 3] });
+    expect(consoleOutput.join("\n")).toContain("REQ_login.yml: 1 file(s), 2 line(s) (linked tests)");
+  });
+
+  it("keeps requirement imports across whole-run imports", async () => {
+    await writeFile(join(tempDir, "lcov.info"), LCOV);
+    await saveImplementedRequirement("REQ_login.yml", "logs in", ["src/auth.ts"]);
+
+    await importCoverage({ cwd: tempDir, file: "lcov.info", requirement: "REQ_login.yml" });
+    await importCoverage({ cwd: tempDir, file: "lcov.info" });
+
+    const coverage = await loadCoverage(tempDir);
+    expect(coverage?.requirements).toEqual({ "REQ_login.yml": { "src/auth.ts": [1, 3] } });
+  });
+
+  it("rejects unknown formats and requirements", async () => {
+    await writeFile(join(tempDir, "lcov.info"), LCOV);
+
+    await expect(importCoverage({ cwd: tempDir, file: "lcov.info", format: "gcov" })).rejects.toThrow(
+      "process.exit(1)"
+    );
+    await expect(
+      importCoverage({ cwd: tempDir, file: "lcov.info", requirement: "REQ_missing.yml" })
+    ).rejects.toThrow("process.exit(1)");
+    await expect(importCoverage({ cwd: tempDir, file: "missing.info" })).rejects.toThrow("process.exit(1)");
+  });
+
+  it("warns when a requirement's tests never execute its implementation", async () => {
+    await writeFile(join(tempDir, "lcov.info"), PER_TEST_LCOV);
+    await saveImplementedRequirement("REQ_login.yml", "logs in", ["src/auth.ts"]);
+    await saveImplementedRequirement("REQ_billing.yml", "logs in", ["src/billing.*"]);
+    await saveImplementedRequirement("REQ_nothing.yml", "logs in", ["src/missing/**"]);
+    await importCoverage({ cwd: tempDir, file: "lcov.info" });
+    consoleOutput = [];
+
+    await check({ cwd: tempDir, json: true });
+
+    const result = JSON.parse(consoleOutput.join("\n"));
+    expect(result.coverageIssues).toEqual([
+      { requirement: "REQ_billing.yml", implementationFiles: ["src/billing.ts"], evidence: "tests" },
+    ]);
+    expect(result.summary.implementationNotExecuted).toBe(1);
+  });
+
+  it("skips the implementation check without imported coverage", async () => {
+    await saveImplementedRequirement("REQ_login.yml", "logs in", ["src/auth.ts"]);
+
+    await check({ cwd: tempDir, json: true });
+
+    const result = JSON.parse(consoleOutput.join("\n"));
+    expect(result.coverageIssues).toEqual([]);
+  });
+
+  it("validates implementation globs", async () => {
+    await writeFile(
+      join(tempDir, ".requirements", "REQ_bad.yml"),
+      [
+        "gherkin: Given a When b Then c",
+        "mainSource: { type: manual, description: Test }",
+        "status: done",
+        "implementation: src/auth.ts",
+      ].join("\n")
+    );
+
+    await expect(loadRequirement(tempDir, "REQ_bad.yml")).rejects.toThrow(
+      '"implementation" must be an array of glob strings'
+    );
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Tests for the requirement dependency graph (req graph)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import {
+  buildDependencyGraph,
+  findDependencyCycles,
+  findMissingDependencies,
+  formatDot,
+  formatMermaid,
+} from "../lib/dependency-graph";
+import { buildCheckResult } from "../lib/check-result";
+import { evaluatePolicy } from "../lib/policy";
+import { graph } from "../commands/graph";
+import { check } from "../commands/check";
+import type { Dependency, Priority, Requirement } from "../lib/types";
+import { requirement } from "./fixtures/requirements";
+
+// Dependencies by path, or as { path, blocking } entries
+function dependsOn(...deps: Array<string | Dependency>): Partial<Requirement> {
+  return { dependencies: deps.map((dep) => (typeof dep === "string" ? { path: dep } : dep)) };
+}
+
+const done = { status: "done" };
+const priority = (p: Priority) => ({ priority: p });
+
+describe("findDependencyCycles", () => {
+  it("finds cycles of blocking dependencies, including self-dependencies", () => {
+    const requirements = [
+      requirement("REQ_a.yml", dependsOn("REQ_b.yml")),
+      requirement("REQ_b.yml", dependsOn("REQ_c.yml")),
+      requirement("REQ_c.yml", dependsOn("REQ_a.yml")),
+      requirement("REQ_d.yml", dependsOn("REQ_a.yml")),
+      requirement("REQ_self.yml", dependsOn("REQ_self.yml")),
+    ];
+
+    expect(findDependencyCycles(requirements)).toEqual([
+      ["REQ_a.yml", "REQ_b.yml", "REQ_c.yml"],
+      ["REQ_self.yml"],
+    ]);
+  });
+
+  it("ignores soft dependencies and missing targets", () => {
+    const requirements = [
+      requirement("REQ_a.yml", dependsOn("REQ_b.yml", "REQ_gone.yml")),
+      requirement("REQ_b.yml", dependsOn({ path: "REQ_a.yml", blocking: false })),
+    ];
+
+    expect(findDependencyCycles(requirements)).toEqual([]);
+  });
+});
+
+describe("findMissingDependencies", () => {
+  it("reports dependencies on requirements that don't exist", () => {
+    const requirements = [
+      requirement("REQ_a.yml", dependsOn("REQ_b.yml", { path: "REQ_gone.yml", blocking: false })),
+      requirement("REQ_b.yml"),
+    ];
+
+    expect(findMissingDependencies(requirements)).toEqual([
+      { requirement: "REQ_a.yml", dependency: "REQ_gone.yml" },
+    ]);
+    expect(findMissingDependencies(requirements, new Set(["REQ_a.yml", "REQ_b.yml", "REQ_gone.yml"]))).toEqual([]);
+  });
+});
+
+describe("buildDependencyGraph", () => {
+  it("orders unfinished work and finds the critical path", () => {
+    const requirements = [
+      requirement("REQ_db.yml", done),
+      requirement("REQ_schema.yml", { ...dependsOn("REQ_db.yml"), ...priority("low") }),
+      requirement("REQ_auth.yml", priority("critical")),
+      requirement("REQ_login.yml", dependsOn("REQ_auth.yml", "REQ_schema.yml")),
+      requirement("REQ_profile.yml", dependsOn("REQ_login.yml", { path: "REQ_docs.yml", blocking: false })),
+      requirement("REQ_docs.yml"),
+    ];
+
+    const result = buildDependencyGraph(requirements);
+
+    // Workable now, most important first
+    expect(result.nextWorkable).toEqual(["REQ_auth.yml", "REQ_schema.yml", "REQ_docs.yml"]);
+    expect(result.workOrder).toEqual([
+      "REQ_auth.yml",
+      "REQ_schema.yml",
+      "REQ_docs.yml",
+      "REQ_login.yml",
+      "REQ_profile.yml",
+    ]);
+    expect(result.criticalPath).toEqual(["REQ_auth.yml", "REQ_login.yml", "REQ_profile.yml"]);
+    expect(result.stuck).toEqual([]);
+    expect(result.nodes.find((node) => node.path === "REQ_db.yml")).toMatchObject({ implemented: true, workable: false });
+    expect(result.edges.find((edge) => edge.to === "REQ_docs.yml")).toMatchObject({ blocking: false, cycle: false });
+  });
+
+  it("marks requirements behind cycles and missing or deprecated blockers as stuck", () => {
+    const requirements = [
+      requirement("REQ_a.yml", dependsOn("REQ_b.yml")),
+      requirement("REQ_b.yml", dependsOn("REQ_a.yml")),
+      requirement("REQ_c.yml", dependsOn("REQ_gone.yml")),
+      requirement("REQ_d.yml", dependsOn("REQ_c.yml")),
+      requirement("REQ_e.yml", dependsOn("REQ_old.yml")),
+      requirement("REQ_old.yml", { status: "deprecated" }),
+      requirement("REQ_free.yml"),
+    ];
+    const workflow = {
+      initial: "planned",
+      states: [
+        { name: "planned", transitions: ["done", "deprecated"] },
+        { name: "done", transitions: ["planned"], implemented: true },
+        { name: "deprecated", transitions: [], deprecated: true },
+      ],
+    };
+
+    const result = buildDependencyGraph(requirements, workflow);
+
+    expect(result.nextWorkable).toEqual(["REQ_free.yml"]);
+    expect(result.stuck).toEqual(["REQ_a.yml", "REQ_b.yml", "REQ_c.yml", "REQ_d.yml", "REQ_e.yml"]);
+    expect(result.cycles).toEqual([["REQ_a.yml", "REQ_b.yml"]]);
+    expect(result.missing).toEqual([{ requirement: "REQ_c.yml", dependency: "REQ_gone.yml" }]);
+    expect(result.edges.filter((edge) => edge.cycle).map((edge) => edge.from)).toEqual(["REQ_a.yml", "REQ_b.yml"]);
+  });
+});
+
+describe("Graph rendering", () => {
+  const result = buildDependencyGraph([
+    requirement(
+      "auth/REQ_login.yml",
+      dependsOn("auth/REQ_auth.yml", { path: "REQ_gone.yml", blocking: false })
+    ),
+    requirement("auth/REQ_auth.yml", done),
+  ]);
+
+  it("renders DOT", () => {
+    const dot = formatDot(result);
+    expect(dot).toStartWith("digraph requirements {");
+    expect(dot).toContain('"auth/REQ_auth.yml" [label="auth/REQ_auth.yml\\ndone", fillcolor="#dcfce7"];');
+    expect(dot).toContain('"auth/REQ_login.yml" -> "auth/REQ_auth.yml";');
+    expect(dot).toContain('"auth/REQ_login.yml" -> "REQ_gone.yml" [style=dashed, color="#dc2626"];');
+    expect(dot).toContain('"REQ_gone.yml" [label="REQ_gone.yml\\n(missing)"');
+  });
+
+  it("renders Mermaid", () => {
+    const mermaid = formatMermaid(result);
+    expect(mermaid).toStartWith("graph LR\n");
+    expect(mermaid).toContain('  n0["auth/REQ_auth.yml<br/>done"]:::done');
+    expect(mermaid).toContain('  n1["auth/REQ_login.yml<br/>planned"]:::workable');
+    expect(mermaid).toContain("  n1 --> n0\n  n1 -.-> n2");
+    expect(mermaid).toContain("  linkStyle 1 stroke:#dc2626");
+  });
+});
+
+describe("Dependency validation in check", () => {
+  it("reports cycles and missing targets and fails the dependency policy", () => {
+    const requirements = [
+      requirement("REQ_a.yml", dependsOn("REQ_b.yml")),
+      requirement("REQ_b.yml", dependsOn("REQ_a.yml")),
+      requirement("REQ_c.yml", dependsOn({ path: "REQ_gone.yml", blocking: false })),
+    ];
+
+    const result = buildCheckResult(requirements, [], new Set());
+    expect(result.dependencyCycles).toEqual([["REQ_a.yml", "REQ_b.yml"]]);
+    expect(result.missingDependencies).toEqual([{ requirement: "REQ_c.yml", dependency: "REQ_gone.yml" }]);
+    expect(result.summary.dependencyCycles).toBe(1);
+    expect(result.summary.missingDependencies).toBe(1);
+
+    const [rule] = evaluatePolicy(result, { noDependencyIssues: true });
+    expect(rule.violations.map((v) => v.message)).toContain("REQ_a.yml: dependency cycle REQ_a.yml -> REQ_b.yml -> REQ_a.yml");
+    expect(rule.violations.map((v) => v.message)).toContain(
+      "REQ_c.yml: depends on REQ_gone.yml, which does not exist"
+    );
+  });
+});
+
+describe("Graph Command", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-graph-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+    for (const req of [
+      requirement("auth/REQ_auth.yml", priority("high")),
+      requirement("auth/REQ_login.yml", dependsOn("auth/REQ_auth.yml")),
+      requirement("REQ_orphan.yml", dependsOn("REQ_gone.yml")),
+    ]) {
+      await saveRequirement(tempDir, req.path, req.data);
+    }
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("prints a summary of what to work on next", async () => {
+    await graph({ cwd: tempDir });
+
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("Dependency graph: 3 requirement(s), 2 dependencies");
+    expect(output).toContain("Missing dependency targets:\n  - REQ_orphan.yml: depends on REQ_gone.yml, which does not exist");
+    expect(output).toContain("Next workable:\n  - auth/REQ_auth.yml [high]");
+    expect(output).toContain("Critical path (2 requirements, in work order):\n  auth/REQ_auth.yml -> auth/REQ_login.yml");
+    expect(output).toContain("Stuck (cycle, or a missing or deprecated blocking dependency):\n  - REQ_orphan.yml");
+  });
+
+  it("writes the graph in the requested format", async () => {
+    const writeSpy = spyOn(process.stdout, "write").mockImplementation(() => true);
+    try {
+      await graph({ cwd: tempDir, format: "json" });
+      const written = JSON.parse(String(writeSpy.mock.calls[0][0]));
+      expect(written.nextWorkable).toEqual(["auth/REQ_auth.yml"]);
+    } finally {
+      writeSpy.mockRestore();
+    }
+  });
+
+  it("rejects unknown formats", async () => {
+    await expect(graph({ cwd: tempDir, format: "png" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput.join("\n")).toContain('Unknown format "png". Use one of: dot, mermaid, json');
+  });
+
+  it("resolves dependencies outside the checked path", async () => {
+    const logout = requirement("auth/REQ_logout.yml", dependsOn("REQ_orphan.yml", "auth/REQ_gone.yml"));
+    await saveRequirement(tempDir, logout.path, logout.data);
+
+    await check({ cwd: tempDir, path: "auth/", json: true });
+
+    const result = JSON.parse(consoleOutput.join("\n"));
+    expect(result.missingDependencies).toEqual([
+      { requirement: "auth/REQ_logout.yml", dependency: "auth/REQ_gone.yml" },
+    ]);
+  });
+});
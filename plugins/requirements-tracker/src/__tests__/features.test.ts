@@ -0,0 +1,282 @@
+/**
+ * Tests for Cucumber .feature import and export
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { parseFeature } from "../lib/gherkin";
+import { featureToRequirements, featureFolder, formatFeature } from "../lib/features";
+import {
+  createRequirementsDir,
+  saveConfig,
+  saveRequirement,
+  loadRequirement,
+  loadAllRequirements,
+} from "../lib/store";
+import { importFeatures } from "../commands/import-features";
+import { exportFeatures } from "../commands/export-features";
+
+const LOGIN_FEATURE = `@high
+Feature: User login
+
+  Background:
+    Given a registered user
+
+  @critical @security @done
+  Scenario: Successful login
+    When they enter valid credentials
+    Then they are logged in
+
+  @performance
+  Rule: Lockout
+    Scenario: Lockout
+      Given 3 failed attempts
+      When they try again
+      Then the account is locked
+
+    @suggested
+    Scenario Outline: Failure message
+      When they enter <password>
+      Then they see "<message>"
+
+      Examples:
+        | password | message   |
+        | short    | Too short |
+`;
+
+const ROUND_TRIP_FEATURE = `@auth
+Feature: User login
+  Users sign in with a password.
+
+  Background:
+    Given a registered user
+
+  @smoke
+  Scenario: Successful login
+    When they enter valid credentials
+    Then they are logged in
+
+  Rule: Lockout
+
+    Background:
+      Given 3 failed attempts
+
+    Scenario: Locked after three tries
+      When they try again
+      Then the account is locked
+
+    Scenario: Unlocked by support
+      When support unlocks the account
+      Then they can log in
+`;
+
+function parse(content: string) {
+  const result = parseFeature(content);
+  if (!result.success) throw new Error(result.error);
+  return result.feature;
+}
+
+describe("featureToRequirements", () => {
+  it("maps features to folders", () => {
+    expect(featureFolder("User login")).toBe("user_login/");
+    expect(featureFolder("Billing / Refunds")).toBe("billing/refunds/");
+    expect(featureFolder("")).toBe("");
+  });
+
+  it("maps scenarios and rules to requirements", () => {
+    const [login, lockout] = featureToRequirements(parse(LOGIN_FEATURE));
+
+    expect(login).toMatchObject({
+      path: "user_login/REQ_successful_login.yml",
+      gherkin: "Given a registered user\nWhen they enter valid credentials\nThen they are logged in",
+      scenarios: [],
+      priority: "critical",
+      nfrCategories: ["security"],
+      status: "done",
+    });
+
+    expect(lockout.path).toBe("user_login/REQ_lockout.yml");
+    expect(lockout.gherkin).toBe(
+      "Given a registered user\nAnd 3 failed attempts\nWhen they try again\nThen the account is locked"
+    );
+    expect(lockout.priority).toBe("high");
+    expect(lockout.nfrCategories).toEqual(["performance"]);
+    expect(lockout.status).toBeUndefined();
+    expect(lockout.scenarios).toEqual([
+      {
+        name: "failure_message",
+        gherkin: 'Given a registered user\nWhen they enter <password>\nThen they see "<message>"',
+        examples: [{ header: ["password", "message"], rows: [["short", "Too short"]] }],
+        suggested: true,
+        title: "Failure message",
+      },
+    ]);
+  });
+
+  it("keeps what the requirement fields can't hold", () => {
+    const [login, lockout] = featureToRequirements(parse(ROUND_TRIP_FEATURE));
+
+    expect(login.feature).toEqual({
+      name: "User login",
+      description: "Users sign in with a password.",
+      tags: ["auth"],
+      background: "Given a registered user",
+      title: "Successful login",
+      scenarioTags: ["smoke"],
+    });
+    expect(lockout.feature).toMatchObject({
+      rule: "Lockout",
+      ruleBackground: "Given 3 failed attempts",
+      title: "Locked after three tries",
+    });
+    expect(lockout.feature.statusTag).toBeUndefined();
+    expect(featureToRequirements(parse(LOGIN_FEATURE))[0].feature.statusTag).toBe(true);
+  });
+
+  it("exports to a feature that imports to the same requirements", () => {
+    const requirements = featureToRequirements(parse(LOGIN_FEATURE)).map((imported) => ({
+      path: imported.path,
+      data: {
+        gherkin: imported.gherkin,
+        examples: imported.examples,
+        scenarios: imported.scenarios,
+        priority: imported.priority,
+        nfrs: imported.nfrCategories.map((category) => ({ category, description: "x" })),
+        status: imported.status ?? ("planned" as const),
+        mainSource: { type: "manual" as const, description: "x" },
+        tests: [],
+      },
+    }));
+
+    const exported = formatFeature("user_login/", requirements);
+    const reimported = featureToRequirements(parse(exported));
+
+    expect(exported).toContain("  @high @planned @performance\n  Rule: lockout\n");
+    const summary = (rows: unknown[][]) => rows.sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+    expect(summary(reimported.map((r) => [r.path, r.gherkin, r.scenarios, r.priority, r.status]))).toEqual(
+      summary(requirements.map((r) => [r.path, r.data.gherkin, r.data.scenarios, r.data.priority, r.data.status]))
+    );
+  });
+});
+
+describe("import-features and export-features commands", () => {
+  let tempDir: string;
+  let consoleOutput: string[];
+  let exitSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-features-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts" });
+    await mkdir(join(tempDir, "features"));
+    await writeFile(join(tempDir, "features", "login.feature"), LOGIN_FEATURE);
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("creates requirements from feature files", async () => {
+    await importFeatures({ cwd: tempDir, pattern: "features/**/*.feature" });
+
+    const login = await loadRequirement(tempDir, "user_login/REQ_successful_login.yml");
+    expect(login?.data.status).toBe("done");
+    expect(login?.data.mainSource).toEqual({
+      type: "doc",
+      description: "features/login.feature (Feature: User login)",
+    });
+    expect(login?.data.nfrs).toEqual([
+      { category: "security", description: "Tagged @security in features/login.feature" },
+    ]);
+
+    const lockout = await loadRequirement(tempDir, "user_login/REQ_lockout.yml");
+    expect(lockout?.data.status).toBe("planned");
+    expect(lockout?.data.scenarios?.[0].examples).toHaveLength(1);
+    expect(consoleOutput.join("\n")).toContain("2 created, 0 updated");
+  });
+
+  it("updates existing requirements without losing their tests", async () => {
+    await saveRequirement(tempDir, "user_login/REQ_lockout.yml", {
+      gherkin: "Given old\nWhen old\nThen old",
+      mainSource: { type: "ticket", description: "JIRA-1" },
+      tests: [{ file: "auth.test.ts", identifier: "locks", hash: "abc" }],
+      status: "done",
+      scenarios: [{ name: "manual", gherkin: "Given a\nWhen b\nThen c" }],
+    });
+
+    await importFeatures({ cwd: tempDir, pattern: "features/*.feature" });
+
+    const lockout = await loadRequirement(tempDir, "user_login/REQ_lockout.yml");
+    expect(lockout?.data.gherkin).toStartWith("Given a registered user");
+    expect(lockout?.data.mainSource.description).toBe("JIRA-1");
+    expect(lockout?.data.tests).toHaveLength(1);
+    expect(lockout?.data.status).toBe("done");
+    expect(lockout?.data.scenarios?.map((s) => s.name)).toEqual(["manual", "failure_message"]);
+  });
+
+  it("exports an imported feature as it was written", async () => {
+    await writeFile(join(tempDir, "features", "login.feature"), ROUND_TRIP_FEATURE);
+
+    await importFeatures({ cwd: tempDir, pattern: "features/*.feature" });
+    await exportFeatures({ cwd: tempDir, dir: "out" });
+
+    expect(await readFile(join(tempDir, "out", "user_login.feature"), "utf-8")).toBe(ROUND_TRIP_FEATURE);
+  });
+
+  it("writes nothing when a feature file is invalid", async () => {
+    await writeFile(join(tempDir, "features", "broken.feature"), "Scenario: orphan\n  Given x\n");
+
+    await expect(importFeatures({ cwd: tempDir, pattern: "features/*.feature" })).rejects.toThrow(
+      "process.exit(1)"
+    );
+
+    expect(consoleOutput.join("\n")).toContain("features/broken.feature: Line 1");
+    expect((await loadAllRequirements(tempDir)).requirements).toHaveLength(0);
+  });
+
+  it("rejects two scenarios mapping to the same requirement", async () => {
+    await writeFile(
+      join(tempDir, "features", "copy.feature"),
+      "Feature: User login\n  Scenario: Successful login!\n    Given a\n    When b\n    Then c\n"
+    );
+
+    await expect(importFeatures({ cwd: tempDir, pattern: "features/*.feature" })).rejects.toThrow(
+      "process.exit(1)"
+    );
+    expect(consoleOutput.join("\n")).toContain("maps to user_login/REQ_successful_login.yml");
+  });
+
+  it("exports one feature file per folder", async () => {
+    await importFeatures({ cwd: tempDir, pattern: "features/*.feature" });
+    await saveRequirement(tempDir, "REQ_root.yml", {
+      gherkin: "Given a\nWhen b\nThen c",
+      mainSource: { type: "manual", description: "x" },
+      tests: [],
+      status: "planned",
+    });
+
+    await exportFeatures({ cwd: tempDir, dir: "out" });
+
+    const login = await readFile(join(tempDir, "out", "user_login.feature"), "utf-8");
+    expect(login).toStartWith("Feature: User login\n\n  Background:\n    Given a registered user\n");
+    expect(login).toContain("  @critical @done @security\n  Scenario: Successful login\n");
+    // Untagged on import, so no status tag
+    expect(login).toContain("  @high @performance\n  Rule: Lockout\n");
+    const root = await readFile(join(tempDir, "out", "requirements.feature"), "utf-8");
+    expect(root).toStartWith("Feature:\n\n  @planned\n  Scenario: root\n");
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Requirement and extracted test fixtures shared by the tests
+ */
+
+import type { ExtractedTest, ParsedRequirement, Requirement } from "../../lib/types";
+
+/**
+ * A valid planned requirement without tests; data overrides any field
+ */
+export function requirement(path: string, data: Partial<Requirement> = {}): ParsedRequirement {
+  return {
+    path,
+    data: {
+      gherkin: "Given a user\nWhen they act\nThen result occurs",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [],
+      status: "planned",
+      ...data,
+    },
+  };
+}
+
+/**
+ * A test as the extractor returns it (body left empty)
+ */
+export function extracted(file: string, identifier: string, hash = "h1"): ExtractedTest {
+  return { file, identifier, body: "", hash };
+}
@@ -5,6 +5,8 @@ import {
   validateGherkinStructure,
   parseAndFormat,
   isValidGherkinFormat,
+  parseFeature,
+  applyBackground,
   type GherkinStep,
 } from "../lib/gherkin";
 
@@ -406,4 +408,159 @@ describe("Gherkin Parser", () => {
       }
     });
   });
+
+  describe("data tables and doc strings", () => {
+    const input = [
+      "Given these users exist",
+      "  | name  | role      |",
+      "  | alice | admin     |",
+      "  | bob   | a\\|b \\\\ c |",
+      "When the report is requested with",
+      '  """json',
+      '  {"when": "then"}',
+      "    indented",
+      '  """',
+      "Then it lists 2 users",
+    ].join("\n");
+
+    it("attaches tables and doc strings to the step above", () => {
+      const result = parseGherkin(input);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.steps).toHaveLength(3);
+        expect(result.steps[0].dataTable).toEqual([
+          ["name", "role"],
+          ["alice", "admin"],
+          ["bob", "a|b \\ c"],
+        ]);
+        expect(result.steps[1].docString).toEqual({
+          content: '{"when": "then"}\n  indented',
+          mediaType: "json",
+        });
+        expect(result.steps[2]).toEqual({ keyword: "Then", text: "it lists 2 users" });
+      }
+    });
+
+    it("formats them back to the same text", () => {
+      const result = parseGherkin(input);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(formatGherkin(result.steps)).toBe(input);
+      }
+    });
+
+    it("validates stored gherkin with tables and doc strings", () => {
+      expect(isValidGherkinFormat(input)).toEqual({ valid: true, errors: [] });
+    });
+
+    it("rejects malformed tables and doc strings", () => {
+      expect(parseGherkin("| a |\nGiven x\nWhen y\nThen z").success).toBe(false);
+      expect(parseGherkin("Given x\n| a |\n| b | c |\nWhen y\nThen z").success).toBe(false);
+      expect(parseGherkin('Given x\n"""\nopen\nWhen y\nThen z').success).toBe(false);
+    });
+  });
+
+  describe("parseFeature", () => {
+    const feature = `
+# A comment
+@high
+Feature: User login
+  As a user I want to log in
+
+  Background:
+    Given a registered user
+
+  @security
+  Scenario: Successful login
+    When they enter valid credentials
+    Then they are logged in
+
+  Rule: Lockout
+    Scenario: Lockout after failures
+      Given 3 failed attempts
+      When they try again
+      Then the account is locked
+
+    @suggested
+    Scenario Outline: Failure message
+      * they enter <password>
+      When they submit
+      Then they see "<message>"
+
+      Examples: wrong passwords
+        | password | message        |
+        | short    | Too short      |
+        | wrong    | Wrong password |
+`;
+
+    it("reads features, rules, backgrounds and outlines", () => {
+      const result = parseFeature(feature);
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      const parsed = result.feature;
+      expect(parsed.name).toBe("User login");
+      expect(parsed.tags).toEqual(["high"]);
+      expect(parsed.description).toBe("As a user I want to log in");
+      expect(parsed.background).toEqual([{ keyword: "Given", text: "a registered user" }]);
+      expect(parsed.scenarios.map((s) => [s.name, s.tags, s.line])).toEqual([
+        ["Successful login", ["security"], 11],
+      ]);
+
+      const [rule] = parsed.rules;
+      expect(rule.name).toBe("Lockout");
+      expect(rule.scenarios.map((s) => s.name)).toEqual(["Lockout after failures", "Failure message"]);
+
+      const outline = rule.scenarios[1];
+      expect(outline.tags).toEqual(["suggested"]);
+      expect(outline.steps[0]).toEqual({ keyword: "And", text: "they enter <password>" });
+      expect(outline.examples).toEqual([
+        {
+          name: "wrong passwords",
+          header: ["password", "message"],
+          rows: [
+            ["short", "Too short"],
+            ["wrong", "Wrong password"],
+          ],
+        },
+      ]);
+    });
+
+    it("reports errors with line numbers", () => {
+      expect(parseFeature("Scenario: x\n  Given a\n")).toEqual({
+        success: false,
+        error: "Line 1: 'Scenario:' must come after 'Feature:'",
+      });
+      expect(parseFeature("Feature: a\nScenario: b\n  Given x\n  | a |\n  | b | c |")).toEqual({
+        success: false,
+        error: "Line 2: Inconsistent cell count in data table",
+      });
+      expect(parseFeature("# nothing here").success).toBe(false);
+    });
+
+    it("ignores keywords inside doc strings", () => {
+      const result = parseFeature(
+        'Feature: f\n  Scenario: s\n    Given a file\n      """\n      Scenario: not one\n      """\n    When read\n    Then ok'
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.feature.scenarios).toHaveLength(1);
+        expect(result.feature.scenarios[0].steps[0].docString?.content).toBe("Scenario: not one");
+      }
+    });
+
+    it("prepends background steps as one Given block", () => {
+      const steps = applyBackground(
+        [{ keyword: "Given", text: "a user" }],
+        [
+          { keyword: "Given", text: "an order" },
+          { keyword: "When", text: "it ships" },
+        ]
+      );
+
+      expect(steps.map((s) => s.keyword)).toEqual(["Given", "And", "When"]);
+    });
+  });
 });
@@ -0,0 +1,239 @@
+/**
+ * Tests for the test run history and flakiness detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { appendFile, mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import {
+  recordTestRun,
+  loadTestHistory,
+  getTestHistory,
+  getTestHistoryPath,
+  computeFlakiness,
+  findFlakyTests,
+} from "../lib/history";
+import { history } from "../commands/history";
+import { check } from "../commands/check";
+import type { TestResultStatus, TestRunHistoryEntry } from "../lib/types";
+
+function entry(statuses: Record<string, TestResultStatus>): TestRunHistoryEntry {
+  const results = Object.entries(statuses).map(([identifier, status]) => ({
+    file: "auth.test.ts",
+    identifier,
+    status,
+  }));
+  return {
+    recordedAt: "2025-01-01T00:00:00.000Z",
+    commit: null,
+    source: "req run",
+    summary: { total: results.length, passed: 0, failed: 0, skipped: 0 },
+    results,
+  };
+}
+
+describe("computeFlakiness", () => {
+  it("counts flips between pass and fail", () => {
+    expect(computeFlakiness(["passed", "failed", "passed", "failed"])).toEqual({
+      runs: 4,
+      flips: 3,
+      flipRate: 1,
+      flaky: true,
+    });
+  });
+
+  it("does not treat a single regression or fix as flaky", () => {
+    expect(computeFlakiness(["passed", "passed", "failed", "failed"]).flaky).toBe(false);
+    expect(computeFlakiness(["failed", "passed"]).flaky).toBe(false);
+  });
+
+  it("requires a minimum flip rate", () => {
+    const rare: TestResultStatus[] = [
+      "passed", "failed", "passed", "passed", "passed",
+      "passed", "passed", "passed", "passed", "passed",
+    ];
+    const result = computeFlakiness(rare);
+
+    expect(result.flips).toBe(2);
+    expect(result.flaky).toBe(false);
+  });
+
+  it("ignores skipped runs and counts errors as failures", () => {
+    const result = computeFlakiness(["passed", "skipped", "error", "skipped", "passed"]);
+
+    expect(result.runs).toBe(3);
+    expect(result.flips).toBe(2);
+    expect(result.flaky).toBe(true);
+  });
+
+  it("handles tests without enough runs", () => {
+    expect(computeFlakiness([])).toEqual({ runs: 0, flips: 0, flipRate: 0, flaky: false });
+    expect(computeFlakiness(["failed"]).flipRate).toBe(0);
+  });
+});
+
+describe("getTestHistory", () => {
+  const entries = [
+    entry({ "logs in": "passed" }),
+    entry({ other: "failed" }),
+    entry({ "logs in": "failed" }),
+    entry({ "logs in": "passed" }),
+  ];
+
+  it("returns the test's results, skipping runs without it", () => {
+    const points = getTestHistory({ file: "auth.test.ts", identifier: "logs in" }, entries);
+    expect(points.map((p) => p.status)).toEqual(["passed", "failed", "passed"]);
+  });
+
+  it("limits to the most recent runs", () => {
+    const points = getTestHistory({ file: "auth.test.ts", identifier: "logs in" }, entries, 2);
+    expect(points.map((p) => p.status)).toEqual(["failed", "passed"]);
+  });
+
+  it("finds flaky links", () => {
+    const flaky = findFlakyTests(
+      [
+        { file: "auth.test.ts", identifier: "logs in" },
+        { file: "auth.test.ts", identifier: "other" },
+      ],
+      entries
+    );
+    expect([...flaky]).toEqual(["auth.test.ts:logs in"]);
+  });
+});
+
+describe("history store", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-history-test-"));
+    await createRequirementsDir(tempDir);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("returns no runs without a history file", async () => {
+    expect(await loadTestHistory(tempDir)).toEqual([]);
+  });
+
+  it("appends runs and loads them oldest first", async () => {
+    await recordTestRun(tempDir, [{ file: "a.test.ts", identifier: "x", status: "passed" }], "req run");
+    await recordTestRun(
+      tempDir,
+      [{ file: "a.test.ts", identifier: "x", status: "failed", errorMessage: "boom", duration: 3 }],
+      "junit.xml"
+    );
+
+    const entries = await loadTestHistory(tempDir);
+
+    expect(entries.map((e) => e.source)).toEqual(["req run", "junit.xml"]);
+    expect(entries[1].summary).toEqual({ total: 1, passed: 0, failed: 1, skipped: 0 });
+    expect(entries[1].results).toEqual([
+      { file: "a.test.ts", identifier: "x", status: "failed", duration: 3 },
+    ]);
+    // Not a git repository
+    expect(entries[0].commit).toBeNull();
+  });
+
+  it("skips corrupt lines", async () => {
+    await recordTestRun(tempDir, [], "req run");
+    await appendFile(getTestHistoryPath(tempDir), '{"recordedAt": "trunc\n');
+    await recordTestRun(tempDir, [], "req run");
+
+    expect(await loadTestHistory(tempDir)).toHaveLength(2);
+  });
+});
+
+describe("history and check commands", () => {
+  let tempDir: string;
+  let consoleOutput: string[];
+  let exitSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-history-cmd-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts" });
+    await writeFile(
+      join(tempDir, "auth.test.ts"),
+      `it("logs in", () => {});\nit("logs out", () => {});`
+    );
+
+    const lines = [
+      entry({ "logs in": "passed", "logs out": "passed" }),
+      entry({ "logs in": "failed", "logs out": "passed" }),
+      entry({ "logs in": "passed", "logs out": "passed" }),
+      entry({ "logs in": "failed", "logs out": "passed" }),
+    ].map((e) => JSON.stringify(e) + "\n");
+    await writeFile(getTestHistoryPath(tempDir), lines.join(""));
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function saveLinkedRequirement(path: string, identifiers: string[]) {
+    await saveRequirement(tempDir, path, {
+      gherkin: "Given a user\nWhen they log in\nThen they see the dashboard",
+      mainSource: { type: "manual", description: "Test" },
+      tests: identifiers.map((identifier) => ({ file: "auth.test.ts", identifier, hash: "" })),
+      status: "done",
+    });
+  }
+
+  it("shows a sparkline and flip rate for a test", async () => {
+    await history({ cwd: tempDir, target: "auth.test.ts:logs in" });
+
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("auth.test.ts:logs in");
+    expect(output).toContain("✓✗✓✗  flip rate 100% (3 flip(s) in 4 run(s)) - FLAKY");
+  });
+
+  it("shows every test linked to a requirement", async () => {
+    await saveLinkedRequirement("REQ_login.yml", ["logs in", "logs out"]);
+
+    await history({ cwd: tempDir, target: "REQ_login.yml", last: 2 });
+
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("✓✗  flip rate 100% (1 flip(s) in 2 run(s))");
+    expect(output).toContain("✓✓  flip rate 0% (0 flip(s) in 2 run(s))");
+  });
+
+  it("rejects invalid targets", async () => {
+    await expect(history({ cwd: tempDir, target: "auth.test.ts" })).rejects.toThrow(
+      "process.exit(1)"
+    );
+  });
+
+  it("flags requirements whose only coverage is flaky", async () => {
+    await saveLinkedRequirement("REQ_flaky.yml", ["logs in"]);
+    await saveLinkedRequirement("REQ_mixed.yml", ["logs in", "logs out"]);
+
+    await check({ cwd: tempDir, json: true });
+
+    const result = JSON.parse(consoleOutput.join("\n"));
+    const flags = Object.fromEntries(
+      result.requirements[0].requirements.map((r: { id: string; flakyOnly?: boolean }) => [
+        r.id,
+        !!r.flakyOnly,
+      ])
+    );
+    expect(flags).toEqual({ "REQ_flaky.yml": true, "REQ_mixed.yml": false });
+    expect(result.summary.flakyOnly).toBe(1);
+  });
+});
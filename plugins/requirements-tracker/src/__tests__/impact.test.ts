@@ -0,0 +1,177 @@
+/**
+ * Tests for git-aware change impact (req impact)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import { analyzeImpact, diffTests } from "../lib/impact";
+import { impact } from "../commands/impact";
+import { extracted, requirement } from "./fixtures/requirements";
+
+const execFileAsync = promisify(execFile);
+
+describe("diffTests", () => {
+  it("compares tests by hash", () => {
+    const before = [
+      extracted("a.test.ts", "kept", "1"),
+      extracted("a.test.ts", "changed", "2"),
+      extracted("a.test.ts", "gone", "3"),
+    ];
+    const after = [
+      extracted("a.test.ts", "kept", "1"),
+      extracted("a.test.ts", "changed", "9"),
+      extracted("a.test.ts", "new", "4"),
+    ];
+
+    expect(diffTests(before, after)).toEqual([
+      { file: "a.test.ts", identifier: "changed", change: "modified" },
+      { file: "a.test.ts", identifier: "gone", change: "removed" },
+      { file: "a.test.ts", identifier: "new", change: "added" },
+    ]);
+  });
+});
+
+describe("analyzeImpact", () => {
+  const currentTests = [
+    extracted("a.test.ts", "one", "new"),
+    extracted("a.test.ts", "two", "2"),
+    extracted("b.test.ts", "only", "3"),
+  ];
+  const assessment = { sufficient: true, notes: "ok", assessedAt: "2024-01-01T00:00:00Z" };
+
+  it("maps changed tests and requirement files to requirements and run targets", () => {
+    const requirements = [
+      requirement("REQ_one.yml", {
+        tests: [{ file: "a.test.ts", identifier: "one", hash: "old" }],
+        aiAssessment: assessment,
+      }),
+      requirement("REQ_b.yml", { tests: [{ file: "b.test.ts", identifier: "only", hash: "3" }] }),
+      requirement("REQ_untouched.yml", { tests: [{ file: "a.test.ts", identifier: "two", hash: "2" }] }),
+    ];
+
+    const result = analyzeImpact(
+      requirements,
+      currentTests,
+      [{ file: "a.test.ts", identifier: "one", change: "modified" }],
+      new Map([
+        ["REQ_b.yml", "gherkin changed"],
+        ["REQ_deleted.yml", "requirement deleted"],
+      ])
+    );
+
+    expect(result.requirements).toEqual([
+      { path: "REQ_b.yml", status: "planned", reasons: ["gherkin changed"], willGoStale: false },
+      { path: "REQ_deleted.yml", reasons: ["requirement deleted"], willGoStale: false },
+      {
+        path: "REQ_one.yml",
+        status: "planned",
+        reasons: ["test modified: a.test.ts:one"],
+        willGoStale: true,
+      },
+    ]);
+    // b.test.ts runs whole (its only test is affected), a.test.ts only partly
+    expect(result.runTargets).toEqual(["a.test.ts:one", "b.test.ts"]);
+  });
+
+  it("does not run removed tests", () => {
+    const requirements = [
+      requirement("REQ_one.yml", { tests: [{ file: "a.test.ts", identifier: "gone", hash: "x" }] }),
+    ];
+
+    const result = analyzeImpact(
+      requirements,
+      currentTests,
+      [{ file: "a.test.ts", identifier: "gone", change: "removed" }],
+      new Map()
+    );
+
+    expect(result.requirements[0].reasons).toEqual(["test removed: a.test.ts:gone"]);
+    expect(result.runTargets).toEqual([]);
+  });
+});
+
+describe("Impact Command", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  const git = (...args: string[]) => execFileAsync("git", args, { cwd: tempDir });
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-impact-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports requirements affected by changed test bodies", async () => {
+    await git("init", "-q");
+    await git("config", "user.email", "dev@example.com");
+    await git("config", "user.name", "Dev");
+    await writeFile(
+      join(tempDir, "auth.test.ts"),
+      `it("logs in", () => { expect(1).toBe(1); });\nit("logs out", () => {});\n`
+    );
+    await saveRequirement(tempDir, "REQ_login.yml", {
+      gherkin: "Given a user\nWhen they log in\nThen they are in",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "auth.test.ts", identifier: "logs in", hash: "" }],
+      status: "done",
+    });
+    await saveRequirement(tempDir, "REQ_logout.yml", {
+      gherkin: "Given a user\nWhen they log out\nThen they are out",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "auth.test.ts", identifier: "logs out", hash: "" }],
+      status: "done",
+    });
+    await git("add", "-A");
+    await git("commit", "-qm", "base");
+
+    // Only "logs in" changes; reformatting elsewhere doesn't count
+    await writeFile(
+      join(tempDir, "auth.test.ts"),
+      `it("logs in", () => { expect(2).toBe(2); });\n\nit("logs out", () => {});\n`
+    );
+
+    await impact({ cwd: tempDir, json: true });
+
+    const report = JSON.parse(consoleOutput.join("\n"));
+    expect(report.changedTestFiles).toEqual(["auth.test.ts"]);
+    expect(report.testChanges).toEqual([
+      { file: "auth.test.ts", identifier: "logs in", change: "modified" },
+    ]);
+    expect(report.requirements.map((r: { path: string }) => r.path)).toEqual(["REQ_login.yml"]);
+    expect(report.runTargets).toEqual(["auth.test.ts:logs in"]);
+
+    consoleOutput = [];
+    await impact({ cwd: tempDir });
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("  - REQ_login.yml [done]\n      test modified: auth.test.ts:logs in");
+    expect(output).toContain('  req run "auth.test.ts:logs in"');
+  });
+
+  it("errors outside a git repository", async () => {
+    await expect(impact({ cwd: tempDir, base: "main" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput.join("\n")).toContain("Cannot diff against main");
+  });
+});
@@ -9,6 +9,7 @@ import { tmpdir } from "os";
 import { createRequirementsDir, saveConfig, getRequirementsDir } from "../lib/store";
 import { importResults } from "../commands/import-results";
 import { loadTestResults } from "../lib/result-store";
+import { loadTestHistory } from "../lib/history";
 import { TEST_RESULTS_FILE } from "../lib/types";
 
 const fixturesDir = join(import.meta.dir, "fixtures");
@@ -67,6 +68,20 @@ describe("Import Results Command", () => {
     expect(results!.summary.failed).toBe(2);
   });
 
+  it("appends imported results to the run history", async () => {
+    await setupRequirements();
+    await copyFile(join(fixturesDir, "junit-results.xml"), join(tempDir, "junit.xml"));
+
+    await importResults({ cwd: tempDir, file: "junit.xml" });
+    await importResults({ cwd: tempDir, file: "junit.xml" });
+
+    const history = await loadTestHistory(tempDir);
+    expect(history).toHaveLength(2);
+    expect(history[0].source).toBe("junit.xml");
+    expect(history[0].summary).toEqual({ total: 5, passed: 3, failed: 2, skipped: 0 });
+    expect(history[0].results.every((r) => r.errorMessage === undefined)).toBe(true);
+  });
+
   it("rejects non-XML files", async () => {
     await setupRequirements();
     await writeFile(join(tempDir, "results.json"), '{"testResults":[]}');
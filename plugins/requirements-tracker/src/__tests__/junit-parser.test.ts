@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, test } from "bun:test";
-import { parse, canParse } from "../lib/result-parsers/junit-xml";
+import { parse, canParse, serialize } from "../lib/result-parsers/junit-xml";
 
 describe("JUnit XML Parser", () => {
   describe("canParse", () => {
@@ -181,6 +181,34 @@ describe("JUnit XML Parser", () => {
       expect(summary.passed).toBe(2);
     });
 
+    test("qualifies test names with Bun's nested describe suites", () => {
+      const xml = `<testsuites name="bun test" tests="4">
+  <testsuite name="src/dup.test.ts" file="src/dup.test.ts" tests="4">
+    <testsuite name="a" file="src/dup.test.ts" tests="2">
+      <testcase name="same" classname="a" file="src/dup.test.ts">
+        <failure message="failed"/>
+      </testcase>
+      <testsuite name="inner" file="src/dup.test.ts" tests="1">
+        <testcase name="deep" classname="inner &gt; a" file="src/dup.test.ts"/>
+      </testsuite>
+    </testsuite>
+    <testsuite name="b" file="src/dup.test.ts" tests="1">
+      <testcase name="same" classname="b" file="src/dup.test.ts"/>
+    </testsuite>
+    <testcase name="top" classname="" file="src/dup.test.ts"/>
+  </testsuite>
+</testsuites>`;
+
+      const { results } = parse(xml);
+
+      expect(results.map((r) => [r.identifier, r.status])).toEqual([
+        ["top", "passed"],
+        ["a > same", "failed"],
+        ["a > inner > deep", "passed"],
+        ["b > same", "passed"],
+      ]);
+    });
+
     test("converts dot-separated classname to file path", () => {
       // Some runners use dots instead of slashes
       const xml = `<testsuites>
@@ -203,5 +231,71 @@ describe("JUnit XML Parser", () => {
       expect(results).toHaveLength(0);
       expect(summary.total).toBe(0);
     });
+
+    test("prefers file attribute on testcase (mocha xunit, node:test)", () => {
+      const xml = `<testsuite name="Mocha Tests" tests="1">
+  <testcase name="works" classname="Payments Credit Card" file="test/payments.spec.js" time="0.1"/>
+</testsuite>`;
+
+      const { results } = parse(xml);
+
+      expect(results[0].file).toBe("test/payments.spec.js");
+    });
+
+    test("qualifies pytest (xunit1) names with their test class", () => {
+      const xml = `<testsuites>
+  <testsuite name="pytest" tests="2">
+    <testcase classname="tests.test_auth.TestLogin" name="test_ok[a-b]" file="tests/test_auth.py" line="10" time="0.1"/>
+    <testcase classname="tests.test_auth" name="test_module_level" file="tests/test_auth.py" line="20" time="0.1"/>
+  </testsuite>
+</testsuites>`;
+
+      const { results } = parse(xml);
+
+      expect(results.map((r) => [r.file, r.identifier])).toEqual([
+        ["tests/test_auth.py", "TestLogin > test_ok[a-b]"],
+        ["tests/test_auth.py", "test_module_level"],
+      ]);
+    });
+
+    test("uses bare file name classname as-is", () => {
+      const xml = `<testsuites>
+  <testsuite name="root" tests="1">
+    <testcase name="test" classname="auth.test.ts" time="0.1"/>
+  </testsuite>
+</testsuites>`;
+
+      const { results } = parse(xml);
+
+      expect(results[0].file).toBe("auth.test.ts");
+    });
+  });
+
+  describe("serialize", () => {
+    test("round-trips results through parse", () => {
+      const results = [
+        { file: "src/a.test.ts", identifier: "passes", status: "passed" as const, duration: 12 },
+        {
+          file: "src/a.test.ts",
+          identifier: "login > fails <badly> & loudly",
+          status: "failed" as const,
+          errorMessage: "Expected 1\nReceived 2",
+        },
+        { file: "src/b.test.ts", identifier: "errors", status: "error" as const, errorMessage: "boom" },
+        { file: "src/b.test.ts", identifier: "skipped", status: "skipped" as const },
+      ];
+
+      const xml = serialize(results);
+      expect(canParse(xml)).toBe(true);
+
+      const parsed = parse(xml);
+      expect(parsed.results).toEqual([
+        { ...results[0], errorMessage: undefined },
+        { ...results[1], duration: undefined },
+        { ...results[2], duration: undefined },
+        { ...results[3], duration: undefined, errorMessage: undefined },
+      ]);
+      expect(parsed.summary).toEqual({ total: 4, passed: 1, failed: 2, skipped: 1 });
+    });
   });
 });
@@ -103,6 +103,43 @@ describe("Link Command", () => {
     expect(data.tests[0].hash.length).toBe(64);
   });
 
+  it("accepts a fully qualified name and stores the canonical identifier", async () => {
+    await setupRequirements();
+    await writeFile(
+      join(tempDir, "nested.test.ts"),
+      `
+      describe("session", () => {
+        it("expires after timeout", () => {
+          expect(true).toBe(true);
+        });
+      });
+    `
+    );
+
+    await link({
+      cwd: tempDir,
+      path: "auth/REQ_login.yml",
+      testSpec: "nested.test.ts:session > expires after timeout",
+    });
+
+    const content = await readFile(
+      join(getRequirementsDir(tempDir), "auth/REQ_login.yml"),
+      "utf-8"
+    );
+    const data = parseYaml(content) as Requirement;
+
+    expect(data.tests.length).toBe(1);
+    expect(data.tests[0].identifier).toBe("session > expires after timeout");
+
+    // The plain name of a nested test resolves to the same link
+    await link({
+      cwd: tempDir,
+      path: "auth/REQ_login.yml",
+      testSpec: "nested.test.ts:expires after timeout",
+    });
+    expect(consoleOutput).toContain("Test is already linked to this requirement.");
+  });
+
   it("computes and stores hash", async () => {
     await setupRequirements();
 
@@ -279,4 +316,57 @@ describe("Link Command", () => {
 
     expect(exitCode).toBe(1);
   });
+
+  it("links a test to a scenario", async () => {
+    await setupRequirements();
+    await saveRequirement(tempDir, "auth/REQ_login.yml", {
+      gherkin: "Given a user\nWhen they login\nThen they are authenticated",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [],
+      status: "planned",
+      scenarios: [{ name: "invalid_password", gherkin: "Given a user\nWhen wrong\nThen error" }],
+    });
+
+    await link({
+      cwd: tempDir,
+      path: "auth/REQ_login.yml#invalid_password",
+      testSpec: "auth.test.ts:handles error",
+    });
+
+    const content = await readFile(
+      join(getRequirementsDir(tempDir), "auth/REQ_login.yml"),
+      "utf-8"
+    );
+    const data = parseYaml(content) as Requirement;
+
+    expect(data.tests).toEqual([]);
+    expect(data.scenarios?.[0].tests).toHaveLength(1);
+    expect(data.scenarios?.[0].tests?.[0].identifier).toBe("handles error");
+    expect(data.status).toBe("done");
+    expect(consoleOutput.join("\n")).toContain("Scenario now has 1 test(s) linked.");
+  });
+
+  it("errors on unknown scenario and lists the available ones", async () => {
+    await setupRequirements();
+    await saveRequirement(tempDir, "auth/REQ_login.yml", {
+      gherkin: "Given a user\nWhen they login\nThen they are authenticated",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [],
+      status: "done",
+      scenarios: [{ name: "invalid_password", gherkin: "Given a user\nWhen wrong\nThen error" }],
+    });
+
+    try {
+      await link({
+        cwd: tempDir,
+        path: "auth/REQ_login.yml#locked_out",
+        testSpec: "auth.test.ts:handles error",
+      });
+    } catch (e) {
+      // Expected
+    }
+
+    expect(exitCode).toBe(1);
+    expect(consoleOutput.join("\n")).toContain("Scenarios of auth/REQ_login.yml: invalid_password");
+  });
 });
@@ -0,0 +1,188 @@
+/**
+ * Tests for the CI gate (`req check --ci`)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import { buildCheckResult } from "../lib/check-result";
+import {
+  DEFAULT_POLICY,
+  evaluatePolicy,
+  formatJUnitReport,
+  formatSarifReport,
+  validatePolicy,
+} from "../lib/policy";
+import { check } from "../commands/check";
+import { extracted, requirement } from "./fixtures/requirements";
+
+describe("validatePolicy", () => {
+  it("accepts the default policy", () => {
+    expect(validatePolicy(DEFAULT_POLICY)).toEqual([]);
+  });
+
+  it("reports invalid rules", () => {
+    expect(
+      validatePolicy({
+        requireTests: ["urgent" as never],
+        noStale: "yes" as never,
+        maxOrphanedTests: -1,
+      })
+    ).toEqual([
+      '"requireTests": unknown priority "urgent"',
+      '"noStale" must be true or false',
+      '"maxOrphanedTests" must be a non-negative integer',
+    ]);
+  });
+});
+
+describe("evaluatePolicy", () => {
+  const requirements = [
+    requirement("auth/REQ_login.yml", { priority: "critical", status: "done" }),
+    requirement("auth/REQ_logout.yml", { priority: "low", status: "done" }),
+    requirement("auth/REQ_sso.yml", { priority: "high", status: "planned" }),
+    requirement("pay/REQ_refund.yml", {
+      status: "done",
+      tests: [{ file: "pay.test.ts", identifier: "refunds", hash: "old" }],
+      aiAssessment: { sufficient: true, notes: "ok", assessedAt: "2024-01-01T00:00:00Z" },
+      dependencies: [{ path: "auth/REQ_sso.yml" }],
+    }),
+  ];
+  const result = buildCheckResult(
+    requirements,
+    [
+      extracted("pay.test.ts", "refunds", "new"),
+      { ...extracted("misc.test.ts", "helper"), range: { start: 0, end: 1, startLine: 3, endLine: 5 } },
+    ],
+    new Set(),
+    new Set(),
+    [{ file: "pay.test.ts", identifier: "refunds", status: "failed" }]
+  );
+
+  it("reports each violated rule of the default policy", () => {
+    const rules = evaluatePolicy(result, DEFAULT_POLICY);
+
+    expect(Object.fromEntries(rules.map((rule) => [rule.id, rule.violations.map((v) => v.message)]))).toEqual({
+      "require-tests": ["auth/REQ_login.yml: critical requirement is done without linked tests"],
+      "no-stale": ["pay/REQ_refund.yml: tests changed since the last assessment (run 'req assess')"],
+      "max-orphaned-tests": ['misc.test.ts: "helper" is not linked to any requirement'],
+      "no-failing-tests": ["pay/REQ_refund.yml: linked tests failed in the last run"],
+      "no-dependency-issues": ["pay/REQ_refund.yml: blocked by auth/REQ_sso.yml"],
+    });
+  });
+
+  it("only enforces configured rules", () => {
+    const rules = evaluatePolicy(result, { requireTests: ["low"], maxOrphanedTests: 1 });
+
+    expect(rules.map((rule) => rule.id)).toEqual(["require-tests", "max-orphaned-tests"]);
+    expect(rules[0].violations.map((v) => v.requirement)).toEqual(["auth/REQ_logout.yml"]);
+    expect(rules[1].violations).toEqual([]);
+  });
+
+  it("formats JUnit and SARIF reports", () => {
+    const rules = evaluatePolicy(result, { noStale: true, noFailingTests: false, maxOrphanedTests: 0 });
+
+    const junit = formatJUnitReport(rules);
+    expect(junit).toContain('<testsuites name="req check" tests="2" failures="2">');
+    expect(junit).toContain('<failure message="1 violation(s)">misc.test.ts: &quot;helper&quot;');
+
+    const sarif = JSON.parse(formatSarifReport(rules));
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      "no-stale",
+      "max-orphaned-tests",
+    ]);
+    expect(sarif.runs[0].results.map((r: { locations: unknown[] }) => r.locations[0])).toEqual([
+      { physicalLocation: { artifactLocation: { uri: ".requirements/pay/REQ_refund.yml" } } },
+      {
+        physicalLocation: {
+          artifactLocation: { uri: "misc.test.ts" },
+          region: { startLine: 3 },
+        },
+      },
+    ]);
+  });
+});
+
+describe("check --ci", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let exitCode: number | undefined;
+  let consoleOutput: string[];
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-policy-test-"));
+    exitCode = undefined;
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      exitCode = code as number;
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await writeFile(join(tempDir, "app.test.ts"), `it("works", () => {});\nit("extra", () => {});`);
+    await saveRequirement(tempDir, "REQ_app.yml", {
+      gherkin: "Given a user\nWhen they act\nThen result occurs",
+      mainSource: { type: "manual", description: "Test" },
+      tests: [{ file: "app.test.ts", identifier: "works", hash: "" }],
+      status: "done",
+      priority: "critical",
+    });
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("exits 1 and names the violated rules", async () => {
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+
+    await expect(check({ cwd: tempDir, ci: true, noCache: true })).rejects.toThrow("process.exit(1)");
+
+    const output = consoleOutput.join("\n");
+    expect(exitCode).toBe(1);
+    expect(output).toContain("Policy check: 4/5 rules passed");
+    expect(output).toContain("  FAIL  max-orphaned-tests - At most 0 orphaned test(s)");
+    expect(output).toContain('  - app.test.ts: "extra" is not linked to any requirement');
+  });
+
+  it("passes with the configured policy and writes a JUnit report", async () => {
+    await saveConfig(tempDir, {
+      testRunner: "echo test",
+      testGlob: "**/*.test.ts",
+      policy: { requireTests: ["critical"], maxOrphanedTests: 1 },
+    });
+
+    await check({ cwd: tempDir, ci: true, noCache: true, report: "junit", output: "policy.xml" });
+
+    expect(exitCode).toBeUndefined();
+    expect(consoleOutput.join("\n")).toContain("Policy check: 2/2 rules passed");
+    const junit = await readFile(join(tempDir, "policy.xml"), "utf-8");
+    expect(junit).toContain('tests="2" failures="0"');
+  });
+
+  it("rejects unknown report formats", async () => {
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+
+    await expect(check({ cwd: tempDir, ci: true, report: "html" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput.join("\n")).toContain('Unknown report format "html"');
+  });
+
+  it("rejects a report on stdout together with JSON output", async () => {
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+
+    await expect(check({ cwd: tempDir, ci: true, json: true, report: "junit" })).rejects.toThrow(
+      "process.exit(1)"
+    );
+    expect(consoleOutput.join("\n")).toContain("--report with --json requires --output");
+  });
+});
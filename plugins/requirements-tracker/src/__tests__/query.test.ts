@@ -0,0 +1,172 @@
+/**
+ * Tests for the requirement query language (req query)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import { matchesQuery, parseQuery, type QueryableRequirement } from "../lib/query";
+import { query } from "../commands/query";
+import type { Requirement } from "../lib/types";
+
+const LOGIN: QueryableRequirement = {
+  path: "auth/REQ_login.yml",
+  gherkin: "Given a user\nWhen they enter the password\nThen they are logged in",
+  mainSource: { type: "slack", description: "Thread with the security team" },
+  status: "planned",
+  priority: "critical",
+  verification: "stale",
+  tests: [{ file: "auth.test.ts", identifier: "logs in" }],
+  scenarios: [{ name: "rate_limited", gherkin: "Given 5 failures\nWhen they retry\nThen blocked", suggested: true }],
+  nfrs: [{ category: "security", description: "Passwords are hashed" }],
+  questions: [{ question: "Lockout duration?" }],
+};
+
+const EXPORT: QueryableRequirement = {
+  path: "reports/REQ_export.yml",
+  gherkin: "Given a report\nWhen exported\nThen a CSV is downloaded",
+  mainSource: { type: "doc", description: "PRD" },
+  status: "done",
+  verification: "verified",
+  tests: [],
+  scenarios: [
+    {
+      name: "empty",
+      gherkin: "Given no rows\nWhen exported\nThen a header only",
+      tests: [{ file: "export.test.ts", identifier: "empty csv" }],
+    },
+  ],
+};
+
+function run(expr: string, reqs = [LOGIN, EXPORT]): string[] {
+  const parsed = parseQuery(expr);
+  if (!parsed.success) throw new Error(parsed.error);
+  return reqs.filter((req) => matchesQuery(parsed.query, req)).map((req) => req.path);
+}
+
+describe("parseQuery", () => {
+  it("parses fields, alternatives, negation and quoted text", () => {
+    const parsed = parseQuery('priority:critical,high -has:tests "two words" login');
+    expect(parsed).toEqual({
+      success: true,
+      query: {
+        terms: [
+          { field: "priority", values: ["critical", "high"], negate: false },
+          { field: "has", values: ["tests"], negate: true },
+          { field: "text", values: ["two words"], negate: false },
+          { field: "text", values: ["login"], negate: false },
+        ],
+      },
+    });
+  });
+
+  it("rejects unknown fields, invalid values and unterminated quotes", () => {
+    expect(parseQuery("owner:bob")).toMatchObject({ success: false, error: expect.stringContaining('Unknown field "owner"') });
+    expect(parseQuery("priority:urgent")).toMatchObject({ success: false, error: expect.stringContaining('Invalid priority "urgent"') });
+    expect(parseQuery("has:owners")).toMatchObject({ success: false, error: expect.stringContaining('Invalid has "owners"') });
+    expect(parseQuery('text:"password')).toEqual({ success: false, error: "Unterminated quote" });
+    expect(parseQuery("status:")).toEqual({ success: false, error: 'Missing value for "status:"' });
+  });
+});
+
+describe("matchesQuery", () => {
+  it("matches everything with an empty query", () => {
+    expect(run("  ")).toEqual(["auth/REQ_login.yml", "reports/REQ_export.yml"]);
+  });
+
+  it("matches structured fields", () => {
+    expect(run("priority:critical status:planned verification:stale source.type:slack")).toEqual(["auth/REQ_login.yml"]);
+    expect(run("has:unansweredQuestions nfr.category:security")).toEqual(["auth/REQ_login.yml"]);
+    expect(run("priority:none")).toEqual(["reports/REQ_export.yml"]);
+    expect(run("status:DONE")).toEqual(["reports/REQ_export.yml"]);
+    expect(run("has:suggestedScenarios")).toEqual(["auth/REQ_login.yml"]);
+  });
+
+  it("counts scenario tests for has:tests and test:", () => {
+    expect(run("has:tests")).toEqual(["auth/REQ_login.yml", "reports/REQ_export.yml"]);
+    expect(run("test:export.test.ts:empty")).toEqual(["reports/REQ_export.yml"]);
+  });
+
+  it("matches paths with wildcards and substrings", () => {
+    expect(run("path:auth/*")).toEqual(["auth/REQ_login.yml"]);
+    expect(run("path:export")).toEqual(["reports/REQ_export.yml"]);
+    expect(run("path:*/REQ_*.yml")).toEqual(["auth/REQ_login.yml", "reports/REQ_export.yml"]);
+  });
+
+  it("searches text in gherkin, scenarios, NFRs and questions", () => {
+    expect(run('text:"password"')).toEqual(["auth/REQ_login.yml"]);
+    expect(run("lockout")).toEqual(["auth/REQ_login.yml"]);
+    expect(run("header")).toEqual(["reports/REQ_export.yml"]);
+  });
+
+  it("negates terms and ORs alternatives", () => {
+    expect(run("-priority:critical")).toEqual(["reports/REQ_export.yml"]);
+    expect(run("verification:stale,verified")).toEqual(["auth/REQ_login.yml", "reports/REQ_export.yml"]);
+    expect(run("-verification:stale,verified")).toEqual([]);
+  });
+});
+
+describe("Query Command", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  const requirement = (data: Partial<Requirement>): Requirement => ({
+    gherkin: "Given a user\nWhen they act\nThen result occurs",
+    mainSource: { type: "manual", description: "Test" },
+    tests: [],
+    status: "planned",
+    ...data,
+  });
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-query-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+    await saveRequirement(tempDir, "auth/REQ_login.yml", requirement({ priority: "high" }));
+    await saveRequirement(tempDir, "auth/REQ_logout.yml", requirement({ status: "done" }));
+    await saveRequirement(tempDir, "REQ_other.yml", requirement({ priority: "high", status: "done" }));
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("prints matching requirements as a table", async () => {
+    await query({ cwd: tempDir, expr: "priority:high" });
+
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("PATH                STATUS   PRIORITY  VERIFICATION  TESTS");
+    expect(output).toContain("REQ_other.yml       done     high      n/a           0");
+    expect(output).toContain("auth/REQ_login.yml  planned  high      n/a           0");
+    expect(output).not.toContain("REQ_logout.yml");
+    expect(output).toContain("2 requirement(s)");
+  });
+
+  it("outputs JSON", async () => {
+    await query({ cwd: tempDir, expr: "path:auth/* status:done", json: true });
+
+    expect(JSON.parse(consoleOutput.join("\n"))).toEqual([
+      { path: "auth/REQ_logout.yml", status: "done", verification: "n/a", testCount: 0 },
+    ]);
+  });
+
+  it("rejects invalid queries", async () => {
+    await expect(query({ cwd: tempDir, expr: "priority:urgent" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput.join("\n")).toContain('Invalid query: Invalid priority "urgent"');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the question and answer workflow
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, loadRequirement, saveConfig, saveRequirement } from "../lib/store";
+import {
+  addQuestion,
+  answerQuestion,
+  countQuestions,
+  isOwnedBy,
+  isQuestionOverdue,
+  isValidDueDate,
+  listQuestions,
+} from "../lib/questions";
+import { buildCheckResult } from "../lib/check-result";
+import { DEFAULT_WORKFLOW } from "../lib/workflow";
+import { ask } from "../commands/ask";
+import { answer } from "../commands/answer";
+import { questions } from "../commands/questions";
+import type { ParsedRequirement } from "../lib/types";
+import { requirement } from "./fixtures/requirements";
+
+const NOW = new Date(2026, 2, 10, 12); // 2026-03-10, local time
+
+describe("due dates", () => {
+  it("accepts only real YYYY-MM-DD dates", () => {
+    expect(isValidDueDate("2026-02-28")).toBe(true);
+    expect(isValidDueDate("2026-02-30")).toBe(false);
+    expect(isValidDueDate("2026-2-28")).toBe(false);
+    expect(isValidDueDate("tomorrow")).toBe(false);
+  });
+
+  it("makes unanswered questions overdue the day after their due date", () => {
+    expect(isQuestionOverdue({ question: "q", due: "2026-03-09" }, NOW)).toBe(true);
+    expect(isQuestionOverdue({ question: "q", due: "2026-03-10" }, NOW)).toBe(false);
+    expect(isQuestionOverdue({ question: "q", due: "2026-03-09", answer: "a" }, NOW)).toBe(false);
+    expect(isQuestionOverdue({ question: "q" }, NOW)).toBe(false);
+  });
+
+  it("splits unanswered questions into overdue and not in the check summary", () => {
+    const reqs: ParsedRequirement[] = [
+      requirement("REQ_a.yml", {
+        questions: [
+          { question: "late", due: "2000-01-01" },
+          { question: "open" },
+          { question: "done", due: "2000-01-01", answer: "yes" },
+        ],
+      }),
+    ];
+    const result = buildCheckResult(reqs, [], new Set(), new Set(), [], DEFAULT_WORKFLOW);
+    expect(result.summary.unansweredQuestions).toBe(2);
+    expect(result.summary.overdueQuestions).toBe(1);
+    expect(result.requirements[0].requirements[0]).toMatchObject({ unansweredQuestions: 2, overdueQuestions: 1 });
+    expect(countQuestions(reqs[0].data.questions, NOW)).toEqual({ unanswered: 2, overdue: 1 });
+  });
+});
+
+describe("asking and answering", () => {
+  it("adds questions with an owner and due date", () => {
+    const { data } = requirement("REQ_a.yml");
+    const question = addQuestion(data, { question: " How long is the lockout? ", owner: "@alice", due: "2026-03-01" }, NOW);
+    expect(question).toEqual({
+      question: "How long is the lockout?",
+      owner: "@alice",
+      due: "2026-03-01",
+      askedAt: NOW.toISOString(),
+    });
+    expect(() => addQuestion(data, { question: "x", due: "03/01/2026" })).toThrow('Invalid due date "03/01/2026"');
+    expect(() => addQuestion(data, { question: "  " })).toThrow("Question cannot be empty.");
+    expect(data.questions).toHaveLength(1);
+  });
+
+  it("answers a question and adds a scenario from the answer", () => {
+    const { data } = requirement("REQ_a.yml", { questions: [{ question: "Who can unlock an account?" }] });
+    answerQuestion(
+      data,
+      1,
+      "Admins only",
+      { name: "admin_unlock", gherkin: "Given a locked account When an admin unlocks it Then the user can log in" },
+      NOW
+    );
+
+    expect(data.questions?.[0]).toMatchObject({ answer: "Admins only", scenario: "admin_unlock" });
+    expect(data.scenarios).toEqual([
+      {
+        name: "admin_unlock",
+        gherkin: "Given a locked account\nWhen an admin unlocks it\nThen the user can log in",
+        source: { type: "manual", description: "Answer to: Who can unlock an account?", date: "2026-03-10" },
+      },
+    ]);
+  });
+
+  it("changes nothing when the question or scenario is invalid", () => {
+    const { data } = requirement("REQ_a.yml", { questions: [{ question: "q" }] });
+    expect(() => answerQuestion(data, 2, "a")).toThrow("No question #2. The requirement has 1 question(s).");
+    expect(() => answerQuestion(data, 1, "a", { name: "s", gherkin: "Then only" })).toThrow("Invalid gherkin");
+    expect(data.questions?.[0].answer).toBeUndefined();
+    expect(data.scenarios).toBeUndefined();
+  });
+});
+
+describe("listing", () => {
+  const reqs: ParsedRequirement[] = [
+    requirement("b/REQ_b.yml", { questions: [{ question: "b1", owner: "@Jane.Doe", due: "2026-03-01" }] }),
+    requirement("a/REQ_a.yml", { questions: [{ question: "a1", answer: "x" }, { question: "a2", owner: "@bob" }] }),
+  ];
+
+  it("filters by answer, owner and overdue, keeping question numbers", () => {
+    const list = (filter: Parameters<typeof listQuestions>[1]) =>
+      listQuestions(reqs, filter, NOW).map((entry) => `${entry.path}#${entry.number}`);
+
+    expect(list({ answered: false })).toEqual(["a/REQ_a.yml#2", "b/REQ_b.yml#1"]);
+    expect(list({})).toEqual(["a/REQ_a.yml#1", "a/REQ_a.yml#2", "b/REQ_b.yml#1"]);
+    expect(list({ overdue: true })).toEqual(["b/REQ_b.yml#1"]);
+    expect(list({ owners: ["Jane Doe"] })).toEqual(["b/REQ_b.yml#1"]);
+    expect(isOwnedBy({ question: "q", owner: "@bob" }, ["alice", "Bob"])).toBe(true);
+  });
+});
+
+describe("ask, answer and questions commands", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-questions-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts" });
+    await saveRequirement(tempDir, "auth/REQ_login.yml", requirement("auth/REQ_login.yml").data);
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("asks, lists and answers questions", async () => {
+    const path = "auth/REQ_login.yml";
+    await ask({ cwd: tempDir, path, question: "How long is the lockout?", owner: "@alice", due: "2000-01-01" });
+    await ask({ cwd: tempDir, path, question: "Who can unlock?", owner: "@bob" });
+    expect(consoleOutput.join("\n")).toContain("Asked question #2 on auth/REQ_login.yml (@bob)");
+
+    consoleOutput = [];
+    await questions({ cwd: tempDir, overdue: true });
+    expect(consoleOutput.join("\n")).toContain("#1 How long is the lockout? (@alice, due 2000-01-01, overdue)");
+    expect(consoleOutput.join("\n")).not.toContain("Who can unlock?");
+
+    await answer({
+      cwd: tempDir,
+      path,
+      number: "2",
+      answer: "Admins",
+      scenario: "admin_unlock",
+      gherkin: "Given a locked account When an admin unlocks it Then the user can log in",
+    });
+    const saved = await loadRequirement(tempDir, path);
+    expect(saved?.data.questions?.[1]).toMatchObject({ answer: "Admins", scenario: "admin_unlock" });
+    expect(saved?.data.scenarios?.map((s) => s.name)).toEqual(["admin_unlock"]);
+
+    consoleOutput = [];
+    await questions({ cwd: tempDir, owner: "bob", json: true });
+    expect(JSON.parse(consoleOutput.join("\n"))).toEqual([]);
+  });
+
+  it("rejects bad question numbers and due dates", async () => {
+    const path = "auth/REQ_login.yml";
+    await expect(answer({ cwd: tempDir, path, number: "x", answer: "a" })).rejects.toThrow("process.exit(1)");
+    await expect(answer({ cwd: tempDir, path, number: "1", answer: "a" })).rejects.toThrow("process.exit(1)");
+    await expect(ask({ cwd: tempDir, path, question: "q", due: "soon" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput).toEqual([
+      "Invalid question number: x. Use the number 'req questions' shows.",
+      "The requirement has no questions.",
+      'Invalid due date "soon". Use YYYY-MM-DD.',
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for repairing broken test links (req relink)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createRequirementsDir,
+  loadRequirement,
+  saveConfig,
+  saveRequirement,
+} from "../lib/store";
+import { findBrokenLinks, getFileRenames, identifierSimilarity, suggestRelinks } from "../lib/relink";
+import { extractTestsFromContent } from "../lib/test-parsers";
+import { relink } from "../commands/relink";
+import { check } from "../commands/check";
+import type { BrokenTestLink, ParsedRequirement, Requirement } from "../lib/types";
+import { extracted } from "./fixtures/requirements";
+
+const execFileAsync = promisify(execFile);
+
+function broken(file: string, identifier: string, hash: string, requirement = "REQ_a.yml"): BrokenTestLink {
+  return { requirement, file, identifier, hash };
+}
+
+describe("findBrokenLinks", () => {
+  it("finds requirement and scenario links whose test is gone", () => {
+    const requirement: ParsedRequirement = {
+      path: "auth/REQ_login.yml",
+      data: {
+        gherkin: "Given a user\nWhen they log in\nThen they see the dashboard",
+        mainSource: { type: "manual", description: "Test" },
+        status: "done",
+        tests: [
+          { file: "auth.test.ts", identifier: "logs in", hash: "h1" },
+          { file: "auth.test.ts", identifier: "old name", hash: "h2" },
+        ],
+        scenarios: [
+          { name: "locked", gherkin: "Given x\nWhen y\nThen z", tests: [{ file: "gone.test.ts", identifier: "locks", hash: "h3" }] },
+        ],
+      },
+    };
+
+    expect(findBrokenLinks([requirement], new Set(["auth.test.ts:logs in"]))).toEqual([
+      { requirement: "auth/REQ_login.yml", file: "auth.test.ts", identifier: "old name", hash: "h2" },
+      { requirement: "auth/REQ_login.yml", scenario: "locked", file: "gone.test.ts", identifier: "locks", hash: "h3" },
+    ]);
+  });
+});
+
+describe("identifierSimilarity", () => {
+  it("scores identical, similar and different identifiers", () => {
+    expect(identifierSimilarity("Logs In", "logs in")).toBe(1);
+    expect(identifierSimilarity("logs in", "logs the user in")).toBeGreaterThan(0.4);
+    expect(identifierSimilarity("logs in", "exports csv")).toBeLessThan(0.3);
+  });
+});
+
+describe("suggestRelinks", () => {
+  it("matches renamed tests by body hash", () => {
+    const [suggestion] = suggestRelinks(
+      [broken("auth.test.ts", "logs in", "h1")],
+      [extracted("auth.test.ts", "signs the user in", "h1"), extracted("auth.test.ts", "logs out", "h9")]
+    );
+
+    expect(suggestion.test).toMatchObject({ file: "auth.test.ts", identifier: "signs the user in" });
+    expect(suggestion.confidence).toBe("high");
+    expect(suggestion.reasons).toEqual(["same test body", "same file"]);
+  });
+
+  it("follows file renames and fuzzy identifiers when the body changed", () => {
+    const suggestions = suggestRelinks(
+      [broken("old/auth.test.ts", "logs in", "h1")],
+      [extracted("new/auth.test.ts", "logs in!", "h2")],
+      new Map([["old/auth.test.ts", "new/auth.test.ts"]])
+    );
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].confidence).toBe("medium");
+    expect(suggestions[0].reasons).toEqual(["file renamed from old/auth.test.ts", "identifier 88% similar"]);
+  });
+
+  it("assigns each orphan once, best match first, and groups links to one test", () => {
+    const suggestions = suggestRelinks(
+      [
+        broken("a.test.ts", "creates order", "h1", "REQ_a.yml"),
+        broken("a.test.ts", "creates order", "h1", "REQ_b.yml"),
+        broken("a.test.ts", "creates orders", "h5"),
+        broken("a.test.ts", "unrelated", "h7"),
+      ],
+      [extracted("a.test.ts", "creates an order", "h1")]
+    );
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].identifier).toBe("creates order");
+    expect(suggestions[0].links.map((link) => link.requirement)).toEqual(["REQ_a.yml", "REQ_b.yml"]);
+  });
+});
+
+describe("Relink Command", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  const git = (...args: string[]) => execFileAsync("git", args, { cwd: tempDir });
+  const testFile = (name: string) =>
+    `import { it, expect } from "bun:test";\n\nit("${name}", () => {\n  expect(1 + 1).toBe(2);\n});\n`;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-relink-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts" });
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function linkTo(file: string, name: string, extra: Partial<Requirement> = {}) {
+    const [test] = extractTestsFromContent(testFile(name), join(tempDir, file), file);
+    await saveRequirement(tempDir, "auth/REQ_login.yml", {
+      gherkin: "Given a user\nWhen they log in\nThen they see the dashboard",
+      mainSource: { type: "manual", description: "Test" },
+      status: "done",
+      tests: [{ file, identifier: test.identifier, hash: test.hash }],
+      ...extra,
+    });
+  }
+
+  it("relinks a renamed test and keeps the assessment", async () => {
+    await linkTo("auth.test.ts", "logs in", {
+      aiAssessment: { sufficient: true, notes: "Good", assessedAt: "2026-01-01T00:00:00.000Z" },
+    });
+    await writeFile(join(tempDir, "auth.test.ts"), testFile("signs the user in"));
+
+    await relink({ cwd: tempDir, noCache: true });
+    expect(consoleOutput.join("\n")).toContain(
+      "-> auth.test.ts:signs the user in [high] same test body, same file"
+    );
+    expect((await loadRequirement(tempDir, "auth/REQ_login.yml"))?.data.tests[0].identifier).toBe("logs in");
+
+    await relink({ cwd: tempDir, apply: true, noCache: true });
+    const requirement = await loadRequirement(tempDir, "auth/REQ_login.yml");
+    expect(requirement?.data.tests[0].identifier).toBe("signs the user in");
+    expect(requirement?.data.aiAssessment?.sufficient).toBe(true);
+    expect(consoleOutput.join("\n")).toContain("AI assessment kept (same test body): auth/REQ_login.yml");
+  });
+
+  it("uses git renames and invalidates the assessment when the body changed", async () => {
+    await git("init", "-q");
+    await git("config", "user.email", "dev@example.com");
+    await git("config", "user.name", "Dev");
+    await mkdir(join(tempDir, "old"));
+    await writeFile(join(tempDir, "old/auth.test.ts"), testFile("logs in"));
+    await git("add", "-A");
+    await git("commit", "-qm", "base");
+    await git("mv", "old", "new");
+    await writeFile(
+      join(tempDir, "new/auth.test.ts"),
+      testFile("logs in").replace("expect(1 + 1).toBe(2)", "expect(2 + 2).toBe(4)")
+    );
+
+    expect(await getFileRenames(tempDir)).toEqual(new Map([["old/auth.test.ts", "new/auth.test.ts"]]));
+
+    await linkTo("old/auth.test.ts", "logs in", {
+      aiAssessment: { sufficient: true, notes: "Good", assessedAt: "2026-01-01T00:00:00.000Z" },
+    });
+    await relink({ cwd: tempDir, apply: true, noCache: true });
+
+    const requirement = await loadRequirement(tempDir, "auth/REQ_login.yml");
+    expect(requirement?.data.tests[0]).toMatchObject({ file: "new/auth.test.ts", identifier: "logs in" });
+    expect(requirement?.data.aiAssessment).toBeUndefined();
+    expect(consoleOutput.join("\n")).toContain("AI assessment invalidated (test body changed): auth/REQ_login.yml");
+  });
+
+  it("suggests relinks in req check", async () => {
+    await linkTo("auth.test.ts", "logs in");
+    await writeFile(join(tempDir, "auth.test.ts"), testFile("logs the user in"));
+
+    await check({ cwd: tempDir, noCache: true });
+
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("Broken test links: 1");
+    expect(output).toContain(
+      "  - auth/REQ_login.yml: auth.test.ts:logs in\n      probably auth.test.ts:logs the user in (same test body, same file)"
+    );
+  });
+
+  it("rejects unknown confidence levels", async () => {
+    await expect(relink({ cwd: tempDir, minConfidence: "low" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput.join("\n")).toContain('Unknown confidence "low". Use one of: high, medium');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for requirement change history (req log)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { mkdtemp, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import { diffRequirement, getRequirementLog } from "../lib/requirement-log";
+import { log } from "../commands/log";
+import type { Requirement } from "../lib/types";
+
+const execFileAsync = promisify(execFile);
+
+const BASE: Requirement = {
+  gherkin: "Given a user\nWhen they log in\nThen they are in",
+  mainSource: { type: "manual", description: "Test" },
+  tests: [{ file: "auth.test.ts", identifier: "logs in", hash: "a" }],
+  status: "planned",
+  scenarios: [{ name: "wrong_password", gherkin: "Given a user\nWhen the password is wrong\nThen error" }],
+};
+
+describe("diffRequirement", () => {
+  it("describes changes semantically", () => {
+    const after: Requirement = {
+      ...BASE,
+      gherkin: "Given a user\nWhen they log in\nThen they see the dashboard",
+      status: "done",
+      priority: "high",
+      tests: [{ file: "auth.test.ts", identifier: "shows dashboard", hash: "b" }],
+      scenarios: [
+        {
+          ...BASE.scenarios![0],
+          tests: [{ file: "auth.test.ts", identifier: "rejects password", hash: "c" }],
+        },
+        { name: "rate_limited", gherkin: "Given 5 failures\nWhen they try again\nThen blocked", suggested: true },
+      ],
+    };
+
+    expect(diffRequirement(BASE, after)).toEqual([
+      "gherkin changed",
+      "status: planned -> done",
+      "priority: (none) -> high",
+      "test auth.test.ts:rejects password linked to scenario `wrong_password`",
+      "scenario `rate_limited` suggested",
+      "test auth.test.ts:shows dashboard linked",
+      "test auth.test.ts:logs in unlinked",
+    ]);
+  });
+
+  it("ignores refreshed test hashes and reports creation", () => {
+    const rehashed = { ...BASE, tests: [{ ...BASE.tests[0], hash: "new" }] };
+    expect(diffRequirement(BASE, rehashed)).toEqual([]);
+    expect(diffRequirement(null, BASE)).toEqual(["requirement created"]);
+  });
+
+  it("reports accepted and rejected scenarios", () => {
+    const suggested = { ...BASE, scenarios: [{ ...BASE.scenarios![0], suggested: true }] };
+    expect(diffRequirement(suggested, BASE)).toEqual(["scenario `wrong_password` accepted"]);
+    expect(diffRequirement(suggested, { ...BASE, scenarios: [] })).toEqual([
+      "scenario `wrong_password` rejected",
+    ]);
+  });
+});
+
+describe("Requirement log", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  const git = (...args: string[]) => execFileAsync("git", args, { cwd: tempDir });
+  const commit = async (message: string, author: string) => {
+    await git("add", "-A");
+    await git("-c", `user.name=${author}`, "-c", "user.email=dev@example.com", "commit", "-qm", message);
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-log-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "echo test", testGlob: "**/*.test.ts" });
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("attributes semantic changes to commits, newest first", async () => {
+    await git("init", "-q");
+    await saveRequirement(tempDir, "auth/REQ_login.yml", BASE);
+    await commit("Add login requirement", "Alice");
+    await saveRequirement(tempDir, "auth/REQ_login.yml", { ...BASE, tests: [{ ...BASE.tests[0], hash: "b" }] });
+    await commit("Refresh hashes", "Bob");
+    await saveRequirement(tempDir, "auth/REQ_login.yml", { ...BASE, status: "done" });
+    await commit("Ship login", "Bob");
+    await saveRequirement(tempDir, "auth/REQ_login.yml", { ...BASE, status: "done", priority: "low" });
+
+    const entries = await getRequirementLog(tempDir, "auth/REQ_login.yml");
+
+    expect(entries.map((e) => [e.commit === null, e.author, e.subject, e.changes])).toEqual([
+      [true, "(uncommitted)", "Working tree changes", ["priority: (none) -> low"]],
+      [false, "Bob", "Ship login", ["status: planned -> done"]],
+      [false, "Alice", "Add login requirement", ["requirement created"]],
+    ]);
+
+    await log({ cwd: tempDir, path: "auth/REQ_login.yml", limit: 2 });
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("uncommitted  Working tree changes\n  - priority: (none) -> low");
+    expect(output).toMatch(/[0-9a-f]{7} {2}\d{4}-\d{2}-\d{2} {2}Bob {2}Ship login\n {2}- status: planned -> done/);
+    expect(output).not.toContain("Alice");
+  });
+
+  it("follows renamed requirement files", async () => {
+    await git("init", "-q");
+    await saveRequirement(tempDir, "REQ_old.yml", BASE);
+    await commit("Add", "Alice");
+    await git("mv", ".requirements/REQ_old.yml", ".requirements/REQ_new.yml");
+    await commit("Rename", "Bob");
+
+    const entries = await getRequirementLog(tempDir, "REQ_new.yml");
+    expect(entries.map((e) => e.subject)).toEqual(["Add"]);
+  });
+
+  it("errors outside a git repository", async () => {
+    await saveRequirement(tempDir, "REQ_a.yml", BASE);
+    await expect(log({ cwd: tempDir, path: "REQ_a.yml" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput.join("\n")).toContain("Cannot read the history of REQ_a.yml");
+  });
+});
@@ -5,7 +5,7 @@
 import { describe, it, expect } from "bun:test";
 import { readFileSync } from "fs";
 import { join } from "path";
-import { parseResults, detectFormat, bunJson, junitXml } from "../lib/result-parsers";
+import { parseResults, detectFormat, bunJson, goTestJson, junitXml } from "../lib/result-parsers";
 
 const fixturesDir = join(import.meta.dir, "fixtures");
 
@@ -172,6 +172,33 @@ describe("Bun JSON Parser (Jest format)", () => {
   });
 });
 
+describe("Bun JSON Parser (Jest format with describe blocks)", () => {
+  it("qualifies identifiers with ancestor titles", () => {
+    const content = JSON.stringify({
+      testResults: [
+        {
+          name: "/project/src/pay.test.ts",
+          assertionResults: [
+            {
+              ancestorTitles: ["Payments", "Credit Card"],
+              title: "processes valid card",
+              fullName: "Payments Credit Card processes valid card",
+              status: "passed",
+            },
+            { ancestorTitles: [], title: "top level", fullName: "top level", status: "passed" },
+          ],
+        },
+      ],
+    });
+
+    const result = bunJson.parse(content);
+    expect(result.results.map((r) => r.identifier)).toEqual([
+      "Payments > Credit Card > processes valid card",
+      "top level",
+    ]);
+  });
+});
+
 describe("Bun JSON Parser (simple format)", () => {
   const simpleContent = readFileSync(join(fixturesDir, "simple-results.json"), "utf-8");
 
@@ -206,6 +233,40 @@ describe("Bun JSON Parser (simple format)", () => {
   });
 });
 
+describe("Go test JSON Parser", () => {
+  const content = [
+    '{"Action":"start","Package":"example.com/app/auth"}',
+    '{"Action":"run","Package":"example.com/app/auth","Test":"TestLogin"}',
+    '{"Action":"run","Package":"example.com/app/auth","Test":"TestLogin/valid_input"}',
+    '{"Action":"output","Package":"example.com/app/auth","Test":"TestLogin/valid_input","Output":"    auth_test.go:12: wrong password\\n"}',
+    '{"Action":"fail","Package":"example.com/app/auth","Test":"TestLogin/valid_input","Elapsed":0.01}',
+    '{"Action":"fail","Package":"example.com/app/auth","Test":"TestLogin","Elapsed":0.02}',
+    '{"Action":"skip","Package":"example.com/app/auth","Test":"TestSlow","Elapsed":0}',
+    '{"Action":"pass","Package":"example.com/app/util","Test":"TestTrim","Elapsed":0.001}',
+    '{"Action":"fail","Package":"example.com/app/auth","Elapsed":0.03}',
+  ].join("\n");
+
+  it("parses test events into results", () => {
+    const { results, summary } = goTestJson.parse(content);
+
+    expect(results.map((r) => [r.file, r.identifier, r.status])).toEqual([
+      ["example.com/app/auth", "TestLogin > valid_input", "failed"],
+      ["example.com/app/auth", "TestLogin", "failed"],
+      ["example.com/app/auth", "TestSlow", "skipped"],
+      ["example.com/app/util", "TestTrim", "passed"],
+    ]);
+    expect(results[0].errorMessage).toBe("auth_test.go:12: wrong password");
+    expect(results[0].duration).toBe(10);
+    expect(summary).toEqual({ total: 4, passed: 1, failed: 2, skipped: 1 });
+  });
+
+  it("is detected before generic JSON", () => {
+    expect(goTestJson.canParse(content)).toBe(true);
+    expect(goTestJson.canParse('{"testResults": []}')).toBe(false);
+    expect(detectFormat(content)).toBe("go-test-json");
+  });
+});
+
 describe("Format Detection", () => {
   it("detects JUnit XML", () => {
     expect(detectFormat('<?xml version="1.0"?><testsuites/>')).toBe("junit-xml");
@@ -0,0 +1,322 @@
+/**
+ * Tests for test framework adapters and runner command building
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig } from "../lib/store";
+import {
+  getFrameworkAdapter,
+  adapters,
+  goAdapter,
+  playwrightAdapter,
+  resolveFramework,
+} from "../lib/test-frameworks";
+import { buildCommand, runMultipleTests, runTests } from "../lib/test-runner";
+import { loadTestResults } from "../lib/result-store";
+
+describe("getFrameworkAdapter", () => {
+  it("defaults to bun", () => {
+    expect(getFrameworkAdapter().name).toBe("bun");
+  });
+
+  it("returns the adapter for each known framework", () => {
+    for (const name of Object.keys(adapters)) {
+      expect(getFrameworkAdapter(name).name).toBe(name as never);
+    }
+  });
+
+  it("throws for unknown frameworks", () => {
+    expect(() => getFrameworkAdapter("karma")).toThrow('Unknown test framework "karma"');
+  });
+});
+
+describe("buildCommand", () => {
+  const outputFile = "/tmp/out.xml";
+
+  it("builds a bun command with reporter, name filter and file", () => {
+    const { command, env } = buildCommand("bun test", getFrameworkAdapter("bun"), {
+      file: "src/auth.test.ts",
+      identifier: "validates credentials",
+      outputFile,
+    });
+
+    expect(command).toEqual([
+      "bun",
+      "test",
+      "--reporter=junit",
+      "--reporter-outfile",
+      outputFile,
+      "--test-name-pattern",
+      "validates credentials",
+      "src/auth.test.ts",
+    ]);
+    expect(env).toEqual({});
+  });
+
+  it("filters qualified identifiers by the full name and escapes it", () => {
+    const { command } = buildCommand("npx vitest run", getFrameworkAdapter("vitest"), {
+      identifier: "auth > login > handles (empty) input?",
+      outputFile,
+    });
+
+    expect(command).toContain("--testNamePattern");
+    expect(command).toContain("auth login handles \\(empty\\) input\\?");
+  });
+
+  it("uses framework-specific flags", () => {
+    const options = { file: "a.test.js", identifier: "works", outputFile };
+
+    expect(buildCommand("npx jest", getFrameworkAdapter("jest"), options).command).toEqual([
+      "npx",
+      "jest",
+      "--json",
+      `--outputFile=${outputFile}`,
+      "--testNamePattern",
+      "works",
+      "--runTestsByPath",
+      "a.test.js",
+    ]);
+    expect(buildCommand("npx mocha", getFrameworkAdapter("mocha"), options).command).toContain(
+      "--grep"
+    );
+    expect(buildCommand("node --test", getFrameworkAdapter("node"), options).command).toContain(
+      "--test-name-pattern"
+    );
+  });
+
+  it("forwards flags through npm with --", () => {
+    const { command } = buildCommand("npm test", getFrameworkAdapter("vitest"), { outputFile });
+
+    expect(command.slice(0, 3)).toEqual(["npm", "test", "--"]);
+  });
+
+  it("passes the playwright output file through the environment", () => {
+    const { command, env } = buildCommand("npx playwright test", playwrightAdapter, {
+      outputFile,
+    });
+
+    expect(command).toContain("--reporter=list,junit");
+    expect(env).toEqual({ PLAYWRIGHT_JUNIT_OUTPUT_FILE: outputFile });
+  });
+});
+
+describe("buildCommand for other languages", () => {
+  const outputFile = "/tmp/out.xml";
+
+  it("selects pytest tests by keyword and file", () => {
+    const { command } = buildCommand("pytest", getFrameworkAdapter("pytest"), {
+      file: "tests/test_auth.py",
+      identifier: "TestLogin > test_ok[a-b]",
+      outputFile,
+    });
+
+    expect(command).toEqual([
+      "pytest",
+      `--junitxml=${outputFile}`,
+      "-o",
+      "junit_family=xunit1",
+      "-k",
+      "test_ok[a-b]",
+      "tests/test_auth.py",
+    ]);
+  });
+
+  it("runs go tests by package with a per-level -run pattern", () => {
+    const run = (identifier?: string, file?: string) =>
+      buildCommand("go test", goAdapter, { file, identifier, outputFile }).command;
+
+    expect(run("TestLogin > valid_input", "pkg/auth/auth_test.go")).toEqual([
+      "go",
+      "test",
+      "-json",
+      "-run",
+      "^TestLogin$/^valid_input$",
+      "./pkg/auth",
+    ]);
+    expect(run("TestLogin", "auth_test.go")).toContain(".");
+    expect(run("valid_input")).toContain("/^valid_input$");
+    expect(run()).toEqual(["go", "test", "-json", "./..."]);
+  });
+});
+
+describe("resolveFramework", () => {
+  const config = { testRunner: "bun test", testGlob: "**/*" };
+
+  it("uses the configured framework for its own language", () => {
+    const { adapter, testRunner } = resolveFramework(config, "src/a.test.ts");
+    expect(adapter.name).toBe("bun");
+    expect(testRunner).toBe("bun test");
+    expect(resolveFramework(config).adapter.name).toBe("bun");
+  });
+
+  it("uses the language's framework for other files", () => {
+    expect(resolveFramework(config, "tests/test_a.py")).toEqual({
+      adapter: getFrameworkAdapter("pytest"),
+      testRunner: "pytest",
+    });
+    expect(resolveFramework(config, "pkg/a_test.go").testRunner).toBe("go test");
+  });
+
+  it("uses runners from testRunners", () => {
+    const withRunners = { ...config, testRunners: { pytest: "poetry run pytest" } };
+    expect(resolveFramework(withRunners, "tests/test_a.py").testRunner).toBe("poetry run pytest");
+  });
+});
+
+describe("goAdapter.normalizeResults", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-go-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("resolves package paths to the file declaring each test", async () => {
+    await writeFile(join(tempDir, "go.mod"), "module example.com/app\n\ngo 1.22\n");
+    await mkdir(join(tempDir, "auth"));
+    await writeFile(
+      join(tempDir, "auth", "login_test.go"),
+      'package auth\n\nfunc TestLogin(t *testing.T) {\n\tt.Run("ok", func(t *testing.T) {})\n}\n'
+    );
+    await writeFile(
+      join(tempDir, "auth", "logout_test.go"),
+      "package auth\n\nfunc TestLogout(t *testing.T) {}\n"
+    );
+
+    const results = await goAdapter.normalizeResults!(
+      [
+        { file: "example.com/app/auth", identifier: "TestLogin > ok", status: "passed" },
+        { file: "example.com/app/auth", identifier: "TestLogout", status: "failed" },
+        { file: "example.com/other", identifier: "TestX", status: "passed" },
+      ],
+      tempDir
+    );
+
+    expect(results.map((r) => r.file)).toEqual([
+      "auth/login_test.go",
+      "auth/logout_test.go",
+      "example.com/other",
+    ]);
+  });
+});
+
+describe("playwrightAdapter.normalizeResults", () => {
+  it("converts playwright title separators", async () => {
+    const results = await playwrightAdapter.normalizeResults!(
+      [{ file: "e2e/a.spec.ts", identifier: "checkout › pays", status: "passed" }],
+      "/project"
+    );
+
+    expect(results[0].identifier).toBe("checkout > pays");
+  });
+});
+
+describe("runTests", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-frameworks-test-"));
+    await createRequirementsDir(tempDir);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reads the framework's output and stores it as JUnit XML", async () => {
+    // Fake jest: writes a Jest JSON report to the --outputFile path
+    const script = `
+const arg = process.argv.find((a) => a.startsWith("--outputFile="));
+require("fs").writeFileSync(arg.slice("--outputFile=".length), JSON.stringify({
+  testResults: [{
+    name: ${JSON.stringify(join(tempDir, "src/auth.test.js"))},
+    assertionResults: [
+      { ancestorTitles: ["auth"], title: "logs in", status: "passed", duration: 5 },
+      { ancestorTitles: ["auth"], title: "logs out", status: "failed", failureMessages: ["nope"] },
+    ],
+  }],
+}));
+process.exit(1);
+`;
+    await writeFile(join(tempDir, "fake-jest.js"), script);
+    await saveConfig(tempDir, {
+      testRunner: "node fake-jest.js",
+      testGlob: "**/*.test.js",
+      framework: "jest",
+    });
+
+    const result = await runTests({ cwd: tempDir });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.summary).toEqual({ total: 2, passed: 1, failed: 1, skipped: 0 });
+    expect(result.results.map((r) => [r.file, r.identifier])).toEqual([
+      ["src/auth.test.js", "auth > logs in"],
+      ["src/auth.test.js", "auth > logs out"],
+    ]);
+
+    const stored = await loadTestResults(tempDir);
+    expect(stored?.results.map((r) => [r.file, r.identifier, r.status])).toEqual([
+      ["src/auth.test.js", "auth > logs in", "passed"],
+      ["src/auth.test.js", "auth > logs out", "failed"],
+    ]);
+  });
+
+  it("runs linked tests in several languages with their own runners", async () => {
+    // Fake pytest: writes JUnit XML to the --junitxml path
+    const pytest = `
+const arg = process.argv.find((a) => a.startsWith("--junitxml="));
+require("fs").writeFileSync(arg.slice("--junitxml=".length),
+  '<testsuites><testsuite><testcase classname="test_api" name="test_get" file="test_api.py"/></testsuite></testsuites>');
+`;
+    // Fake jest: writes a Jest JSON report to the --outputFile path
+    const jest = `
+const arg = process.argv.find((a) => a.startsWith("--outputFile="));
+require("fs").writeFileSync(arg.slice("--outputFile=".length),
+  JSON.stringify({ testResults: [{ name: "src/ui.test.js", assertionResults: [{ title: "renders", status: "failed" }] }] }));
+process.exit(1);
+`;
+    await writeFile(join(tempDir, "fake-pytest.js"), pytest);
+    await writeFile(join(tempDir, "fake-jest.js"), jest);
+    await saveConfig(tempDir, {
+      testRunner: "node fake-jest.js",
+      testGlob: "**/*",
+      framework: "jest",
+      testRunners: { pytest: "node fake-pytest.js" },
+    });
+
+    const result = await runMultipleTests(tempDir, [
+      { file: "src/ui.test.js", identifier: "renders" },
+      { file: "test_api.py", identifier: "test_get" },
+    ]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.summary).toEqual({ total: 2, passed: 1, failed: 1, skipped: 0 });
+
+    const stored = await loadTestResults(tempDir);
+    expect(stored?.results.map((r) => [r.file, r.identifier, r.status])).toEqual([
+      ["src/ui.test.js", "renders", "failed"],
+      ["test_api.py", "test_get", "passed"],
+    ]);
+  });
+
+  it("falls back to the exit code when the runner writes no output", async () => {
+    await writeFile(join(tempDir, "fake-mocha.js"), "process.exit(2);");
+    await saveConfig(tempDir, {
+      testRunner: "node fake-mocha.js",
+      testGlob: "**/*.test.js",
+      framework: "mocha",
+    });
+
+    const result = await runTests({ cwd: tempDir });
+
+    expect(result.exitCode).toBe(2);
+    expect(result.results).toEqual([]);
+    expect(result.summary.failed).toBe(1);
+  });
+});
@@ -3,140 +3,360 @@
  */
 
 import { describe, it, expect } from "bun:test";
-import { extractTestsFromContent } from "../lib/test-parsers";
-import { standardParser } from "../lib/test-parsers/standard";
-import { modifiersParser } from "../lib/test-parsers/modifiers";
-import { eachParser } from "../lib/test-parsers/each";
-import { templateParser } from "../lib/test-parsers/template";
+import {
+  extractTestsFromContent,
+  getParserForFile,
+  indexTestsByLinkKey,
+  testNameFromIdentifier,
+} from "../lib/test-parsers";
+import { typescriptParser } from "../lib/test-parsers/typescript";
+import { parametrizeIds, pythonParser } from "../lib/test-parsers/python";
+import { goParser } from "../lib/test-parsers/go";
+import { computeHash, extractFunctionBody } from "../lib/test-parser";
 
 describe("Test Parsers", () => {
-  describe("standardParser", () => {
-    it("matches it() with single quotes", () => {
-      const content = `it('should work', () => { expect(1).toBe(1); });`;
-      const matches = standardParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("should work");
-    });
+  describe("typescriptParser", () => {
+    function names(content: string, filePath = "/fake/path.test.ts"): string[] {
+      return typescriptParser
+        .findMatches(content, filePath)
+        .map((m) => [...m.describePath, m.name].join(" > "));
+    }
 
-    it("matches test() with double quotes", () => {
-      const content = `test("validates input", () => { expect(true).toBeTruthy(); });`;
-      const matches = standardParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("validates input");
+    it("matches it(), test() and Bun.test()", () => {
+      const content = `
+        it('test 1', () => {});
+        test("test 2", () => {});
+        Bun.test(\`test 3\`, async () => { await foo(); });
+      `;
+      expect(names(content)).toEqual(["test 1", "test 2", "test 3"]);
     });
 
-    it("matches Bun.test() with backticks", () => {
-      const content = "Bun.test(`async operation`, async () => { await foo(); });";
-      const matches = standardParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("async operation");
+    it("matches modifiers", () => {
+      const content = `
+        it.only('focused test', () => {});
+        test.skip("disabled test", () => {});
+        Bun.test.only(\`focused bun test\`, () => {});
+        test.concurrent.skip('chained modifiers', () => {});
+      `;
+      expect(names(content)).toEqual([
+        "focused test",
+        "disabled test",
+        "focused bun test",
+        "chained modifiers",
+      ]);
     });
 
-    it("handles multiple tests", () => {
+    it("matches curried .each() and conditional tests", () => {
       const content = `
-        it('test 1', () => {});
-        test('test 2', () => {});
-        Bun.test('test 3', () => {});
+        it.each([
+          [1, 2, 3],
+          [4, 5, 9],
+        ])('adds %i + %i to equal %i', (a, b, expected) => {
+          expect(a + b).toBe(expected);
+        });
+        test.each\`
+          a    | b
+          \${1} | \${2}
+        \`('tagged table $a', ({ a }) => {});
+        test.skipIf(process.env.CI)('not on CI', () => {});
       `;
-      const matches = standardParser.findMatches(content);
-      expect(matches.length).toBe(3);
+      expect(names(content)).toEqual([
+        "adds %i + %i to equal %i",
+        "tagged table $a",
+        "not on CI",
+      ]);
     });
 
-    it("handles whitespace variations", () => {
-      const content = `it  (  'spaced out'  ,  () => {});`;
-      const matches = standardParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("spaced out");
+    it("keeps raw template expressions in names", () => {
+      const content = "test(`test with ${variable}`, () => {});";
+      expect(names(content)).toEqual(["test with ${variable}"]);
     });
-  });
 
-  describe("modifiersParser", () => {
-    it("matches it.only()", () => {
-      const content = `it.only('focused test', () => { expect(1).toBe(1); });`;
-      const matches = modifiersParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("focused test");
+    it("tracks nested describe blocks", () => {
+      const content = `
+        describe('auth', () => {
+          describe.each([{ role: 'admin' }])('role $role', ({ role }) => {
+            it('grants access', () => {});
+          });
+          describe('login', function () {
+            it('validates credentials', () => {});
+          });
+        });
+        test.describe('playwright', () => {
+          test('loads page', async ({ page }) => {});
+        });
+      `;
+      expect(names(content)).toEqual([
+        "auth > role $role > grants access",
+        "auth > login > validates credentials",
+        "playwright > loads page",
+      ]);
     });
 
-    it("matches test.skip()", () => {
-      const content = `test.skip("disabled test", () => { expect(false).toBe(true); });`;
-      const matches = modifiersParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("disabled test");
+    it("ignores calls that are not tests", () => {
+      const content = `
+        it.todo('not written yet');
+        test(dynamicName, () => {});
+        expect(test).toBeDefined();
+        beforeEach(() => { it('inside hook', () => {}); });
+      `;
+      expect(names(content)).toEqual(["inside hook"]);
+    });
+
+    it("handles regex literals, comments and JSX in test bodies", () => {
+      const content = `
+        it('regex', () => {
+          expect("a}b").toMatch(/[}{]+/);
+          // closing brace in comment }
+        });
+        it('jsx', () => {
+          render(<Button onClick={() => {}}>{"}"} Save</Button>);
+        });
+        it('after', () => {});
+      `;
+      const matches = typescriptParser.findMatches(content, "/fake/path.test.tsx");
+      expect(matches.map((m) => m.name)).toEqual(["regex", "jsx", "after"]);
+      expect(matches[0].body).toContain("/[}{]+/");
+      expect(matches[1].body).toContain("</Button>");
     });
 
-    it("matches Bun.test.only()", () => {
-      const content = "Bun.test.only(`focused bun test`, () => {});";
-      const matches = modifiersParser.findMatches(content);
+    it("supports an options object before the callback", () => {
+      const content = `test('slow', { timeout: 1000 }, () => { return 1; });`;
+      const matches = typescriptParser.findMatches(content, "/fake/path.test.ts");
       expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("focused bun test");
+      expect(matches[0].body).toBe("{ return 1; }");
     });
 
-    it("does not match standard tests", () => {
-      const content = `it('normal test', () => {});`;
-      const matches = modifiersParser.findMatches(content);
-      expect(matches.length).toBe(0);
+    it("reports exact source ranges", () => {
+      const content = `// header
+it('first', () => {
+  return 1;
+});
+it('second', () => {});`;
+      const matches = typescriptParser.findMatches(content, "/fake/path.test.ts");
+      expect(matches[0].range.startLine).toBe(2);
+      expect(matches[0].range.endLine).toBe(4);
+      expect(content.slice(matches[0].range.start, matches[0].range.end)).toBe(
+        "it('first', () => {\n  return 1;\n})"
+      );
+      expect(matches[1].range.startLine).toBe(5);
     });
   });
 
-  describe("eachParser", () => {
-    it("matches it.each() with array", () => {
+  describe("pythonParser", () => {
+    function names(content: string): string[] {
+      return pythonParser
+        .findMatches(content, "/fake/test_app.py")
+        .map((m) => [...m.describePath, m.name].join(" > "));
+    }
+
+    it("matches test functions and Test classes like pytest", () => {
       const content = `
-        it.each([
-          [1, 2, 3],
-          [4, 5, 9],
-        ])('adds %i + %i to equal %i', (a, b, expected) => {
-          expect(a + b).toBe(expected);
-        });
-      `;
-      const matches = eachParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("adds %i + %i to equal %i");
+import pytest
+
+def helper():
+    pass
+
+def test_sync():
+    assert True
+
+async def test_async(): assert True
+
+class TestLogin:
+    def test_valid(self):
+        assert True
+
+    def setup_method(self):
+        pass
+
+    class TestNested:
+        def test_deep(self):
+            pass
+
+class Helpers:
+    def test_not_collected(self):
+        pass
+
+def test_outer():
+    def test_inner():
+        pass
+`;
+      expect(names(content)).toEqual([
+        "test_sync",
+        "test_async",
+        "TestLogin > test_valid",
+        "TestLogin > TestNested > test_deep",
+        "test_outer",
+      ]);
     });
 
-    it("matches test.each() with simple array", () => {
-      const content = `test.each([1, 2, 3])('number %s is positive', (num) => {});`;
-      const matches = eachParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("number %s is positive");
+    it("ignores defs inside strings and comments", () => {
+      const content = `
+def test_real():
+    """
+    def test_in_docstring(): pass
+    """
+    # def test_in_comment(): pass
+    text = "def test_in_string(): pass"
+`;
+      expect(names(content)).toEqual(["test_real"]);
     });
 
-    it("matches describe.each()", () => {
-      const content = `describe.each([{user: 'alice'}, {user: 'bob'}])('user %s tests', (user) => {});`;
-      const matches = eachParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("user %s tests");
+    it("expands parametrize cases into pytest ids", () => {
+      const content = `
+@pytest.mark.parametrize("a,b", [(1, 2), (1.5, "x"), pytest.param(5, 6, id="five")])
+def test_add(a, b):
+    pass
+
+@pytest.mark.parametrize("x", [0, 1])
+@pytest.mark.parametrize(
+    "y",
+    [True, None],
+    ids=["yes", None],
+)
+def test_stacked(x, y):
+    pass
+
+@pytest.mark.parametrize("value", VALUES)
+def test_dynamic(value):
+    pass
+`;
+      expect(names(content)).toEqual([
+        "test_add[1-2]",
+        "test_add[1.5-x]",
+        "test_add[five]",
+        "test_stacked[yes-0]",
+        "test_stacked[yes-1]",
+        "test_stacked[None-0]",
+        "test_stacked[None-1]",
+        "test_dynamic",
+      ]);
+    });
+
+    it("applies class parametrize marks to methods", () => {
+      const content = `
+@pytest.mark.parametrize("n", [1, 2])
+class TestNumbers:
+    def test_positive(self, n):
+        assert n > 0
+`;
+      expect(names(content)).toEqual([
+        "TestNumbers > test_positive[1]",
+        "TestNumbers > test_positive[2]",
+      ]);
+    });
+
+    it("computes ids the way pytest does", () => {
+      expect(parametrizeIds(`@pytest.mark.parametrize("s", ["a", "a", "b"])`)).toEqual([
+        "a0",
+        "a1",
+        "b",
+      ]);
+      expect(parametrizeIds(`@pytest.mark.parametrize(("x", "y"), [(-1, obj), (2.0, "z")])`)).toEqual([
+        "-1-y0",
+        "2.0-z",
+      ]);
+      expect(parametrizeIds(`@pytest.mark.parametrize("x", [1], ids=make_id)`)).toBeNull();
+    });
+
+    it("returns the body after the signature and its range", () => {
+      const content = `
+@pytest.mark.slow
+def test_body(
+    fixture,
+):  # trailing comment
+    value = compute(
+        fixture,
+    )
+    assert value
+
+def test_next():
+    pass
+`;
+      const [match] = pythonParser.findMatches(content, "/fake/test_app.py");
+      expect(match.body).toBe("    value = compute(\n        fixture,\n    )\n    assert value");
+      expect(match.normalizedBody).toBe("value = compute( fixture, )\nassert value");
+      expect(match.range.startLine).toBe(2);
+      expect(match.range.endLine).toBe(9);
     });
 
-    it("does not match standard tests", () => {
-      const content = `it('normal test', () => {});`;
-      const matches = eachParser.findMatches(content);
-      expect(matches.length).toBe(0);
+    it("normalizes comments, blank lines and whitespace", () => {
+      const a = pythonParser.findMatches("def test_x():\n    x = 1  # one\n\n    assert x\n", "/f.py");
+      const b = pythonParser.findMatches("def test_x():\n  x  =  1\n  assert x", "/f.py");
+      expect(a[0].normalizedBody).toBe(b[0].normalizedBody);
     });
   });
 
-  describe("templateParser", () => {
-    it("matches it() with template literal", () => {
-      const content = "it(`template test`, () => { expect(1).toBe(1); });";
-      const matches = templateParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("template test");
+  describe("goParser", () => {
+    function names(content: string): string[] {
+      return goParser
+        .findMatches(content, "/fake/auth_test.go")
+        .map((m) => [...m.describePath, m.name].join(" > "));
+    }
+
+    it("matches Test functions taking *testing.T", () => {
+      const content = `
+package auth
+
+import "testing"
+
+// func TestInComment(t *testing.T) {}
+func TestLogin(t *testing.T) {
+	t.Log("}")
+}
+
+func Test_Underscore(t *testing.T) {}
+func TestMain(m *testing.M) {}
+func Testlowercase(t *testing.T) {}
+func helper(t *testing.T) {}
+func (s *Suite) TestMethod(t *testing.T) {}
+`;
+      expect(names(content)).toEqual(["TestLogin", "Test_Underscore"]);
     });
 
-    it("matches test() with template literal containing expressions", () => {
-      const content = 'test(`test with ${variable}`, () => {});';
-      const matches = templateParser.findMatches(content);
-      expect(matches.length).toBe(1);
-      expect(matches[0].identifier).toBe("test with ${variable}");
+    it("matches t.Run subtests with go test names", () => {
+      const content = `
+func TestLogin(t *testing.T) {
+	t.Run("valid input", func(t *testing.T) {
+		t.Run(\`nested\`, func(st *testing.T) {})
+	})
+	for _, tc := range cases {
+		t.Run(tc.name, func(t *testing.T) {})
+	}
+}
+`;
+      expect(names(content)).toEqual([
+        "TestLogin",
+        "TestLogin > valid_input",
+        "TestLogin > valid_input > nested",
+      ]);
+    });
+
+    it("returns the block body, ignoring comments when normalizing", () => {
+      const a = goParser.findMatches("func TestA(t *testing.T) {\n\tx := 1 // one\n\t_ = x\n}", "/a_test.go");
+      const b = goParser.findMatches("func TestA(t *testing.T) {\n    x  :=  1\n\n    _ = x\n}", "/a_test.go");
+      expect(a[0].body).toBe("{\n\tx := 1 // one\n\t_ = x\n}");
+      expect(a[0].range.endLine).toBe(4);
+      expect(a[0].normalizedBody).toBe(b[0].normalizedBody);
     });
+  });
 
-    it("does not match tests with regular quotes", () => {
-      const content = `it('regular quotes', () => {});`;
-      const matches = templateParser.findMatches(content);
-      expect(matches.length).toBe(0);
+  describe("getParserForFile", () => {
+    it("picks the parser by extension", () => {
+      expect(getParserForFile("/a/test_auth.py").name).toBe("python");
+      expect(getParserForFile("/a/auth_test.go").name).toBe("go");
+      expect(getParserForFile("/a/auth.test.tsx").name).toBe("typescript");
+      expect(getParserForFile("/a/auth.test.mjs").name).toBe("typescript");
+      expect(getParserForFile("/a/unknown.txt").name).toBe("typescript");
     });
   });
 
+  describe("testNameFromIdentifier", () => {
+    it("returns the last segment of a qualified identifier", () => {
+      expect(testNameFromIdentifier("auth > login > works")).toBe("works");
+      expect(testNameFromIdentifier("plain name")).toBe("plain name");
+    });
+  });
   describe("extractTestsFromContent integration", () => {
     it("extracts all standard tests", () => {
       const content = `
@@ -181,18 +401,107 @@ describe("Test Parsers", () => {
       expect(tests[0].body).toContain("return 1"); // First one wins
     });
 
-    it("deduplicates .only variant with standard variant", () => {
+    it("deduplicates .only variant with standard variant (first in source wins)", () => {
       const content = `
         it.only('same test', () => { return 1; });
         it('same test', () => { return 2; });
       `;
       const tests = extractTestsFromContent(content, "/fake/path.test.ts", "path.test.ts");
       expect(tests.length).toBe(1);
-      // standardParser runs first and matches the second test (it('same test', ...))
-      // Then modifiersParser runs and matches the first test (it.only('same test', ...))
-      // But by then 'same test' is already in seenIdentifiers, so it's skipped
-      // Result: the standard test wins (return 2)
-      expect(tests[0].body).toContain("return 2"); // Standard test appears first in processing
+      expect(tests[0].body).toContain("return 1");
+    });
+
+    it("keeps tests with the same name in different describe blocks", () => {
+      const content = `
+        describe('login', () => {
+          it('rejects empty input', () => { return 1; });
+        });
+        describe('signup', () => {
+          it('rejects empty input', () => { return 2; });
+        });
+        it('unique test', () => {});
+      `;
+      const tests = extractTestsFromContent(content, "/fake/path.test.ts", "path.test.ts");
+      expect(tests.map((t) => t.identifier)).toEqual([
+        "login > rejects empty input",
+        "signup > rejects empty input",
+        "unique test",
+      ]);
+      expect(tests[0].body).toContain("return 1");
+      expect(tests[1].body).toContain("return 2");
+    });
+
+    it("always uses the fully qualified name as identifier", () => {
+      const content = `
+        describe('Payments', () => {
+          describe('Credit Card', () => {
+            it('processes valid card', () => {});
+          });
+        });
+      `;
+      const tests = extractTestsFromContent(content, "/fake/path.test.ts", "path.test.ts");
+      expect(tests.length).toBe(1);
+      expect(tests[0].identifier).toBe("Payments > Credit Card > processes valid card");
+      expect(tests[0].fullName).toBe("Payments > Credit Card > processes valid card");
+
+      // A same-named test elsewhere doesn't change the identifier
+      const more = extractTestsFromContent(
+        `${content}\ndescribe('Refunds', () => { it('processes valid card', () => {}); });`,
+        "/fake/path.test.ts",
+        "path.test.ts"
+      );
+      expect(more[0].identifier).toBe(tests[0].identifier);
+    });
+
+    it("indexes plain names of nested tests for older links", () => {
+      const tests = extractTestsFromContent(
+        `
+        describe('login', () => { it('rejects empty input', () => {}); });
+        describe('signup', () => { it('rejects empty input', () => {}); });
+        it('top level', () => {});
+      `,
+        "/fake/path.test.ts",
+        "path.test.ts"
+      );
+      const index = indexTestsByLinkKey(tests);
+      expect(index.get("path.test.ts:rejects empty input")?.identifier).toBe("login > rejects empty input");
+      expect(index.get("path.test.ts:signup > rejects empty input")?.identifier).toBe(
+        "signup > rejects empty input"
+      );
+      expect(index.get("path.test.ts:top level")?.identifier).toBe("top level");
+    });
+
+    it("produces same hash regardless of whitespace and comments", () => {
+      const content1 = `it('test', () => { const x = 1; expect(x).toBe(1); });`;
+      const content2 = `it('test', () => {
+        // set up value { with braces }
+        const x   = 1;
+
+        /* check it */
+        expect( x ).toBe(1);
+      });`;
+
+      const tests1 = extractTestsFromContent(content1, "/fake/a.test.ts", "a.test.ts");
+      const tests2 = extractTestsFromContent(content2, "/fake/b.test.ts", "b.test.ts");
+
+      expect(tests1[0].hash).toBe(tests2[0].hash);
+    });
+
+    it("produces different hashes when string contents change", () => {
+      const content1 = `it('test', () => { expect(f("a  b")).toBe(1); });`;
+      const content2 = `it('test', () => { expect(f("a b")).toBe(1); });`;
+
+      const tests1 = extractTestsFromContent(content1, "/fake/a.test.ts", "a.test.ts");
+      const tests2 = extractTestsFromContent(content2, "/fake/b.test.ts", "b.test.ts");
+
+      expect(tests1[0].hash).not.toBe(tests2[0].hash);
+    });
+
+    it("computes the legacy hash from the brace-counted body", () => {
+      const content = `it('legacy', () => { return 1; });`;
+      const tests = extractTestsFromContent(content, "/fake/path.test.ts", "path.test.ts");
+      const legacyBody = extractFunctionBody(content, content.indexOf(","));
+      expect(tests[0].legacyHash).toBe(computeHash(legacyBody));
     });
 
     it("extracts body and computes hash correctly", () => {
@@ -0,0 +1,247 @@
+/**
+ * Tests for the traceability matrix and req export
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import { buildCheckResult } from "../lib/check-result";
+import {
+  buildTraceabilityMatrix,
+  formatCsv,
+  formatHtml,
+  formatMarkdown,
+} from "../lib/traceability";
+import { saveTestResults } from "../lib/result-store";
+import { exportMatrix } from "../commands/export";
+import { CRITERIA_KEYS, type ParsedRequirement, type VerificationCriteria } from "../lib/types";
+
+const criteria = Object.fromEntries(
+  CRITERIA_KEYS.map((key) => [key, { result: key === "edgeCasesAddressed" ? "fail" : "pass" }])
+) as unknown as VerificationCriteria;
+
+const requirements: ParsedRequirement[] = [
+  {
+    path: "auth/REQ_login.yml",
+    data: {
+      gherkin: "Given a user\nWhen they log in\nThen they see the dashboard",
+      mainSource: { type: "doc", description: "PRD v2", url: "https://example.com/prd" },
+      tests: [
+        { file: "auth.test.ts", identifier: "logs in", hash: "h1" },
+        { file: "auth.test.ts", identifier: "rejects | bad", hash: "h2" },
+      ],
+      status: "done",
+      priority: "high",
+      aiAssessment: {
+        sufficient: false,
+        notes: "Missing edge cases",
+        assessedAt: "2025-01-01T00:00:00.000Z",
+        criteria,
+      },
+      scenarios: [
+        {
+          name: "locked_out",
+          gherkin: "Given a locked account\nWhen they log in\nThen they are refused",
+          source: { type: "ticket", description: "SEC-12" },
+        },
+        { name: "remember_me", gherkin: "Given x\nWhen y\nThen z", suggested: true },
+      ],
+    },
+  },
+  {
+    path: "REQ_about.yml",
+    data: {
+      gherkin: "Given a visitor\nWhen they open about\nThen they see the team",
+      mainSource: { type: "manual", description: "Team page" },
+      tests: [],
+      scenarios: [{ name: "=HYPERLINK(\"x\")", gherkin: "Given x\nWhen y\nThen z" }],
+      status: "planned",
+    },
+  },
+];
+
+const tests = [
+  { file: "auth.test.ts", identifier: "logs in", body: "", hash: "h1" },
+  { file: "auth.test.ts", identifier: "rejects | bad", body: "", hash: "h2" },
+];
+
+function buildMatrix() {
+  return buildTraceabilityMatrix(buildCheckResult(requirements, tests, new Set()), requirements, [
+    { file: "auth.test.ts", identifier: "logs in", status: "passed" },
+  ]);
+}
+
+describe("buildTraceabilityMatrix", () => {
+  it("groups rows by check result path", () => {
+    const matrix = buildMatrix();
+
+    expect(matrix.groups.map((g) => g.path)).toEqual(["(root)", "auth/"]);
+    expect(matrix.groups[1].rows.map((r) => r.id)).toEqual(["auth/REQ_login.yml"]);
+  });
+
+  it("maps sources, scenarios, tests, results and verification", () => {
+    const row = buildMatrix().groups[1].rows[0];
+
+    expect(row.sources).toEqual(["doc: PRD v2 (https://example.com/prd)", "ticket: SEC-12"]);
+    expect(row.scenarios).toEqual(["locked_out", "remember_me (suggested)"]);
+    expect(row.tests.map((t) => t.result)).toEqual(["passed", "not run"]);
+    expect(row.lastResult).toBe("not run");
+    expect(row.verification).toBe("verified");
+    expect(row.sufficient).toBe(false);
+    expect(row.criteria.edgeCasesAddressed).toBe("fail");
+    expect(row.criteria.happyPathCovered).toBe("pass");
+  });
+
+  it("leaves criteria and results empty without assessment or tests", () => {
+    const row = buildMatrix().groups[0].rows[0];
+
+    expect(row.lastResult).toBe("");
+    expect(row.verification).toBe("n/a");
+    expect(row.sufficient).toBeNull();
+    expect(Object.values(row.criteria).every((value) => value === "")).toBe(true);
+  });
+});
+
+describe("formatCsv", () => {
+  it("writes an Excel-compatible CSV with one row per requirement", () => {
+    const csv = formatCsv(buildMatrix());
+    const lines = csv.slice(1).split("\r\n");
+
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(lines[0]).toStartWith("Group,Requirement,Status,Priority,Gherkin,Sources");
+    expect(lines[0]).toContain("No bugs in test code");
+    expect(lines[1]).toStartWith("(root),REQ_about.yml,planned,,");
+    // Formula-like cells are neutralized
+    expect(lines[1]).toContain(`,"'=HYPERLINK(""x"")",`);
+    // Multi-line cells are quoted
+    expect(csv).toContain('"Given a user\nWhen they log in\nThen they see the dashboard"');
+  });
+});
+
+describe("formatMarkdown", () => {
+  it("writes a table per group and escapes cell content", () => {
+    const md = formatMarkdown(buildMatrix());
+
+    expect(md).toStartWith("# Traceability Matrix\n\n2 requirements (1 done, 1 planned)");
+    expect(md).toContain("\n## auth/\n");
+    expect(md).toContain("Given a user<br>When they log in");
+    expect(md).toContain("auth.test.ts:rejects \\| bad (not run)");
+  });
+});
+
+describe("formatHtml", () => {
+  it("writes a self-contained document", () => {
+    const html = formatHtml(buildMatrix());
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<style>");
+    expect(html).not.toContain("<script");
+    expect(html).toContain("<h2>auth/</h2>");
+    expect(html).toContain('<td class="fail">fail</td>');
+    expect(html).toContain("<li>auth.test.ts:logs in (passed)</li>");
+  });
+
+  it("escapes HTML in requirement content", () => {
+    const html = formatHtml(
+      buildTraceabilityMatrix(
+        buildCheckResult(
+          [{ ...requirements[1], data: { ...requirements[1].data, gherkin: "Given <b>" } }],
+          [],
+          new Set()
+        ),
+        [{ ...requirements[1], data: { ...requirements[1].data, gherkin: "Given <b>" } }],
+        []
+      )
+    );
+
+    expect(html).toContain("Given &lt;b&gt;");
+  });
+});
+
+describe("exportMatrix", () => {
+  let tempDir: string;
+  let consoleOutput: string[];
+  let exitSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-export-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts" });
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("writes the same output on every export", async () => {
+    await writeFile(join(tempDir, "auth.test.ts"), `it("logs in", () => { expect(1).toBe(1); });`);
+    await saveRequirement(tempDir, "auth/REQ_login.yml", {
+      ...requirements[0].data,
+      tests: [{ file: "auth.test.ts", identifier: "logs in", hash: "old" }],
+      aiAssessment: undefined,
+    });
+    await saveTestResults(tempDir, [{ file: "auth.test.ts", identifier: "logs in", status: "failed" }]);
+
+    await exportMatrix({ cwd: tempDir, format: "md", output: "matrix.md" });
+    const first = await readFile(join(tempDir, "matrix.md"), "utf-8");
+    await exportMatrix({ cwd: tempDir, format: "md", output: "matrix.md" });
+    const second = await readFile(join(tempDir, "matrix.md"), "utf-8");
+
+    expect(second).toBe(first);
+    expect(first).toContain("auth.test.ts:logs in (failed)");
+    expect(consoleOutput).toContain("Exported 1 requirement(s) to matrix.md");
+  });
+
+  it("does not modify requirement files", async () => {
+    await writeFile(join(tempDir, "auth.test.ts"), `it("logs in", () => { expect(1).toBe(1); });`);
+    await saveRequirement(tempDir, "auth/REQ_login.yml", {
+      ...requirements[0].data,
+      tests: [{ file: "auth.test.ts", identifier: "logs in", hash: "old" }],
+    });
+    const reqFile = join(tempDir, ".requirements", "auth", "REQ_login.yml");
+    const before = await readFile(reqFile, "utf-8");
+
+    await exportMatrix({ cwd: tempDir, format: "csv", output: "matrix.csv" });
+
+    expect(await readFile(reqFile, "utf-8")).toBe(before);
+    expect(await readFile(join(tempDir, "matrix.csv"), "utf-8")).toContain(",stale,no,");
+  });
+
+  it("counts done requirements by the configured workflow", async () => {
+    await saveConfig(tempDir, {
+      testRunner: "bun test",
+      testGlob: "**/*.test.ts",
+      workflow: {
+        initial: "draft",
+        states: [
+          { name: "draft", transitions: ["shipped"] },
+          { name: "shipped", implemented: true },
+        ],
+      },
+    });
+    await saveRequirement(tempDir, "REQ_about.yml", { ...requirements[1].data, status: "shipped" });
+
+    await exportMatrix({ cwd: tempDir, format: "md", output: "matrix.md" });
+
+    expect(await readFile(join(tempDir, "matrix.md"), "utf-8")).toContain("1 requirements (1 done, 0 planned)");
+  });
+
+  it("rejects unknown formats", async () => {
+    await expect(exportMatrix({ cwd: tempDir, format: "xlsx" })).rejects.toThrow("process.exit(1)");
+    expect(consoleOutput[0]).toContain('Unknown export format "xlsx"');
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Tests for the terminal UI (req tui)
+ */
+
+import { describe, it, expect } from "bun:test";
+import { buildCheckResult } from "../lib/check-result";
+import { DEFAULT_WORKFLOW } from "../lib/workflow";
+import {
+  applyQuestionEdit,
+  buildRows,
+  createTuiState,
+  decodeKeys,
+  handleKey,
+  renderScreen,
+  restoreCursor,
+  type TuiData,
+  type TuiState,
+} from "../lib/tui";
+import type { ExtractedTest, ParsedRequirement, Requirement } from "../lib/types";
+
+const LOGIN: ParsedRequirement = {
+  path: "auth/REQ_login.yml",
+  data: {
+    gherkin: "Given a user\nWhen they log in\nThen they see the dashboard",
+    mainSource: { type: "manual", description: "Test" },
+    status: "done",
+    priority: "high",
+    tests: [{ file: "auth.test.ts", identifier: "logs in", hash: "h1" }],
+    scenarios: [
+      {
+        name: "locked",
+        gherkin: "Given a locked account\nWhen they log in\nThen they see an error",
+        tests: [{ file: "auth.test.ts", identifier: "rejects locked", hash: "h2" }],
+      },
+    ],
+    questions: [{ question: "How long is the lockout?" }],
+  },
+};
+
+const EXPORT: ParsedRequirement = {
+  path: "reports/REQ_export.yml",
+  data: {
+    gherkin: "Given a report\nWhen exported\nThen a CSV is downloaded",
+    mainSource: { type: "doc", description: "PRD" },
+    status: "planned",
+    tests: [],
+  },
+};
+
+const TESTS: ExtractedTest[] = [
+  { file: "auth.test.ts", identifier: "logs in", body: "", hash: "h1" },
+  { file: "auth.test.ts", identifier: "rejects locked", body: "", hash: "h2" },
+  { file: "export.test.ts", identifier: "exports csv", body: "", hash: "h3" },
+];
+
+function tuiData(): TuiData {
+  const requirements = structuredClone([LOGIN, EXPORT]);
+  const testResults = [{ file: "auth.test.ts", identifier: "logs in", status: "failed" as const }];
+  return {
+    result: buildCheckResult(requirements, TESTS, new Set(), new Set(), testResults, DEFAULT_WORKFLOW),
+    requirements,
+    testResults,
+    workflow: DEFAULT_WORKFLOW,
+  };
+}
+
+// Feed keys one by one, returning the final state and the last effect
+function press(keys: string[], state: TuiState = createTuiState(), data = tuiData()) {
+  let effect;
+  for (const key of keys) {
+    ({ state, effect } = handleKey(state, key, data));
+  }
+  return { state, effect };
+}
+
+describe("decodeKeys", () => {
+  it("decodes arrows, control keys and characters", () => {
+    expect(decodeKeys("\x1b[A\x1b[Bjq\r\x7f\x03")).toEqual(["up", "down", "j", "q", "enter", "backspace", "ctrl-c"]);
+    expect(decodeKeys("\x1b[5~\x1b[6~\x1b")).toEqual(["pageup", "pagedown", "escape"]);
+    // Unknown sequences are dropped
+    expect(decodeKeys("\x1b[1;5Cx")).toEqual(["x"]);
+  });
+});
+
+describe("buildRows", () => {
+  it("lists folders and requirements, and children of expanded rows", () => {
+    const data = tuiData();
+    const state = createTuiState();
+    expect(buildRows(data, state).map((row) => row.key)).toEqual([
+      "folder:auth/",
+      "auth/REQ_login.yml",
+      "folder:reports/",
+      "reports/REQ_export.yml",
+    ]);
+
+    state.expanded.add("auth/REQ_login.yml");
+    state.expanded.add("auth/REQ_login.yml#locked");
+    expect(buildRows(data, state).map((row) => row.key)).toEqual([
+      "folder:auth/",
+      "auth/REQ_login.yml",
+      "auth/REQ_login.yml#locked",
+      "auth/REQ_login.yml#locked:auth.test.ts:rejects locked",
+      "auth/REQ_login.yml:auth.test.ts:logs in",
+      "folder:reports/",
+      "reports/REQ_export.yml",
+    ]);
+  });
+
+  it("filters requirements with the query language", () => {
+    const state = { ...createTuiState(), filter: "-has:tests" };
+    expect(buildRows(tuiData(), state).map((row) => row.key)).toEqual(["folder:reports/", "reports/REQ_export.yml"]);
+  });
+});
+
+describe("handleKey", () => {
+  it("moves the cursor and expands requirements", () => {
+    const { state } = press(["j", "enter", "j"]);
+    expect(state.cursor).toBe(2);
+    expect(state.expanded.has("auth/REQ_login.yml")).toBe(true);
+
+    // Left on a child goes back to its requirement, then collapses it
+    expect(press(["left"], state).state.cursor).toBe(1);
+    expect(press(["left", "left"], state).state.expanded.has("auth/REQ_login.yml")).toBe(false);
+  });
+
+  it("applies a filter typed after /", () => {
+    const { state } = press(["/", ..."priority:high", "enter"]);
+    expect(state.filter).toBe("priority:high");
+    expect(state.mode.type).toBe("browse");
+
+    const invalid = press(["/", ..."priority:urgent", "enter"]).state;
+    expect(invalid.message).toContain("Invalid filter");
+    expect(invalid.mode.type).toBe("filter");
+  });
+
+  it("runs every test of the requirement under the cursor", () => {
+    const { effect } = press(["j", "r"]);
+    expect(effect).toEqual({
+      type: "run",
+      label: "auth/REQ_login.yml",
+      tests: [
+        { file: "auth.test.ts", identifier: "logs in" },
+        { file: "auth.test.ts", identifier: "rejects locked" },
+      ],
+    });
+  });
+
+  it("links an orphaned test chosen in the picker", () => {
+    const { state } = press(["G", "n"]);
+    expect(state.mode).toMatchObject({ type: "picker", title: "Link a test to reports/REQ_export.yml" });
+
+    const { effect } = press([..."csv", "enter"], state);
+    expect(effect).toEqual({
+      type: "batch",
+      description: "Linked export.test.ts:exports csv",
+      operations: [{ op: "link", target: "reports/REQ_export.yml", test: "export.test.ts:exports csv" }],
+    });
+  });
+
+  it("unlinks from a scenario and changes status and priority", () => {
+    const unlink = press(["j", "l", "j", "u", "enter"]).effect;
+    expect(unlink).toMatchObject({
+      type: "batch",
+      operations: [{ op: "unlink", target: "auth/REQ_login.yml#locked", test: "auth.test.ts:rejects locked" }],
+    });
+
+    // Only the allowed transitions are offered
+    const { state } = press(["G", "s"]);
+    expect(state.mode.type === "picker" && state.mode.items.map((item) => item.value)).toEqual(["done"]);
+    expect(press(["enter"], state).effect).toMatchObject({
+      operations: [{ op: "status", target: "reports/REQ_export.yml", state: "done" }],
+    });
+
+    expect(press(["G", "p", "up", "enter"]).effect).toMatchObject({
+      operations: [{ op: "priority", target: "reports/REQ_export.yml", priority: "low" }],
+    });
+  });
+
+  it("answers and asks questions", () => {
+    const answer = press(["j", "a", "enter", ..."15 minutes", "enter"]).effect;
+    expect(answer).toEqual({ type: "question", path: "auth/REQ_login.yml", index: 0, answer: "15 minutes" });
+
+    const ask = press(["j", "a", "down", "enter", ..."Who unlocks?", "enter"]).effect;
+    expect(ask).toEqual({ type: "question", path: "auth/REQ_login.yml", question: "Who unlocks?" });
+  });
+
+  it("quits on q and ctrl-c, but q types in a filter", () => {
+    expect(press(["q"]).effect).toEqual({ type: "quit" });
+    expect(press(["/", "q"]).effect).toBeUndefined();
+    expect(press(["/", "ctrl-c"]).effect).toEqual({ type: "quit" });
+  });
+});
+
+describe("restoreCursor", () => {
+  it("keeps the cursor on the same row after a reload", () => {
+    const data = tuiData();
+    const state = { ...createTuiState(), cursor: 3 };
+    data.requirements.push({ path: "auth/REQ_logout.yml", data: structuredClone(EXPORT.data) });
+    data.result = buildCheckResult(data.requirements, TESTS, new Set(), new Set(), [], DEFAULT_WORKFLOW);
+
+    expect(restoreCursor(state, data, "reports/REQ_export.yml").cursor).toBe(4);
+  });
+});
+
+describe("renderScreen", () => {
+  it("renders the tree, the details of the selected requirement and key hints", () => {
+    const { state } = press(["j"]);
+    const lines = renderScreen(state, tuiData(), 120, 20, false);
+
+    expect(lines).toHaveLength(20);
+    expect(lines[0]).toContain("2 requirement(s) · 0 untested · 0 stale · 1 orphaned test(s)");
+    expect(lines[1]).toMatch(/^  ▾ auth\/ +│ auth\/REQ_login\.yml$/);
+    expect(lines[2]).toMatch(/^✗>  ▸ REQ_login\.yml \[high\] +│   Status: done · Priority: high · Verification: unverified$/);
+    expect(lines[4]).toContain("·     REQ_export.yml");
+    const text = lines.join("\n");
+    expect(text).toContain("failed  auth.test.ts:logs in");
+    expect(text).toContain("Q: How long is the lockout?");
+    expect(lines[19]).toContain("?: help");
+  });
+
+  it("renders pickers in the detail pane", () => {
+    const { state } = press(["G", "n"]);
+    const text = renderScreen(state, tuiData(), 100, 20, false).join("\n");
+    expect(text).toContain("Link a test to reports/REQ_export.yml");
+    expect(text).toContain("exports csv  export.test.ts");
+  });
+});
+
+describe("applyQuestionEdit", () => {
+  it("adds, answers and reopens questions", () => {
+    const data: Requirement = structuredClone(LOGIN.data);
+
+    applyQuestionEdit(data, { type: "question", path: LOGIN.path, index: 0, answer: "15 minutes" });
+    expect(data.questions?.[0]).toMatchObject({ answer: "15 minutes" });
+    expect(data.questions?.[0].answeredAt).toBeDefined();
+
+    applyQuestionEdit(data, { type: "question", path: LOGIN.path, index: 0, answer: "" });
+    expect(data.questions?.[0]).toEqual({ question: "How long is the lockout?" });
+
+    applyQuestionEdit(data, { type: "question", path: LOGIN.path, question: "Who unlocks?" });
+    expect(data.questions?.map((q) => q.question)).toEqual(["How long is the lockout?", "Who unlocks?"]);
+    expect(applyQuestionEdit(data, { type: "question", path: LOGIN.path, index: 5, answer: "x" })).toBe(false);
+  });
+});
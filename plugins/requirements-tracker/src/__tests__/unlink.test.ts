@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
-import { mkdtemp, rm, readFile } from "fs/promises";
+import { mkdtemp, rm, readFile, writeFile } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
 import { parse as parseYaml } from "yaml";
@@ -189,4 +189,49 @@ describe("Unlink Command", () => {
 
     expect(data.tests.length).toBe(0);
   });
+
+  it("removes test link from a scenario", async () => {
+    await setupRequirements();
+    const reqPath = join(getRequirementsDir(tempDir), "auth/REQ_login.yml");
+    const data = parseYaml(await readFile(reqPath, "utf-8")) as Requirement;
+    data.scenarios = [
+      {
+        name: "bad_password",
+        gherkin: "Given a user\nWhen the password is wrong\nThen login fails",
+        tests: [{ file: "auth.test.ts", identifier: "handles error", hash: "def456" }],
+      },
+    ];
+    await saveRequirement(tempDir, "auth/REQ_login.yml", data);
+
+    await unlink({
+      cwd: tempDir,
+      path: "auth/REQ_login.yml#bad_password",
+      testSpec: "auth.test.ts:handles error",
+    });
+
+    const updated = parseYaml(await readFile(reqPath, "utf-8")) as Requirement;
+    expect(updated.scenarios?.[0].tests).toBeUndefined();
+    expect(updated.tests.length).toBe(2);
+  });
+
+  it("accepts the plain name of a nested test, like link", async () => {
+    await setupRequirements();
+    await writeFile(
+      join(tempDir, "session.test.ts"),
+      `describe("session", () => { it("expires", () => {}); });`
+    );
+    const reqPath = join(getRequirementsDir(tempDir), "auth/REQ_login.yml");
+    const data = parseYaml(await readFile(reqPath, "utf-8")) as Requirement;
+    data.tests.push({ file: "session.test.ts", identifier: "session > expires", hash: "ghi789" });
+    await saveRequirement(tempDir, "auth/REQ_login.yml", data);
+
+    await unlink({
+      cwd: tempDir,
+      path: "auth/REQ_login.yml",
+      testSpec: "session.test.ts:expires",
+    });
+
+    const updated = parseYaml(await readFile(reqPath, "utf-8")) as Requirement;
+    expect(updated.tests.map((t) => t.identifier)).toEqual(["validates login", "handles error"]);
+  });
 });
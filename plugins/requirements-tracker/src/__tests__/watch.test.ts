@@ -0,0 +1,342 @@
+/**
+ * Tests for watch mode snapshots, diffs and incremental re-checks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile, utimes } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import {
+  takeSnapshot,
+  diffSnapshots,
+  isEmptyDiff,
+  formatDiff,
+  findAffectedTests,
+  type WatchSnapshot,
+} from "../lib/watch";
+import { loadTestResults, saveTestResults } from "../lib/result-store";
+import { recheck } from "../commands/watch";
+import type { Config, ParsedRequirement } from "../lib/types";
+import { extracted, requirement } from "./fixtures/requirements";
+
+const assessment = {
+  sufficient: true,
+  notes: "Good",
+  assessedAt: "2025-01-01T00:00:00.000Z",
+};
+
+function emptySnapshot(): WatchSnapshot {
+  return { stale: new Set(), failing: new Set(), orphaned: new Set(), blocked: new Set() };
+}
+
+describe("takeSnapshot", () => {
+  it("marks assessed requirements with changed tests as stale", () => {
+    const requirements: ParsedRequirement[] = [
+      requirement("auth/REQ_login.yml", {
+        tests: [{ file: "a.test.ts", identifier: "logs in", hash: "old" }],
+        aiAssessment: assessment,
+      }),
+      requirement("auth/REQ_logout.yml", {
+        tests: [{ file: "a.test.ts", identifier: "logs out", hash: "same" }],
+        aiAssessment: assessment,
+      }),
+    ];
+    const tests = [
+      extracted("a.test.ts", "logs in", "new"),
+      extracted("a.test.ts", "logs out", "same"),
+    ];
+
+    const snapshot = takeSnapshot(requirements, tests, [], new Set());
+
+    expect([...snapshot.stale]).toEqual(["auth/REQ_login.yml"]);
+  });
+
+  it("does not treat a matching legacy hash as stale", () => {
+    const requirements: ParsedRequirement[] = [
+      requirement("REQ_a.yml", {
+        tests: [{ file: "a.test.ts", identifier: "works", hash: "legacy" }],
+        aiAssessment: assessment,
+      }),
+    ];
+    const tests = [{ ...extracted("a.test.ts", "works", "ast"), legacyHash: "legacy" }];
+
+    expect(takeSnapshot(requirements, tests, [], new Set()).stale.size).toBe(0);
+  });
+
+  it("finds failing, blocked and orphaned entries", () => {
+    const requirements: ParsedRequirement[] = [
+      requirement("REQ_a.yml", {
+        tests: [{ file: "a.test.ts", identifier: "works", hash: "h1" }],
+      }),
+      requirement("REQ_b.yml", {
+        dependencies: [{ path: "REQ_a.yml" }, { path: "REQ_c.yml", blocking: false }],
+      }),
+    ];
+    const tests = [
+      extracted("a.test.ts", "works", "h1"),
+      extracted("a.test.ts", "helper", "h2"),
+      extracted("a.test.ts", "ignored", "h3"),
+    ];
+    const results = [{ file: "a.test.ts", identifier: "works", status: "failed" as const }];
+
+    const snapshot = takeSnapshot(requirements, tests, results, new Set(["a.test.ts:ignored"]));
+
+    expect([...snapshot.failing]).toEqual(["REQ_a.yml"]);
+    expect([...snapshot.blocked]).toEqual(["REQ_b.yml"]);
+    expect([...snapshot.orphaned]).toEqual(["a.test.ts:helper"]);
+  });
+
+  it("only reports requirements under the path filter", () => {
+    const requirements: ParsedRequirement[] = [
+      requirement("auth/REQ_a.yml", { dependencies: [{ path: "x.yml" }] }),
+      requirement("billing/REQ_b.yml", {
+        dependencies: [{ path: "x.yml" }],
+        tests: [{ file: "a.test.ts", identifier: "works", hash: "h1" }],
+      }),
+    ];
+
+    const snapshot = takeSnapshot(
+      requirements,
+      [extracted("a.test.ts", "works", "h1")],
+      [],
+      new Set(),
+      "auth/"
+    );
+
+    expect([...snapshot.blocked]).toEqual(["auth/REQ_a.yml"]);
+    // Links outside the filter still count against orphans
+    expect(snapshot.orphaned.size).toBe(0);
+  });
+
+  it("resolves links and ignored tests that use the plain name of a nested test", () => {
+    const requirements: ParsedRequirement[] = [
+      requirement("REQ_a.yml", {
+        tests: [{ file: "a.test.ts", identifier: "works", hash: "h1" }],
+        aiAssessment: assessment,
+      }),
+    ];
+    const tests = [
+      extracted("a.test.ts", "login > works", "h2"),
+      extracted("a.test.ts", "helpers > ignored", "h3"),
+    ];
+
+    const snapshot = takeSnapshot(requirements, tests, [], new Set(["a.test.ts:ignored"]));
+
+    expect([...snapshot.stale]).toEqual(["REQ_a.yml"]);
+    expect(snapshot.orphaned.size).toBe(0);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("lists entries that entered and left each state", () => {
+    const before = emptySnapshot();
+    before.failing.add("REQ_a.yml");
+    before.orphaned.add("a.test.ts:x");
+    const after = emptySnapshot();
+    after.stale.add("REQ_b.yml");
+    after.failing.add("REQ_c.yml");
+    after.orphaned.add("a.test.ts:x");
+
+    const diff = diffSnapshots(before, after);
+
+    expect(isEmptyDiff(diff)).toBe(false);
+    expect(formatDiff(diff)).toEqual([
+      "+ stale     REQ_b.yml",
+      "+ failing   REQ_c.yml",
+      "- failing   REQ_a.yml",
+    ]);
+  });
+
+  it("is empty when nothing moved", () => {
+    const snapshot = emptySnapshot();
+    snapshot.blocked.add("REQ_a.yml");
+
+    const diff = diffSnapshots(snapshot, snapshot);
+
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(formatDiff(diff)).toEqual([]);
+  });
+});
+
+describe("findAffectedTests", () => {
+  const link = { file: "a.test.ts", identifier: "works", hash: "h1" };
+  const requirements: ParsedRequirement[] = [requirement("auth/REQ_a.yml", { tests: [link] })];
+
+  it("returns linked tests whose body changed", () => {
+    const affected = findAffectedTests(
+      [extracted("a.test.ts", "works", "h1")],
+      [extracted("a.test.ts", "works", "h2")],
+      requirements,
+      requirements
+    );
+
+    expect(affected).toEqual([link]);
+  });
+
+  it("returns newly linked tests", () => {
+    const tests = [extracted("a.test.ts", "works", "h1")];
+    const before: ParsedRequirement[] = [requirement("auth/REQ_a.yml")];
+
+    expect(findAffectedTests(tests, tests, before, requirements)).toEqual([link]);
+  });
+
+  it("returns plain-name links with the nested test's qualified name", () => {
+    const affected = findAffectedTests(
+      [extracted("a.test.ts", "login > works", "h1")],
+      [extracted("a.test.ts", "login > works", "h2")],
+      requirements,
+      requirements
+    );
+
+    expect(affected).toEqual([{ ...link, identifier: "login > works" }]);
+  });
+
+  it("ignores unchanged, missing and filtered-out tests", () => {
+    const tests = [extracted("a.test.ts", "works", "h1")];
+
+    expect(findAffectedTests(tests, tests, requirements, requirements)).toEqual([]);
+    expect(findAffectedTests(tests, [], [], requirements)).toEqual([]);
+    expect(
+      findAffectedTests([], tests, requirements, requirements, "billing/")
+    ).toEqual([]);
+  });
+});
+
+describe("recheck", () => {
+  let tempDir: string;
+  const testFile = "auth.test.js";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-watch-test-"));
+    await createRequirementsDir(tempDir);
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  let writes = 0;
+
+  async function writeTest(body: string) {
+    const path = join(tempDir, testFile);
+    await writeFile(path, `it("logs in", () => { ${body} });`);
+    // Make sure the cache sees a new mtime, however fast the writes are
+    const mtime = new Date(Date.now() + ++writes * 10000);
+    await utimes(path, mtime, mtime);
+  }
+
+  it("reports requirements that became stale without running tests", async () => {
+    const config: Config = { testRunner: "node missing.js", testGlob: "**/*.test.js" };
+    await saveConfig(tempDir, config);
+    await writeTest("return 1;");
+
+    const initial = await recheck(tempDir, config, null, { noRun: true });
+    const [test] = initial.state.tests;
+    await saveRequirement(
+      tempDir,
+      "auth/REQ_login.yml",
+      requirement("auth/REQ_login.yml", {
+        tests: [{ file: testFile, identifier: "logs in", hash: test.hash }],
+        aiAssessment: assessment,
+      }).data
+    );
+    const linked = await recheck(tempDir, config, initial.state, { noRun: true });
+
+    expect(initial.diff).toBeNull();
+    expect(formatDiff(linked.diff!)).toEqual(["- orphaned  auth.test.js:logs in"]);
+
+    await writeTest("return 2;");
+    const changed = await recheck(tempDir, config, linked.state, { noRun: true });
+
+    expect(changed.changedFiles).toEqual([testFile]);
+    expect(changed.affected.map((l) => l.identifier)).toEqual(["logs in"]);
+    expect(changed.run).toBeNull();
+    expect(formatDiff(changed.diff!)).toEqual(["+ stale     auth/REQ_login.yml"]);
+  });
+
+  it("re-runs affected linked tests and reports new failures", async () => {
+    // Fake jest: reports the linked test as failed
+    const script = `
+const arg = process.argv.find((a) => a.startsWith("--outputFile="));
+require("fs").writeFileSync(arg.slice("--outputFile=".length),
+  JSON.stringify({ testResults: [{ name: "${testFile}", assertionResults: [{ title: "logs in", status: "failed" }] }] }));
+process.exit(1);
+`;
+    await writeFile(join(tempDir, "fake-jest.js"), script);
+    const config: Config = {
+      testRunner: "node fake-jest.js",
+      testGlob: "**/*.test.js",
+      framework: "jest",
+    };
+    await saveConfig(tempDir, config);
+    await writeTest("return 1;");
+    const initial = await recheck(tempDir, config, null);
+    await saveRequirement(
+      tempDir,
+      "auth/REQ_login.yml",
+      requirement("auth/REQ_login.yml", {
+        tests: [{ file: testFile, identifier: "logs in", hash: initial.state.tests[0].hash }],
+      }).data
+    );
+
+    const result = await recheck(tempDir, config, initial.state);
+
+    expect(result.run?.summary.failed).toBe(1);
+    expect(result.diff?.added.failing).toEqual(["auth/REQ_login.yml"]);
+  });
+
+  it("runs only the affected tests and keeps other results", async () => {
+    // Fake jest: records its arguments, reports the whole file
+    const script = `
+const fs = require("fs");
+fs.appendFileSync("args.log", process.argv.slice(2).filter((a) => !a.startsWith("--outputFile")).join(" ") + "\\n");
+const arg = process.argv.find((a) => a.startsWith("--outputFile="));
+fs.writeFileSync(arg.slice("--outputFile=".length), JSON.stringify({ testResults: [{ name: "${testFile}",
+  assertionResults: [{ title: "logs in", status: "passed" }, { title: "logs out", status: "skipped" }] }] }));
+`;
+    await writeFile(join(tempDir, "fake-jest.js"), script);
+    const config: Config = {
+      testRunner: "node fake-jest.js",
+      testGlob: "**/*.test.js",
+      framework: "jest",
+    };
+    await saveConfig(tempDir, config);
+    await writeTest("return 1;");
+    await saveTestResults(tempDir, [{ file: testFile, identifier: "logs out", status: "failed" }]);
+    const initial = await recheck(tempDir, config, null);
+    await saveRequirement(
+      tempDir,
+      "auth/REQ_login.yml",
+      requirement("auth/REQ_login.yml", {
+        tests: [{ file: testFile, identifier: "logs in", hash: initial.state.tests[0].hash }],
+      }).data
+    );
+
+    const result = await recheck(tempDir, config, initial.state);
+
+    expect(await readFile(join(tempDir, "args.log"), "utf-8")).toBe(
+      `--json --testNamePattern logs in --runTestsByPath ${testFile}\n`
+    );
+    expect(result.run?.results).toEqual([{ file: testFile, identifier: "logs in", status: "passed" }]);
+    expect((await loadTestResults(tempDir))?.results.map((r) => `${r.identifier}: ${r.status}`)).toEqual([
+      "logs out: failed",
+      "logs in: passed",
+    ]);
+  });
+
+  it("keeps checking when a requirement file is invalid", async () => {
+    const config: Config = { testRunner: "node missing.js", testGlob: "**/*.test.js" };
+    await saveConfig(tempDir, config);
+    // Valid YAML, but missing the status field
+    await writeFile(
+      join(tempDir, ".requirements", "REQ_broken.yml"),
+      "gherkin: Given x\ntests: []\n"
+    );
+
+    const result = await recheck(tempDir, config, null, { noRun: true });
+
+    expect(result.errors.length).toBe(1);
+    expect(result.state.requirements).toEqual([]);
+  });
+});
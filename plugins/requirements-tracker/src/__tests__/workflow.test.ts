@@ -0,0 +1,211 @@
+/**
+ * Tests for the configurable requirement lifecycle
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  createRequirementsDir,
+  saveConfig,
+  saveRequirement,
+  loadRequirement,
+} from "../lib/store";
+import {
+  DEFAULT_WORKFLOW,
+  getImplementedTransition,
+  getWorkflow,
+  validateWorkflow,
+} from "../lib/workflow";
+import { status } from "../commands/status";
+import { check } from "../commands/check";
+import type { Requirement, WorkflowConfig } from "../lib/types";
+
+const WORKFLOW: WorkflowConfig = {
+  initial: "draft",
+  states: [
+    { name: "draft", transitions: ["approved"] },
+    { name: "approved", transitions: ["in-progress", "deprecated"] },
+    { name: "in-progress", transitions: ["in-review"] },
+    { name: "in-review", transitions: ["in-progress", "done"] },
+    { name: "done", transitions: ["deprecated"], implemented: true },
+    { name: "deprecated", transitions: ["removed"], deprecated: true },
+    { name: "removed", deprecated: true },
+  ],
+};
+
+describe("validateWorkflow", () => {
+  it("accepts the default and a custom workflow", () => {
+    expect(validateWorkflow(DEFAULT_WORKFLOW)).toEqual([]);
+    expect(validateWorkflow(WORKFLOW)).toEqual([]);
+  });
+
+  it("reports unknown states, duplicates and a missing implemented state", () => {
+    const errors = validateWorkflow({
+      initial: "open",
+      states: [
+        { name: "draft", transitions: ["shipped"] },
+        { name: "draft" },
+      ],
+    });
+    expect(errors).toEqual([
+      'states[1]: duplicate state "draft"',
+      'state "draft": transition to unknown state "shipped"',
+      '"initial" is not a state: "open"',
+      "at least one state must be implemented: true",
+    ]);
+  });
+
+  it("throws for an invalid configured workflow", () => {
+    expect(() =>
+      getWorkflow({ testRunner: "x", testGlob: "x", workflow: { states: [] } })
+    ).toThrow("Invalid workflow in config.yml");
+  });
+
+  it("finds the implemented state reachable in one step", () => {
+    expect(getImplementedTransition(WORKFLOW, "in-review")).toBe("done");
+    expect(getImplementedTransition(WORKFLOW, "draft")).toBeUndefined();
+  });
+});
+
+describe("Workflow", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-workflow-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, {
+      testRunner: "echo test",
+      testGlob: "**/*.test.ts",
+      workflow: WORKFLOW,
+    });
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  function requirement(status: string, tests: Requirement["tests"] = []): Requirement {
+    return {
+      gherkin: "Given a user\nWhen they act\nThen result occurs",
+      mainSource: { type: "manual", description: "Test" },
+      tests,
+      status,
+    };
+  }
+
+  it("moves through allowed transitions and logs who, when and why", async () => {
+    await saveRequirement(tempDir, "REQ_a.yml", requirement("draft"));
+
+    await status({ cwd: tempDir, path: "REQ_a.yml", state: "approved", by: "alice", reason: "Reviewed" });
+    await status({ cwd: tempDir, path: "REQ_a.yml", state: "in-progress", by: "bob" });
+
+    const req = await loadRequirement(tempDir, "REQ_a.yml");
+    expect(req?.data.status).toBe("in-progress");
+    expect(req?.data.statusLog).toHaveLength(2);
+    expect(req?.data.statusLog?.[0]).toMatchObject({
+      from: "draft",
+      to: "approved",
+      by: "alice",
+      reason: "Reviewed",
+    });
+    expect(req?.data.statusLog?.[1]).toMatchObject({ from: "approved", to: "in-progress", by: "bob" });
+    expect(Number.isNaN(Date.parse(req!.data.statusLog![0].at))).toBe(false);
+
+    consoleOutput = [];
+    await status({ cwd: tempDir, path: "REQ_a.yml" });
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("REQ_a.yml: in-progress");
+    expect(output).toContain("Allowed transitions: in-review");
+    expect(output).toContain("draft -> approved  (alice) - Reviewed");
+  });
+
+  it("rejects transitions the workflow does not allow", async () => {
+    await saveRequirement(tempDir, "REQ_a.yml", requirement("draft"));
+
+    await expect(status({ cwd: tempDir, path: "REQ_a.yml", done: true })).rejects.toThrow(
+      "process.exit(1)"
+    );
+    expect(consoleOutput).toContain("Transition not allowed: draft -> done");
+    expect(consoleOutput).toContain("From draft a requirement can move to: approved");
+    expect((await loadRequirement(tempDir, "REQ_a.yml"))?.data.status).toBe("draft");
+  });
+
+  it("rejects unknown states", async () => {
+    await saveRequirement(tempDir, "REQ_a.yml", requirement("draft"));
+
+    await expect(status({ cwd: tempDir, path: "REQ_a.yml", state: "shipped" })).rejects.toThrow(
+      "process.exit(1)"
+    );
+    expect(consoleOutput.join("\n")).toContain('Unknown state "shipped"');
+  });
+
+  it("rejects requirement files with a status outside the workflow", async () => {
+    await saveRequirement(tempDir, "REQ_a.yml", requirement("planned"));
+
+    await expect(loadRequirement(tempDir, "REQ_a.yml")).rejects.toThrow(
+      'Missing or invalid "status" field. Must be one of: draft, approved'
+    );
+  });
+
+  it("breaks the check summary down by state and skips deprecated requirements", async () => {
+    await writeFile(
+      join(tempDir, "app.test.ts"),
+      `it("works", () => {});\nit("old behaviour", () => {});`
+    );
+    await saveRequirement(tempDir, "REQ_draft.yml", requirement("draft"));
+    await saveRequirement(tempDir, "REQ_review.yml", requirement("in-review"));
+    await saveRequirement(
+      tempDir,
+      "REQ_done.yml",
+      requirement("done", [{ file: "app.test.ts", identifier: "works", hash: "" }])
+    );
+    await saveRequirement(
+      tempDir,
+      "REQ_old.yml",
+      requirement("deprecated", [{ file: "app.test.ts", identifier: "old behaviour", hash: "" }])
+    );
+    await saveRequirement(tempDir, "REQ_gone.yml", requirement("removed"));
+
+    await check({ cwd: tempDir, json: true, noCache: true });
+
+    const parsed = JSON.parse(consoleOutput.join("\n"));
+    expect(parsed.summary.byState).toEqual({
+      draft: 1,
+      approved: 0,
+      "in-progress": 0,
+      "in-review": 1,
+      done: 1,
+      deprecated: 1,
+      removed: 1,
+    });
+    expect(parsed.summary.done).toBe(1);
+    expect(parsed.summary.planned).toBe(2);
+    expect(parsed.summary.deprecated).toBe(2);
+    expect(parsed.summary.untested).toBe(0);
+    expect(parsed.summary.orphanedTestCount).toBe(0);
+
+    consoleOutput = [];
+    await check({ cwd: tempDir });
+    const output = consoleOutput.join("\n");
+    expect(output).toContain("Deprecated: 2");
+    expect(output).toContain("State breakdown:");
+    expect(output).toContain("REQ_review.yml (in-review)");
+    expect(output).not.toContain("REQ_gone.yml");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for monorepo workspaces
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { mkdtemp, rm, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createRequirementsDir, saveConfig, saveRequirement } from "../lib/store";
+import {
+  findWorkspace,
+  loadWorkspace,
+  qualifyPath,
+  resolveWorkspaceArgs,
+  splitQualifiedPath,
+} from "../lib/workspace";
+import { check } from "../commands/check";
+import type { CheckResult, Requirement } from "../lib/types";
+
+describe("qualified paths", () => {
+  it("splits and qualifies requirement paths", () => {
+    expect(splitQualifiedPath("packages/api:auth/REQ_login.yml")).toEqual({
+      package: "packages/api",
+      path: "auth/REQ_login.yml",
+    });
+    expect(splitQualifiedPath("auth/REQ_login.yml")).toEqual({ path: "auth/REQ_login.yml" });
+    expect(qualifyPath("packages/api", "auth/REQ_login.yml")).toBe("packages/api:auth/REQ_login.yml");
+    expect(qualifyPath("packages/api", "packages/web:REQ_home.yml")).toBe("packages/web:REQ_home.yml");
+  });
+});
+
+describe("Workspaces", () => {
+  let tempDir: string;
+  let exitSpy: ReturnType<typeof spyOn>;
+  let consoleOutput: string[];
+
+  const requirement = (data: Partial<Requirement> = {}): Requirement => ({
+    gherkin: "Given a user\nWhen they act\nThen result occurs",
+    mainSource: { type: "manual", description: "Test" },
+    tests: [],
+    status: "planned",
+    ...data,
+  });
+
+  async function createPackage(name: string) {
+    const root = join(tempDir, name);
+    await mkdir(root, { recursive: true });
+    await createRequirementsDir(root);
+    await saveConfig(root, { testRunner: "bun test", testGlob: "**/*.test.ts" });
+    return root;
+  }
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "req-workspace-test-"));
+    consoleOutput = [];
+    spyOn(console, "log").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    spyOn(console, "error").mockImplementation((...args) => {
+      consoleOutput.push(args.join(" "));
+    });
+    exitSpy = spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    await createRequirementsDir(tempDir);
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts", workspaces: ["packages/*"] });
+
+    const api = await createPackage("packages/api");
+    await writeFile(
+      join(api, "auth.test.ts"),
+      'import { it } from "bun:test";\n\nit("logs in", () => {});\nit("logs out", () => {});\n'
+    );
+    await saveRequirement(
+      api,
+      "auth/REQ_login.yml",
+      requirement({ status: "done", tests: [{ file: "auth.test.ts", identifier: "logs in", hash: "old" }] })
+    );
+
+    const web = await createPackage("packages/web");
+    await saveRequirement(
+      web,
+      "REQ_home.yml",
+      requirement({ dependencies: [{ path: "packages/api:auth/REQ_login.yml" }, { path: "REQ_settings.yml" }] })
+    );
+    await saveRequirement(
+      web,
+      "REQ_profile.yml",
+      requirement({ dependencies: [{ path: "packages/api:auth/REQ_gone.yml" }] })
+    );
+    await saveRequirement(web, "REQ_settings.yml", requirement());
+
+    // Not a package: no .requirements/config.yml
+    await mkdir(join(tempDir, "packages/docs"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    exitSpy.mockRestore();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("loads the packages a workspace lists", async () => {
+    const workspace = await loadWorkspace(tempDir);
+    expect(workspace?.packages.map((pkg) => pkg.name)).toEqual(["packages/api", "packages/web"]);
+
+    const found = await findWorkspace(join(tempDir, "packages/web"));
+    expect(found?.package.name).toBe("packages/web");
+    expect(await findWorkspace(tempDir)).toBeNull();
+  });
+
+  it("rejects listed packages without a config", async () => {
+    await saveConfig(tempDir, { testRunner: "bun test", testGlob: "**/*.test.ts", workspaces: ["packages/docs"] });
+    await expect(loadWorkspace(tempDir)).rejects.toThrow(
+      "Workspace package packages/docs has no .requirements/config.yml"
+    );
+  });
+
+  it("aggregates check results across packages with qualified paths", async () => {
+    await check({ cwd: tempDir, json: true, noCache: true });
+    const result = JSON.parse(consoleOutput.join("\n")) as CheckResult;
+
+    expect(result.requirements.map((group) => group.path)).toEqual(["packages/api:auth/", "packages/web:"]);
+    expect(result.summary.totalRequirements).toBe(4);
+    expect(result.summary.done).toBe(1);
+    expect(result.orphanedTests.map((test) => `${test.file}:${test.identifier}`)).toEqual([
+      "packages/api/auth.test.ts:logs out",
+    ]);
+
+    // The cross-package dependency is done; the one in the same package isn't
+    expect(result.dependencyIssues).toEqual([
+      { requirement: "packages/web:REQ_home.yml", blockedBy: ["packages/web:REQ_settings.yml"] },
+      { requirement: "packages/web:REQ_profile.yml", blockedBy: ["packages/api:auth/REQ_gone.yml"] },
+    ]);
+    expect(result.missingDependencies).toEqual([
+      { requirement: "packages/web:REQ_profile.yml", dependency: "packages/api:auth/REQ_gone.yml" },
+    ]);
+  });
+
+  it("detects dependency cycles across packages", async () => {
+    await saveRequirement(
+      join(tempDir, "packages/api"),
+      "auth/REQ_login.yml",
+      requirement({ dependencies: [{ path: "packages/web:REQ_home.yml" }] })
+    );
+    await check({ cwd: tempDir, json: true, noCache: true });
+    const result = JSON.parse(consoleOutput.join("\n")) as CheckResult;
+
+    expect(result.dependencyCycles).toEqual([["packages/api:auth/REQ_login.yml", "packages/web:REQ_home.yml"]]);
+  });
+
+  it("resolves dependencies on other packages when checking one package", async () => {
+    await check({ cwd: join(tempDir, "packages/web"), json: true, noCache: true });
+    const result = JSON.parse(consoleOutput.join("\n")) as CheckResult;
+
+    expect(result.missingDependencies).toEqual([
+      { requirement: "REQ_profile.yml", dependency: "packages/api:auth/REQ_gone.yml" },
+    ]);
+    expect(result.dependencyIssues.map((issue) => issue.requirement)).toEqual(["REQ_home.yml", "REQ_profile.yml"]);
+  });
+
+  it("runs commands on qualified paths in their package", async () => {
+    expect(await resolveWorkspaceArgs(tempDir, ["packages/web:REQ_home.yml", "a.test.ts:works"])).toEqual({
+      cwd: join(tempDir, "packages/web"),
+      args: ["REQ_home.yml", "a.test.ts:works"],
+    });
+    expect(await resolveWorkspaceArgs(tempDir, ["auth/REQ_login.yml"])).toBeNull();
+    await expect(
+      resolveWorkspaceArgs(tempDir, ["packages/web:REQ_home.yml", "packages/api:auth/REQ_login.yml"])
+    ).rejects.toThrow("Arguments name different workspace packages: packages/web and packages/api");
+  });
+});
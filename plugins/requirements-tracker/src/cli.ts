@@ -4,19 +4,36 @@ import { init } from "./commands/init";
 import { add } from "./commands/add";
 import { link } from "./commands/link";
 import { unlink } from "./commands/unlink";
+import { relink } from "./commands/relink";
 import { status } from "./commands/status";
 import { check } from "./commands/check";
+import { exportMatrix } from "./commands/export";
+import { importFeatures } from "./commands/import-features";
+import { exportFeatures } from "./commands/export-features";
 import { assess } from "./commands/assess";
 import { ignoreTest } from "./commands/ignore-test";
 import { unignoreTest } from "./commands/unignore-test";
 import { move } from "./commands/move";
+import { batch } from "./commands/batch";
 import { rename } from "./commands/rename";
 import { importResults } from "./commands/import-results";
+import { importCoverage } from "./commands/import-coverage";
 import { run } from "./commands/run";
+import { watch } from "./commands/watch";
+import { tui } from "./commands/tui";
+import { history } from "./commands/history";
+import { impact } from "./commands/impact";
+import { log } from "./commands/log";
+import { query } from "./commands/query";
+import { graph } from "./commands/graph";
 import { addScenario } from "./commands/add-scenario";
 import { acceptScenario } from "./commands/accept-scenario";
 import { rejectScenario } from "./commands/reject-scenario";
+import { ask } from "./commands/ask";
+import { answer } from "./commands/answer";
+import { questions } from "./commands/questions";
 import { getCurrentVersion, selfUpdate } from "./lib/updater";
+import { resolveWorkspaceArgs } from "./lib/workspace";
 
 const HELP = `
 req - Track requirements with test coverage (v${getCurrentVersion()})
@@ -27,20 +44,36 @@ USAGE:
 COMMANDS:
   init [options]                                    Create .requirements/ folder
   add <path> --gherkin "..." --source-type <type>   Create a new requirement
-  link <path> <file:id>                             Link a test to a requirement
-  unlink <path> <file:id>                           Remove a test link
-  status <path> [--done | --planned]                Get or set implementation status
-  check [path] [--json] [--no-cache]                Check test coverage status
+  link <path>[#scenario] <file:id>                  Link a test to a requirement or scenario
+  unlink <path>[#scenario] <file:id>                Remove a test link
+  relink [--apply]                                  Fix links to renamed or moved tests
+  status <path> [state] [--reason "..."]            Get or set lifecycle status
+  check [path] [--json] [--no-cache] [--ci]         Check test coverage status (--ci: enforce policy)
+  query '<expr>' [--json]                           Find requirements, e.g. 'priority:high -has:tests'
+  graph [--format <dot|mermaid|json>]               Show dependencies, cycles and what to work on next
+  export [path] --format <html|csv|md>              Export a traceability matrix
+  import-features <glob>                            Import requirements from Cucumber .feature files
+  export-features <dir> [path]                      Export requirements as .feature files
   assess <path> --result '{}'                       Update AI assessment
   run [target]                                      Run tests (all, file, file:id, or requirement)
+  watch [path] [--no-run]                           Re-check on changes, re-running affected tests
+  history <file:id | path> [--last <n>]             Show test run history and flakiness
+  impact [--base <ref>]                             Show requirements affected by changes since a git ref
+  log <path> [--limit <n>]                          Show a requirement's change history from git
   import-results <file> [--format <type>]           Import test results (junit-xml, bun-json)
+  import-coverage <file> [--requirement <path>]     Import code coverage (lcov, istanbul-json, cobertura)
   move <source> <dest>                              Move requirement to new path
+  batch <file> [--dry-run]                          Apply a YAML/JSONL file of operations, all or nothing
   rename <path> <new-name>                          Rename a requirement file
   ignore-test <file:id> --reason "..."              Mark test as intentionally unlinked
   unignore-test <file:id>                           Remove test from ignored list
   add-scenario <path> --name "..." --gherkin "..."  Add a scenario to a requirement
   accept-scenario <path> <name>                     Accept a suggested scenario
   reject-scenario <path> <name>                     Reject a suggested scenario
+  ask <path> "..." [--owner @x] [--due <date>]      Ask a question about a requirement
+  answer <path> <n> "..."                           Answer a question (optionally as a new scenario)
+  questions [--mine|--overdue]                      List open questions by owner and due date
+  tui                                               Keyboard-driven terminal UI (tree, filter, run, link)
   ui [--port <number>]                              Start web UI for viewing requirements
   docs [--port <number>]                            Open documentation in browser
   version                                           Show version information
@@ -50,6 +83,9 @@ GLOBAL OPTIONS:
   --cwd <path>  Run in specified directory (default: current directory)
   --help, -h    Show this help message
 
+In a monorepo workspace root, "<package>:<path>" requirement arguments
+(e.g. packages/api:auth/REQ_login.yml) run the command in that package.
+
 EXAMPLES:
   req init
   req add auth/REQ_login.yml --gherkin "Given user enters credentials When they submit Then they are logged in" --source-type doc --source-desc "PRD v2.1"
@@ -58,6 +94,7 @@ EXAMPLES:
   req check
   req check auth/
   req check --json
+  req query 'status:done verification:stale'
   req assess auth/REQ_login.yml --result '{"sufficient": true, "notes": "Good coverage"}'
   req move auth/REQ_login.yml auth/session/REQ_login.yml
   req rename auth/REQ_login.yml REQ_user_login.yml
@@ -78,6 +115,12 @@ function parseArgs(args: string[]): Record<string, string | boolean | string[]>
   while (i < args.length) {
     const arg = args[i];
 
+    // End of options: the rest is positional (e.g. a query term starting with "-")
+    if (arg === "--") {
+      positional.push(...args.slice(i + 1));
+      break;
+    }
+
     if (arg.startsWith("--")) {
       const key = arg.slice(2);
       const next = args[i + 1];
@@ -97,7 +140,7 @@ function parseArgs(args: string[]): Record<string, string | boolean | string[]>
         }
         i += 2;
       }
-    } else if (arg.startsWith("-")) {
+    } else if (/^-[a-zA-Z]+$/.test(arg)) {
       const key = arg.slice(1);
       result[key] = true;
       i++;
@@ -135,6 +178,13 @@ async function main() {
   }
 
   try {
+    // In a workspace root, "<package>:<path>" arguments run the command in that package
+    const workspaceArgs = await resolveWorkspaceArgs(cwd, positional);
+    if (workspaceArgs) {
+      cwd = workspaceArgs.cwd;
+      positional.splice(0, positional.length, ...workspaceArgs.args);
+    }
+
     switch (command) {
       case "init":
         if (args.help || args.h) {
@@ -142,13 +192,24 @@ async function main() {
 req init - Create .requirements/ folder with config
 
 OPTIONS:
-  --test-runner <cmd>  Test runner command (default: bun test)
-  --test-glob <glob>   Test file glob (default: **/*.test.{ts,js})
+  --framework <name>   Test framework: bun, vitest, jest, mocha, node, playwright,
+                       pytest, go (default: bun)
+  --test-runner <cmd>  Test runner command (default: the framework's, e.g. bun test)
+  --test-glob <glob>   Test file glob (default: the framework's, e.g. **/*.test.{ts,js})
   --force              Overwrite existing config
 
+The framework decides how 'req run' filters tests and reads their results.
+Tests are extracted by file extension (.ts/.js, .py, .go), so one glob can
+cover several languages. Files in another language than the framework's run
+with pytest or go test (override with "testRunners" in config.yml).
+
 EXAMPLES:
   req init
   req init --test-runner "npm test" --test-glob "**/*.spec.ts"
+  req init --framework vitest
+  req init --framework playwright --test-glob "e2e/**/*.spec.ts"
+  req init --framework pytest
+  req init --test-glob "**/{*.test.ts,test_*.py,*_test.go}"
           `.trim());
           break;
         }
@@ -157,6 +218,7 @@ EXAMPLES:
           force: !!args.force,
           testRunner: args["test-runner"] as string | undefined,
           testGlob: args["test-glob"] as string | undefined,
+          framework: args.framework as string | undefined,
         });
         break;
 
@@ -205,17 +267,22 @@ EXAMPLES:
       case "link":
         if (args.help || args.h || positional.length < 2) {
           console.log(`
-req link - Link a test to a requirement
+req link - Link a test to a requirement or one of its scenarios
 
 USAGE:
-  req link <path> <file:identifier>
+  req link <path>[#scenario] <file:identifier>
 
 ARGUMENTS:
   <path>            Requirement path (e.g., auth/REQ_login.yml)
+  #scenario         Link to this scenario instead of the main gherkin
   <file:identifier> Test file and test name
 
+Scenario links also count as tests of the requirement; 'req check' reports
+coverage, verification and last result per scenario.
+
 EXAMPLES:
   req link auth/REQ_login.yml src/auth.test.ts:validates login
+  req link auth/REQ_login.yml#invalid_password src/auth.test.ts:rejects wrong password
   req link payments/REQ_refund.yml tests/payments.test.ts:handles refund
           `.trim());
           if (!args.help && !args.h) process.exit(1);
@@ -231,17 +298,19 @@ EXAMPLES:
       case "unlink":
         if (args.help || args.h || positional.length < 2) {
           console.log(`
-req unlink - Remove a test link from a requirement
+req unlink - Remove a test link from a requirement or one of its scenarios
 
 USAGE:
-  req unlink <path> <file:identifier>
+  req unlink <path>[#scenario] <file:identifier>
 
 ARGUMENTS:
   <path>            Requirement path (e.g., auth/REQ_login.yml)
+  #scenario         Unlink from this scenario instead of the main gherkin
   <file:identifier> Test file and test name
 
 EXAMPLES:
   req unlink auth/REQ_login.yml src/auth.test.ts:validates login
+  req unlink auth/REQ_login.yml#invalid_password src/auth.test.ts:rejects wrong password
           `.trim());
           if (!args.help && !args.h) process.exit(1);
           break;
@@ -253,25 +322,75 @@ EXAMPLES:
         });
         break;
 
+      case "relink":
+        if (args.help || args.h) {
+          console.log(`
+req relink - Fix test links broken by renamed or moved tests
+
+USAGE:
+  req relink [options]
+
+OPTIONS:
+  --apply                  Rewrite the links (default: only show the suggestions)
+  --min-confidence <level> high or medium (default: medium)
+  --json                   Output broken links and suggestions as JSON
+  --no-cache               Re-extract tests instead of using the cache
+
+A link is broken when its test no longer exists. Each broken link is matched
+to an orphaned test (one no requirement links) by:
+  - the same test body (hash), even under a new name or in another file
+  - a similar identifier (fuzzy match)
+  - the test file's rename history in git (including staged renames)
+
+Confidence is high when the body is unchanged and the file or name matches
+too. A relinked requirement keeps its AI assessment if the test body is
+unchanged; otherwise the assessment is invalidated as for a new link.
+\`req check\` lists broken links with the same suggestions.
+
+EXAMPLES:
+  req relink
+  req relink --apply
+  req relink --apply --min-confidence high
+          `.trim());
+          break;
+        }
+        await relink({
+          cwd,
+          apply: !!args.apply,
+          minConfidence: args["min-confidence"] as string | undefined,
+          json: !!args.json,
+          noCache: !!args["no-cache"],
+        });
+        break;
+
       case "status":
         if (args.help || args.h || positional.length < 1) {
           console.log(`
-req status - Get or set implementation status
+req status - Get or set the lifecycle status of a requirement
 
 USAGE:
-  req status <path> [--done | --planned]
+  req status <path> [state] [options]
 
 ARGUMENTS:
-  <path>  Requirement path (e.g., auth/REQ_login.yml)
+  <path>   Requirement path (e.g., auth/REQ_login.yml)
+  [state]  State to move to (a state of the workflow in config.yml)
 
 OPTIONS:
-  --done     Mark requirement as implemented
-  --planned  Mark requirement as not yet implemented (default)
+  --done             Shortcut for the "done" state
+  --planned          Shortcut for the "planned" state
+  --reason "..."     Why the status changes (kept in the status log)
+  --by "..."         Who changes it (default: git user.name)
+
+Transitions are checked against the workflow in config.yml (default:
+planned <-> done). Every change is appended to the requirement's statusLog.
+Without a state, shows the current status, allowed transitions and log.
 
 EXAMPLES:
-  req status auth/REQ_login.yml              # Show current status
+  req status auth/REQ_login.yml              # Show status and log
   req status auth/REQ_login.yml --done       # Mark as implemented
   req status auth/REQ_login.yml --planned    # Mark as not implemented
+  req status auth/REQ_login.yml in-review --reason "PR #42 opened"
+  req status auth/REQ_login.yml deprecated --reason "Replaced by SSO"
           `.trim());
           if (!args.help && !args.h) process.exit(1);
           break;
@@ -279,8 +398,11 @@ EXAMPLES:
         await status({
           cwd,
           path: positional[0],
+          state: positional[1],
           done: !!args.done,
           planned: !!args.planned,
+          reason: args.reason as string | undefined,
+          by: args.by as string | undefined,
         });
         break;
 
@@ -296,8 +418,12 @@ ARGUMENTS:
   [path]  Optional path filter (e.g., "auth/" or "auth/REQ_login.yml")
 
 OPTIONS:
-  --json      Output as JSON
-  --no-cache  Skip cache (future: force re-extraction)
+  --json             Output as JSON
+  --no-cache         Skip cache (future: force re-extraction)
+  --ci               Enforce the config.yml policy; exit 1 on violations
+  --report <format>  With --ci: also emit a junit or sarif report
+  --output <file>    Write the report to a file instead of stdout (required
+                     with --json)
 
 Checks requirement files and reports:
 - Untested requirements (no tests linked)
@@ -305,11 +431,26 @@ Checks requirement files and reports:
 - Stale requirements (tests changed since assessment)
 - Verified requirements (AI assessed, tests unchanged)
 - Orphaned tests (not linked to any requirement, excluding ignored)
+- Requirements covered only by flaky tests (see 'req history')
+- Requirements whose tests never execute their implementation files
+  (see 'req import-coverage')
+- Scenarios without linked tests (when tests are linked per scenario)
+
+With --ci, checks the rules of the "policy" section in config.yml instead
+and prints each violated rule. Without a policy section the default applies:
+critical/high requirements tested, no stale verification, no orphaned tests,
+no failing linked tests, no blocking dependency issues.
+
+In a workspace root (config.yml "workspaces"), every package is checked with
+its own config and tests, and requirements are named "<package>:<path>".
 
 EXAMPLES:
   req check              # Check all requirements
   req check auth/        # Check only auth/ folder
+  req check packages/api:auth/  # In a workspace root: one package's auth/ folder
   req check --json       # Output as JSON
+  req check --ci --report junit --output req-policy.xml
+  req check --ci --report sarif > req.sarif
           `.trim());
           break;
         }
@@ -318,9 +459,202 @@ EXAMPLES:
           path: positional[0],
           json: !!args.json,
           noCache: !!args["no-cache"],
+          ci: !!args.ci,
+          report: args.report as string | undefined,
+          output: args.output as string | undefined,
         });
         break;
 
+      case "query":
+        if (args.help || args.h || positional.length < 1) {
+          console.log(`
+req query - Find requirements matching a query expression
+
+USAGE:
+  req query '<expr>' [options]
+  req query [options] -- '<expr>'
+
+ARGUMENTS:
+  <expr>  Query expression (quote it, so the shell passes it as one argument).
+          Put \`--\` before an expression that starts with a negated bare
+          word (e.g. -- '-draft'), so it isn't read as an option
+
+OPTIONS:
+  --json  Output as JSON
+
+Terms are separated by spaces and must all match. \`key:a,b\` matches either
+value, a leading \`-\` negates a term, and a bare word or "quoted phrase" searches
+the text (path, gherkin, scenarios, source, NFRs and questions).
+
+FIELDS:
+  path:<pattern>          Path contains the text (\`*\` is a wildcard: auth/*)
+  status:<state>          Lifecycle state, e.g. planned, done
+  priority:<level>        critical, high, medium, low or none
+  verification:<status>   verified, unverified, stale or n/a
+  source.type:<type>      doc, slack, email, meeting, ticket or manual
+  nfr.category:<cat>      Has an NFR of the category, e.g. security
+  has:<what>              tests, scenarios, suggestedScenarios, questions,
+                          unansweredQuestions, nfrs, unverifiedNfrs,
+                          dependencies, assessment, implementation
+  scenario:<name>         Has a scenario whose name contains the text
+  test:<file:id>          Has a linked test containing the text
+  depends:<pattern>       Depends on a requirement matching the path pattern
+  text:<text>             Text search (same as a bare word)
+
+The UI search bar takes the same expressions.
+
+EXAMPLES:
+  req query 'priority:critical status:planned'
+  req query 'verification:stale,unverified -priority:low'
+  req query '-priority:low has:tests'
+  req query -- '-draft status:planned'
+  req query 'source.type:slack has:unansweredQuestions'
+  req query 'nfr.category:security text:"password"' --json
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await query({
+          cwd,
+          expr: positional.join(" "),
+          json: !!args.json,
+        });
+        break;
+
+      case "graph":
+        if (args.help || args.h) {
+          console.log(`
+req graph - Show the requirement dependency graph
+
+USAGE:
+  req graph [options]
+
+OPTIONS:
+  --format <format>  Output the graph as dot (Graphviz), mermaid or json
+
+Without --format, prints a summary:
+- Dependency cycles (blocking dependencies only) and dependencies on
+  requirements that don't exist - 'req check' reports these too
+- Next workable: unfinished requirements whose blocking dependencies are all
+  done, by priority
+- The critical path: the longest chain of unfinished requirements
+- The work order of all unfinished requirements, and those that can never
+  start (cycle, or a missing or deprecated blocking dependency)
+
+Edges point from a requirement to the ones it depends on. Soft dependencies
+(blocking: false) are dashed, cycle and missing edges red.
+
+EXAMPLES:
+  req graph
+  req graph --format dot | dot -Tsvg > deps.svg
+  req graph --format mermaid > deps.mmd
+          `.trim());
+          break;
+        }
+        await graph({
+          cwd,
+          format: args.format as string | undefined,
+        });
+        break;
+
+      case "export":
+        if (args.help || args.h) {
+          console.log(`
+req export - Export a traceability matrix
+
+USAGE:
+  req export [path] [options]
+
+ARGUMENTS:
+  [path]  Optional path filter (e.g., "auth/")
+
+OPTIONS:
+  --format <type>  html, csv or md (default: md)
+  --output <file>  Write to a file instead of stdout
+
+Maps every requirement to its sources, scenarios, linked tests, their last
+result, and the AI verification state with one column per criterion. Rows are
+grouped by folder. The output has no timestamps of its own and a stable order,
+so it can be committed and diffed. CSV output opens directly in Excel.
+
+EXAMPLES:
+  req export --format md --output TRACEABILITY.md
+  req export --format html --output traceability.html
+  req export auth/ --format csv > auth.csv
+          `.trim());
+          break;
+        }
+        await exportMatrix({
+          cwd,
+          path: positional[0],
+          format: args.format as string | undefined,
+          output: args.output as string | undefined,
+        });
+        break;
+
+      case "import-features":
+        if (args.help || args.h || positional.length < 1) {
+          console.log(`
+req import-features - Import requirements from Cucumber .feature files
+
+USAGE:
+  req import-features <glob>
+
+ARGUMENTS:
+  <glob>  Feature files to import (quote it so the shell doesn't expand it)
+
+Maps each file to requirements:
+- Feature: <name>        -> folder (e.g. "User login" -> user_login/)
+- Scenario: <name>       -> REQ_<name>.yml
+- Rule: <name>           -> REQ_<name>.yml; the first scenario is the main
+                            gherkin, the others become its scenarios
+- Scenario Outline       -> gherkin with <placeholders> and examples tables
+- Background             -> prepended to every scenario
+- @critical/@high/...    -> priority
+- @performance/@security/... -> NFR categories
+- @done/@planned         -> status (new requirements default to planned)
+- @suggested             -> suggested scenario (inside a Rule)
+
+Existing requirements keep their tests, sources and assessments; their
+gherkin is replaced and their scenarios are updated by name. Nothing is
+written if any file fails to parse.
+
+EXAMPLES:
+  req import-features "features/**/*.feature"
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await importFeatures({ cwd, pattern: positional[0] });
+        break;
+
+      case "export-features":
+        if (args.help || args.h || positional.length < 1) {
+          console.log(`
+req export-features - Export requirements as Cucumber .feature files
+
+USAGE:
+  req export-features <dir> [path]
+
+ARGUMENTS:
+  <dir>   Output directory
+  [path]  Optional path filter (e.g., "auth/")
+
+Writes one feature file per folder (auth/ -> <dir>/auth.feature, root-level
+requirements -> <dir>/requirements.feature). Requirements with additional
+scenarios become a Rule. Priority, status and NFR categories become tags, so
+the files can be edited and imported again with 'req import-features'.
+
+EXAMPLES:
+  req export-features features/
+  req export-features features/ auth/
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await exportFeatures({ cwd, dir: positional[0], path: positional[1] });
+        break;
+
       case "assess":
         if (args.help || args.h || positional.length < 1 || !args.result) {
           console.log(`
@@ -389,6 +723,9 @@ TARGETS:
   <requirement.yml>     Run all tests linked to requirement
 
 Runs tests using the configured test runner and stores results.
+The "framework" key in .requirements/config.yml (bun, vitest, jest, mocha,
+node, playwright, pytest, go) selects the file/name filter and result reporter
+flags. Python and Go test files always run with pytest and go test.
 Results are automatically saved and visible in the UI.
 
 EXAMPLES:
@@ -405,6 +742,147 @@ EXAMPLES:
         });
         break;
 
+      case "watch":
+        if (args.help || args.h) {
+          console.log(`
+req watch - Re-check requirements whenever tests or requirements change
+
+USAGE:
+  req watch [path] [options]
+
+ARGUMENTS:
+  [path]  Only report requirements under this path prefix
+
+OPTIONS:
+  --no-run  Don't re-run affected tests, only re-check hashes and links
+
+Watches files matching testGlob and the .requirements/ folder. On each change,
+only the changed test files are re-extracted (through the cache), linked tests
+whose body changed are re-run, and the requirements that became (or stopped
+being) stale, failing, orphaned or blocked are printed.
+
+Unlike 'req check', watch never modifies requirement files.
+
+EXAMPLES:
+  req watch
+  req watch auth/
+  req watch --no-run
+          `.trim());
+          break;
+        }
+        await watch({
+          cwd,
+          path: positional[0],
+          noRun: !!args["no-run"],
+        });
+        break;
+
+      case "history":
+        if (args.help || args.h || positional.length < 1) {
+          console.log(`
+req history - Show the run history and flakiness of tests
+
+USAGE:
+  req history <target> [options]
+
+TARGETS:
+  <file:identifier>     A single test
+  <requirement.yml>     All tests linked to the requirement
+
+OPTIONS:
+  --last <n>  Number of recent runs to show (default: 10)
+  --json      Output as JSON
+
+Every 'req run' and 'req import-results' appends its results, with the current
+commit SHA, to .requirements/test-history.jsonl. A test is flaky when its
+outcome flipped between pass and fail at least twice, in at least 30% of its
+recent runs. 'req check' flags requirements covered only by flaky tests.
+
+EXAMPLES:
+  req history src/auth.test.ts:validates login
+  req history auth/REQ_login.yml --last 20
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await history({
+          cwd,
+          target: positional[0],
+          last: args.last ? parseInt(args.last as string, 10) : undefined,
+          json: !!args.json,
+        });
+        break;
+
+      case "impact":
+        if (args.help || args.h) {
+          console.log(`
+req impact - Show which requirements the changes since a git ref affect
+
+USAGE:
+  req impact [options]
+
+OPTIONS:
+  --base <ref>  Git ref to diff the working tree against (default: HEAD)
+  --json        Output as JSON
+
+Diffs the working tree (including untracked files) against the ref. Tests in
+changed test files are compared by hash with their version at the ref, so only
+tests whose body changed count. Lists:
+- Requirements whose linked tests were added, modified or removed
+- Requirements whose file changed (gherkin changes are called out)
+- Requirements whose verification will go stale (assessed tests changed)
+- The 'req run' targets that cover the affected tests
+
+EXAMPLES:
+  req impact                      # Uncommitted changes
+  req impact --base origin/main   # Everything on this branch
+          `.trim());
+          break;
+        }
+        await impact({
+          cwd,
+          base: args.base as string | undefined,
+          json: !!args.json,
+        });
+        break;
+
+      case "log":
+        if (args.help || args.h || positional.length < 1) {
+          console.log(`
+req log - Show the change history of a requirement from git
+
+USAGE:
+  req log <path> [options]
+
+ARGUMENTS:
+  <path>  Requirement path (e.g., "auth/REQ_login.yml")
+
+OPTIONS:
+  --limit <n>  Number of most recent entries to show
+  --json       Output as JSON
+
+Lists the commits that changed the requirement file (following renames),
+newest first, with their author and date. Each commit is described by what it
+changed - gherkin, scenarios, status, priority, test links, dependencies,
+questions and assessments - e.g. "scenario \`rate_limited\` added" or
+"test src/auth.test.ts:logs in unlinked". Uncommitted changes come first.
+Commits that only refreshed test hashes are left out.
+
+EXAMPLES:
+  req log auth/REQ_login.yml
+  req log auth/REQ_login.yml --limit 5 --json
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await log({
+          cwd,
+          path: positional[0],
+          limit: args.limit ? parseInt(args.limit as string, 10) : undefined,
+          json: !!args.json,
+        });
+        break;
+
       case "import-results":
         if (args.help || args.h || positional.length < 1) {
           console.log(`
@@ -437,6 +915,52 @@ EXAMPLES:
         });
         break;
 
+      case "import-coverage":
+        if (args.help || args.h || positional.length < 1) {
+          console.log(`
+req import-coverage - Import code coverage from a report
+
+USAGE:
+  req import-coverage <file> [options]
+
+ARGUMENTS:
+  <file>  Path to a coverage report (LCOV, Istanbul JSON or Cobertura XML)
+
+OPTIONS:
+  --format <type>        Force format: lcov, istanbul-json or cobertura
+                         (auto-detects if omitted)
+  --requirement <path>   The report covers only this requirement's tests
+
+Maps each linked test (when the report has per-test coverage, e.g. LCOV
+TN: records) or each requirement's test set to the source files and lines it
+executes. Coverage is stored in .requirements/coverage.json.
+
+Requirements can declare the files that implement them:
+
+  implementation:
+    - src/auth/login.ts
+    - src/auth/session/**/*.ts
+
+'req check' then warns when a done requirement's tests never execute any of
+its implementation files.
+
+EXAMPLES:
+  req import-coverage coverage/lcov.info
+  req import-coverage coverage/coverage-final.json
+  req import-coverage coverage.xml --format cobertura
+  req run auth/REQ_login.yml && req import-coverage coverage/lcov.info --requirement auth/REQ_login.yml
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await importCoverage({
+          cwd,
+          file: positional[0],
+          format: args.format as string | undefined,
+          requirement: args.requirement as string | undefined,
+        });
+        break;
+
       case "ignore-test":
         if (args.help || args.h || positional.length < 1 || !args.reason) {
           console.log(`
@@ -599,6 +1123,115 @@ EXAMPLES:
         }
         break;
 
+      case "ask":
+        if (args.help || args.h || positional.length < 2) {
+          console.log(`
+req ask - Ask a clarification question about a requirement
+
+USAGE:
+  req ask <path> "<question>" [options]
+
+ARGUMENTS:
+  <path>        Requirement path (e.g., auth/REQ_login.yml)
+  <question>    The question text
+
+OPTIONS:
+  --owner <name>  Who should answer it (e.g., @alice)
+  --due <date>    Date the answer is needed by (YYYY-MM-DD)
+
+Unanswered questions past their due date are reported as overdue by
+'req check' and 'req questions --overdue'.
+
+EXAMPLES:
+  req ask auth/REQ_login.yml "How long is the lockout?"
+  req ask auth/REQ_login.yml "Who can unlock an account?" --owner @alice --due 2026-03-01
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await ask({
+          cwd,
+          path: positional[0],
+          question: positional[1],
+          owner: args.owner as string | undefined,
+          due: args.due as string | undefined,
+        });
+        break;
+
+      case "answer":
+        if (args.help || args.h || positional.length < 3) {
+          console.log(`
+req answer - Answer a clarification question
+
+USAGE:
+  req answer <path> <n> "<answer>" [options]
+
+ARGUMENTS:
+  <path>      Requirement path (e.g., auth/REQ_login.yml)
+  <n>         Question number, as 'req questions' lists it (1 = first)
+  <answer>    The answer text (replaces an earlier answer)
+
+OPTIONS:
+  --scenario <name>  Also add a scenario that captures the answer
+  --gherkin "..."    Given/When/Then text of that scenario
+
+EXAMPLES:
+  req answer auth/REQ_login.yml 1 "15 minutes"
+  req answer auth/REQ_login.yml 2 "Admins only" --scenario "admin_unlock" --gherkin "Given a locked account When an admin unlocks it Then the user can log in"
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await answer({
+          cwd,
+          path: positional[0],
+          number: positional[1],
+          answer: positional[2],
+          scenario: args.scenario as string | undefined,
+          gherkin: args.gherkin as string | undefined,
+        });
+        break;
+
+      case "questions":
+        if (args.help || args.h) {
+          console.log(`
+req questions - List clarification questions
+
+USAGE:
+  req questions [path] [options]
+
+ARGUMENTS:
+  [path]  Optional path filter (e.g., "auth/" or "auth/REQ_login.yml")
+
+OPTIONS:
+  --mine          Only questions you own (git user.name or OS user)
+  --owner <name>  Only questions owned by someone else
+  --overdue       Only unanswered questions past their due date
+  --all           Include answered questions
+  --json          Output as JSON
+
+Lists unanswered questions by requirement, with their number for
+'req answer', owner and due date. Owners match loosely: "@jane.doe",
+"jane.doe" and "Jane Doe" are the same person.
+
+EXAMPLES:
+  req questions
+  req questions --mine
+  req questions auth/ --overdue
+          `.trim());
+          break;
+        }
+        await questions({
+          cwd,
+          path: positional[0],
+          mine: !!args.mine,
+          owner: args.owner as string | undefined,
+          overdue: !!args.overdue,
+          all: !!args.all,
+          json: !!args.json,
+        });
+        break;
+
       case "move":
         if (args.help || args.h || positional.length < 2) {
           console.log(`
@@ -629,6 +1262,64 @@ EXAMPLES:
         });
         break;
 
+      case "batch":
+        if (args.help || args.h || positional.length < 1) {
+          console.log(`
+req batch - Apply many operations to many requirements, all or nothing
+
+USAGE:
+  req batch <file> [options]
+
+ARGUMENTS:
+  <file>  YAML list of operations, or JSON lines (.jsonl) with one operation per line
+
+OPTIONS:
+  --dry-run          Show the changes as a diff without writing anything
+  --format <type>    yaml or jsonl (default: from the file extension)
+
+OPERATIONS (each has "op" and "target"):
+  status        state, reason?           Move to a workflow state
+  priority      priority                 critical, high, medium, low or none
+  link          test                     Link "file:identifier" (target may end in #scenario)
+  unlink        test                     Remove a test link (target may end in #scenario)
+  move          to                       New path, or a folder ending in "/"
+  assess        result                   Assessment object, as for \`req assess --result\`
+  add-scenario  name, gherkin, suggested?, source?
+
+The target is a requirement path or a glob over paths in .requirements/
+(e.g. "payments/**"); a target that matches nothing is an error. Operations
+run in order, so later ones see the results of earlier ones. Every changed
+requirement is validated before anything is written - if one operation fails,
+no file is changed.
+
+EXAMPLE FILE (YAML):
+  - op: priority
+    target: payments/**
+    priority: high
+  - op: status
+    target: payments/REQ_refund.yml
+    state: done
+    reason: Shipped in 2.4
+  - op: move
+    target: legacy/*
+    to: archive/
+
+EXAMPLES:
+  req batch restructure.yml --dry-run
+  req batch restructure.yml
+  req batch ops.jsonl
+          `.trim());
+          if (!args.help && !args.h) process.exit(1);
+          break;
+        }
+        await batch({
+          cwd,
+          file: positional[0],
+          format: args.format as string | undefined,
+          dryRun: !!args["dry-run"],
+        });
+        break;
+
       case "rename":
         if (args.help || args.h || positional.length < 2) {
           console.log(`
@@ -659,6 +1350,51 @@ EXAMPLES:
         });
         break;
 
+      case "tui":
+        if (args.help || args.h) {
+          console.log(`
+req tui - Keyboard-driven terminal UI
+
+USAGE:
+  req tui [options]
+
+OPTIONS:
+  --no-cache  Re-extract all tests instead of using the cache
+
+Shows the same data as 'req check': a tree of folders, requirements,
+scenarios and linked tests on the left, details of the selected row on the
+right. Needs an interactive terminal.
+
+KEYS:
+  up/down, j/k     Move (pgup/pgdn, g/G: page, top, bottom)
+  enter, right/l   Expand a requirement or scenario
+  left/h           Collapse, or go to the parent
+  /                Filter with the query language (see 'req query --help')
+  r                Run the tests under the cursor
+  n                Link an orphaned test (type to narrow the picker)
+  u                Unlink a test
+  s                Change status (only allowed transitions are offered)
+  p                Change priority
+  a                Ask or answer questions (an empty answer reopens one)
+  R                Reload
+  ?                Show all keys
+  q, ctrl-c        Quit
+
+Changes are applied like 'req batch' operations: validated first, then
+written.
+
+EXAMPLES:
+  req tui
+  req tui --no-cache
+          `.trim());
+          break;
+        }
+        await tui({
+          cwd,
+          noCache: !!args["no-cache"],
+        });
+        break;
+
       case "ui":
         if (args.help || args.h) {
           console.log(`
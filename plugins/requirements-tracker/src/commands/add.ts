@@ -9,6 +9,7 @@ import {
   isValidRequirementPath,
 } from "../lib/store";
 import { parseAndFormat } from "../lib/gherkin";
+import { getInitialState, getWorkflow } from "../lib/workflow";
 import type { Requirement, SourceType, Priority } from "../lib/types";
 
 const VALID_SOURCE_TYPES: SourceType[] = [
@@ -113,7 +114,7 @@ export async function add(args: AddArgs): Promise<void> {
       date: sourceDate,
     },
     tests: [],
-    status: "planned",
+    status: getInitialState(getWorkflow(config)),
   };
 
   // Add optional fields if provided
@@ -0,0 +1,65 @@
+/**
+ * Answer a clarification question, optionally adding a scenario from the answer
+ */
+
+import { loadConfig, loadRequirement, saveRequirement } from "../lib/store";
+import { getWorkflow } from "../lib/workflow";
+import { answerQuestion } from "../lib/questions";
+
+export async function answer(args: {
+  cwd: string;
+  path: string; // e.g., "auth/REQ_login.yml"
+  number: string; // 1-based question number, as listed by `req questions`
+  answer: string;
+  scenario?: string; // Name of a scenario to add from the answer
+  gherkin?: string; // Its Given/When/Then text
+}): Promise<void> {
+  const { cwd, path, scenario, gherkin } = args;
+
+  const number = Number(args.number);
+  if (!Number.isInteger(number) || number < 1) {
+    console.error(`Invalid question number: ${args.number}. Use the number 'req questions' shows.`);
+    process.exit(1);
+  }
+  if (!!scenario !== !!gherkin) {
+    console.error("--scenario and --gherkin must be given together.");
+    process.exit(1);
+  }
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  // Load requirement
+  const requirement = await loadRequirement(cwd, path, getWorkflow(config));
+  if (!requirement) {
+    console.error(`Requirement not found: ${path}`);
+    process.exit(1);
+  }
+
+  const previous = requirement.data.questions?.[number - 1]?.answer;
+  let answered;
+  try {
+    answered = answerQuestion(
+      requirement.data,
+      number,
+      args.answer,
+      scenario && gherkin ? { name: scenario, gherkin } : undefined
+    );
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  await saveRequirement(cwd, path, requirement.data);
+
+  console.log(`${previous ? "Updated the answer to" : "Answered"} question #${number} on ${path}`);
+  console.log(`  Q: ${answered.question}`);
+  console.log(`  A: ${answered.answer}`);
+  if (scenario) {
+    console.log(`\nAdded scenario: ${answered.scenario}`);
+    console.log(`  Link tests to it with: req link ${path}#${answered.scenario} <file:id>`);
+  }
+}
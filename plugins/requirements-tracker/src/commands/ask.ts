@@ -0,0 +1,46 @@
+/**
+ * Ask a clarification question about a requirement
+ */
+
+import { loadConfig, loadRequirement, saveRequirement } from "../lib/store";
+import { getWorkflow } from "../lib/workflow";
+import { addQuestion, describeQuestion } from "../lib/questions";
+
+export async function ask(args: {
+  cwd: string;
+  path: string; // e.g., "auth/REQ_login.yml"
+  question: string;
+  owner?: string; // Who should answer it, e.g. "@alice"
+  due?: string; // YYYY-MM-DD
+}): Promise<void> {
+  const { cwd, path, question, owner, due } = args;
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  // Load requirement
+  const requirement = await loadRequirement(cwd, path, getWorkflow(config));
+  if (!requirement) {
+    console.error(`Requirement not found: ${path}`);
+    process.exit(1);
+  }
+
+  let added;
+  try {
+    added = addQuestion(requirement.data, { question, owner, due });
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  await saveRequirement(cwd, path, requirement.data);
+
+  const number = requirement.data.questions!.length;
+  const details = describeQuestion(added);
+  console.log(`Asked question #${number} on ${path}${details ? ` (${details})` : ""}`);
+  console.log(`  ${added.question}`);
+  console.log(`\nAnswer it with: req answer ${path} ${number} "..."`);
+}
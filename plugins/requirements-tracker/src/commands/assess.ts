@@ -8,60 +8,10 @@ import {
   saveRequirement,
 } from "../lib/store";
 import { getTestsWithCache } from "../lib/cache";
-import { parseGherkin, validateGherkinStructure } from "../lib/gherkin";
-import type {
-  AIAssessment,
-  TestComment,
-  SuggestedTest,
-  SuggestedScenario,
-  VerificationCriteria,
-  CriterionAssessment,
-  CriterionResult,
-} from "../lib/types";
+import { computeSufficient, parseAssessResult, type AssessResult } from "../lib/assessment";
+import type { AIAssessment } from "../lib/types";
 import { CRITERIA_KEYS, CRITERIA_LABELS } from "../lib/types";
 
-interface AssessResult {
-  criteria: VerificationCriteria;
-  notes: string;
-  testComments?: TestComment[];
-  suggestedTests?: SuggestedTest[];
-  suggestedScenarios?: SuggestedScenario[];
-}
-
-// Helper to validate a single criterion
-function validateCriterion(
-  value: unknown,
-  name: string
-): CriterionAssessment {
-  if (!value || typeof value !== "object") {
-    throw new Error(`${name} must be an object with result and optional note`);
-  }
-  const obj = value as Record<string, unknown>;
-
-  if (!["pass", "fail", "na"].includes(obj.result as string)) {
-    throw new Error(`${name}.result must be "pass", "fail", or "na"`);
-  }
-
-  if (obj.note !== undefined && typeof obj.note !== "string") {
-    throw new Error(`${name}.note must be a string if provided`);
-  }
-
-  return {
-    result: obj.result as CriterionResult,
-    note: obj.note as string | undefined,
-  };
-}
-
-// Helper to compute 'sufficient' from criteria
-function computeSufficient(criteria: VerificationCriteria): boolean {
-  for (const key of CRITERIA_KEYS) {
-    if (criteria[key].result === "fail") {
-      return false;
-    }
-  }
-  return true; // All pass or na
-}
-
 export async function assess(args: {
   cwd: string;
   path: string; // e.g., "auth/REQ_login.yml"
@@ -71,94 +21,8 @@ export async function assess(args: {
 
   // Parse result
   let assessResult: AssessResult;
-  let validatedCriteria: VerificationCriteria;
   try {
-    const parsed = JSON.parse(resultJson);
-
-    // Validate notes
-    if (typeof parsed.notes !== "string") {
-      throw new Error("notes must be a string");
-    }
-
-    // Validate criteria object
-    if (!parsed.criteria || typeof parsed.criteria !== "object") {
-      throw new Error("criteria object is required");
-    }
-
-    // Validate each criterion
-    validatedCriteria = {} as VerificationCriteria;
-    for (const key of CRITERIA_KEYS) {
-      if (!(key in parsed.criteria)) {
-        throw new Error(`criteria.${key} is required`);
-      }
-      validatedCriteria[key] = validateCriterion(
-        parsed.criteria[key],
-        `criteria.${key}`
-      );
-    }
-
-    // Validate optional testComments
-    if (parsed.testComments !== undefined) {
-      if (!Array.isArray(parsed.testComments)) {
-        throw new Error("testComments must be an array");
-      }
-      for (const tc of parsed.testComments) {
-        if (typeof tc.file !== "string" || typeof tc.identifier !== "string" || typeof tc.comment !== "string") {
-          throw new Error("testComments entries must have file, identifier, and comment strings");
-        }
-        if (typeof tc.hasIssue !== "boolean") {
-          throw new Error("testComments entries must have hasIssue boolean");
-        }
-      }
-    }
-
-    // Validate optional suggestedTests
-    if (parsed.suggestedTests !== undefined) {
-      if (!Array.isArray(parsed.suggestedTests)) {
-        throw new Error("suggestedTests must be an array");
-      }
-      for (const st of parsed.suggestedTests) {
-        if (typeof st.description !== "string" || typeof st.rationale !== "string") {
-          throw new Error("suggestedTests entries must have description and rationale strings");
-        }
-      }
-    }
-
-    // Validate optional suggestedScenarios
-    if (parsed.suggestedScenarios !== undefined) {
-      if (!Array.isArray(parsed.suggestedScenarios)) {
-        throw new Error("suggestedScenarios must be an array");
-      }
-      for (let i = 0; i < parsed.suggestedScenarios.length; i++) {
-        const ss = parsed.suggestedScenarios[i];
-        if (
-          typeof ss.name !== "string" ||
-          typeof ss.gherkin !== "string" ||
-          typeof ss.rationale !== "string"
-        ) {
-          throw new Error(
-            "suggestedScenarios entries must have name, gherkin, and rationale strings"
-          );
-        }
-        // Validate gherkin structure
-        const parseResult = parseGherkin(ss.gherkin);
-        if (!parseResult.success) {
-          throw new Error(`suggestedScenarios[${i}].gherkin is invalid: ${parseResult.error}`);
-        }
-        const structureResult = validateGherkinStructure(parseResult.steps);
-        if (!structureResult.valid) {
-          throw new Error(`suggestedScenarios[${i}].gherkin structure is invalid: ${structureResult.errors.join(", ")}`);
-        }
-      }
-    }
-
-    assessResult = {
-      criteria: validatedCriteria,
-      notes: parsed.notes,
-      testComments: parsed.testComments,
-      suggestedTests: parsed.suggestedTests,
-      suggestedScenarios: parsed.suggestedScenarios,
-    };
+    assessResult = parseAssessResult(JSON.parse(resultJson));
   } catch (error) {
     console.error("Invalid --result format.");
     console.error('Expected: --result \'{"criteria": {...}, "notes": "...", "testComments": [...], "suggestedTests": [...]}\'');
@@ -187,11 +51,16 @@ export async function assess(args: {
 
   // Update test hashes to current values
   // This ensures the assessment is tied to the actual test code that was evaluated
-  if (requirement.data.tests.length > 0) {
+  // (scenario-level links included)
+  const links = [
+    ...requirement.data.tests,
+    ...(requirement.data.scenarios ?? []).flatMap((s) => s.tests ?? []),
+  ];
+  if (links.length > 0) {
     const { tests: allTests } = await getTestsWithCache(cwd, config.testGlob, true);
     const hashMap = new Map(allTests.map((t) => [`${t.file}:${t.identifier}`, t.hash]));
 
-    for (const test of requirement.data.tests) {
+    for (const test of links) {
       const key = `${test.file}:${test.identifier}`;
       const currentHash = hashMap.get(key);
       if (currentHash) {
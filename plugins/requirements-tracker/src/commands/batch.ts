@@ -0,0 +1,116 @@
+/**
+ * Apply a file of operations to many requirements at once - all or nothing
+ */
+
+import { readFile } from "fs/promises";
+import { isAbsolute, join } from "path";
+import { loadConfig, loadAllRequirements, getRequirementsDir } from "../lib/store";
+import { getCurrentUser, getWorkflow } from "../lib/workflow";
+import { diffRequirement } from "../lib/requirement-log";
+import {
+  BATCH_FORMATS,
+  commitBatch,
+  detectBatchFormat,
+  diffLines,
+  parseBatchOperations,
+  planBatch,
+  stageBatch,
+  type BatchFormat,
+  type BatchOperation,
+} from "../lib/batch";
+
+export async function batch(args: {
+  cwd: string;
+  file: string; // YAML list or JSON lines of operations
+  format?: string; // yaml or jsonl (default: from the file extension)
+  dryRun?: boolean; // Show the diff without writing anything
+}): Promise<void> {
+  const { cwd, file, dryRun } = args;
+
+  if (args.format && !BATCH_FORMATS.includes(args.format as BatchFormat)) {
+    console.error(`Unknown format "${args.format}". Use one of: ${BATCH_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+  const format = (args.format as BatchFormat | undefined) ?? detectBatchFormat(file);
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+  const workflow = getWorkflow(config);
+
+  // Read and parse operations
+  let operations: BatchOperation[];
+  try {
+    const content = await readFile(isAbsolute(file) ? file : join(cwd, file), "utf-8");
+    operations = parseBatchOperations(content, format);
+  } catch (error) {
+    console.error(`Invalid batch file ${file}: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  if (operations.length === 0) {
+    console.log("No operations in batch file.");
+    return;
+  }
+
+  const loadResult = await loadAllRequirements(cwd);
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  // Apply everything in memory, then validate the results
+  const plan = await planBatch({
+    cwd,
+    config,
+    workflow,
+    requirements: loadResult.requirements,
+    operations,
+    by: await getCurrentUser(cwd),
+  });
+  const staged = plan.errors.length === 0 ? await stageBatch(config, workflow, plan.changes) : undefined;
+  const errors = [...plan.errors, ...(staged?.errors ?? [])];
+  if (errors.length > 0) {
+    console.error(`Batch failed - no requirements were changed (${errors.length} error(s)):`);
+    for (const error of errors) {
+      console.error(`  - ${error}`);
+    }
+    process.exit(1);
+  }
+
+  if (plan.changes.length === 0) {
+    console.log(`No changes: all ${plan.operations} operation(s) already applied.`);
+    return;
+  }
+
+  const reqDir = getRequirementsDir(cwd);
+  for (const change of plan.changes) {
+    const header = change.from ? `${change.from} -> ${change.path}` : change.path;
+    console.log(`\n${header}`);
+    for (const description of diffRequirement(change.before, change.after)) {
+      console.log(`  * ${description}`);
+    }
+    if (dryRun) {
+      const before = await readFile(join(reqDir, change.from ?? change.path), "utf-8");
+      for (const line of diffLines(before, staged!.files.get(change.path)!)) {
+        console.log(`    ${line}`);
+      }
+    }
+  }
+  console.log();
+
+  if (dryRun) {
+    console.log(
+      `Dry run: ${plan.operations} operation(s) would change ${plan.changes.length} requirement(s). Nothing was written.`
+    );
+    return;
+  }
+
+  await commitBatch(cwd, plan.changes);
+  console.log(`Applied ${plan.operations} operation(s) to ${plan.changes.length} requirement(s).`);
+}
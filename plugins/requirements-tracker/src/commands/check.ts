@@ -2,366 +2,184 @@
  * Check test coverage and verification status
  */
 
+import { writeFile } from "fs/promises";
+import { resolve } from "path";
 import {
   loadConfig,
   loadAllRequirements,
   loadRequirementsInPath,
   loadIgnoredTests,
+  saveIgnoredTests,
   saveRequirement,
+  getAllTestLinks,
 } from "../lib/store";
 import { getTestsWithCache } from "../lib/cache";
-import { isValidGherkinFormat } from "../lib/gherkin";
-import type {
-  CheckResult,
-  VerificationStatus,
-  TestLink,
-  ParsedRequirement,
-  ImplementationStatus,
-  Priority,
-  DependencyIssue,
-  PriorityBreakdown,
-  GherkinFormatIssue,
-} from "../lib/types";
-
-/**
- * Determine verification status for a requirement
- */
-function getVerificationStatus(
-  tests: TestLink[],
-  currentHashes: Map<string, string>,
-  hasAssessment: boolean
-): VerificationStatus {
-  // No tests = nothing to verify
-  if (tests.length === 0) {
-    return "n/a";
-  }
-
-  // Has tests but no assessment = unverified
-  if (!hasAssessment) {
-    return "unverified";
-  }
-
-  // Has assessment - check if any test hashes changed
-  for (const test of tests) {
-    const key = `${test.file}:${test.identifier}`;
-    const currentHash = currentHashes.get(key);
-    if (currentHash && currentHash !== test.hash) {
-      return "stale";
-    }
-  }
-
-  // Assessment exists and no hashes changed
-  return "verified";
-}
+import { indexTestsByLinkKey } from "../lib/test-parsers";
+import { buildCheckResult } from "../lib/check-result";
+import { findFlakyTests, loadTestHistory } from "../lib/history";
+import { findImplementationCoverageIssues, loadCoverage } from "../lib/coverage";
+import { loadTestResults } from "../lib/result-store";
+import { getWorkflow } from "../lib/workflow";
+import { findDependencyCycles, findMissingDependencies } from "../lib/dependency-graph";
+import { getFileRenames, suggestRelinks } from "../lib/relink";
+import {
+  evaluatePolicy,
+  formatPolicyReport,
+  getPolicy,
+  POLICY_REPORT_FORMATS,
+  type PolicyReportFormat,
+} from "../lib/policy";
+import {
+  findWorkspace,
+  loadWorkspace,
+  loadWorkspaceRequirementStates,
+  mergeCheckResults,
+  qualifyCheckResult,
+  qualifyPath,
+  qualifyRequirements,
+} from "../lib/workspace";
+import type { CheckResult, Config, ParsedRequirement, PolicyConfig } from "../lib/types";
 
 export async function check(args: {
   cwd: string;
   path?: string;
   json?: boolean;
   noCache?: boolean;
+  ci?: boolean; // Enforce the config.yml policy and exit non-zero on violations
+  report?: string; // CI report format: junit or sarif
+  output?: string; // File for the CI report (default: stdout)
 }): Promise<void> {
-  const { cwd, path, json, noCache } = args;
+  const { cwd, path, json, noCache, ci, report, output } = args;
 
-  // Load config
-  const config = await loadConfig(cwd);
-  if (!config) {
-    console.error("Not initialized. Run 'req init' first.");
+  if (report && !POLICY_REPORT_FORMATS.includes(report as PolicyReportFormat)) {
+    console.error(`Unknown report format "${report}". Use one of: ${POLICY_REPORT_FORMATS.join(", ")}`);
     process.exit(1);
   }
-
-  // Load requirements (filtered by path if provided)
-  const loadResult = path
-    ? await loadRequirementsInPath(cwd, path)
-    : await loadAllRequirements(cwd);
-
-  // Report validation errors
-  if (loadResult.errors.length > 0) {
-    console.error("Validation errors:");
-    for (const error of loadResult.errors) {
-      console.error(`  ${error.message}`);
-    }
+  if ((report || output) && !ci) {
+    console.error("--report and --output require --ci");
     process.exit(1);
   }
-
-  const requirements = loadResult.requirements;
-
-  if (requirements.length === 0) {
-    if (json) {
-      console.log(
-        JSON.stringify({
-          requirements: [],
-          orphanedTests: [],
-          dependencyIssues: [],
-          gherkinIssues: [],
-          summary: {
-            totalRequirements: 0,
-            planned: 0,
-            done: 0,
-            untested: 0,
-            tested: 0,
-            unverified: 0,
-            verified: 0,
-            stale: 0,
-            orphanedTestCount: 0,
-            unansweredQuestions: 0,
-            byPriority: { critical: 0, high: 0, medium: 0, low: 0, unset: 0 },
-            blockedRequirements: 0,
-            unverifiedNFRs: 0,
-            gherkinFormatIssues: 0,
-          },
-        })
-      );
-    } else {
-      console.log("No requirement files found in .requirements/");
-      console.log("Create requirement files like: auth/REQ_login.yml");
-    }
-    return;
+  if (report && json && !output) {
+    console.error("--report with --json requires --output (both would be written to stdout)");
+    process.exit(1);
   }
+  // A report written to stdout must be the only thing there
+  const quiet = json || (!!report && !output);
 
-  // Load ignored tests
-  const ignoredTestsFile = await loadIgnoredTests(cwd);
-  const ignoredTestKeys = new Set(
-    ignoredTestsFile.tests.map((t) => `${t.file}:${t.identifier}`)
-  );
-
-  // Extract all tests from codebase (using cache if valid)
-  const { tests: allExtractedTests, fromCache } = await getTestsWithCache(
-    cwd,
-    config.testGlob,
-    noCache
-  );
-
-  if (!json) {
-    if (fromCache) {
-      console.log("Using cached test data");
-    } else {
-      console.log(`Extracted ${allExtractedTests.length} tests from test files`);
-    }
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
   }
+  const policy = ci ? getPolicy(config) : undefined;
 
-  const testHashMap = new Map<string, string>();
-  for (const test of allExtractedTests) {
-    testHashMap.set(`${test.file}:${test.identifier}`, test.hash);
-  }
+  let result: CheckResult;
+  let ignoredTests = 0;
 
-  // Update test hashes in requirement files (and clear assessments if changed)
-  for (const req of requirements) {
-    let modified = false;
-    for (const test of req.data.tests) {
-      const key = `${test.file}:${test.identifier}`;
-      const currentHash = testHashMap.get(key);
-      if (currentHash && test.hash !== currentHash) {
-        test.hash = currentHash;
-        modified = true;
-        // Clear assessment since hash changed
-        delete req.data.aiAssessment;
-      }
+  const workspace = await loadWorkspace(cwd);
+  if (workspace) {
+    // Check every package, then combine the results under qualified paths
+    if (workspace.packages.length === 0) {
+      console.error('No workspace packages found. Check "workspaces" in config.yml.');
+      process.exit(1);
     }
-    if (modified) {
-      await saveRequirement(cwd, req.path, req.data);
-    }
-  }
-
-  // Build a map of requirement paths to their status for dependency checking
-  const reqStatusMap = new Map<string, ImplementationStatus>();
-  for (const req of requirements) {
-    reqStatusMap.set(req.path, req.data.status);
-  }
-
-  // Build results - group by folder
-  const result: CheckResult = {
-    requirements: [],
-    orphanedTests: [],
-    dependencyIssues: [],
-    gherkinIssues: [],
-    summary: {
-      totalRequirements: 0,
-      planned: 0,
-      done: 0,
-      untested: 0,
-      tested: 0,
-      unverified: 0,
-      verified: 0,
-      stale: 0,
-      orphanedTestCount: 0,
-      unansweredQuestions: 0,
-      byPriority: {
-        critical: 0,
-        high: 0,
-        medium: 0,
-        low: 0,
-        unset: 0,
-      },
-      blockedRequirements: 0,
-      unverifiedNFRs: 0,
-      gherkinFormatIssues: 0,
-    },
-  };
-
-  // Group requirements by folder path
-  const groupedReqs = new Map<string, ParsedRequirement[]>();
-  for (const req of requirements) {
-    // Extract folder path (e.g., "auth/REQ_login.yml" -> "auth/")
-    const lastSlash = req.path.lastIndexOf("/");
-    const folderPath = lastSlash >= 0 ? req.path.slice(0, lastSlash + 1) : "";
-
-    if (!groupedReqs.has(folderPath)) {
-      groupedReqs.set(folderPath, []);
+    const externalRequirements = await loadWorkspaceRequirementStates(workspace);
+    const results: CheckResult[] = [];
+    const allRequirements: ParsedRequirement[] = [];
+    const inPath = new Set<string>();
+    for (const pkg of workspace.packages) {
+      const requirements = await loadPackageRequirements(pkg.root, path, pkg.name);
+      const checked = await checkPackage(pkg.root, pkg.config, requirements, {
+        path,
+        noCache,
+        quiet,
+        label: pkg.name,
+        externalRequirements,
+      });
+      results.push(qualifyCheckResult(pkg, checked.result));
+      allRequirements.push(...qualifyRequirements(pkg, checked.allRequirements));
+      requirements.forEach((req) => inPath.add(qualifyPath(pkg.name, req.path)));
+      ignoredTests += checked.ignoredTests;
     }
-    groupedReqs.get(folderPath)!.push(req);
-  }
-
-  // Analyze each group
-  const linkedTestKeys = new Set<string>();
-
-  for (const [folderPath, groupReqs] of Array.from(groupedReqs.entries()).sort()) {
-    const groupResult = {
-      path: folderPath || "(root)",
-      requirements: [] as {
-        id: string;
-        testCount: number;
-        verification: VerificationStatus;
-        coverageSufficient: boolean | null;
-        unansweredQuestions: number;
-        status: ImplementationStatus;
-        priority?: Priority;
-        dependencyIssues?: string[];
-        unverifiedNFRCount: number;
-      }[],
-    };
-
-    for (const req of groupReqs) {
-      result.summary.totalRequirements++;
-
-      // Track linked tests
-      for (const test of req.data.tests) {
-        linkedTestKeys.add(`${test.file}:${test.identifier}`);
-      }
+    result = mergeCheckResults(results);
 
-      // Get implementation status
-      const reqStatus: ImplementationStatus = req.data.status;
-      if (reqStatus === "planned") {
-        result.summary.planned++;
-      } else {
-        result.summary.done++;
-      }
-
-      // Get verification status
-      const verification = getVerificationStatus(
-        req.data.tests,
-        testHashMap,
-        !!req.data.aiAssessment
-      );
-
-      // Update summary counts (only for "done" requirements)
-      if (reqStatus === "done") {
-        if (req.data.tests.length === 0) {
-          result.summary.untested++;
-        } else {
-          result.summary.tested++;
-        }
-
-        switch (verification) {
-          case "unverified":
-            result.summary.unverified++;
-            break;
-          case "verified":
-            result.summary.verified++;
-            break;
-          case "stale":
-            result.summary.stale++;
-            break;
-        }
-      }
-
-      // Count unanswered questions
-      const unanswered = (req.data.questions || []).filter((q) => !q.answer).length;
-      result.summary.unansweredQuestions += unanswered;
-
-      // Track priority breakdown
-      const priority = req.data.priority;
-      if (priority) {
-        result.summary.byPriority[priority]++;
+    // Cycles can run through several packages
+    result.dependencyCycles = findDependencyCycles(allRequirements).filter((cycle) =>
+      cycle.some((member) => inPath.has(member))
+    );
+    result.summary.dependencyCycles = result.dependencyCycles.length;
+  } else {
+    const workflow = getWorkflow(config);
+    const requirements = await loadPackageRequirements(cwd, path);
+
+    // In CI mode an empty folder is still checked (every test is an orphan)
+    if (requirements.length === 0 && !ci) {
+      if (json) {
+        console.log(
+          JSON.stringify({
+            requirements: [],
+            orphanedTests: [],
+            brokenLinks: [],
+            dependencyIssues: [],
+            dependencyCycles: [],
+            missingDependencies: [],
+            gherkinIssues: [],
+            coverageIssues: [],
+            summary: {
+              totalRequirements: 0,
+              planned: 0,
+              done: 0,
+              deprecated: 0,
+              byState: Object.fromEntries(workflow.states.map((state) => [state.name, 0])),
+              untested: 0,
+              tested: 0,
+              unverified: 0,
+              verified: 0,
+              stale: 0,
+              orphanedTestCount: 0,
+              brokenLinks: 0,
+              unansweredQuestions: 0,
+              overdueQuestions: 0,
+              byPriority: { critical: 0, high: 0, medium: 0, low: 0, unset: 0 },
+              blockedRequirements: 0,
+              dependencyCycles: 0,
+              missingDependencies: 0,
+              unverifiedNFRs: 0,
+              gherkinFormatIssues: 0,
+              flakyOnly: 0,
+              implementationNotExecuted: 0,
+            },
+          })
+        );
       } else {
-        result.summary.byPriority.unset++;
-      }
-
-      // Check for dependency issues (blocking deps that aren't "done")
-      const depIssues: string[] = [];
-      if (req.data.dependencies) {
-        for (const dep of req.data.dependencies) {
-          const blocking = dep.blocking !== false; // default to true
-          if (blocking) {
-            const depStatus = reqStatusMap.get(dep.path);
-            // Issue if dependency doesn't exist or isn't "done"
-            if (!depStatus || depStatus !== "done") {
-              depIssues.push(dep.path);
-            }
-          }
-        }
-      }
-      if (depIssues.length > 0) {
-        result.summary.blockedRequirements++;
-        result.dependencyIssues.push({
-          requirement: req.path,
-          blockedBy: depIssues,
-        });
+        console.log("No requirement files found in .requirements/");
+        console.log("Create requirement files like: auth/REQ_login.yml");
       }
-
-      // Count unverified NFRs
-      const nfrs = req.data.nfrs || [];
-      const unverifiedNFRCount = nfrs.filter((nfr) => !nfr.verified).length;
-      result.summary.unverifiedNFRs += unverifiedNFRCount;
-
-      // Validate gherkin format
-      const gherkinValidation = isValidGherkinFormat(req.data.gherkin);
-      if (!gherkinValidation.valid) {
-        result.gherkinIssues.push({
-          requirement: req.path,
-          errors: gherkinValidation.errors,
-        });
-        result.summary.gherkinFormatIssues++;
-      }
-
-      // Also validate scenarios if present
-      if (req.data.scenarios) {
-        for (const scenario of req.data.scenarios) {
-          const scenarioValidation = isValidGherkinFormat(scenario.gherkin);
-          if (!scenarioValidation.valid) {
-            result.gherkinIssues.push({
-              requirement: `${req.path} (scenario: ${scenario.name})`,
-              errors: scenarioValidation.errors,
-            });
-            result.summary.gherkinFormatIssues++;
-          }
-        }
-      }
-
-      // Use path as ID (e.g., "auth/REQ_login.yml")
-      groupResult.requirements.push({
-        id: req.path,
-        testCount: req.data.tests.length,
-        verification,
-        coverageSufficient: req.data.aiAssessment?.sufficient ?? null,
-        unansweredQuestions: unanswered,
-        status: reqStatus,
-        priority,
-        dependencyIssues: depIssues.length > 0 ? depIssues : undefined,
-        unverifiedNFRCount,
-      });
+      return;
     }
 
-    result.requirements.push(groupResult);
+    // Dependencies on other packages of a workspace this folder belongs to
+    const parent = await findWorkspace(cwd);
+    const checked = await checkPackage(cwd, config, requirements, {
+      path,
+      noCache,
+      quiet,
+      externalRequirements: parent ? await loadWorkspaceRequirementStates(parent.workspace) : undefined,
+    });
+    result = checked.result;
+    ignoredTests = checked.ignoredTests;
   }
 
-  // Find orphaned tests (excluding ignored tests)
-  for (const test of allExtractedTests) {
-    const key = `${test.file}:${test.identifier}`;
-    if (!linkedTestKeys.has(key) && !ignoredTestKeys.has(key)) {
-      result.orphanedTests.push(test);
-    }
+  // CI gate
+  if (policy) {
+    await enforcePolicy(cwd, result, policy, {
+      json,
+      report: report as PolicyReportFormat | undefined,
+      output,
+    });
+    return;
   }
-  result.summary.orphanedTestCount = result.orphanedTests.length;
 
   // Output
   if (json) {
@@ -376,13 +194,29 @@ export async function check(args: {
   console.log(`  Total requirements: ${result.summary.totalRequirements}`);
   console.log(`  Planned: ${result.summary.planned}`);
   console.log(`  Done: ${result.summary.done}`);
+  if (result.summary.deprecated > 0) {
+    console.log(`  Deprecated: ${result.summary.deprecated}`);
+  }
   console.log(`  Untested: ${result.summary.untested}`);
   console.log(`  Unverified: ${result.summary.unverified}`);
   console.log(`  Verified: ${result.summary.verified}`);
   console.log(`  Stale: ${result.summary.stale}`);
   console.log(`  Orphaned tests: ${result.summary.orphanedTestCount}`);
-  if (ignoredTestsFile.tests.length > 0) {
-    console.log(`  Ignored tests: ${ignoredTestsFile.tests.length}`);
+  if (result.summary.brokenLinks > 0) {
+    console.log(`  Broken test links: ${result.summary.brokenLinks}`);
+  }
+  if (result.summary.unansweredQuestions > 0) {
+    const overdue = result.summary.overdueQuestions;
+    console.log(`  Unanswered questions: ${result.summary.unansweredQuestions}${overdue > 0 ? ` (${overdue} overdue)` : ""}`);
+  }
+  if (result.summary.flakyOnly > 0) {
+    console.log(`  Flaky-only coverage: ${result.summary.flakyOnly}`);
+  }
+  if (result.summary.implementationNotExecuted > 0) {
+    console.log(`  Implementation not executed: ${result.summary.implementationNotExecuted}`);
+  }
+  if (ignoredTests > 0) {
+    console.log(`  Ignored tests: ${ignoredTests}`);
   }
 
   // Priority breakdown (only show if any requirements have priority set)
@@ -397,9 +231,19 @@ export async function check(args: {
     if (byPriority.unset > 0) console.log(`  Unset: ${byPriority.unset}`);
   }
 
-  // Show planned requirements
+  // State breakdown (only for workflows beyond planned/done)
+  if (Object.keys(result.summary.byState).length > 2) {
+    console.log("\nState breakdown:");
+    for (const [state, count] of Object.entries(result.summary.byState)) {
+      if (count > 0) console.log(`  ${state}: ${count}`);
+    }
+  }
+
+  // Show planned requirements (any state that is neither implemented nor deprecated)
   const planned = result.requirements.flatMap((g) =>
-    g.requirements.filter((r) => r.status === "planned").map((r) => r.id)
+    g.requirements
+      .filter((r) => !r.implemented && !r.deprecated)
+      .map((r) => (r.status === "planned" ? r.id : `${r.id} (${r.status})`))
   );
 
   if (planned.length > 0) {
@@ -409,9 +253,9 @@ export async function check(args: {
     }
   }
 
-  // Show untested requirements (only "done" ones)
+  // Show untested requirements (only implemented ones)
   const untested = result.requirements.flatMap((g) =>
-    g.requirements.filter((r) => r.status === "done" && r.testCount === 0).map((r) => r.id)
+    g.requirements.filter((r) => r.implemented && r.testCount === 0).map((r) => r.id)
   );
 
   if (untested.length > 0) {
@@ -421,9 +265,9 @@ export async function check(args: {
     }
   }
 
-  // Show unverified requirements (only "done" ones)
+  // Show unverified requirements (only implemented ones)
   const unverified = result.requirements.flatMap((g) =>
-    g.requirements.filter((r) => r.status === "done" && r.verification === "unverified").map((r) => r.id)
+    g.requirements.filter((r) => r.implemented && r.verification === "unverified").map((r) => r.id)
   );
 
   if (unverified.length > 0) {
@@ -433,9 +277,9 @@ export async function check(args: {
     }
   }
 
-  // Show stale requirements (only "done" ones)
+  // Show stale requirements (only implemented ones)
   const stale = result.requirements.flatMap((g) =>
-    g.requirements.filter((r) => r.status === "done" && r.verification === "stale").map((r) => r.id)
+    g.requirements.filter((r) => r.implemented && r.verification === "stale").map((r) => r.id)
   );
 
   if (stale.length > 0) {
@@ -445,6 +289,48 @@ export async function check(args: {
     }
   }
 
+  // Show requirements whose only coverage is flaky
+  const flakyOnly = result.requirements.flatMap((g) =>
+    g.requirements.filter((r) => r.flakyOnly).map((r) => r.id)
+  );
+
+  if (flakyOnly.length > 0) {
+    console.log("\nRequirements covered only by flaky tests (see 'req history'):");
+    for (const reqPath of flakyOnly) {
+      console.log(`  - ${reqPath}`);
+    }
+  }
+
+  // Show scenarios without tests, for requirements that link tests per scenario
+  const untestedScenarios = result.requirements.flatMap((g) =>
+    g.requirements
+      .filter((r) => !r.deprecated && r.scenarios?.some((s) => s.testCount > 0))
+      .flatMap((r) =>
+        r.scenarios!.filter((s) => s.testCount === 0 && !s.suggested).map((s) => `${r.id}#${s.name}`)
+      )
+  );
+
+  if (untestedScenarios.length > 0) {
+    console.log("\nScenarios without linked tests:");
+    for (const target of untestedScenarios) {
+      console.log(`  - ${target}`);
+    }
+  }
+
+  // Show requirements whose tests never execute their implementation
+  if (result.coverageIssues.length > 0) {
+    console.log("\nRequirements whose tests never execute their implementation files:");
+    for (const issue of result.coverageIssues) {
+      const evidence =
+        issue.evidence === "tests"
+          ? "per-test coverage"
+          : issue.evidence === "requirement"
+            ? "coverage of its test set"
+            : "whole-run coverage";
+      console.log(`  - ${issue.requirement} (${evidence}): ${issue.implementationFiles.join(", ")}`);
+    }
+  }
+
   // Show orphaned tests (first 20)
   if (result.orphanedTests.length > 0) {
     console.log("\nOrphaned tests (not linked to any requirement):");
@@ -456,19 +342,42 @@ export async function check(args: {
     }
   }
 
+  // Show links to tests that no longer exist, with the likely renamed test
+  if (result.brokenLinks.length > 0) {
+    const suggestions = new Map(
+      (result.relinkSuggestions ?? []).map((suggestion) => [`${suggestion.file}:${suggestion.identifier}`, suggestion])
+    );
+    console.log("\nBroken test links (test not found):");
+    for (const link of result.brokenLinks) {
+      const target = link.scenario !== undefined ? `${link.requirement}#${link.scenario}` : link.requirement;
+      console.log(`  - ${target}: ${link.file}:${link.identifier}`);
+      const suggestion = suggestions.get(`${link.file}:${link.identifier}`);
+      if (suggestion) {
+        console.log(
+          `      probably ${suggestion.test.file}:${suggestion.test.identifier} (${suggestion.reasons.join(", ")})`
+        );
+      }
+    }
+    if (suggestions.size > 0) {
+      console.log("  Run 'req relink' to review the fixes, 'req relink --apply' to apply them.");
+    }
+  }
+
   // Show requirements with unanswered questions
   const withQuestions = result.requirements.flatMap((g) =>
     g.requirements.filter((r) => r.unansweredQuestions > 0).map((r) => ({
       id: r.id,
       count: r.unansweredQuestions,
+      overdue: r.overdueQuestions,
     }))
   );
 
   if (withQuestions.length > 0) {
     console.log("\nRequirements with unanswered questions:");
     for (const req of withQuestions) {
-      console.log(`  - ${req.id}: ${req.count} question(s)`);
+      console.log(`  - ${req.id}: ${req.count} question(s)${req.overdue > 0 ? `, ${req.overdue} overdue` : ""}`);
     }
+    console.log("  Run 'req questions' to list them.");
   }
 
   // Show dependency issues
@@ -478,6 +387,18 @@ export async function check(args: {
       console.log(`  - ${issue.requirement}: blocked by ${issue.blockedBy.join(", ")}`);
     }
   }
+  if (result.dependencyCycles.length > 0) {
+    console.log("\nDependency cycles:");
+    for (const cycle of result.dependencyCycles) {
+      console.log(`  - ${[...cycle, cycle[0]].join(" -> ")}`);
+    }
+  }
+  if (result.missingDependencies.length > 0) {
+    console.log("\nMissing dependency targets:");
+    for (const missing of result.missingDependencies) {
+      console.log(`  - ${missing.requirement}: depends on ${missing.dependency}, which does not exist`);
+    }
+  }
 
   // Show unverified NFRs summary
   if (result.summary.unverifiedNFRs > 0) {
@@ -507,3 +428,222 @@ export async function check(args: {
 
   console.log();
 }
+
+/**
+ * Load the requirements to check (under the path prefix, if given), or print
+ * the validation errors and exit
+ * @param label - Workspace package, for the error header
+ */
+async function loadPackageRequirements(
+  cwd: string,
+  path: string | undefined,
+  label?: string
+): Promise<ParsedRequirement[]> {
+  const loadResult = path
+    ? await loadRequirementsInPath(cwd, path)
+    : await loadAllRequirements(cwd);
+
+  if (loadResult.errors.length > 0) {
+    console.error(label ? `Validation errors in ${label}:` : "Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  return loadResult.requirements;
+}
+
+/**
+ * Check one folder's requirements against its tests. Updates changed test
+ * hashes in the requirement files.
+ * @returns the result, every requirement of the folder (not only those under
+ *   the path) and the number of ignored tests
+ */
+async function checkPackage(
+  cwd: string,
+  config: Config,
+  requirements: ParsedRequirement[],
+  options: {
+    path?: string;
+    noCache?: boolean;
+    quiet?: boolean;
+    label?: string; // Workspace package, prefixed to progress messages
+    externalRequirements?: Map<string, boolean>; // See loadWorkspaceRequirementStates
+  }
+): Promise<{ result: CheckResult; allRequirements: ParsedRequirement[]; ignoredTests: number }> {
+  const { path, noCache, quiet, label, externalRequirements } = options;
+  const workflow = getWorkflow(config);
+
+  // Load ignored tests
+  const ignoredTestsFile = await loadIgnoredTests(cwd);
+  const ignoredTestKeys = new Set(
+    ignoredTestsFile.tests.map((t) => `${t.file}:${t.identifier}`)
+  );
+
+  // Extract all tests from codebase (using cache if valid)
+  const { tests: allExtractedTests, fromCache } = await getTestsWithCache(
+    cwd,
+    config.testGlob,
+    noCache
+  );
+
+  if (!quiet) {
+    const prefix = label ? `${label}: ` : "";
+    if (fromCache) {
+      console.log(`${prefix}Using cached test data`);
+    } else {
+      console.log(`${prefix}Extracted ${allExtractedTests.length} tests from test files`);
+    }
+  }
+
+  const testIndex = indexTestsByLinkKey(allExtractedTests);
+
+  // Update test hashes in requirement files (and clear assessments if changed)
+  for (const req of requirements) {
+    let modified = false;
+    const links = [...req.data.tests, ...(req.data.scenarios ?? []).flatMap((s) => s.tests ?? [])];
+    for (const test of links) {
+      const current = testIndex.get(`${test.file}:${test.identifier}`);
+      if (!current) {
+        continue;
+      }
+      // Plain name of a nested test: store the qualified identifier
+      if (test.identifier !== current.identifier) {
+        test.identifier = current.identifier;
+        modified = true;
+      }
+      if (test.hash !== current.hash) {
+        // Hash from the pre-AST extractor: the test itself is unchanged,
+        // so migrate the hash and keep the assessment
+        const unchanged = test.hash === current.legacyHash;
+        test.hash = current.hash;
+        modified = true;
+        if (!unchanged) {
+          // Clear assessment since hash changed
+          delete req.data.aiAssessment;
+        }
+      }
+    }
+    if (modified) {
+      await saveRequirement(cwd, req.path, req.data);
+    }
+  }
+
+  // Ignored tests that use the plain name of a nested test: store the qualified identifier
+  let ignoredModified = false;
+  for (const ignored of ignoredTestsFile.tests) {
+    const current = testIndex.get(`${ignored.file}:${ignored.identifier}`);
+    if (current && ignored.identifier !== current.identifier) {
+      ignored.identifier = current.identifier;
+      ignoredModified = true;
+    }
+  }
+  if (ignoredModified) {
+    await saveIgnoredTests(cwd, ignoredTestsFile);
+  }
+
+  // Find flaky linked tests in the run history
+  const flakyTestKeys = findFlakyTests(
+    requirements.flatMap((req) => getAllTestLinks(req.data)),
+    await loadTestHistory(cwd)
+  );
+
+  // Build results - group by folder
+  const testResults = await loadTestResults(cwd);
+  const result = buildCheckResult(
+    requirements,
+    allExtractedTests,
+    ignoredTestKeys,
+    flakyTestKeys,
+    testResults?.results,
+    workflow,
+    externalRequirements
+  );
+
+  // A path-scoped check still resolves dependencies against every requirement
+  const allRequirements = path ? (await loadAllRequirements(cwd)).requirements : requirements;
+  if (path) {
+    const inPath = new Set(requirements.map((req) => req.path));
+    result.missingDependencies = findMissingDependencies(
+      requirements,
+      new Set([...allRequirements.map((req) => req.path), ...(externalRequirements?.keys() ?? [])])
+    );
+    result.dependencyCycles = findDependencyCycles(allRequirements).filter((cycle) =>
+      cycle.some((member) => inPath.has(member))
+    );
+    result.summary.missingDependencies = result.missingDependencies.length;
+    result.summary.dependencyCycles = result.dependencyCycles.length;
+  }
+
+  // Suggest which orphaned tests broken links were renamed or moved to
+  if (result.brokenLinks.length > 0) {
+    result.relinkSuggestions = suggestRelinks(
+      result.brokenLinks,
+      result.orphanedTests,
+      await getFileRenames(cwd)
+    );
+  }
+
+  // Check that tests execute the declared implementation files (needs 'req import-coverage')
+  const coverage = await loadCoverage(cwd);
+  if (coverage) {
+    result.coverageIssues = await findImplementationCoverageIssues(
+      cwd,
+      requirements,
+      coverage,
+      workflow
+    );
+    result.summary.implementationNotExecuted = result.coverageIssues.length;
+  }
+
+  return { result, allRequirements, ignoredTests: ignoredTestsFile.tests.length };
+}
+
+/**
+ * Check the result against the policy, print the failure report (and the
+ * JUnit/SARIF report if requested) and exit 1 if any rule is violated
+ */
+async function enforcePolicy(
+  cwd: string,
+  result: CheckResult,
+  policy: PolicyConfig,
+  options: { json?: boolean; report?: PolicyReportFormat; output?: string }
+): Promise<void> {
+  const { json, report, output } = options;
+  const rules = evaluatePolicy(result, policy);
+  const failed = rules.filter((rule) => rule.violations.length > 0);
+
+  if (report) {
+    const content = formatPolicyReport(rules, report);
+    if (output) {
+      await writeFile(resolve(cwd, output), content);
+    } else {
+      process.stdout.write(content);
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ ...result, policy: rules }, null, 2));
+  } else {
+    // Keep stdout for the report when it is written there
+    const log = report && !output ? console.error : console.log;
+    log(`\nPolicy check: ${rules.length - failed.length}/${rules.length} rules passed`);
+    for (const rule of rules) {
+      log(`  ${rule.violations.length > 0 ? "FAIL" : "pass"}  ${rule.id} - ${rule.description}`);
+    }
+    for (const rule of failed) {
+      log(`\n${rule.id} (${rule.violations.length} violation(s)):`);
+      for (const violation of rule.violations) {
+        log(`  - ${violation.message}`);
+      }
+    }
+    if (report && output) {
+      log(`\nWrote ${report} report to ${output}`);
+    }
+  }
+
+  if (failed.length > 0) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Export requirements as Cucumber .feature files, one per folder
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import { loadConfig, loadAllRequirements, loadRequirementsInPath } from "../lib/store";
+import { requirementsToFeatures } from "../lib/features";
+
+export async function exportFeatures(args: {
+  cwd: string;
+  dir: string; // Output directory, relative to cwd
+  path?: string;
+}): Promise<void> {
+  const { cwd, dir, path } = args;
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  // Load requirements (filtered by path if provided)
+  const loadResult = path
+    ? await loadRequirementsInPath(cwd, path)
+    : await loadAllRequirements(cwd);
+
+  // Report validation errors
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  const features = requirementsToFeatures(loadResult.requirements);
+  const outputDir = resolve(cwd, dir);
+  for (const [file, content] of features) {
+    const filePath = join(outputDir, file);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, content);
+    console.log(`  ${join(dir, file)}`);
+  }
+
+  console.log(
+    `\nExported ${loadResult.requirements.length} requirement(s) to ${features.size} feature file(s) in ${dir}`
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Export a traceability matrix (HTML, CSV or Markdown)
+ */
+
+import { writeFile } from "fs/promises";
+import { resolve } from "path";
+import {
+  loadConfig,
+  loadAllRequirements,
+  loadRequirementsInPath,
+  loadIgnoredTests,
+  getAllTestLinks,
+} from "../lib/store";
+import { getTestsWithCache } from "../lib/cache";
+import { buildCheckResult } from "../lib/check-result";
+import { findFlakyTests, loadTestHistory } from "../lib/history";
+import { loadTestResults } from "../lib/result-store";
+import { getWorkflow } from "../lib/workflow";
+import {
+  buildTraceabilityMatrix,
+  formatTraceabilityMatrix,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from "../lib/traceability";
+
+export async function exportMatrix(args: {
+  cwd: string;
+  format?: string;
+  path?: string;
+  output?: string;
+}): Promise<void> {
+  const { cwd, path, output } = args;
+  const format = (args.format ?? "md") as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    console.error(`Unknown export format "${format}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  // Load requirements (filtered by path if provided)
+  const loadResult = path
+    ? await loadRequirementsInPath(cwd, path)
+    : await loadAllRequirements(cwd);
+
+  // Report validation errors
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  const requirements = loadResult.requirements;
+
+  const ignoredTestsFile = await loadIgnoredTests(cwd);
+  const ignoredTestKeys = new Set(
+    ignoredTestsFile.tests.map((t) => `${t.file}:${t.identifier}`)
+  );
+  const { tests } = await getTestsWithCache(cwd, config.testGlob);
+  const flakyTestKeys = findFlakyTests(
+    requirements.flatMap((req) => getAllTestLinks(req.data)),
+    await loadTestHistory(cwd)
+  );
+  const testResults = (await loadTestResults(cwd))?.results ?? [];
+
+  const matrix = buildTraceabilityMatrix(
+    buildCheckResult(
+      requirements,
+      tests,
+      ignoredTestKeys,
+      flakyTestKeys,
+      testResults,
+      getWorkflow(config)
+    ),
+    requirements,
+    testResults
+  );
+  const content = formatTraceabilityMatrix(matrix, format);
+
+  if (!output) {
+    process.stdout.write(content);
+    return;
+  }
+
+  await writeFile(resolve(cwd, output), content);
+  console.log(`Exported ${requirements.length} requirement(s) to ${output}`);
+}
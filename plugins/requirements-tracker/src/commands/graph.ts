@@ -0,0 +1,102 @@
+/**
+ * Show the requirement dependency graph
+ */
+
+import { loadConfig, loadAllRequirements } from "../lib/store";
+import { getWorkflow } from "../lib/workflow";
+import {
+  buildDependencyGraph,
+  formatGraph,
+  GRAPH_FORMATS,
+  type GraphFormat,
+} from "../lib/dependency-graph";
+
+export async function graph(args: {
+  cwd: string;
+  format?: string; // dot, mermaid or json (default: a text summary)
+}): Promise<void> {
+  const { cwd, format } = args;
+
+  if (format && !GRAPH_FORMATS.includes(format as GraphFormat)) {
+    console.error(`Unknown format "${format}". Use one of: ${GRAPH_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  const loadResult = await loadAllRequirements(cwd);
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  const dependencyGraph = buildDependencyGraph(loadResult.requirements, getWorkflow(config));
+
+  if (format) {
+    process.stdout.write(formatGraph(dependencyGraph, format as GraphFormat));
+    return;
+  }
+
+  // Text summary
+  const nodes = new Map(dependencyGraph.nodes.map((node) => [node.path, node]));
+  const describe = (path: string) => {
+    const node = nodes.get(path);
+    return node?.priority ? `${path} [${node.priority}]` : path;
+  };
+
+  console.log(
+    `Dependency graph: ${dependencyGraph.nodes.length} requirement(s), ${dependencyGraph.edges.length} dependenc${dependencyGraph.edges.length === 1 ? "y" : "ies"}`
+  );
+
+  if (dependencyGraph.cycles.length > 0) {
+    console.log("\nCycles:");
+    for (const cycle of dependencyGraph.cycles) {
+      console.log(`  - ${[...cycle, cycle[0]].join(" -> ")}`);
+    }
+  }
+
+  if (dependencyGraph.missing.length > 0) {
+    console.log("\nMissing dependency targets:");
+    for (const missing of dependencyGraph.missing) {
+      console.log(`  - ${missing.requirement}: depends on ${missing.dependency}, which does not exist`);
+    }
+  }
+
+  if (dependencyGraph.workOrder.length + dependencyGraph.stuck.length === 0) {
+    console.log("\nAll requirements are done.");
+    return;
+  }
+
+  console.log("\nNext workable:");
+  for (const path of dependencyGraph.nextWorkable) {
+    console.log(`  - ${describe(path)}`);
+  }
+  if (dependencyGraph.nextWorkable.length === 0) {
+    console.log("  (none)");
+  }
+
+  if (dependencyGraph.criticalPath.length > 1) {
+    console.log(`\nCritical path (${dependencyGraph.criticalPath.length} requirements, in work order):`);
+    console.log(`  ${dependencyGraph.criticalPath.join(" -> ")}`);
+  }
+
+  console.log("\nWork order:");
+  dependencyGraph.workOrder.forEach((path, i) => {
+    console.log(`  ${i + 1}. ${describe(path)}`);
+  });
+
+  if (dependencyGraph.stuck.length > 0) {
+    console.log("\nStuck (cycle, or a missing or deprecated blocking dependency):");
+    for (const path of dependencyGraph.stuck) {
+      console.log(`  - ${describe(path)}`);
+    }
+  }
+}
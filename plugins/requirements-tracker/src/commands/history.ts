@@ -0,0 +1,120 @@
+/**
+ * Show the run history and flakiness of a test or of a requirement's tests
+ */
+
+import { loadConfig, loadRequirement, isValidRequirementPath, getAllTestLinks } from "../lib/store";
+import {
+  loadTestHistory,
+  getTestHistory,
+  computeFlakiness,
+  DEFAULT_HISTORY_WINDOW,
+  type TestHistoryPoint,
+} from "../lib/history";
+import type { TestResultStatus } from "../lib/types";
+
+// One character per run, oldest first
+const SPARK_CHARS: Record<TestResultStatus, string> = {
+  passed: "✓",
+  failed: "✗",
+  error: "✗",
+  skipped: "-",
+};
+
+function formatSparkline(statuses: TestResultStatus[]): string {
+  return statuses.map((status) => SPARK_CHARS[status]).join("");
+}
+
+export async function history(args: {
+  cwd: string;
+  target: string; // file:identifier or requirement.yml
+  last?: number;
+  json?: boolean;
+}): Promise<void> {
+  const { cwd, target, json } = args;
+  const last = args.last ?? DEFAULT_HISTORY_WINDOW;
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  if (!Number.isInteger(last) || last < 1) {
+    console.error("--last must be a positive number");
+    process.exit(1);
+  }
+
+  // Resolve the tests to show
+  let tests: Array<{ file: string; identifier: string }>;
+  if (isValidRequirementPath(target)) {
+    const requirement = await loadRequirement(cwd, target);
+    if (!requirement) {
+      console.error(`Requirement not found: ${target}`);
+      process.exit(1);
+    }
+    tests = getAllTestLinks(requirement.data).map(({ file, identifier }) => ({ file, identifier }));
+  } else {
+    const colonIndex = target.indexOf(":");
+    if (colonIndex === -1) {
+      console.error("Invalid target. Use file:identifier or a requirement path");
+      console.error("Example: src/auth.test.ts:validates login");
+      process.exit(1);
+    }
+    tests = [{ file: target.slice(0, colonIndex), identifier: target.slice(colonIndex + 1) }];
+  }
+
+  const entries = await loadTestHistory(cwd);
+  const report = tests.map((test) => {
+    const runs = getTestHistory(test, entries, last);
+    return {
+      ...test,
+      flakiness: computeFlakiness(runs.map((run) => run.status)),
+      runs,
+    };
+  });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  if (tests.length === 0) {
+    console.log(`No tests linked to ${target}`);
+    return;
+  }
+
+  for (const { file, identifier, flakiness, runs } of report) {
+    console.log(`${file}:${identifier}`);
+
+    if (runs.length === 0) {
+      console.log("  No recorded runs\n");
+      continue;
+    }
+
+    const rate = `${Math.round(flakiness.flipRate * 100)}%`;
+    console.log(
+      `  ${formatSparkline(runs.map((run) => run.status))}  ` +
+        `flip rate ${rate} (${flakiness.flips} flip(s) in ${flakiness.runs} run(s))` +
+        (flakiness.flaky ? " - FLAKY" : "")
+    );
+
+    // Most recent first
+    for (const run of [...runs].reverse()) {
+      console.log(`  ${formatRun(run)}`);
+    }
+    console.log();
+  }
+}
+
+function formatRun(run: TestHistoryPoint): string {
+  const parts = [
+    run.recordedAt.slice(0, 19).replace("T", " "),
+    run.commit ? run.commit.slice(0, 7) : "-------",
+    run.status.padEnd(7),
+  ];
+  if (run.duration !== undefined) {
+    parts.push(`${Math.round(run.duration)}ms`);
+  }
+  return parts.join("  ");
+}
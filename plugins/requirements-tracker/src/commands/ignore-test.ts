@@ -45,11 +45,12 @@ export async function ignoreTest(args: IgnoreTestArgs): Promise<void> {
   // Extract all tests to verify test exists
   console.log("Searching for test in codebase...");
   const allTests = await extractAllTests(cwd, config.testGlob);
-  const testExists = allTests.some(
-    (t) => t.file === file && t.identifier === identifier
+  const matchingTest = allTests.find(
+    (t) =>
+      t.file === file && (t.identifier === identifier || t.fullName === identifier)
   );
 
-  if (!testExists) {
+  if (!matchingTest) {
     console.error(`Test not found in codebase: ${testSpec}`);
     console.error(
       "Make sure the test exists and the file path is relative to the project root."
@@ -62,7 +63,7 @@ export async function ignoreTest(args: IgnoreTestArgs): Promise<void> {
 
   // Check for duplicates
   const alreadyIgnored = ignoredTestsFile.tests.some(
-    (t) => t.file === file && t.identifier === identifier
+    (t) => t.file === file && t.identifier === matchingTest.identifier
   );
 
   if (alreadyIgnored) {
@@ -73,7 +74,7 @@ export async function ignoreTest(args: IgnoreTestArgs): Promise<void> {
   // Add to ignored tests
   const ignoredTest: IgnoredTest = {
     file,
-    identifier,
+    identifier: matchingTest.identifier,
     reason,
     ignoredAt: new Date().toISOString(),
   };
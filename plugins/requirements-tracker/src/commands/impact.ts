@@ -0,0 +1,132 @@
+/**
+ * Show which requirements the changes since a git ref affect
+ */
+
+import { loadConfig, loadAllRequirements, getAllTestLinks } from "../lib/store";
+import { getTestsWithCache } from "../lib/cache";
+import {
+  analyzeImpact,
+  diffTests,
+  extractTestsAtRef,
+  getChangedFiles,
+  gherkinChanged,
+  loadRequirementAtRef,
+  requirementPathOf,
+  type ImpactReport,
+} from "../lib/impact";
+import type { ExtractedTest } from "../lib/types";
+
+export async function impact(args: {
+  cwd: string;
+  base?: string; // Git ref to diff the working tree against (default: HEAD)
+  json?: boolean;
+}): Promise<void> {
+  const { cwd, json } = args;
+  const base = args.base ?? "HEAD";
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  let changedFiles;
+  try {
+    changedFiles = await getChangedFiles(cwd, base);
+  } catch (error) {
+    console.error(`Cannot diff against ${base}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const loadResult = await loadAllRequirements(cwd);
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+  const requirements = loadResult.requirements;
+  const { tests: currentTests } = await getTestsWithCache(cwd, config.testGlob);
+
+  // Requirement files: what changed about them
+  const requirementChanges = new Map<string, string>();
+  for (const file of changedFiles) {
+    const reqPath = requirementPathOf(file.path);
+    if (!reqPath) continue;
+    if (file.change !== "modified") {
+      requirementChanges.set(reqPath, `requirement ${file.change}`);
+      continue;
+    }
+    const before = await loadRequirementAtRef(cwd, base, reqPath);
+    const after = requirements.find((req) => req.path === reqPath);
+    requirementChanges.set(
+      reqPath,
+      before && after && gherkinChanged(before, after.data) ? "gherkin changed" : "requirement edited"
+    );
+  }
+
+  // Test files: files with tests now, or linked tests at the base
+  const currentTestFiles = new Set(currentTests.map((test) => test.file));
+  const linkedFiles = new Set(
+    requirements.flatMap((req) => getAllTestLinks(req.data).map((link) => link.file))
+  );
+  const changedTestFiles = changedFiles
+    .map((file) => file.path)
+    .filter((path) => currentTestFiles.has(path) || linkedFiles.has(path));
+
+  const before: ExtractedTest[] = [];
+  for (const file of changedTestFiles) {
+    before.push(...(await extractTestsAtRef(cwd, base, file)));
+  }
+  const after = currentTests.filter((test) => changedTestFiles.includes(test.file));
+  const testChanges = diffTests(before, after);
+
+  const report: ImpactReport = {
+    base,
+    changedTestFiles,
+    changedRequirementFiles: Array.from(requirementChanges.keys()),
+    testChanges,
+    ...analyzeImpact(requirements, currentTests, testChanges, requirementChanges),
+  };
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`Impact of changes since ${base}`);
+  console.log(
+    `  ${changedTestFiles.length} test file(s), ${requirementChanges.size} requirement file(s) changed; ` +
+      `${testChanges.length} test(s) added, modified or removed`
+  );
+
+  if (report.requirements.length === 0) {
+    console.log("\nNo requirements affected.");
+    return;
+  }
+
+  console.log(`\nAffected requirements (${report.requirements.length}):`);
+  for (const req of report.requirements) {
+    console.log(`  - ${req.path}${req.status ? ` [${req.status}]` : ""}`);
+    for (const reason of req.reasons) {
+      console.log(`      ${reason}`);
+    }
+  }
+
+  const stale = report.requirements.filter((req) => req.willGoStale);
+  if (stale.length > 0) {
+    console.log("\nVerification will go stale (re-run 'req assess'):");
+    for (const req of stale) {
+      console.log(`  - ${req.path}`);
+    }
+  }
+
+  if (report.runTargets.length > 0) {
+    console.log("\nRun the affected tests:");
+    for (const target of report.runTargets) {
+      console.log(`  req run ${target.includes(" ") ? `"${target}"` : target}`);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Import code coverage from an LCOV, Istanbul JSON or Cobertura report
+ */
+
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import { loadConfig, loadAllRequirements, loadRequirement, isValidRequirementPath } from "../lib/store";
+import { parseCoverage, COVERAGE_FORMATS, type CoverageParseResult } from "../lib/coverage-parsers";
+import {
+  loadCoverage,
+  saveCoverage,
+  normalizeCoveragePaths,
+  getRequirementCoverage,
+} from "../lib/coverage";
+import { COVERAGE_FILE, type CoverageData, type CoverageFormat, type FileCoverage } from "../lib/types";
+
+function countLines(files: FileCoverage): number {
+  return Object.values(files).reduce((sum, lines) => sum + lines.length, 0);
+}
+
+export async function importCoverage(args: {
+  cwd: string;
+  file: string;
+  format?: string;
+  requirement?: string; // Attribute the report to this requirement's test set
+}): Promise<void> {
+  const { cwd, file, format, requirement } = args;
+
+  // Load config to ensure we're in an initialized project
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  if (format && !COVERAGE_FORMATS.includes(format as CoverageFormat)) {
+    console.error(`Invalid format "${format}". Must be one of: ${COVERAGE_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  if (requirement) {
+    if (!isValidRequirementPath(requirement) || !(await loadRequirement(cwd, requirement))) {
+      console.error(`Requirement not found: ${requirement}`);
+      process.exit(1);
+    }
+  }
+
+  // Resolve and read the file
+  let content: string;
+  try {
+    content = await readFile(resolve(cwd, file), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      console.error(`File not found: ${file}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  let parsed: CoverageParseResult;
+  try {
+    parsed = parseCoverage(content, format as CoverageFormat | undefined);
+  } catch (error) {
+    console.error(`Failed to parse ${file}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const files = normalizeCoveragePaths(parsed.files, cwd);
+  const tests: Record<string, FileCoverage> = {};
+  for (const [name, testFiles] of Object.entries(parsed.tests)) {
+    tests[name] = normalizeCoveragePaths(testFiles, cwd);
+  }
+
+  // A requirement's report is kept alongside the whole-run coverage;
+  // a whole-run report replaces the previous one
+  const existing = await loadCoverage(cwd);
+  const importedAt = new Date().toISOString();
+  let data: CoverageData;
+  if (requirement) {
+    data = existing ?? {
+      importedAt,
+      sourceFile: file,
+      format: parsed.format,
+      files: {},
+      tests: {},
+      requirements: {},
+    };
+    data.importedAt = importedAt;
+    data.requirements[requirement] = files;
+  } else {
+    data = {
+      importedAt,
+      sourceFile: file,
+      format: parsed.format,
+      files,
+      tests,
+      requirements: existing?.requirements ?? {},
+    };
+  }
+  await saveCoverage(cwd, data);
+
+  // Print summary
+  const fileCount = Object.keys(files).length;
+  console.log(`Imported ${parsed.format} coverage for ${fileCount} file(s) from ${file}`);
+  if (requirement) {
+    console.log(`  Attributed to ${requirement}`);
+  } else if (Object.keys(tests).length > 0) {
+    console.log(`  Per-test coverage for ${Object.keys(tests).length} test(s)`);
+  }
+
+  // Show what each requirement's tests execute
+  const { requirements } = await loadAllRequirements(cwd);
+  const mapped = requirements
+    .map((req) => ({ req, coverage: getRequirementCoverage(req, data) }))
+    .filter(({ coverage }) => coverage && coverage.evidence !== "run");
+
+  if (mapped.length > 0) {
+    console.log("\nRequirement coverage:");
+    for (const { req, coverage } of mapped) {
+      const source = coverage!.evidence === "tests" ? "linked tests" : "test set";
+      console.log(
+        `  ${req.path}: ${Object.keys(coverage!.files).length} file(s), ` +
+          `${countLines(coverage!.files)} line(s) (${source})`
+      );
+    }
+  } else {
+    console.log("\nNo per-test coverage matched linked tests; requirements are checked against the whole run.");
+    console.log("Import a run of one requirement's tests with --requirement <path> for precise checks.");
+  }
+
+  console.log(`\nCoverage saved to .requirements/${COVERAGE_FILE}`);
+}
@@ -0,0 +1,164 @@
+/**
+ * Import requirements from Cucumber .feature files
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { glob } from "glob";
+import { loadConfig, loadRequirement, saveRequirement } from "../lib/store";
+import { parseFeature } from "../lib/gherkin";
+import { featureToRequirements, type ImportedRequirement } from "../lib/features";
+import {
+  applyTransition,
+  getCurrentUser,
+  getInitialState,
+  getStateNames,
+  getWorkflow,
+} from "../lib/workflow";
+import type { ParsedRequirement, Requirement } from "../lib/types";
+
+/**
+ * Apply an imported scenario to an existing requirement. Tests, sources,
+ * assessments and questions are kept; scenarios are replaced by name. How the
+ * feature was written is replaced with the imported one.
+ * A status tag is applied by the caller, so it gets logged.
+ */
+function updateRequirement(data: Requirement, imported: ImportedRequirement): Requirement {
+  data.gherkin = imported.gherkin;
+  if (imported.examples) {
+    data.examples = imported.examples;
+  } else {
+    delete data.examples;
+  }
+
+  if (imported.scenarios.length > 0) {
+    const scenarios = [...(data.scenarios ?? [])];
+    for (const scenario of imported.scenarios) {
+      const index = scenarios.findIndex((s) => s.name === scenario.name);
+      if (index >= 0) {
+        scenarios[index] = { ...scenarios[index], ...scenario };
+      } else {
+        scenarios.push(scenario);
+      }
+    }
+    data.scenarios = scenarios;
+  }
+
+  if (imported.priority) data.priority = imported.priority;
+  data.feature = imported.feature;
+  return data;
+}
+
+export async function importFeatures(args: {
+  cwd: string;
+  pattern: string; // Glob of .feature files, relative to cwd
+}): Promise<void> {
+  const { cwd, pattern } = args;
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+  const workflow = getWorkflow(config);
+
+  const files = (await glob(pattern, { cwd, nodir: true, posix: true, ignore: ["**/node_modules/**"] })).sort();
+  if (files.length === 0) {
+    console.error(`No feature files match ${pattern}`);
+    process.exit(1);
+  }
+
+  // Parse everything before writing anything
+  const imports: Array<{ file: string; featureName: string; requirement: ImportedRequirement }> = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    const result = parseFeature(await readFile(join(cwd, file), "utf-8"));
+    if (!result.success) {
+      errors.push(`${file}: ${result.error}`);
+      continue;
+    }
+    for (const requirement of featureToRequirements(result.feature, getStateNames(workflow))) {
+      imports.push({ file, featureName: result.feature.name, requirement });
+    }
+  }
+
+  // Two scenarios mapping to the same requirement would overwrite each other
+  const seen = new Map<string, string>();
+  for (const { file, requirement } of imports) {
+    const location = `${file}:${requirement.line}`;
+    const previous = seen.get(requirement.path);
+    if (previous) {
+      errors.push(`${location}: maps to ${requirement.path}, already imported from ${previous}`);
+    }
+    seen.set(requirement.path, location);
+  }
+
+  // Existing requirements must load before they can be updated
+  const existing = new Map<string, ParsedRequirement | null>();
+  for (const { requirement } of imports) {
+    try {
+      existing.set(requirement.path, await loadRequirement(cwd, requirement.path, workflow));
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  if (errors.length > 0) {
+    console.error("Cannot import feature files:");
+    for (const error of errors) {
+      console.error(`  ${error}`);
+    }
+    process.exit(1);
+  }
+
+  const by = await getCurrentUser(cwd);
+  let created = 0;
+  let updated = 0;
+  for (const { file, featureName, requirement } of imports) {
+    const current = existing.get(requirement.path);
+    let data: Requirement;
+
+    if (current) {
+      data = updateRequirement(current.data, requirement);
+      updated++;
+      console.log(`  updated ${requirement.path}`);
+    } else {
+      data = updateRequirement(
+        {
+          gherkin: requirement.gherkin,
+          mainSource: {
+            type: "doc",
+            description: featureName ? `${file} (Feature: ${featureName})` : file,
+          },
+          tests: [],
+          status: getInitialState(workflow),
+        },
+        requirement
+      );
+      created++;
+      console.log(`  created ${requirement.path}`);
+    }
+
+    // Status tags move the requirement, recorded in its status log
+    if (requirement.status && requirement.status !== data.status) {
+      applyTransition(data, requirement.status, by, `Imported from ${file}`);
+    }
+
+    // NFR tags add categories that aren't tracked yet
+    const nfrs = data.nfrs ?? [];
+    for (const category of requirement.nfrCategories) {
+      if (!nfrs.some((nfr) => nfr.category === category)) {
+        nfrs.push({ category, description: `Tagged @${category} in ${file}` });
+      }
+    }
+    if (nfrs.length > 0) data.nfrs = nfrs;
+
+    await saveRequirement(cwd, requirement.path, data);
+  }
+
+  console.log(
+    `\nImported ${imports.length} requirement(s) from ${files.length} feature file(s): ` +
+      `${created} created, ${updated} updated`
+  );
+}
@@ -6,6 +6,7 @@ import { copyFile, readFile } from "fs/promises";
 import { resolve, join } from "path";
 import { loadConfig } from "../lib/store";
 import { junitXml } from "../lib/result-parsers";
+import { recordTestRun } from "../lib/history";
 import { REQUIREMENTS_DIR, TEST_RESULTS_FILE } from "../lib/types";
 
 export async function importResults(args: {
@@ -44,12 +45,15 @@ export async function importResults(args: {
   }
 
   // Parse to get summary for display
-  const { summary } = junitXml.parse(content);
+  const { results, summary } = junitXml.parse(content);
 
   // Copy the file to .requirements/test-results.xml
   const destPath = join(cwd, REQUIREMENTS_DIR, TEST_RESULTS_FILE);
   await copyFile(filePath, destPath);
 
+  // Keep the run in the history
+  await recordTestRun(cwd, results, file);
+
   // Print summary
   console.log(`Imported ${summary.total} test results from ${file}`);
   console.log(`  Passed: ${summary.passed}`);
@@ -7,6 +7,7 @@ import {
   createRequirementsDir,
   saveConfig,
 } from "../lib/store";
+import { getFrameworkAdapter, isValidFramework, adapters } from "../lib/test-frameworks";
 import type { Config } from "../lib/types";
 
 export async function init(args: {
@@ -14,8 +15,21 @@ export async function init(args: {
   force?: boolean;
   testRunner?: string;
   testGlob?: string;
+  framework?: string;
 }): Promise<void> {
-  const { cwd, force, testRunner = "bun test", testGlob = "**/*.test.{ts,js}" } = args;
+  const { cwd, force, framework } = args;
+
+  // Validate framework
+  if (framework !== undefined && !isValidFramework(framework)) {
+    console.error(`Invalid framework: ${framework}`);
+    console.error(`Must be one of: ${Object.keys(adapters).join(", ")}`);
+    process.exit(1);
+  }
+
+  // Default the runner command and test glob to the framework's
+  const adapter = getFrameworkAdapter(framework);
+  const testRunner = args.testRunner ?? adapter.defaultRunner;
+  const testGlob = args.testGlob ?? adapter.defaultTestGlob;
 
   // Check for existing config
   if (await requirementsDirExists(cwd)) {
@@ -32,6 +46,9 @@ export async function init(args: {
     testRunner,
     testGlob,
   };
+  if (framework && isValidFramework(framework)) {
+    config.framework = framework;
+  }
 
   // Create directory and save config
   await createRequirementsDir(cwd);
@@ -40,4 +57,7 @@ export async function init(args: {
   console.log("Initialized .requirements/");
   console.log(`  testRunner: ${testRunner}`);
   console.log(`  testGlob: ${testGlob}`);
+  if (config.framework) {
+    console.log(`  framework: ${config.framework}`);
+  }
 }
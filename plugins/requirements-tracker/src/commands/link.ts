@@ -1,5 +1,5 @@
 /**
- * Link a test to a requirement
+ * Link a test to a requirement or to one of its scenarios
  */
 
 import {
@@ -7,16 +7,26 @@ import {
   loadRequirement,
   saveRequirement,
   isValidRequirementPath,
+  parseRequirementTarget,
 } from "../lib/store";
 import { findTest } from "../lib/test-parser";
+import {
+  applyTransition,
+  getCurrentUser,
+  getImplementedTransition,
+  getWorkflow,
+  isDeprecated,
+  isImplemented,
+} from "../lib/workflow";
 import type { TestLink } from "../lib/types";
 
 export async function link(args: {
   cwd: string;
-  path: string; // e.g., "auth/REQ_login.yml"
+  path: string; // e.g., "auth/REQ_login.yml" or "auth/REQ_login.yml#invalid_password"
   testSpec: string; // e.g., "src/auth.test.ts:validates login"
 }): Promise<void> {
-  const { cwd, path, testSpec } = args;
+  const { cwd, testSpec } = args;
+  const { path, scenario: scenarioName } = parseRequirementTarget(args.path);
 
   // Parse test spec
   const colonIndex = testSpec.indexOf(":");
@@ -47,14 +57,32 @@ export async function link(args: {
     console.error("Not initialized. Run 'req init' first.");
     process.exit(1);
   }
+  const workflow = getWorkflow(config);
 
   // Load requirement
-  const requirement = await loadRequirement(cwd, path);
+  const requirement = await loadRequirement(cwd, path, workflow);
   if (!requirement) {
     console.error(`Requirement not found: ${path}`);
     process.exit(1);
   }
 
+  // Resolve the scenario when linking to one
+  const scenario =
+    scenarioName !== undefined
+      ? requirement.data.scenarios?.find((s) => s.name === scenarioName)
+      : undefined;
+  if (scenarioName !== undefined && !scenario) {
+    console.error(`Scenario not found: ${scenarioName}`);
+    const names = (requirement.data.scenarios ?? []).map((s) => s.name);
+    console.error(
+      names.length > 0
+        ? `Scenarios of ${path}: ${names.join(", ")}`
+        : `${path} has no scenarios.`
+    );
+    process.exit(1);
+  }
+  const tests = scenario ? (scenario.tests ??= []) : requirement.data.tests;
+
   // Find and extract the test
   const extractedTest = await findTest(cwd, file, identifier);
   if (!extractedTest) {
@@ -63,30 +91,34 @@ export async function link(args: {
     process.exit(1);
   }
 
+  // Store the test's canonical identifier (a fully qualified name may have been given)
+  const canonicalIdentifier = extractedTest.identifier;
+
   // Check for duplicate
-  if (
-    requirement.data.tests.some(
-      (t) => t.file === file && t.identifier === identifier
-    )
-  ) {
-    console.log("Test is already linked to this requirement.");
+  if (tests.some((t) => t.file === file && t.identifier === canonicalIdentifier)) {
+    console.log(`Test is already linked to this ${scenario ? "scenario" : "requirement"}.`);
     return;
   }
 
   // Create test link
   const newLink: TestLink = {
     file,
-    identifier,
+    identifier: canonicalIdentifier,
     hash: extractedTest.hash,
   };
 
-  // Add to requirement
-  requirement.data.tests.push(newLink);
-
-  // Auto-set status to done when tests are linked
-  if (requirement.data.status === "planned") {
-    requirement.data.status = "done";
-    console.log("Status changed from 'planned' to 'done' (tests linked)");
+  // Add to requirement (or scenario)
+  tests.push(newLink);
+
+  // Auto-set status to done when tests are linked (if the workflow allows it directly)
+  const currentStatus = requirement.data.status;
+  const doneStatus =
+    isImplemented(workflow, currentStatus) || isDeprecated(workflow, currentStatus)
+      ? undefined
+      : getImplementedTransition(workflow, currentStatus);
+  if (doneStatus) {
+    applyTransition(requirement.data, doneStatus, await getCurrentUser(cwd), "Tests linked");
+    console.log(`Status changed from '${currentStatus}' to '${doneStatus}' (tests linked)`);
   }
 
   // Clear stale AI assessment data, but preserve suggested tests/scenarios
@@ -108,8 +140,13 @@ export async function link(args: {
   // Save requirement file
   await saveRequirement(cwd, path, requirement.data);
 
-  console.log(`Linked: ${file}:${identifier}`);
+  console.log(`Linked: ${file}:${canonicalIdentifier}`);
   console.log(`  Requirement: ${path}`);
+  if (scenario) {
+    console.log(`  Scenario: ${scenario.name}`);
+  }
   console.log(`  Hash: ${newLink.hash.slice(0, 12)}...`);
-  console.log(`\nRequirement now has ${requirement.data.tests.length} test(s) linked.`);
+  console.log(
+    `\n${scenario ? "Scenario" : "Requirement"} now has ${tests.length} test(s) linked.`
+  );
 }
@@ -0,0 +1,65 @@
+/**
+ * Show the change history of a requirement from git
+ */
+
+import { loadConfig, isValidRequirementPath } from "../lib/store";
+import { getRequirementLog } from "../lib/requirement-log";
+
+export async function log(args: {
+  cwd: string;
+  path: string;
+  limit?: number; // Most recent entries to show
+  json?: boolean;
+}): Promise<void> {
+  const { cwd, path, limit, json } = args;
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  if (!isValidRequirementPath(path)) {
+    console.error(`Invalid requirement path: ${path}`);
+    console.error("Path must end with a REQ_*.yml file");
+    process.exit(1);
+  }
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    console.error("--limit must be a positive number");
+    process.exit(1);
+  }
+
+  let entries;
+  try {
+    entries = await getRequirementLog(cwd, path);
+  } catch (error) {
+    console.error(`Cannot read the history of ${path}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  if (limit !== undefined) {
+    entries = entries.slice(0, limit);
+  }
+
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log(`No history for ${path} (not committed yet?)`);
+    return;
+  }
+
+  console.log(path);
+  for (const entry of entries) {
+    const header = entry.commit
+      ? [entry.commit.slice(0, 7), entry.date.slice(0, 10), entry.author, entry.subject]
+      : ["uncommitted", entry.subject];
+    console.log(`\n${header.join("  ")}`);
+    for (const change of entry.changes) {
+      console.log(`  - ${change}`);
+    }
+  }
+}
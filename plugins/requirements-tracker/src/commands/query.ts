@@ -0,0 +1,107 @@
+/**
+ * Find requirements matching a query expression
+ */
+
+import { loadConfig, loadAllRequirements, loadIgnoredTests, getAllTestLinks } from "../lib/store";
+import { getTestsWithCache } from "../lib/cache";
+import { buildCheckResult } from "../lib/check-result";
+import { getWorkflow } from "../lib/workflow";
+import { matchesQuery, parseQuery } from "../lib/query";
+import type { VerificationStatus } from "../lib/types";
+
+interface QueryMatch {
+  path: string;
+  status: string;
+  priority?: string;
+  verification: VerificationStatus;
+  testCount: number;
+}
+
+export async function query(args: {
+  cwd: string;
+  expr: string;
+  json?: boolean;
+}): Promise<void> {
+  const { cwd, expr, json } = args;
+
+  const parsed = parseQuery(expr);
+  if (!parsed.success) {
+    console.error(`Invalid query: ${parsed.error}`);
+    process.exit(1);
+  }
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  const loadResult = await loadAllRequirements(cwd);
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+  const requirements = loadResult.requirements;
+
+  // Verification status as 'req check' reports it (without updating hashes)
+  const ignoredTestsFile = await loadIgnoredTests(cwd);
+  const ignoredTestKeys = new Set(ignoredTestsFile.tests.map((t) => `${t.file}:${t.identifier}`));
+  const { tests } = await getTestsWithCache(cwd, config.testGlob);
+  const checkResult = buildCheckResult(
+    requirements,
+    tests,
+    ignoredTestKeys,
+    new Set(),
+    [],
+    getWorkflow(config)
+  );
+  const verification = new Map(
+    checkResult.requirements.flatMap((group) => group.requirements).map((req) => [req.id, req.verification])
+  );
+
+  const matches: QueryMatch[] = [];
+  for (const req of requirements) {
+    const reqVerification = verification.get(req.path) ?? "n/a";
+    if (!matchesQuery(parsed.query, { ...req.data, path: req.path, verification: reqVerification })) {
+      continue;
+    }
+    matches.push({
+      path: req.path,
+      status: req.data.status,
+      priority: req.data.priority,
+      verification: reqVerification,
+      testCount: getAllTestLinks(req.data).length,
+    });
+  }
+  matches.sort((a, b) => a.path.localeCompare(b.path));
+
+  if (json) {
+    console.log(JSON.stringify(matches, null, 2));
+    return;
+  }
+
+  if (matches.length === 0) {
+    console.log("No matching requirements");
+    return;
+  }
+
+  const rows = [
+    ["PATH", "STATUS", "PRIORITY", "VERIFICATION", "TESTS"],
+    ...matches.map((match) => [
+      match.path,
+      match.status,
+      match.priority ?? "-",
+      match.verification,
+      String(match.testCount),
+    ]),
+  ];
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd());
+  }
+  console.log(`\n${matches.length} requirement(s)`);
+}
@@ -0,0 +1,85 @@
+/**
+ * List clarification questions across requirements
+ */
+
+import { loadConfig, loadAllRequirements, loadRequirementsInPath } from "../lib/store";
+import { getCurrentUser } from "../lib/workflow";
+import { describeQuestion, listQuestions, type QuestionFilter } from "../lib/questions";
+
+export async function questions(args: {
+  cwd: string;
+  path?: string; // Path prefix filter
+  mine?: boolean; // Only questions owned by the current user
+  owner?: string; // Only questions owned by this person
+  overdue?: boolean; // Only unanswered questions past their due date
+  all?: boolean; // Include answered questions
+  json?: boolean;
+}): Promise<void> {
+  const { cwd, path, mine, owner, overdue, all, json } = args;
+
+  if (mine && owner) {
+    console.error("Specify only one of --mine and --owner");
+    process.exit(1);
+  }
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  const loadResult = path ? await loadRequirementsInPath(cwd, path) : await loadAllRequirements(cwd);
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  // --mine matches the owner against git user.name and the OS user
+  const me = [await getCurrentUser(cwd), process.env.USER].filter((name): name is string => !!name);
+  const filter: QuestionFilter = {
+    answered: all || overdue ? undefined : false,
+    overdue,
+    owners: mine ? me : owner ? [owner] : undefined,
+  };
+  const entries = listQuestions(loadResult.requirements, filter);
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        entries.map((entry) => ({ path: entry.path, number: entry.number, ...entry.question, overdue: entry.overdue })),
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (entries.length === 0) {
+    const what = overdue ? "overdue questions" : all ? "questions" : "unanswered questions";
+    console.log(`No ${what}${mine ? " for you" : owner ? ` for ${owner}` : ""}.`);
+    return;
+  }
+
+  let currentPath: string | undefined;
+  for (const { path: reqPath, number, question } of entries) {
+    if (reqPath !== currentPath) {
+      console.log(`${currentPath === undefined ? "" : "\n"}${reqPath}`);
+      currentPath = reqPath;
+    }
+    const details = describeQuestion(question);
+    console.log(`  #${number} ${question.question}${details ? ` (${details})` : ""}`);
+    if (question.answer) {
+      console.log(`     A: ${question.answer}${question.scenario ? ` (scenario: ${question.scenario})` : ""}`);
+    }
+  }
+
+  const unanswered = entries.filter((entry) => !entry.question.answer).length;
+  const overdueCount = entries.filter((entry) => entry.overdue).length;
+  console.log(
+    `\n${entries.length} question(s), ${unanswered} unanswered${overdueCount > 0 ? `, ${overdueCount} overdue` : ""}`
+  );
+}
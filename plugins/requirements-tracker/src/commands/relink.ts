@@ -0,0 +1,139 @@
+/**
+ * Repair test links broken by renamed or moved tests
+ */
+
+import {
+  loadConfig,
+  loadAllRequirements,
+  loadIgnoredTests,
+  saveRequirement,
+} from "../lib/store";
+import { getTestsWithCache } from "../lib/cache";
+import { buildCheckResult } from "../lib/check-result";
+import { getWorkflow } from "../lib/workflow";
+import {
+  applyRelink,
+  getFileRenames,
+  RELINK_CONFIDENCES,
+  suggestRelinks,
+} from "../lib/relink";
+import type { RelinkConfidence } from "../lib/types";
+
+export async function relink(args: {
+  cwd: string;
+  apply?: boolean; // Rewrite the links (default: only show the suggestions)
+  minConfidence?: string; // high or medium (default: medium)
+  json?: boolean;
+  noCache?: boolean;
+}): Promise<void> {
+  const { cwd, apply, json, noCache } = args;
+  const minConfidence = (args.minConfidence ?? "medium") as RelinkConfidence;
+
+  if (!RELINK_CONFIDENCES.includes(minConfidence)) {
+    console.error(`Unknown confidence "${minConfidence}". Use one of: ${RELINK_CONFIDENCES.join(", ")}`);
+    process.exit(1);
+  }
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+  const workflow = getWorkflow(config);
+
+  const loadResult = await loadAllRequirements(cwd);
+  if (loadResult.errors.length > 0) {
+    console.error("Validation errors:");
+    for (const error of loadResult.errors) {
+      console.error(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+  const requirements = loadResult.requirements;
+
+  // Broken links and orphaned tests, as `req check` sees them
+  const ignoredTestsFile = await loadIgnoredTests(cwd);
+  const ignoredTestKeys = new Set(ignoredTestsFile.tests.map((t) => `${t.file}:${t.identifier}`));
+  const { tests } = await getTestsWithCache(cwd, config.testGlob, noCache);
+  const { brokenLinks, orphanedTests } = buildCheckResult(
+    requirements,
+    tests,
+    ignoredTestKeys,
+    undefined,
+    undefined,
+    workflow
+  );
+
+  const suggestions = suggestRelinks(brokenLinks, orphanedTests, await getFileRenames(cwd)).filter(
+    (suggestion) => minConfidence === "medium" || suggestion.confidence === "high"
+  );
+
+  // Rewrite the links
+  const changed = new Set<string>();
+  const kept = new Set<string>();
+  const invalidated = new Set<string>();
+  if (apply && suggestions.length > 0) {
+    const byPath = new Map(requirements.map((req) => [req.path, req]));
+    for (const suggestion of suggestions) {
+      const result = applyRelink(suggestion, byPath);
+      result.changed.forEach((path) => changed.add(path));
+      result.kept.forEach((path) => kept.add(path));
+      result.invalidated.forEach((path) => invalidated.add(path));
+    }
+    for (const path of changed) {
+      await saveRequirement(cwd, path, byPath.get(path)!.data);
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ brokenLinks, suggestions, applied: !!apply }, null, 2));
+    return;
+  }
+
+  if (brokenLinks.length === 0) {
+    console.log("No broken test links.");
+    return;
+  }
+
+  // Group broken links by test
+  const byTest = new Map<string, string[]>();
+  for (const link of brokenLinks) {
+    const key = `${link.file}:${link.identifier}`;
+    const target = link.scenario !== undefined ? `${link.requirement}#${link.scenario}` : link.requirement;
+    byTest.set(key, [...(byTest.get(key) ?? []), target]);
+  }
+  const suggestionsByTest = new Map(suggestions.map((s) => [`${s.file}:${s.identifier}`, s]));
+
+  console.log(`Broken test links: ${brokenLinks.length}`);
+  for (const [key, targets] of byTest) {
+    console.log(`\n  ${key}`);
+    console.log(`    linked from: ${targets.join(", ")}`);
+    const suggestion = suggestionsByTest.get(key);
+    if (suggestion) {
+      console.log(
+        `    -> ${suggestion.test.file}:${suggestion.test.identifier} [${suggestion.confidence}] ${suggestion.reasons.join(", ")}`
+      );
+    } else {
+      console.log("    no matching test found - link the new test or unlink this one");
+    }
+  }
+  console.log();
+
+  if (suggestions.length === 0) {
+    return;
+  }
+  if (!apply) {
+    console.log(`Run 'req relink --apply' to apply ${suggestions.length} suggestion(s).`);
+    return;
+  }
+
+  console.log(`Relinked ${suggestions.length} test(s) in ${changed.size} requirement(s).`);
+  const keptOnly = [...kept].filter((path) => !invalidated.has(path));
+  if (keptOnly.length > 0) {
+    console.log(`  AI assessment kept (same test body): ${keptOnly.join(", ")}`);
+  }
+  if (invalidated.size > 0) {
+    console.log(`  AI assessment invalidated (test body changed): ${[...invalidated].join(", ")}`);
+  }
+}
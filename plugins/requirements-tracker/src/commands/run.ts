@@ -2,7 +2,7 @@
  * Run tests command
  */
 
-import { loadConfig, loadRequirement, isValidRequirementPath } from "../lib/store";
+import { loadConfig, loadRequirement, isValidRequirementPath, getAllTestLinks } from "../lib/store";
 import { runTests, runMultipleTests } from "../lib/test-runner";
 
 export async function run(args: {
@@ -33,16 +33,17 @@ export async function run(args: {
       process.exit(1);
     }
 
-    if (requirement.data.tests.length === 0) {
+    const tests = getAllTestLinks(requirement.data);
+    if (tests.length === 0) {
       console.log(`No tests linked to ${target}`);
       return;
     }
 
-    console.log(`Running ${requirement.data.tests.length} test(s) for ${target}...\n`);
+    console.log(`Running ${tests.length} test(s) for ${target}...\n`);
 
     const result = await runMultipleTests(
       cwd,
-      requirement.data.tests.map((t) => ({ file: t.file, identifier: t.identifier })),
+      tests.map((t) => ({ file: t.file, identifier: t.identifier })),
       true // stream output
     );
 
@@ -1,19 +1,29 @@
 /**
- * Get or set implementation status for a requirement
+ * Get or set the lifecycle status of a requirement
  */
 
-import { loadConfig, loadRequirement, saveRequirement } from "../lib/store";
-import type { ImplementationStatus } from "../lib/types";
+import { loadConfig, loadRequirement, saveRequirement, getAllTestLinks } from "../lib/store";
+import {
+  applyTransition,
+  getAllowedTransitions,
+  getCurrentUser,
+  getStateNames,
+  getWorkflow,
+  isImplemented,
+} from "../lib/workflow";
 
 interface StatusArgs {
   cwd: string;
   path: string;
-  done?: boolean;
-  planned?: boolean;
+  state?: string; // Target state, e.g. "in-review"
+  done?: boolean; // Shortcut for state "done"
+  planned?: boolean; // Shortcut for state "planned"
+  reason?: string; // Why the status changes (kept in the status log)
+  by?: string; // Who changes it (default: git user.name)
 }
 
 export async function status(args: StatusArgs): Promise<void> {
-  const { cwd, path, done, planned } = args;
+  const { cwd, path, state, done, planned, reason } = args;
 
   // Load config
   const config = await loadConfig(cwd);
@@ -21,29 +31,45 @@ export async function status(args: StatusArgs): Promise<void> {
     console.error("Not initialized. Run 'req init' first.");
     process.exit(1);
   }
+  const workflow = getWorkflow(config);
 
   // Load requirement
-  const requirement = await loadRequirement(cwd, path);
+  const requirement = await loadRequirement(cwd, path, workflow);
   if (!requirement) {
     console.error(`Requirement not found: ${path}`);
     process.exit(1);
   }
+  const currentStatus = requirement.data.status;
 
-  // If no flags, just show current status
-  if (!done && !planned) {
-    console.log(`${path}: ${requirement.data.status}`);
+  // If no state given, just show current status
+  if (!state && !done && !planned) {
+    console.log(`${path}: ${currentStatus}`);
+    const allowed = getAllowedTransitions(workflow, currentStatus);
+    console.log(`  Allowed transitions: ${allowed.length > 0 ? allowed.join(", ") : "(none)"}`);
+    const log = requirement.data.statusLog ?? [];
+    if (log.length > 0) {
+      console.log("\nStatus log:");
+      for (const entry of log) {
+        const why = entry.reason ? ` - ${entry.reason}` : "";
+        console.log(`  ${entry.at}  ${entry.from} -> ${entry.to}  (${entry.by})${why}`);
+      }
+    }
     return;
   }
 
-  // Validate mutually exclusive flags
-  if (done && planned) {
-    console.error("Cannot specify both --done and --planned");
+  // Validate mutually exclusive targets
+  if ([state, done, planned].filter(Boolean).length > 1) {
+    console.error("Specify only one of <state>, --done and --planned");
     process.exit(1);
   }
 
   // Determine new status
-  const newStatus: ImplementationStatus = done ? "done" : "planned";
-  const currentStatus = requirement.data.status;
+  const newStatus = state ?? (done ? "done" : "planned");
+  const states = getStateNames(workflow);
+  if (!states.includes(newStatus)) {
+    console.error(`Unknown state "${newStatus}". Must be one of: ${states.join(", ")}`);
+    process.exit(1);
+  }
 
   // Check if already at desired status
   if (currentStatus === newStatus) {
@@ -51,15 +77,28 @@ export async function status(args: StatusArgs): Promise<void> {
     return;
   }
 
+  // Validate the transition against the workflow
+  const allowed = getAllowedTransitions(workflow, currentStatus);
+  if (!allowed.includes(newStatus)) {
+    console.error(`Transition not allowed: ${currentStatus} -> ${newStatus}`);
+    console.error(
+      allowed.length > 0
+        ? `From ${currentStatus} a requirement can move to: ${allowed.join(", ")}`
+        : `${currentStatus} is a final state.`
+    );
+    process.exit(1);
+  }
+
   // Warn if marking done without tests
-  if (newStatus === "done" && requirement.data.tests.length === 0) {
-    console.log("Warning: Marking as done without any linked tests.");
+  if (isImplemented(workflow, newStatus) && getAllTestLinks(requirement.data).length === 0) {
+    console.log(`Warning: Marking as ${newStatus} without any linked tests.`);
     console.log(`Consider linking tests with: req link ${path} <file:identifier>`);
     console.log();
   }
 
-  // Update status
-  requirement.data.status = newStatus;
+  // Update status and record the transition
+  const by = args.by ?? (await getCurrentUser(cwd));
+  applyTransition(requirement.data, newStatus, by, reason);
   await saveRequirement(cwd, path, requirement.data);
 
   console.log(`Status updated: ${path}`);
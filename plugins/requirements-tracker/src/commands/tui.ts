@@ -0,0 +1,211 @@
+/**
+ * Keyboard-driven terminal UI over the `req check` data
+ */
+
+import {
+  loadConfig,
+  loadAllRequirements,
+  loadIgnoredTests,
+  loadRequirement,
+  saveRequirement,
+  getAllTestLinks,
+} from "../lib/store";
+import { getTestsWithCache } from "../lib/cache";
+import { buildCheckResult } from "../lib/check-result";
+import { findFlakyTests, loadTestHistory } from "../lib/history";
+import { getTestLinkResult, loadTestResults, mergeTestResults, saveTestResults } from "../lib/result-store";
+import { runMultipleTests } from "../lib/test-runner";
+import { commitBatch, planBatch, stageBatch } from "../lib/batch";
+import { getCurrentUser, getWorkflow } from "../lib/workflow";
+import {
+  applyQuestionEdit,
+  buildRows,
+  createTuiState,
+  decodeKeys,
+  handleKey,
+  renderScreen,
+  restoreCursor,
+  type TuiData,
+  type TuiEffect,
+  type TuiState,
+} from "../lib/tui";
+import type { Config } from "../lib/types";
+
+const ENTER_SCREEN = "\x1b[?1049h\x1b[?25l"; // Alternate screen, hide cursor
+const LEAVE_SCREEN = "\x1b[?25h\x1b[?1049l";
+
+async function loadData(cwd: string, config: Config, noCache?: boolean): Promise<TuiData> {
+  const workflow = getWorkflow(config);
+  const loadResult = await loadAllRequirements(cwd);
+  if (loadResult.errors.length > 0) {
+    throw new Error(`Validation errors:\n${loadResult.errors.map((e) => `  ${e.message}`).join("\n")}`);
+  }
+  const requirements = loadResult.requirements;
+
+  const ignoredTestsFile = await loadIgnoredTests(cwd);
+  const ignoredTestKeys = new Set(ignoredTestsFile.tests.map((t) => `${t.file}:${t.identifier}`));
+  const { tests } = await getTestsWithCache(cwd, config.testGlob, noCache);
+  const flakyTestKeys = findFlakyTests(
+    requirements.flatMap((req) => getAllTestLinks(req.data)),
+    await loadTestHistory(cwd)
+  );
+  const testResults = (await loadTestResults(cwd))?.results ?? [];
+
+  return {
+    result: buildCheckResult(requirements, tests, ignoredTestKeys, flakyTestKeys, testResults, workflow),
+    requirements,
+    testResults,
+    workflow,
+  };
+}
+
+/**
+ * Carry out an effect of a key
+ * @returns the message for the status line
+ */
+async function applyEffect(cwd: string, config: Config, effect: TuiEffect): Promise<string | undefined> {
+  switch (effect.type) {
+    case "run": {
+      const previousResults = (await loadTestResults(cwd))?.results ?? [];
+      const run = await runMultipleTests(cwd, effect.tests);
+      // Keep results of files that weren't part of this run
+      if (run.results.length > 0) {
+        await saveTestResults(cwd, mergeTestResults(previousResults, run.results));
+      }
+      const results = effect.tests.map((test) => getTestLinkResult({ ...test, hash: "" }, run.results));
+      const passed = results.filter((r) => r === "passed").length;
+      const failed = results.filter((r) => r === "failed" || r === "error").length;
+      const notRun = results.length - passed - failed;
+      return `${effect.label}: ${passed} passed, ${failed} failed${notRun ? `, ${notRun} without a result` : ""}`;
+    }
+
+    case "batch": {
+      const workflow = getWorkflow(config);
+      const loadResult = await loadAllRequirements(cwd);
+      const plan = await planBatch({
+        cwd,
+        config,
+        workflow,
+        requirements: loadResult.requirements,
+        operations: effect.operations,
+        by: await getCurrentUser(cwd),
+      });
+      const staged = plan.errors.length === 0 ? await stageBatch(config, workflow, plan.changes) : undefined;
+      const errors = [...plan.errors, ...(staged?.errors ?? [])];
+      if (errors.length > 0) {
+        // Drop the "operation 1 (...): " prefix - there is only one
+        return errors[0].replace(/^operation \d+ \([^)]*\): /, "");
+      }
+      await commitBatch(cwd, plan.changes);
+      return effect.description;
+    }
+
+    case "question": {
+      const workflow = getWorkflow(config);
+      const req = await loadRequirement(cwd, effect.path, workflow);
+      if (!req || !applyQuestionEdit(req.data, effect)) {
+        return `Question not found in ${effect.path}`;
+      }
+      await saveRequirement(cwd, effect.path, req.data);
+      if (effect.question !== undefined) return `Added a question to ${effect.path}`;
+      return effect.answer ? `Answered a question of ${effect.path}` : `Reopened a question of ${effect.path}`;
+    }
+  }
+  return undefined;
+}
+
+export async function tui(args: { cwd: string; noCache?: boolean }): Promise<void> {
+  const { cwd, noCache } = args;
+  const { stdin, stdout } = process;
+
+  if (!stdin.isTTY || !stdout.isTTY) {
+    console.error("req tui needs an interactive terminal. Use 'req ui' or 'req check' instead.");
+    process.exit(1);
+  }
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  let data: TuiData;
+  try {
+    data = await loadData(cwd, config, noCache);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  let state: TuiState = createTuiState();
+
+  const pageSize = () => Math.max(1, (stdout.rows ?? 24) - 2);
+  const render = () => {
+    const lines = renderScreen(state, data, stdout.columns ?? 80, stdout.rows ?? 24);
+    stdout.write(`\x1b[H${lines.map((line) => `${line}\x1b[K`).join("\r\n")}\x1b[J`);
+  };
+
+  const restoreTerminal = () => {
+    stdout.write(LEAVE_SCREEN);
+  };
+
+  stdout.write(ENTER_SCREEN);
+  process.on("exit", restoreTerminal);
+  stdin.setRawMode(true);
+  stdin.resume();
+  render();
+
+  await new Promise<void>((resolve) => {
+    let queue = Promise.resolve();
+    let done = false;
+
+    const quit = () => {
+      done = true;
+      stdin.off("data", onData);
+      stdout.off("resize", render);
+      stdin.setRawMode(false);
+      stdin.pause();
+      restoreTerminal();
+      process.off("exit", restoreTerminal);
+      resolve();
+    };
+
+    const onKey = async (key: string) => {
+      if (done) return;
+      const next = handleKey(state, key, data, pageSize());
+      state = next.state;
+      const effect = next.effect;
+      if (!effect) {
+        render();
+        return;
+      }
+      if (effect.type === "quit") {
+        quit();
+        return;
+      }
+
+      // Show "Running..." and the like while the effect runs
+      render();
+      const selected = buildRows(data, state)[state.cursor]?.key;
+      let message: string | undefined;
+      try {
+        message = effect.type === "reload" ? "Reloaded" : await applyEffect(cwd, config, effect);
+        data = await loadData(cwd, config, noCache);
+      } catch (error) {
+        message = (error as Error).message.split("\n")[0];
+      }
+      state = { ...restoreCursor(state, data, selected), message };
+      render();
+    };
+
+    // Keys are handled one at a time, in order, even while an effect runs
+    const onData = (chunk: Buffer) => {
+      for (const key of decodeKeys(chunk.toString("utf-8"))) {
+        queue = queue.then(() => onKey(key));
+      }
+    };
+
+    stdin.on("data", onData);
+    stdout.on("resize", render);
+  });
+}
@@ -1,17 +1,24 @@
 /**
- * Remove a test link from a requirement
+ * Remove a test link from a requirement or from one of its scenarios
  */
 
-import { loadConfig, loadRequirement, saveRequirement } from "../lib/store";
+import {
+  loadConfig,
+  loadRequirement,
+  saveRequirement,
+  parseRequirementTarget,
+} from "../lib/store";
+import { findTest } from "../lib/test-parser";
 
 interface UnlinkArgs {
   cwd: string;
-  path: string; // Requirement path e.g. "auth/REQ_login.yml"
+  path: string; // Requirement path e.g. "auth/REQ_login.yml", optionally "#<scenario>"
   testSpec: string; // "file:identifier" format
 }
 
 export async function unlink(args: UnlinkArgs): Promise<void> {
-  const { cwd, path, testSpec } = args;
+  const { cwd, testSpec } = args;
+  const { path, scenario: scenarioName } = parseRequirementTarget(args.path);
 
   // Parse test spec
   const colonIndex = testSpec.indexOf(":");
@@ -43,26 +50,50 @@ export async function unlink(args: UnlinkArgs): Promise<void> {
     process.exit(1);
   }
 
-  // Find test link
-  const testIndex = requirement.data.tests.findIndex(
+  // Resolve the scenario when unlinking from one
+  const scenario =
+    scenarioName !== undefined
+      ? requirement.data.scenarios?.find((s) => s.name === scenarioName)
+      : undefined;
+  if (scenarioName !== undefined && !scenario) {
+    console.error(`Scenario not found: ${scenarioName}`);
+    process.exit(1);
+  }
+  const target = scenario ? "scenario" : "requirement";
+  const tests = scenario ? (scenario.tests ?? []) : requirement.data.tests;
+
+  // Find test link - a plain nested test name resolves to the qualified
+  // identifier req link stored, the same way link looks the test up
+  let testIndex = tests.findIndex(
     (t) => t.file === file && t.identifier === identifier
   );
+  if (testIndex === -1) {
+    const extractedTest = await findTest(cwd, file, identifier);
+    if (extractedTest) {
+      testIndex = tests.findIndex(
+        (t) => t.file === file && t.identifier === extractedTest.identifier
+      );
+    }
+  }
 
   if (testIndex === -1) {
-    console.error(`Test not linked to this requirement: ${testSpec}`);
-    if (requirement.data.tests.length > 0) {
+    console.error(`Test not linked to this ${target}: ${testSpec}`);
+    if (tests.length > 0) {
       console.error("Currently linked tests:");
-      for (const test of requirement.data.tests) {
+      for (const test of tests) {
         console.error(`  - ${test.file}:${test.identifier}`);
       }
     } else {
-      console.error("No tests currently linked to this requirement.");
+      console.error(`No tests currently linked to this ${target}.`);
     }
     process.exit(1);
   }
 
   // Remove test link
-  requirement.data.tests.splice(testIndex, 1);
+  tests.splice(testIndex, 1);
+  if (scenario && tests.length === 0) {
+    delete scenario.tests;
+  }
 
   // Clear stale AI assessment data, but preserve suggested tests/scenarios
   if (requirement.data.aiAssessment) {
@@ -84,9 +115,9 @@ export async function unlink(args: UnlinkArgs): Promise<void> {
   await saveRequirement(cwd, path, requirement.data);
 
   console.log(`Unlinked: ${testSpec}`);
-  console.log(`  From: ${path}`);
+  console.log(`  From: ${scenario ? `${path}#${scenario.name}` : path}`);
   console.log(
-    `\nRequirement now has ${requirement.data.tests.length} test(s) linked.`
+    `\n${scenario ? "Scenario" : "Requirement"} now has ${tests.length} test(s) linked.`
   );
   if (requirement.data.aiAssessment) {
     console.log("AI assessment cleared (test coverage changed).");
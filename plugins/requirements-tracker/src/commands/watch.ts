@@ -0,0 +1,253 @@
+/**
+ * Watch test files and requirements, re-checking incrementally on change
+ */
+
+import { watch as watchPath, type FSWatcher } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { glob } from "glob";
+import { loadConfig, loadAllRequirements, loadIgnoredTests, getRequirementsDir } from "../lib/store";
+import { refreshTestsIncrementally } from "../lib/cache";
+import { getTestLinkResult, loadTestResults } from "../lib/result-store";
+import { runEachTest, type TestRunResult } from "../lib/test-runner";
+import { getWorkflow } from "../lib/workflow";
+import {
+  takeSnapshot,
+  diffSnapshots,
+  findAffectedTests,
+  formatDiff,
+  isEmptyDiff,
+  type WatchDiff,
+  type WatchSnapshot,
+} from "../lib/watch";
+import type { Config, ExtractedTest, ParsedRequirement, TestLink } from "../lib/types";
+
+// Wait for a burst of file events (editor saves, git checkouts) to settle
+const DEBOUNCE_MS = 200;
+
+export interface WatchState {
+  tests: ExtractedTest[];
+  requirements: ParsedRequirement[];
+  snapshot: WatchSnapshot;
+}
+
+export interface RecheckResult {
+  state: WatchState;
+  changedFiles: string[]; // Test files re-extracted or removed
+  errors: string[]; // Requirement files that failed validation
+  affected: TestLink[]; // Linked tests affected by the change
+  run: TestRunResult | null; // Result of re-running the affected tests
+  diff: WatchDiff | null; // null on the first check
+}
+
+/**
+ * Re-check after a change: re-extract changed test files through the cache,
+ * re-run only the linked tests they affect (each with its own name filter),
+ * and diff the new snapshot against the previous one. The first check (no
+ * previous state) runs no tests.
+ */
+export async function recheck(
+  cwd: string,
+  config: Config,
+  previous: WatchState | null,
+  options: { path?: string; noRun?: boolean } = {}
+): Promise<RecheckResult> {
+  const { path, noRun } = options;
+
+  const { tests, changedFiles } = await refreshTestsIncrementally(cwd, config.testGlob);
+
+  // Requirement files may be mid-edit - report them and keep checking the rest
+  const loadResult = await loadAllRequirements(cwd);
+  const errors = loadResult.errors.map((error) => error.message);
+  const requirements = loadResult.requirements;
+
+  const affected = previous
+    ? findAffectedTests(previous.tests, tests, previous.requirements, requirements, path)
+    : [];
+
+  let run: TestRunResult | null = null;
+  if (affected.length > 0 && !noRun) {
+    run = await runEachTest(
+      cwd,
+      affected.map((link) => ({ file: link.file, identifier: link.identifier }))
+    );
+  }
+
+  const results = (await loadTestResults(cwd))?.results ?? [];
+  const ignoredTestsFile = await loadIgnoredTests(cwd);
+  const ignoredTestKeys = new Set(
+    ignoredTestsFile.tests.map((t) => `${t.file}:${t.identifier}`)
+  );
+
+  const snapshot = takeSnapshot(
+    requirements,
+    tests,
+    results,
+    ignoredTestKeys,
+    path,
+    getWorkflow(config)
+  );
+
+  return {
+    state: { tests, requirements, snapshot },
+    changedFiles,
+    errors,
+    affected,
+    run,
+    diff: previous ? diffSnapshots(previous.snapshot, snapshot) : null,
+  };
+}
+
+function timestamp(): string {
+  return new Date().toTimeString().slice(0, 8);
+}
+
+function printSnapshot(snapshot: WatchSnapshot): void {
+  console.log(
+    `  stale: ${snapshot.stale.size}, failing: ${snapshot.failing.size}, ` +
+      `orphaned: ${snapshot.orphaned.size}, blocked: ${snapshot.blocked.size}`
+  );
+}
+
+export async function watch(args: {
+  cwd: string;
+  path?: string;
+  noRun?: boolean;
+}): Promise<void> {
+  const { cwd, path, noRun } = args;
+
+  // Load config
+  const config = await loadConfig(cwd);
+  if (!config) {
+    console.error("Not initialized. Run 'req init' first.");
+    process.exit(1);
+  }
+
+  const initial = await recheck(cwd, config, null, { path, noRun });
+  let state = initial.state;
+
+  console.log(`Watching ${config.testGlob} and .requirements/${path ? ` (${path})` : ""}`);
+  printSnapshot(state.snapshot);
+  console.log("Press Ctrl+C to stop\n");
+
+  // Paths reported by file events since the last check
+  const changedPaths = new Set<string>();
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let pending = false;
+
+  const watchers: FSWatcher[] = [];
+  const watchedDirs = new Set<string>();
+
+  const processChanges = async () => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+
+    const requirementChanges = [...changedPaths].filter((file) => file.endsWith(".yml"));
+    changedPaths.clear();
+
+    try {
+      const result = await recheck(cwd, config, state, { path, noRun });
+      state = result.state;
+
+      // Events without a content change (e.g. editor temp files) are not reported
+      const changed = [...new Set([...result.changedFiles, ...requirementChanges])];
+      if (changed.length > 0 || result.errors.length > 0) {
+        console.log(`[${timestamp()}] ${changed.join(", ") || "requirements"} changed`);
+
+        for (const error of result.errors) {
+          console.log(`  ! ${error}`);
+        }
+
+        if (result.run) {
+          const results = result.affected.map((link) => getTestLinkResult(link, result.run!.results));
+          const passed = results.filter((r) => r === "passed").length;
+          const failed = results.filter((r) => r === "failed" || r === "error").length;
+          const notRun = results.length - passed - failed;
+          console.log(
+            `  re-ran ${result.affected.length} linked test(s): ` +
+              `${passed} passed, ${failed} failed${notRun ? `, ${notRun} without a result` : ""}`
+          );
+        } else if (result.affected.length > 0) {
+          console.log(`  ${result.affected.length} linked test(s) affected (not run)`);
+        }
+
+        const lines = result.diff && !isEmptyDiff(result.diff) ? formatDiff(result.diff) : [];
+        if (lines.length > 0) {
+          for (const line of lines) {
+            console.log(`  ${line}`);
+          }
+        } else {
+          console.log("  nothing moved");
+        }
+        console.log();
+      }
+
+      await watchTestDirs();
+    } catch (error) {
+      console.error(`Error re-checking: ${(error as Error).message}`);
+    } finally {
+      running = false;
+      if (pending) {
+        pending = false;
+        void processChanges();
+      }
+    }
+  };
+
+  const schedule = (changedPath: string) => {
+    changedPaths.add(changedPath);
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => void processChanges(), DEBOUNCE_MS);
+  };
+
+  // Watch the parent directories of test files (catches new files too).
+  // Called again after each check to pick up new directories.
+  const watchTestDirs = async () => {
+    const testFiles = await glob(config.testGlob, {
+      cwd,
+      absolute: true,
+      ignore: ["**/node_modules/**"],
+    });
+
+    for (const dir of new Set(testFiles.map((file) => dirname(file)))) {
+      if (watchedDirs.has(dir)) continue;
+      watchedDirs.add(dir);
+      try {
+        watchers.push(
+          watchPath(dir, (_event, filename) => {
+            if (filename) schedule(relative(cwd, join(dir, filename.toString())));
+          })
+        );
+      } catch {
+        // Directory might not exist or be inaccessible
+      }
+    }
+  };
+
+  // Watch requirement files (cache.json and test-results.xml are our own writes)
+  const reqDir = getRequirementsDir(cwd);
+  try {
+    watchers.push(
+      watchPath(reqDir, { recursive: true }, (_event, filename) => {
+        if (filename && filename.toString().endsWith(".yml")) {
+          schedule(join(".requirements", filename.toString()));
+        }
+      })
+    );
+  } catch (error) {
+    console.warn("Could not watch .requirements folder:", error);
+  }
+
+  await watchTestDirs();
+
+  process.on("SIGINT", () => {
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    console.log("\nStopped watching");
+    process.exit(0);
+  });
+}
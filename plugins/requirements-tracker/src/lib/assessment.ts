@@ -0,0 +1,177 @@
+/**
+ * AI assessments: validation of results given to `req assess --result`, and
+ * invalidation when test coverage changes
+ */
+
+import { parseGherkin, validateGherkinStructure } from "./gherkin";
+import type {
+  Requirement,
+  TestComment,
+  SuggestedTest,
+  SuggestedScenario,
+  VerificationCriteria,
+  CriterionAssessment,
+  CriterionResult,
+} from "./types";
+import { CRITERIA_KEYS } from "./types";
+
+export interface AssessResult {
+  criteria: VerificationCriteria;
+  notes: string;
+  testComments?: TestComment[];
+  suggestedTests?: SuggestedTest[];
+  suggestedScenarios?: SuggestedScenario[];
+}
+
+// Helper to validate a single criterion
+function validateCriterion(
+  value: unknown,
+  name: string
+): CriterionAssessment {
+  if (!value || typeof value !== "object") {
+    throw new Error(`${name} must be an object with result and optional note`);
+  }
+  const obj = value as Record<string, unknown>;
+
+  if (!["pass", "fail", "na"].includes(obj.result as string)) {
+    throw new Error(`${name}.result must be "pass", "fail", or "na"`);
+  }
+
+  if (obj.note !== undefined && typeof obj.note !== "string") {
+    throw new Error(`${name}.note must be a string if provided`);
+  }
+
+  return {
+    result: obj.result as CriterionResult,
+    note: obj.note as string | undefined,
+  };
+}
+
+// Helper to compute 'sufficient' from criteria
+export function computeSufficient(criteria: VerificationCriteria): boolean {
+  for (const key of CRITERIA_KEYS) {
+    if (criteria[key].result === "fail") {
+      return false;
+    }
+  }
+  return true; // All pass or na
+}
+
+/**
+ * Validate a parsed assessment result
+ * @throws Error describing the first invalid field
+ */
+export function parseAssessResult(value: unknown): AssessResult {
+  if (!value || typeof value !== "object") {
+    throw new Error("result must be an object");
+  }
+  const parsed = value as Record<string, unknown>;
+
+  // Validate notes
+  if (typeof parsed.notes !== "string") {
+    throw new Error("notes must be a string");
+  }
+
+  // Validate criteria object
+  if (!parsed.criteria || typeof parsed.criteria !== "object") {
+    throw new Error("criteria object is required");
+  }
+  const criteria = parsed.criteria as Record<string, unknown>;
+
+  // Validate each criterion
+  const validatedCriteria = {} as VerificationCriteria;
+  for (const key of CRITERIA_KEYS) {
+    if (!(key in criteria)) {
+      throw new Error(`criteria.${key} is required`);
+    }
+    validatedCriteria[key] = validateCriterion(
+      criteria[key],
+      `criteria.${key}`
+    );
+  }
+
+  // Validate optional testComments
+  if (parsed.testComments !== undefined) {
+    if (!Array.isArray(parsed.testComments)) {
+      throw new Error("testComments must be an array");
+    }
+    for (const entry of parsed.testComments) {
+      const tc = (entry ?? {}) as Record<string, unknown>;
+      if (typeof tc.file !== "string" || typeof tc.identifier !== "string" || typeof tc.comment !== "string") {
+        throw new Error("testComments entries must have file, identifier, and comment strings");
+      }
+      if (typeof tc.hasIssue !== "boolean") {
+        throw new Error("testComments entries must have hasIssue boolean");
+      }
+    }
+  }
+
+  // Validate optional suggestedTests
+  if (parsed.suggestedTests !== undefined) {
+    if (!Array.isArray(parsed.suggestedTests)) {
+      throw new Error("suggestedTests must be an array");
+    }
+    for (const entry of parsed.suggestedTests) {
+      const st = (entry ?? {}) as Record<string, unknown>;
+      if (typeof st.description !== "string" || typeof st.rationale !== "string") {
+        throw new Error("suggestedTests entries must have description and rationale strings");
+      }
+    }
+  }
+
+  // Validate optional suggestedScenarios
+  if (parsed.suggestedScenarios !== undefined) {
+    if (!Array.isArray(parsed.suggestedScenarios)) {
+      throw new Error("suggestedScenarios must be an array");
+    }
+    for (let i = 0; i < parsed.suggestedScenarios.length; i++) {
+      const ss = (parsed.suggestedScenarios[i] ?? {}) as Record<string, unknown>;
+      if (
+        typeof ss.name !== "string" ||
+        typeof ss.gherkin !== "string" ||
+        typeof ss.rationale !== "string"
+      ) {
+        throw new Error(
+          "suggestedScenarios entries must have name, gherkin, and rationale strings"
+        );
+      }
+      // Validate gherkin structure
+      const parseResult = parseGherkin(ss.gherkin);
+      if (!parseResult.success) {
+        throw new Error(`suggestedScenarios[${i}].gherkin is invalid: ${parseResult.error}`);
+      }
+      const structureResult = validateGherkinStructure(parseResult.steps);
+      if (!structureResult.valid) {
+        throw new Error(`suggestedScenarios[${i}].gherkin structure is invalid: ${structureResult.errors.join(", ")}`);
+      }
+    }
+  }
+
+  return {
+    criteria: validatedCriteria,
+    notes: parsed.notes,
+    testComments: parsed.testComments as TestComment[] | undefined,
+    suggestedTests: parsed.suggestedTests as SuggestedTest[] | undefined,
+    suggestedScenarios: parsed.suggestedScenarios as SuggestedScenario[] | undefined,
+  };
+}
+
+/**
+ * Clear an assessment after test coverage changed, but preserve its suggested
+ * tests and scenarios
+ */
+export function invalidateAssessment(data: Requirement): void {
+  if (!data.aiAssessment) return;
+  const { suggestedTests, suggestedScenarios, assessedAt } = data.aiAssessment;
+  if (suggestedTests || suggestedScenarios) {
+    data.aiAssessment = {
+      sufficient: false,
+      notes: "Assessment invalidated - test coverage changed",
+      assessedAt,
+      suggestedTests,
+      suggestedScenarios,
+    };
+  } else {
+    delete data.aiAssessment;
+  }
+}
@@ -0,0 +1,532 @@
+/**
+ * Bulk requirement operations (req batch)
+ *
+ * Operations are applied in memory, in order, to all requirements. Nothing
+ * touches the requirements folder until every operation succeeded and every
+ * changed requirement survived a save and re-load in a staging folder - then
+ * all files are written, or none.
+ */
+
+import { mkdtemp, readFile, rm, unlink, writeFile } from "fs/promises";
+import { join, basename } from "path";
+import { tmpdir } from "os";
+import { parse as parseYaml } from "yaml";
+import {
+  createRequirementsDir,
+  getRequirementsDir,
+  isValidRequirementPath,
+  loadRequirement,
+  parseRequirementTarget,
+  saveConfig,
+  saveRequirement,
+} from "./store";
+import {
+  applyTransition,
+  getAllowedTransitions,
+  getImplementedTransition,
+  getStateNames,
+  isDeprecated,
+  isImplemented,
+} from "./workflow";
+import { findTest } from "./test-parser";
+import { getTestsWithCache } from "./cache";
+import { computeSufficient, invalidateAssessment, parseAssessResult } from "./assessment";
+import { parseGherkin, formatGherkin, validateGherkinStructure } from "./gherkin";
+import type {
+  Config,
+  ParsedRequirement,
+  Priority,
+  Requirement,
+  Scenario,
+  SourceType,
+  TestLink,
+  WorkflowConfig,
+} from "./types";
+
+export const BATCH_OPS = ["status", "priority", "link", "unlink", "move", "assess", "add-scenario"] as const;
+export type BatchOp = (typeof BATCH_OPS)[number];
+
+export const BATCH_FORMATS = ["yaml", "jsonl"] as const;
+export type BatchFormat = (typeof BATCH_FORMATS)[number];
+
+const PRIORITY_VALUES: Array<Priority | "none"> = ["critical", "high", "medium", "low", "none"];
+const SOURCE_TYPES: SourceType[] = ["doc", "slack", "email", "meeting", "ticket", "manual"];
+
+// One operation of a batch file, e.g. { op: "priority", target: "payments/**", priority: "high" }
+export interface BatchOperation {
+  op: BatchOp;
+  target: string; // Requirement path or glob, "#<scenario>" allowed for link/unlink
+  [field: string]: unknown;
+}
+
+// A requirement the batch creates, changes, moves or deletes
+export interface BatchChange {
+  path: string; // Path after the batch
+  from?: string; // Original path when the requirement was moved
+  before: Requirement;
+  after: Requirement;
+}
+
+export interface BatchPlan {
+  operations: number;
+  changes: BatchChange[];
+  errors: string[]; // "operation 3 (status auth/**): Transition not allowed: ..."
+}
+
+/**
+ * Batch format from the file name: .jsonl/.ndjson are JSON lines, anything
+ * else YAML
+ */
+export function detectBatchFormat(file: string): BatchFormat {
+  return /\.(jsonl|ndjson)$/i.test(file) ? "jsonl" : "yaml";
+}
+
+/**
+ * Parse a batch file: a YAML list of operations, or one JSON operation per
+ * line (blank lines and lines starting with # are skipped)
+ *
+ * @throws Error naming the first malformed operation
+ */
+export function parseBatchOperations(content: string, format: BatchFormat): BatchOperation[] {
+  let entries: Array<{ entry: unknown; where: string }>;
+
+  if (format === "jsonl") {
+    entries = [];
+    content.split("\n").forEach((line, i) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) return;
+      try {
+        entries.push({ entry: JSON.parse(trimmed), where: `line ${i + 1}` });
+      } catch (error) {
+        throw new Error(`line ${i + 1}: invalid JSON (${error instanceof Error ? error.message : error})`);
+      }
+    });
+  } else {
+    const parsed = parseYaml(content) ?? [];
+    if (!Array.isArray(parsed)) {
+      throw new Error("A YAML batch file must be a list of operations");
+    }
+    entries = parsed.map((entry, i) => ({ entry, where: `operation ${i + 1}` }));
+  }
+
+  return entries.map(({ entry, where }) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new Error(`${where}: must be an object with "op" and "target"`);
+    }
+    const operation = entry as Record<string, unknown>;
+    if (!BATCH_OPS.includes(operation.op as BatchOp)) {
+      throw new Error(
+        `${where}: unknown op ${JSON.stringify(operation.op)}. Use one of: ${BATCH_OPS.join(", ")}`
+      );
+    }
+    if (typeof operation.target !== "string" || operation.target.trim() === "") {
+      throw new Error(`${where}: "target" must be a requirement path or glob`);
+    }
+    return operation as BatchOperation;
+  });
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Requirement paths a target selects: a glob such as "payments/**" matches
+ * paths relative to the requirements folder, anything else is an exact path
+ */
+export function matchTargets(target: string, paths: string[]): string[] {
+  if (!isGlob(target)) {
+    return paths.includes(target) ? [target] : [];
+  }
+  const glob = new Bun.Glob(target);
+  return paths.filter((path) => glob.match(path)).sort();
+}
+
+interface Entry {
+  original: string; // Path before the batch
+  data: Requirement;
+}
+
+interface BatchState {
+  cwd: string;
+  config: Config;
+  workflow: WorkflowConfig;
+  by: string;
+  entries: Map<string, Entry>; // By current path
+  hashes?: Map<string, string>; // Current test hashes, loaded on the first assess
+}
+
+function requireString(operation: BatchOperation, field: string): string {
+  const value = operation[field];
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`"${field}" is required`);
+  }
+  return value;
+}
+
+function parseTestSpec(spec: string): { file: string; identifier: string } {
+  const colonIndex = spec.indexOf(":");
+  const file = spec.slice(0, colonIndex);
+  const identifier = spec.slice(colonIndex + 1);
+  if (colonIndex === -1 || !file || !identifier) {
+    throw new Error(`Invalid test spec "${spec}". Use format: file:identifier`);
+  }
+  return { file, identifier };
+}
+
+// Test links of the requirement, or of the scenario the target names
+function resolveTests(path: string, data: Requirement, scenarioName?: string, create = false): TestLink[] {
+  if (scenarioName === undefined) return data.tests;
+  const scenario = data.scenarios?.find((s) => s.name === scenarioName);
+  if (!scenario) {
+    throw new Error(`Scenario not found: ${path}#${scenarioName}`);
+  }
+  return create ? (scenario.tests ??= []) : (scenario.tests ?? []);
+}
+
+async function applyOperation(
+  state: BatchState,
+  operation: BatchOperation,
+  path: string,
+  scenarioName: string | undefined
+): Promise<void> {
+  const { workflow, entries } = state;
+  const entry = entries.get(path)!;
+  const data = entry.data;
+
+  switch (operation.op) {
+    case "status": {
+      const newStatus = requireString(operation, "state");
+      const states = getStateNames(workflow);
+      if (!states.includes(newStatus)) {
+        throw new Error(`Unknown state "${newStatus}". Must be one of: ${states.join(", ")}`);
+      }
+      if (data.status === newStatus) return;
+      if (!getAllowedTransitions(workflow, data.status).includes(newStatus)) {
+        throw new Error(`${path}: Transition not allowed: ${data.status} -> ${newStatus}`);
+      }
+      const reason = typeof operation.reason === "string" ? operation.reason : undefined;
+      applyTransition(data, newStatus, state.by, reason);
+      return;
+    }
+
+    case "priority": {
+      const priority = requireString(operation, "priority");
+      if (!PRIORITY_VALUES.includes(priority as Priority | "none")) {
+        throw new Error(`Invalid priority "${priority}". Use one of: ${PRIORITY_VALUES.join(", ")}`);
+      }
+      if (priority === "none") {
+        delete data.priority;
+      } else {
+        data.priority = priority as Priority;
+      }
+      return;
+    }
+
+    case "link": {
+      const { file, identifier } = parseTestSpec(requireString(operation, "test"));
+      const tests = resolveTests(path, data, scenarioName, true);
+      const extractedTest = await findTest(state.cwd, file, identifier);
+      if (!extractedTest) {
+        throw new Error(`Test not found: ${file}:${identifier}`);
+      }
+      if (tests.some((t) => t.file === file && t.identifier === extractedTest.identifier)) return;
+      tests.push({ file, identifier: extractedTest.identifier, hash: extractedTest.hash });
+
+      // Auto-set status to done when tests are linked, as `req link` does
+      const doneStatus =
+        isImplemented(workflow, data.status) || isDeprecated(workflow, data.status)
+          ? undefined
+          : getImplementedTransition(workflow, data.status);
+      if (doneStatus) {
+        applyTransition(data, doneStatus, state.by, "Tests linked");
+      }
+      invalidateAssessment(data);
+      return;
+    }
+
+    case "unlink": {
+      const { file, identifier } = parseTestSpec(requireString(operation, "test"));
+      const tests = resolveTests(path, data, scenarioName);
+      const index = tests.findIndex((t) => t.file === file && t.identifier === identifier);
+      if (index === -1) {
+        throw new Error(`Test not linked to ${scenarioName ? `${path}#${scenarioName}` : path}: ${file}:${identifier}`);
+      }
+      tests.splice(index, 1);
+      const scenario = data.scenarios?.find((s) => s.name === scenarioName);
+      if (scenario && tests.length === 0) {
+        delete scenario.tests;
+      }
+      invalidateAssessment(data);
+      return;
+    }
+
+    case "move": {
+      const to = requireString(operation, "to");
+      const destPath = to.endsWith("/") ? `${to}${basename(path)}` : to;
+      if (!isValidRequirementPath(destPath)) {
+        throw new Error(`Invalid destination path "${destPath}". Must end with REQ_*.yml`);
+      }
+      if (destPath === path) return;
+      if (entries.has(destPath)) {
+        throw new Error(`Destination already exists: ${destPath}`);
+      }
+      entries.delete(path);
+      entries.set(destPath, entry);
+
+      // Update any requirements that depend on the moved requirement
+      for (const other of entries.values()) {
+        for (const dep of other.data.dependencies ?? []) {
+          if (dep.path === path) dep.path = destPath;
+        }
+      }
+      return;
+    }
+
+    case "assess": {
+      const result = parseAssessResult(
+        typeof operation.result === "string" ? JSON.parse(operation.result) : operation.result
+      );
+
+      // Tie the assessment to the current test code, as `req assess` does
+      const links = [...data.tests, ...(data.scenarios ?? []).flatMap((s) => s.tests ?? [])];
+      if (links.length > 0) {
+        if (!state.hashes) {
+          const { tests } = await getTestsWithCache(state.cwd, state.config.testGlob, true);
+          state.hashes = new Map(tests.map((t) => [`${t.file}:${t.identifier}`, t.hash]));
+        }
+        for (const test of links) {
+          const currentHash = state.hashes.get(`${test.file}:${test.identifier}`);
+          if (currentHash) test.hash = currentHash;
+        }
+      }
+
+      data.aiAssessment = {
+        sufficient: computeSufficient(result.criteria),
+        notes: result.notes,
+        assessedAt: new Date().toISOString(),
+        criteria: result.criteria,
+        testComments: result.testComments,
+        suggestedTests: result.suggestedTests,
+        suggestedScenarios: result.suggestedScenarios,
+      };
+      return;
+    }
+
+    case "add-scenario": {
+      const name = requireString(operation, "name");
+      const parseResult = parseGherkin(requireString(operation, "gherkin"));
+      if (!parseResult.success) {
+        throw new Error(`Invalid gherkin: ${parseResult.error}`);
+      }
+      const structure = validateGherkinStructure(parseResult.steps);
+      if (!structure.valid) {
+        throw new Error(`Invalid gherkin structure: ${structure.errors.join(", ")}`);
+      }
+      if (data.scenarios?.some((s) => s.name === name)) {
+        throw new Error(`${path}: Scenario with name "${name}" already exists.`);
+      }
+
+      const scenario: Scenario = { name, gherkin: formatGherkin(parseResult.steps) };
+      if (operation.source !== undefined) {
+        const source = operation.source as Record<string, unknown>;
+        if (!SOURCE_TYPES.includes(source?.type as SourceType) || typeof source.description !== "string") {
+          throw new Error(`"source" needs a type (${SOURCE_TYPES.join(", ")}) and a description`);
+        }
+        scenario.source = source as unknown as Scenario["source"];
+      }
+      if (operation.suggested === true) {
+        scenario.suggested = true;
+      }
+      (data.scenarios ??= []).push(scenario);
+      return;
+    }
+  }
+}
+
+/**
+ * Apply operations in memory, in order. Every failing operation is reported;
+ * the plan only counts if there are no errors.
+ */
+export async function planBatch(args: {
+  cwd: string;
+  config: Config;
+  workflow: WorkflowConfig;
+  requirements: ParsedRequirement[];
+  operations: BatchOperation[];
+  by: string; // Recorded in status logs
+}): Promise<BatchPlan> {
+  const { cwd, config, workflow, requirements, operations, by } = args;
+  const state: BatchState = {
+    cwd,
+    config,
+    workflow,
+    by,
+    entries: new Map(requirements.map((req) => [req.path, { original: req.path, data: structuredClone(req.data) }])),
+  };
+  const originals = new Map(requirements.map((req) => [req.path, req.data]));
+  const errors: string[] = [];
+
+  for (const [i, operation] of operations.entries()) {
+    const label = `operation ${i + 1} (${operation.op} ${operation.target})`;
+    const { path: pattern, scenario } = parseRequirementTarget(operation.target);
+    if (scenario !== undefined && operation.op !== "link" && operation.op !== "unlink") {
+      errors.push(`${label}: only link and unlink can target a scenario`);
+      continue;
+    }
+
+    const paths = matchTargets(pattern, [...state.entries.keys()]);
+    if (paths.length === 0) {
+      errors.push(`${label}: no requirement matches ${pattern}`);
+      continue;
+    }
+    if (operation.op === "move" && paths.length > 1 && !String(operation.to ?? "").endsWith("/")) {
+      errors.push(`${label}: moving ${paths.length} requirements needs a folder destination ending in "/"`);
+      continue;
+    }
+
+    for (const path of paths) {
+      try {
+        await applyOperation(state, operation, path, scenario);
+      } catch (error) {
+        errors.push(`${label}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  const changes: BatchChange[] = [];
+  for (const [path, entry] of state.entries) {
+    const before = originals.get(entry.original)!;
+    if (path === entry.original && JSON.stringify(before) === JSON.stringify(entry.data)) continue;
+    changes.push({
+      path,
+      ...(path !== entry.original ? { from: entry.original } : {}),
+      before,
+      after: entry.data,
+    });
+  }
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+
+  return { operations: operations.length, changes, errors };
+}
+
+/**
+ * Save every changed requirement into a scratch requirements folder and load
+ * it back, so a batch is only written when all results are valid files.
+ * Returns the file contents by path, or the validation errors.
+ */
+export async function stageBatch(
+  config: Config,
+  workflow: WorkflowConfig,
+  changes: BatchChange[]
+): Promise<{ files: Map<string, string>; errors: string[] }> {
+  const stagingDir = await mkdtemp(join(tmpdir(), "req-batch-"));
+  const files = new Map<string, string>();
+  const errors: string[] = [];
+
+  try {
+    await createRequirementsDir(stagingDir);
+    await saveConfig(stagingDir, config);
+    for (const change of changes) {
+      try {
+        await saveRequirement(stagingDir, change.path, change.after);
+        if (!(await loadRequirement(stagingDir, change.path, workflow))) {
+          throw new Error(`${change.path}: could not be read back`);
+        }
+        files.set(change.path, await readFile(join(getRequirementsDir(stagingDir), change.path), "utf-8"));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+  } finally {
+    await rm(stagingDir, { recursive: true, force: true });
+  }
+
+  return { files, errors };
+}
+
+/**
+ * Write a staged batch: every changed requirement is saved and moved sources
+ * are deleted. If any write fails, the files already written are restored.
+ */
+export async function commitBatch(cwd: string, changes: BatchChange[]): Promise<void> {
+  const reqDir = getRequirementsDir(cwd);
+  const touched = new Set([...changes.map((c) => c.path), ...changes.flatMap((c) => (c.from ? [c.from] : []))]);
+
+  // Snapshot everything the batch touches (null: the file doesn't exist yet)
+  const snapshot = new Map<string, string | null>();
+  for (const path of touched) {
+    snapshot.set(path, await readFile(join(reqDir, path), "utf-8").catch(() => null));
+  }
+
+  try {
+    for (const change of changes) {
+      await saveRequirement(cwd, change.path, change.after);
+    }
+    const written = new Set(changes.map((c) => c.path));
+    for (const change of changes) {
+      if (change.from && !written.has(change.from)) {
+        await unlink(join(reqDir, change.from));
+      }
+    }
+  } catch (error) {
+    // Roll back every touched file to its state before the batch
+    for (const [path, content] of snapshot) {
+      const fullPath = join(reqDir, path);
+      if (content === null) {
+        await rm(fullPath, { force: true });
+      } else {
+        await writeFile(fullPath, content);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Line diff of two files in unified style ("-"/"+"/" " prefixes), with
+ * `context` unchanged lines around each change and "@@" between hunks
+ */
+export function diffLines(before: string, after: string, context = 2): string[] {
+  const a = before === "" ? [] : before.replace(/\n$/, "").split("\n");
+  const b = after === "" ? [] : after.replace(/\n$/, "").split("\n");
+
+  // Longest common subsequence table, from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: Array<{ kind: " " | "-" | "+"; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: " ", text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ kind: "-", text: a[i++] });
+    } else {
+      lines.push({ kind: "+", text: b[j++] });
+    }
+  }
+
+  // Keep changed lines and their context
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.kind === " ") return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (!keep[index]) return;
+    if (index > 0 && !keep[index - 1] && output.length > 0) output.push("@@");
+    output.push(`${line.kind} ${line.text}`);
+  });
+  return output;
+}
@@ -6,10 +6,12 @@ import { stat } from "fs/promises";
 import { glob } from "glob";
 import { join } from "path";
 import { loadCache, saveCache } from "./store";
-import { extractAllTests } from "./test-parser";
+import { extractAllTests, extractTestsFromFile } from "./test-parser";
 import { ExtractedTest, TestCache } from "./types";
 
-const CACHE_VERSION = 1;
+// Version 2: hashes are computed from the normalized AST body
+// Version 3: identifiers are always fully qualified
+const CACHE_VERSION = 3;
 
 /**
  * Get modification times for all test files matching the glob.
@@ -91,10 +93,18 @@ export function buildCache(
   fileMtimes: Map<string, number>
 ): TestCache {
   const testMap: Record<string, string> = {};
+  const fullNames: Record<string, string> = {};
+  const legacyHashes: Record<string, string> = {};
 
   for (const test of tests) {
     const key = `${test.file}:${test.identifier}`;
     testMap[key] = test.hash;
+    if (test.fullName && test.fullName !== test.identifier) {
+      fullNames[key] = test.fullName;
+    }
+    if (test.legacyHash && test.legacyHash !== test.hash) {
+      legacyHashes[key] = test.legacyHash;
+    }
   }
 
   const fileMtimesRecord: Record<string, number> = {};
@@ -108,12 +118,14 @@ export function buildCache(
     generatedAt: new Date().toISOString(),
     fileMtimes: fileMtimesRecord,
     tests: testMap,
+    fullNames,
+    legacyHashes,
   };
 }
 
 /**
  * Convert cache back to ExtractedTest objects.
- * Note: body is empty since cache only stores hashes.
+ * Note: body and range are empty since cache only stores hashes and names.
  * This is fine for check.ts which only needs file, identifier, and hash.
  */
 function cacheToTests(cache: TestCache): ExtractedTest[] {
@@ -124,7 +136,14 @@ function cacheToTests(cache: TestCache): ExtractedTest[] {
     }
     const file = key.slice(0, colonIndex);
     const identifier = key.slice(colonIndex + 1);
-    return { file, identifier, body: "", hash };
+    return {
+      file,
+      identifier,
+      body: "",
+      hash,
+      fullName: cache.fullNames?.[key] ?? identifier,
+      legacyHash: cache.legacyHashes?.[key] ?? hash,
+    };
   });
 }
 
@@ -165,3 +184,63 @@ export async function getTestsWithCache(
   await saveCache(cwd, cache);
   return { tests, fromCache: false };
 }
+
+/**
+ * Refresh tests incrementally for watch mode.
+ * Only files that are new or modified since the cache was written are
+ * re-extracted; tests of unchanged files come from the cache and deleted
+ * files are dropped. Falls back to a full extraction without a usable cache.
+ *
+ * @returns Object with tests array and the files that were re-extracted or removed
+ */
+export async function refreshTestsIncrementally(
+  cwd: string,
+  testGlob: string
+): Promise<{ tests: ExtractedTest[]; changedFiles: string[] }> {
+  const fileMtimes = await getTestFileMtimes(cwd, testGlob);
+  const existingCache = await loadCache(cwd);
+
+  // No usable cache - everything counts as changed
+  if (!existingCache || existingCache.version !== CACHE_VERSION) {
+    const tests = await extractAllTests(cwd, testGlob);
+    await saveCache(cwd, buildCache(tests, fileMtimes));
+    return { tests, changedFiles: Array.from(fileMtimes.keys()).sort() };
+  }
+
+  // Group cached tests by file
+  const cachedByFile = new Map<string, ExtractedTest[]>();
+  for (const test of cacheToTests(existingCache)) {
+    if (!cachedByFile.has(test.file)) {
+      cachedByFile.set(test.file, []);
+    }
+    cachedByFile.get(test.file)!.push(test);
+  }
+
+  const tests: ExtractedTest[] = [];
+  const changedFiles: string[] = [];
+
+  for (const [file, mtime] of Array.from(fileMtimes.entries())) {
+    if (existingCache.fileMtimes[file] === mtime) {
+      tests.push(...(cachedByFile.get(file) ?? []));
+      continue;
+    }
+
+    changedFiles.push(file);
+    try {
+      tests.push(...(await extractTestsFromFile(join(cwd, file), cwd)));
+    } catch {
+      // Skip files that can't be parsed
+      console.warn(`Warning: Could not parse ${file}`);
+    }
+  }
+
+  // Deleted files
+  for (const file of Object.keys(existingCache.fileMtimes)) {
+    if (!fileMtimes.has(file)) {
+      changedFiles.push(file);
+    }
+  }
+
+  await saveCache(cwd, buildCache(tests, fileMtimes));
+  return { tests, changedFiles: changedFiles.sort() };
+}
@@ -0,0 +1,377 @@
+/**
+ * Coverage and verification status of requirements (the `req check` result)
+ */
+
+import { isValidGherkinFormat } from "./gherkin";
+import { getAllTestLinks } from "./store";
+import { getTestLinkResult } from "./result-store";
+import { indexTestsByLinkKey } from "./test-parsers";
+import { DEFAULT_WORKFLOW, isDeprecated, isImplemented } from "./workflow";
+import { findDependencyCycles, findMissingDependencies } from "./dependency-graph";
+import { findBrokenLinks } from "./relink";
+import { countQuestions } from "./questions";
+import type {
+  CheckResult,
+  ExtractedTest,
+  ImplementationStatus,
+  ParsedRequirement,
+  RequirementGroupCheckResult,
+  ScenarioCheckResult,
+  TestLink,
+  TestResult,
+  TestResultStatus,
+  VerificationStatus,
+  WorkflowConfig,
+} from "./types";
+
+// Most significant first: one failing test fails the scenario
+const RESULT_SEVERITY: TestResultStatus[] = ["failed", "error", "passed", "skipped"];
+
+/**
+ * Determine verification status for a requirement.
+ * A link whose hash matches the pre-AST legacy hash still counts as unchanged.
+ */
+export function getVerificationStatus(
+  tests: TestLink[],
+  currentHashes: Map<string, string>,
+  hasAssessment: boolean,
+  legacyHashes: Map<string, string> = new Map()
+): VerificationStatus {
+  // No tests = nothing to verify
+  if (tests.length === 0) {
+    return "n/a";
+  }
+
+  // Has tests but no assessment = unverified
+  if (!hasAssessment) {
+    return "unverified";
+  }
+
+  // Has assessment - check if any test hashes changed
+  for (const test of tests) {
+    const key = `${test.file}:${test.identifier}`;
+    const currentHash = currentHashes.get(key);
+    if (currentHash && currentHash !== test.hash && legacyHashes.get(key) !== test.hash) {
+      return "stale";
+    }
+  }
+
+  // Assessment exists and no hashes changed
+  return "verified";
+}
+
+/**
+ * Combine the last results of a set of tests into one
+ * @returns undefined if none of the tests has a result
+ */
+export function getCombinedResult(
+  tests: TestLink[],
+  testResults: TestResult[]
+): TestResultStatus | undefined {
+  const statuses = tests
+    .map((test) => getTestLinkResult(test, testResults))
+    .filter((status): status is TestResultStatus => status !== undefined);
+  return RESULT_SEVERITY.find((status) => statuses.includes(status));
+}
+
+/**
+ * Build the check result for requirements against the extracted tests.
+ * Requirement files are not modified.
+ *
+ * @param flakyTestKeys - "file:identifier" of linked tests that are flaky in
+ *   the run history (see findFlakyTests)
+ * @param testResults - Results of the last test run, for requirement and
+ *   per-scenario results
+ * @param workflow - Decides which states count as done and which are
+ *   deprecated (excluded from coverage gating)
+ * @param externalRequirements - Whether requirements of other workspace
+ *   packages are implemented, by qualified path (see loadWorkspaceRequirementStates)
+ */
+export function buildCheckResult(
+  requirements: ParsedRequirement[],
+  extractedTests: ExtractedTest[],
+  ignoredTestKeys: Set<string>,
+  flakyTestKeys: Set<string> = new Set(),
+  testResults: TestResult[] = [],
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW,
+  externalRequirements: Map<string, boolean> = new Map()
+): CheckResult {
+  const testHashMap = new Map<string, string>();
+  const legacyHashMap = new Map<string, string>();
+  // Keyed by link key, so plain-name links to nested tests resolve too
+  const testIndex = indexTestsByLinkKey(extractedTests);
+  for (const [key, test] of testIndex) {
+    testHashMap.set(key, test.hash);
+    if (test.legacyHash) {
+      legacyHashMap.set(key, test.legacyHash);
+    }
+  }
+
+  // Build a map of requirement paths to their status for dependency checking
+  const reqStatusMap = new Map<string, ImplementationStatus>();
+  for (const req of requirements) {
+    reqStatusMap.set(req.path, req.data.status);
+  }
+
+  // Build results - group by folder
+  const result: CheckResult = {
+    requirements: [],
+    orphanedTests: [],
+    brokenLinks: [],
+    dependencyIssues: [],
+    dependencyCycles: [],
+    missingDependencies: [],
+    gherkinIssues: [],
+    coverageIssues: [],
+    summary: {
+      totalRequirements: 0,
+      planned: 0,
+      done: 0,
+      deprecated: 0,
+      byState: Object.fromEntries(workflow.states.map((state) => [state.name, 0])),
+      untested: 0,
+      tested: 0,
+      unverified: 0,
+      verified: 0,
+      stale: 0,
+      orphanedTestCount: 0,
+      brokenLinks: 0,
+      unansweredQuestions: 0,
+      overdueQuestions: 0,
+      byPriority: {
+        critical: 0,
+        high: 0,
+        medium: 0,
+        low: 0,
+        unset: 0,
+      },
+      blockedRequirements: 0,
+      dependencyCycles: 0,
+      missingDependencies: 0,
+      unverifiedNFRs: 0,
+      gherkinFormatIssues: 0,
+      flakyOnly: 0,
+      implementationNotExecuted: 0,
+    },
+  };
+
+  // Group requirements by folder path
+  const groupedReqs = new Map<string, ParsedRequirement[]>();
+  for (const req of requirements) {
+    // Extract folder path (e.g., "auth/REQ_login.yml" -> "auth/")
+    const lastSlash = req.path.lastIndexOf("/");
+    const folderPath = lastSlash >= 0 ? req.path.slice(0, lastSlash + 1) : "";
+
+    if (!groupedReqs.has(folderPath)) {
+      groupedReqs.set(folderPath, []);
+    }
+    groupedReqs.get(folderPath)!.push(req);
+  }
+
+  // Analyze each group
+  const linkedTestKeys = new Set<string>();
+
+  for (const [folderPath, groupReqs] of Array.from(groupedReqs.entries()).sort()) {
+    const groupResult: RequirementGroupCheckResult = {
+      path: folderPath || "(root)",
+      requirements: [],
+    };
+
+    for (const req of groupReqs) {
+      result.summary.totalRequirements++;
+
+      // Tests linked to the requirement or to one of its scenarios
+      const tests = getAllTestLinks(req.data);
+
+      // Track linked tests (tests of deprecated requirements are not orphans either)
+      for (const test of tests) {
+        const linked = testIndex.get(`${test.file}:${test.identifier}`) ?? test;
+        linkedTestKeys.add(`${linked.file}:${linked.identifier}`);
+      }
+
+      // Get implementation status
+      const reqStatus: ImplementationStatus = req.data.status;
+      const implemented = isImplemented(workflow, reqStatus);
+      const deprecated = isDeprecated(workflow, reqStatus);
+      result.summary.byState[reqStatus] = (result.summary.byState[reqStatus] ?? 0) + 1;
+      if (implemented) {
+        result.summary.done++;
+      } else if (deprecated) {
+        result.summary.deprecated++;
+      } else {
+        result.summary.planned++;
+      }
+
+      // Get verification status
+      const verification = getVerificationStatus(
+        tests,
+        testHashMap,
+        !!req.data.aiAssessment,
+        legacyHashMap
+      );
+
+      // Update summary counts (only for implemented requirements)
+      if (implemented) {
+        if (tests.length === 0) {
+          result.summary.untested++;
+        } else {
+          result.summary.tested++;
+        }
+
+        switch (verification) {
+          case "unverified":
+            result.summary.unverified++;
+            break;
+          case "verified":
+            result.summary.verified++;
+            break;
+          case "stale":
+            result.summary.stale++;
+            break;
+        }
+      }
+
+      // Count unanswered questions, and those past their due date
+      const { unanswered, overdue } = countQuestions(req.data.questions);
+      result.summary.unansweredQuestions += unanswered;
+      result.summary.overdueQuestions += overdue;
+
+      // Track priority breakdown
+      const priority = req.data.priority;
+      if (priority) {
+        result.summary.byPriority[priority]++;
+      } else {
+        result.summary.byPriority.unset++;
+      }
+
+      // Check for dependency issues (blocking deps that aren't implemented)
+      const depIssues: string[] = [];
+      if (req.data.dependencies && !deprecated) {
+        for (const dep of req.data.dependencies) {
+          const blocking = dep.blocking !== false; // default to true
+          if (blocking) {
+            const depStatus = reqStatusMap.get(dep.path);
+            const depImplemented = depStatus
+              ? isImplemented(workflow, depStatus)
+              : externalRequirements.get(dep.path);
+            // Issue if dependency doesn't exist or isn't implemented
+            if (!depImplemented) {
+              depIssues.push(dep.path);
+            }
+          }
+        }
+      }
+      if (depIssues.length > 0) {
+        result.summary.blockedRequirements++;
+        result.dependencyIssues.push({
+          requirement: req.path,
+          blockedBy: depIssues,
+        });
+      }
+
+      // Count unverified NFRs
+      const nfrs = req.data.nfrs || [];
+      const unverifiedNFRCount = nfrs.filter((nfr) => !nfr.verified).length;
+      result.summary.unverifiedNFRs += unverifiedNFRCount;
+
+      // Validate gherkin format
+      const gherkinValidation = isValidGherkinFormat(req.data.gherkin);
+      if (!gherkinValidation.valid) {
+        result.gherkinIssues.push({
+          requirement: req.path,
+          errors: gherkinValidation.errors,
+        });
+        result.summary.gherkinFormatIssues++;
+      }
+
+      // Also validate scenarios if present
+      if (req.data.scenarios) {
+        for (const scenario of req.data.scenarios) {
+          const scenarioValidation = isValidGherkinFormat(scenario.gherkin);
+          if (!scenarioValidation.valid) {
+            result.gherkinIssues.push({
+              requirement: `${req.path} (scenario: ${scenario.name})`,
+              errors: scenarioValidation.errors,
+            });
+            result.summary.gherkinFormatIssues++;
+          }
+        }
+      }
+
+      // Check if the only coverage comes from flaky tests
+      const flakyOnly =
+        !deprecated &&
+        tests.length > 0 &&
+        tests.every((test) => flakyTestKeys.has(`${test.file}:${test.identifier}`));
+      if (flakyOnly) {
+        result.summary.flakyOnly++;
+      }
+
+      // Per-scenario coverage from scenario-level links
+      const scenarios: ScenarioCheckResult[] | undefined = req.data.scenarios?.map((scenario) => ({
+        name: scenario.name,
+        testCount: scenario.tests?.length ?? 0,
+        verification: getVerificationStatus(
+          scenario.tests ?? [],
+          testHashMap,
+          !!req.data.aiAssessment,
+          legacyHashMap
+        ),
+        lastResult: getCombinedResult(scenario.tests ?? [], testResults),
+        suggested: scenario.suggested,
+      }));
+
+      // Use path as ID (e.g., "auth/REQ_login.yml")
+      groupResult.requirements.push({
+        id: req.path,
+        testCount: tests.length,
+        verification,
+        coverageSufficient: req.data.aiAssessment?.sufficient ?? null,
+        unansweredQuestions: unanswered,
+        overdueQuestions: overdue,
+        status: reqStatus,
+        implemented: implemented || undefined,
+        deprecated: deprecated || undefined,
+        priority,
+        dependencyIssues: depIssues.length > 0 ? depIssues : undefined,
+        unverifiedNFRCount,
+        flakyOnly: flakyOnly || undefined,
+        lastResult: getCombinedResult(tests, testResults),
+        scenarios: scenarios?.length ? scenarios : undefined,
+      });
+    }
+
+    result.requirements.push(groupResult);
+  }
+
+  // Find orphaned tests (excluding ignored tests, which may still use the
+  // plain name of a nested test)
+  const ignoredKeys = new Set(
+    Array.from(ignoredTestKeys, (key) => {
+      const ignored = testIndex.get(key);
+      return ignored ? `${ignored.file}:${ignored.identifier}` : key;
+    })
+  );
+  for (const test of extractedTests) {
+    const key = `${test.file}:${test.identifier}`;
+    if (!linkedTestKeys.has(key) && !ignoredKeys.has(key)) {
+      result.orphanedTests.push(test);
+    }
+  }
+  result.summary.orphanedTestCount = result.orphanedTests.length;
+
+  // Find links whose test no longer exists (see `req relink`)
+  result.brokenLinks = findBrokenLinks(requirements, new Set(testHashMap.keys()));
+  result.summary.brokenLinks = result.brokenLinks.length;
+
+  // Validate the dependency graph
+  result.dependencyCycles = findDependencyCycles(requirements);
+  result.missingDependencies = findMissingDependencies(
+    requirements,
+    new Set([...requirements.map((req) => req.path), ...externalRequirements.keys()])
+  );
+  result.summary.dependencyCycles = result.dependencyCycles.length;
+  result.summary.missingDependencies = result.missingDependencies.length;
+
+  return result;
+}
@@ -0,0 +1,94 @@
+/**
+ * Parser for Cobertura XML coverage
+ *
+ * Written by coverage.py (coverage xml / pytest-cov), gocov-xml, Jest and
+ * Vitest (cobertura reporter). Format:
+ *
+ * <coverage>
+ *   <sources><source>/abs/path/src</source></sources>
+ *   <packages><package><classes>
+ *     <class filename="auth.py">
+ *       <lines><line number="3" hits="1"/></lines>
+ *     </class>
+ *   </classes></package></packages>
+ * </coverage>
+ *
+ * Class file names are relative to the first <source>. Cobertura has no
+ * per-test data.
+ */
+
+import { posix } from "path";
+import { XMLParser } from "fast-xml-parser";
+import type { FileCoverage } from "../types";
+import { addLine, toFileCoverage, type LineMap } from "./lines";
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  isArray: (name) => ["source", "package", "class", "line"].includes(name),
+});
+
+interface CoberturaClass {
+  "@_filename"?: string;
+  lines?: { line?: Array<{ "@_number"?: string; "@_hits"?: string }> } | "";
+}
+
+interface CoberturaRoot {
+  coverage?: {
+    sources?: { source?: unknown[] } | "";
+    packages?: { package?: Array<{ classes?: { class?: CoberturaClass[] } | "" }> } | "";
+  };
+}
+
+/**
+ * Check if content is Cobertura XML
+ */
+export function canParse(content: string): boolean {
+  const start = content.trim().slice(0, 1000);
+  return (
+    (start.startsWith("<?xml") || start.startsWith("<coverage") || start.startsWith("<!DOCTYPE coverage")) &&
+    /<coverage[\s>]/.test(start)
+  );
+}
+
+/**
+ * Parse Cobertura XML coverage
+ * @throws Error if the XML has no <coverage> root
+ */
+export function parse(content: string): {
+  files: FileCoverage;
+  tests: Record<string, FileCoverage>;
+} {
+  const root = parser.parse(content) as CoberturaRoot;
+  if (!root.coverage) {
+    throw new Error("Not a Cobertura report: missing <coverage> element");
+  }
+
+  const sources = root.coverage.sources ? root.coverage.sources.source || [] : [];
+  const sourceRoot = sources.length > 0 ? String(sources[0]).trim().replace(/\\/g, "/") : "";
+
+  const files: LineMap = new Map();
+  const packages = root.coverage.packages ? root.coverage.packages.package || [] : [];
+  for (const pkg of packages) {
+    const classes = pkg.classes ? pkg.classes.class || [] : [];
+    for (const cls of classes) {
+      const filename = cls["@_filename"];
+      if (!filename || !cls.lines) continue;
+
+      const normalized = filename.replace(/\\/g, "/");
+      const file =
+        sourceRoot && !posix.isAbsolute(normalized) && !/^[A-Za-z]:\//.test(normalized)
+          ? posix.join(sourceRoot, normalized)
+          : normalized;
+
+      for (const line of cls.lines.line || []) {
+        const number = Number(line["@_number"]);
+        if (Number.isInteger(number) && Number(line["@_hits"]) > 0) {
+          addLine(files, file, number);
+        }
+      }
+    }
+  }
+
+  return { files: toFileCoverage(files), tests: {} };
+}
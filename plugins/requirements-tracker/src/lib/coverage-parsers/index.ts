@@ -0,0 +1,72 @@
+/**
+ * Code coverage parser registry with auto-detection
+ */
+
+import type { CoverageFormat, FileCoverage } from "../types";
+import * as cobertura from "./cobertura";
+import * as istanbulJson from "./istanbul-json";
+import * as lcov from "./lcov";
+
+export const COVERAGE_FORMATS: CoverageFormat[] = ["lcov", "istanbul-json", "cobertura"];
+
+export interface CoverageParseResult {
+  format: CoverageFormat;
+  files: FileCoverage; // Source paths as written in the report
+  tests: Record<string, FileCoverage>; // Per test name (empty without per-test data)
+}
+
+/**
+ * Detect the format of a coverage report by its content
+ */
+export function detectCoverageFormat(content: string): CoverageFormat | null {
+  if (cobertura.canParse(content)) {
+    return "cobertura";
+  }
+  if (istanbulJson.canParse(content)) {
+    return "istanbul-json";
+  }
+  if (lcov.canParse(content)) {
+    return "lcov";
+  }
+  return null;
+}
+
+/**
+ * Parse a coverage report with optional format hint
+ * @param content - File content
+ * @param format - Optional format hint (auto-detects if not provided)
+ * @throws Error if format is unknown or parsing fails
+ */
+export function parseCoverage(content: string, format?: CoverageFormat): CoverageParseResult {
+  const detectedFormat = format || detectCoverageFormat(content);
+
+  if (!detectedFormat) {
+    throw new Error(
+      "Could not detect coverage format. Expected LCOV, Istanbul JSON or Cobertura XML."
+    );
+  }
+
+  let parseResult: { files: FileCoverage; tests: Record<string, FileCoverage> };
+
+  switch (detectedFormat) {
+    case "lcov":
+      parseResult = lcov.parse(content);
+      break;
+    case "istanbul-json":
+      parseResult = istanbulJson.parse(content);
+      break;
+    case "cobertura":
+      parseResult = cobertura.parse(content);
+      break;
+    default:
+      throw new Error(`Unknown format: ${detectedFormat}`);
+  }
+
+  return {
+    format: detectedFormat,
+    ...parseResult,
+  };
+}
+
+// Re-export individual parsers for direct use
+export { cobertura, istanbulJson, lcov };
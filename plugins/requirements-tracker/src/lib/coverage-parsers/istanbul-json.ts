@@ -0,0 +1,79 @@
+/**
+ * Parser for Istanbul JSON coverage (coverage-final.json)
+ *
+ * Written by nyc, Jest (--coverageReporters=json) and Vitest
+ * (coverage.reporter=json). Format:
+ * {
+ *   "/abs/path/src/auth.ts": {
+ *     "path": "/abs/path/src/auth.ts",
+ *     "statementMap": { "0": { "start": { "line": 3 }, "end": { "line": 5 } } },
+ *     "s": { "0": 2 }
+ *   }
+ * }
+ *
+ * Istanbul has no per-test data; a statement counts for the line it starts on.
+ */
+
+import type { FileCoverage } from "../types";
+import { addLine, toFileCoverage, type LineMap } from "./lines";
+
+interface IstanbulLocation {
+  start?: { line?: number };
+}
+
+interface IstanbulFileCoverage {
+  path?: string;
+  statementMap?: Record<string, IstanbulLocation>;
+  s?: Record<string, number>;
+}
+
+function isFileCoverage(value: unknown): value is IstanbulFileCoverage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "statementMap" in value &&
+    "s" in value
+  );
+}
+
+/**
+ * Check if content is Istanbul JSON coverage
+ */
+export function canParse(content: string): boolean {
+  try {
+    const data = JSON.parse(content);
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      return false;
+    }
+    const values = Object.values(data);
+    return values.length > 0 && values.every(isFileCoverage);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse Istanbul JSON coverage
+ * @throws Error if the content is not valid JSON
+ */
+export function parse(content: string): {
+  files: FileCoverage;
+  tests: Record<string, FileCoverage>;
+} {
+  const data = JSON.parse(content) as Record<string, unknown>;
+  const files: LineMap = new Map();
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!isFileCoverage(value)) continue;
+    const file = value.path || key;
+
+    for (const [id, hits] of Object.entries(value.s || {})) {
+      const line = value.statementMap?.[id]?.start?.line;
+      if (hits > 0 && line !== undefined) {
+        addLine(files, file, line);
+      }
+    }
+  }
+
+  return { files: toFileCoverage(files), tests: {} };
+}
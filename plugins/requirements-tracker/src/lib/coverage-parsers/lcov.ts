@@ -0,0 +1,67 @@
+/**
+ * Parser for LCOV tracefiles (lcov.info)
+ *
+ * Written by c8, nyc, Jest, Vitest, Bun (--coverage-reporter=lcov),
+ * coverage.py (coverage lcov) and genhtml tooling. Format:
+ *
+ * TN:<test name>
+ * SF:<source file>
+ * DA:<line>,<hits>
+ * end_of_record
+ *
+ * Records with a non-empty TN (e.g. from `geninfo --test-name` or per-test
+ * contexts) give per-test coverage.
+ */
+
+import type { FileCoverage } from "../types";
+import { addLine, toFileCoverage, type LineMap } from "./lines";
+
+/**
+ * Check if content looks like an LCOV tracefile
+ */
+export function canParse(content: string): boolean {
+  return /^SF:/m.test(content) && /^end_of_record\s*$/m.test(content);
+}
+
+/**
+ * Parse an LCOV tracefile
+ * @returns Executed lines for the whole report, and per test name
+ */
+export function parse(content: string): {
+  files: FileCoverage;
+  tests: Record<string, FileCoverage>;
+} {
+  const files: LineMap = new Map();
+  const tests = new Map<string, LineMap>();
+
+  let testName = "";
+  let sourceFile: string | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (line.startsWith("TN:")) {
+      testName = line.slice(3).trim();
+    } else if (line.startsWith("SF:")) {
+      sourceFile = line.slice(3).trim();
+    } else if (line.startsWith("DA:") && sourceFile) {
+      const [lineNumber, hits] = line.slice(3).split(",").map((part) => Number(part));
+      if (!Number.isInteger(lineNumber) || !(hits > 0)) continue;
+
+      addLine(files, sourceFile, lineNumber);
+      if (testName) {
+        if (!tests.has(testName)) tests.set(testName, new Map());
+        addLine(tests.get(testName)!, sourceFile, lineNumber);
+      }
+    } else if (line === "end_of_record") {
+      sourceFile = null;
+    }
+  }
+
+  const perTest: Record<string, FileCoverage> = {};
+  for (const [name, lines] of tests) {
+    perTest[name] = toFileCoverage(lines);
+  }
+
+  return { files: toFileCoverage(files), tests: perTest };
+}
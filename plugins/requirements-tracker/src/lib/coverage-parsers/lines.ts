@@ -0,0 +1,30 @@
+/**
+ * Executed-line bookkeeping shared by the coverage parsers
+ */
+
+import type { FileCoverage } from "../types";
+
+// file -> executed lines, while a report is being read
+export type LineMap = Map<string, Set<number>>;
+
+export function addLine(map: LineMap, file: string, line: number): void {
+  let lines = map.get(file);
+  if (!lines) {
+    lines = new Set();
+    map.set(file, lines);
+  }
+  lines.add(line);
+}
+
+/**
+ * Convert to the stored shape: sorted lines, files without executed lines dropped
+ */
+export function toFileCoverage(map: LineMap): FileCoverage {
+  const coverage: FileCoverage = {};
+  for (const [file, lines] of map) {
+    if (lines.size > 0) {
+      coverage[file] = [...lines].sort((a, b) => a - b);
+    }
+  }
+  return coverage;
+}
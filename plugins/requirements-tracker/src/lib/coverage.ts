@@ -0,0 +1,191 @@
+/**
+ * Imported code coverage - which source files and lines the tests execute,
+ * used to check that a requirement's tests reach its implementation files
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { isAbsolute, join, relative } from "path";
+import { glob } from "glob";
+import { testNameFromIdentifier } from "./test-parsers";
+import { getAllTestLinks } from "./store";
+import { DEFAULT_WORKFLOW, isImplemented } from "./workflow";
+import {
+  COVERAGE_FILE,
+  REQUIREMENTS_DIR,
+  type CoverageData,
+  type CoverageEvidence,
+  type FileCoverage,
+  type ImplementationCoverageIssue,
+  type ParsedRequirement,
+  type TestLink,
+  type WorkflowConfig,
+} from "./types";
+
+/**
+ * Get path to the coverage file
+ */
+export function getCoveragePath(cwd: string): string {
+  return join(cwd, REQUIREMENTS_DIR, COVERAGE_FILE);
+}
+
+/**
+ * Load imported coverage
+ * @returns null if no coverage has been imported
+ */
+export async function loadCoverage(cwd: string): Promise<CoverageData | null> {
+  try {
+    const content = await readFile(getCoveragePath(cwd), "utf-8");
+    return JSON.parse(content) as CoverageData;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Save imported coverage
+ */
+export async function saveCoverage(cwd: string, data: CoverageData): Promise<void> {
+  await writeFile(getCoveragePath(cwd), JSON.stringify(data, null, 2) + "\n");
+}
+
+/**
+ * Make report paths relative to the project root (posix separators), so they
+ * compare with globs. Absolute paths outside the project are kept.
+ */
+export function normalizeCoveragePaths(coverage: FileCoverage, cwd: string): FileCoverage {
+  const normalized: FileCoverage = {};
+  for (const [file, lines] of Object.entries(coverage)) {
+    let path = file.replace(/\\/g, "/");
+    if (isAbsolute(path)) {
+      const rel = relative(cwd, path).replace(/\\/g, "/");
+      if (!rel.startsWith("../")) path = rel;
+    }
+    path = path.replace(/^(\.\/)+/, "");
+    normalized[path] = mergeLines(normalized[path] || [], lines);
+  }
+  return normalized;
+}
+
+function mergeLines(a: number[], b: number[]): number[] {
+  return [...new Set([...a, ...b])].sort((x, y) => x - y);
+}
+
+/**
+ * Merge executed lines of several coverage sets
+ */
+export function mergeFileCoverage(...coverages: FileCoverage[]): FileCoverage {
+  const merged: FileCoverage = {};
+  for (const coverage of coverages) {
+    for (const [file, lines] of Object.entries(coverage)) {
+      merged[file] = mergeLines(merged[file] || [], lines);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Find the per-test coverage of a linked test. Per-test names are whatever
+ * the coverage tool recorded, so the identifier, "file:identifier",
+ * "file::identifier" (pytest) and the plain test name are all tried.
+ */
+export function findTestCoverage(
+  link: Pick<TestLink, "file" | "identifier">,
+  tests: Record<string, FileCoverage>
+): FileCoverage | null {
+  const candidates = [
+    link.identifier,
+    `${link.file}:${link.identifier}`,
+    `${link.file}::${link.identifier}`,
+    testNameFromIdentifier(link.identifier),
+  ];
+  for (const candidate of candidates) {
+    if (tests[candidate]) {
+      return tests[candidate];
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the coverage attributed to a requirement, from the most specific data
+ * available: its linked tests' per-test coverage, then a run of its test set
+ * imported with --requirement, then the whole test run.
+ *
+ * @returns null if the requirement has no linked tests
+ */
+export function getRequirementCoverage(
+  requirement: ParsedRequirement,
+  coverage: CoverageData
+): { evidence: CoverageEvidence; files: FileCoverage } | null {
+  const tests = getAllTestLinks(requirement.data);
+  if (tests.length === 0) {
+    return null;
+  }
+
+  const perTest = tests
+    .map((test) => findTestCoverage(test, coverage.tests))
+    .filter((files): files is FileCoverage => files !== null);
+  if (perTest.length > 0) {
+    return { evidence: "tests", files: mergeFileCoverage(...perTest) };
+  }
+
+  const requirementCoverage = coverage.requirements[requirement.path];
+  if (requirementCoverage) {
+    return { evidence: "requirement", files: requirementCoverage };
+  }
+
+  return { evidence: "run", files: coverage.files };
+}
+
+/**
+ * Expand a requirement's implementation globs (relative to the project root)
+ */
+export async function findImplementationFiles(cwd: string, globs: string[]): Promise<string[]> {
+  const files = await glob(globs, {
+    cwd,
+    nodir: true,
+    posix: true,
+    ignore: ["**/node_modules/**"],
+  });
+  return files.sort();
+}
+
+/**
+ * Find implemented requirements whose linked tests execute none of the files
+ * matched by their implementation globs. Requirements without tests or
+ * without implementation files are skipped - those are reported elsewhere.
+ */
+export async function findImplementationCoverageIssues(
+  cwd: string,
+  requirements: ParsedRequirement[],
+  coverage: CoverageData,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW
+): Promise<ImplementationCoverageIssue[]> {
+  const issues: ImplementationCoverageIssue[] = [];
+
+  for (const req of requirements) {
+    if (!isImplemented(workflow, req.data.status) || !req.data.implementation?.length) continue;
+
+    const attributed = getRequirementCoverage(req, coverage);
+    if (!attributed) continue;
+
+    const implementationFiles = await findImplementationFiles(cwd, req.data.implementation);
+    if (implementationFiles.length === 0) continue;
+
+    const executed = implementationFiles.some(
+      (file) => (attributed.files[file]?.length ?? 0) > 0
+    );
+    if (!executed) {
+      issues.push({
+        requirement: req.path,
+        implementationFiles,
+        evidence: attributed.evidence,
+      });
+    }
+  }
+
+  return issues;
+}
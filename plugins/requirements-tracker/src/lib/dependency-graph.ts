@@ -0,0 +1,372 @@
+/**
+ * Requirement dependency graph - cycles, missing targets, the order in which
+ * unfinished requirements can be worked on, and DOT/Mermaid rendering
+ *
+ * An edge points from a requirement to a requirement it depends on. Only
+ * blocking dependencies (the default) order the work; soft ones
+ * (`blocking: false`) are drawn but never block.
+ */
+
+import { DEFAULT_WORKFLOW, isDeprecated, isImplemented } from "./workflow";
+import type {
+  ImplementationStatus,
+  MissingDependency,
+  ParsedRequirement,
+  Priority,
+  WorkflowConfig,
+} from "./types";
+
+export type GraphFormat = "dot" | "mermaid" | "json";
+
+export const GRAPH_FORMATS: GraphFormat[] = ["dot", "mermaid", "json"];
+
+export interface DependencyGraphNode {
+  path: string;
+  status: ImplementationStatus;
+  priority?: Priority;
+  implemented: boolean;
+  deprecated: boolean;
+  workable: boolean; // Unfinished, and every blocking dependency is done
+}
+
+export interface DependencyGraphEdge {
+  from: string; // Dependent requirement
+  to: string; // Requirement it depends on
+  blocking: boolean;
+  missing: boolean; // Target doesn't exist
+  cycle: boolean; // Part of a dependency cycle
+}
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+  cycles: string[][]; // Each cycle from its first path, e.g. [a, b] for a -> b -> a
+  missing: MissingDependency[];
+  nextWorkable: string[]; // Unfinished requirements that can be started now, by priority
+  workOrder: string[]; // Unfinished requirements in dependency order
+  stuck: string[]; // Unfinished requirements that can never start (cycle or missing/deprecated dependency)
+  criticalPath: string[]; // Longest chain of unfinished requirements, first to do first
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+function byPriority(nodes: Map<string, DependencyGraphNode>) {
+  return (a: string, b: string): number => {
+    const rank = (path: string) => {
+      const priority = nodes.get(path)?.priority;
+      return priority ? PRIORITY_RANK[priority] : 4;
+    };
+    return rank(a) - rank(b) || a.localeCompare(b);
+  };
+}
+
+// Blocking dependency targets of each requirement
+function blockingTargets(requirements: ParsedRequirement[]): Map<string, string[]> {
+  return new Map(
+    requirements.map((req) => [
+      req.path,
+      (req.data.dependencies ?? []).filter((dep) => dep.blocking !== false).map((dep) => dep.path),
+    ])
+  );
+}
+
+/**
+ * Dependencies on requirements that don't exist
+ * @param knownPaths - All requirement paths (defaults to the given requirements)
+ */
+export function findMissingDependencies(
+  requirements: ParsedRequirement[],
+  knownPaths: Set<string> = new Set(requirements.map((req) => req.path))
+): MissingDependency[] {
+  return requirements.flatMap((req) =>
+    (req.data.dependencies ?? [])
+      .filter((dep) => !knownPaths.has(dep.path))
+      .map((dep) => ({ requirement: req.path, dependency: dep.path }))
+  );
+}
+
+/**
+ * Cycles of blocking dependencies (including a requirement depending on
+ * itself). One cycle per strongly connected component, listed from its
+ * alphabetically first path.
+ */
+export function findDependencyCycles(requirements: ParsedRequirement[]): string[][] {
+  const targets = blockingTargets(requirements);
+
+  // Tarjan's strongly connected components
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (path: string) => {
+    indices.set(path, index);
+    lowLinks.set(path, index);
+    index++;
+    stack.push(path);
+    onStack.add(path);
+
+    for (const target of targets.get(path) ?? []) {
+      if (!targets.has(target)) continue;
+      if (!indices.has(target)) {
+        visit(target);
+        lowLinks.set(path, Math.min(lowLinks.get(path)!, lowLinks.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLinks.set(path, Math.min(lowLinks.get(path)!, indices.get(target)!));
+      }
+    }
+
+    if (lowLinks.get(path) === indices.get(path)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== path);
+      components.push(component);
+    }
+  };
+
+  for (const path of [...targets.keys()].sort()) {
+    if (!indices.has(path)) visit(path);
+  }
+
+  const cycles: string[][] = [];
+  for (const component of components) {
+    const members = new Set(component);
+    const start = [...component].sort()[0];
+    if (component.length === 1 && !(targets.get(start) ?? []).includes(start)) continue;
+
+    // Shortest way around the component back to its first path
+    const previous = new Map<string, string>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const path = queue.shift()!;
+      const next = (targets.get(path) ?? []).filter((t) => members.has(t)).sort();
+      if (next.includes(start)) {
+        const cycle = [path];
+        while (cycle[0] !== start) cycle.unshift(previous.get(cycle[0])!);
+        cycles.push(cycle);
+        break;
+      }
+      for (const target of next) {
+        if (!previous.has(target)) {
+          previous.set(target, path);
+          queue.push(target);
+        }
+      }
+    }
+  }
+
+  return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+/**
+ * Build the dependency graph of the requirements
+ */
+export function buildDependencyGraph(
+  requirements: ParsedRequirement[],
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW
+): DependencyGraph {
+  const nodes = new Map<string, DependencyGraphNode>();
+  for (const req of [...requirements].sort((a, b) => a.path.localeCompare(b.path))) {
+    nodes.set(req.path, {
+      path: req.path,
+      status: req.data.status,
+      priority: req.data.priority,
+      implemented: isImplemented(workflow, req.data.status),
+      deprecated: isDeprecated(workflow, req.data.status),
+      workable: false,
+    });
+  }
+  const unfinished = (path: string) => {
+    const node = nodes.get(path);
+    return !!node && !node.implemented && !node.deprecated;
+  };
+
+  const cycles = findDependencyCycles(requirements);
+  const cycleEdges = new Set(
+    cycles.flatMap((cycle) => cycle.map((path, i) => `${path}\n${cycle[(i + 1) % cycle.length]}`))
+  );
+
+  const edges: DependencyGraphEdge[] = requirements.flatMap((req) =>
+    (req.data.dependencies ?? []).map((dep) => ({
+      from: req.path,
+      to: dep.path,
+      blocking: dep.blocking !== false,
+      missing: !nodes.has(dep.path),
+      cycle: cycleEdges.has(`${req.path}\n${dep.path}`),
+    }))
+  );
+
+  // Work order: unfinished requirements once all their blockers are done.
+  // A blocker that is missing or deprecated never will be.
+  const targets = blockingTargets(requirements);
+  const pending = new Map<string, number>(); // Unfinished blockers left
+  const dependents = new Map<string, string[]>();
+  const stuckByBlocker = new Set<string>();
+  for (const path of nodes.keys()) {
+    if (!unfinished(path)) continue;
+    let count = 0;
+    for (const target of targets.get(path) ?? []) {
+      const node = nodes.get(target);
+      if (node?.implemented) continue;
+      if (!unfinished(target)) {
+        stuckByBlocker.add(path);
+        continue;
+      }
+      count++;
+      dependents.set(target, [...(dependents.get(target) ?? []), path]);
+    }
+    pending.set(path, count);
+  }
+
+  const compare = byPriority(nodes);
+  const ready = [...pending.keys()].filter((p) => pending.get(p) === 0 && !stuckByBlocker.has(p)).sort(compare);
+  const nextWorkable = [...ready];
+  const workOrder: string[] = [];
+  const depth = new Map<string, number>(); // Length of the longest chain ending here
+  const previous = new Map<string, string>();
+  while (ready.length > 0) {
+    const path = ready.shift()!;
+    workOrder.push(path);
+    for (const dependent of dependents.get(path) ?? []) {
+      if ((depth.get(path) ?? 1) + 1 > (depth.get(dependent) ?? 1)) {
+        depth.set(dependent, (depth.get(path) ?? 1) + 1);
+        previous.set(dependent, path);
+      }
+      pending.set(dependent, pending.get(dependent)! - 1);
+      if (pending.get(dependent) === 0 && !stuckByBlocker.has(dependent)) {
+        ready.push(dependent);
+        ready.sort(compare);
+      }
+    }
+  }
+  const scheduled = new Set(workOrder);
+  const stuck = [...pending.keys()].filter((path) => !scheduled.has(path));
+
+  // Critical path: back from the requirement at the end of the longest chain
+  const criticalPath: string[] = [];
+  let end = workOrder.reduce<string | undefined>(
+    (best, path) => (best === undefined || (depth.get(path) ?? 1) > (depth.get(best) ?? 1) ? path : best),
+    undefined
+  );
+  while (end !== undefined) {
+    criticalPath.unshift(end);
+    end = previous.get(end);
+  }
+
+  for (const path of nextWorkable) {
+    nodes.get(path)!.workable = true;
+  }
+
+  return {
+    nodes: [...nodes.values()],
+    edges,
+    cycles,
+    missing: findMissingDependencies(requirements),
+    nextWorkable,
+    workOrder,
+    stuck,
+    criticalPath,
+  };
+}
+
+// === Rendering ===
+
+// Fill colours by node state
+const NODE_COLORS = {
+  done: "#dcfce7",
+  workable: "#dbeafe",
+  blocked: "#fef3c7",
+  deprecated: "#e5e7eb",
+  missing: "#fee2e2",
+} as const;
+
+type NodeState = keyof typeof NODE_COLORS;
+
+function getNodeState(node: DependencyGraphNode): NodeState {
+  if (node.implemented) return "done";
+  if (node.deprecated) return "deprecated";
+  return node.workable ? "workable" : "blocked";
+}
+
+function missingTargets(graph: DependencyGraph): string[] {
+  return [...new Set(graph.edges.filter((edge) => edge.missing).map((edge) => edge.to))].sort();
+}
+
+/**
+ * Graphviz DOT
+ */
+export function formatDot(graph: DependencyGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = [
+    "digraph requirements {",
+    "  rankdir=LR;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+  for (const node of graph.nodes) {
+    const label = `${node.path}\\n${node.status}${node.priority ? ` (${node.priority})` : ""}`;
+    lines.push(`  ${quote(node.path)} [label="${label.replace(/"/g, '\\"')}", fillcolor="${NODE_COLORS[getNodeState(node)]}"];`);
+  }
+  for (const path of missingTargets(graph)) {
+    lines.push(
+      `  ${quote(path)} [label="${path.replace(/"/g, '\\"')}\\n(missing)", style="rounded,dashed,filled", fillcolor="${NODE_COLORS.missing}", color="#dc2626"];`
+    );
+  }
+  for (const edge of graph.edges) {
+    const attrs = [
+      ...(edge.blocking ? [] : ["style=dashed"]),
+      ...(edge.cycle || edge.missing ? ['color="#dc2626"'] : []),
+    ];
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attrs.length > 0 ? ` [${attrs.join(", ")}]` : ""};`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Mermaid flowchart
+ */
+export function formatMermaid(graph: DependencyGraph): string {
+  const ids = new Map<string, string>();
+  const idOf = (path: string) => {
+    if (!ids.has(path)) ids.set(path, `n${ids.size}`);
+    return ids.get(path)!;
+  };
+  const label = (text: string) => `"${text.replace(/"/g, "#quot;")}"`;
+
+  const lines = ["graph LR"];
+  for (const node of graph.nodes) {
+    lines.push(`  ${idOf(node.path)}[${label(`${node.path}<br/>${node.status}`)}]:::${getNodeState(node)}`);
+  }
+  for (const path of missingTargets(graph)) {
+    lines.push(`  ${idOf(path)}[${label(`${path}<br/>(missing)`)}]:::missing`);
+  }
+  const highlighted: number[] = [];
+  graph.edges.forEach((edge, i) => {
+    lines.push(`  ${idOf(edge.from)} ${edge.blocking ? "-->" : "-.->"} ${idOf(edge.to)}`);
+    if (edge.cycle || edge.missing) highlighted.push(i);
+  });
+  for (const [state, color] of Object.entries(NODE_COLORS)) {
+    lines.push(`  classDef ${state} fill:${color}${state === "missing" ? ",stroke:#dc2626,stroke-dasharray:4" : ""}`);
+  }
+  if (highlighted.length > 0) {
+    lines.push(`  linkStyle ${highlighted.join(",")} stroke:#dc2626`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function formatGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return formatDot(graph);
+    case "mermaid":
+      return formatMermaid(graph);
+    case "json":
+      return JSON.stringify(graph, null, 2) + "\n";
+  }
+}
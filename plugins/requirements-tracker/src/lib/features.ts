@@ -0,0 +1,370 @@
+/**
+ * Mapping between Cucumber .feature files and requirements
+ *
+ * - Feature          -> requirement folder ("User login" -> user_login/)
+ * - Scenario         -> REQ_<name>.yml
+ * - Rule             -> REQ_<rule>.yml; its first scenario is the main gherkin,
+ *                       the others become scenarios[]
+ * - Scenario Outline -> gherkin with examples tables
+ * - Tags             -> priority (@critical, @high, @medium, @low), NFR
+ *                       categories (@performance, @security, ...), status
+ *                       (a workflow state, e.g. @done) and @suggested scenarios
+ *
+ * Tags are inherited from Feature to Rule to Scenario; the most specific wins.
+ *
+ * What the requirement fields can't hold (titles as written, the feature
+ * description, Backgrounds, tags without a mapping, whether the status was
+ * tagged) is kept in the requirement's "feature" field, so an exported
+ * feature matches the imported one.
+ */
+
+import {
+  applyBackground,
+  formatGherkin,
+  formatTable,
+  parseGherkin,
+  type Feature,
+  type FeatureRule,
+  type FeatureScenario,
+  type GherkinStep,
+} from "./gherkin";
+import { DEFAULT_WORKFLOW, getStateNames } from "./workflow";
+import type {
+  FeatureOrigin,
+  ImplementationStatus,
+  NFRCategory,
+  ParsedRequirement,
+  Priority,
+  Scenario,
+  ScenarioExamples,
+} from "./types";
+
+const PRIORITY_TAGS: Priority[] = ["critical", "high", "medium", "low"];
+const NFR_TAGS: NFRCategory[] = [
+  "performance",
+  "security",
+  "accessibility",
+  "reliability",
+  "scalability",
+  "other",
+];
+const SUGGESTED_TAG = "suggested";
+
+// Feature file for requirements at the root of .requirements/
+export const ROOT_FEATURE_FILE = "requirements.feature";
+
+// A requirement read from a feature file
+export interface ImportedRequirement {
+  path: string; // e.g. "user_login/REQ_successful_login.yml"
+  gherkin: string;
+  examples?: ScenarioExamples[];
+  scenarios: Scenario[]; // From the other scenarios of a Rule
+  priority?: Priority;
+  nfrCategories: NFRCategory[];
+  status?: ImplementationStatus; // Only when tagged
+  feature: FeatureOrigin;
+  line: number; // Line of the (first) scenario in the feature file
+}
+
+/**
+ * Turn a title into a file name part: "Successful login!" -> "successful_login"
+ */
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Requirement folder of a feature: "Billing / Refunds" -> "billing/refunds/"
+ * A feature without a name maps to the root folder.
+ */
+export function featureFolder(featureName: string): string {
+  const segments = featureName.split("/").map(slugify).filter(Boolean);
+  return segments.length > 0 ? `${segments.join("/")}/` : "";
+}
+
+function humanize(name: string): string {
+  return name.replace(/_/g, " ");
+}
+
+interface TagMapping {
+  priority?: Priority;
+  nfrCategories: NFRCategory[];
+  status?: ImplementationStatus;
+  unmapped: string[]; // Tags that map to no field, as written
+}
+
+function mapTags(tags: string[], states: ImplementationStatus[]): TagMapping {
+  const mapping: TagMapping = { nfrCategories: [], unmapped: [] };
+  for (const original of tags) {
+    const tag = original.toLowerCase();
+    const state = states.find((name) => name.toLowerCase() === tag);
+    if (PRIORITY_TAGS.includes(tag as Priority)) {
+      mapping.priority = tag as Priority;
+    } else if (NFR_TAGS.includes(tag as NFRCategory)) {
+      if (!mapping.nfrCategories.includes(tag as NFRCategory)) {
+        mapping.nfrCategories.push(tag as NFRCategory);
+      }
+    } else if (state) {
+      mapping.status = state;
+    } else if (tag !== SUGGESTED_TAG && !mapping.unmapped.includes(original)) {
+      mapping.unmapped.push(original);
+    }
+  }
+  return mapping;
+}
+
+// Re-parse so imported steps are split and formatted the way `req add` stores them
+function toGherkin(steps: GherkinStep[]): string {
+  const result = parseGherkin(formatGherkin(steps));
+  return formatGherkin(result.success ? result.steps : steps);
+}
+
+function scenarioExamples(scenario: FeatureScenario): ScenarioExamples[] | undefined {
+  return scenario.examples.length > 0 ? scenario.examples : undefined;
+}
+
+/**
+ * Map a parsed feature to requirements
+ * @param states - Workflow states recognized as status tags
+ */
+export function featureToRequirements(
+  feature: Feature,
+  states: ImplementationStatus[] = getStateNames(DEFAULT_WORKFLOW)
+): ImportedRequirement[] {
+  const folder = featureFolder(feature.name);
+  const featureTags = mapTags(feature.tags, states).unmapped;
+  const requirements: ImportedRequirement[] = [];
+
+  const fromScenarios = (scenarios: FeatureScenario[], rule?: FeatureRule) => {
+    const [main, ...others] = scenarios;
+    const name = rule?.name ?? main.name;
+    const background = applyBackground(feature.background, rule?.background ?? []);
+    const ownTags = [...(rule?.tags ?? []), ...main.tags];
+    const { unmapped, ...mapping } = mapTags([...feature.tags, ...ownTags], states);
+
+    const origin: FeatureOrigin = { name: feature.name, title: main.name };
+    if (feature.description) origin.description = feature.description;
+    if (featureTags.length > 0) origin.tags = featureTags;
+    if (feature.background.length > 0) origin.background = toGherkin(feature.background);
+    if (rule) origin.rule = rule.name;
+    if (rule?.background.length) origin.ruleBackground = toGherkin(rule.background);
+    const scenarioTags = unmapped.filter((tag) => !featureTags.includes(tag));
+    if (scenarioTags.length > 0) origin.scenarioTags = scenarioTags;
+    if (mapping.status) origin.statusTag = true;
+
+    requirements.push({
+      path: `${folder}REQ_${slugify(name) || `line_${main.line}`}.yml`,
+      gherkin: toGherkin(applyBackground(background, main.steps)),
+      examples: scenarioExamples(main),
+      scenarios: others.map((scenario) => {
+        const result: Scenario = {
+          name: slugify(scenario.name) || `line_${scenario.line}`,
+          gherkin: toGherkin(applyBackground(background, scenario.steps)),
+          title: scenario.name,
+        };
+        const examples = scenarioExamples(scenario);
+        if (examples) result.examples = examples;
+        if (scenario.tags.some((tag) => tag.toLowerCase() === SUGGESTED_TAG)) result.suggested = true;
+        return result;
+      }),
+      ...mapping,
+      feature: origin,
+      line: main.line,
+    });
+  };
+
+  for (const scenario of feature.scenarios) {
+    fromScenarios([scenario]);
+  }
+  for (const rule of feature.rules) {
+    if (rule.scenarios.length === 0) continue;
+    fromScenarios(rule.scenarios, rule);
+  }
+
+  return requirements;
+}
+
+// === Export ===
+
+function requirementTitle(reqPath: string): string {
+  const fileName = reqPath.split("/").pop() ?? reqPath;
+  return humanize(fileName.replace(/^REQ_/, "").replace(/\.yml$/, ""));
+}
+
+function formatTags(tags: string[], indent: string): string[] {
+  return tags.length > 0 ? [`${indent}${tags.map((tag) => `@${tag}`).join(" ")}`] : [];
+}
+
+function formatScenario(
+  title: string,
+  gherkin: string,
+  examples: ScenarioExamples[] | undefined,
+  tags: string[],
+  indent: string
+): string[] {
+  const lines = [
+    ...formatTags(tags, indent),
+    `${indent}${examples?.length ? "Scenario Outline" : "Scenario"}: ${title}`,
+  ];
+  for (const line of gherkin.trim().split("\n")) {
+    lines.push(line.trim() ? `${indent}  ${line.trimEnd()}` : "");
+  }
+  for (const table of examples ?? []) {
+    lines.push("", `${indent}  Examples:${table.name ? ` ${table.name}` : ""}`);
+    lines.push(...formatTable([table.header, ...table.rows], `${indent}    `));
+  }
+  return lines;
+}
+
+function parseSteps(gherkin: string): GherkinStep[] {
+  const result = parseGherkin(gherkin);
+  return result.success ? result.steps : [];
+}
+
+/**
+ * Remove Background steps from the start of a gherkin, undoing applyBackground
+ * @returns null if the gherkin doesn't start with them
+ */
+function stripBackground(gherkin: string, background: GherkinStep[]): string | null {
+  if (background.length === 0) {
+    return gherkin;
+  }
+  const steps = parseSteps(gherkin);
+  const rest = steps.slice(background.length);
+  const matches =
+    rest.length > 0 &&
+    background.every((step, i) => formatGherkin([step]) === formatGherkin([steps[i]]));
+  if (!matches) {
+    return null;
+  }
+  if (rest[0].keyword === "And") {
+    rest[0] = { ...rest[0], keyword: "Given" };
+  }
+  return formatGherkin(rest);
+}
+
+// Main and additional scenario gherkins of a requirement
+function allGherkins(req: ParsedRequirement): string[] {
+  return [req.data.gherkin, ...(req.data.scenarios ?? []).map((scenario) => scenario.gherkin)];
+}
+
+function formatBackground(steps: GherkinStep[], indent: string): string[] {
+  return [
+    `${indent}Background:`,
+    ...formatGherkin(steps)
+      .split("\n")
+      .map((line) => `${indent}  ${line}`),
+  ];
+}
+
+/**
+ * Format the requirements of one folder as a feature file.
+ * Requirements imported from a feature keep their titles, tags, description
+ * and Backgrounds; the others are named after their folder and file.
+ * @param folder - Requirement folder, e.g. "auth/" ("" for the root)
+ */
+export function formatFeature(folder: string, requirements: ParsedRequirement[]): string {
+  // The feature this folder was imported from, if any
+  const origin = requirements
+    .map((req) => req.data.feature)
+    .find((feature) => feature && featureFolder(feature.name) === folder);
+
+  const name = origin?.name ?? folder.replace(/\/$/, "").split("/").map(humanize).join("/");
+  const lines = [...formatTags(origin?.tags ?? [], ""), name ? `Feature: ${name}` : "Feature:"];
+  for (const line of origin?.description?.split("\n") ?? []) {
+    lines.push(`  ${line}`);
+  }
+
+  // A Background only when every scenario of the folder starts with it
+  const background = origin?.background ? parseSteps(origin.background) : [];
+  const sharedBackground =
+    background.length > 0 &&
+    requirements.every(
+      (req) =>
+        req.data.feature?.background === origin?.background &&
+        allGherkins(req).every((gherkin) => stripBackground(gherkin, background) !== null)
+    );
+  const inherited = sharedBackground ? background : [];
+  if (sharedBackground) {
+    lines.push("", ...formatBackground(background, "  "));
+  }
+
+  // Scenarios after a Rule belong to that Rule, so plain scenarios come first
+  const isRule = (req: ParsedRequirement) => !!req.data.scenarios?.length || !!req.data.feature?.rule;
+  const sorted = [...requirements].sort(
+    (a, b) => Number(isRule(a)) - Number(isRule(b)) || a.path.localeCompare(b.path)
+  );
+
+  for (const req of sorted) {
+    const { feature } = req.data;
+    const title = feature?.title ?? requirementTitle(req.path);
+    const tags = [
+      ...(req.data.priority ? [req.data.priority] : []),
+      // Imported requirements keep a status tag only if they had one
+      ...(!feature || feature.statusTag ? [req.data.status] : []),
+      ...new Set((req.data.nfrs ?? []).map((nfr) => nfr.category)),
+      ...(feature?.scenarioTags ?? []),
+    ];
+    const scenarios = req.data.scenarios ?? [];
+
+    lines.push("");
+    if (!isRule(req)) {
+      const gherkin = stripBackground(req.data.gherkin, inherited) ?? req.data.gherkin;
+      lines.push(...formatScenario(title, gherkin, req.data.examples, tags, "  "));
+      continue;
+    }
+
+    // A Rule whose first scenario is the main gherkin, with its own Background if it had one
+    const ruleBackground = feature?.ruleBackground ? parseSteps(feature.ruleBackground) : [];
+    const ruleInherited = applyBackground(inherited, ruleBackground);
+    const ownBackground =
+      ruleBackground.length > 0 &&
+      allGherkins(req).every((gherkin) => stripBackground(gherkin, ruleInherited) !== null);
+    const strip = (gherkin: string) =>
+      stripBackground(gherkin, ownBackground ? ruleInherited : inherited) ?? gherkin;
+
+    lines.push(...formatTags(tags, "  "), `  Rule: ${feature?.rule ?? requirementTitle(req.path)}`, "");
+    if (ownBackground) {
+      lines.push(...formatBackground(ruleBackground, "    "), "");
+    }
+    lines.push(...formatScenario(title, strip(req.data.gherkin), req.data.examples, [], "    "));
+    for (const scenario of scenarios) {
+      lines.push(
+        "",
+        ...formatScenario(
+          scenario.title ?? humanize(scenario.name),
+          strip(scenario.gherkin),
+          scenario.examples,
+          scenario.suggested ? [SUGGESTED_TAG] : [],
+          "    "
+        )
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Group requirements into feature files, one per folder
+ * @returns Feature file path (relative to the export directory) -> content
+ */
+export function requirementsToFeatures(requirements: ParsedRequirement[]): Map<string, string> {
+  const byFolder = new Map<string, ParsedRequirement[]>();
+  for (const req of requirements) {
+    const lastSlash = req.path.lastIndexOf("/");
+    const folder = lastSlash >= 0 ? req.path.slice(0, lastSlash + 1) : "";
+    if (!byFolder.has(folder)) byFolder.set(folder, []);
+    byFolder.get(folder)!.push(req);
+  }
+
+  const files = new Map<string, string>();
+  for (const [folder, reqs] of Array.from(byFolder.entries()).sort()) {
+    const file = folder ? `${folder.slice(0, -1)}.feature` : ROOT_FEATURE_FILE;
+    files.set(file, formatFeature(folder, reqs));
+  }
+  return files;
+}
@@ -6,13 +6,31 @@
  *   And they have items in cart
  *   When they click checkout
  *   Then the payment page opens
+ *
+ * A step may be followed by a data table or a doc string:
+ *   Given these users exist
+ *     | name  | role  |
+ *     | alice | admin |
+ *
+ * parseFeature reads whole Cucumber .feature files (Feature, Rule,
+ * Background, Scenario Outline and Examples).
  */
 
+import type { ScenarioExamples } from "./types";
+
 export type GherkinKeyword = "Given" | "When" | "Then" | "And" | "But";
 
+export interface GherkinDocString {
+  content: string;
+  mediaType?: string; // e.g. "json" in """json
+  delimiter?: '"""' | "```"; // Defaults to """
+}
+
 export interface GherkinStep {
   keyword: GherkinKeyword;
   text: string;
+  dataTable?: string[][];
+  docString?: GherkinDocString;
 }
 
 export interface GherkinParseSuccess {
@@ -53,27 +71,141 @@ function normalizeKeyword(keyword: string): GherkinKeyword {
   return map[lower] || (keyword as GherkinKeyword);
 }
 
+// === Data tables and doc strings ===
+
+// Inside a doc string, delimiters are escaped as \"\"\" (or \`\`\`)
+function escapeDelimiter(delimiter: string): string {
+  return delimiter.replace(/./g, "\\$&");
+}
+
+function isDocStringDelimiter(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith('"""') || trimmed.startsWith("```");
+}
+
 /**
- * Parse freeform Gherkin text into structured steps
+ * Split a table row ("| a | b\|c |") into cells, resolving the \|, \\
+ * and \n escapes
  */
-export function parseGherkin(input: string): GherkinParseResult {
-  if (!input || input.trim() === "") {
-    return { success: false, error: "Gherkin text cannot be empty" };
+export function parseTableRow(line: string): string[] {
+  const trimmed = line.trim();
+  const cells: string[] = [];
+  let cell = "";
+  let started = false;
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === "\\" && i + 1 < trimmed.length) {
+      const next = trimmed[++i];
+      cell += next === "n" ? "\n" : next === "|" || next === "\\" ? next : `\\${next}`;
+    } else if (char === "|") {
+      if (started) cells.push(cell.trim());
+      started = true;
+      cell = "";
+    } else {
+      cell += char;
+    }
   }
 
-  // Check for Scenario: prefix - should not be included
-  if (/^\s*Scenario:/i.test(input)) {
-    return {
-      success: false,
-      error:
-        "Don't include 'Scenario:' prefix. Put the scenario name in the 'scenarios[].name' field instead.",
-    };
+  return cells;
+}
+
+function escapeTableCell(cell: string): string {
+  return cell.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\n/g, "\\n");
+}
+
+/**
+ * Format table rows with aligned columns
+ */
+export function formatTable(rows: string[][], indent = ""): string[] {
+  const escaped = rows.map((row) => row.map(escapeTableCell));
+  const widths: number[] = [];
+  for (const row of escaped) {
+    row.forEach((cell, i) => {
+      widths[i] = Math.max(widths[i] ?? 0, cell.length);
+    });
   }
+  return escaped.map(
+    (row) => `${indent}| ${row.map((cell, i) => cell.padEnd(widths[i])).join(" | ")} |`
+  );
+}
 
-  // Convert literal \n sequences to actual newlines (from AI-generated text)
-  const unescaped = input.replace(/\\n/g, "\n");
+type StepBlock =
+  | { type: "text"; text: string }
+  | { type: "table"; rows: string[][] }
+  | { type: "docString"; docString: GherkinDocString };
+
+/**
+ * Split step text into free text, data tables and doc strings
+ */
+function splitStepBlocks(input: string): StepBlock[] | { error: string } {
+  const lines = input.split(/\r?\n/);
+  const blocks: StepBlock[] = [];
+  let text: string[] = [];
+
+  const flushText = () => {
+    if (text.length > 0) {
+      blocks.push({ type: "text", text: text.join("\n") });
+      text = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (isDocStringDelimiter(line)) {
+      flushText();
+      const delimiter = trimmed.slice(0, 3) as '"""' | "```";
+      const mediaType = trimmed.slice(3).trim() || undefined;
+      // Content is indented relative to the opening delimiter
+      const indent = line.length - line.trimStart().length;
+      const content: string[] = [];
+      let closed = false;
+      for (i++; i < lines.length; i++) {
+        if (lines[i].trim() === delimiter) {
+          closed = true;
+          break;
+        }
+        const lineIndent = lines[i].length - lines[i].trimStart().length;
+        content.push(
+          lines[i].slice(Math.min(indent, lineIndent)).replaceAll(escapeDelimiter(delimiter), delimiter)
+        );
+      }
+      if (!closed) {
+        return { error: `Unterminated doc string (missing closing ${delimiter})` };
+      }
+      const docString: GherkinDocString = { content: content.join("\n") };
+      if (mediaType) docString.mediaType = mediaType;
+      if (delimiter !== '"""') docString.delimiter = delimiter;
+      blocks.push({ type: "docString", docString });
+    } else if (trimmed.startsWith("|")) {
+      flushText();
+      const rows: string[][] = [];
+      for (; i < lines.length && lines[i].trim().startsWith("|"); i++) {
+        rows.push(parseTableRow(lines[i]));
+      }
+      i--;
+      if (rows.some((row) => row.length !== rows[0].length)) {
+        return { error: "Inconsistent cell count in data table" };
+      }
+      blocks.push({ type: "table", rows });
+    } else {
+      text.push(line);
+    }
+  }
+  flushText();
+
+  return blocks;
+}
+
+/**
+ * Split free text into steps at each keyword. Text before the first keyword
+ * continues the previous step (e.g. after a data table).
+ */
+function splitSteps(text: string, steps: GherkinStep[]): string | null {
   // Normalize whitespace (collapse multiple spaces/newlines)
-  const normalized = unescaped.replace(/\s+/g, " ").trim();
+  const normalized = text.replace(/\s+/g, " ").trim();
 
   // Find all keyword positions
   const matches: { keyword: string; index: number }[] = [];
@@ -86,16 +218,12 @@ export function parseGherkin(input: string): GherkinParseResult {
     matches.push({ keyword: match[1], index: match.index });
   }
 
-  if (matches.length === 0) {
-    return {
-      success: false,
-      error: "No Gherkin keywords found. Must include Given, When, and Then.",
-    };
+  const leading = normalized.slice(0, matches.length > 0 ? matches[0].index : undefined).trim();
+  if (leading && steps.length > 0) {
+    steps[steps.length - 1].text += ` ${leading}`;
   }
 
   // Extract steps from keyword positions
-  const steps: GherkinStep[] = [];
-
   for (let i = 0; i < matches.length; i++) {
     const current = matches[i];
     const next = matches[i + 1];
@@ -103,21 +231,81 @@ export function parseGherkin(input: string): GherkinParseResult {
     // Text starts after the keyword
     const textStart = current.index + current.keyword.length;
     const textEnd = next ? next.index : normalized.length;
-    const text = normalized.slice(textStart, textEnd).trim();
+    const stepText = normalized.slice(textStart, textEnd).trim();
 
-    if (!text) {
-      return {
-        success: false,
-        error: `Empty step text after '${current.keyword}'`,
-      };
+    if (!stepText) {
+      return `Empty step text after '${current.keyword}'`;
     }
 
     steps.push({
       keyword: normalizeKeyword(current.keyword),
-      text,
+      text: stepText,
     });
   }
 
+  return null;
+}
+
+/**
+ * Parse freeform Gherkin text into structured steps
+ */
+export function parseGherkin(input: string): GherkinParseResult {
+  if (!input || input.trim() === "") {
+    return { success: false, error: "Gherkin text cannot be empty" };
+  }
+
+  // Check for Scenario: prefix - should not be included
+  if (/^\s*Scenario:/i.test(input)) {
+    return {
+      success: false,
+      error:
+        "Don't include 'Scenario:' prefix. Put the scenario name in the 'scenarios[].name' field instead.",
+    };
+  }
+
+  // Convert literal \n sequences to actual newlines (from AI-generated text).
+  // Multi-line text is left alone: \n is also the newline escape in table cells.
+  const unescaped = input.includes("\n") ? input : input.replace(/\\n/g, "\n");
+
+  const blocks = splitStepBlocks(unescaped);
+  if ("error" in blocks) {
+    return { success: false, error: blocks.error };
+  }
+
+  const steps: GherkinStep[] = [];
+  for (const block of blocks) {
+    if (block.type === "text") {
+      const error = splitSteps(block.text, steps);
+      if (error) {
+        return { success: false, error };
+      }
+      continue;
+    }
+
+    const step = steps[steps.length - 1];
+    if (!step) {
+      return { success: false, error: "A data table or doc string must follow a step" };
+    }
+    if (step.dataTable || step.docString) {
+      return {
+        success: false,
+        error: `Step '${step.keyword} ${step.text}' has more than one data table or doc string`,
+      };
+    }
+    if (block.type === "table") {
+      step.dataTable = block.rows;
+    } else {
+      step.docString = block.docString;
+    }
+  }
+
+  if (steps.length === 0) {
+    return {
+      success: false,
+      error: "No Gherkin keywords found. Must include Given, When, and Then.",
+    };
+  }
+
   return { success: true, steps };
 }
 
@@ -125,7 +313,22 @@ export function parseGherkin(input: string): GherkinParseResult {
  * Format parsed steps to canonical one-keyword-per-line style
  */
 export function formatGherkin(steps: GherkinStep[]): string {
-  return steps.map((step) => `${step.keyword} ${step.text}`).join("\n");
+  const lines: string[] = [];
+  for (const step of steps) {
+    lines.push(`${step.keyword} ${step.text}`);
+    if (step.dataTable) {
+      lines.push(...formatTable(step.dataTable, "  "));
+    }
+    if (step.docString) {
+      const delimiter = step.docString.delimiter ?? '"""';
+      lines.push(`  ${delimiter}${step.docString.mediaType ?? ""}`);
+      for (const line of step.docString.content.split("\n")) {
+        lines.push(line ? `  ${line.replaceAll(delimiter, escapeDelimiter(delimiter))}` : "");
+      }
+      lines.push(`  ${delimiter}`);
+    }
+  }
+  return lines.join("\n");
 }
 
 /**
@@ -256,10 +459,23 @@ export function isValidGherkinFormat(gherkin: string): GherkinValidationResult {
   const formattingErrors: string[] = [];
   const lines = gherkin.trim().split("\n");
 
+  let docStringDelimiter: string | null = null;
+
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
     if (!line) continue;
 
+    // Data tables and doc strings belong to the step above
+    if (docStringDelimiter) {
+      if (line === docStringDelimiter) docStringDelimiter = null;
+      continue;
+    }
+    if (isDocStringDelimiter(line)) {
+      docStringDelimiter = line.slice(0, 3);
+      continue;
+    }
+    if (line.startsWith("|")) continue;
+
     // Each line should start with exactly one keyword
     const lineKeywords = line.match(KEYWORD_REGEX);
     if (!lineKeywords) {
@@ -278,3 +494,197 @@ export function isValidGherkinFormat(gherkin: string): GherkinValidationResult {
     errors: allErrors,
   };
 }
+
+// === Feature files ===
+
+export interface FeatureScenario {
+  name: string;
+  tags: string[]; // Without "@"
+  steps: GherkinStep[];
+  examples: ScenarioExamples[]; // Non-empty for a Scenario Outline with Examples
+  line: number; // 1-based line of the "Scenario:" keyword
+}
+
+export interface FeatureRule {
+  name: string;
+  tags: string[];
+  background: GherkinStep[];
+  scenarios: FeatureScenario[];
+}
+
+export interface Feature {
+  name: string;
+  tags: string[];
+  description: string;
+  background: GherkinStep[];
+  scenarios: FeatureScenario[]; // Scenarios outside any Rule
+  rules: FeatureRule[];
+}
+
+export type FeatureParseResult =
+  | { success: true; feature: Feature }
+  | { success: false; error: string };
+
+const FEATURE_KEYWORD_REGEX =
+  /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+
+/**
+ * Parse a Cucumber .feature file (English keywords only)
+ *
+ * Steps are parsed with parseGherkin, so "*" steps become "And" steps.
+ * Backgrounds are returned separately - see applyBackground.
+ */
+export function parseFeature(content: string): FeatureParseResult {
+  const lines = content.split(/\r?\n/);
+  let feature: Feature | null = null;
+  let rule: FeatureRule | null = null;
+  let tags: string[] = [];
+
+  // Step lines of the Background or Scenario being read
+  let block: {
+    lines: string[];
+    line: number;
+    apply: (steps: GherkinStep[]) => void;
+  } | null = null;
+  let scenario: FeatureScenario | null = null;
+  let examples: ScenarioExamples | null = null;
+  let docStringDelimiter: string | null = null;
+
+  const fail = (line: number, error: string): FeatureParseResult => ({
+    success: false,
+    error: `Line ${line}: ${error}`,
+  });
+
+  const flushBlock = (): string | null => {
+    if (!block) return null;
+    const text = block.lines.join("\n");
+    if (text.trim()) {
+      const result = parseGherkin(text);
+      if (!result.success) {
+        return `Line ${block.line}: ${result.error}`;
+      }
+      block.apply(result.steps);
+    }
+    block = null;
+    return null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (docStringDelimiter) {
+      block?.lines.push(line);
+      if (trimmed === docStringDelimiter) docStringDelimiter = null;
+      continue;
+    }
+
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    if (trimmed.startsWith("@")) {
+      const tagText = trimmed.replace(/\s+#.*$/, "");
+      tags.push(...tagText.split(/\s+/).filter((tag) => tag.startsWith("@")).map((tag) => tag.slice(1)));
+      continue;
+    }
+
+    const header = FEATURE_KEYWORD_REGEX.exec(trimmed);
+    if (header) {
+      const [, keyword, title] = header;
+      const name = title.trim();
+
+      const error = flushBlock();
+      if (error) return { success: false, error };
+
+      if (keyword === "Feature") {
+        if (feature) return fail(lineNumber, "Only one Feature per file is allowed");
+        feature = { name, tags, description: "", background: [], scenarios: [], rules: [] };
+        rule = null;
+        scenario = null;
+        examples = null;
+      } else if (!feature) {
+        return fail(lineNumber, `'${keyword}:' must come after 'Feature:'`);
+      } else if (keyword === "Rule") {
+        rule = { name, tags, background: [], scenarios: [] };
+        feature.rules.push(rule);
+        scenario = null;
+        examples = null;
+      } else if (keyword === "Background") {
+        const target: { background: GherkinStep[] } = rule ?? feature;
+        block = { lines: [], line: lineNumber, apply: (steps) => (target.background = steps) };
+        scenario = null;
+        examples = null;
+      } else if (keyword === "Examples" || keyword === "Scenarios") {
+        if (!scenario) return fail(lineNumber, `'${keyword}:' must follow a Scenario Outline`);
+        examples = { header: [], rows: [] };
+        if (name) examples.name = name;
+        scenario.examples.push(examples);
+      } else {
+        const current: FeatureScenario = { name, tags, steps: [], examples: [], line: lineNumber };
+        (rule ?? feature).scenarios.push(current);
+        block = { lines: [], line: lineNumber, apply: (steps) => (current.steps = steps) };
+        scenario = current;
+        examples = null;
+      }
+      tags = [];
+      continue;
+    }
+
+    if (!feature) {
+      return fail(lineNumber, "Expected 'Feature:'");
+    }
+
+    if (examples) {
+      if (!trimmed.startsWith("|")) continue; // Examples description
+      const row = parseTableRow(trimmed);
+      if (examples.header.length === 0) {
+        examples.header = row;
+      } else if (row.length !== examples.header.length) {
+        return fail(lineNumber, "Examples row has a different number of cells than its header");
+      } else {
+        examples.rows.push(row);
+      }
+      continue;
+    }
+
+    if (block) {
+      // "*" is a bullet-style step keyword
+      block.lines.push(line.replace(/^(\s*)\*(\s)/, "$1And$2"));
+      if (isDocStringDelimiter(trimmed)) docStringDelimiter = trimmed.slice(0, 3);
+      continue;
+    }
+
+    // Free text after Feature: (descriptions of rules are ignored)
+    if (!rule && feature.scenarios.length === 0) {
+      feature.description = feature.description ? `${feature.description}\n${trimmed}` : trimmed;
+    }
+  }
+
+  if (docStringDelimiter) {
+    return { success: false, error: `Unterminated doc string (missing closing ${docStringDelimiter})` };
+  }
+  const error = flushBlock();
+  if (error) return { success: false, error };
+
+  if (!feature) {
+    return { success: false, error: "No 'Feature:' found" };
+  }
+
+  return { success: true, feature };
+}
+
+/**
+ * Prepend Background steps to a scenario's steps. The scenario's own leading
+ * Given becomes an And, so the result stays a single Given/When/Then block.
+ */
+export function applyBackground(background: GherkinStep[], steps: GherkinStep[]): GherkinStep[] {
+  if (background.length === 0) {
+    return steps;
+  }
+  return [
+    ...background,
+    ...steps.map((step, i) => (i === 0 && step.keyword === "Given" ? { ...step, keyword: "And" as const } : step)),
+  ];
+}
@@ -0,0 +1,186 @@
+/**
+ * Test run history - an append-only log of every recorded test run, used to
+ * spot flaky tests (tests whose outcome keeps flipping between runs)
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { appendFile, readFile } from "fs/promises";
+import { join } from "path";
+import { matchResultToTestLink } from "./result-store";
+import {
+  REQUIREMENTS_DIR,
+  TEST_HISTORY_FILE,
+  type TestFlakiness,
+  type TestLink,
+  type TestResult,
+  type TestResultStatus,
+  type TestRunHistoryEntry,
+} from "./types";
+
+const execFileAsync = promisify(execFile);
+
+// Runs of a test that are considered for flakiness (and shown in sparklines)
+export const DEFAULT_HISTORY_WINDOW = 10;
+
+// A test is flaky when its outcome flipped at least FLAKY_MIN_FLIPS times and
+// in at least FLAKY_FLIP_RATE of its consecutive runs. A single regression
+// (pass -> fail) or fix (fail -> pass) is one flip and never flaky on its own.
+export const FLAKY_MIN_FLIPS = 2;
+export const FLAKY_FLIP_RATE = 0.3;
+
+/**
+ * Get path to the test history file
+ */
+export function getTestHistoryPath(cwd: string): string {
+  return join(cwd, REQUIREMENTS_DIR, TEST_HISTORY_FILE);
+}
+
+/**
+ * Get the commit SHA checked out in cwd
+ * @returns The SHA, or null outside a git repository (or without commits)
+ */
+export async function getCommitSha(cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", ["rev-parse", "HEAD"], { cwd });
+    return stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append a test run to the history
+ *
+ * @param source - Where the results came from ("req run" or an imported file)
+ */
+export async function recordTestRun(
+  cwd: string,
+  results: TestResult[],
+  source: string
+): Promise<TestRunHistoryEntry> {
+  const entry: TestRunHistoryEntry = {
+    recordedAt: new Date().toISOString(),
+    commit: await getCommitSha(cwd),
+    source,
+    summary: {
+      total: results.length,
+      passed: results.filter((r) => r.status === "passed").length,
+      failed: results.filter((r) => r.status === "failed" || r.status === "error").length,
+      skipped: results.filter((r) => r.status === "skipped").length,
+    },
+    // Error messages can be long and are already in test-results.xml
+    results: results.map(({ file, identifier, status, duration }) =>
+      duration === undefined ? { file, identifier, status } : { file, identifier, status, duration }
+    ),
+  };
+
+  await appendFile(getTestHistoryPath(cwd), JSON.stringify(entry) + "\n");
+  return entry;
+}
+
+/**
+ * Load all recorded runs, oldest first
+ * @returns Empty array if no history exists. Lines that aren't valid JSON
+ *   (e.g. a write cut short) are skipped.
+ */
+export async function loadTestHistory(cwd: string): Promise<TestRunHistoryEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(getTestHistoryPath(cwd), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: TestRunHistoryEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as TestRunHistoryEntry);
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+  return entries;
+}
+
+// A test's result in one recorded run
+export interface TestHistoryPoint {
+  recordedAt: string;
+  commit: string | null;
+  status: TestResultStatus;
+  duration?: number;
+}
+
+/**
+ * Get the results of a linked test over its last runs, oldest first.
+ * Runs that didn't include the test (e.g. a run of another file) are skipped.
+ *
+ * @param window - Number of runs to return (all runs if omitted)
+ */
+export function getTestHistory(
+  link: Pick<TestLink, "file" | "identifier">,
+  history: TestRunHistoryEntry[],
+  window?: number
+): TestHistoryPoint[] {
+  const points: TestHistoryPoint[] = [];
+  for (const entry of history) {
+    const result = matchResultToTestLink({ ...link, hash: "" }, entry.results);
+    if (result) {
+      points.push({
+        recordedAt: entry.recordedAt,
+        commit: entry.commit,
+        status: result.status,
+        duration: result.duration,
+      });
+    }
+  }
+  return window === undefined ? points : points.slice(-window);
+}
+
+/**
+ * Compute how often a test's outcome flipped between pass and fail.
+ * Skipped runs are ignored; errors count as failures.
+ */
+export function computeFlakiness(statuses: TestResultStatus[]): TestFlakiness {
+  const outcomes = statuses
+    .filter((status) => status !== "skipped")
+    .map((status) => status === "passed");
+
+  let flips = 0;
+  for (let i = 1; i < outcomes.length; i++) {
+    if (outcomes[i] !== outcomes[i - 1]) flips++;
+  }
+
+  const flipRate = outcomes.length > 1 ? flips / (outcomes.length - 1) : 0;
+  return {
+    runs: outcomes.length,
+    flips,
+    flipRate,
+    flaky: flips >= FLAKY_MIN_FLIPS && flipRate >= FLAKY_FLIP_RATE,
+  };
+}
+
+/**
+ * Find the linked tests that are flaky over their last runs
+ * @returns Keys ("file:identifier") of flaky links
+ */
+export function findFlakyTests(
+  links: Array<Pick<TestLink, "file" | "identifier">>,
+  history: TestRunHistoryEntry[],
+  window = DEFAULT_HISTORY_WINDOW
+): Set<string> {
+  const flaky = new Set<string>();
+  for (const link of links) {
+    const key = `${link.file}:${link.identifier}`;
+    if (flaky.has(key)) continue;
+    const statuses = getTestHistory(link, history, window).map((point) => point.status);
+    if (computeFlakiness(statuses).flaky) {
+      flaky.add(key);
+    }
+  }
+  return flaky;
+}
@@ -0,0 +1,268 @@
+/**
+ * Change impact - which requirements a git diff touches
+ *
+ * Changed test files are re-extracted at the base ref and compared by test
+ * hash, so a test counts as changed only if its body changed (not its file's
+ * formatting or other tests). Changed requirement files count as well.
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { join } from "path";
+import { parse as parseYaml } from "yaml";
+import { extractTestsFromContent } from "./test-parsers";
+import { getAllTestLinks, isValidRequirementPath } from "./store";
+import { REQUIREMENTS_DIR } from "./types";
+import type { ExtractedTest, ParsedRequirement, Requirement, TestLink } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+export type FileChange = "added" | "modified" | "deleted";
+
+export interface ChangedFile {
+  path: string; // Relative to cwd
+  change: FileChange;
+}
+
+export interface TestChange {
+  file: string;
+  identifier: string;
+  change: "added" | "modified" | "removed";
+}
+
+export interface RequirementImpact {
+  path: string; // Requirement path, e.g. "auth/REQ_login.yml"
+  status?: string; // Current status (unset for deleted requirements)
+  reasons: string[]; // Why it is affected, e.g. "test modified: a.test.ts:logs in"
+  willGoStale: boolean; // Has an assessment that a changed test invalidates
+}
+
+export interface ImpactReport {
+  base: string;
+  changedTestFiles: string[];
+  changedRequirementFiles: string[];
+  testChanges: TestChange[];
+  requirements: RequirementImpact[];
+  runTargets: string[]; // Minimal `req run` targets covering the affected tests
+}
+
+function testKey(test: { file: string; identifier: string }): string {
+  return `${test.file}:${test.identifier}`;
+}
+
+/**
+ * Files changed in the working tree (including untracked files) since a ref
+ * @throws Error outside a git repository or for an unknown ref
+ */
+export async function getChangedFiles(cwd: string, base: string): Promise<ChangedFile[]> {
+  const git = async (args: string[]) => {
+    try {
+      const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+      return stdout;
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`);
+    }
+  };
+
+  const diff = await git(["diff", "--name-status", "--no-renames", "--relative", base, "--"]);
+  const untracked = await git(["ls-files", "--others", "--exclude-standard"]);
+
+  const files = new Map<string, ChangedFile>();
+  for (const line of diff.split("\n").filter(Boolean)) {
+    const [status, path] = line.split("\t");
+    const change: FileChange = status === "A" ? "added" : status === "D" ? "deleted" : "modified";
+    files.set(path, { path, change });
+  }
+  for (const path of untracked.split("\n").filter(Boolean)) {
+    files.set(path, { path, change: "added" });
+  }
+  return Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Content of a file (relative to cwd) at a git ref
+ * @returns null if the file does not exist at the ref
+ */
+export async function getFileAtRef(cwd: string, ref: string, path: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", ["show", `${ref}:./${path}`], {
+      cwd,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the tests of a file as it was at a git ref
+ */
+export async function extractTestsAtRef(
+  cwd: string,
+  ref: string,
+  path: string
+): Promise<ExtractedTest[]> {
+  const content = await getFileAtRef(cwd, ref, path);
+  if (content === null) {
+    return [];
+  }
+  try {
+    return extractTestsFromContent(content, join(cwd, path), path);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Compare the tests of changed files before and after by hash
+ */
+export function diffTests(before: ExtractedTest[], after: ExtractedTest[]): TestChange[] {
+  const beforeHashes = new Map(before.map((test) => [testKey(test), test.hash]));
+  const afterHashes = new Map(after.map((test) => [testKey(test), test.hash]));
+  const changes: TestChange[] = [];
+
+  for (const test of after) {
+    const previous = beforeHashes.get(testKey(test));
+    if (previous === undefined) {
+      changes.push({ file: test.file, identifier: test.identifier, change: "added" });
+    } else if (previous !== test.hash) {
+      changes.push({ file: test.file, identifier: test.identifier, change: "modified" });
+    }
+  }
+  for (const test of before) {
+    if (!afterHashes.has(testKey(test))) {
+      changes.push({ file: test.file, identifier: test.identifier, change: "removed" });
+    }
+  }
+
+  return changes.sort((a, b) => testKey(a).localeCompare(testKey(b)));
+}
+
+/**
+ * Requirement path of a changed file, if it is a requirement file
+ */
+export function requirementPathOf(file: string): string | null {
+  const prefix = `${REQUIREMENTS_DIR}/`;
+  if (!file.startsWith(prefix)) {
+    return null;
+  }
+  const reqPath = file.slice(prefix.length);
+  return isValidRequirementPath(reqPath) ? reqPath : null;
+}
+
+/**
+ * Did the behaviour a requirement describes change (gherkin, examples or scenarios)?
+ */
+export function gherkinChanged(before: Requirement, after: Requirement): boolean {
+  const behaviour = (data: Requirement) =>
+    JSON.stringify({
+      gherkin: data.gherkin,
+      examples: data.examples,
+      scenarios: (data.scenarios ?? []).map((s) => [s.name, s.gherkin, s.examples]),
+    });
+  return behaviour(before) !== behaviour(after);
+}
+
+/**
+ * Parse a requirement file as it was at the base ref
+ * @returns null if it didn't exist or doesn't parse
+ */
+export async function loadRequirementAtRef(
+  cwd: string,
+  ref: string,
+  reqPath: string
+): Promise<Requirement | null> {
+  const content = await getFileAtRef(cwd, ref, `${REQUIREMENTS_DIR}/${reqPath}`);
+  if (content === null) {
+    return null;
+  }
+  try {
+    return parseYaml(content) as Requirement;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map test changes and requirement file changes to affected requirements
+ * and the tests to run.
+ *
+ * @param currentTests - All tests in the working tree, used to collapse run
+ *   targets to whole files when every test of a file is affected
+ * @param requirementChanges - Changed requirement files with a description
+ *   of the change, e.g. "gherkin changed"
+ */
+export function analyzeImpact(
+  requirements: ParsedRequirement[],
+  currentTests: ExtractedTest[],
+  testChanges: TestChange[],
+  requirementChanges: Map<string, string>
+): Pick<ImpactReport, "requirements" | "runTargets"> {
+  const changesByKey = new Map(testChanges.map((change) => [testKey(change), change]));
+  const currentHashes = new Map(currentTests.map((test) => [testKey(test), test.hash]));
+  const toRun = new Map<string, TestLink>();
+  const impacts = new Map<string, RequirementImpact>();
+
+  for (const req of requirements) {
+    const reasons: string[] = [];
+    let willGoStale = false;
+    const links = getAllTestLinks(req.data);
+
+    for (const link of links) {
+      const change = changesByKey.get(testKey(link));
+      if (!change) continue;
+      reasons.push(`test ${change.change}: ${testKey(link)}`);
+      if (change.change === "removed") continue;
+      toRun.set(testKey(link), link);
+      // Its assessment was made against the old body
+      if (req.data.aiAssessment && currentHashes.get(testKey(link)) !== link.hash) {
+        willGoStale = true;
+      }
+    }
+
+    const requirementChange = requirementChanges.get(req.path);
+    if (requirementChange) {
+      reasons.unshift(requirementChange);
+      for (const link of links) {
+        if (currentHashes.has(testKey(link))) toRun.set(testKey(link), link);
+      }
+    }
+
+    if (reasons.length > 0) {
+      impacts.set(req.path, { path: req.path, status: req.data.status, reasons, willGoStale });
+    }
+  }
+
+  // Deleted requirement files
+  for (const [reqPath, change] of requirementChanges) {
+    if (!impacts.has(reqPath) && !requirements.some((req) => req.path === reqPath)) {
+      impacts.set(reqPath, { path: reqPath, reasons: [change], willGoStale: false });
+    }
+  }
+
+  // One target per file when all of its tests run, else one per test
+  const testsPerFile = new Map<string, number>();
+  for (const test of currentTests) {
+    testsPerFile.set(test.file, (testsPerFile.get(test.file) ?? 0) + 1);
+  }
+  const runPerFile = new Map<string, TestLink[]>();
+  for (const link of toRun.values()) {
+    if (!runPerFile.has(link.file)) runPerFile.set(link.file, []);
+    runPerFile.get(link.file)!.push(link);
+  }
+  const runTargets: string[] = [];
+  for (const [file, links] of Array.from(runPerFile.entries()).sort()) {
+    if (links.length === testsPerFile.get(file)) {
+      runTargets.push(file);
+    } else {
+      runTargets.push(...links.map(testKey).sort());
+    }
+  }
+
+  return {
+    requirements: Array.from(impacts.values()).sort((a, b) => a.path.localeCompare(b.path)),
+    runTargets,
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * CI gate - the rules of the config.yml "policy" section checked against a
+ * `req check` result, and the JUnit / SARIF reports CI systems read
+ */
+
+import { REQUIREMENTS_DIR } from "./types";
+import type { CheckResult, Config, PolicyConfig, Priority, RequirementCheckResult } from "./types";
+
+export type PolicyRuleId =
+  | "require-tests"
+  | "no-stale"
+  | "max-orphaned-tests"
+  | "no-failing-tests"
+  | "no-dependency-issues";
+
+// One thing that breaks a rule: a requirement or an orphaned test
+export interface PolicyViolation {
+  message: string;
+  requirement?: string; // Requirement path, e.g. "auth/REQ_login.yml"
+  file?: string; // Test file, for orphaned tests
+  line?: number;
+}
+
+export interface PolicyRuleResult {
+  id: PolicyRuleId;
+  description: string;
+  violations: PolicyViolation[];
+}
+
+export type PolicyReportFormat = "junit" | "sarif";
+
+export const POLICY_REPORT_FORMATS: PolicyReportFormat[] = ["junit", "sarif"];
+
+// Policy of projects without a "policy" section
+export const DEFAULT_POLICY: PolicyConfig = {
+  requireTests: ["critical", "high"],
+  noStale: true,
+  maxOrphanedTests: 0,
+  noFailingTests: true,
+  noDependencyIssues: true,
+};
+
+const VALID_PRIORITIES: Priority[] = ["critical", "high", "medium", "low"];
+
+/**
+ * Check a policy definition
+ * @returns Error messages, empty if the policy is valid
+ */
+export function validatePolicy(policy: PolicyConfig): string[] {
+  const errors: string[] = [];
+  if (typeof policy !== "object" || policy === null || Array.isArray(policy)) {
+    return ["must be a mapping of rules"];
+  }
+
+  if (policy.requireTests !== undefined) {
+    if (!Array.isArray(policy.requireTests)) {
+      errors.push(`"requireTests" must be a list of priorities (${VALID_PRIORITIES.join(", ")})`);
+    } else {
+      for (const priority of policy.requireTests) {
+        if (!VALID_PRIORITIES.includes(priority)) {
+          errors.push(`"requireTests": unknown priority "${priority}"`);
+        }
+      }
+    }
+  }
+  for (const key of ["noStale", "noFailingTests", "noDependencyIssues"] as const) {
+    if (policy[key] !== undefined && typeof policy[key] !== "boolean") {
+      errors.push(`"${key}" must be true or false`);
+    }
+  }
+  if (
+    policy.maxOrphanedTests !== undefined &&
+    (!Number.isInteger(policy.maxOrphanedTests) || policy.maxOrphanedTests < 0)
+  ) {
+    errors.push('"maxOrphanedTests" must be a non-negative integer');
+  }
+
+  return errors;
+}
+
+/**
+ * Get the project's policy, or the default one
+ * @throws Error if the configured policy is invalid
+ */
+export function getPolicy(config: Config | null): PolicyConfig {
+  const policy = config?.policy;
+  if (!policy) {
+    return DEFAULT_POLICY;
+  }
+  const errors = validatePolicy(policy);
+  if (errors.length > 0) {
+    throw new Error(`Invalid policy in config.yml:\n  ${errors.join("\n  ")}`);
+  }
+  return policy;
+}
+
+function requirementViolations(
+  result: CheckResult,
+  predicate: (req: RequirementCheckResult) => boolean,
+  message: (req: RequirementCheckResult) => string
+): PolicyViolation[] {
+  return result.requirements.flatMap((group) =>
+    group.requirements
+      .filter(predicate)
+      .map((req) => ({ requirement: req.id, message: `${req.id}: ${message(req)}` }))
+  );
+}
+
+/**
+ * Check the enforced rules of a policy against a check result.
+ * Deprecated requirements never violate a rule.
+ * @returns One result per enforced rule, passing rules with no violations
+ */
+export function evaluatePolicy(result: CheckResult, policy: PolicyConfig): PolicyRuleResult[] {
+  const rules: PolicyRuleResult[] = [];
+
+  if (policy.requireTests?.length) {
+    const priorities = policy.requireTests;
+    rules.push({
+      id: "require-tests",
+      description: `Implemented ${priorities.join("/")} requirements have linked tests`,
+      violations: requirementViolations(
+        result,
+        (req) => !!req.implemented && req.testCount === 0 && !!req.priority && priorities.includes(req.priority),
+        (req) => `${req.priority} requirement is ${req.status} without linked tests`
+      ),
+    });
+  }
+
+  if (policy.noStale) {
+    rules.push({
+      id: "no-stale",
+      description: "No implemented requirement has stale verification",
+      violations: requirementViolations(
+        result,
+        (req) => !!req.implemented && req.verification === "stale",
+        () => "tests changed since the last assessment (run 'req assess')"
+      ),
+    });
+  }
+
+  if (policy.maxOrphanedTests !== undefined) {
+    const max = policy.maxOrphanedTests;
+    rules.push({
+      id: "max-orphaned-tests",
+      description: `At most ${max} orphaned test(s)`,
+      violations:
+        result.orphanedTests.length > max
+          ? result.orphanedTests.map((test) => ({
+              file: test.file,
+              line: test.range?.startLine,
+              message: `${test.file}: "${test.identifier}" is not linked to any requirement`,
+            }))
+          : [],
+    });
+  }
+
+  if (policy.noFailingTests) {
+    rules.push({
+      id: "no-failing-tests",
+      description: "No linked test failed in the last run",
+      violations: requirementViolations(
+        result,
+        (req) => !req.deprecated && (req.lastResult === "failed" || req.lastResult === "error"),
+        (req) => `linked tests ${req.lastResult === "error" ? "errored" : "failed"} in the last run`
+      ),
+    });
+  }
+
+  if (policy.noDependencyIssues) {
+    rules.push({
+      id: "no-dependency-issues",
+      description: "No unmet, missing or circular dependencies",
+      violations: [
+        ...result.dependencyIssues.map((issue) => ({
+          requirement: issue.requirement,
+          message: `${issue.requirement}: blocked by ${issue.blockedBy.join(", ")}`,
+        })),
+        ...result.dependencyCycles.map((cycle) => ({
+          requirement: cycle[0],
+          message: `${cycle[0]}: dependency cycle ${[...cycle, cycle[0]].join(" -> ")}`,
+        })),
+        ...result.missingDependencies.map((missing) => ({
+          requirement: missing.requirement,
+          message: `${missing.requirement}: depends on ${missing.dependency}, which does not exist`,
+        })),
+      ],
+    });
+  }
+
+  return rules;
+}
+
+// === Reports ===
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * JUnit XML: one test case per rule, failing with its violations
+ */
+export function formatJUnitReport(rules: PolicyRuleResult[]): string {
+  const failures = rules.filter((rule) => rule.violations.length > 0).length;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="req check" tests="${rules.length}" failures="${failures}">`,
+    `  <testsuite name="requirements policy" tests="${rules.length}" failures="${failures}">`,
+  ];
+  for (const rule of rules) {
+    const name = `${rule.id}: ${escapeXml(rule.description)}`;
+    if (rule.violations.length === 0) {
+      lines.push(`    <testcase classname="requirements.policy" name="${name}"/>`);
+      continue;
+    }
+    const message = `${rule.violations.length} violation(s)`;
+    const details = rule.violations.map((violation) => escapeXml(violation.message)).join("\n");
+    lines.push(
+      `    <testcase classname="requirements.policy" name="${name}">`,
+      `      <failure message="${message}">${details}</failure>`,
+      "    </testcase>"
+    );
+  }
+  lines.push("  </testsuite>", "</testsuites>");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * SARIF 2.1.0: one result per violation, located at the requirement file or
+ * the orphaned test
+ */
+export function formatSarifReport(rules: PolicyRuleResult[]): string {
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "req",
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+            })),
+          },
+        },
+        results: rules.flatMap((rule) =>
+          rule.violations.map((violation) => {
+            const uri = violation.requirement
+              ? `${REQUIREMENTS_DIR}/${violation.requirement}`
+              : violation.file;
+            return {
+              ruleId: rule.id,
+              level: "error",
+              message: { text: violation.message },
+              locations: uri
+                ? [
+                    {
+                      physicalLocation: {
+                        artifactLocation: { uri },
+                        ...(violation.line ? { region: { startLine: violation.line } } : {}),
+                      },
+                    },
+                  ]
+                : [],
+            };
+          })
+        ),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2) + "\n";
+}
+
+/**
+ * Format policy results in the given report format
+ */
+export function formatPolicyReport(rules: PolicyRuleResult[], format: PolicyReportFormat): string {
+  switch (format) {
+    case "junit":
+      return formatJUnitReport(rules);
+    case "sarif":
+      return formatSarifReport(rules);
+  }
+}
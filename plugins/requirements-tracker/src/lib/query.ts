@@ -0,0 +1,277 @@
+/**
+ * Query language for requirements, shared by `req query` and the UI search bar
+ *
+ * A query is a list of terms that must all match:
+ *   priority:critical status:planned verification:stale source.type:slack
+ *   has:unansweredQuestions nfr.category:security text:"password" login
+ *
+ * - `key:value` matches a field; `key:a,b` matches either value
+ * - `-key:value` negates a term
+ * - A bare word or "quoted phrase" is a text search
+ *
+ * Only type imports here - the UI bundles this file for the browser.
+ */
+
+import type { NFRCategory, Priority, SourceType, VerificationStatus } from "./types";
+
+export const QUERY_FIELDS = [
+  "path",
+  "status",
+  "priority",
+  "verification",
+  "source.type",
+  "nfr.category",
+  "has",
+  "scenario",
+  "test",
+  "depends",
+  "text",
+] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+// Values of `has:` - what a requirement has (negate with `-has:`)
+export const QUERY_HAS_VALUES = [
+  "tests",
+  "scenarios",
+  "suggestedScenarios",
+  "questions",
+  "unansweredQuestions",
+  "nfrs",
+  "unverifiedNfrs",
+  "dependencies",
+  "assessment",
+  "implementation",
+] as const;
+
+const PRIORITY_VALUES: Array<Priority | "none"> = ["critical", "high", "medium", "low", "none"];
+const VERIFICATION_VALUES: VerificationStatus[] = ["verified", "unverified", "stale", "n/a"];
+const SOURCE_TYPE_VALUES: SourceType[] = ["doc", "slack", "email", "meeting", "ticket", "manual"];
+const NFR_CATEGORY_VALUES: NFRCategory[] = [
+  "performance",
+  "security",
+  "accessibility",
+  "reliability",
+  "scalability",
+  "other",
+];
+
+// Fields whose values are checked when the query is parsed
+const ENUM_VALUES: Partial<Record<QueryField, readonly string[]>> = {
+  priority: PRIORITY_VALUES,
+  verification: VERIFICATION_VALUES,
+  "source.type": SOURCE_TYPE_VALUES,
+  "nfr.category": NFR_CATEGORY_VALUES,
+  has: QUERY_HAS_VALUES,
+};
+
+export interface QueryTerm {
+  field: QueryField;
+  values: string[]; // Any of them matches
+  negate: boolean;
+}
+
+export interface RequirementQuery {
+  terms: QueryTerm[]; // All of them must match; none matches everything
+}
+
+export type ParseQueryResult =
+  | { success: true; query: RequirementQuery }
+  | { success: false; error: string };
+
+// Test link as seen by a query (the UI adds its own fields)
+interface QueryableTest {
+  file: string;
+  identifier: string;
+}
+
+/**
+ * What a query looks at - a requirement plus its path and, when known, its
+ * verification status. Requirement and the UI's RequirementWithData both fit.
+ */
+export interface QueryableRequirement {
+  path: string;
+  gherkin: string;
+  mainSource?: { type: string; description: string };
+  source?: { type: string; description: string }; // Deprecated, used when mainSource is missing
+  status: string;
+  priority?: string;
+  verification?: VerificationStatus;
+  tests?: QueryableTest[];
+  scenarios?: Array<{ name: string; gherkin: string; suggested?: boolean; tests?: QueryableTest[] }>;
+  nfrs?: Array<{ category: string; description: string; verified?: boolean }>;
+  questions?: Array<{ question: string; answer?: string }>;
+  dependencies?: Array<{ path: string }>;
+  aiAssessment?: unknown;
+  implementation?: string[];
+}
+
+/**
+ * Parse a query expression
+ */
+export function parseQuery(expr: string): ParseQueryResult {
+  const terms: QueryTerm[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    if (/\s/.test(expr[i])) {
+      i++;
+      continue;
+    }
+
+    const negate = expr[i] === "-";
+    if (negate) i++;
+
+    let key: string | undefined;
+    let value = "";
+    let quoted = false;
+    while (i < expr.length && !/\s/.test(expr[i])) {
+      const ch = expr[i];
+      if (ch === '"') {
+        const end = expr.indexOf('"', i + 1);
+        if (end === -1) {
+          return { success: false, error: "Unterminated quote" };
+        }
+        value += expr.slice(i + 1, end);
+        quoted = true;
+        i = end + 1;
+      } else if (ch === ":" && key === undefined && !quoted) {
+        key = value;
+        value = "";
+        i++;
+      } else {
+        value += ch;
+        i++;
+      }
+    }
+
+    const field = (key ?? "text") as QueryField;
+    if (!QUERY_FIELDS.includes(field)) {
+      return {
+        success: false,
+        error: `Unknown field "${key}". Use one of: ${QUERY_FIELDS.join(", ")}`,
+      };
+    }
+
+    // Commas separate alternatives, except inside quotes
+    const values = (quoted ? [value] : value.split(",")).filter((v) => v.length > 0);
+    if (values.length === 0) {
+      return {
+        success: false,
+        error: key === undefined ? "Empty search term" : `Missing value for "${key}:"`,
+      };
+    }
+
+    const allowed = ENUM_VALUES[field];
+    if (allowed) {
+      for (const v of values) {
+        if (!allowed.some((a) => a.toLowerCase() === v.toLowerCase())) {
+          return {
+            success: false,
+            error: `Invalid ${field} "${v}". Use one of: ${allowed.join(", ")}`,
+          };
+        }
+      }
+    }
+
+    terms.push({ field, values, negate });
+  }
+
+  return { success: true, query: { terms } };
+}
+
+const includes = (haystack: string, needle: string) =>
+  haystack.toLowerCase().includes(needle.toLowerCase());
+
+const equals = (a: string | undefined, b: string) => a !== undefined && a.toLowerCase() === b.toLowerCase();
+
+function allTests(req: QueryableRequirement): QueryableTest[] {
+  return [...(req.tests ?? []), ...(req.scenarios ?? []).flatMap((scenario) => scenario.tests ?? [])];
+}
+
+// Path match: `*` is a wildcard over the whole path, otherwise a substring
+function matchesPath(path: string, pattern: string): boolean {
+  if (!pattern.includes("*")) return includes(path, pattern);
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(path);
+}
+
+function has(req: QueryableRequirement, what: string): boolean {
+  switch (what.toLowerCase()) {
+    case "tests":
+      return allTests(req).length > 0;
+    case "scenarios":
+      return (req.scenarios ?? []).length > 0;
+    case "suggestedscenarios":
+      return (req.scenarios ?? []).some((scenario) => scenario.suggested);
+    case "questions":
+      return (req.questions ?? []).length > 0;
+    case "unansweredquestions":
+      return (req.questions ?? []).some((q) => !q.answer);
+    case "nfrs":
+      return (req.nfrs ?? []).length > 0;
+    case "unverifiednfrs":
+      return (req.nfrs ?? []).some((nfr) => !nfr.verified);
+    case "dependencies":
+      return (req.dependencies ?? []).length > 0;
+    case "assessment":
+      return !!req.aiAssessment;
+    case "implementation":
+      return (req.implementation ?? []).length > 0;
+    default:
+      return false;
+  }
+}
+
+// Everything a text search looks at
+function searchableText(req: QueryableRequirement): string {
+  const source = req.mainSource ?? req.source;
+  return [
+    req.path,
+    req.gherkin,
+    source?.description ?? "",
+    ...(req.scenarios ?? []).flatMap((scenario) => [scenario.name, scenario.gherkin]),
+    ...(req.nfrs ?? []).map((nfr) => nfr.description),
+    ...(req.questions ?? []).flatMap((q) => [q.question, q.answer ?? ""]),
+  ].join("\n");
+}
+
+function matchesValue(req: QueryableRequirement, field: QueryField, value: string): boolean {
+  switch (field) {
+    case "path":
+      return matchesPath(req.path, value);
+    case "status":
+      return equals(req.status, value);
+    case "priority":
+      return value.toLowerCase() === "none" ? !req.priority : equals(req.priority, value);
+    case "verification":
+      return equals(req.verification, value);
+    case "source.type":
+      return equals((req.mainSource ?? req.source)?.type, value);
+    case "nfr.category":
+      return (req.nfrs ?? []).some((nfr) => equals(nfr.category, value));
+    case "has":
+      return has(req, value);
+    case "scenario":
+      return (req.scenarios ?? []).some((scenario) => includes(scenario.name, value));
+    case "test":
+      return allTests(req).some((test) => includes(`${test.file}:${test.identifier}`, value));
+    case "depends":
+      return (req.dependencies ?? []).some((dep) => matchesPath(dep.path, value));
+    case "text":
+      return includes(searchableText(req), value);
+  }
+}
+
+/**
+ * Check whether a requirement matches a parsed query
+ */
+export function matchesQuery(query: RequirementQuery, req: QueryableRequirement): boolean {
+  return query.terms.every((term) => {
+    const matched = term.values.some((value) => matchesValue(req, term.field, value));
+    return term.negate ? !matched : matched;
+  });
+}
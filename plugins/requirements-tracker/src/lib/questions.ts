@@ -0,0 +1,191 @@
+/**
+ * Clarification questions: asking with an owner and a due date, answering
+ * (optionally turning the answer into a scenario), and listing them
+ *
+ * Shared by `req ask`, `req answer`, `req questions`, `req check` and the UI.
+ * No Node imports here - the UI bundles this file for the browser.
+ */
+
+import { formatGherkin, parseGherkin, validateGherkinStructure } from "./gherkin";
+import type { ParsedRequirement, Question, Requirement, Scenario } from "./types";
+
+export interface QuestionEntry {
+  path: string; // Requirement path
+  number: number; // 1-based, as `req answer` takes it
+  question: Question;
+  overdue: boolean;
+}
+
+export interface QuestionFilter {
+  answered?: boolean; // undefined: both
+  overdue?: boolean; // Only unanswered questions past their due date
+  owners?: string[]; // Any of these owns the question
+}
+
+const DUE_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// The local calendar date of a timestamp, as YYYY-MM-DD
+function localDate(now: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Whether a due date is a real YYYY-MM-DD date
+ */
+export function isValidDueDate(value: string): boolean {
+  const match = DUE_DATE.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * An unanswered question is overdue from the day after its due date
+ */
+export function isQuestionOverdue(question: Question, now: Date = new Date()): boolean {
+  return !question.answer && !!question.due && question.due < localDate(now);
+}
+
+/**
+ * Unanswered questions of a requirement, and how many of them are overdue
+ */
+export function countQuestions(
+  questions: Question[] = [],
+  now: Date = new Date()
+): { unanswered: number; overdue: number } {
+  const unanswered = questions.filter((q) => !q.answer);
+  return { unanswered: unanswered.length, overdue: unanswered.filter((q) => isQuestionOverdue(q, now)).length };
+}
+
+// "@Jane.Doe", "jane.doe" and "Jane Doe" name the same person
+function normalizeOwner(owner: string): string {
+  return owner.replace(/^@/, "").replace(/[\s._-]/g, "").toLowerCase();
+}
+
+/**
+ * Whether one of the names owns the question
+ */
+export function isOwnedBy(question: Question, names: string[]): boolean {
+  if (!question.owner) return false;
+  const owner = normalizeOwner(question.owner);
+  return names.some((name) => normalizeOwner(name) === owner);
+}
+
+/**
+ * Owner, due date and overdue flag of a question, e.g. "@alice, due 2026-01-31, overdue"
+ */
+export function describeQuestion(question: Question, now: Date = new Date()): string {
+  const parts: string[] = [];
+  if (question.owner) parts.push(question.owner);
+  if (question.due) parts.push(`due ${question.due}`);
+  if (isQuestionOverdue(question, now)) parts.push("overdue");
+  return parts.join(", ");
+}
+
+/**
+ * Questions of the requirements that match the filter, by requirement path
+ */
+export function listQuestions(
+  requirements: ParsedRequirement[],
+  filter: QuestionFilter = {},
+  now: Date = new Date()
+): QuestionEntry[] {
+  const entries: QuestionEntry[] = [];
+  for (const req of [...requirements].sort((a, b) => a.path.localeCompare(b.path))) {
+    (req.data.questions ?? []).forEach((question, i) => {
+      const overdue = isQuestionOverdue(question, now);
+      if (filter.answered !== undefined && !!question.answer !== filter.answered) return;
+      if (filter.overdue && !overdue) return;
+      if (filter.owners && !isOwnedBy(question, filter.owners)) return;
+      entries.push({ path: req.path, number: i + 1, question, overdue });
+    });
+  }
+  return entries;
+}
+
+/**
+ * Add a question to a requirement
+ * @throws on an empty question or an invalid due date
+ */
+export function addQuestion(
+  data: Requirement,
+  ask: { question: string; owner?: string; due?: string },
+  now: Date = new Date()
+): Question {
+  const text = ask.question.trim();
+  if (!text) {
+    throw new Error("Question cannot be empty.");
+  }
+  if (ask.due !== undefined && !isValidDueDate(ask.due)) {
+    throw new Error(`Invalid due date "${ask.due}". Use YYYY-MM-DD.`);
+  }
+
+  const question: Question = { question: text };
+  if (ask.owner?.trim()) question.owner = ask.owner.trim();
+  if (ask.due) question.due = ask.due;
+  question.askedAt = now.toISOString();
+
+  data.questions = [...(data.questions ?? []), question];
+  return question;
+}
+
+/**
+ * Answer a requirement's question (replacing an earlier answer), optionally
+ * adding a scenario that captures the answer
+ * @param number 1-based question number
+ * @throws if the question doesn't exist, or the scenario is invalid or its name taken
+ */
+export function answerQuestion(
+  data: Requirement,
+  number: number,
+  answer: string,
+  scenario?: { name: string; gherkin: string },
+  now: Date = new Date()
+): Question {
+  const question = data.questions?.[number - 1];
+  if (!Number.isInteger(number) || !question) {
+    const count = data.questions?.length ?? 0;
+    throw new Error(
+      count > 0 ? `No question #${number}. The requirement has ${count} question(s).` : "The requirement has no questions."
+    );
+  }
+  const text = answer.trim();
+  if (!text) {
+    throw new Error("Answer cannot be empty.");
+  }
+
+  // Validate the scenario before changing anything
+  let newScenario: Scenario | undefined;
+  if (scenario) {
+    const name = scenario.name.trim();
+    if (!name) {
+      throw new Error("Scenario name cannot be empty.");
+    }
+    if (data.scenarios?.some((s) => s.name === name)) {
+      throw new Error(`Scenario with name "${name}" already exists.`);
+    }
+    const parsed = parseGherkin(scenario.gherkin);
+    if (!parsed.success) {
+      throw new Error(`Invalid gherkin: ${parsed.error}`);
+    }
+    const structure = validateGherkinStructure(parsed.steps);
+    if (!structure.valid) {
+      throw new Error(`Invalid gherkin structure: ${structure.errors.join(", ")}`);
+    }
+    newScenario = {
+      name,
+      gherkin: formatGherkin(parsed.steps),
+      source: { type: "manual", description: `Answer to: ${question.question}`, date: localDate(now) },
+    };
+  }
+
+  question.answer = text;
+  question.answeredAt = now.toISOString();
+  if (newScenario) {
+    data.scenarios = [...(data.scenarios ?? []), newScenario];
+    question.scenario = newScenario.name;
+  }
+  return question;
+}
@@ -0,0 +1,231 @@
+/**
+ * Repair test links broken by renamed or moved tests
+ *
+ * A broken link (its test no longer exists) is matched to an orphaned test
+ * by body hash, identifier similarity and the file's git rename history.
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { invalidateAssessment } from "./assessment";
+import type {
+  BrokenTestLink,
+  ExtractedTest,
+  ParsedRequirement,
+  RelinkConfidence,
+  RelinkSuggestion,
+  TestLink,
+} from "./types";
+
+const execFileAsync = promisify(execFile);
+
+export const RELINK_CONFIDENCES: RelinkConfidence[] = ["high", "medium"];
+
+// Identifier similarity that counts as a match with a related file, or on its own
+const RELATED_FILE_SIMILARITY = 0.5;
+const UNRELATED_FILE_SIMILARITY = 0.8;
+
+function testKey(test: { file: string; identifier: string }): string {
+  return `${test.file}:${test.identifier}`;
+}
+
+/**
+ * Test links (of requirements and their scenarios) whose test is not among
+ * the extracted tests
+ * @param testKeys - "file:identifier" of every extracted test
+ */
+export function findBrokenLinks(requirements: ParsedRequirement[], testKeys: Set<string>): BrokenTestLink[] {
+  const broken: BrokenTestLink[] = [];
+  for (const req of requirements) {
+    const groups: Array<{ scenario?: string; tests: TestLink[] }> = [
+      { tests: req.data.tests },
+      ...(req.data.scenarios ?? []).map((s) => ({ scenario: s.name, tests: s.tests ?? [] })),
+    ];
+    for (const { scenario, tests } of groups) {
+      for (const test of tests) {
+        if (testKeys.has(testKey(test))) continue;
+        broken.push({
+          requirement: req.path,
+          ...(scenario !== undefined ? { scenario } : {}),
+          file: test.file,
+          identifier: test.identifier,
+          hash: test.hash,
+        });
+      }
+    }
+  }
+  return broken;
+}
+
+/**
+ * Files renamed in git history or staged in the working tree, old path to
+ * current path (relative to cwd, rename chains followed)
+ * @returns an empty map outside a git repository
+ */
+export async function getFileRenames(cwd: string): Promise<Map<string, string>> {
+  const git = async (args: string[]) => {
+    try {
+      const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+      return stdout;
+    } catch {
+      return "";
+    }
+  };
+
+  const log = await git(["log", "--name-status", "-M", "--diff-filter=R", "--format=", "--relative"]);
+  const staged = await git(["diff", "--name-status", "-M", "--diff-filter=R", "--relative", "--cached"]);
+
+  // Oldest rename first, so later renames extend earlier ones
+  const lines = [...log.split("\n").filter(Boolean).reverse(), ...staged.split("\n").filter(Boolean)];
+  const renames = new Map<string, string>();
+  for (const line of lines) {
+    const [status, from, to] = line.split("\t");
+    if (!status.startsWith("R") || !from || !to) continue;
+    for (const [old, current] of renames) {
+      if (current === from) renames.set(old, to);
+    }
+    renames.set(from, to);
+  }
+  return renames;
+}
+
+/**
+ * Similarity of two test identifiers from 0 to 1 (1 - normalized edit
+ * distance, ignoring case)
+ */
+export function identifierSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  if (x === y) return 1;
+  if (!x.length || !y.length) return 0;
+
+  let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= y.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[y.length] / Math.max(x.length, y.length);
+}
+
+/**
+ * Match broken links to orphaned tests. Each broken test (all links to one
+ * "file:identifier") gets at most one orphan and each orphan is used once,
+ * best matches first.
+ *
+ * - high: same test body (hash), and the same or a renamed file or a similar identifier
+ * - medium: same test body alone, or a similar identifier in the same or a renamed file,
+ *   or a very similar identifier anywhere
+ */
+export function suggestRelinks(
+  brokenLinks: BrokenTestLink[],
+  orphanedTests: ExtractedTest[],
+  renames: Map<string, string> = new Map()
+): RelinkSuggestion[] {
+  const brokenTests = new Map<string, BrokenTestLink[]>();
+  for (const link of brokenLinks) {
+    brokenTests.set(testKey(link), [...(brokenTests.get(testKey(link)) ?? []), link]);
+  }
+
+  const candidates: Array<RelinkSuggestion & { score: number }> = [];
+  for (const links of brokenTests.values()) {
+    const { file, identifier } = links[0];
+    for (const test of orphanedTests) {
+      const sameBody = links.some((link) => link.hash === test.hash || link.hash === test.legacyHash);
+      const renamed = renames.get(file) === test.file;
+      const relatedFile = renamed || file === test.file;
+      const similarity = identifierSimilarity(identifier, test.identifier);
+
+      if (!sameBody && similarity < (relatedFile ? RELATED_FILE_SIMILARITY : UNRELATED_FILE_SIMILARITY)) {
+        continue;
+      }
+
+      const reasons: string[] = [];
+      if (sameBody) reasons.push("same test body");
+      if (renamed) reasons.push(`file renamed from ${file}`);
+      else if (relatedFile) reasons.push("same file");
+      if (similarity === 1) reasons.push("same identifier");
+      else if (similarity >= RELATED_FILE_SIMILARITY) reasons.push(`identifier ${Math.round(similarity * 100)}% similar`);
+
+      candidates.push({
+        file,
+        identifier,
+        links,
+        test: { file: test.file, identifier: test.identifier, hash: test.hash, legacyHash: test.legacyHash },
+        confidence: sameBody && (relatedFile || similarity >= RELATED_FILE_SIMILARITY) ? "high" : "medium",
+        reasons,
+        score: (sameBody ? 2 : 0) + (relatedFile ? 1 : 0) + similarity,
+      });
+    }
+  }
+
+  const suggestions: RelinkSuggestion[] = [];
+  const usedBroken = new Set<string>();
+  const usedTests = new Set<string>();
+  for (const { score, ...candidate } of candidates.sort((a, b) => b.score - a.score)) {
+    const brokenKey = testKey(candidate);
+    const newKey = testKey(candidate.test);
+    if (usedBroken.has(brokenKey) || usedTests.has(newKey)) continue;
+    usedBroken.add(brokenKey);
+    usedTests.add(newKey);
+    suggestions.push(candidate);
+  }
+  return suggestions.sort((a, b) => testKey(a).localeCompare(testKey(b)));
+}
+
+/**
+ * Point the links of a suggestion at the new test. A requirement keeps its
+ * AI assessment if the test body is unchanged; otherwise the assessment is
+ * invalidated, as for a newly linked test.
+ *
+ * @returns paths of the changed requirements, and of those among them whose
+ *   assessment was kept or invalidated
+ */
+export function applyRelink(
+  suggestion: RelinkSuggestion,
+  requirements: Map<string, ParsedRequirement>
+): { changed: string[]; kept: string[]; invalidated: string[] } {
+  const changed: string[] = [];
+  const kept: string[] = [];
+  const invalidated: string[] = [];
+
+  for (const brokenLink of suggestion.links) {
+    const req = requirements.get(brokenLink.requirement);
+    if (!req) continue;
+    const scenario = brokenLink.scenario !== undefined
+      ? req.data.scenarios?.find((s) => s.name === brokenLink.scenario)
+      : undefined;
+    const tests = scenario ? (scenario.tests ?? []) : req.data.tests;
+    const index = tests.findIndex((t) => testKey(t) === testKey(brokenLink));
+    if (index === -1) continue;
+
+    const link = tests[index];
+    const unchanged = link.hash === suggestion.test.hash || link.hash === suggestion.test.legacyHash;
+    if (tests.some((t) => testKey(t) === testKey(suggestion.test))) {
+      // Already linked here as well - drop the broken duplicate
+      tests.splice(index, 1);
+    } else {
+      link.file = suggestion.test.file;
+      link.identifier = suggestion.test.identifier;
+      link.hash = suggestion.test.hash;
+    }
+    changed.push(req.path);
+
+    if (req.data.aiAssessment) {
+      if (unchanged) {
+        kept.push(req.path);
+      } else {
+        invalidateAssessment(req.data);
+        invalidated.push(req.path);
+      }
+    }
+  }
+
+  return { changed, kept, invalidated };
+}
@@ -0,0 +1,260 @@
+/**
+ * Requirement change history from git - each commit that touched a
+ * requirement file, described as semantic changes ("scenario `x` added",
+ * "test a.test.ts:y unlinked") instead of a YAML diff
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { parse as parseYaml } from "yaml";
+import { REQUIREMENTS_DIR } from "./types";
+import type { Requirement, Scenario, Source, TestLink } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+export interface RequirementLogEntry {
+  commit: string | null; // null for uncommitted changes in the working tree
+  author: string;
+  email: string;
+  date: string; // ISO timestamp (commit author date)
+  subject: string; // First line of the commit message
+  changes: string[]; // Semantic changes, e.g. "status: planned -> done"
+}
+
+interface Revision {
+  commit: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  file: string; // Path at that commit, relative to the repository root
+}
+
+// Field and record separators for `git log --format`
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+function parseRequirementYaml(content: string | null): Requirement | null {
+  if (content === null) return null;
+  try {
+    const data = parseYaml(content);
+    return data && typeof data === "object" ? (data as Requirement) : null;
+  } catch {
+    return null;
+  }
+}
+
+const linkKey = (test: TestLink) => `${test.file}:${test.identifier}`;
+
+function formatSource(source: Source | undefined): string {
+  return source ? `${source.type}: ${source.description}` : "(none)";
+}
+
+function diffLinks(before: TestLink[], after: TestLink[], suffix = ""): string[] {
+  const beforeKeys = new Set(before.map(linkKey));
+  const afterKeys = new Set(after.map(linkKey));
+  return [
+    ...after
+      .filter((test) => !beforeKeys.has(linkKey(test)))
+      .map((test) => `test ${linkKey(test)} linked${suffix}`),
+    ...before
+      .filter((test) => !afterKeys.has(linkKey(test)))
+      .map((test) => `test ${linkKey(test)} unlinked${suffix}`),
+  ];
+}
+
+function diffScenarios(before: Scenario[], after: Scenario[]): string[] {
+  const changes: string[] = [];
+  const beforeByName = new Map(before.map((scenario) => [scenario.name, scenario]));
+  const afterNames = new Set(after.map((scenario) => scenario.name));
+
+  for (const scenario of after) {
+    const previous = beforeByName.get(scenario.name);
+    const label = `scenario \`${scenario.name}\``;
+    if (!previous) {
+      changes.push(`${label} ${scenario.suggested ? "suggested" : "added"}`);
+      changes.push(...diffLinks([], scenario.tests ?? [], ` to ${label}`));
+      continue;
+    }
+    if (previous.suggested && !scenario.suggested) {
+      changes.push(`${label} accepted`);
+    }
+    if (previous.gherkin.trim() !== scenario.gherkin.trim()) {
+      changes.push(`${label} gherkin changed`);
+    }
+    if (JSON.stringify(previous.examples ?? []) !== JSON.stringify(scenario.examples ?? [])) {
+      changes.push(`${label} examples changed`);
+    }
+    changes.push(...diffLinks(previous.tests ?? [], scenario.tests ?? [], ` to ${label}`));
+  }
+  for (const scenario of before) {
+    if (!afterNames.has(scenario.name)) {
+      changes.push(`scenario \`${scenario.name}\` ${scenario.suggested ? "rejected" : "removed"}`);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Describe the changes between two versions of a requirement.
+ * Test hash refreshes and status log entries are not reported on their own.
+ */
+export function diffRequirement(before: Requirement | null, after: Requirement | null): string[] {
+  if (!before && !after) return [];
+  if (!before) return ["requirement created"];
+  if (!after) return ["requirement deleted"];
+
+  const changes: string[] = [];
+
+  if ((before.gherkin ?? "").trim() !== (after.gherkin ?? "").trim()) {
+    changes.push("gherkin changed");
+  }
+  if (JSON.stringify(before.examples ?? []) !== JSON.stringify(after.examples ?? [])) {
+    changes.push("examples changed");
+  }
+  const beforeSource = before.mainSource ?? before.source;
+  const afterSource = after.mainSource ?? after.source;
+  if (JSON.stringify(beforeSource) !== JSON.stringify(afterSource)) {
+    changes.push(`source: ${formatSource(beforeSource)} -> ${formatSource(afterSource)}`);
+  }
+  if (before.status !== after.status) {
+    changes.push(`status: ${before.status} -> ${after.status}`);
+  }
+  if (before.priority !== after.priority) {
+    changes.push(`priority: ${before.priority ?? "(none)"} -> ${after.priority ?? "(none)"}`);
+  }
+
+  changes.push(...diffScenarios(before.scenarios ?? [], after.scenarios ?? []));
+  changes.push(...diffLinks(before.tests ?? [], after.tests ?? []));
+
+  const beforeDeps = new Set((before.dependencies ?? []).map((dep) => dep.path));
+  const afterDeps = new Set((after.dependencies ?? []).map((dep) => dep.path));
+  for (const dep of afterDeps) {
+    if (!beforeDeps.has(dep)) changes.push(`dependency ${dep} added`);
+  }
+  for (const dep of beforeDeps) {
+    if (!afterDeps.has(dep)) changes.push(`dependency ${dep} removed`);
+  }
+
+  if (JSON.stringify(before.nfrs ?? []) !== JSON.stringify(after.nfrs ?? [])) {
+    changes.push("NFRs changed");
+  }
+  if (JSON.stringify(before.implementation ?? []) !== JSON.stringify(after.implementation ?? [])) {
+    changes.push("implementation files changed");
+  }
+
+  const beforeQuestions = before.questions ?? [];
+  const afterQuestions = after.questions ?? [];
+  for (const question of afterQuestions) {
+    const previous = beforeQuestions.find((q) => q.question === question.question);
+    if (!previous) {
+      changes.push(`question added: "${question.question}"`);
+    } else if (!previous.answer && question.answer) {
+      changes.push(`question answered: "${question.question}"`);
+    }
+  }
+
+  if (!before.aiAssessment && after.aiAssessment) {
+    changes.push(`assessed: ${after.aiAssessment.sufficient ? "sufficient" : "insufficient"}`);
+  } else if (before.aiAssessment && !after.aiAssessment) {
+    changes.push("assessment cleared");
+  } else if (
+    before.aiAssessment &&
+    after.aiAssessment &&
+    before.aiAssessment.assessedAt !== after.aiAssessment.assessedAt
+  ) {
+    changes.push(`re-assessed: ${after.aiAssessment.sufficient ? "sufficient" : "insufficient"}`);
+  }
+
+  return changes;
+}
+
+/**
+ * Commits that touched a requirement file, newest first (follows renames)
+ */
+async function getRevisions(cwd: string, reqPath: string): Promise<Revision[]> {
+  const output = await git(cwd, [
+    "log",
+    "--follow",
+    "--name-only",
+    `--format=${RECORD}%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}%s`,
+    "--",
+    `${REQUIREMENTS_DIR}/${reqPath}`,
+  ]);
+
+  return output
+    .split(RECORD)
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [header, ...files] = record.split("\n");
+      const [commit, author, email, date, subject] = header.split(FIELD);
+      return { commit, author, email, date, subject, file: files.find((f) => f.trim()) ?? "" };
+    });
+}
+
+/**
+ * Change history of a requirement, newest first. Uncommitted changes to the
+ * file come first with commit null. Commits without a semantic change (e.g.
+ * only refreshed test hashes) are left out.
+ *
+ * @throws Error outside a git repository
+ */
+export async function getRequirementLog(cwd: string, reqPath: string): Promise<RequirementLogEntry[]> {
+  // Oldest first, so each version is compared with the one before
+  const revisions = (await getRevisions(cwd, reqPath)).reverse();
+  const entries: RequirementLogEntry[] = [];
+
+  let previous: Requirement | null = null;
+  for (const { commit, author, email, date, subject, file } of revisions) {
+    // No file to show (e.g. a merge commit listed without names)
+    if (!file) {
+      continue;
+    }
+    let content: string | null = null;
+    try {
+      content = await git(cwd, ["show", `${commit}:${file}`]);
+    } catch {
+      // Deleted in this commit
+    }
+    const version = parseRequirementYaml(content);
+    const changes = diffRequirement(previous, version);
+    if (changes.length > 0) {
+      entries.unshift({ commit, author, email, date, subject, changes });
+    }
+    previous = version;
+  }
+
+  // Uncommitted changes
+  let current: string | null = null;
+  try {
+    current = await readFile(join(cwd, REQUIREMENTS_DIR, reqPath), "utf-8");
+  } catch {
+    // Deleted in the working tree
+  }
+  const uncommitted = diffRequirement(previous, parseRequirementYaml(current));
+  if (uncommitted.length > 0) {
+    entries.unshift({
+      commit: null,
+      author: "(uncommitted)",
+      email: "",
+      date: new Date().toISOString(),
+      subject: "Working tree changes",
+      changes: uncommitted,
+    });
+  }
+
+  return entries;
+}
@@ -33,12 +33,14 @@
  * }
  */
 
+import { TEST_NAME_SEPARATOR } from "../types";
 import type { TestResult, TestRunSummary, TestResultStatus } from "../types";
 
 // Jest/Vitest format types
 interface JestAssertionResult {
   fullName?: string;
   title?: string;
+  ancestorTitles?: string[]; // Enclosing describe blocks
   status: string;
   duration?: number;
   failureMessages?: string[];
@@ -86,9 +88,16 @@ function parseJestFormat(data: JestFormat): TestResult[] {
     const file = testFile.name || testFile.testFilePath || "unknown";
 
     for (const assertion of testFile.assertionResults || []) {
+      // Qualify with describe titles when available ("describe > test") - Jest's
+      // fullName joins them with spaces, which can't be split back apart
+      const identifier =
+        assertion.title && assertion.ancestorTitles?.length
+          ? [...assertion.ancestorTitles, assertion.title].join(TEST_NAME_SEPARATOR)
+          : assertion.fullName || assertion.title || "unknown";
+
       results.push({
         file,
-        identifier: assertion.fullName || assertion.title || "unknown",
+        identifier,
         status: normalizeStatus(assertion.status),
         duration: assertion.duration,
         errorMessage: assertion.failureMessages?.join("\n"),
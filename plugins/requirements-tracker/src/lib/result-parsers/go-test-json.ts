@@ -0,0 +1,99 @@
+/**
+ * Parser for `go test -json` output
+ *
+ * The output is a stream of JSON events, one per line:
+ * {"Action":"run","Package":"example.com/app/auth","Test":"TestLogin"}
+ * {"Action":"output","Package":"example.com/app/auth","Test":"TestLogin","Output":"    auth_test.go:12: bad\n"}
+ * {"Action":"fail","Package":"example.com/app/auth","Test":"TestLogin","Elapsed":0.01}
+ *
+ * Subtests are reported as "TestLogin/valid_input" and become qualified
+ * identifiers ("TestLogin > valid_input"). Events only name the package, so
+ * results carry the package import path as their file until the Go adapter
+ * resolves it to the _test.go file declaring the test.
+ */
+
+import { TEST_NAME_SEPARATOR } from "../types";
+import type { TestResult, TestRunSummary, TestResultStatus } from "../types";
+
+interface GoTestEvent {
+  Action?: string;
+  Package?: string;
+  Test?: string;
+  Elapsed?: number; // Seconds
+  Output?: string;
+}
+
+const STATUS_BY_ACTION: Record<string, TestResultStatus> = {
+  pass: "passed",
+  fail: "failed",
+  skip: "skipped",
+};
+
+function parseEvents(content: string): GoTestEvent[] {
+  const events: GoTestEvent[] = [];
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) {
+      continue;
+    }
+    try {
+      events.push(JSON.parse(trimmed));
+    } catch {
+      // Skip lines that are not events (e.g. build output)
+    }
+  }
+  return events;
+}
+
+export function canParse(content: string): boolean {
+  const firstLine = content.trim().split("\n")[0];
+  try {
+    const event = JSON.parse(firstLine);
+    return typeof event === "object" && event !== null && "Action" in event;
+  } catch {
+    return false;
+  }
+}
+
+export function parse(content: string): {
+  results: TestResult[];
+  summary: TestRunSummary;
+} {
+  const results: TestResult[] = [];
+  const output = new Map<string, string>();
+
+  for (const event of parseEvents(content)) {
+    // Package-level events have no test
+    if (!event.Test || !event.Package) {
+      continue;
+    }
+
+    const key = `${event.Package}\0${event.Test}`;
+    if (event.Action === "output") {
+      output.set(key, (output.get(key) || "") + (event.Output || ""));
+      continue;
+    }
+
+    const status = event.Action ? STATUS_BY_ACTION[event.Action] : undefined;
+    if (!status) {
+      continue;
+    }
+
+    results.push({
+      file: event.Package,
+      identifier: event.Test.split("/").join(TEST_NAME_SEPARATOR),
+      status,
+      duration: event.Elapsed !== undefined ? event.Elapsed * 1000 : undefined,
+      errorMessage: status === "failed" ? output.get(key)?.trim() || undefined : undefined,
+    });
+  }
+
+  const summary: TestRunSummary = {
+    total: results.length,
+    passed: results.filter((r) => r.status === "passed").length,
+    failed: results.filter((r) => r.status === "failed" || r.status === "error").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+  };
+
+  return { results, summary };
+}
@@ -4,9 +4,10 @@
 
 import type { TestResult, TestRunSummary } from "../types";
 import * as bunJson from "./bun-json";
+import * as goTestJson from "./go-test-json";
 import * as junitXml from "./junit-xml";
 
-export type ResultFormat = "junit-xml" | "bun-json";
+export type ResultFormat = "junit-xml" | "bun-json" | "go-test-json";
 
 export interface ParseResult {
   format: ResultFormat;
@@ -21,6 +22,10 @@ export function detectFormat(content: string): ResultFormat | null {
   if (junitXml.canParse(content)) {
     return "junit-xml";
   }
+  // Before bun-json, which accepts any JSON
+  if (goTestJson.canParse(content)) {
+    return "go-test-json";
+  }
   if (bunJson.canParse(content)) {
     return "bun-json";
   }
@@ -51,6 +56,9 @@ export function parseResults(content: string, format?: ResultFormat): ParseResul
     case "bun-json":
       parseResult = bunJson.parse(content);
       break;
+    case "go-test-json":
+      parseResult = goTestJson.parse(content);
+      break;
     default:
       throw new Error(`Unknown format: ${detectedFormat}`);
   }
@@ -62,4 +70,4 @@ export function parseResults(content: string, format?: ResultFormat): ParseResul
 }
 
 // Re-export individual parsers for direct use
-export { bunJson, junitXml };
+export { bunJson, goTestJson, junitXml };
@@ -5,7 +5,7 @@
  * - Bun (via --reporter=junit)
  * - Jest (via jest-junit)
  * - Vitest
- * - pytest
+ * - pytest (via --junitxml, with -o junit_family=xunit1 for file attributes)
  * - etc.
  *
  * Format:
@@ -20,7 +20,8 @@
  * </testsuites>
  */
 
-import { XMLParser } from "fast-xml-parser";
+import { XMLBuilder, XMLParser } from "fast-xml-parser";
+import { TEST_NAME_SEPARATOR } from "../types";
 import type { TestResult, TestRunSummary, TestResultStatus } from "../types";
 
 // XML Parser configured to preserve attributes and handle JUnit format
@@ -31,9 +32,19 @@ const parser = new XMLParser({
   isArray: (name) => ["testsuite", "testcase"].includes(name),
 });
 
+// XML Builder for writing results back out in the same shape the parser reads
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  format: true,
+  suppressEmptyNode: true,
+});
+
 interface JUnitTestCase {
   "@_name"?: string;
   "@_classname"?: string;
+  "@_file"?: string; // Mocha's xunit and node:test reporters put the file on each testcase
   "@_time"?: string;
   failure?: { "@_message"?: string; "#text"?: string } | string;
   error?: { "@_message"?: string; "#text"?: string } | string;
@@ -65,6 +76,11 @@ function classnameToFile(classname: string): string {
     return classname;
   }
 
+  // Bare file name with a source extension (e.g. Vitest/Playwright root-level files)
+  if (/\.[cm]?[jt]sx?$/.test(classname)) {
+    return classname;
+  }
+
   // If it contains dots, it might be a package path - convert to file path
   if (classname.includes(".")) {
     // Check if last segment looks like a file (has test in it)
@@ -83,6 +99,25 @@ function classnameToFile(classname: string): string {
   return classname;
 }
 
+/**
+ * pytest's classname is the module path followed by any test classes
+ * ("tests.test_auth.TestLogin") - qualify the name with those classes
+ * so tests in different classes of one file can be told apart
+ */
+function qualifyPythonName(name: string, classname: string, file: string): string {
+  if (!file.endsWith(".py")) {
+    return name;
+  }
+
+  const modulePath = file.replace(/\.py$/, "").split(/[\\/]/).join(".");
+  if (!classname.startsWith(`${modulePath}.`)) {
+    return name;
+  }
+
+  const classes = classname.slice(modulePath.length + 1).split(".");
+  return [...classes, name].join(TEST_NAME_SEPARATOR);
+}
+
 function parseTestCase(tc: JUnitTestCase): {
   name: string;
   classname: string;
@@ -142,11 +177,13 @@ export function canParse(content: string): boolean {
 
 /**
  * Recursively extract all test cases from a test suite and its nested suites
- * Bun uses nested testsuites for describe blocks
+ * Bun uses nested testsuites for describe blocks - their names qualify the
+ * test names ("describe > test") the same way the test extractor does
  */
 function extractTestCases(
   suite: JUnitTestSuite,
-  parentFile?: string
+  parentFile?: string,
+  describes: string[] = []
 ): TestResult[] {
   const results: TestResult[] = [];
 
@@ -158,12 +195,14 @@ function extractTestCases(
   for (const tc of testcases) {
     const { name, classname, time, status, errorMessage } = parseTestCase(tc);
 
-    // Prefer the file attribute from the suite, fall back to classname conversion
-    const testFile = file || classnameToFile(classname);
+    // Prefer the file attribute from the testcase or suite, fall back to classname conversion
+    const testFile = tc["@_file"] || file || classnameToFile(classname);
+
+    const testName = tc["@_file"] ? qualifyPythonName(name, classname, testFile) : name;
 
     results.push({
       file: testFile,
-      identifier: name,
+      identifier: [...describes, testName].join(TEST_NAME_SEPARATOR),
       status,
       duration: time,
       errorMessage,
@@ -173,7 +212,8 @@ function extractTestCases(
   // Recursively process nested testsuites
   const nestedSuites = suite.testsuite || [];
   for (const nested of nestedSuites) {
-    results.push(...extractTestCases(nested, file));
+    const describe = nested["@_name"];
+    results.push(...extractTestCases(nested, file, describe ? [...describes, describe] : describes));
   }
 
   return results;
@@ -212,3 +252,58 @@ export function parse(content: string): {
 
   return { results, summary };
 }
+
+/**
+ * Serialize results to JUnit XML, one testsuite per file.
+ * Used to store results from runners that produce a different format.
+ */
+export function serialize(results: TestResult[]): string {
+  const byFile = new Map<string, TestResult[]>();
+  for (const result of results) {
+    if (!byFile.has(result.file)) {
+      byFile.set(result.file, []);
+    }
+    byFile.get(result.file)!.push(result);
+  }
+
+  const count = (items: TestResult[], status: TestResultStatus) =>
+    items.filter((r) => r.status === status).length;
+
+  const testsuite = Array.from(byFile.entries()).map(([file, fileResults]) => ({
+    "@_name": file,
+    "@_file": file,
+    "@_tests": fileResults.length,
+    "@_failures": count(fileResults, "failed"),
+    "@_errors": count(fileResults, "error"),
+    "@_skipped": count(fileResults, "skipped"),
+    testcase: fileResults.map((result) => {
+      const testcase: Record<string, unknown> = {
+        "@_name": result.identifier,
+        "@_classname": file,
+      };
+      if (result.duration !== undefined) {
+        testcase["@_time"] = (result.duration / 1000).toString(); // ms -> s
+      }
+      if (result.status === "failed") {
+        testcase.failure = result.errorMessage ?? "";
+      } else if (result.status === "error") {
+        testcase.error = result.errorMessage ?? "";
+      } else if (result.status === "skipped") {
+        testcase.skipped = "";
+      }
+      return testcase;
+    }),
+  }));
+
+  const xml = builder.build({
+    testsuites: {
+      "@_tests": results.length,
+      "@_failures": count(results, "failed"),
+      "@_errors": count(results, "error"),
+      "@_skipped": count(results, "skipped"),
+      testsuite,
+    },
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${xml}`;
+}
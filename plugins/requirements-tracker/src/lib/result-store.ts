@@ -1,10 +1,11 @@
 /**
- * Test results store - loading test results from JUnit XML
+ * Test results store - loading and saving test results as JUnit XML
  */
 
-import { readFile, stat } from "fs/promises";
+import { readFile, stat, writeFile } from "fs/promises";
 import { join } from "path";
 import { junitXml } from "./result-parsers";
+import { testNameFromIdentifier } from "./test-parsers";
 import {
   REQUIREMENTS_DIR,
   TEST_RESULTS_FILE,
@@ -59,6 +60,43 @@ export async function loadTestResults(
   }
 }
 
+/**
+ * Store test results as JUnit XML in .requirements/test-results.xml, which is
+ * watched by the server and can be committed to git
+ */
+export async function saveTestResults(cwd: string, results: TestResult[]): Promise<void> {
+  await writeFile(getTestResultsPath(cwd), junitXml.serialize(results));
+}
+
+/**
+ * Merge a partial run into earlier results.
+ * Files in the new run replace their earlier results; other files keep theirs.
+ */
+export function mergeTestResults(previous: TestResult[], latest: TestResult[]): TestResult[] {
+  const latestFiles = new Set(latest.map((result) => normalizePath(result.file)));
+  return [
+    ...previous.filter((result) => !latestFiles.has(normalizePath(result.file))),
+    ...latest,
+  ];
+}
+
+/**
+ * Merge results of single tests into earlier results.
+ * Each new result replaces only the earlier result of the same test.
+ */
+export function mergeSingleTestResults(previous: TestResult[], latest: TestResult[]): TestResult[] {
+  const latestKeys = new Set(
+    latest.map((result) => `${normalizePath(result.file)}:${normalizeIdentifier(result.identifier)}`)
+  );
+  return [
+    ...previous.filter(
+      (result) =>
+        !latestKeys.has(`${normalizePath(result.file)}:${normalizeIdentifier(result.identifier)}`)
+    ),
+    ...latest,
+  ];
+}
+
 /**
  * Normalize a file path for matching
  * - Remove leading ./
@@ -115,7 +153,17 @@ export function matchResultToTestLink(
     }
   }
 
-  return null;
+  // Qualified identifiers ("describe > test") - some runners report only the
+  // plain test name, others qualify it, so compare the test's own name.
+  // Only a name that a single test in the file has identifies the test.
+  const testName = normalizeIdentifier(testNameFromIdentifier(testLink.identifier));
+  const sameName = results.filter(
+    (result) =>
+      normalizePath(result.file) === normalizedFile &&
+      normalizeIdentifier(testNameFromIdentifier(result.identifier)) === testName
+  );
+
+  return sameName.length === 1 ? sameName[0] : null;
 }
 
 /**
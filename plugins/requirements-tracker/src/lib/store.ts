@@ -21,7 +21,11 @@ import {
   NFRCategory,
   Source,
   Scenario,
+  ScenarioExamples,
+  TestLink,
+  WorkflowConfig,
 } from "./types";
+import { getStateNames, getWorkflow } from "./workflow";
 
 // Valid values for validation
 const VALID_PRIORITIES: Priority[] = ["critical", "high", "medium", "low"];
@@ -156,6 +160,31 @@ export function isValidRequirementPath(path: string): boolean {
   return REQUIREMENT_FILE_PATTERN.test(filename);
 }
 
+/**
+ * Split a link target "auth/REQ_login.yml#invalid_password" into the
+ * requirement path and the scenario name
+ */
+export function parseRequirementTarget(target: string): { path: string; scenario?: string } {
+  const hashIndex = target.indexOf("#");
+  if (hashIndex === -1) {
+    return { path: target };
+  }
+  return { path: target.slice(0, hashIndex), scenario: target.slice(hashIndex + 1) };
+}
+
+/**
+ * All tests linked to a requirement: its own links plus those of its
+ * scenarios, without duplicates
+ */
+export function getAllTestLinks(data: Requirement): TestLink[] {
+  const links = new Map<string, TestLink>();
+  for (const test of [...data.tests, ...(data.scenarios ?? []).flatMap((s) => s.tests ?? [])]) {
+    const key = `${test.file}:${test.identifier}`;
+    if (!links.has(key)) links.set(key, test);
+  }
+  return Array.from(links.values());
+}
+
 export async function requirementExists(
   cwd: string,
   reqPath: string
@@ -179,13 +208,19 @@ export class RequirementValidationError extends Error {
   }
 }
 
+/**
+ * Load and validate a requirement file
+ * @param workflow - Workflow its status must belong to (read from config.yml if omitted)
+ */
 export async function loadRequirement(
   cwd: string,
-  reqPath: string
+  reqPath: string,
+  workflow?: WorkflowConfig
 ): Promise<ParsedRequirement | null> {
   if (!isValidRequirementPath(reqPath)) {
     return null;
   }
+  const states = getStateNames(workflow ?? getWorkflow(await loadConfig(cwd)));
 
   const fullPath = join(getRequirementsDir(cwd), reqPath);
   try {
@@ -201,13 +236,26 @@ export async function loadRequirement(
     }
 
     // Validate required status field
-    if (!data.status || (data.status !== "planned" && data.status !== "done")) {
+    if (!data.status || !states.includes(data.status)) {
       throw new RequirementValidationError(
         reqPath,
-        'Missing or invalid "status" field. Must be "planned" or "done".'
+        `Missing or invalid "status" field. Must be one of: ${states.join(", ")}`
       );
     }
 
+    // Validate status log if present
+    if (data.statusLog !== undefined) {
+      if (
+        !Array.isArray(data.statusLog) ||
+        !data.statusLog.every((entry) => typeof entry?.to === "string" && typeof entry.at === "string")
+      ) {
+        throw new RequirementValidationError(
+          reqPath,
+          '"statusLog" must be an array of { from, to, by, at, reason } entries'
+        );
+      }
+    }
+
     // Validate required gherkin field
     if (!data.gherkin || typeof data.gherkin !== "string") {
       throw new RequirementValidationError(
@@ -299,6 +347,54 @@ export async function loadRequirement(
       }
     }
 
+    // Validate examples tables (outline scenarios) if present
+    const validateExamples = (field: string, examples: unknown) => {
+      if (!Array.isArray(examples)) {
+        throw new RequirementValidationError(reqPath, `${field} must be an array`);
+      }
+      for (let i = 0; i < examples.length; i++) {
+        const table = examples[i] as ScenarioExamples;
+        if (!Array.isArray(table?.header) || !Array.isArray(table.rows)) {
+          throw new RequirementValidationError(
+            reqPath,
+            `${field}[${i}]: must have "header" and "rows" arrays`
+          );
+        }
+        if (table.rows.some((row) => !Array.isArray(row) || row.length !== table.header.length)) {
+          throw new RequirementValidationError(
+            reqPath,
+            `${field}[${i}]: every row must have as many cells as the header`
+          );
+        }
+      }
+    };
+    if (data.examples !== undefined) {
+      validateExamples('"examples"', data.examples);
+    }
+
+    // Validate implementation globs if present
+    if (data.implementation !== undefined) {
+      if (
+        !Array.isArray(data.implementation) ||
+        !data.implementation.every((pattern) => typeof pattern === "string" && pattern.length > 0)
+      ) {
+        throw new RequirementValidationError(
+          reqPath,
+          '"implementation" must be an array of glob strings'
+        );
+      }
+    }
+
+    // Validate the feature file origin if present (see req import-features)
+    if (data.feature !== undefined) {
+      if (typeof data.feature?.name !== "string" || typeof data.feature.title !== "string") {
+        throw new RequirementValidationError(
+          reqPath,
+          '"feature" must have "name" and "title" string fields'
+        );
+      }
+    }
+
     // Validate scenarios if present
     if (data.scenarios) {
       if (!Array.isArray(data.scenarios)) {
@@ -333,6 +429,24 @@ export async function loadRequirement(
             `scenarios[${i}] "${scenario.name}": gherkin must include Given/When/Then keywords`
           );
         }
+        // Validate optional examples tables
+        if (scenario.examples !== undefined) {
+          validateExamples(`scenarios[${i}] "${scenario.name}": "examples"`, scenario.examples);
+        }
+        // Validate optional scenario-level test links
+        if (scenario.tests !== undefined) {
+          if (
+            !Array.isArray(scenario.tests) ||
+            !scenario.tests.every(
+              (test) => typeof test?.file === "string" && typeof test.identifier === "string"
+            )
+          ) {
+            throw new RequirementValidationError(
+              reqPath,
+              `scenarios[${i}] "${scenario.name}": "tests" must be an array of { file, identifier, hash } links`
+            );
+          }
+        }
         // Validate optional suggested flag
         if (
           scenario.suggested !== undefined &&
@@ -396,12 +510,13 @@ export async function loadAllRequirements(
 
   const requirements: ParsedRequirement[] = [];
   const errors: RequirementValidationError[] = [];
+  const workflow = getWorkflow(await loadConfig(cwd));
 
   for (const file of files) {
     // Get relative path from requirements dir
     const reqPath = relative(reqDir, file);
     try {
-      const req = await loadRequirement(cwd, reqPath);
+      const req = await loadRequirement(cwd, reqPath, workflow);
       if (req) {
         requirements.push(req);
       }
@@ -0,0 +1,26 @@
+/**
+ * Bun adapter - bun test with the built-in JUnit reporter
+ */
+
+import type { TestFrameworkAdapter } from "./index";
+
+export const bunAdapter: TestFrameworkAdapter = {
+  name: "bun",
+  defaultRunner: "bun test",
+  resultFormat: "junit-xml",
+  language: "typescript",
+  defaultTestGlob: "**/*.test.{ts,js}",
+
+  fileArgs(file: string): string[] {
+    return [file];
+  },
+
+  nameFilterArgs(pattern: string): string[] {
+    return ["--test-name-pattern", pattern];
+  },
+
+  // Bun requires an outfile for the JUnit reporter
+  reporterArgs(outputFile: string): string[] {
+    return ["--reporter=junit", "--reporter-outfile", outputFile];
+  },
+};
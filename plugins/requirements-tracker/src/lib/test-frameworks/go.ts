@@ -0,0 +1,116 @@
+/**
+ * Go adapter - `go test -json` event stream on stdout
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { dirname, join, relative } from "node:path";
+import { extractTestsFromFile } from "../test-parser";
+import { TEST_NAME_SEPARATOR } from "../types";
+import type { TestResult } from "../types";
+import type { TestFrameworkAdapter } from "./index";
+
+/**
+ * Escape a string for use as a literal in a regex name filter
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Read the module path from go.mod in cwd
+ */
+async function readModulePath(cwd: string): Promise<string | null> {
+  try {
+    const content = await readFile(join(cwd, "go.mod"), "utf-8");
+    return /^module\s+(\S+)/m.exec(content)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map top-level test names to the _test.go file declaring them in a package directory
+ */
+async function findTestFiles(cwd: string, dir: string): Promise<Map<string, string>> {
+  const testFiles = new Map<string, string>();
+  let entries: string[];
+  try {
+    entries = await readdir(join(cwd, dir));
+  } catch {
+    return testFiles;
+  }
+
+  for (const entry of entries.filter((name) => name.endsWith("_test.go")).sort()) {
+    const tests = await extractTestsFromFile(join(cwd, dir, entry), cwd);
+    for (const test of tests) {
+      const [testName] = (test.fullName ?? test.identifier).split(TEST_NAME_SEPARATOR);
+      if (!testFiles.has(testName)) {
+        testFiles.set(testName, relative(cwd, join(cwd, dir, entry)));
+      }
+    }
+  }
+
+  return testFiles;
+}
+
+export const goAdapter: TestFrameworkAdapter = {
+  name: "go",
+  defaultRunner: "go test",
+  resultFormat: "go-test-json",
+  language: "go",
+  defaultTestGlob: "**/*_test.go",
+  stdoutResults: true,
+
+  // go test takes packages, not files
+  fileArgs(file: string): string[] {
+    const dir = dirname(file);
+    return [dir === "." ? "." : `./${dir}`];
+  },
+
+  // -run matches each level of a "TestLogin/valid_input" name separately.
+  // A plain subtest name matches that subtest under any test.
+  nameFilterArgs(_pattern: string, identifier: string): string[] {
+    const parts = identifier.split(TEST_NAME_SEPARATOR).map((part) => `^${escapeRegExp(part)}$`);
+    if (parts.length === 1 && !/^Test($|[^a-z])/.test(identifier)) {
+      parts.unshift("");
+    }
+    return ["-run", parts.join("/")];
+  },
+
+  reporterArgs(): string[] {
+    return ["-json"];
+  },
+
+  allTestsArgs(): string[] {
+    return ["./..."];
+  },
+
+  // Events name the package import path - resolve it to the file declaring each test
+  async normalizeResults(results: TestResult[], cwd: string): Promise<TestResult[]> {
+    const modulePath = await readModulePath(cwd);
+    if (!modulePath) {
+      return results;
+    }
+
+    const packages = new Map<string, Map<string, string>>();
+    const normalized: TestResult[] = [];
+
+    for (const result of results) {
+      const inModule = result.file === modulePath || result.file.startsWith(`${modulePath}/`);
+      if (!inModule) {
+        normalized.push(result);
+        continue;
+      }
+
+      const dir = result.file.slice(modulePath.length + 1);
+      if (!packages.has(dir)) {
+        packages.set(dir, await findTestFiles(cwd, dir));
+      }
+
+      const [testName] = result.identifier.split(TEST_NAME_SEPARATOR);
+      normalized.push({ ...result, file: packages.get(dir)!.get(testName) ?? result.file });
+    }
+
+    return normalized;
+  },
+};
@@ -0,0 +1,126 @@
+/**
+ * Test framework adapter registry
+ *
+ * Each adapter knows how a test runner filters by file and test name, how to
+ * ask it for structured output, and which result parser reads that output.
+ * The adapter is selected by the `framework:` key in .requirements/config.yml.
+ * Test files in another language run with that language's framework instead.
+ */
+
+import type { Config, TestFramework, TestLanguage, TestResult } from "../types";
+import type { ResultFormat } from "../result-parsers";
+import { getParserForFile } from "../test-parsers";
+
+// Import all adapters
+import { bunAdapter } from "./bun";
+import { vitestAdapter } from "./vitest";
+import { jestAdapter } from "./jest";
+import { mochaAdapter } from "./mocha";
+import { nodeAdapter } from "./node";
+import { playwrightAdapter } from "./playwright";
+import { pytestAdapter } from "./pytest";
+import { goAdapter } from "./go";
+
+/**
+ * Interface for test framework adapters
+ */
+export interface TestFrameworkAdapter {
+  name: TestFramework;
+  defaultRunner: string; // Command used when config doesn't specify one
+  resultFormat: ResultFormat; // Format of the structured output requested by reporterArgs
+  language: TestLanguage; // Language of the test files the framework runs
+  defaultTestGlob: string; // Test file glob used when config doesn't specify one
+  stdoutResults?: boolean; // Structured results are written to stdout instead of outputFile
+  /** Arguments that restrict the run to a single test file */
+  fileArgs(file: string): string[];
+  /**
+   * Arguments that filter tests by name.
+   * pattern is the test's own name as an escaped regex; identifier is the
+   * link identifier as stored, which may be qualified ("describe > test").
+   */
+  nameFilterArgs(pattern: string, identifier: string): string[];
+  /** Arguments that make the runner write structured results to outputFile */
+  reporterArgs(outputFile: string): string[];
+  /** Environment variables needed by the reporter (optional) */
+  reporterEnv?(outputFile: string): Record<string, string>;
+  /** Arguments that select every test when no file is given (optional) */
+  allTestsArgs?(): string[];
+  /** Post-process parsed results, e.g. to normalize identifiers or files (optional) */
+  normalizeResults?(results: TestResult[], cwd: string): TestResult[] | Promise<TestResult[]>;
+}
+
+/**
+ * Registry of all available adapters
+ */
+export const adapters: Record<TestFramework, TestFrameworkAdapter> = {
+  bun: bunAdapter,
+  vitest: vitestAdapter,
+  jest: jestAdapter,
+  mocha: mochaAdapter,
+  node: nodeAdapter,
+  playwright: playwrightAdapter,
+  pytest: pytestAdapter,
+  go: goAdapter,
+};
+
+export const DEFAULT_FRAMEWORK: TestFramework = "bun";
+
+export function isValidFramework(name: string): name is TestFramework {
+  return Object.prototype.hasOwnProperty.call(adapters, name);
+}
+
+/**
+ * Get the adapter for a framework name (defaults to Bun)
+ * @throws Error if the framework is unknown
+ */
+export function getFrameworkAdapter(name?: string): TestFrameworkAdapter {
+  const framework = name || DEFAULT_FRAMEWORK;
+  if (!isValidFramework(framework)) {
+    throw new Error(
+      `Unknown test framework "${framework}". Must be one of: ${Object.keys(adapters).join(", ")}`
+    );
+  }
+  return adapters[framework];
+}
+
+/**
+ * Pick the adapter and runner command for a run.
+ *
+ * The configured framework runs everything in its own language. A test file
+ * in another language (e.g. a .py file in a Bun project) runs with the
+ * framework for that language, using its runner from `testRunners` in the
+ * config or the framework's default runner.
+ */
+export function resolveFramework(
+  config: Config,
+  file?: string
+): { adapter: TestFrameworkAdapter; testRunner: string } {
+  const configured = getFrameworkAdapter(config.framework);
+  const language = file ? getParserForFile(file).name : configured.language;
+
+  if (language === configured.language) {
+    return { adapter: configured, testRunner: config.testRunner };
+  }
+
+  // Prefer a framework the config has a runner for, then the first one for the language
+  const candidates = Object.values(adapters).filter((adapter) => adapter.language === language);
+  const adapter =
+    candidates.find((candidate) => config.testRunners?.[candidate.name]) ?? candidates[0];
+
+  return {
+    adapter,
+    testRunner: config.testRunners?.[adapter.name] ?? adapter.defaultRunner,
+  };
+}
+
+// Re-export individual adapters for direct use
+export {
+  bunAdapter,
+  vitestAdapter,
+  jestAdapter,
+  mochaAdapter,
+  nodeAdapter,
+  playwrightAdapter,
+  pytestAdapter,
+  goAdapter,
+};
@@ -0,0 +1,26 @@
+/**
+ * Jest adapter - uses Jest's built-in JSON output (no extra reporter package needed)
+ */
+
+import type { TestFrameworkAdapter } from "./index";
+
+export const jestAdapter: TestFrameworkAdapter = {
+  name: "jest",
+  defaultRunner: "npx jest",
+  resultFormat: "bun-json", // Jest JSON format (testResults/assertionResults)
+  language: "typescript",
+  defaultTestGlob: "**/*.test.{ts,js}",
+
+  // Jest treats positional args as regexes - match the path exactly instead
+  fileArgs(file: string): string[] {
+    return ["--runTestsByPath", file];
+  },
+
+  nameFilterArgs(pattern: string): string[] {
+    return ["--testNamePattern", pattern];
+  },
+
+  reporterArgs(outputFile: string): string[] {
+    return ["--json", `--outputFile=${outputFile}`];
+  },
+};
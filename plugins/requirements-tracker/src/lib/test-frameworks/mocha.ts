@@ -0,0 +1,25 @@
+/**
+ * Mocha adapter - uses Mocha's built-in xunit (JUnit-compatible) reporter
+ */
+
+import type { TestFrameworkAdapter } from "./index";
+
+export const mochaAdapter: TestFrameworkAdapter = {
+  name: "mocha",
+  defaultRunner: "npx mocha",
+  resultFormat: "junit-xml",
+  language: "typescript",
+  defaultTestGlob: "**/*.test.{ts,js}",
+
+  fileArgs(file: string): string[] {
+    return [file];
+  },
+
+  nameFilterArgs(pattern: string): string[] {
+    return ["--grep", pattern];
+  },
+
+  reporterArgs(outputFile: string): string[] {
+    return ["--reporter", "xunit", "--reporter-option", `output=${outputFile}`];
+  },
+};
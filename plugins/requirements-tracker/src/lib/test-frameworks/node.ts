@@ -0,0 +1,31 @@
+/**
+ * node:test adapter - spec output on stdout plus the built-in JUnit reporter
+ */
+
+import type { TestFrameworkAdapter } from "./index";
+
+export const nodeAdapter: TestFrameworkAdapter = {
+  name: "node",
+  defaultRunner: "node --test",
+  resultFormat: "junit-xml",
+  language: "typescript",
+  defaultTestGlob: "**/*.test.{ts,js}",
+
+  fileArgs(file: string): string[] {
+    return [file];
+  },
+
+  nameFilterArgs(pattern: string): string[] {
+    return ["--test-name-pattern", pattern];
+  },
+
+  // Each --test-reporter pairs with the --test-reporter-destination in the same position
+  reporterArgs(outputFile: string): string[] {
+    return [
+      "--test-reporter=spec",
+      "--test-reporter-destination=stdout",
+      "--test-reporter=junit",
+      `--test-reporter-destination=${outputFile}`,
+    ];
+  },
+};
@@ -0,0 +1,40 @@
+/**
+ * Playwright adapter - list output plus the built-in JUnit reporter
+ */
+
+import { TEST_NAME_SEPARATOR } from "../types";
+import type { TestResult } from "../types";
+import type { TestFrameworkAdapter } from "./index";
+
+export const playwrightAdapter: TestFrameworkAdapter = {
+  name: "playwright",
+  defaultRunner: "npx playwright test",
+  resultFormat: "junit-xml",
+  language: "typescript",
+  defaultTestGlob: "**/*.spec.{ts,js}",
+
+  fileArgs(file: string): string[] {
+    return [file];
+  },
+
+  nameFilterArgs(pattern: string): string[] {
+    return ["--grep", pattern];
+  },
+
+  reporterArgs(): string[] {
+    return ["--reporter=list,junit"];
+  },
+
+  // The JUnit reporter reads its output path from the environment
+  reporterEnv(outputFile: string): Record<string, string> {
+    return { PLAYWRIGHT_JUNIT_OUTPUT_FILE: outputFile };
+  },
+
+  // Playwright joins describe titles with " › " - use the tracker's separator
+  normalizeResults(results: TestResult[]): TestResult[] {
+    return results.map((result) => ({
+      ...result,
+      identifier: result.identifier.split(" › ").join(TEST_NAME_SEPARATOR),
+    }));
+  },
+};
@@ -0,0 +1,28 @@
+/**
+ * pytest adapter - uses pytest's built-in JUnit XML output
+ */
+
+import { testNameFromIdentifier } from "../test-parsers";
+import type { TestFrameworkAdapter } from "./index";
+
+export const pytestAdapter: TestFrameworkAdapter = {
+  name: "pytest",
+  defaultRunner: "pytest",
+  resultFormat: "junit-xml",
+  language: "python",
+  defaultTestGlob: "**/{test_*,*_test}.py",
+
+  fileArgs(file: string): string[] {
+    return [file];
+  },
+
+  // -k takes a keyword expression, not a regex - match the plain test name
+  nameFilterArgs(_pattern: string, identifier: string): string[] {
+    return ["-k", testNameFromIdentifier(identifier)];
+  },
+
+  // The xunit1 family puts the file on each testcase; its classname ends with the test class
+  reporterArgs(outputFile: string): string[] {
+    return [`--junitxml=${outputFile}`, "-o", "junit_family=xunit1"];
+  },
+};
@@ -0,0 +1,26 @@
+/**
+ * Vitest adapter - keeps the default console reporter and adds JUnit output
+ */
+
+import type { TestFrameworkAdapter } from "./index";
+
+export const vitestAdapter: TestFrameworkAdapter = {
+  name: "vitest",
+  defaultRunner: "npx vitest run",
+  resultFormat: "junit-xml",
+  language: "typescript",
+  defaultTestGlob: "**/*.test.{ts,js}",
+
+  fileArgs(file: string): string[] {
+    return [file];
+  },
+
+  nameFilterArgs(pattern: string): string[] {
+    return ["--testNamePattern", pattern];
+  },
+
+  // Vitest names JUnit test cases "describe > test", matching qualified identifiers
+  reporterArgs(outputFile: string): string[] {
+    return ["--reporter=default", "--reporter=junit", `--outputFile.junit=${outputFile}`];
+  },
+};
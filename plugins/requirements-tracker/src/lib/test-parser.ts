@@ -7,7 +7,7 @@ import { glob } from "glob";
 import { createHash } from "crypto";
 import { join, relative } from "path";
 import { ExtractedTest } from "./types";
-import { extractTestsFromContent } from "./test-parsers";
+import { extractTestsFromContent, testNameFromIdentifier } from "./test-parsers";
 
 /**
  * Compute SHA-256 hash of content
@@ -19,6 +19,10 @@ export function computeHash(content: string): string {
 /**
  * Extract the body of a function starting at a given position
  * Handles nested braces properly
+ *
+ * This was the original brace-counting extractor. Test bodies now come from
+ * the TypeScript AST; this is kept to compute legacy hashes so links created
+ * before the switch can be migrated without losing their assessment.
  */
 export function extractFunctionBody(content: string, startPos: number): string {
   let braceCount = 0;
@@ -103,6 +107,8 @@ export async function extractAllTests(
 
 /**
  * Find a specific test by file and identifier
+ * The identifier is the test's fully qualified name, or the plain name of a
+ * nested test (first match), as in links made before names were qualified.
  */
 export async function findTest(
   cwd: string,
@@ -113,7 +119,11 @@ export async function findTest(
 
   try {
     const tests = await extractTestsFromFile(fullPath, cwd);
-    return tests.find((t) => t.identifier === identifier) || null;
+    return (
+      tests.find((t) => t.identifier === identifier) ||
+      tests.find((t) => testNameFromIdentifier(t.identifier) === identifier) ||
+      null
+    );
   } catch {
     return null;
   }
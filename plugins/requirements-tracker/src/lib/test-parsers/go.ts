@@ -0,0 +1,222 @@
+/**
+ * Go parser - finds `func TestXxx(t *testing.T)` functions and their `t.Run` subtests
+ *
+ * Subtests are nested under their parent test (`TestLogin > valid_input`) and
+ * named the way `go test` reports them, with spaces replaced by underscores.
+ */
+
+import { TestParser, TestMatch } from "./index";
+
+interface Token {
+  kind: "ident" | "string" | "number" | "punct";
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Tokenize Go source, dropping whitespace and comments
+ */
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (content.startsWith("//", i)) {
+      const end = content.indexOf("\n", i);
+      i = end === -1 ? content.length : end;
+      continue;
+    }
+    if (content.startsWith("/*", i)) {
+      const end = content.indexOf("*/", i + 2);
+      i = end === -1 ? content.length : end + 2;
+      continue;
+    }
+
+    // Interpreted strings and runes (backslash escapes), raw strings (none)
+    if (char === '"' || char === "'" || char === "`") {
+      i++;
+      while (i < content.length && content[i] !== char) {
+        if (char !== "`" && content[i] === "\\") i++;
+        if (char !== "`" && content[i] === "\n") break;
+        i++;
+      }
+      i++;
+      tokens.push({ kind: "string", text: content.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (/[A-Za-z_\u0080-\uffff]/.test(char)) {
+      while (i < content.length && /[\w\u0080-\uffff]/.test(content[i])) i++;
+      tokens.push({ kind: "ident", text: content.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === "." && /\d/.test(content[i + 1] ?? ""))) {
+      while (i < content.length && /[\w.]/.test(content[i])) i++;
+      tokens.push({ kind: "number", text: content.slice(start, i), start, end: i });
+      continue;
+    }
+
+    tokens.push({ kind: "punct", text: char, start, end: i + 1 });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the index of the bracket closing the one at openIndex
+ */
+function findClosing(tokens: Token[], openIndex: number): number {
+  const open = tokens[openIndex].text;
+  const close = open === "(" ? ")" : open === "{" ? "}" : "]";
+  let depth = 0;
+
+  for (let i = openIndex; i < tokens.length; i++) {
+    if (tokens[i].kind !== "punct") continue;
+    if (tokens[i].text === open) depth++;
+    if (tokens[i].text === close && --depth === 0) return i;
+  }
+
+  return tokens.length - 1;
+}
+
+/**
+ * Find the parameter of type *testing.T in a parameter list, returning its name
+ */
+function findTestingParam(tokens: Token[], open: number, close: number): string | null {
+  for (let i = open + 1; i + 3 < close; i++) {
+    if (
+      tokens[i].kind === "ident" &&
+      tokens[i + 1].text === "*" &&
+      tokens[i + 2].text === "testing" &&
+      tokens[i + 3].text === "." &&
+      tokens[i + 4]?.text === "T"
+    ) {
+      return tokens[i].text;
+    }
+  }
+  return null;
+}
+
+/**
+ * Value of a Go string literal
+ */
+function stringValue(literal: string): string {
+  const inner = literal.slice(1, -1);
+  if (literal.startsWith("`")) {
+    return inner;
+  }
+  const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", '"': '"' };
+  return inner.replace(/\\(.)/g, (escape, char: string) => escapes[char] ?? escape);
+}
+
+/**
+ * Subtest name as reported by `go test` (whitespace becomes underscores)
+ */
+function subtestName(literal: string): string {
+  return stringValue(literal).replace(/[\s\u0085]/g, "_");
+}
+
+export const goParser: TestParser = {
+  name: "go",
+  extensions: [".go"],
+
+  findMatches(content: string): TestMatch[] {
+    const tokens = tokenize(content);
+    const matches: TestMatch[] = [];
+
+    const lineOf = (offset: number) => content.slice(0, offset).split("\n").length;
+
+    const addMatch = (
+      name: string,
+      describePath: string[],
+      start: number,
+      end: number,
+      bodyOpen: number,
+      bodyClose: number
+    ) => {
+      matches.push({
+        name,
+        describePath,
+        body: content.slice(tokens[bodyOpen].start, tokens[bodyClose].end),
+        normalizedBody: tokens
+          .slice(bodyOpen, bodyClose + 1)
+          .map((token) => token.text)
+          .join(" "),
+        range: { start, end, startLine: lineOf(start), endLine: lineOf(end) },
+      });
+    };
+
+    // t.Run("name", func(t *testing.T) { ... }) calls between from and to
+    const findSubtests = (from: number, to: number, param: string, path: string[]) => {
+      for (let i = from; i < to; i++) {
+        const isRun =
+          tokens[i].text === param &&
+          tokens[i + 1]?.text === "." &&
+          tokens[i + 2]?.text === "Run" &&
+          tokens[i + 3]?.text === "(" &&
+          tokens[i + 4]?.kind === "string" &&
+          tokens[i + 5]?.text === "," &&
+          tokens[i + 6]?.text === "func" &&
+          tokens[i + 7]?.text === "(";
+        if (!isRun) continue;
+
+        const paramsClose = findClosing(tokens, i + 7);
+        const innerParam = findTestingParam(tokens, i + 7, paramsClose);
+        const bodyOpen = paramsClose + 1;
+        if (!innerParam || tokens[bodyOpen]?.text !== "{") continue;
+
+        const bodyClose = findClosing(tokens, bodyOpen);
+        const callClose = findClosing(tokens, i + 3);
+        const name = subtestName(tokens[i + 4].text);
+
+        addMatch(name, path, tokens[i].start, tokens[callClose].end, bodyOpen, bodyClose);
+        findSubtests(bodyOpen + 1, bodyClose, innerParam, [...path, name]);
+        i = callClose;
+      }
+    };
+
+    // Top-level functions only - skip over every brace block
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].kind === "punct" && tokens[i].text === "{") {
+        i = findClosing(tokens, i);
+        continue;
+      }
+
+      // func TestXxx(t *testing.T) { - methods have a receiver in parentheses instead of a name
+      if (
+        tokens[i].text !== "func" ||
+        tokens[i + 1]?.kind !== "ident" ||
+        tokens[i + 2]?.text !== "("
+      ) {
+        continue;
+      }
+
+      const name = tokens[i + 1].text;
+      const paramsClose = findClosing(tokens, i + 2);
+      const param = findTestingParam(tokens, i + 2, paramsClose);
+      const bodyOpen = paramsClose + 1;
+      if (!/^Test($|[^a-z])/.test(name) || !param || tokens[bodyOpen]?.text !== "{") {
+        continue;
+      }
+
+      const bodyClose = findClosing(tokens, bodyOpen);
+      addMatch(name, [], tokens[i].start, tokens[bodyClose].end, bodyOpen, bodyClose);
+      findSubtests(bodyOpen + 1, bodyClose, param, [name]);
+      i = bodyClose;
+    }
+
+    return matches;
+  },
+};
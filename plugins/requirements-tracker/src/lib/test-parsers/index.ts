@@ -2,52 +2,79 @@
  * Test parser registry and extraction logic
  */
 
-import { ExtractedTest } from "../types";
-import { computeHash, extractFunctionBody } from "../test-parser";
+import { extname } from "path";
+import { ExtractedTest, SourceRange, TEST_NAME_SEPARATOR, type TestLanguage } from "../types";
+import { computeHash } from "../test-parser";
 
 // Import all parsers
-import { standardParser } from "./standard";
-import { modifiersParser } from "./modifiers";
-import { eachParser } from "./each";
-import { templateParser } from "./template";
+import { typescriptParser } from "./typescript";
+import { pythonParser } from "./python";
+import { goParser } from "./go";
 
 /**
- * Represents a test match found by a parser
+ * Represents a test found by a parser
  */
 export interface TestMatch {
-  identifier: string; // The test name/identifier
-  startPosition: number; // Position in content to start extracting function body
+  name: string; // The test's own name
+  describePath: string[]; // Enclosing describe/suite names, outermost first
+  body: string; // Source text of the test body
+  normalizedBody: string; // Body with whitespace and comments removed, used for hashing
+  legacyBody?: string; // Body as extracted by the pre-AST parser (for link migration)
+  range: SourceRange; // Location of the test in the file
 }
 
 /**
- * Interface for test pattern parsers
+ * Interface for test parsers
  */
 export interface TestParser {
-  name: string; // Parser name for debugging
+  name: TestLanguage; // Language the parser handles
+  extensions: string[]; // File extensions (lowercase, with dot) the parser is picked for
   /**
-   * Find all test matches in the content.
-   * Returns array of matches with identifier and start position for body extraction.
+   * Find all tests in the content.
+   * Returns array of matches with their describe path, body and source range.
    */
-  findMatches(content: string): TestMatch[];
+  findMatches(content: string, filePath: string): TestMatch[];
 }
 
 /**
  * Registry of all available parsers
- * Order matters: earlier parsers have priority in deduplication
  */
-export const parsers: TestParser[] = [
-  standardParser, // Standard patterns first (most common)
-  modifiersParser, // Modifiers (.only, .skip)
-  eachParser, // Parametrized tests
-  templateParser, // Template literals (already handled by standard, but separate for clarity)
-];
+export const parsers: TestParser[] = [typescriptParser, pythonParser, goParser];
 
 /**
- * Extract all tests from file content using all registered parsers.
- * Deduplicates by identifier (first match wins).
+ * Pick the parser for a test file by its extension.
+ * Unknown extensions use the TypeScript parser, which also reads JavaScript.
+ */
+export function getParserForFile(filePath: string): TestParser {
+  const extension = extname(filePath).toLowerCase();
+  return parsers.find((parser) => parser.extensions.includes(extension)) ?? typescriptParser;
+}
+
+/**
+ * Build the fully qualified name of a test, e.g. "auth > login > validates credentials"
+ */
+export function qualifyTestName(describePath: string[], name: string): string {
+  return [...describePath, name].join(TEST_NAME_SEPARATOR);
+}
+
+/**
+ * Get the test's own name from an identifier that may be fully qualified
+ */
+export function testNameFromIdentifier(identifier: string): string {
+  const parts = identifier.split(TEST_NAME_SEPARATOR);
+  return parts[parts.length - 1];
+}
+
+/**
+ * Extract all tests from file content.
+ *
+ * Tests are deduplicated by fully qualified name (first match wins). The
+ * identifier is always the fully qualified name, so adding a same-named test
+ * elsewhere in the file doesn't change it. Links that still name a nested test
+ * by its plain name are resolved by indexTestsByLinkKey.
  *
  * @param content - The file content to parse
- * @param filePath - Absolute path to the file (for debugging)
+ * @param filePath - Absolute path to the file (used to pick the parser)
  * @param relativePath - Relative path to use in ExtractedTest results
  * @returns Array of extracted tests with hashes
  */
@@ -57,36 +84,48 @@ export function extractTestsFromContent(
   relativePath: string
 ): ExtractedTest[] {
   const tests: ExtractedTest[] = [];
-  const seenIdentifiers = new Set<string>();
+  const seenFullNames = new Set<string>();
 
-  // Run all parsers
-  for (const parser of parsers) {
-    const matches = parser.findMatches(content);
-
-    for (const match of matches) {
-      // Skip if we've already seen this identifier (deduplication)
-      // This handles cases like it.only('foo') and it('foo') - first match wins
-      if (seenIdentifiers.has(match.identifier)) {
-        continue;
-      }
-
-      // Mark as seen
-      seenIdentifiers.add(match.identifier);
+  for (const match of getParserForFile(filePath).findMatches(content, filePath)) {
+    const fullName = qualifyTestName(match.describePath, match.name);
+    // Same name in the same describe block - first match wins
+    if (seenFullNames.has(fullName)) {
+      continue;
+    }
+    seenFullNames.add(fullName);
 
-      // Extract function body starting from the position after the test name
-      const body = extractFunctionBody(content, match.startPosition);
+    tests.push({
+      file: relativePath,
+      identifier: fullName,
+      body: match.body,
+      hash: computeHash(match.normalizedBody),
+      fullName,
+      range: match.range,
+      legacyHash:
+        match.legacyBody !== undefined ? computeHash(match.legacyBody) : undefined,
+    });
+  }
 
-      // Compute hash of the function body
-      const hash = computeHash(body);
+  return tests;
+}
 
-      tests.push({
-        file: relativePath,
-        identifier: match.identifier,
-        body,
-        hash,
-      });
+/**
+ * Index tests by "file:identifier" for resolving test links.
+ *
+ * Links made before identifiers were always fully qualified name a nested
+ * test by its plain name. Plain names are indexed too, pointing to the first
+ * test of that name in the file, unless a test's identifier is that name.
+ */
+export function indexTestsByLinkKey(tests: ExtractedTest[]): Map<string, ExtractedTest> {
+  const index = new Map<string, ExtractedTest>();
+  for (const test of tests) {
+    index.set(`${test.file}:${test.identifier}`, test);
+  }
+  for (const test of tests) {
+    const key = `${test.file}:${testNameFromIdentifier(test.identifier)}`;
+    if (!index.has(key)) {
+      index.set(key, test);
     }
   }
-
-  return tests;
+  return index;
 }
@@ -0,0 +1,613 @@
+/**
+ * Python parser - finds pytest tests by indentation
+ *
+ * Collects the same tests pytest does with its default settings:
+ * - Module-level `def test_*()` / `async def test_*()` functions
+ * - `test_*` methods of `Test*` classes (nested classes included)
+ * - One test per case for `@pytest.mark.parametrize`, named like pytest's
+ *   node ids (`test_add[1-2]`), when the parameters are literals
+ */
+
+import { TestParser, TestMatch } from "./index";
+
+/**
+ * A logical line of Python code (physical lines joined inside brackets,
+ * after a trailing backslash, or inside a triple-quoted string)
+ */
+interface LogicalLine {
+  codeStart: number; // Offset of the first code character
+  end: number; // Offset after the last code character (trailing comment excluded)
+  indent: number; // Column of the first code character
+  code: string; // Code without comments, whitespace outside strings collapsed
+  colon?: number; // Offset of the first ":" outside brackets (ends a def/class header)
+}
+
+interface Scope {
+  kind: "class" | "def" | "other";
+  name: string;
+  indent: number;
+  decorators: string[];
+}
+
+/**
+ * Find the end of a string literal starting at a quote character
+ */
+function skipString(content: string, start: number): number {
+  const quote = content[start];
+  const delimiter = content.startsWith(quote.repeat(3), start) ? quote.repeat(3) : quote;
+  let i = start + delimiter.length;
+
+  while (i < content.length) {
+    if (content[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (content.startsWith(delimiter, i)) {
+      return i + delimiter.length;
+    }
+    // Unterminated single-quoted string ends at the line break
+    if (delimiter.length === 1 && content[i] === "\n") {
+      return i;
+    }
+    i++;
+  }
+
+  return content.length;
+}
+
+/**
+ * Split Python source into logical lines, skipping blank and comment-only lines
+ */
+function scanLogicalLines(content: string): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    // Measure indentation (tabs advance to the next multiple of 8, like Python)
+    let indent = 0;
+    while (content[i] === " " || content[i] === "\t") {
+      indent = content[i] === "\t" ? indent + 8 - (indent % 8) : indent + 1;
+      i++;
+    }
+
+    if (i >= content.length) {
+      break;
+    }
+
+    // Blank or comment-only line
+    if (content[i] === "\n" || content[i] === "\r" || content[i] === "#") {
+      while (i < content.length && content[i] !== "\n") i++;
+      i++;
+      continue;
+    }
+
+    const line: LogicalLine = { codeStart: i, end: i, indent, code: "" };
+    let depth = 0;
+    let pendingSpace = false;
+
+    const append = (text: string, end: number) => {
+      if (pendingSpace && line.code) {
+        line.code += " ";
+      }
+      line.code += text;
+      line.end = end;
+      pendingSpace = false;
+    };
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (char === "#") {
+        while (i < content.length && content[i] !== "\n") i++;
+        continue;
+      }
+      if (char === "\\" && (content[i + 1] === "\n" || content[i + 1] === "\r")) {
+        i = content.indexOf("\n", i) + 1 || content.length;
+        pendingSpace = true;
+        continue;
+      }
+      if (char === "\n") {
+        if (depth === 0) break;
+        pendingSpace = true;
+        i++;
+        continue;
+      }
+      if (char === " " || char === "\t" || char === "\r") {
+        pendingSpace = true;
+        i++;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        const end = skipString(content, i);
+        append(content.slice(i, end), end);
+        i = end;
+        continue;
+      }
+
+      // Words, including string prefixes (r"", f"") attached to their string
+      if (/\w/.test(char)) {
+        let end = i;
+        while (end < content.length && /\w/.test(content[end])) end++;
+        if (/^[rbuf]{1,2}$/i.test(content.slice(i, end)) && /["']/.test(content[end] ?? "")) {
+          end = skipString(content, end);
+        }
+        append(content.slice(i, end), end);
+        i = end;
+        continue;
+      }
+
+      if (char === "(" || char === "[" || char === "{") {
+        depth++;
+      } else if (char === ")" || char === "]" || char === "}") {
+        depth = Math.max(0, depth - 1);
+      } else if (char === ":" && depth === 0 && line.colon === undefined) {
+        line.colon = i;
+      }
+      append(char, i + 1);
+      i++;
+    }
+
+    lines.push(line);
+    i++;
+  }
+
+  return lines;
+}
+
+/**
+ * Normalize a block of Python code: comments and blank lines removed,
+ * whitespace collapsed, indentation kept relative to the first line
+ */
+function normalizeBlock(text: string): string {
+  const lines = scanLogicalLines(text);
+  if (lines.length === 0) {
+    return "";
+  }
+  const baseIndent = Math.min(...lines.map((line) => line.indent));
+  return lines.map((line) => " ".repeat(line.indent - baseIndent) + line.code).join("\n");
+}
+
+// --- Parametrize ids -------------------------------------------------------
+
+type PyValue =
+  | { kind: "str"; value: string }
+  | { kind: "num"; text: string }
+  | { kind: "name"; name: string }
+  | { kind: "seq"; items: PyValue[] } // List or tuple
+  | { kind: "call"; callee: string; args: PyValue[]; kwargs: Record<string, PyValue> }
+  | { kind: "other" }; // Anything that can't be evaluated statically
+
+const TOKEN_PATTERN =
+  /\s*(?:([rRbBuUfF]{0,2})("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*')|(0[xXoObB][\da-fA-F_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?[jJ]?)|([A-Za-z_]\w*(?:\s*\.\s*[A-Za-z_]\w*)*)|(\*\*|->|[^\s]))/y;
+
+interface Token {
+  type: "str" | "num" | "name" | "punct";
+  text: string;
+  prefix?: string;
+}
+
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while (TOKEN_PATTERN.lastIndex < code.length && (match = TOKEN_PATTERN.exec(code))) {
+    if (match[2] !== undefined) {
+      tokens.push({ type: "str", text: match[2], prefix: match[1].toLowerCase() });
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: "num", text: match[3] });
+    } else if (match[4] !== undefined) {
+      tokens.push({ type: "name", text: match[4].replace(/\s+/g, "") });
+    } else if (match[5] !== undefined) {
+      tokens.push({ type: "punct", text: match[5] });
+    }
+  }
+
+  return tokens;
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"' };
+
+function stringValue(token: Token): string | null {
+  // f-strings depend on runtime values
+  if (token.prefix?.includes("f")) {
+    return null;
+  }
+  const quoteLength = token.text.startsWith('"""') || token.text.startsWith("'''") ? 3 : 1;
+  const raw = token.text.slice(quoteLength, -quoteLength);
+  if (token.prefix?.includes("r")) {
+    return raw;
+  }
+  return raw.replace(/\\(.)/g, (escape, char: string) => ESCAPES[char] ?? escape);
+}
+
+/**
+ * Minimal recursive-descent reader for the literals used in parametrize calls
+ */
+class ExpressionReader {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isPunct(text: string): boolean {
+    const token = this.peek();
+    return token?.type === "punct" && token.text === text;
+  }
+
+  private isClosing(): boolean {
+    const token = this.peek();
+    return !token || (token.type === "punct" && [")", "]", "}", ","].includes(token.text));
+  }
+
+  /** Skip the rest of an expression up to the next "," or closing bracket */
+  private skipExpression(): void {
+    let depth = 0;
+    while (this.peek()) {
+      const token = this.peek()!;
+      if (token.type === "punct") {
+        if ("([{".includes(token.text)) depth++;
+        if (")]}".includes(token.text)) {
+          if (depth === 0) return;
+          depth--;
+        }
+        if (token.text === "," && depth === 0) return;
+      }
+      this.pos++;
+    }
+  }
+
+  /** Read comma-separated items up to a closing bracket (consumed) */
+  readItems(closing: string): { args: PyValue[]; kwargs: Record<string, PyValue> } {
+    const args: PyValue[] = [];
+    const kwargs: Record<string, PyValue> = {};
+
+    while (this.peek() && !this.isPunct(closing)) {
+      const before = this.pos;
+      const token = this.peek()!;
+      const next = this.tokens[this.pos + 1];
+      if (token.type === "name" && next?.type === "punct" && next.text === "=") {
+        this.pos += 2;
+        kwargs[token.text] = this.readExpression();
+      } else {
+        args.push(this.readExpression());
+      }
+      if (this.isPunct(",")) {
+        this.pos++;
+      } else if (!this.isPunct(closing)) {
+        this.skipExpression();
+      }
+      // Unbalanced brackets - step over the stray token
+      if (this.pos === before) {
+        this.pos++;
+      }
+    }
+
+    this.pos++; // Closing bracket
+    return { args, kwargs };
+  }
+
+  readExpression(): PyValue {
+    const value = this.readPrimary();
+    // Operators, subscripts or attribute access make the value dynamic
+    if (!this.isClosing()) {
+      this.skipExpression();
+      return { kind: "other" };
+    }
+    return value;
+  }
+
+  private readPrimary(): PyValue {
+    const token = this.peek();
+    if (!token) {
+      return { kind: "other" };
+    }
+    this.pos++;
+
+    if (token.type === "str") {
+      let value = stringValue(token);
+      // Implicit concatenation: "a" "b"
+      while (this.peek()?.type === "str") {
+        const next = stringValue(this.peek()!);
+        value = value !== null && next !== null ? value + next : null;
+        this.pos++;
+      }
+      return value !== null ? { kind: "str", value } : { kind: "other" };
+    }
+
+    if (token.type === "num") {
+      return { kind: "num", text: token.text };
+    }
+
+    if (token.type === "punct" && token.text === "-" && this.peek()?.type === "num") {
+      const number = this.tokens[this.pos++];
+      return { kind: "num", text: `-${number.text}` };
+    }
+
+    if (token.type === "name") {
+      if (this.isPunct("(")) {
+        this.pos++;
+        const { args, kwargs } = this.readItems(")");
+        return { kind: "call", callee: token.text, args, kwargs };
+      }
+      return { kind: "name", name: token.text };
+    }
+
+    if (token.type === "punct" && (token.text === "[" || token.text === "(")) {
+      const closing = token.text === "[" ? "]" : ")";
+      const { args, kwargs } = this.readItems(closing);
+      if (Object.keys(kwargs).length > 0) {
+        return { kind: "other" };
+      }
+      // "(x)" is a parenthesized expression, "(x,)" is a tuple
+      const isTuple = closing === "]" || args.length !== 1 || this.tokens[this.pos - 2]?.text === ",";
+      if (!isTuple) {
+        return args[0];
+      }
+      return { kind: "seq", items: args };
+    }
+
+    this.pos--;
+    this.skipExpression();
+    return { kind: "other" };
+  }
+}
+
+/**
+ * Format a number the way Python's str() does for the common cases
+ */
+function formatNumber(text: string): string | null {
+  const cleaned = text.replace(/_/g, "");
+  if (/[jJ]$/.test(cleaned)) {
+    return null;
+  }
+  const value = Number(cleaned);
+  if (Number.isNaN(value)) {
+    return null;
+  }
+  const isFloat = /^-?\d*\.|^-?\d+[eE]/.test(cleaned) && !/^-?0[xXoObB]/.test(cleaned);
+  return isFloat && Number.isInteger(value) ? `${value}.0` : String(value);
+}
+
+/**
+ * Id for one parameter value, following pytest's _idval
+ */
+function idForValue(value: PyValue, argname: string, index: number): string {
+  switch (value.kind) {
+    case "str":
+      return value.value;
+    case "num":
+      return formatNumber(value.text) ?? `${argname}${index}`;
+    case "name":
+      if (["True", "False", "None"].includes(value.name)) {
+        return value.name;
+      }
+      return `${argname}${index}`;
+    default:
+      return `${argname}${index}`;
+  }
+}
+
+/**
+ * Make duplicate ids unique the way pytest does (a0, a1 / a1_0, a1_1)
+ */
+function disambiguateIds(ids: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const id of ids) {
+    counts.set(id, (counts.get(id) || 0) + 1);
+  }
+
+  const suffixes = new Map<string, number>();
+  return ids.map((id) => {
+    if ((counts.get(id) || 0) <= 1) {
+      return id;
+    }
+    const suffix = suffixes.get(id) || 0;
+    suffixes.set(id, suffix + 1);
+    return `${id}${/\d$/.test(id) ? "_" : ""}${suffix}`;
+  });
+}
+
+const PARAMETRIZE_PATTERN = /^@(?:pytest\s*\.\s*)?mark\s*\.\s*parametrize\s*\(/;
+
+/**
+ * Compute the case ids of a @pytest.mark.parametrize decorator.
+ * Returns null when they depend on values only known at runtime.
+ */
+export function parametrizeIds(decorator: string): string[] | null {
+  const match = PARAMETRIZE_PATTERN.exec(decorator);
+  if (!match) {
+    return null;
+  }
+
+  const reader = new ExpressionReader(tokenize(decorator.slice(match[0].length)));
+  const { args, kwargs } = reader.readItems(")");
+
+  const argnamesValue = args[0] ?? kwargs.argnames;
+  const argvalues = args[1] ?? kwargs.argvalues;
+  const ids = kwargs.ids;
+
+  let argnames: string[];
+  if (argnamesValue?.kind === "str") {
+    argnames = argnamesValue.value
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+  } else if (
+    argnamesValue?.kind === "seq" &&
+    argnamesValue.items.every((item) => item.kind === "str")
+  ) {
+    argnames = argnamesValue.items.map((item) => (item as { value: string }).value);
+  } else {
+    return null;
+  }
+
+  if (argvalues?.kind !== "seq" || argvalues.items.length === 0) {
+    return null;
+  }
+  if (ids && ids.kind !== "seq") {
+    return null;
+  }
+
+  const result: string[] = [];
+  for (const [index, item] of argvalues.items.entries()) {
+    let values: PyValue[];
+    let explicitId: string | undefined;
+
+    if (item.kind === "call" && /^(pytest\.)?param$/.test(item.callee)) {
+      values = item.args;
+      const id = item.kwargs.id;
+      if (id?.kind === "str") {
+        explicitId = id.value;
+      }
+    } else if (argnames.length === 1) {
+      values = [item];
+    } else if (item.kind === "seq") {
+      values = item.items;
+    } else {
+      return null;
+    }
+
+    const listedId = ids?.kind === "seq" ? ids.items[index] : undefined;
+    if (listedId?.kind === "str") {
+      explicitId ??= listedId.value;
+    } else if (listedId && !(listedId.kind === "name" && listedId.name === "None")) {
+      return null;
+    }
+
+    result.push(
+      explicitId ??
+        argnames.map((argname, k) => idForValue(values[k] ?? { kind: "other" }, argname, index)).join("-")
+    );
+  }
+
+  return disambiguateIds(result);
+}
+
+/**
+ * Expand a test into one name per parametrize case.
+ * Decorator lists are ordered as pytest applies them (closest to the function first).
+ */
+function expandParametrize(name: string, decorators: string[]): string[] {
+  const idLists: string[][] = [];
+
+  for (const decorator of decorators) {
+    if (!PARAMETRIZE_PATTERN.test(decorator)) {
+      continue;
+    }
+    const ids = parametrizeIds(decorator);
+    if (!ids) {
+      // Runtime-dependent parameters - link the test function as a whole
+      return [name];
+    }
+    idLists.push(ids);
+  }
+
+  if (idLists.length === 0) {
+    return [name];
+  }
+
+  let cases: string[][] = [[]];
+  for (const ids of idLists) {
+    cases = cases.flatMap((prefix) => ids.map((id) => [...prefix, id]));
+  }
+  return cases.map((parts) => `${name}[${parts.join("-")}]`);
+}
+
+export const pythonParser: TestParser = {
+  name: "python",
+  extensions: [".py"],
+
+  findMatches(content: string): TestMatch[] {
+    const lines = scanLogicalLines(content);
+    const matches: TestMatch[] = [];
+    const scopes: Scope[] = [];
+    let decorators: LogicalLine[] = [];
+
+    for (const [index, line] of lines.entries()) {
+      while (scopes.length > 0 && scopes[scopes.length - 1].indent >= line.indent) {
+        scopes.pop();
+      }
+
+      if (line.code.startsWith("@")) {
+        decorators.push(line);
+        continue;
+      }
+
+      const definition = /^(?:async )?(def|class) (\w+)/.exec(line.code);
+      const lineDecorators = decorators;
+      decorators = [];
+
+      if (!definition || line.colon === undefined) {
+        scopes.push({ kind: "other", name: "", indent: line.indent, decorators: [] });
+        continue;
+      }
+
+      const [, keyword, name] = definition;
+      // Decorators are applied bottom-up, so the closest one comes first
+      const ownDecorators = lineDecorators.map((decorator) => decorator.code).reverse();
+
+      if (keyword === "class") {
+        scopes.push({ kind: "class", name, indent: line.indent, decorators: ownDecorators });
+        continue;
+      }
+
+      const isCollected =
+        name.startsWith("test") &&
+        scopes.every((scope) => scope.kind !== "def") &&
+        scopes
+          .filter((scope) => scope.kind === "class")
+          .every((scope) => scope.name.startsWith("Test"));
+      scopes.push({ kind: "def", name, indent: line.indent, decorators: ownDecorators });
+
+      if (!isCollected) {
+        continue;
+      }
+
+      // The block runs until the next line indented at or left of the def
+      let blockEnd = line.end;
+      for (let next = index + 1; next < lines.length && lines[next].indent > line.indent; next++) {
+        blockEnd = lines[next].end;
+      }
+
+      // One-line functions keep their body after the colon, others start on the next line
+      const oneLine = line.end > line.colon + 1;
+      const bodyStart = oneLine ? line.colon + 1 : content.indexOf("\n", line.end) + 1;
+      const body =
+        bodyStart > 0 && bodyStart < blockEnd ? content.slice(bodyStart, blockEnd) : "";
+      const normalizedBody = normalizeBlock(body);
+      const classes = scopes.filter((scope) => scope.kind === "class");
+      const start = lineDecorators[0]?.codeStart ?? line.codeStart;
+      const range = {
+        start,
+        end: blockEnd,
+        startLine: content.slice(0, start).split("\n").length,
+        endLine: content.slice(0, blockEnd).split("\n").length,
+      };
+
+      // Marks on enclosing classes apply after the function's own, closest class first
+      const allDecorators = [
+        ...ownDecorators,
+        ...classes
+          .slice()
+          .reverse()
+          .flatMap((scope) => scope.decorators),
+      ];
+
+      for (const caseName of expandParametrize(name, allDecorators)) {
+        matches.push({
+          name: caseName,
+          describePath: classes.map((scope) => scope.name),
+          body: oneLine ? body.trim() : body,
+          normalizedBody,
+          range,
+        });
+      }
+    }
+
+    return matches;
+  },
+};
@@ -0,0 +1,212 @@
+/**
+ * TypeScript/JavaScript parser - finds tests using the TypeScript compiler API
+ */
+
+import ts from "typescript";
+import { extname } from "path";
+import { extractFunctionBody } from "../test-parser";
+import { TestParser, TestMatch } from "./index";
+
+// Functions that declare a single test
+const TEST_FUNCTIONS = new Set(["it", "test"]);
+
+// Functions that group tests (describe blocks)
+const SUITE_FUNCTIONS = new Set(["describe", "suite", "context"]);
+
+// Modifiers used directly as callee: it.only('name', fn), test.skip('name', fn)
+const MODIFIERS = new Set([
+  "only",
+  "skip",
+  "todo",
+  "concurrent",
+  "failing",
+  "fails",
+  "serial",
+  "sequential",
+  "shuffle",
+]);
+
+// Modifiers that return a test function: it.each(table)('name', fn), test.skipIf(cond)('name', fn)
+const CURRIED_MODIFIERS = new Set(["each", "for", "if", "skipIf", "runIf", "todoIf"]);
+
+type CalleeKind = "test" | "suite";
+
+/**
+ * Pick a script kind from the file extension so JSX is parsed correctly
+ */
+function getScriptKind(filePath: string): ts.ScriptKind {
+  switch (extname(filePath).toLowerCase()) {
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    case ".js":
+    case ".mjs":
+    case ".cjs":
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * Classify a call expression's callee as a test, a suite, or neither.
+ * Handles Bun.test(), modifier chains (test.describe.only) and curried
+ * forms (it.each([...])(...), test.each`table`(...)).
+ */
+function classifyCallee(expr: ts.Expression): CalleeKind | null {
+  if (ts.isIdentifier(expr)) {
+    if (TEST_FUNCTIONS.has(expr.text)) return "test";
+    if (SUITE_FUNCTIONS.has(expr.text)) return "suite";
+    return null;
+  }
+
+  if (ts.isCallExpression(expr) || ts.isTaggedTemplateExpression(expr)) {
+    const inner = ts.isCallExpression(expr) ? expr.expression : expr.tag;
+    if (ts.isPropertyAccessExpression(inner) && CURRIED_MODIFIERS.has(inner.name.text)) {
+      return classifyCallee(inner.expression);
+    }
+    return null;
+  }
+
+  if (ts.isPropertyAccessExpression(expr)) {
+    const name = expr.name.text;
+
+    // Bun.test(), Bun.describe()
+    if (ts.isIdentifier(expr.expression) && expr.expression.text === "Bun") {
+      return ts.isIdentifier(expr.name) ? classifyCallee(expr.name) : null;
+    }
+
+    if (MODIFIERS.has(name)) {
+      return classifyCallee(expr.expression);
+    }
+
+    // Playwright-style test.describe()
+    if (SUITE_FUNCTIONS.has(name) && classifyCallee(expr.expression) === "test") {
+      return "suite";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get a test or suite name from the first argument.
+ * Template expressions keep their raw `${...}` text, matching the test source.
+ */
+function getName(arg: ts.Expression, sourceFile: ts.SourceFile): string | null {
+  if (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg)) {
+    return arg.text;
+  }
+  if (ts.isTemplateExpression(arg)) {
+    return arg.getText(sourceFile).slice(1, -1);
+  }
+  return null;
+}
+
+/**
+ * Find the callback passed to a test or suite (may follow an options object)
+ */
+function getCallback(
+  args: ts.NodeArray<ts.Expression>
+): ts.ArrowFunction | ts.FunctionExpression | null {
+  for (const arg of args.slice(1)) {
+    if (ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) {
+      return arg;
+    }
+  }
+  return null;
+}
+
+/**
+ * Produce a whitespace- and comment-insensitive representation of a node.
+ * Joins the text of every token, so reformatting does not change the result.
+ */
+export function normalizeNode(node: ts.Node, sourceFile: ts.SourceFile): string {
+  const tokens: string[] = [];
+
+  const visit = (current: ts.Node) => {
+    // JSDoc comments are attached to nodes as children - skip them
+    if (
+      current.kind >= ts.SyntaxKind.FirstJSDocNode &&
+      current.kind <= ts.SyntaxKind.LastJSDocNode
+    ) {
+      return;
+    }
+
+    const children = current.getChildren(sourceFile);
+    if (children.length === 0) {
+      let text = current.getText(sourceFile);
+      if (current.kind === ts.SyntaxKind.JsxText) {
+        text = text.trim().replace(/\s+/g, " ");
+      }
+      if (text) {
+        tokens.push(text);
+      }
+      return;
+    }
+
+    for (const child of children) {
+      visit(child);
+    }
+  };
+
+  visit(node);
+  return tokens.join(" ");
+}
+
+export const typescriptParser: TestParser = {
+  name: "typescript",
+  extensions: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+
+  findMatches(content: string, filePath: string): TestMatch[] {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      getScriptKind(filePath)
+    );
+    const matches: TestMatch[] = [];
+
+    const visit = (node: ts.Node, describePath: string[]) => {
+      if (ts.isCallExpression(node) && node.arguments.length > 0) {
+        const kind = classifyCallee(node.expression);
+        const name = kind ? getName(node.arguments[0], sourceFile) : null;
+        const callback = name !== null ? getCallback(node.arguments) : null;
+
+        if (kind && name !== null && callback) {
+          if (kind === "suite") {
+            ts.forEachChild(callback.body, (child) =>
+              visit(child, [...describePath, name])
+            );
+            return;
+          }
+
+          const start = node.getStart(sourceFile);
+          const end = node.getEnd();
+          matches.push({
+            name,
+            describePath,
+            body: callback.body.getText(sourceFile),
+            normalizedBody: normalizeNode(callback.body, sourceFile),
+            legacyBody: extractFunctionBody(content, node.arguments[0].getEnd()),
+            range: {
+              start,
+              end,
+              startLine: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+              endLine: sourceFile.getLineAndCharacterOfPosition(end).line + 1,
+            },
+          });
+          // Tests are not nested inside other tests
+          return;
+        }
+      }
+
+      ts.forEachChild(node, (child) => visit(child, describePath));
+    };
+
+    visit(sourceFile, []);
+    return matches;
+  },
+};
@@ -3,17 +3,26 @@
  */
 
 import { spawn } from "node:child_process";
-import { readFile } from "node:fs/promises";
-import { join } from "node:path";
+import { readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { isAbsolute, join, relative } from "node:path";
 import { loadConfig } from "./store";
-import { junitXml } from "./result-parsers";
-import { REQUIREMENTS_DIR, TEST_RESULTS_FILE } from "./types";
+import { parseResults } from "./result-parsers";
+import {
+  loadTestResults,
+  matchResultToTestLink,
+  mergeSingleTestResults,
+  saveTestResults,
+} from "./result-store";
+import { recordTestRun } from "./history";
+import { resolveFramework, type TestFrameworkAdapter } from "./test-frameworks";
+import { TEST_NAME_SEPARATOR } from "./types";
 import type { TestResult, TestRunSummary } from "./types";
 
 export interface RunTestOptions {
   cwd: string;
   file?: string; // Optional file path filter
-  identifier?: string; // Optional test name filter (uses --test-name-pattern)
+  identifier?: string; // Optional test name filter (passed to the framework's name filter)
 }
 
 export interface TestRunResult {
@@ -25,62 +34,101 @@ export interface TestRunResult {
 }
 
 /**
- * Build the test command with appropriate flags
+ * Escape a string for use as a literal in a regex name filter
  */
-function buildCommand(
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build the test command with the framework adapter's flags
+ */
+export function buildCommand(
   testRunner: string,
-  options: { file?: string; identifier?: string; junitOutfile?: string }
-): string[] {
+  adapter: TestFrameworkAdapter,
+  options: { file?: string; identifier?: string; outputFile: string }
+): { command: string[]; env: Record<string, string> } {
   // Parse the base test runner command
   const parts = testRunner.split(/\s+/);
 
-  // Add JUnit reporter for structured output (Bun requires outfile)
-  if (options.junitOutfile) {
-    parts.push("--reporter=junit", "--reporter-outfile", options.junitOutfile);
+  // "npm test" needs "--" to forward flags to the underlying runner
+  if (parts[0] === "npm" && !parts.includes("--")) {
+    parts.push("--");
   }
 
-  // Add file filter if specified
-  if (options.file) {
-    parts.push(options.file);
-  }
+  // Request structured output
+  parts.push(...adapter.reporterArgs(options.outputFile));
 
-  // Add name filter if specified (Bun uses --test-name-pattern or -t)
+  // Add name filter if specified
+  // Runners match the describe and test names joined by spaces, so a
+  // qualified identifier selects only that test, not others of the same name
   if (options.identifier) {
-    parts.push("--test-name-pattern", options.identifier);
+    const fullName = options.identifier.split(TEST_NAME_SEPARATOR).join(" ");
+    parts.push(...adapter.nameFilterArgs(escapeRegExp(fullName), options.identifier));
+  }
+
+  // Add file filter last (some runners treat everything after a file as files)
+  if (options.file) {
+    parts.push(...adapter.fileArgs(options.file));
+  } else if (adapter.allTestsArgs) {
+    parts.push(...adapter.allTestsArgs());
   }
 
-  return parts;
+  return {
+    command: parts,
+    env: adapter.reporterEnv?.(options.outputFile) ?? {},
+  };
 }
 
 /**
- * Run tests and return results
- *
- * @param options - Test run configuration
- * @param streamOutput - If true, streams output to console in real-time
+ * Parse the adapter's structured output into results with cwd-relative paths
  */
-export async function runTests(
-  options: RunTestOptions,
-  streamOutput = false
-): Promise<TestRunResult> {
-  const { cwd, file, identifier } = options;
+async function readResults(
+  cwd: string,
+  adapter: TestFrameworkAdapter,
+  content: string
+): Promise<{ results: TestResult[]; summary: TestRunSummary }> {
+  const parsed = parseResults(content, adapter.resultFormat);
+  const normalized = adapter.normalizeResults
+    ? await adapter.normalizeResults(parsed.results, cwd)
+    : parsed.results;
+  const results = normalized.map((result) => ({
+    ...result,
+    file: isAbsolute(result.file) ? relative(cwd, result.file) : result.file,
+  }));
 
-  // Load config to get test runner
-  const config = await loadConfig(cwd);
-  if (!config) {
-    throw new Error("Not initialized. Run 'req init' first.");
-  }
+  return { results, summary: parsed.summary };
+}
+
+interface ExecutionResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  parsed: { results: TestResult[]; summary: TestRunSummary } | null; // null if no structured output
+}
 
-  // Write JUnit output directly to .requirements/test-results.xml
-  // This file is watched by the server and can be committed to git
-  const junitOutfile = join(cwd, REQUIREMENTS_DIR, TEST_RESULTS_FILE);
+/**
+ * Spawn one framework's runner and parse its structured output
+ */
+async function execute(
+  cwd: string,
+  adapter: TestFrameworkAdapter,
+  testRunner: string,
+  filter: { file?: string; identifier?: string },
+  streamOutput: boolean
+): Promise<ExecutionResult> {
+  // The runner writes its native format to a temporary file (or stdout)
+  const extension = adapter.resultFormat === "junit-xml" ? "xml" : "json";
+  const outputFile = join(tmpdir(), `req-results-${process.pid}-${Date.now()}.${extension}`);
 
   // Build command
-  const command = buildCommand(config.testRunner, { file, identifier, junitOutfile });
+  const { command, env } = buildCommand(testRunner, adapter, { ...filter, outputFile });
 
   // Execute test runner using Node's child_process.spawn
   const [cmd, ...args] = command;
   const proc = spawn(cmd, args, {
     cwd,
+    env: { ...process.env, ...env },
     stdio: ["pipe", "pipe", "pipe"],
   });
 
@@ -88,11 +136,11 @@ export async function runTests(
   let stdout = "";
   let stderr = "";
 
-  // Read stdout
+  // Read stdout (not echoed when it carries the structured results)
   proc.stdout?.on("data", (data: Buffer) => {
     const text = data.toString();
     stdout += text;
-    if (streamOutput) {
+    if (streamOutput && !adapter.stdoutResults) {
       process.stdout.write(text);
     }
   });
@@ -108,42 +156,75 @@ export async function runTests(
 
   // Wait for process to exit
   const exitCode = await new Promise<number>((resolve) => {
+    proc.on("error", () => resolve(1));
     proc.on("close", (code) => resolve(code ?? 1));
   });
 
-  // Parse JUnit XML output from file for return value
-  let results: TestResult[] = [];
-  let summary: TestRunSummary = {
+  // Try to read and parse the structured output
+  let parsed: ExecutionResult["parsed"] = null;
+  try {
+    const content = adapter.stdoutResults ? stdout : await readFile(outputFile, "utf-8");
+    parsed = await readResults(cwd, adapter, content);
+  } catch {
+    // If we can't read the output, fall back to exit code based result
+  } finally {
+    await rm(outputFile, { force: true });
+  }
+
+  return { exitCode, stdout, stderr, parsed };
+}
+
+/**
+ * Build the run result, falling back to the exit code without structured output
+ */
+function toRunResult(
+  exitCode: number,
+  stdout: string,
+  stderr: string,
+  parsed: ExecutionResult["parsed"]
+): TestRunResult {
+  const results = parsed?.results ?? [];
+  let summary: TestRunSummary = parsed?.summary ?? {
     total: 0,
     passed: 0,
     failed: 0,
     skipped: 0,
   };
 
-  // Try to read and parse JUnit XML from the output file
-  try {
-    const junitContent = await readFile(junitOutfile, "utf-8");
-    if (junitXml.canParse(junitContent)) {
-      const parsed = junitXml.parse(junitContent);
-      results = parsed.results;
-      summary = parsed.summary;
-    }
-  } catch {
-    // If we can't read the file, fall back to exit code based result
-  }
-
-  // If no JUnit output, create a minimal result based on exit code
+  // If no structured output, create a minimal result based on exit code
   if (results.length === 0 && exitCode !== 0) {
     summary = { total: 1, passed: 0, failed: 1, skipped: 0 };
   }
 
-  return {
-    exitCode,
-    stdout,
-    stderr,
-    results,
-    summary,
-  };
+  return { exitCode, stdout, stderr, results, summary };
+}
+
+/**
+ * Run tests and return results
+ *
+ * @param options - Test run configuration
+ * @param streamOutput - If true, streams output to console in real-time
+ */
+export async function runTests(
+  options: RunTestOptions,
+  streamOutput = false
+): Promise<TestRunResult> {
+  const { cwd, file, identifier } = options;
+
+  // Load config to get test runner and framework
+  const config = await loadConfig(cwd);
+  if (!config) {
+    throw new Error("Not initialized. Run 'req init' first.");
+  }
+  const { adapter, testRunner } = resolveFramework(config, file);
+
+  const run = await execute(cwd, adapter, testRunner, { file, identifier }, streamOutput);
+  if (run.parsed) {
+    await saveTestResults(cwd, run.parsed.results);
+    await recordTestRun(cwd, run.parsed.results, "req run");
+  }
+
+  return toRunResult(run.exitCode, run.stdout, run.stderr, run.parsed);
 }
 
 /**
@@ -166,23 +247,120 @@ export async function runMultipleTests(
     };
   }
 
-  // Get unique files
-  const uniqueFiles = [...new Set(tests.map((t) => t.file))];
-
-  // If all tests are in one file, run with file filter only (faster)
-  // Otherwise run all tests and let the results be filtered by the caller
-  if (uniqueFiles.length === 1) {
-    // All tests in same file - run just that file
-    return runTests(
-      {
-        cwd,
-        file: uniqueFiles[0],
-      },
-      streamOutput
-    );
+  const config = await loadConfig(cwd);
+  if (!config) {
+    throw new Error("Not initialized. Run 'req init' first.");
+  }
+
+  // Group files by framework - tests in other languages run with their own runner
+  const groups = new Map<
+    string,
+    { adapter: TestFrameworkAdapter; testRunner: string; files: Set<string> }
+  >();
+  for (const test of tests) {
+    const { adapter, testRunner } = resolveFramework(config, test.file);
+    if (!groups.has(adapter.name)) {
+      groups.set(adapter.name, { adapter, testRunner, files: new Set() });
+    }
+    groups.get(adapter.name)!.files.add(test.file);
+  }
+
+  let exitCode = 0;
+  let stdout = "";
+  let stderr = "";
+  const parsedRuns: NonNullable<ExecutionResult["parsed"]>[] = [];
+
+  for (const { adapter, testRunner, files } of groups.values()) {
+    // If all tests are in one file, run with file filter only (faster)
+    // Otherwise run all tests and let the results be filtered by the caller
+    const file = files.size === 1 ? [...files][0] : undefined;
+    const run = await execute(cwd, adapter, testRunner, { file }, streamOutput);
+
+    exitCode = exitCode || run.exitCode;
+    stdout += run.stdout;
+    stderr += run.stderr;
+    if (run.parsed) {
+      parsedRuns.push(run.parsed);
+    }
+  }
+
+  // Combine the frameworks' results
+  const parsed =
+    parsedRuns.length > 0
+      ? {
+          results: parsedRuns.flatMap((run) => run.results),
+          summary: {
+            total: parsedRuns.reduce((sum, run) => sum + run.summary.total, 0),
+            passed: parsedRuns.reduce((sum, run) => sum + run.summary.passed, 0),
+            failed: parsedRuns.reduce((sum, run) => sum + run.summary.failed, 0),
+            skipped: parsedRuns.reduce((sum, run) => sum + run.summary.skipped, 0),
+          },
+        }
+      : null;
+
+  if (parsed) {
+    await saveTestResults(cwd, parsed.results);
+    await recordTestRun(cwd, parsed.results, "req run");
+  }
+
+  return toRunResult(exitCode, stdout, stderr, parsed);
+}
+
+/**
+ * Run each test on its own with a file and name filter, e.g. only the linked
+ * tests a change affects. Only the requested tests' results are kept, and they
+ * replace the earlier results of the same tests.
+ */
+export async function runEachTest(
+  cwd: string,
+  tests: Array<{ file: string; identifier: string }>,
+  streamOutput = false
+): Promise<TestRunResult> {
+  const config = await loadConfig(cwd);
+  if (!config) {
+    throw new Error("Not initialized. Run 'req init' first.");
+  }
+
+  let exitCode = 0;
+  let stdout = "";
+  let stderr = "";
+  let structured = false;
+  const results: TestResult[] = [];
+
+  for (const test of tests) {
+    const { adapter, testRunner } = resolveFramework(config, test.file);
+    const run = await execute(cwd, adapter, testRunner, test, streamOutput);
+
+    exitCode = exitCode || run.exitCode;
+    stdout += run.stdout;
+    stderr += run.stderr;
+    if (run.parsed) {
+      structured = true;
+      // Tests outside the name filter may be reported as skipped
+      const match = matchResultToTestLink({ ...test, hash: "" }, run.parsed.results);
+      if (match) {
+        results.push(match);
+      }
+    }
+  }
+
+  const parsed = structured
+    ? {
+        results,
+        summary: {
+          total: results.length,
+          passed: results.filter((r) => r.status === "passed").length,
+          failed: results.filter((r) => r.status === "failed" || r.status === "error").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+        },
+      }
+    : null;
+
+  if (results.length > 0) {
+    const previousResults = (await loadTestResults(cwd))?.results ?? [];
+    await saveTestResults(cwd, mergeSingleTestResults(previousResults, results));
+    await recordTestRun(cwd, results, "req run");
   }
 
-  // Multiple files - run all tests
-  // The results will include all tests but the UI will show only linked ones
-  return runTests({ cwd }, streamOutput);
+  return toRunResult(exitCode, stdout, stderr, parsed);
 }
@@ -0,0 +1,312 @@
+/**
+ * Traceability matrix - requirements mapped to their sources, scenarios,
+ * tests, latest results and AI verification state
+ *
+ * Output is deterministic (no timestamps of its own, stable ordering) so an
+ * exported matrix can be committed and diffed.
+ */
+
+import { getTestLinkResult } from "./result-store";
+import { getAllTestLinks } from "./store";
+import {
+  CRITERIA_KEYS,
+  CRITERIA_LABELS,
+  type CheckResult,
+  type CheckSummary,
+  type CriterionResult,
+  type ParsedRequirement,
+  type Source,
+  type TestResult,
+  type TestResultStatus,
+  type VerificationCriteria,
+  type VerificationStatus,
+} from "./types";
+
+export type ExportFormat = "html" | "csv" | "md";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["html", "csv", "md"];
+
+// Latest result of a linked test ("not run" when no result matches)
+export type TraceabilityResult = TestResultStatus | "not run";
+
+export interface TraceabilityTest {
+  file: string;
+  identifier: string;
+  result: TraceabilityResult;
+}
+
+export interface TraceabilityRow {
+  id: string; // Requirement path, e.g. "auth/REQ_login.yml"
+  status: string;
+  priority: string; // "" when unset
+  gherkin: string;
+  sources: string[]; // Main source first, then scenario sources
+  scenarios: string[];
+  tests: TraceabilityTest[];
+  lastResult: TraceabilityResult | ""; // Combined result of the linked tests, "" without tests
+  verification: VerificationStatus;
+  sufficient: boolean | null; // null if no assessment
+  criteria: Record<keyof VerificationCriteria, CriterionResult | "">;
+  assessedAt: string; // "" if no assessment
+}
+
+export interface TraceabilityGroup {
+  path: string; // RequirementGroupCheckResult.path, e.g. "auth/" or "(root)"
+  rows: TraceabilityRow[];
+}
+
+export interface TraceabilityMatrix {
+  groups: TraceabilityGroup[];
+  summary: CheckSummary;
+}
+
+function formatSource(source: Source): string {
+  return source.url
+    ? `${source.type}: ${source.description} (${source.url})`
+    : `${source.type}: ${source.description}`;
+}
+
+/**
+ * Combine linked test results: any failure wins, then tests that didn't run,
+ * then skipped tests
+ */
+function combineResults(results: TraceabilityResult[]): TraceabilityResult | "" {
+  if (results.length === 0) return "";
+  if (results.some((r) => r === "failed" || r === "error")) return "failed";
+  if (results.includes("not run")) return "not run";
+  if (results.includes("skipped")) return "skipped";
+  return "passed";
+}
+
+/**
+ * Build the matrix from a check result and the requirements it was computed from
+ */
+export function buildTraceabilityMatrix(
+  checkResult: CheckResult,
+  requirements: ParsedRequirement[],
+  testResults: TestResult[]
+): TraceabilityMatrix {
+  const requirementsByPath = new Map(requirements.map((req) => [req.path, req]));
+
+  const groups = checkResult.requirements.map((group) => ({
+    path: group.path,
+    rows: group.requirements.flatMap((checked) => {
+      const req = requirementsByPath.get(checked.id);
+      if (!req) return [];
+
+      const { data } = req;
+      const assessment = data.aiAssessment;
+
+      const sources = [formatSource(data.mainSource)];
+      for (const scenario of data.scenarios || []) {
+        if (scenario.source && !sources.includes(formatSource(scenario.source))) {
+          sources.push(formatSource(scenario.source));
+        }
+      }
+
+      const tests = getAllTestLinks(data).map((link) => ({
+        file: link.file,
+        identifier: link.identifier,
+        result: getTestLinkResult(link, testResults) ?? ("not run" as const),
+      }));
+
+      const criteria = {} as TraceabilityRow["criteria"];
+      for (const key of CRITERIA_KEYS) {
+        criteria[key] = assessment?.criteria?.[key]?.result ?? "";
+      }
+
+      return [
+        {
+          id: checked.id,
+          status: checked.status,
+          priority: checked.priority ?? "",
+          gherkin: data.gherkin,
+          sources,
+          scenarios: (data.scenarios || []).map((scenario) =>
+            scenario.suggested ? `${scenario.name} (suggested)` : scenario.name
+          ),
+          tests,
+          lastResult: combineResults(tests.map((test) => test.result)),
+          verification: checked.verification,
+          sufficient: checked.coverageSufficient,
+          criteria,
+          assessedAt: assessment?.assessedAt ?? "",
+        },
+      ];
+    }),
+  }));
+
+  return { groups, summary: checkResult.summary };
+}
+
+// Column headers shared by all formats
+const COLUMNS = [
+  "Requirement",
+  "Status",
+  "Priority",
+  "Gherkin",
+  "Sources",
+  "Scenarios",
+  "Tests",
+  "Last result",
+  "Verification",
+  "Coverage sufficient",
+  ...CRITERIA_KEYS.map((key) => CRITERIA_LABELS[key]),
+  "Assessed at",
+];
+
+/**
+ * Cell values of a row, multi-valued cells as lists
+ */
+function rowCells(row: TraceabilityRow): Array<string | string[]> {
+  return [
+    row.id,
+    row.status,
+    row.priority,
+    row.gherkin,
+    row.sources,
+    row.scenarios,
+    row.tests.map((test) => `${test.file}:${test.identifier} (${test.result})`),
+    row.lastResult,
+    row.verification,
+    row.sufficient === null ? "" : row.sufficient ? "yes" : "no",
+    ...CRITERIA_KEYS.map((key) => row.criteria[key]),
+    row.assessedAt,
+  ];
+}
+
+function formatSummary(summary: CheckSummary): string {
+  return (
+    `${summary.totalRequirements} requirements (${summary.done} done, ${summary.planned} planned): ` +
+    `${summary.verified} verified, ${summary.unverified} unverified, ${summary.stale} stale, ` +
+    `${summary.untested} untested`
+  );
+}
+
+/**
+ * CSV (RFC 4180) that spreadsheet apps open as-is: UTF-8 byte order mark,
+ * CRLF line endings, and cells that would be read as formulas prefixed with '
+ */
+export function formatCsv(matrix: TraceabilityMatrix): string {
+  const escapeCell = (value: string | string[]) => {
+    let text = Array.isArray(value) ? value.join("\n") : value;
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [["Group", ...COLUMNS].map(escapeCell).join(",")];
+  for (const group of matrix.groups) {
+    for (const row of group.rows) {
+      lines.push([group.path, ...rowCells(row)].map(escapeCell).join(","));
+    }
+  }
+
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Markdown with one table per group
+ */
+export function formatMarkdown(matrix: TraceabilityMatrix): string {
+  const escapeCell = (value: string | string[]) => {
+    const text = Array.isArray(value) ? value.join("\n") : value;
+    return text
+      .replace(/\\/g, "\\\\")
+      .replace(/\|/g, "\\|")
+      .replace(/</g, "&lt;")
+      .replace(/\r?\n/g, "<br>");
+  };
+
+  const lines = ["# Traceability Matrix", "", formatSummary(matrix.summary)];
+  for (const group of matrix.groups) {
+    lines.push("", `## ${group.path}`, "");
+    lines.push(`| ${COLUMNS.join(" | ")} |`);
+    lines.push(`|${COLUMNS.map(() => "---").join("|")}|`);
+    for (const row of group.rows) {
+      lines.push(`| ${rowCells(row).map(escapeCell).join(" | ")} |`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; font-size: 0.85rem; }
+th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+td.gherkin { white-space: pre-wrap; }
+ul { margin: 0; padding-left: 1rem; }
+.passed, .pass, .verified, .yes { color: #15803d; }
+.failed, .error, .fail, .stale, .no { color: #b91c1c; }
+.skipped, .not-run, .unverified { color: #a16207; }
+`.trim();
+
+/**
+ * Self-contained HTML document (inline styles, no scripts)
+ */
+export function formatHtml(matrix: TraceabilityMatrix): string {
+  const renderCell = (value: string | string[], index: number) => {
+    if (Array.isArray(value)) {
+      const items = value.map((item) => `<li>${escapeHtml(item)}</li>`).join("");
+      return `<td>${items ? `<ul>${items}</ul>` : ""}</td>`;
+    }
+    // Gherkin keeps its line breaks, status-like values get a class for color
+    if (COLUMNS[index] === "Gherkin") {
+      return `<td class="gherkin">${escapeHtml(value)}</td>`;
+    }
+    const className = value.replace(/\s+/g, "-");
+    return /^[a-z-]+$/.test(className)
+      ? `<td class="${className}">${escapeHtml(value)}</td>`
+      : `<td>${escapeHtml(value)}</td>`;
+  };
+
+  const lines = [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    "<title>Traceability Matrix</title>",
+    `<style>\n${HTML_STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    "<h1>Traceability Matrix</h1>",
+    `<p>${escapeHtml(formatSummary(matrix.summary))}</p>`,
+  ];
+
+  const header = `<tr>${COLUMNS.map((column) => `<th>${escapeHtml(column)}</th>`).join("")}</tr>`;
+  for (const group of matrix.groups) {
+    lines.push(`<h2>${escapeHtml(group.path)}</h2>`, "<table>", `<thead>${header}</thead>`, "<tbody>");
+    for (const row of group.rows) {
+      lines.push(`<tr>${rowCells(row).map(renderCell).join("")}</tr>`);
+    }
+    lines.push("</tbody>", "</table>");
+  }
+
+  lines.push("</body>", "</html>");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format the matrix in the given export format
+ */
+export function formatTraceabilityMatrix(matrix: TraceabilityMatrix, format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return formatCsv(matrix);
+    case "md":
+      return formatMarkdown(matrix);
+    case "html":
+      return formatHtml(matrix);
+  }
+}
@@ -0,0 +1,809 @@
+/**
+ * Terminal UI (req tui) - state, key handling and rendering
+ *
+ * Everything here is pure: handleKey turns a key into a new state and maybe
+ * an effect (run tests, apply a batch operation, edit a question) that the
+ * command carries out, and renderScreen turns the state into lines of text.
+ */
+
+import { getAllowedTransitions } from "./workflow";
+import { getTestLinkResult } from "./result-store";
+import { matchesQuery, parseQuery } from "./query";
+import { describeQuestion, isQuestionOverdue } from "./questions";
+import type { BatchOperation } from "./batch";
+import type {
+  CheckResult,
+  ExtractedTest,
+  ParsedRequirement,
+  Priority,
+  Requirement,
+  RequirementCheckResult,
+  TestLink,
+  TestResult,
+  TestResultStatus,
+  WorkflowConfig,
+} from "./types";
+
+export interface TuiData {
+  result: CheckResult;
+  requirements: ParsedRequirement[];
+  testResults: TestResult[];
+  workflow: WorkflowConfig;
+}
+
+export type TuiRow =
+  | { kind: "folder"; key: string; folder: string }
+  | { kind: "requirement"; key: string; path: string }
+  | { kind: "scenario"; key: string; path: string; scenario: string }
+  | { kind: "test"; key: string; path: string; scenario?: string; test: TestLink };
+
+export interface PickerItem {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+// What a picker or input does with its choice
+export type TuiPurpose =
+  | { kind: "link"; target: string } // "path" or "path#scenario"
+  | { kind: "unlink"; target: string }
+  | { kind: "status"; path: string }
+  | { kind: "priority"; path: string }
+  | { kind: "questions"; path: string }
+  | { kind: "answer"; path: string; index: number }
+  | { kind: "ask"; path: string };
+
+export type TuiMode =
+  | { type: "browse" }
+  | { type: "help" }
+  | { type: "filter"; value: string }
+  | { type: "picker"; title: string; items: PickerItem[]; query: string; cursor: number; purpose: TuiPurpose }
+  | { type: "input"; prompt: string; value: string; purpose: TuiPurpose };
+
+export interface TuiState {
+  cursor: number; // Index into the visible rows
+  scroll: number; // First visible row of the tree pane
+  expanded: Set<string>; // Keys of expanded requirement and scenario rows
+  collapsed: Set<string>; // Keys of collapsed folders
+  filter: string; // Query language expression (see req query)
+  mode: TuiMode;
+  message?: string; // Shown in the status line until the next key
+}
+
+export type TuiEffect =
+  | { type: "quit" }
+  | { type: "reload" }
+  | { type: "run"; label: string; tests: Array<{ file: string; identifier: string }> }
+  | { type: "batch"; description: string; operations: BatchOperation[] }
+  | { type: "question"; path: string; index?: number; question?: string; answer?: string };
+
+const PRIORITY_VALUES: Array<Priority | "none"> = ["critical", "high", "medium", "low", "none"];
+
+const STYLE = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  inverse: "\x1b[7m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+};
+
+const HELP_LINES = [
+  "Navigation",
+  "  up/down, j/k     Move",
+  "  pgup/pgdn, g/G   Page, top, bottom",
+  "  enter, right/l   Expand a requirement or scenario",
+  "  left/h           Collapse, or go to the parent",
+  "",
+  "Actions",
+  "  /                Filter with the query language, e.g. priority:high -has:tests",
+  "  r                Run the tests under the cursor",
+  "  n                Link an orphaned test",
+  "  u                Unlink a test",
+  "  s                Change status",
+  "  p                Change priority",
+  "  a                Ask or answer questions",
+  "  R                Reload",
+  "  ?                Toggle this help",
+  "  q, ctrl-c        Quit",
+];
+
+export function createTuiState(): TuiState {
+  return { cursor: 0, scroll: 0, expanded: new Set(), collapsed: new Set(), filter: "", mode: { type: "browse" } };
+}
+
+/**
+ * Split raw terminal input into key names: "up", "down", "left", "right",
+ * "pageup", "pagedown", "home", "end", "enter", "escape", "backspace",
+ * "tab", "ctrl-c", or the typed character
+ */
+export function decodeKeys(input: string): string[] {
+  const sequences: Record<string, string> = {
+    "\x1b[A": "up",
+    "\x1b[B": "down",
+    "\x1b[C": "right",
+    "\x1b[D": "left",
+    "\x1bOA": "up",
+    "\x1bOB": "down",
+    "\x1bOC": "right",
+    "\x1bOD": "left",
+    "\x1b[5~": "pageup",
+    "\x1b[6~": "pagedown",
+    "\x1b[H": "home",
+    "\x1b[F": "end",
+    "\x1b[1~": "home",
+    "\x1b[4~": "end",
+  };
+
+  const keys: string[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const sequence = Object.keys(sequences).find((seq) => input.startsWith(seq, i));
+    if (sequence) {
+      keys.push(sequences[sequence]);
+      i += sequence.length;
+      continue;
+    }
+    const char = input[i++];
+    if (char === "\x1b") {
+      // Unknown escape sequence: skip it, a lone escape is the key itself
+      const match = /^\[[0-9;]*[~A-Za-z]/.exec(input.slice(i));
+      if (match) i += match[0].length;
+      else keys.push("escape");
+    } else if (char === "\r" || char === "\n") keys.push("enter");
+    else if (char === "\x7f" || char === "\b") keys.push("backspace");
+    else if (char === "\t") keys.push("tab");
+    else if (char === "\x03") keys.push("ctrl-c");
+    else if (char >= " ") keys.push(char);
+  }
+  return keys;
+}
+
+function targetOf(path: string, scenario?: string): string {
+  return scenario !== undefined ? `${path}#${scenario}` : path;
+}
+
+function findRequirement(data: TuiData, path: string): ParsedRequirement | undefined {
+  return data.requirements.find((req) => req.path === path);
+}
+
+function checkOf(data: TuiData, path: string): RequirementCheckResult | undefined {
+  for (const group of data.result.requirements) {
+    const match = group.requirements.find((req) => req.id === path);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Rows of the tree pane: folders, their requirements (matching the filter)
+ * and, when expanded, scenarios and test links
+ */
+export function buildRows(data: TuiData, state: Pick<TuiState, "filter" | "expanded" | "collapsed">): TuiRow[] {
+  const parsed = parseQuery(state.filter);
+  const query = parsed.success ? parsed.query : { terms: [] };
+  const rows: TuiRow[] = [];
+
+  for (const group of data.result.requirements) {
+    const matching = group.requirements.filter((check) => {
+      const req = findRequirement(data, check.id);
+      return req && matchesQuery(query, { ...req.data, path: req.path, verification: check.verification });
+    });
+    if (matching.length === 0) continue;
+
+    const folderKey = `folder:${group.path}`;
+    rows.push({ kind: "folder", key: folderKey, folder: group.path });
+    if (state.collapsed.has(folderKey)) continue;
+
+    for (const check of matching) {
+      const req = findRequirement(data, check.id)!;
+      rows.push({ kind: "requirement", key: req.path, path: req.path });
+      if (!state.expanded.has(req.path)) continue;
+
+      for (const scenario of req.data.scenarios ?? []) {
+        const key = targetOf(req.path, scenario.name);
+        rows.push({ kind: "scenario", key, path: req.path, scenario: scenario.name });
+        if (!state.expanded.has(key)) continue;
+        for (const test of scenario.tests ?? []) {
+          rows.push({ kind: "test", key: `${key}:${test.file}:${test.identifier}`, path: req.path, scenario: scenario.name, test });
+        }
+      }
+      for (const test of req.data.tests) {
+        rows.push({ kind: "test", key: `${req.path}:${test.file}:${test.identifier}`, path: req.path, test });
+      }
+    }
+  }
+  return rows;
+}
+
+// Test links a row stands for (all of a requirement's, including its scenarios')
+function rowTests(data: TuiData, row: TuiRow): TestLink[] {
+  if (row.kind === "test") return [row.test];
+  if (row.kind === "folder") return [];
+  const req = findRequirement(data, row.path);
+  if (!req) return [];
+  if (row.kind === "scenario") {
+    return req.data.scenarios?.find((s) => s.name === row.scenario)?.tests ?? [];
+  }
+  return [...req.data.tests, ...(req.data.scenarios ?? []).flatMap((s) => s.tests ?? [])];
+}
+
+function picker(title: string, items: PickerItem[], purpose: TuiPurpose): TuiMode {
+  return { type: "picker", title, items, query: "", cursor: 0, purpose };
+}
+
+export function filterPickerItems(items: PickerItem[], query: string): PickerItem[] {
+  const needle = query.toLowerCase();
+  return items.filter((item) => `${item.label} ${item.hint ?? ""}`.toLowerCase().includes(needle));
+}
+
+function orphanItems(orphans: ExtractedTest[]): PickerItem[] {
+  return orphans.map((test) => ({ label: test.identifier, value: `${test.file}:${test.identifier}`, hint: test.file }));
+}
+
+// Open the picker or input an action key asks for
+function startAction(state: TuiState, key: string, row: TuiRow | undefined, data: TuiData): TuiState {
+  if (!row || row.kind === "folder") {
+    return { ...state, message: "Select a requirement first" };
+  }
+  const path = row.path;
+  const scenario = row.kind === "scenario" || row.kind === "test" ? row.scenario : undefined;
+  const req = findRequirement(data, path);
+  if (!req) return state;
+
+  switch (key) {
+    case "n": {
+      if (data.result.orphanedTests.length === 0) {
+        return { ...state, message: "No orphaned tests to link" };
+      }
+      const target = targetOf(path, scenario);
+      return { ...state, mode: picker(`Link a test to ${target}`, orphanItems(data.result.orphanedTests), { kind: "link", target }) };
+    }
+    case "u": {
+      const tests = scenario !== undefined ? rowTests(data, { kind: "scenario", key: "", path, scenario }) : req.data.tests;
+      if (tests.length === 0) {
+        return { ...state, message: `No tests linked to ${targetOf(path, scenario)}` };
+      }
+      const items = tests.map((test) => ({ label: test.identifier, value: `${test.file}:${test.identifier}`, hint: test.file }));
+      const mode = picker(`Unlink a test from ${targetOf(path, scenario)}`, items, { kind: "unlink", target: targetOf(path, scenario) });
+      // Preselect the test under the cursor
+      if (row.kind === "test" && mode.type === "picker") {
+        mode.cursor = Math.max(0, items.findIndex((item) => item.value === `${row.test.file}:${row.test.identifier}`));
+      }
+      return { ...state, mode };
+    }
+    case "s": {
+      const allowed = getAllowedTransitions(data.workflow, req.data.status);
+      if (allowed.length === 0) {
+        return { ...state, message: `${req.data.status} is a final state` };
+      }
+      const items = allowed.map((status) => ({ label: status, value: status }));
+      return { ...state, mode: picker(`Status of ${path} (${req.data.status})`, items, { kind: "status", path }) };
+    }
+    case "p": {
+      const items = PRIORITY_VALUES.map((priority) => ({ label: priority, value: priority }));
+      const mode = picker(`Priority of ${path}`, items, { kind: "priority", path });
+      if (mode.type === "picker") mode.cursor = Math.max(0, PRIORITY_VALUES.indexOf(req.data.priority ?? "none"));
+      return { ...state, mode };
+    }
+    case "a": {
+      const items: PickerItem[] = (req.data.questions ?? []).map((q, i) => ({
+        label: q.question,
+        value: String(i),
+        hint: q.answer ? `answered: ${q.answer}` : "unanswered",
+      }));
+      items.push({ label: "+ Ask a new question", value: "new" });
+      return { ...state, mode: picker(`Questions of ${path}`, items, { kind: "questions", path }) };
+    }
+  }
+  return state;
+}
+
+// Carry out the choice of a picker
+function choose(state: TuiState, purpose: TuiPurpose, value: string, data: TuiData): { state: TuiState; effect?: TuiEffect } {
+  const browse: TuiState = { ...state, mode: { type: "browse" } };
+  switch (purpose.kind) {
+    case "link":
+      return {
+        state: browse,
+        effect: { type: "batch", description: `Linked ${value}`, operations: [{ op: "link", target: purpose.target, test: value }] },
+      };
+    case "unlink":
+      return {
+        state: browse,
+        effect: { type: "batch", description: `Unlinked ${value}`, operations: [{ op: "unlink", target: purpose.target, test: value }] },
+      };
+    case "status":
+      return {
+        state: browse,
+        effect: {
+          type: "batch",
+          description: `${purpose.path}: status ${value}`,
+          operations: [{ op: "status", target: purpose.path, state: value }],
+        },
+      };
+    case "priority":
+      return {
+        state: browse,
+        effect: {
+          type: "batch",
+          description: `${purpose.path}: priority ${value}`,
+          operations: [{ op: "priority", target: purpose.path, priority: value }],
+        },
+      };
+    case "questions": {
+      if (value === "new") {
+        return { state: { ...state, mode: { type: "input", prompt: "Question", value: "", purpose: { kind: "ask", path: purpose.path } } } };
+      }
+      const index = Number(value);
+      const question = findRequirement(data, purpose.path)?.data.questions?.[index];
+      return {
+        state: {
+          ...state,
+          mode: {
+            type: "input",
+            prompt: `Answer "${question?.question ?? ""}"`,
+            value: question?.answer ?? "",
+            purpose: { kind: "answer", path: purpose.path, index },
+          },
+        },
+      };
+    }
+  }
+  return { state: browse };
+}
+
+// Keep the cursor row within the tree pane
+function scrolled(state: TuiState, height: number): TuiState {
+  let scroll = state.scroll;
+  if (state.cursor < scroll) scroll = state.cursor;
+  if (state.cursor >= scroll + height) scroll = state.cursor - height + 1;
+  return scroll === state.scroll ? state : { ...state, scroll: Math.max(0, scroll) };
+}
+
+/**
+ * Apply a key to the state
+ * @param pageSize - Rows in the tree pane, for paging and scrolling
+ */
+export function handleKey(
+  state: TuiState,
+  key: string,
+  data: TuiData,
+  pageSize = 20
+): { state: TuiState; effect?: TuiEffect } {
+  if (key === "ctrl-c") return { state, effect: { type: "quit" } };
+  state = state.message ? { ...state, message: undefined } : state;
+  const mode = state.mode;
+
+  if (mode.type === "help") {
+    return { state: { ...state, mode: { type: "browse" } } };
+  }
+
+  if (mode.type === "filter") {
+    if (key === "escape") return { state: { ...state, mode: { type: "browse" } } };
+    if (key === "enter") {
+      const parsed = parseQuery(mode.value);
+      if (!parsed.success) return { state: { ...state, message: `Invalid filter: ${parsed.error}` } };
+      return { state: { ...state, filter: mode.value.trim(), cursor: 0, scroll: 0, mode: { type: "browse" } } };
+    }
+    if (key === "backspace") return { state: { ...state, mode: { ...mode, value: mode.value.slice(0, -1) } } };
+    if (key.length === 1) return { state: { ...state, mode: { ...mode, value: mode.value + key } } };
+    return { state };
+  }
+
+  if (mode.type === "input") {
+    if (key === "escape") return { state: { ...state, mode: { type: "browse" } } };
+    if (key === "backspace") return { state: { ...state, mode: { ...mode, value: mode.value.slice(0, -1) } } };
+    if (key.length === 1) return { state: { ...state, mode: { ...mode, value: mode.value + key } } };
+    if (key !== "enter") return { state };
+
+    const value = mode.value.trim();
+    const browse: TuiState = { ...state, mode: { type: "browse" } };
+    if (mode.purpose.kind === "ask") {
+      if (!value) return { state: browse };
+      return { state: browse, effect: { type: "question", path: mode.purpose.path, question: value } };
+    }
+    if (mode.purpose.kind === "answer") {
+      return {
+        state: browse,
+        effect: { type: "question", path: mode.purpose.path, index: mode.purpose.index, answer: value },
+      };
+    }
+    return { state: browse };
+  }
+
+  if (mode.type === "picker") {
+    const items = filterPickerItems(mode.items, mode.query);
+    if (key === "escape") return { state: { ...state, mode: { type: "browse" } } };
+    if (key === "up") return { state: { ...state, mode: { ...mode, cursor: Math.max(0, mode.cursor - 1) } } };
+    if (key === "down") {
+      return { state: { ...state, mode: { ...mode, cursor: Math.min(items.length - 1, mode.cursor + 1) } } };
+    }
+    if (key === "backspace") return { state: { ...state, mode: { ...mode, query: mode.query.slice(0, -1), cursor: 0 } } };
+    if (key.length === 1) return { state: { ...state, mode: { ...mode, query: mode.query + key, cursor: 0 } } };
+    if (key === "enter") {
+      const item = items[mode.cursor];
+      if (!item) return { state };
+      return choose(state, mode.purpose, item.value, data);
+    }
+    return { state };
+  }
+
+  // Browse mode
+  const rows = buildRows(data, state);
+  const row = rows[state.cursor];
+  const move = (cursor: number) => ({
+    state: scrolled({ ...state, cursor: Math.max(0, Math.min(rows.length - 1, cursor)) }, pageSize),
+  });
+
+  switch (key) {
+    case "q":
+      return { state, effect: { type: "quit" } };
+    case "?":
+      return { state: { ...state, mode: { type: "help" } } };
+    case "/":
+      return { state: { ...state, mode: { type: "filter", value: state.filter } } };
+    case "escape":
+      return state.filter ? { state: { ...state, filter: "", cursor: 0, scroll: 0 } } : { state };
+    case "R":
+      return { state, effect: { type: "reload" } };
+    case "up":
+    case "k":
+      return move(state.cursor - 1);
+    case "down":
+    case "j":
+      return move(state.cursor + 1);
+    case "pageup":
+      return move(state.cursor - pageSize);
+    case "pagedown":
+      return move(state.cursor + pageSize);
+    case "home":
+    case "g":
+      return move(0);
+    case "end":
+    case "G":
+      return move(rows.length - 1);
+    case "enter":
+    case "right":
+    case "l": {
+      if (!row || row.kind === "test") return { state };
+      if (row.kind === "folder") {
+        const collapsed = new Set(state.collapsed);
+        if (key === "enter" && !collapsed.has(row.key)) collapsed.add(row.key);
+        else collapsed.delete(row.key);
+        return { state: { ...state, collapsed } };
+      }
+      const expanded = new Set(state.expanded);
+      if (key === "enter" && expanded.has(row.key)) expanded.delete(row.key);
+      else expanded.add(row.key);
+      return { state: { ...state, expanded } };
+    }
+    case "left":
+    case "h": {
+      if (!row) return { state };
+      if ((row.kind === "requirement" || row.kind === "scenario") && state.expanded.has(row.key)) {
+        const expanded = new Set(state.expanded);
+        expanded.delete(row.key);
+        return { state: { ...state, expanded } };
+      }
+      // Go to the parent row
+      const parentKey =
+        row.kind === "test" ? (row.scenario !== undefined ? targetOf(row.path, row.scenario) : row.path)
+        : row.kind === "scenario" ? row.path
+        : row.kind === "requirement" ? rows.slice(0, state.cursor).reverse().find((r) => r.kind === "folder")?.key
+        : undefined;
+      const parent = rows.findIndex((r) => r.key === parentKey);
+      return parent >= 0 ? move(parent) : { state };
+    }
+    case "r": {
+      if (!row || row.kind === "folder") return { state: { ...state, message: "Select a requirement, scenario or test" } };
+      const tests = rowTests(data, row);
+      if (tests.length === 0) return { state: { ...state, message: "No tests linked" } };
+      const label = row.kind === "test" ? `${row.test.file}:${row.test.identifier}` : targetOf(row.path, row.kind === "scenario" ? row.scenario : undefined);
+      return {
+        state: { ...state, message: `Running ${tests.length} test(s) for ${label}...` },
+        effect: { type: "run", label, tests: tests.map((t) => ({ file: t.file, identifier: t.identifier })) },
+      };
+    }
+    case "n":
+    case "u":
+    case "s":
+    case "p":
+    case "a":
+      return { state: startAction(state, key, row, data) };
+  }
+  return { state };
+}
+
+/**
+ * Put the cursor back on the row with this key after the rows changed
+ * (e.g. after a reload), or keep its index
+ */
+export function restoreCursor(state: TuiState, data: TuiData, key: string | undefined): TuiState {
+  const rows = buildRows(data, state);
+  const index = key ? rows.findIndex((row) => row.key === key) : -1;
+  const cursor = index >= 0 ? index : Math.min(state.cursor, Math.max(0, rows.length - 1));
+  return { ...state, cursor };
+}
+
+// Visible text helpers - lines are plain text until styled at the end
+
+function fit(text: string, width: number): string {
+  if (width <= 0) return "";
+  const flat = text.replace(/\s*\n\s*/g, " ");
+  return flat.length > width ? `${flat.slice(0, Math.max(0, width - 1))}…` : flat.padEnd(width);
+}
+
+function wrap(text: string, width: number, indent = ""): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = indent;
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line.trim() && line.length + word.length + 1 > width) {
+        lines.push(line);
+        line = indent;
+      }
+      line += line.trim() ? ` ${word}` : word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+interface StyledLine {
+  text: string;
+  style?: string;
+}
+
+function resultStyle(result: TestResultStatus | undefined): string | undefined {
+  if (result === "failed" || result === "error") return STYLE.red;
+  if (result === "passed") return STYLE.green;
+  return undefined;
+}
+
+// Status symbol of a requirement in the tree
+function requirementBadge(check: RequirementCheckResult | undefined): StyledLine {
+  if (!check) return { text: " " };
+  if (check.lastResult === "failed" || check.lastResult === "error") return { text: "✗", style: STYLE.red };
+  if (check.deprecated) return { text: "-", style: STYLE.dim };
+  if (!check.implemented) return { text: "·", style: STYLE.dim };
+  if (check.testCount === 0) return { text: "○", style: STYLE.yellow };
+  if (check.verification === "stale") return { text: "!", style: STYLE.yellow };
+  if (check.verification === "unverified") return { text: "?", style: STYLE.cyan };
+  return { text: "✓", style: STYLE.green };
+}
+
+function treeLine(row: TuiRow, data: TuiData, state: TuiState): { badge: StyledLine; text: string } {
+  switch (row.kind) {
+    case "folder": {
+      const marker = state.collapsed.has(row.key) ? "▸" : "▾";
+      return { badge: { text: " " }, text: `${marker} ${row.folder}` };
+    }
+    case "requirement": {
+      const req = findRequirement(data, row.path);
+      const hasChildren = !!req && (req.data.tests.length > 0 || (req.data.scenarios?.length ?? 0) > 0);
+      const marker = !hasChildren ? " " : state.expanded.has(row.key) ? "▾" : "▸";
+      const name = row.path.split("/").pop() ?? row.path;
+      const priority = req?.data.priority ? ` [${req.data.priority}]` : "";
+      return { badge: requirementBadge(checkOf(data, row.path)), text: `  ${marker} ${name}${priority}` };
+    }
+    case "scenario": {
+      const scenario = findRequirement(data, row.path)?.data.scenarios?.find((s) => s.name === row.scenario);
+      const marker = scenario?.tests?.length ? (state.expanded.has(row.key) ? "▾" : "▸") : " ";
+      const suggested = scenario?.suggested ? " (suggested)" : "";
+      return { badge: { text: " " }, text: `      ${marker} #${row.scenario}${suggested}` };
+    }
+    case "test": {
+      const result = getTestLinkResult(row.test, data.testResults);
+      const indent = row.scenario !== undefined ? "          " : "      ";
+      return {
+        badge: { text: result === "passed" ? "✓" : result === "failed" || result === "error" ? "✗" : " ", style: resultStyle(result) },
+        text: `${indent}${row.test.identifier}`,
+      };
+    }
+  }
+}
+
+function detailLines(row: TuiRow | undefined, data: TuiData, width: number): StyledLine[] {
+  if (!row) return [{ text: "No requirements match the filter", style: STYLE.dim }];
+  const lines: StyledLine[] = [];
+  const heading = (text: string) => {
+    lines.push({ text: "" });
+    lines.push({ text, style: STYLE.bold });
+  };
+  const text = (value: string, style?: string) => {
+    for (const line of wrap(value, width, "  ")) lines.push({ text: line, style });
+  };
+  const testLine = (test: TestLink) => {
+    const result = getTestLinkResult(test, data.testResults);
+    lines.push({ text: `  ${result ?? "not run"}  ${test.file}:${test.identifier}`, style: resultStyle(result) });
+  };
+
+  if (row.kind === "folder") {
+    const group = data.result.requirements.find((g) => g.path === row.folder);
+    lines.push({ text: row.folder, style: STYLE.bold });
+    text(`${group?.requirements.length ?? 0} requirement(s)`);
+    const untested = group?.requirements.filter((r) => r.implemented && r.testCount === 0).length ?? 0;
+    const stale = group?.requirements.filter((r) => r.implemented && r.verification === "stale").length ?? 0;
+    text(`${untested} untested, ${stale} stale`);
+    return lines;
+  }
+
+  const req = findRequirement(data, row.path);
+  const check = checkOf(data, row.path);
+  if (!req) return lines;
+
+  if (row.kind === "test") {
+    lines.push({ text: `${row.test.file}:${row.test.identifier}`, style: STYLE.bold });
+    text(`Linked to ${targetOf(row.path, row.scenario)}`);
+    const result = getTestLinkResult(row.test, data.testResults);
+    text(`Last result: ${result ?? "not run"}`, resultStyle(result));
+    text(`Hash: ${row.test.hash.slice(0, 12)}`);
+    lines.push({ text: "" });
+    text("r: run  u: unlink", STYLE.dim);
+    return lines;
+  }
+
+  if (row.kind === "scenario") {
+    const scenario = req.data.scenarios?.find((s) => s.name === row.scenario);
+    const scenarioCheck = check?.scenarios?.find((s) => s.name === row.scenario);
+    lines.push({ text: `${row.path}#${row.scenario}`, style: STYLE.bold });
+    if (scenario?.suggested) text("Suggested - accept or reject with req accept-scenario / reject-scenario", STYLE.yellow);
+    text(`Verification: ${scenarioCheck?.verification ?? "n/a"}`);
+    heading("Scenario");
+    text(scenario?.gherkin ?? "");
+    heading(`Tests (${scenario?.tests?.length ?? 0})`);
+    for (const test of scenario?.tests ?? []) testLine(test);
+    return lines;
+  }
+
+  lines.push({ text: row.path, style: STYLE.bold });
+  text(
+    `Status: ${req.data.status} · Priority: ${req.data.priority ?? "none"} · Verification: ${check?.verification ?? "n/a"}`
+  );
+  if (check?.dependencyIssues?.length) text(`Blocked by: ${check.dependencyIssues.join(", ")}`, STYLE.yellow);
+  const source = req.data.mainSource;
+  if (source) text(`Source: ${source.type} - ${source.description}`);
+
+  heading("Gherkin");
+  text(req.data.gherkin);
+
+  if (req.data.scenarios?.length) {
+    heading(`Scenarios (${req.data.scenarios.length})`);
+    for (const scenario of req.data.scenarios) {
+      const count = scenario.tests?.length ?? 0;
+      text(`#${scenario.name} - ${count} test(s)${scenario.suggested ? " (suggested)" : ""}`);
+    }
+  }
+
+  heading(`Tests (${req.data.tests.length})`);
+  for (const test of req.data.tests) testLine(test);
+
+  if (req.data.questions?.length) {
+    heading(`Questions (${req.data.questions.filter((q) => !q.answer).length} unanswered)`);
+    for (const question of req.data.questions) {
+      const details = describeQuestion(question);
+      const style = question.answer ? undefined : isQuestionOverdue(question) ? STYLE.red : STYLE.yellow;
+      text(`Q: ${question.question}${details ? ` (${details})` : ""}`, style);
+      if (question.answer) text(`A: ${question.answer}`, STYLE.dim);
+    }
+  }
+
+  if (req.data.dependencies?.length) {
+    heading("Dependencies");
+    for (const dep of req.data.dependencies) text(`${dep.path}${dep.blocking === false ? " (soft)" : ""}`);
+  }
+
+  if (req.data.aiAssessment) {
+    heading("AI assessment");
+    text(`${req.data.aiAssessment.sufficient ? "Sufficient" : "Insufficient"} - ${req.data.aiAssessment.notes}`);
+  }
+
+  return lines;
+}
+
+function pickerLines(mode: Extract<TuiMode, { type: "picker" }>, width: number, height: number): StyledLine[] {
+  const items = filterPickerItems(mode.items, mode.query);
+  const lines: StyledLine[] = [
+    { text: mode.title, style: STYLE.bold },
+    { text: `> ${mode.query}`, style: STYLE.cyan },
+    { text: "" },
+  ];
+  const visible = Math.max(1, height - lines.length);
+  const start = Math.max(0, Math.min(mode.cursor - Math.floor(visible / 2), items.length - visible));
+  items.slice(start, start + visible).forEach((item, i) => {
+    const hint = item.hint ? `  ${item.hint}` : "";
+    lines.push({
+      text: fit(`${item.label}${hint}`, width),
+      style: start + i === mode.cursor ? STYLE.inverse : undefined,
+    });
+  });
+  if (items.length === 0) lines.push({ text: "No matches", style: STYLE.dim });
+  return lines;
+}
+
+function styled(line: StyledLine, width: number, color: boolean): string {
+  const text = fit(line.text, width);
+  return color && line.style ? `${line.style}${text}${STYLE.reset}` : text;
+}
+
+/**
+ * Render the whole screen: a summary line, the tree and detail panes and a
+ * status line
+ * @param color - Use ANSI styles (off for tests and dumb terminals)
+ */
+export function renderScreen(state: TuiState, data: TuiData, width: number, height: number, color = true): string[] {
+  const rows = buildRows(data, state);
+  const row = rows[state.cursor];
+  const bodyHeight = Math.max(1, height - 2);
+  const treeWidth = Math.max(24, Math.min(Math.floor(width * 0.4), 60));
+  const detailWidth = Math.max(10, width - treeWidth - 3);
+  // The cursor stays visible even if the rows changed since the last key
+  const scroll = scrolled(state, bodyHeight).scroll;
+
+  const { summary } = data.result;
+  const header = [
+    `req tui - ${summary.totalRequirements} requirement(s)`,
+    `${summary.untested} untested`,
+    `${summary.stale} stale`,
+    `${summary.orphanedTestCount} orphaned test(s)`,
+    ...(state.filter ? [`filter: ${state.filter}`] : []),
+  ].join(" · ");
+
+  let detail: StyledLine[];
+  if (state.mode.type === "picker") detail = pickerLines(state.mode, detailWidth, bodyHeight);
+  else if (state.mode.type === "help") detail = HELP_LINES.map((text) => ({ text }));
+  else detail = detailLines(row, data, detailWidth);
+
+  const lines = [styled({ text: header, style: STYLE.bold }, width, color)];
+  for (let i = 0; i < bodyHeight; i++) {
+    const index = scroll + i;
+    const treeRow = rows[index];
+    let left = " ".repeat(treeWidth);
+    if (treeRow) {
+      const { badge, text } = treeLine(treeRow, data, state);
+      const selected = index === state.cursor;
+      const label = fit(text, treeWidth - 2);
+      const badgeText = color && badge.style && !selected ? `${badge.style}${badge.text}${STYLE.reset}` : badge.text;
+      left = selected && color ? `${STYLE.inverse}${badge.text} ${label}${STYLE.reset}` : `${badgeText} ${label}`;
+      if (selected && !color) left = `${badge.text}>${label}`;
+    }
+    const right = detail[i] ? styled(detail[i], detailWidth, color) : "";
+    lines.push(`${left} │ ${right}`.replace(/\s+$/, ""));
+  }
+
+  let status: string;
+  const mode = state.mode;
+  if (mode.type === "filter") status = `/${mode.value}█`;
+  else if (mode.type === "input") status = `${mode.prompt}: ${mode.value}█`;
+  else if (mode.type === "picker") status = "type to filter · up/down · enter: choose · esc: cancel";
+  else if (state.message) status = state.message;
+  else status = "?: help · /: filter · r: run · n: link · u: unlink · s: status · p: priority · a: questions · q: quit";
+  lines.push(styled({ text: status, style: state.message ? STYLE.yellow : STYLE.dim }, width, color));
+
+  return lines;
+}
+
+/**
+ * Ask a new question or answer (or, with an empty answer, reopen) an
+ * existing one
+ * @returns false if the question doesn't exist
+ */
+export function applyQuestionEdit(data: Requirement, edit: Extract<TuiEffect, { type: "question" }>): boolean {
+  if (edit.question !== undefined) {
+    data.questions = [...(data.questions ?? []), { question: edit.question }];
+    return true;
+  }
+  const question = edit.index !== undefined ? data.questions?.[edit.index] : undefined;
+  if (!question) return false;
+  if (edit.answer) {
+    question.answer = edit.answer;
+    question.answeredAt = new Date().toISOString();
+  } else {
+    delete question.answer;
+    delete question.answeredAt;
+  }
+  return true;
+}
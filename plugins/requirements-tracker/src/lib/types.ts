@@ -2,10 +2,52 @@
  * Requirements tracker types - YAML-based feature file system
  */
 
+// Test frameworks with a built-in adapter (see lib/test-frameworks/)
+export type TestFramework =
+  | "bun"
+  | "vitest"
+  | "jest"
+  | "mocha"
+  | "node"
+  | "playwright"
+  | "pytest"
+  | "go";
+
+// Languages with a test extractor (see lib/test-parsers/), picked by file extension
+export type TestLanguage = "typescript" | "python" | "go";
+
 // Config file structure (.requirements/config.yml)
 export interface Config {
-  testRunner: string; // e.g., "bun test", "npm test", "vitest"
-  testGlob: string; // e.g., "**/*.test.{ts,js}"
+  testRunner: string; // e.g., "bun test", "npm test", "npx vitest run"
+  testGlob: string; // e.g., "**/*.test.{ts,js}" or "**/{*.test.ts,test_*.py,*_test.go}"
+  framework?: TestFramework; // Selects how tests are filtered and results are read (default: "bun")
+  testRunners?: Partial<Record<TestFramework, string>>; // Runner commands for other languages' frameworks, e.g. { pytest: "poetry run pytest" }
+  workflow?: WorkflowConfig; // Lifecycle states and transitions (default: planned <-> done)
+  policy?: PolicyConfig; // Rules enforced by `req check --ci`
+  workspaces?: string[]; // Package roots (globs allowed) of a monorepo, each with its own .requirements/
+}
+
+// CI gate rules (config.yml "policy"). Omitted rules are not enforced.
+export interface PolicyConfig {
+  requireTests?: Priority[]; // Implemented requirements of these priorities must have tests
+  noStale?: boolean; // No implemented requirement with stale verification
+  maxOrphanedTests?: number; // Most orphaned tests allowed
+  noFailingTests?: boolean; // No requirement whose linked tests failed in the last run
+  noDependencyIssues?: boolean; // No unmet blocking, missing or circular dependencies
+}
+
+// One lifecycle state of the requirement workflow
+export interface WorkflowState {
+  name: string; // e.g. "draft", "in-review"
+  transitions?: string[]; // States a requirement may move to from this one
+  implemented?: boolean; // Counts as done: needs tests, satisfies blocking dependencies
+  deprecated?: boolean; // Excluded from coverage and orphan gating
+}
+
+// Requirement lifecycle (config.yml "workflow")
+export interface WorkflowConfig {
+  initial?: string; // State of new requirements (default: the first state)
+  states: WorkflowState[];
 }
 
 // Test link stored per requirement
@@ -95,8 +137,12 @@ export interface AIAssessment {
 // Clarification question about a requirement
 export interface Question {
   question: string; // The question text
+  owner?: string; // Who should answer it (e.g., "@alice")
+  due?: string; // Date the answer is needed by (YYYY-MM-DD)
+  askedAt?: string; // ISO timestamp when asked
   answer?: string; // The answer (if answered)
   answeredAt?: string; // ISO timestamp when answered
+  scenario?: string; // Name of the scenario added from the answer
 }
 
 // Source of a requirement - where it came from
@@ -109,8 +155,18 @@ export interface Source {
   date?: string; // When the source was created/discussed
 }
 
-// Implementation status for a requirement
-export type ImplementationStatus = "planned" | "done";
+// Lifecycle state of a requirement - a state of the configured workflow
+// ("planned" or "done" without one)
+export type ImplementationStatus = string;
+
+// One entry of a requirement's status log
+export interface StatusTransition {
+  from: ImplementationStatus;
+  to: ImplementationStatus;
+  by: string; // Who made the change (git user.name unless given)
+  at: string; // ISO timestamp
+  reason?: string;
+}
 
 // Priority level for a requirement
 export type Priority = "critical" | "high" | "medium" | "low";
@@ -138,12 +194,37 @@ export interface NFR {
   verified?: boolean; // Has this NFR been verified?
 }
 
+// Examples table of a parameterised scenario (Gherkin "Scenario Outline")
+// The gherkin refers to columns as <placeholders>
+export interface ScenarioExamples {
+  name?: string; // Title after "Examples:", if any
+  header: string[]; // Column names
+  rows: string[][]; // One row of values per example
+}
+
 // Additional scenario beyond the primary gherkin
 export interface Scenario {
   name: string; // Short identifier, e.g., "invalid_password", "rate_limited"
   gherkin: string; // Full Given/When/Then scenario (NO "Scenario:" prefix)
   source?: Source; // Where this scenario came from (optional)
   suggested?: boolean; // True if AI-suggested, pending user acceptance
+  examples?: ScenarioExamples[]; // Makes the scenario an outline
+  tests?: TestLink[]; // Tests linked to this scenario (also count for the requirement)
+  title?: string; // Title as written in a .feature file, e.g. "Failure message"
+}
+
+// How a requirement was written in a .feature file. Kept by `req import-features`
+// so `req export-features` writes the feature back the same way.
+export interface FeatureOrigin {
+  name: string; // Feature title, e.g. "User login"
+  description?: string; // Free text below the Feature line
+  tags?: string[]; // Feature tags that map to no requirement field, without "@"
+  background?: string; // Feature Background steps (also part of the gherkin)
+  rule?: string; // Rule title, if the requirement is a Rule
+  scenarioTags?: string[]; // Rule and scenario tags that map to no requirement field
+  ruleBackground?: string; // Rule Background steps (also part of the gherkin)
+  title: string; // Title of the (first) scenario
+  statusTag?: boolean; // The status came from a tag
 }
 
 // Single requirement within a feature
@@ -152,7 +233,8 @@ export interface Requirement {
   mainSource: Source; // Where the main gherkin came from (REQUIRED)
   source?: Source; // DEPRECATED: Kept for backward compat during migration
   tests: TestLink[]; // Linked tests (0 or more)
-  status: ImplementationStatus; // Implementation status: "planned" or "done"
+  status: ImplementationStatus; // Lifecycle state, e.g. "planned" or "done"
+  statusLog?: StatusTransition[]; // Status changes, oldest first
   questions?: Question[]; // Clarification questions
   aiAssessment?: AIAssessment; // Optional AI assessment
   // Extended fields
@@ -160,6 +242,9 @@ export interface Requirement {
   dependencies?: Dependency[]; // Requirements that must be completed first
   nfrs?: NFR[]; // Non-functional requirements
   scenarios?: Scenario[]; // Additional scenarios/edge cases
+  examples?: ScenarioExamples[]; // Makes the main gherkin an outline
+  implementation?: string[]; // Globs of the source files that implement it, e.g. "src/auth/**/*.ts"
+  feature?: FeatureOrigin; // Set when imported from a .feature file
 }
 
 // Parsed requirement from filesystem
@@ -174,6 +259,8 @@ export interface TestCache {
   generatedAt: string; // ISO timestamp
   fileMtimes: Record<string, number>; // "path/to/file.test.ts" -> mtime in ms
   tests: Record<string, string>; // "file:identifier" -> hash
+  fullNames?: Record<string, string>; // "file:identifier" -> fully qualified test name
+  legacyHashes?: Record<string, string>; // "file:identifier" -> pre-AST hash (for link migration)
 }
 
 // Ignored test entry
@@ -196,12 +283,26 @@ export interface IgnoredTestsFile {
 // - n/a: No tests linked, nothing to verify
 export type VerificationStatus = "unverified" | "verified" | "stale" | "n/a";
 
+// Separator between describe blocks and test name in qualified identifiers
+export const TEST_NAME_SEPARATOR = " > ";
+
+// Location of a test call within its source file
+export interface SourceRange {
+  start: number; // Character offset where the test call begins
+  end: number; // Character offset where the test call ends
+  startLine: number; // 1-based line of the start offset
+  endLine: number; // 1-based line of the end offset
+}
+
 // Test extraction result
 export interface ExtractedTest {
   file: string;
-  identifier: string;
-  body: string; // Full test function body for hashing
-  hash: string; // SHA-256 hash
+  identifier: string; // Test name, qualified with its describe path when ambiguous in the file
+  body: string; // Full test function body
+  hash: string; // SHA-256 hash of the normalized body (ignores whitespace and comments)
+  fullName?: string; // Fully qualified name, e.g. "auth > login > validates credentials"
+  range?: SourceRange; // Location of the test call (not available from cache)
+  legacyHash?: string; // Hash computed by the pre-AST extractor, used to migrate existing links
 }
 
 // Dependency issue detected during check
@@ -210,12 +311,46 @@ export interface DependencyIssue {
   blockedBy: string[]; // Paths of blocking dependencies that are not "done"
 }
 
+// Dependency on a requirement that doesn't exist
+export interface MissingDependency {
+  requirement: string; // Path of the requirement declaring the dependency
+  dependency: string; // Path it depends on
+}
+
+// Test link whose test no longer exists (renamed, moved or deleted)
+export interface BrokenTestLink {
+  requirement: string; // Path of the requirement
+  scenario?: string; // Scenario the test is linked to, if any
+  file: string;
+  identifier: string;
+  hash: string; // Hash stored with the link
+}
+
+// A test that probably is what a broken link pointed to (see `req relink`)
+export interface RelinkSuggestion {
+  file: string; // Broken link's file
+  identifier: string; // Broken link's identifier
+  links: BrokenTestLink[]; // Every link to it (a test can cover several requirements)
+  test: { file: string; identifier: string; hash: string; legacyHash?: string }; // Orphaned test to link instead
+  confidence: RelinkConfidence;
+  reasons: string[]; // e.g. "same test body", "file renamed from a.test.ts"
+}
+
+export type RelinkConfidence = "high" | "medium";
+
 // Gherkin format issue detected during check
 export interface GherkinFormatIssue {
   requirement: string; // Path of requirement (or path + scenario name)
   errors: string[]; // List of format errors
 }
 
+// Implementation coverage issue detected during check
+export interface ImplementationCoverageIssue {
+  requirement: string; // Path of the requirement
+  implementationFiles: string[]; // Files matched by its "implementation" globs
+  evidence: CoverageEvidence; // Which coverage data showed it
+}
+
 // Check command output structures
 export interface RequirementCheckResult {
   id: string;
@@ -223,10 +358,25 @@ export interface RequirementCheckResult {
   verification: VerificationStatus;
   coverageSufficient: boolean | null; // null if no assessment
   unansweredQuestions: number;
+  overdueQuestions: number; // Unanswered questions past their due date
   status: ImplementationStatus;
+  implemented?: boolean; // True if the status counts as done
+  deprecated?: boolean; // True if the status is deprecated (excluded from gating)
   priority?: Priority; // Priority level if set
   dependencyIssues?: string[]; // Paths of blocking deps that aren't done
   unverifiedNFRCount: number; // Number of NFRs without verified=true
+  flakyOnly?: boolean; // True if every linked test is flaky in the run history
+  lastResult?: TestResultStatus; // Worst result of its linked tests in the last run
+  scenarios?: ScenarioCheckResult[]; // Per-scenario coverage, if the requirement has scenarios
+}
+
+// Coverage of one scenario, from the tests linked to it
+export interface ScenarioCheckResult {
+  name: string;
+  testCount: number;
+  verification: VerificationStatus;
+  lastResult?: TestResultStatus; // Worst result of its tests in the last run
+  suggested?: boolean;
 }
 
 export interface RequirementGroupCheckResult {
@@ -246,8 +396,10 @@ export interface PriorityBreakdown {
 export interface CheckSummary {
   totalRequirements: number;
   // Implementation status
-  planned: number; // Not yet implemented
+  planned: number; // Not yet implemented (and not deprecated)
   done: number; // Implemented
+  deprecated: number; // In a deprecated state, excluded from coverage and orphan gating
+  byState: Record<ImplementationStatus, number>; // Requirements per workflow state
   // Coverage: does requirement have tests?
   untested: number; // No tests linked
   tested: number; // Has tests linked
@@ -257,20 +409,31 @@ export interface CheckSummary {
   stale: number; // AI assessed, but tests changed since
   // Orphans
   orphanedTestCount: number;
+  brokenLinks: number; // Test links whose test no longer exists
   // Other
-  unansweredQuestions: number;
+  unansweredQuestions: number; // All unanswered questions
+  overdueQuestions: number; // Of those, past their due date
   // Extended metrics
   byPriority: PriorityBreakdown; // Priority breakdown (all requirements)
   blockedRequirements: number; // Requirements with unmet blocking dependencies
+  dependencyCycles: number; // Cycles of blocking dependencies
+  missingDependencies: number; // Dependencies on requirements that don't exist
   unverifiedNFRs: number; // Total NFRs without verified=true
   gherkinFormatIssues: number; // Requirements with malformed gherkin
+  flakyOnly: number; // Requirements whose only coverage is flaky tests
+  implementationNotExecuted: number; // Requirements whose tests never execute their implementation files
 }
 
 export interface CheckResult {
   requirements: RequirementGroupCheckResult[];
   orphanedTests: ExtractedTest[];
+  brokenLinks: BrokenTestLink[]; // Test links whose test no longer exists
+  relinkSuggestions?: RelinkSuggestion[]; // Likely replacements for broken links (set by `req check`)
   dependencyIssues: DependencyIssue[]; // Requirements blocked by unmet dependencies
+  dependencyCycles: string[][]; // Cycles of blocking dependencies, each listed from its first path
+  missingDependencies: MissingDependency[]; // Dependencies on requirements that don't exist
   gherkinIssues: GherkinFormatIssue[]; // Requirements with gherkin format issues
+  coverageIssues: ImplementationCoverageIssue[]; // Requirements whose tests never execute their implementation
   summary: CheckSummary;
 }
 
@@ -280,6 +443,8 @@ export const CONFIG_FILE = "config.yml";
 export const CACHE_FILE = "cache.json";
 export const IGNORED_TESTS_FILE = "ignored-tests.yml";
 export const TEST_RESULTS_FILE = "test-results.xml";
+export const TEST_HISTORY_FILE = "test-history.jsonl";
+export const COVERAGE_FILE = "coverage.json";
 export const REQUIREMENT_FILE_PATTERN = /^REQ_[^/]+\.yml$/; // Matches REQ_*.yml
 
 // Test result status from test runners
@@ -311,3 +476,41 @@ export interface TestRunResults {
   results: TestResult[];
 }
 
+// One recorded test run in .requirements/test-history.jsonl (one JSON object per line)
+export interface TestRunHistoryEntry {
+  recordedAt: string; // ISO timestamp
+  commit: string | null; // HEAD commit SHA when the run was recorded (null outside git)
+  source: string; // "req run" or the imported results file
+  summary: TestRunSummary;
+  results: TestResult[]; // Without error messages
+}
+
+// Pass/fail flips of a test over its recent runs
+export interface TestFlakiness {
+  runs: number; // Recent runs with a pass or fail outcome (skips don't count)
+  flips: number; // Times the outcome changed between consecutive runs
+  flipRate: number; // flips / (runs - 1), 0 with fewer than 2 runs
+  flaky: boolean;
+}
+
+// Code coverage report formats accepted by `req import-coverage`
+export type CoverageFormat = "lcov" | "istanbul-json" | "cobertura";
+
+// Executed lines per source file: "src/auth.ts" -> [1, 2, 5] (1-based, sorted)
+export type FileCoverage = Record<string, number[]>;
+
+// Where the coverage attributed to a requirement came from
+// - tests: per-test coverage of its linked tests
+// - requirement: a run of its test set imported with --requirement
+// - run: the whole test run (only shows files no test executes)
+export type CoverageEvidence = "tests" | "requirement" | "run";
+
+// Imported coverage in .requirements/coverage.json
+export interface CoverageData {
+  importedAt: string; // ISO timestamp of the last import
+  sourceFile: string; // Report the whole-run coverage came from
+  format: CoverageFormat;
+  files: FileCoverage; // Whole test run
+  tests: Record<string, FileCoverage>; // Per test name, when the report has per-test data
+  requirements: Record<string, FileCoverage>; // Per requirement path, imported with --requirement
+}
@@ -0,0 +1,204 @@
+/**
+ * Watch mode - snapshots of requirement health and what moved between them
+ */
+
+import { matchResultToTestLink } from "./result-store";
+import { getAllTestLinks } from "./store";
+import { indexTestsByLinkKey } from "./test-parsers";
+import { DEFAULT_WORKFLOW, isDeprecated, isImplemented } from "./workflow";
+import type { ExtractedTest, ParsedRequirement, TestLink, TestResult, WorkflowConfig } from "./types";
+
+// Requirement paths (and orphaned test keys) in each problem state
+export interface WatchSnapshot {
+  stale: Set<string>; // Assessed requirements whose linked tests changed since
+  failing: Set<string>; // Requirements with a linked test that failed in the latest results
+  orphaned: Set<string>; // "file:identifier" of tests not linked to any requirement
+  blocked: Set<string>; // Requirements with a blocking dependency that isn't done
+}
+
+export type WatchCategory = keyof WatchSnapshot;
+
+export const WATCH_CATEGORIES: WatchCategory[] = ["stale", "failing", "orphaned", "blocked"];
+
+// Entries that entered or left each state between two snapshots
+export interface WatchDiff {
+  added: Record<WatchCategory, string[]>;
+  removed: Record<WatchCategory, string[]>;
+}
+
+function testKey(test: { file: string; identifier: string }): string {
+  return `${test.file}:${test.identifier}`;
+}
+
+/**
+ * Compute the problem states of requirements.
+ *
+ * Unlike `req check` this never writes requirement files: a changed hash
+ * makes an assessed requirement stale instead of clearing its assessment.
+ *
+ * @param pathFilter - Only report requirements under this path prefix
+ *   (orphans are always computed against all requirements)
+ * @param workflow - Deprecated requirements are not reported
+ */
+export function takeSnapshot(
+  requirements: ParsedRequirement[],
+  tests: ExtractedTest[],
+  results: TestResult[],
+  ignoredTestKeys: Set<string>,
+  pathFilter?: string,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW
+): WatchSnapshot {
+  const snapshot: WatchSnapshot = {
+    stale: new Set(),
+    failing: new Set(),
+    orphaned: new Set(),
+    blocked: new Set(),
+  };
+
+  // Keyed by link key, so links and ignored tests that still use the plain
+  // name of a nested test resolve to it
+  const testsByKey = indexTestsByLinkKey(tests);
+  const canonicalKey = (key: string) => {
+    const test = testsByKey.get(key);
+    return test ? testKey(test) : key;
+  };
+  const statusByPath = new Map(requirements.map((req) => [req.path, req.data.status]));
+  const linkedTestKeys = new Set<string>();
+
+  for (const req of requirements) {
+    const links = getAllTestLinks(req.data);
+    for (const link of links) {
+      linkedTestKeys.add(canonicalKey(testKey(link)));
+    }
+
+    if (pathFilter && !req.path.startsWith(pathFilter)) {
+      continue;
+    }
+    if (isDeprecated(workflow, req.data.status)) {
+      continue;
+    }
+
+    const isStale =
+      !!req.data.aiAssessment &&
+      links.some((link) => {
+        const current = testsByKey.get(testKey(link));
+        // Hashes from the pre-AST extractor still describe the same test
+        return current && current.hash !== link.hash && current.legacyHash !== link.hash;
+      });
+    if (isStale) {
+      snapshot.stale.add(req.path);
+    }
+
+    const isFailing = links.some((link) => {
+      const status = matchResultToTestLink(link, results)?.status;
+      return status === "failed" || status === "error";
+    });
+    if (isFailing) {
+      snapshot.failing.add(req.path);
+    }
+
+    const isBlocked = (req.data.dependencies || []).some(
+      (dep) => dep.blocking !== false && !isImplemented(workflow, statusByPath.get(dep.path) ?? "")
+    );
+    if (isBlocked) {
+      snapshot.blocked.add(req.path);
+    }
+  }
+
+  const ignoredKeys = new Set(Array.from(ignoredTestKeys, canonicalKey));
+  for (const test of tests) {
+    const key = testKey(test);
+    if (!linkedTestKeys.has(key) && !ignoredKeys.has(key)) {
+      snapshot.orphaned.add(key);
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Compare two snapshots
+ */
+export function diffSnapshots(before: WatchSnapshot, after: WatchSnapshot): WatchDiff {
+  const diff = { added: {}, removed: {} } as WatchDiff;
+
+  for (const category of WATCH_CATEGORIES) {
+    diff.added[category] = [...after[category]].filter((entry) => !before[category].has(entry)).sort();
+    diff.removed[category] = [...before[category]].filter((entry) => !after[category].has(entry)).sort();
+  }
+
+  return diff;
+}
+
+/**
+ * Check if anything moved
+ */
+export function isEmptyDiff(diff: WatchDiff): boolean {
+  return WATCH_CATEGORIES.every(
+    (category) => diff.added[category].length === 0 && diff.removed[category].length === 0
+  );
+}
+
+/**
+ * Format a diff as compact lines: "+ stale     auth/REQ_login.yml"
+ * Entries that entered a state come first, then those that left it.
+ */
+export function formatDiff(diff: WatchDiff): string[] {
+  const width = Math.max(...WATCH_CATEGORIES.map((category) => category.length));
+  const lines: string[] = [];
+
+  for (const [sign, entries] of [
+    ["+", diff.added],
+    ["-", diff.removed],
+  ] as const) {
+    for (const category of WATCH_CATEGORIES) {
+      for (const entry of entries[category]) {
+        lines.push(`${sign} ${category.padEnd(width)}  ${entry}`);
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Find the linked tests affected by a change: links whose test body changed
+ * (or appeared) since the previous extraction, and links that are new.
+ *
+ * @param pathFilter - Only consider requirements under this path prefix
+ */
+export function findAffectedTests(
+  previousTests: ExtractedTest[],
+  currentTests: ExtractedTest[],
+  previousRequirements: ParsedRequirement[],
+  currentRequirements: ParsedRequirement[],
+  pathFilter?: string
+): TestLink[] {
+  const previousIndex = indexTestsByLinkKey(previousTests);
+  const currentIndex = indexTestsByLinkKey(currentTests);
+  const previousLinks = new Set(
+    previousRequirements.flatMap((req) => getAllTestLinks(req.data).map((link) => testKey(link)))
+  );
+
+  const affected = new Map<string, TestLink>();
+  for (const req of currentRequirements) {
+    if (pathFilter && !req.path.startsWith(pathFilter)) {
+      continue;
+    }
+
+    for (const link of getAllTestLinks(req.data)) {
+      const key = testKey(link);
+      const current = currentIndex.get(key);
+      // Linked test no longer exists - nothing to run
+      if (!current) {
+        continue;
+      }
+      if (!previousLinks.has(key) || previousIndex.get(key)?.hash !== current.hash) {
+        // Run the test by its qualified name, even for a plain-name link
+        affected.set(testKey(current), { ...link, identifier: current.identifier });
+      }
+    }
+  }
+
+  return Array.from(affected.values());
+}
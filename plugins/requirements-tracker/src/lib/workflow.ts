@@ -0,0 +1,182 @@
+/**
+ * Requirement lifecycle - the workflow states and transitions configured in
+ * config.yml, and the status log kept on each requirement
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type {
+  Config,
+  ImplementationStatus,
+  Requirement,
+  StatusTransition,
+  WorkflowConfig,
+  WorkflowState,
+} from "./types";
+
+const execFileAsync = promisify(execFile);
+
+// Workflow of projects without a "workflow" section: planned <-> done
+export const DEFAULT_WORKFLOW: WorkflowConfig = {
+  initial: "planned",
+  states: [
+    { name: "planned", transitions: ["done"] },
+    { name: "done", transitions: ["planned"], implemented: true },
+  ],
+};
+
+/**
+ * Check a workflow definition
+ * @returns Error messages, empty if the workflow is valid
+ */
+export function validateWorkflow(workflow: WorkflowConfig): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(workflow?.states) || workflow.states.length === 0) {
+    return ['"states" must be a non-empty array'];
+  }
+
+  const names = new Set<string>();
+  for (let i = 0; i < workflow.states.length; i++) {
+    const state = workflow.states[i];
+    if (!state?.name || typeof state.name !== "string") {
+      errors.push(`states[${i}]: must have a "name" string field`);
+      continue;
+    }
+    if (names.has(state.name)) {
+      errors.push(`states[${i}]: duplicate state "${state.name}"`);
+    }
+    names.add(state.name);
+    if (state.implemented && state.deprecated) {
+      errors.push(`state "${state.name}": cannot be both implemented and deprecated`);
+    }
+  }
+
+  for (const state of workflow.states) {
+    if (state.transitions !== undefined && !Array.isArray(state.transitions)) {
+      errors.push(`state "${state.name}": "transitions" must be an array of state names`);
+      continue;
+    }
+    for (const target of state.transitions ?? []) {
+      if (!names.has(target)) {
+        errors.push(`state "${state.name}": transition to unknown state "${target}"`);
+      }
+    }
+  }
+
+  if (workflow.initial !== undefined && !names.has(workflow.initial)) {
+    errors.push(`"initial" is not a state: "${workflow.initial}"`);
+  }
+  if (!workflow.states.some((state) => state.implemented)) {
+    errors.push("at least one state must be implemented: true");
+  }
+
+  return errors;
+}
+
+/**
+ * Get the project's workflow, or the default one
+ * @throws Error if the configured workflow is invalid
+ */
+export function getWorkflow(config: Config | null): WorkflowConfig {
+  const workflow = config?.workflow;
+  if (!workflow) {
+    return DEFAULT_WORKFLOW;
+  }
+  const errors = validateWorkflow(workflow);
+  if (errors.length > 0) {
+    throw new Error(`Invalid workflow in config.yml:\n  ${errors.join("\n  ")}`);
+  }
+  return workflow;
+}
+
+export function getStateNames(workflow: WorkflowConfig): ImplementationStatus[] {
+  return workflow.states.map((state) => state.name);
+}
+
+export function getState(
+  workflow: WorkflowConfig,
+  status: ImplementationStatus
+): WorkflowState | undefined {
+  return workflow.states.find((state) => state.name === status);
+}
+
+/**
+ * State of new requirements
+ */
+export function getInitialState(workflow: WorkflowConfig): ImplementationStatus {
+  return workflow.initial ?? workflow.states[0].name;
+}
+
+/**
+ * Does the status count as done (needs tests, unblocks dependents)?
+ */
+export function isImplemented(workflow: WorkflowConfig, status: ImplementationStatus): boolean {
+  return !!getState(workflow, status)?.implemented;
+}
+
+/**
+ * Is the status deprecated (excluded from coverage and orphan gating)?
+ */
+export function isDeprecated(workflow: WorkflowConfig, status: ImplementationStatus): boolean {
+  return !!getState(workflow, status)?.deprecated;
+}
+
+/**
+ * States a requirement may move to from its current status
+ */
+export function getAllowedTransitions(
+  workflow: WorkflowConfig,
+  from: ImplementationStatus
+): ImplementationStatus[] {
+  return getState(workflow, from)?.transitions ?? [];
+}
+
+/**
+ * The first implemented state reachable in one step, used to mark a
+ * requirement done when tests get linked
+ */
+export function getImplementedTransition(
+  workflow: WorkflowConfig,
+  from: ImplementationStatus
+): ImplementationStatus | undefined {
+  return getAllowedTransitions(workflow, from).find((to) => isImplemented(workflow, to));
+}
+
+/**
+ * Who is making a change: git user.name, then the OS user
+ */
+export async function getCurrentUser(cwd: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", ["config", "user.name"], { cwd });
+    if (stdout.trim()) {
+      return stdout.trim();
+    }
+  } catch {
+    // Not a git repository or no user configured
+  }
+  return process.env.USER || process.env.USERNAME || "unknown";
+}
+
+/**
+ * Move a requirement to a new status and append the change to its status log.
+ * The transition is not validated - see getAllowedTransitions.
+ */
+export function applyTransition(
+  data: Requirement,
+  to: ImplementationStatus,
+  by: string,
+  reason?: string
+): StatusTransition {
+  const transition: StatusTransition = {
+    from: data.status,
+    to,
+    by,
+    at: new Date().toISOString(),
+  };
+  if (reason) {
+    transition.reason = reason;
+  }
+  data.status = to;
+  data.statusLog = [...(data.statusLog ?? []), transition];
+  return transition;
+}
@@ -0,0 +1,273 @@
+/**
+ * Monorepo workspaces
+ *
+ * A workspace root's config.yml lists package roots under "workspaces". Each
+ * package has its own .requirements/ folder and config (testGlob, testRunner,
+ * workflow). From the workspace root a requirement is named by its package
+ * root and path, "packages/api:auth/REQ_login.yml", and dependencies may use
+ * such qualified paths to cross package boundaries.
+ */
+
+import { dirname, join, relative, resolve, sep } from "path";
+import { glob, hasMagic } from "glob";
+import { loadAllRequirements, loadConfig } from "./store";
+import { getWorkflow, isImplemented } from "./workflow";
+import type { CheckResult, Config, ParsedRequirement } from "./types";
+
+export const PACKAGE_SEPARATOR = ":";
+
+export interface WorkspacePackage {
+  name: string; // Root relative to the workspace root, e.g. "packages/api"
+  root: string; // Absolute path
+  config: Config;
+}
+
+export interface Workspace {
+  root: string; // Absolute path
+  config: Config;
+  packages: WorkspacePackage[];
+}
+
+/**
+ * Load the workspace whose root is cwd
+ * @returns null if cwd's config has no "workspaces"
+ * @throws if a listed package has no config or is a workspace itself
+ */
+export async function loadWorkspace(cwd: string): Promise<Workspace | null> {
+  const root = resolve(cwd);
+  const config = await loadConfig(root);
+  if (!config?.workspaces) {
+    return null;
+  }
+  if (!Array.isArray(config.workspaces) || config.workspaces.some((p) => typeof p !== "string")) {
+    throw new Error('"workspaces" in config.yml must be a list of package roots');
+  }
+
+  const packages = new Map<string, WorkspacePackage>();
+  for (const pattern of config.workspaces) {
+    const dirs = hasMagic(pattern)
+      ? await glob(pattern, { cwd: root, ignore: ["**/node_modules/**"] })
+      : [pattern];
+
+    for (const dir of dirs.sort()) {
+      const packageRoot = resolve(root, dir);
+      const name = relative(root, packageRoot).split(sep).join("/");
+      if (packages.has(name)) continue;
+
+      const packageConfig = await loadConfig(packageRoot);
+      if (!packageConfig) {
+        // A glob may match directories that aren't packages
+        if (hasMagic(pattern)) continue;
+        throw new Error(`Workspace package ${name} has no .requirements/config.yml. Run 'req init' in it.`);
+      }
+      if (!name || name.startsWith("..")) {
+        throw new Error(`Workspace package ${pattern} must be inside the workspace root`);
+      }
+      if (packageConfig.workspaces) {
+        throw new Error(`Workspace package ${name} can't be a workspace itself`);
+      }
+      packages.set(name, { name, root: packageRoot, config: packageConfig });
+    }
+  }
+
+  return { root, config, packages: [...packages.values()] };
+}
+
+/**
+ * Find the workspace cwd is a package of, searching the parent directories
+ */
+export async function findWorkspace(
+  cwd: string
+): Promise<{ workspace: Workspace; package: WorkspacePackage } | null> {
+  const packageRoot = resolve(cwd);
+  let dir = dirname(packageRoot);
+  while (true) {
+    const workspace = await loadWorkspace(dir).catch(() => null);
+    const pkg = workspace?.packages.find((p) => p.root === packageRoot);
+    if (workspace && pkg) {
+      return { workspace, package: pkg };
+    }
+    if (dirname(dir) === dir) {
+      return null;
+    }
+    dir = dirname(dir);
+  }
+}
+
+/**
+ * Split "packages/api:auth/REQ_login.yml" into the package and the path
+ * within it (no package for an unqualified path)
+ */
+export function splitQualifiedPath(path: string): { package?: string; path: string } {
+  const index = path.indexOf(PACKAGE_SEPARATOR);
+  if (index === -1) {
+    return { path };
+  }
+  return { package: path.slice(0, index), path: path.slice(index + 1) };
+}
+
+/**
+ * Name a package's requirement from the workspace root (qualified paths are
+ * kept as they are)
+ */
+export function qualifyPath(packageName: string, path: string): string {
+  return path.includes(PACKAGE_SEPARATOR) ? path : `${packageName}${PACKAGE_SEPARATOR}${path}`;
+}
+
+/**
+ * Resolve requirement arguments of a command run in the workspace root:
+ * "<package>:<path>" arguments run the command in that package
+ * @returns the package root and the arguments with unqualified paths, or
+ *   null if cwd isn't a workspace root or no argument names a package
+ * @throws if the arguments name different packages
+ */
+export async function resolveWorkspaceArgs(
+  cwd: string,
+  args: string[]
+): Promise<{ cwd: string; args: string[] } | null> {
+  // Only requirement paths and folders count - "file:identifier" test specs don't
+  const qualified = /^[^:#\s]+:(?:[^:]*\/)?(?:REQ_[^/:]*\.yml(?:#.*)?)?$/;
+  if (!args.some((arg) => qualified.test(arg))) {
+    return null;
+  }
+  const workspace = await loadWorkspace(cwd);
+  if (!workspace) {
+    return null;
+  }
+
+  let target: WorkspacePackage | undefined;
+  const resolved = args.map((arg) => {
+    if (!qualified.test(arg)) return arg;
+    const { package: name, path } = splitQualifiedPath(arg);
+    const pkg = workspace.packages.find((p) => p.name === name);
+    if (!pkg) return arg;
+    if (target && target !== pkg) {
+      throw new Error(`Arguments name different workspace packages: ${target.name} and ${pkg.name}`);
+    }
+    target = pkg;
+    return path;
+  });
+
+  return target ? { cwd: target.root, args: resolved } : null;
+}
+
+/**
+ * Whether each requirement of the workspace is implemented (by its package's
+ * workflow), by qualified path - resolves dependencies across packages.
+ * Requirements that fail validation are left out (checking their package
+ * reports them).
+ */
+export async function loadWorkspaceRequirementStates(workspace: Workspace): Promise<Map<string, boolean>> {
+  const states = new Map<string, boolean>();
+  for (const pkg of workspace.packages) {
+    const workflow = getWorkflow(pkg.config);
+    const { requirements } = await loadAllRequirements(pkg.root);
+    for (const req of requirements) {
+      states.set(qualifyPath(pkg.name, req.path), isImplemented(workflow, req.data.status));
+    }
+  }
+  return states;
+}
+
+/**
+ * A package's requirements named from the workspace root, with their
+ * dependencies on the package's own requirements qualified too
+ */
+export function qualifyRequirements(pkg: WorkspacePackage, requirements: ParsedRequirement[]): ParsedRequirement[] {
+  return requirements.map((req) => ({
+    path: qualifyPath(pkg.name, req.path),
+    data: {
+      ...req.data,
+      ...(req.data.dependencies
+        ? { dependencies: req.data.dependencies.map((dep) => ({ ...dep, path: qualifyPath(pkg.name, dep.path) })) }
+        : {}),
+    },
+  }));
+}
+
+/**
+ * A package's check result as seen from the workspace root: requirement
+ * paths qualified, test files relative to the workspace root
+ */
+export function qualifyCheckResult(pkg: WorkspacePackage, result: CheckResult): CheckResult {
+  const req = (path: string) => qualifyPath(pkg.name, path);
+  const file = (path: string) => join(pkg.name, path).split(sep).join("/");
+  const link = <T extends { requirement: string; file: string }>(l: T): T => ({
+    ...l,
+    requirement: req(l.requirement),
+    file: file(l.file),
+  });
+
+  return {
+    ...result,
+    requirements: result.requirements.map((group) => ({
+      path: req(group.path === "(root)" ? "" : group.path),
+      requirements: group.requirements.map((r) => ({
+        ...r,
+        id: req(r.id),
+        ...(r.dependencyIssues ? { dependencyIssues: r.dependencyIssues.map(req) } : {}),
+      })),
+    })),
+    orphanedTests: result.orphanedTests.map((test) => ({ ...test, file: file(test.file) })),
+    brokenLinks: result.brokenLinks.map(link),
+    ...(result.relinkSuggestions
+      ? {
+          relinkSuggestions: result.relinkSuggestions.map((suggestion) => ({
+            ...suggestion,
+            file: file(suggestion.file),
+            links: suggestion.links.map(link),
+            test: { ...suggestion.test, file: file(suggestion.test.file) },
+          })),
+        }
+      : {}),
+    dependencyIssues: result.dependencyIssues.map((issue) => ({
+      requirement: req(issue.requirement),
+      blockedBy: issue.blockedBy.map(req),
+    })),
+    dependencyCycles: result.dependencyCycles.map((cycle) => cycle.map(req)),
+    missingDependencies: result.missingDependencies.map((missing) => ({
+      requirement: req(missing.requirement),
+      dependency: req(missing.dependency),
+    })),
+    gherkinIssues: result.gherkinIssues.map((issue) => ({ ...issue, requirement: req(issue.requirement) })),
+    coverageIssues: result.coverageIssues.map((issue) => ({
+      ...issue,
+      requirement: req(issue.requirement),
+      implementationFiles: issue.implementationFiles.map(file),
+    })),
+  };
+}
+
+// Add the counts of a summary (or one of its breakdowns) to another
+function addCounts(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (typeof value === "number") {
+      target[key] = ((target[key] as number | undefined) ?? 0) + value;
+    } else if (value && typeof value === "object") {
+      target[key] ??= {};
+      addCounts(target[key] as Record<string, unknown>, value as Record<string, unknown>);
+    }
+  }
+}
+
+/**
+ * Combine the qualified check results of the packages into one
+ */
+export function mergeCheckResults(results: CheckResult[]): CheckResult {
+  const [first, ...rest] = results.map((result) => structuredClone(result));
+  for (const result of rest) {
+    first.requirements.push(...result.requirements);
+    first.orphanedTests.push(...result.orphanedTests);
+    first.brokenLinks.push(...result.brokenLinks);
+    if (result.relinkSuggestions) {
+      first.relinkSuggestions = [...(first.relinkSuggestions ?? []), ...result.relinkSuggestions];
+    }
+    first.dependencyIssues.push(...result.dependencyIssues);
+    first.dependencyCycles.push(...result.dependencyCycles);
+    first.missingDependencies.push(...result.missingDependencies);
+    first.gherkinIssues.push(...result.gherkinIssues);
+    first.coverageIssues.push(...result.coverageIssues);
+    addCounts(first.summary as unknown as Record<string, unknown>, result.summary as unknown as Record<string, unknown>);
+  }
+  return first;
+}
@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState } from "react";
+import type { DependencyGraph, DependencyGraphNode } from "../../lib/dependency-graph";
+
+interface DependencyGraphViewProps {
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onOpenDetails: () => void;
+  refreshKey: unknown; // Refetch when this changes (e.g. the requirements data)
+}
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 40;
+const COLUMN_GAP = 70;
+const ROW_GAP = 14;
+const PADDING = 16;
+
+const NODE_STYLES: Record<string, { fill: string; stroke: string }> = {
+  done: { fill: "#dcfce7", stroke: "#16a34a" },
+  workable: { fill: "#dbeafe", stroke: "#2563eb" },
+  blocked: { fill: "#fef3c7", stroke: "#d97706" },
+  deprecated: { fill: "#f3f4f6", stroke: "#9ca3af" },
+  missing: { fill: "#fee2e2", stroke: "#dc2626" },
+};
+
+function nodeState(node: DependencyGraphNode | undefined): keyof typeof NODE_STYLES {
+  if (!node) return "missing";
+  if (node.implemented) return "done";
+  if (node.deprecated) return "deprecated";
+  return node.workable ? "workable" : "blocked";
+}
+
+interface Layout {
+  positions: Map<string, { x: number; y: number }>;
+  width: number;
+  height: number;
+}
+
+// Layered layout: requirements without dependencies on the left, each one
+// column right of the deepest requirement it depends on
+function layoutGraph(graph: DependencyGraph): Layout {
+  const paths = [
+    ...graph.nodes.map((node) => node.path),
+    ...graph.edges.filter((edge) => edge.missing).map((edge) => edge.to),
+  ];
+  const targets = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    targets.set(edge.from, [...(targets.get(edge.from) ?? []), edge.to]);
+  }
+
+  const depth = new Map<string, number>();
+  const visiting = new Set<string>();
+  const getDepth = (path: string): number => {
+    if (depth.has(path)) return depth.get(path)!;
+    if (visiting.has(path)) return 0; // Cycle - cut it here
+    visiting.add(path);
+    const value = Math.max(-1, ...(targets.get(path) ?? []).map(getDepth)) + 1;
+    visiting.delete(path);
+    depth.set(path, value);
+    return value;
+  };
+
+  const columns: string[][] = [];
+  for (const path of [...new Set(paths)].sort()) {
+    const column = getDepth(path);
+    (columns[column] ??= []).push(path);
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, i) => {
+    column.forEach((path, j) => {
+      positions.set(path, {
+        x: PADDING + i * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + j * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  const rows = Math.max(0, ...columns.map((column) => column?.length ?? 0));
+  return {
+    positions,
+    width: PADDING * 2 + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * COLUMN_GAP,
+    height: PADDING * 2 + rows * NODE_HEIGHT + Math.max(0, rows - 1) * ROW_GAP,
+  };
+}
+
+// Interactive dependency graph of all requirements
+export function DependencyGraphView({ selectedId, onSelect, onOpenDetails, refreshKey }: DependencyGraphViewProps) {
+  const [graph, setGraph] = useState<DependencyGraph | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/dependency-graph")
+      .then((res) => res.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (data.nodes) {
+          setGraph(data);
+          setError(null);
+        } else {
+          setError(data.error || "Failed to load dependency graph");
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to load dependency graph");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const layout = useMemo(() => (graph ? layoutGraph(graph) : null), [graph]);
+  const nodes = useMemo(() => new Map(graph?.nodes.map((node) => [node.path, node])), [graph]);
+
+  // Requirements directly connected to the selected one
+  const related = useMemo(() => {
+    const set = new Set<string>();
+    for (const edge of graph?.edges ?? []) {
+      if (edge.from === selectedId) set.add(edge.to);
+      if (edge.to === selectedId) set.add(edge.from);
+    }
+    return set;
+  }, [graph, selectedId]);
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-600">{error}</p>;
+  }
+  if (!graph || !layout) {
+    return <p className="p-4 text-sm text-gray-400">Loading dependency graph...</p>;
+  }
+
+  const linkButton = (path: string) => (
+    <button
+      key={path}
+      onClick={() => onSelect(path)}
+      className="text-left font-mono text-xs text-blue-700 hover:underline truncate"
+      title={path}
+    >
+      {path}
+    </button>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-none px-4 py-2 border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          {Object.entries(NODE_STYLES).map(([state, style]) => (
+            <span key={state} className="flex items-center gap-1">
+              <span
+                className="inline-block w-3 h-3 rounded-sm border"
+                style={{ backgroundColor: style.fill, borderColor: style.stroke }}
+              />
+              {state}
+            </span>
+          ))}
+          <span className="text-gray-400">- - soft dependency</span>
+        </div>
+        <button
+          onClick={onOpenDetails}
+          disabled={!selectedId}
+          className="px-2 py-1 text-xs font-medium rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Open details
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 overflow-auto">
+          {graph.nodes.length === 0 ? (
+            <p className="p-4 text-sm text-gray-400">No requirements</p>
+          ) : (
+            <svg width={layout.width} height={layout.height} className="block">
+              <defs>
+                <marker id="dep-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L10,5 L0,10 z" fill="#9ca3af" />
+                </marker>
+                <marker id="dep-arrow-red" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L10,5 L0,10 z" fill="#dc2626" />
+                </marker>
+              </defs>
+
+              {graph.edges.map((edge, i) => {
+                const from = layout.positions.get(edge.from);
+                const to = layout.positions.get(edge.to);
+                if (!from || !to) return null;
+                const red = edge.cycle || edge.missing;
+                const highlighted = edge.from === selectedId || edge.to === selectedId;
+                // From the dependent's left side to the dependency's right side
+                const x1 = from.x;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const x2 = to.x + NODE_WIDTH;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const bend = Math.max(40, Math.abs(x1 - x2) / 2);
+                return (
+                  <path
+                    key={i}
+                    d={`M${x1},${y1} C${x1 - bend},${y1} ${x2 + bend},${y2} ${x2},${y2}`}
+                    fill="none"
+                    stroke={red ? "#dc2626" : highlighted ? "#2563eb" : "#9ca3af"}
+                    strokeWidth={highlighted ? 2 : 1}
+                    strokeDasharray={edge.blocking ? undefined : "4 3"}
+                    markerEnd={`url(#${red ? "dep-arrow-red" : "dep-arrow"})`}
+                  />
+                );
+              })}
+
+              {[...layout.positions.entries()].map(([path, pos]) => {
+                const node = nodes.get(path);
+                const style = NODE_STYLES[nodeState(node)];
+                const selected = path === selectedId;
+                const dimmed = selectedId !== null && !selected && !related.has(path);
+                const name = path.split("/").pop() ?? path;
+                return (
+                  <g
+                    key={path}
+                    transform={`translate(${pos.x},${pos.y})`}
+                    onClick={() => node && onSelect(path)}
+                    className={node ? "cursor-pointer" : undefined}
+                    opacity={dimmed ? 0.45 : 1}
+                  >
+                    <title>{node ? `${path}\n${node.status}${node.priority ? ` (${node.priority})` : ""}` : `${path} (missing)`}</title>
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={6}
+                      fill={style.fill}
+                      stroke={selected ? "#1d4ed8" : style.stroke}
+                      strokeWidth={selected ? 2.5 : 1}
+                      strokeDasharray={node ? undefined : "4 3"}
+                    />
+                    <text x={8} y={17} fontSize={11} fontFamily="monospace" fill="#111827">
+                      {name.length > 26 ? `${name.slice(0, 25)}…` : name}
+                    </text>
+                    <text x={8} y={31} fontSize={10} fill="#6b7280">
+                      {node ? `${node.status}${node.priority ? ` · ${node.priority}` : ""}` : "missing"}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </div>
+
+        <div className="w-64 flex-none border-l border-gray-200 overflow-y-auto p-3 space-y-4 text-xs">
+          {graph.cycles.length > 0 && (
+            <section>
+              <h3 className="font-medium text-red-700 mb-1">Cycles ({graph.cycles.length})</h3>
+              <ul className="space-y-1">
+                {graph.cycles.map((cycle) => (
+                  <li key={cycle.join()} className="font-mono text-red-700 break-all">
+                    {[...cycle, cycle[0]].join(" → ")}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+          {graph.missing.length > 0 && (
+            <section>
+              <h3 className="font-medium text-red-700 mb-1">Missing targets ({graph.missing.length})</h3>
+              <ul className="space-y-1">
+                {graph.missing.map((missing) => (
+                  <li key={`${missing.requirement}:${missing.dependency}`} className="text-gray-600 break-all">
+                    {linkButton(missing.requirement)} → <span className="font-mono">{missing.dependency}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+          <section>
+            <h3 className="font-medium text-gray-700 mb-1">Next workable ({graph.nextWorkable.length})</h3>
+            {graph.nextWorkable.length === 0 ? (
+              <p className="text-gray-400">Nothing to start</p>
+            ) : (
+              <div className="flex flex-col gap-1">{graph.nextWorkable.map(linkButton)}</div>
+            )}
+          </section>
+          {graph.criticalPath.length > 1 && (
+            <section>
+              <h3 className="font-medium text-gray-700 mb-1">Critical path ({graph.criticalPath.length})</h3>
+              <ol className="list-decimal list-inside flex flex-col gap-1">
+                {graph.criticalPath.map((path) => (
+                  <li key={path}>{linkButton(path)}</li>
+                ))}
+              </ol>
+            </section>
+          )}
+          {graph.stuck.length > 0 && (
+            <section>
+              <h3 className="font-medium text-orange-700 mb-1">Stuck ({graph.stuck.length})</h3>
+              <div className="flex flex-col gap-1">{graph.stuck.map(linkButton)}</div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
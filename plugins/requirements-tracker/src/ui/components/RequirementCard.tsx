@@ -24,6 +24,8 @@ interface RequirementData {
   coverageSufficient: boolean | null;
   unansweredQuestions: number;
   status: ImplementationStatus;
+  implemented?: boolean;
+  deprecated?: boolean;
   gherkin: string;
   mainSource?: Source;
   tests: TestLinkWithResult[];
@@ -52,6 +54,8 @@ export function RequirementCard({ requirement }: RequirementCardProps) {
             <StatusBadge
               status={requirement.status}
               verification={requirement.verification}
+              implemented={requirement.implemented}
+              deprecated={requirement.deprecated}
             />
             <CoverageBadge sufficient={requirement.coverageSufficient} />
             {requirement.unansweredQuestions > 0 && (
@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import type { RequirementLogEntry } from "../../lib/requirement-log";
+
+interface RequirementHistoryProps {
+  requirementId: string;
+}
+
+// Change history of a requirement from git, newest first
+export function RequirementHistory({ requirementId }: RequirementHistoryProps) {
+  const [entries, setEntries] = useState<RequirementLogEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+    fetch(`/api/requirement-log?path=${encodeURIComponent(requirementId)}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (data.entries) {
+          setEntries(data.entries);
+        } else {
+          setError(data.error || "Failed to load history");
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to load history");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [requirementId]);
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+  if (!entries) {
+    return <p className="text-sm text-gray-400">Loading history...</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-400">No history yet - the requirement file is not committed.</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry, idx) => (
+        <li key={entry.commit ?? `uncommitted-${idx}`} className="border-l-2 border-gray-200 pl-3">
+          <div className="flex items-baseline gap-2 flex-wrap text-xs">
+            {entry.commit ? (
+              <code className="font-mono text-gray-500" title={entry.commit}>
+                {entry.commit.slice(0, 7)}
+              </code>
+            ) : (
+              <span className="px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800 font-medium">Uncommitted</span>
+            )}
+            <span className="font-medium text-gray-800">{entry.subject}</span>
+          </div>
+          {entry.commit && (
+            <div className="text-xs text-gray-400 mt-0.5" title={entry.email}>
+              {entry.author} · {new Date(entry.date).toLocaleString()}
+            </div>
+          )}
+          <ul className="mt-1 space-y-0.5">
+            {entry.changes.map((change, changeIdx) => (
+              <li key={changeIdx} className="text-xs text-gray-600">
+                {change}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
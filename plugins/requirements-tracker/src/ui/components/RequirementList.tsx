@@ -7,7 +7,18 @@ export interface RequirementWithData {
   verification: "unverified" | "verified" | "stale" | "n/a";
   coverageSufficient: boolean | null;
   unansweredQuestions: number;
-  status: "planned" | "done";
+  overdueQuestions?: number; // Unanswered questions past their due date
+  status: string; // Workflow state
+  implemented?: boolean; // State counts as done
+  deprecated?: boolean; // State is excluded from gating
+  nextStates?: string[]; // States allowed by the workflow from the current one
+  statusLog?: Array<{
+    from: string;
+    to: string;
+    by: string;
+    at: string;
+    reason?: string;
+  }>;
   gherkin: string;
   mainSource?: {
     type: "doc" | "slack" | "email" | "meeting" | "ticket" | "manual";
@@ -22,6 +33,9 @@ export interface RequirementWithData {
     isStale: boolean;
     lastResult?: "passed" | "failed" | "skipped" | "error";
     lastRunAt?: string;
+    history?: Array<"passed" | "failed" | "skipped" | "error">; // Last runs, oldest first
+    flipRate?: number;
+    isFlaky?: boolean;
   }>;
   aiAssessment?: {
     sufficient: boolean;
@@ -55,8 +69,12 @@ export interface RequirementWithData {
   };
   questions?: Array<{
     question: string;
+    owner?: string;
+    due?: string; // YYYY-MM-DD
+    askedAt?: string;
     answer?: string;
     answeredAt?: string;
+    scenario?: string; // Scenario added from the answer
   }>;
   // Extended fields
   priority?: "critical" | "high" | "medium" | "low";
@@ -76,6 +94,17 @@ export interface RequirementWithData {
     name: string;
     gherkin: string;
     suggested?: boolean;
+    // Scenario-level test links and their coverage
+    tests?: Array<{
+      file: string;
+      identifier: string;
+      hash: string;
+      isStale: boolean;
+      lastResult?: "passed" | "failed" | "skipped" | "error";
+    }>;
+    testCount?: number;
+    verification?: "unverified" | "verified" | "stale" | "n/a";
+    lastResult?: "passed" | "failed" | "skipped" | "error";
     source?: {
       type: "doc" | "slack" | "email" | "meeting" | "ticket" | "manual";
       description: string;
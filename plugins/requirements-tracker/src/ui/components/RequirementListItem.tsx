@@ -35,6 +35,8 @@ export function RequirementListItem({
         <StatusBadge
           status={requirement.status}
           verification={requirement.verification}
+          implemented={requirement.implemented}
+          deprecated={requirement.deprecated}
         />
       </div>
       <div className="text-xs text-gray-500 mt-1 truncate">
@@ -43,6 +45,9 @@ export function RequirementListItem({
           <span className="text-yellow-600 ml-2">
             {requirement.unansweredQuestions} question
             {requirement.unansweredQuestions !== 1 ? "s" : ""}
+            {!!requirement.overdueQuestions && (
+              <span className="text-red-600"> ({requirement.overdueQuestions} overdue)</span>
+            )}
           </span>
         )}
       </div>
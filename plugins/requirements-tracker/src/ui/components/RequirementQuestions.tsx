@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { isQuestionOverdue } from "../../lib/questions";
+import type { RequirementWithData } from "./RequirementList";
+
+interface RequirementQuestionsProps {
+  requirement: RequirementWithData;
+}
+
+type QuestionItem = NonNullable<RequirementWithData["questions"]>[number];
+
+async function postQuestion(body: Record<string, unknown>): Promise<string | null> {
+  try {
+    const res = await fetch("/api/questions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    return data.success ? null : data.error || "Request failed";
+  } catch {
+    return "Request failed";
+  }
+}
+
+// Answer form of one question, with an optional scenario from the answer
+function AnswerForm({ requirementId, number, question, onDone }: {
+  requirementId: string;
+  number: number;
+  question: QuestionItem;
+  onDone: () => void;
+}) {
+  const [answer, setAnswer] = useState(question.answer ?? "");
+  const [withScenario, setWithScenario] = useState(false);
+  const [scenarioName, setScenarioName] = useState("");
+  const [gherkin, setGherkin] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setSaving(true);
+    const failure = await postQuestion({
+      path: requirementId,
+      number,
+      answer,
+      ...(withScenario ? { scenario: { name: scenarioName, gherkin } } : {}),
+    });
+    setSaving(false);
+    if (failure) {
+      setError(failure);
+    } else {
+      onDone();
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <textarea
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        placeholder="Answer"
+        rows={2}
+        className="w-full text-sm border border-gray-300 rounded px-2 py-1"
+      />
+      <label className="flex items-center gap-1.5 text-xs text-gray-600">
+        <input type="checkbox" checked={withScenario} onChange={(e) => setWithScenario(e.target.checked)} />
+        Add a scenario from the answer
+      </label>
+      {withScenario && (
+        <>
+          <input
+            value={scenarioName}
+            onChange={(e) => setScenarioName(e.target.value)}
+            placeholder="Scenario name (e.g., admin_unlock)"
+            className="w-full text-sm border border-gray-300 rounded px-2 py-1"
+          />
+          <textarea
+            value={gherkin}
+            onChange={(e) => setGherkin(e.target.value)}
+            placeholder="Given ... When ... Then ..."
+            rows={3}
+            className="w-full text-sm font-mono border border-gray-300 rounded px-2 py-1"
+          />
+        </>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={submit}
+          disabled={saving || !answer.trim() || (withScenario && (!scenarioName.trim() || !gherkin.trim()))}
+          className="px-2.5 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Answer"}
+        </button>
+        <button
+          onClick={onDone}
+          className="px-2.5 py-1 text-xs font-medium rounded text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Questions of a requirement with their owners and due dates; ask and answer them
+export function RequirementQuestions({ requirement }: RequirementQuestionsProps) {
+  const questions = requirement.questions ?? [];
+  const [answering, setAnswering] = useState<number | null>(null);
+  const [question, setQuestion] = useState("");
+  const [owner, setOwner] = useState("");
+  const [due, setDue] = useState("");
+  const [asking, setAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ask = async () => {
+    setAsking(true);
+    const failure = await postQuestion({ path: requirement.id, question, owner, due });
+    setAsking(false);
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    setError(null);
+    setQuestion("");
+    setOwner("");
+    setDue("");
+  };
+
+  return (
+    <div className="space-y-6">
+      {questions.length === 0 ? (
+        <p className="text-sm text-gray-400">No questions yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {questions.map((q, idx) => {
+            const overdue = isQuestionOverdue(q);
+            return (
+              <li
+                key={idx}
+                className={`p-3 rounded text-sm border ${overdue ? "bg-red-50 border-red-200" : "bg-gray-50 border-gray-200"}`}
+              >
+                <div className="flex items-start gap-2">
+                  <span className="text-gray-400 font-mono text-xs mt-0.5">#{idx + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-800">{q.question}</div>
+                    {(q.owner || q.due) && (
+                      <div className="mt-0.5 flex gap-2 text-xs text-gray-500">
+                        {q.owner && <span>{q.owner}</span>}
+                        {q.due && <span className={overdue ? "text-red-600 font-medium" : ""}>due {q.due}</span>}
+                        {overdue && (
+                          <span className="px-1.5 rounded bg-red-100 text-red-800 font-medium">Overdue</span>
+                        )}
+                      </div>
+                    )}
+                    {q.answer ? (
+                      <div className="mt-1 text-gray-600">
+                        <span className="text-green-600 font-medium">A:</span>{" "}
+                        {q.answer}
+                        {q.answeredAt && (
+                          <span className="text-xs text-gray-400 ml-2">
+                            ({new Date(q.answeredAt).toLocaleDateString()})
+                          </span>
+                        )}
+                        {q.scenario && (
+                          <span className="text-xs text-gray-500 ml-2">→ scenario {q.scenario}</span>
+                        )}
+                      </div>
+                    ) : (
+                      answering !== idx && <div className="mt-1 text-yellow-600 text-xs">Unanswered</div>
+                    )}
+                    {answering === idx ? (
+                      <AnswerForm
+                        requirementId={requirement.id}
+                        number={idx + 1}
+                        question={q}
+                        onDone={() => setAnswering(null)}
+                      />
+                    ) : (
+                      <button
+                        onClick={() => setAnswering(idx)}
+                        className="mt-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        {q.answer ? "Edit answer" : "Answer"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <section>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Ask a Question</h3>
+        <div className="space-y-2">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="What needs clarifying?"
+            rows={2}
+            className="w-full text-sm border border-gray-300 rounded px-2 py-1"
+          />
+          <div className="flex gap-2">
+            <input
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              placeholder="Owner (e.g., @alice)"
+              className="flex-1 text-sm border border-gray-300 rounded px-2 py-1"
+            />
+            <input
+              type="date"
+              value={due}
+              onChange={(e) => setDue(e.target.value)}
+              className="text-sm border border-gray-300 rounded px-2 py-1"
+            />
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <button
+            onClick={ask}
+            disabled={asking || !question.trim()}
+            className="px-2.5 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {asking ? "Asking..." : "Ask"}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
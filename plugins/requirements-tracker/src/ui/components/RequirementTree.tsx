@@ -16,8 +16,8 @@ const BADGE_CONFIG: Record<HealthBadge, { color: string; label: string; order: n
 function computeBadge(req: RequirementWithData): HealthBadge {
   if (req.dependencyIssues && req.dependencyIssues.length > 0) return "blocked";
   if (req.verification === "stale") return "stale";
-  if (req.status === "done" && req.testCount === 0) return "needs-tests";
-  if (req.status === "planned") return "planned";
+  if (req.implemented && req.testCount === 0) return "needs-tests";
+  if (!req.implemented) return "planned";
   if (req.verification === "unverified") return "unverified";
   return "verified";
 }
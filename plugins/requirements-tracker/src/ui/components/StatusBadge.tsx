@@ -3,13 +3,24 @@ import type { VerificationStatus, ImplementationStatus } from "../../lib/types";
 interface StatusBadgeProps {
   status: ImplementationStatus;
   verification: VerificationStatus;
+  implemented?: boolean; // Whether the workflow state counts as done (default: status is "done")
+  deprecated?: boolean;
 }
 
-export function StatusBadge({ status, verification }: StatusBadgeProps) {
-  if (status === "planned") {
+// Workflow state as a label: "in-review" -> "In-review"
+export function formatStatus(status: ImplementationStatus): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+export function StatusBadge({ status, verification, implemented = status === "done", deprecated }: StatusBadgeProps) {
+  if (!implemented) {
     return (
-      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
-        Planned
+      <span
+        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+          deprecated ? "bg-gray-100 text-gray-500 line-through" : "bg-gray-100 text-gray-800"
+        }`}
+      >
+        {formatStatus(status)}
       </span>
     );
   }
@@ -31,7 +42,7 @@ export function StatusBadge({ status, verification }: StatusBadgeProps) {
   return (
     <div className="flex gap-1.5">
       <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
-        Done
+        {formatStatus(status)}
       </span>
       <span
         className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${verificationStyles[verification]}`}
@@ -0,0 +1,32 @@
+import type { TestResultStatus } from "../../lib/types";
+
+interface TestSparklineProps {
+  history: TestResultStatus[]; // Oldest first
+  flipRate?: number;
+}
+
+const barStyles: Record<TestResultStatus, string> = {
+  passed: "h-2 bg-green-500",
+  failed: "h-3 bg-red-500",
+  error: "h-3 bg-red-500",
+  skipped: "h-1 bg-yellow-500",
+};
+
+// One bar per recorded run - failures are taller so flips stand out
+export function TestSparkline({ history, flipRate }: TestSparklineProps) {
+  if (history.length === 0) {
+    return null;
+  }
+
+  const title =
+    `Last ${history.length} run(s), oldest first: ${history.join(", ")}` +
+    (flipRate !== undefined ? ` (flip rate ${Math.round(flipRate * 100)}%)` : "");
+
+  return (
+    <span className="inline-flex items-end gap-px h-3 flex-shrink-0" title={title}>
+      {history.map((status, idx) => (
+        <span key={idx} className={`w-1 rounded-sm ${barStyles[status]}`} />
+      ))}
+    </span>
+  );
+}
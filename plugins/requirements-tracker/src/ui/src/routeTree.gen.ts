@@ -13,8 +13,11 @@ import { Route as IndexRouteImport } from './routes/index'
 import { Route as ApiUpdateRequirementRouteImport } from './routes/api/update-requirement'
 import { Route as ApiRunTestRouteImport } from './routes/api/run-test'
 import { Route as ApiRequirementsRouteImport } from './routes/api/requirements'
+import { Route as ApiRequirementLogRouteImport } from './routes/api/requirement-log'
 import { Route as ApiRejectSuggestedScenarioRouteImport } from './routes/api/reject-suggested-scenario'
+import { Route as ApiQuestionsRouteImport } from './routes/api/questions'
 import { Route as ApiEventsRouteImport } from './routes/api/events'
+import { Route as ApiDependencyGraphRouteImport } from './routes/api/dependency-graph'
 import { Route as ApiChatRouteImport } from './routes/api/chat'
 import { Route as ApiAddScenarioRouteImport } from './routes/api/add-scenario'
 import { Route as ApiDocsIndexRouteImport } from './routes/api/docs.index'
@@ -40,17 +43,32 @@ const ApiRequirementsRoute = ApiRequirementsRouteImport.update({
   path: '/api/requirements',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiRequirementLogRoute = ApiRequirementLogRouteImport.update({
+  id: '/api/requirement-log',
+  path: '/api/requirement-log',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiRejectSuggestedScenarioRoute =
   ApiRejectSuggestedScenarioRouteImport.update({
     id: '/api/reject-suggested-scenario',
     path: '/api/reject-suggested-scenario',
     getParentRoute: () => rootRouteImport,
   } as any)
+const ApiQuestionsRoute = ApiQuestionsRouteImport.update({
+  id: '/api/questions',
+  path: '/api/questions',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiEventsRoute = ApiEventsRouteImport.update({
   id: '/api/events',
   path: '/api/events',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiDependencyGraphRoute = ApiDependencyGraphRouteImport.update({
+  id: '/api/dependency-graph',
+  path: '/api/dependency-graph',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiChatRoute = ApiChatRouteImport.update({
   id: '/api/chat',
   path: '/api/chat',
@@ -76,8 +94,11 @@ export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/api/add-scenario': typeof ApiAddScenarioRoute
   '/api/chat': typeof ApiChatRoute
+  '/api/dependency-graph': typeof ApiDependencyGraphRoute
   '/api/events': typeof ApiEventsRoute
+  '/api/questions': typeof ApiQuestionsRoute
   '/api/reject-suggested-scenario': typeof ApiRejectSuggestedScenarioRoute
+  '/api/requirement-log': typeof ApiRequirementLogRoute
   '/api/requirements': typeof ApiRequirementsRoute
   '/api/run-test': typeof ApiRunTestRoute
   '/api/update-requirement': typeof ApiUpdateRequirementRoute
@@ -88,8 +109,11 @@ export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/api/add-scenario': typeof ApiAddScenarioRoute
   '/api/chat': typeof ApiChatRoute
+  '/api/dependency-graph': typeof ApiDependencyGraphRoute
   '/api/events': typeof ApiEventsRoute
+  '/api/questions': typeof ApiQuestionsRoute
   '/api/reject-suggested-scenario': typeof ApiRejectSuggestedScenarioRoute
+  '/api/requirement-log': typeof ApiRequirementLogRoute
   '/api/requirements': typeof ApiRequirementsRoute
   '/api/run-test': typeof ApiRunTestRoute
   '/api/update-requirement': typeof ApiUpdateRequirementRoute
@@ -101,8 +125,11 @@ export interface FileRoutesById {
   '/': typeof IndexRoute
   '/api/add-scenario': typeof ApiAddScenarioRoute
   '/api/chat': typeof ApiChatRoute
+  '/api/dependency-graph': typeof ApiDependencyGraphRoute
   '/api/events': typeof ApiEventsRoute
+  '/api/questions': typeof ApiQuestionsRoute
   '/api/reject-suggested-scenario': typeof ApiRejectSuggestedScenarioRoute
+  '/api/requirement-log': typeof ApiRequirementLogRoute
   '/api/requirements': typeof ApiRequirementsRoute
   '/api/run-test': typeof ApiRunTestRoute
   '/api/update-requirement': typeof ApiUpdateRequirementRoute
@@ -115,8 +142,11 @@ export interface FileRouteTypes {
     | '/'
     | '/api/add-scenario'
     | '/api/chat'
+    | '/api/dependency-graph'
     | '/api/events'
+    | '/api/questions'
     | '/api/reject-suggested-scenario'
+    | '/api/requirement-log'
     | '/api/requirements'
     | '/api/run-test'
     | '/api/update-requirement'
@@ -127,8 +157,11 @@ export interface FileRouteTypes {
     | '/'
     | '/api/add-scenario'
     | '/api/chat'
+    | '/api/dependency-graph'
     | '/api/events'
+    | '/api/questions'
     | '/api/reject-suggested-scenario'
+    | '/api/requirement-log'
     | '/api/requirements'
     | '/api/run-test'
     | '/api/update-requirement'
@@ -139,8 +172,11 @@ export interface FileRouteTypes {
     | '/'
     | '/api/add-scenario'
     | '/api/chat'
+    | '/api/dependency-graph'
     | '/api/events'
+    | '/api/questions'
     | '/api/reject-suggested-scenario'
+    | '/api/requirement-log'
     | '/api/requirements'
     | '/api/run-test'
     | '/api/update-requirement'
@@ -152,8 +188,11 @@ export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   ApiAddScenarioRoute: typeof ApiAddScenarioRoute
   ApiChatRoute: typeof ApiChatRoute
+  ApiDependencyGraphRoute: typeof ApiDependencyGraphRoute
   ApiEventsRoute: typeof ApiEventsRoute
+  ApiQuestionsRoute: typeof ApiQuestionsRoute
   ApiRejectSuggestedScenarioRoute: typeof ApiRejectSuggestedScenarioRoute
+  ApiRequirementLogRoute: typeof ApiRequirementLogRoute
   ApiRequirementsRoute: typeof ApiRequirementsRoute
   ApiRunTestRoute: typeof ApiRunTestRoute
   ApiUpdateRequirementRoute: typeof ApiUpdateRequirementRoute
@@ -191,6 +230,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiRequirementsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/requirement-log': {
+      id: '/api/requirement-log'
+      path: '/api/requirement-log'
+      fullPath: '/api/requirement-log'
+      preLoaderRoute: typeof ApiRequirementLogRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/reject-suggested-scenario': {
       id: '/api/reject-suggested-scenario'
       path: '/api/reject-suggested-scenario'
@@ -198,6 +244,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiRejectSuggestedScenarioRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/questions': {
+      id: '/api/questions'
+      path: '/api/questions'
+      fullPath: '/api/questions'
+      preLoaderRoute: typeof ApiQuestionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/events': {
       id: '/api/events'
       path: '/api/events'
@@ -205,6 +258,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiEventsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/dependency-graph': {
+      id: '/api/dependency-graph'
+      path: '/api/dependency-graph'
+      fullPath: '/api/dependency-graph'
+      preLoaderRoute: typeof ApiDependencyGraphRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/chat': {
       id: '/api/chat'
       path: '/api/chat'
@@ -240,8 +300,11 @@ const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   ApiAddScenarioRoute: ApiAddScenarioRoute,
   ApiChatRoute: ApiChatRoute,
+  ApiDependencyGraphRoute: ApiDependencyGraphRoute,
   ApiEventsRoute: ApiEventsRoute,
+  ApiQuestionsRoute: ApiQuestionsRoute,
   ApiRejectSuggestedScenarioRoute: ApiRejectSuggestedScenarioRoute,
+  ApiRequirementLogRoute: ApiRequirementLogRoute,
   ApiRequirementsRoute: ApiRequirementsRoute,
   ApiRunTestRoute: ApiRunTestRoute,
   ApiUpdateRequirementRoute: ApiUpdateRequirementRoute,
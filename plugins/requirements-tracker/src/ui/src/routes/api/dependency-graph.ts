@@ -0,0 +1,27 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { loadConfig, loadAllRequirements } from "../../../../lib/store";
+import { getWorkflow } from "../../../../lib/workflow";
+import { buildDependencyGraph } from "../../../../lib/dependency-graph";
+import { getProjectCwd } from "../../api/sse";
+
+export const Route = createFileRoute("/api/dependency-graph")({
+  server: {
+    handlers: {
+      GET: async () => {
+        const cwd = getProjectCwd();
+        const config = await loadConfig(cwd);
+        if (!config) {
+          return json({ error: "Not initialized. Run 'req init' first." }, { status: 400 });
+        }
+
+        const loadResult = await loadAllRequirements(cwd);
+        if (loadResult.errors.length > 0) {
+          return json({ error: loadResult.errors.map((e) => e.message).join("\n") }, { status: 400 });
+        }
+
+        return json(buildDependencyGraph(loadResult.requirements, getWorkflow(config)));
+      },
+    },
+  },
+});
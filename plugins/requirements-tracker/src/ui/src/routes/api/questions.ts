@@ -0,0 +1,64 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { loadConfig, loadRequirement, saveRequirement } from "../../../../lib/store";
+import { getWorkflow } from "../../../../lib/workflow";
+import { addQuestion, answerQuestion } from "../../../../lib/questions";
+import { broadcastRefresh, getProjectCwd } from "../../api/sse";
+
+// Ask a question ({ path, question, owner?, due? }) or answer one
+// ({ path, number, answer, scenario? })
+export const Route = createFileRoute("/api/questions")({
+  server: {
+    handlers: {
+      POST: async ({ request }) => {
+        try {
+          const cwd = getProjectCwd();
+          const body = (await request.json()) as {
+            path: string;
+            question?: string;
+            owner?: string;
+            due?: string;
+            number?: number; // 1-based question number to answer
+            answer?: string;
+            scenario?: { name: string; gherkin: string }; // Scenario to add from the answer
+          };
+
+          if (!body.path || (body.question === undefined && (body.number === undefined || body.answer === undefined))) {
+            return json(
+              { success: false, error: "Missing required fields: path and question, or path, number and answer" },
+              { status: 400 }
+            );
+          }
+
+          const requirement = await loadRequirement(cwd, body.path, getWorkflow(await loadConfig(cwd)));
+          if (!requirement) {
+            return json(
+              { success: false, error: `Requirement not found: ${body.path}` },
+              { status: 404 }
+            );
+          }
+
+          // Invalid input (empty text, bad due date or gherkin) is a client error
+          try {
+            if (body.question !== undefined) {
+              addQuestion(requirement.data, { question: body.question, owner: body.owner, due: body.due || undefined });
+            } else {
+              answerQuestion(requirement.data, body.number!, body.answer!, body.scenario);
+            }
+          } catch (error) {
+            return json({ success: false, error: (error as Error).message }, { status: 400 });
+          }
+
+          await saveRequirement(cwd, body.path, requirement.data);
+          broadcastRefresh();
+          return json({ success: true });
+        } catch (error) {
+          return json(
+            { success: false, error: (error as Error).message },
+            { status: 500 }
+          );
+        }
+      },
+    },
+  },
+});
@@ -0,0 +1,28 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { json } from "@tanstack/react-start";
+import { isValidRequirementPath } from "../../../../lib/store";
+import { getRequirementLog } from "../../../../lib/requirement-log";
+import { getProjectCwd } from "../../api/sse";
+
+export const Route = createFileRoute("/api/requirement-log")({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        const path = new URL(request.url).searchParams.get("path");
+        if (!path || !isValidRequirementPath(path)) {
+          return json({ error: "Missing or invalid requirement path" }, { status: 400 });
+        }
+
+        try {
+          const entries = await getRequirementLog(getProjectCwd(), path);
+          return json({ entries });
+        } catch (error) {
+          return json(
+            { error: error instanceof Error ? error.message : "Failed to read history" },
+            { status: 500 }
+          );
+        }
+      },
+    },
+  },
+});
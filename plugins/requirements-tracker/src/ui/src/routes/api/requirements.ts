@@ -5,9 +5,27 @@ import {
   loadAllRequirements,
   loadIgnoredTests,
   getRequirementsDir,
+  getAllTestLinks,
 } from "../../../../lib/store";
 import { getTestsWithCache } from "../../../../lib/cache";
 import { loadTestResults, getTestLinkResult } from "../../../../lib/result-store";
+import {
+  loadTestHistory,
+  getTestHistory,
+  computeFlakiness,
+  DEFAULT_HISTORY_WINDOW,
+} from "../../../../lib/history";
+import { findImplementationCoverageIssues, loadCoverage } from "../../../../lib/coverage";
+import { getCombinedResult } from "../../../../lib/check-result";
+import { findDependencyCycles, findMissingDependencies } from "../../../../lib/dependency-graph";
+import { findBrokenLinks } from "../../../../lib/relink";
+import { countQuestions } from "../../../../lib/questions";
+import {
+  getWorkflow,
+  getAllowedTransitions,
+  isDeprecated,
+  isImplemented,
+} from "../../../../lib/workflow";
 import { skipCacheOnNextFetch, setSkipCache, getProjectCwd } from "../../api/sse";
 import type {
   CheckResult,
@@ -17,19 +35,35 @@ import type {
   ImplementationStatus,
   Priority,
   TestResultStatus,
+  Scenario,
 } from "../../../../lib/types";
 
+// A link is stale if its hash matches neither the current hash nor the
+// pre-AST legacy hash (links are migrated to the new hash by `req check`)
+function isTestStale(
+  test: TestLink,
+  currentHashes: Map<string, string>,
+  legacyHashes: Map<string, string>
+): boolean {
+  const key = `${test.file}:${test.identifier}`;
+  const currentHash = currentHashes.get(key);
+  return (
+    currentHash !== undefined &&
+    currentHash !== test.hash &&
+    legacyHashes.get(key) !== test.hash
+  );
+}
+
 function getVerificationStatus(
   tests: TestLink[],
   currentHashes: Map<string, string>,
+  legacyHashes: Map<string, string>,
   hasAssessment: boolean
 ): VerificationStatus {
   if (tests.length === 0) return "n/a";
   if (!hasAssessment) return "unverified";
   for (const test of tests) {
-    const key = `${test.file}:${test.identifier}`;
-    const currentHash = currentHashes.get(key);
-    if (currentHash && currentHash !== test.hash) return "stale";
+    if (isTestStale(test, currentHashes, legacyHashes)) return "stale";
   }
   return "verified";
 }
@@ -39,6 +73,7 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
   if (!config) {
     return { error: "Not initialized. Run 'req init' first." };
   }
+  const workflow = getWorkflow(config);
 
   const loadResult = await loadAllRequirements(cwd);
   if (loadResult.errors.length > 0) {
@@ -56,13 +91,16 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
   const { tests: allExtractedTests } = await getTestsWithCache(cwd, config.testGlob, noCache);
 
   const testHashMap = new Map<string, string>();
+  const legacyHashMap = new Map<string, string>();
   for (const test of allExtractedTests) {
     testHashMap.set(`${test.file}:${test.identifier}`, test.hash);
+    if (test.legacyHash) legacyHashMap.set(`${test.file}:${test.identifier}`, test.legacyHash);
   }
 
   const testRunResults = await loadTestResults(cwd);
   const testResults = testRunResults?.results || [];
   const lastRunAt = testRunResults?.importedAt;
+  const testHistory = await loadTestHistory(cwd);
 
   const reqStatusMap = new Map<string, ImplementationStatus>();
   for (const req of requirements) {
@@ -72,23 +110,35 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
   const result: CheckResult = {
     requirements: [],
     orphanedTests: [],
+    brokenLinks: [],
     dependencyIssues: [],
+    dependencyCycles: [],
+    missingDependencies: [],
     gherkinIssues: [],
+    coverageIssues: [],
     summary: {
       totalRequirements: 0,
       planned: 0,
       done: 0,
+      deprecated: 0,
+      byState: Object.fromEntries(workflow.states.map((state) => [state.name, 0])),
       untested: 0,
       tested: 0,
       unverified: 0,
       verified: 0,
       stale: 0,
       orphanedTestCount: 0,
+      brokenLinks: 0,
       unansweredQuestions: 0,
+      overdueQuestions: 0,
       byPriority: { critical: 0, high: 0, medium: 0, low: 0, unset: 0 },
       blockedRequirements: 0,
+      dependencyCycles: 0,
+      missingDependencies: 0,
       unverifiedNFRs: 0,
       gherkinFormatIssues: 0,
+      flakyOnly: 0,
+      implementationNotExecuted: 0,
     },
   };
 
@@ -111,39 +161,67 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
         verification: VerificationStatus;
         coverageSufficient: boolean | null;
         unansweredQuestions: number;
+        overdueQuestions: number;
         status: ImplementationStatus;
+        implemented?: boolean;
+        deprecated?: boolean;
+        nextStates: ImplementationStatus[];
+        statusLog: ParsedRequirement["data"]["statusLog"];
         priority?: Priority;
         dependencyIssues?: string[];
         unverifiedNFRCount: number;
+        flakyOnly?: boolean;
         gherkin: string;
         mainSource: ParsedRequirement["data"]["mainSource"];
-        tests: Array<TestLink & { isStale: boolean; lastResult?: TestResultStatus; lastRunAt?: string }>;
+        tests: Array<
+          TestLink & {
+            isStale: boolean;
+            lastResult?: TestResultStatus;
+            lastRunAt?: string;
+            history: TestResultStatus[];
+            flipRate: number;
+            isFlaky: boolean;
+          }
+        >;
         aiAssessment: ParsedRequirement["data"]["aiAssessment"];
         questions: ParsedRequirement["data"]["questions"];
         dependencies: ParsedRequirement["data"]["dependencies"];
         nfrs: ParsedRequirement["data"]["nfrs"];
-        scenarios: ParsedRequirement["data"]["scenarios"];
+        scenarios?: Array<
+          Scenario & {
+            tests: Array<TestLink & { isStale: boolean; lastResult?: TestResultStatus }>;
+            testCount: number;
+            verification: VerificationStatus;
+            lastResult?: TestResultStatus;
+          }
+        >;
       }[],
     };
 
     for (const req of groupReqs) {
       result.summary.totalRequirements++;
 
-      for (const test of req.data.tests) {
+      const allTests = getAllTestLinks(req.data);
+      for (const test of allTests) {
         linkedTestKeys.add(`${test.file}:${test.identifier}`);
       }
 
       const reqStatus = req.data.status;
-      if (reqStatus === "planned") {
-        result.summary.planned++;
-      } else {
+      const implemented = isImplemented(workflow, reqStatus);
+      const deprecated = isDeprecated(workflow, reqStatus);
+      result.summary.byState[reqStatus] = (result.summary.byState[reqStatus] ?? 0) + 1;
+      if (implemented) {
         result.summary.done++;
+      } else if (deprecated) {
+        result.summary.deprecated++;
+      } else {
+        result.summary.planned++;
       }
 
-      const verification = getVerificationStatus(req.data.tests, testHashMap, !!req.data.aiAssessment);
+      const verification = getVerificationStatus(allTests, testHashMap, legacyHashMap, !!req.data.aiAssessment);
 
-      if (reqStatus === "done") {
-        if (req.data.tests.length === 0) {
+      if (implemented) {
+        if (allTests.length === 0) {
           result.summary.untested++;
         } else {
           result.summary.tested++;
@@ -155,20 +233,21 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
         }
       }
 
-      const unanswered = (req.data.questions || []).filter((q) => !q.answer).length;
+      const { unanswered, overdue } = countQuestions(req.data.questions);
       result.summary.unansweredQuestions += unanswered;
+      result.summary.overdueQuestions += overdue;
 
       const priority = req.data.priority;
       if (priority) result.summary.byPriority[priority]++;
       else result.summary.byPriority.unset++;
 
       const depIssues: string[] = [];
-      if (req.data.dependencies) {
+      if (req.data.dependencies && !deprecated) {
         for (const dep of req.data.dependencies) {
           const blocking = dep.blocking !== false;
           if (blocking) {
             const depStatus = reqStatusMap.get(dep.path);
-            if (!depStatus || depStatus !== "done") depIssues.push(dep.path);
+            if (!depStatus || !isImplemented(workflow, depStatus)) depIssues.push(dep.path);
           }
         }
       }
@@ -181,24 +260,48 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
       const unverifiedNFRCount = nfrs.filter((nfr) => !nfr.verified).length;
       result.summary.unverifiedNFRs += unverifiedNFRCount;
 
-      const testsWithStaleFlag = req.data.tests.map((test) => {
-        const key = `${test.file}:${test.identifier}`;
-        const currentHash = testHashMap.get(key);
-        const isStale = currentHash !== undefined && currentHash !== test.hash;
+      const testsWithStaleFlag = allTests.map((test) => {
+        const isStale = isTestStale(test, testHashMap, legacyHashMap);
         const lastResult = getTestLinkResult(test, testResults);
-        return { ...test, isStale, lastResult, lastRunAt };
+        const history = getTestHistory(test, testHistory, DEFAULT_HISTORY_WINDOW).map((run) => run.status);
+        const { flipRate, flaky } = computeFlakiness(history);
+        return { ...test, isStale, lastResult, lastRunAt, history, flipRate, isFlaky: flaky };
+      });
+
+      const flakyOnly = !deprecated && testsWithStaleFlag.length > 0 && testsWithStaleFlag.every((test) => test.isFlaky);
+      if (flakyOnly) result.summary.flakyOnly++;
+
+      const scenarios = req.data.scenarios?.map((scenario) => {
+        const scenarioTests = scenario.tests ?? [];
+        return {
+          ...scenario,
+          tests: scenarioTests.map((test) => ({
+            ...test,
+            isStale: isTestStale(test, testHashMap, legacyHashMap),
+            lastResult: getTestLinkResult(test, testResults),
+          })),
+          testCount: scenarioTests.length,
+          verification: getVerificationStatus(scenarioTests, testHashMap, legacyHashMap, !!req.data.aiAssessment),
+          lastResult: getCombinedResult(scenarioTests, testResults),
+        };
       });
 
       groupResult.requirements.push({
         id: req.path,
-        testCount: req.data.tests.length,
+        testCount: allTests.length,
         verification,
         coverageSufficient: req.data.aiAssessment?.sufficient ?? null,
         unansweredQuestions: unanswered,
+        overdueQuestions: overdue,
         status: reqStatus,
+        implemented: implemented || undefined,
+        deprecated: deprecated || undefined,
+        nextStates: getAllowedTransitions(workflow, reqStatus),
+        statusLog: req.data.statusLog,
         priority,
         dependencyIssues: depIssues.length > 0 ? depIssues : undefined,
         unverifiedNFRCount,
+        flakyOnly: flakyOnly || undefined,
         gherkin: req.data.gherkin,
         mainSource: req.data.mainSource,
         tests: testsWithStaleFlag,
@@ -206,7 +309,7 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
         questions: req.data.questions,
         dependencies: req.data.dependencies,
         nfrs: req.data.nfrs,
-        scenarios: req.data.scenarios,
+        scenarios,
       });
     }
 
@@ -220,6 +323,19 @@ async function getRequirementsData(cwd: string): Promise<CheckResult | { error:
     }
   }
   result.summary.orphanedTestCount = result.orphanedTests.length;
+  result.brokenLinks = findBrokenLinks(requirements, new Set(testHashMap.keys()));
+  result.summary.brokenLinks = result.brokenLinks.length;
+
+  result.dependencyCycles = findDependencyCycles(requirements);
+  result.missingDependencies = findMissingDependencies(requirements);
+  result.summary.dependencyCycles = result.dependencyCycles.length;
+  result.summary.missingDependencies = result.missingDependencies.length;
+
+  const coverage = await loadCoverage(cwd);
+  if (coverage) {
+    result.coverageIssues = await findImplementationCoverageIssues(cwd, requirements, coverage, workflow);
+    result.summary.implementationNotExecuted = result.coverageIssues.length;
+  }
 
   return result;
 }
@@ -1,6 +1,6 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
-import { loadRequirement } from "../../../../lib/store";
+import { loadRequirement, getAllTestLinks } from "../../../../lib/store";
 import { runTests, runMultipleTests } from "../../../../lib/test-runner";
 import { broadcastRefresh, getProjectCwd } from "../../api/sse";
 
@@ -27,7 +27,8 @@ export const Route = createFileRoute("/api/run-test")({
               );
             }
 
-            if (requirement.data.tests.length === 0) {
+            const tests = getAllTestLinks(requirement.data);
+            if (tests.length === 0) {
               return json({
                 success: true,
                 exitCode: 0,
@@ -38,7 +39,7 @@ export const Route = createFileRoute("/api/run-test")({
 
             result = await runMultipleTests(
               cwd,
-              requirement.data.tests.map((t) => ({ file: t.file, identifier: t.identifier }))
+              tests.map((t) => ({ file: t.file, identifier: t.identifier }))
             );
           } else {
             result = await runTests({
@@ -1,10 +1,16 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
-import { loadRequirement, saveRequirement } from "../../../../lib/store";
+import { loadConfig, loadRequirement, saveRequirement } from "../../../../lib/store";
+import {
+  applyTransition,
+  getAllowedTransitions,
+  getCurrentUser,
+  getStateNames,
+  getWorkflow,
+} from "../../../../lib/workflow";
 import { broadcastRefresh, getProjectCwd } from "../../api/sse";
 import type { ImplementationStatus, Priority } from "../../../../lib/types";
 
-const VALID_STATUSES: ImplementationStatus[] = ["planned", "done"];
 const VALID_PRIORITIES: Priority[] = ["critical", "high", "medium", "low"];
 
 export const Route = createFileRoute("/api/update-requirement")({
@@ -16,8 +22,11 @@ export const Route = createFileRoute("/api/update-requirement")({
           const body = (await request.json()) as {
             path: string;
             status?: ImplementationStatus;
+            reason?: string; // Why the status changes (kept in the status log)
             priority?: Priority | null; // null to remove priority
           };
+          const workflow = getWorkflow(await loadConfig(cwd));
+          const validStatuses = getStateNames(workflow);
 
           if (!body.path) {
             return json(
@@ -27,9 +36,9 @@ export const Route = createFileRoute("/api/update-requirement")({
           }
 
           // Validate status if provided
-          if (body.status !== undefined && !VALID_STATUSES.includes(body.status)) {
+          if (body.status !== undefined && !validStatuses.includes(body.status)) {
             return json(
-              { success: false, error: `Invalid status. Must be one of: ${VALID_STATUSES.join(", ")}` },
+              { success: false, error: `Invalid status. Must be one of: ${validStatuses.join(", ")}` },
               { status: 400 }
             );
           }
@@ -42,7 +51,7 @@ export const Route = createFileRoute("/api/update-requirement")({
             );
           }
 
-          const requirement = await loadRequirement(cwd, body.path);
+          const requirement = await loadRequirement(cwd, body.path, workflow);
           if (!requirement) {
             return json(
               { success: false, error: `Requirement not found: ${body.path}` },
@@ -50,9 +59,19 @@ export const Route = createFileRoute("/api/update-requirement")({
             );
           }
 
-          // Update fields
-          if (body.status !== undefined) {
-            requirement.data.status = body.status;
+          // Update fields (status changes must follow the workflow)
+          if (body.status !== undefined && body.status !== requirement.data.status) {
+            const allowed = getAllowedTransitions(workflow, requirement.data.status);
+            if (!allowed.includes(body.status)) {
+              return json(
+                {
+                  success: false,
+                  error: `Transition not allowed: ${requirement.data.status} -> ${body.status}`,
+                },
+                { status: 400 }
+              );
+            }
+            applyTransition(requirement.data, body.status, await getCurrentUser(cwd), body.reason);
           }
           if (body.priority !== undefined) {
             if (body.priority === null) {
@@ -6,11 +6,13 @@ import { Dashboard, type FilterType } from "../../components/Dashboard";
 import { RequirementTree } from "../../components/RequirementTree";
 import { RequirementDetail } from "../../components/RequirementDetail";
 import { DocsViewer } from "../../components/DocsViewer";
+import { DependencyGraphView } from "../../components/DependencyGraphView";
 import { ClaudeChat, type ClaudeChatHandle } from "../../chat";
 import type {
   GroupWithData,
   RequirementWithData,
 } from "../../components/RequirementList";
+import { matchesQuery, parseQuery } from "../../../lib/query";
 import type { CheckSummary, ExtractedTest, ImplementationStatus, Priority } from "../../../lib/types";
 
 // Search params schema using TanStack Router's approach
@@ -20,6 +22,8 @@ const searchSchema = z.object({
   filter: fallback(z.enum(["all", "planned", "done", "untested", "verified", "unverified", "stale"]), "all").default("all"),
   view: fallback(z.enum(["requirements", "docs"]), "requirements").default("requirements"),
   doc: fallback(z.string(), "index").default("index"),
+  q: fallback(z.string(), "").default(""),
+  panel: fallback(z.enum(["details", "graph"]), "details").default("details"),
 });
 
 type SearchParams = z.infer<typeof searchSchema>;
@@ -61,6 +65,8 @@ function Home() {
   const filter = search.filter as FilterType;
   const view = search.view;
   const docsPage = search.doc;
+  const queryText = search.q;
+  const panel = search.panel;
 
   // Navigation helpers
   const setSelectedReqId = useCallback((req: string | null) => {
@@ -71,6 +77,14 @@ function Home() {
     navigate({ search: (prev) => ({ ...prev, filter: newFilter }) });
   }, [navigate]);
 
+  const setQueryText = useCallback((newQuery: string) => {
+    navigate({ search: (prev) => ({ ...prev, q: newQuery }), replace: true });
+  }, [navigate]);
+
+  const setPanel = useCallback((newPanel: "details" | "graph") => {
+    navigate({ search: (prev) => ({ ...prev, panel: newPanel }) });
+  }, [navigate]);
+
   const setView = useCallback((newView: "requirements" | "docs") => {
     navigate({ search: (prev) => ({ ...prev, view: newView }) });
   }, [navigate]);
@@ -154,37 +168,44 @@ function Home() {
     }
   }, [view, docsPage]);
 
-  // Filter requirements based on active filter - must be before early returns
+  // Query from the search bar (same language as 'req query')
+  const parsedQuery = useMemo(() => parseQuery(queryText), [queryText]);
+  const query = parsedQuery.success ? parsedQuery.query : null;
+
+  // Filter requirements based on active filter and query - must be before early returns
   const filteredGroups = useMemo(() => {
     if (!data) return [];
-    if (!filter) return data.requirements;
+    if (!filter && !query?.terms.length) return data.requirements;
 
-    const filterFn = (req: RequirementWithData): boolean => {
+    const matchesFilter = (req: RequirementWithData): boolean => {
       switch (filter) {
         case "planned":
-          return req.status === "planned";
+          return !req.implemented && !req.deprecated;
         case "done":
-          return req.status === "done";
+          return !!req.implemented;
         case "untested":
-          return req.status === "done" && req.testCount === 0;
+          return !!req.implemented && req.testCount === 0;
         case "verified":
-          return req.status === "done" && req.verification === "verified";
+          return !!req.implemented && req.verification === "verified";
         case "unverified":
-          return req.status === "done" && req.verification === "unverified";
+          return !!req.implemented && req.verification === "unverified";
         case "stale":
-          return req.status === "done" && req.verification === "stale";
+          return !!req.implemented && req.verification === "stale";
         default:
           return true;
       }
     };
 
+    const filterFn = (req: RequirementWithData): boolean =>
+      matchesFilter(req) && (!query || matchesQuery(query, { ...req, path: req.id }));
+
     return data.requirements
       .map((group) => ({
         ...group,
         requirements: group.requirements.filter(filterFn),
       }))
       .filter((group) => group.requirements.length > 0);
-  }, [data, filter]);
+  }, [data, filter, query]);
 
   // Flatten all requirements for easy lookup
   const allRequirements = useMemo(
@@ -609,6 +630,19 @@ req reject-scenario ${req.id} ${scenarioName}
             Requirements Tracker
           </h1>
           <div className="flex items-center gap-2">
+            {view === "requirements" && (
+              <button
+                onClick={() => setPanel(panel === "graph" ? "details" : "graph")}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  panel === "graph"
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+                title="Dependency graph"
+              >
+                {panel === "graph" ? "Details" : "Graph"}
+              </button>
+            )}
             <button
               onClick={() => setView(view === "docs" ? "requirements" : "docs")}
               className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
@@ -714,6 +748,23 @@ req reject-scenario ${req.id} ${scenarioName}
                   )}
                 </div>
               </div>
+              <div className="flex-none px-3 py-2 border-b border-gray-200">
+                <input
+                  type="search"
+                  value={queryText}
+                  onChange={(e) => setQueryText(e.target.value)}
+                  placeholder='Search, e.g. priority:high -has:tests "password"'
+                  className={`w-full px-2 py-1 text-xs font-mono border rounded focus:outline-none focus:ring-1 ${
+                    parsedQuery.success
+                      ? "border-gray-300 focus:ring-blue-500"
+                      : "border-red-400 focus:ring-red-500"
+                  }`}
+                  title="Same query language as 'req query' - see the CLI reference"
+                />
+                {!parsedQuery.success && (
+                  <p className="mt-1 text-xs text-red-600">{parsedQuery.error}</p>
+                )}
+              </div>
               <div className="flex-1 overflow-y-auto p-2">
                 {filteredGroups.length === 0 ? (
                   <div className="text-center py-8 text-gray-400 text-sm">
@@ -757,22 +808,31 @@ req reject-scenario ${req.id} ${scenarioName}
               </div>
             </div>
 
-            {/* Middle panel: detail view */}
+            {/* Middle panel: detail view or dependency graph */}
             <div className="flex-1 bg-white min-w-0">
-              <RequirementDetail
-                requirement={selectedReq}
-                onVerify={handleVerifyRequirement}
-                onFixTest={handleFixTest}
-                onAddTest={handleAddTest}
-                onAddScenario={handleAddScenario}
-                onAcceptScenario={handleAcceptScenario}
-                onRejectScenario={handleRejectScenario}
-                onRejectSuggestedScenario={handleRejectSuggestedScenario}
-                onRunTest={handleRunTest}
-                onRunAllTests={handleRunAllTests}
-                runningTests={runningTests}
-                onUpdateRequirement={handleUpdateRequirement}
-              />
+              {panel === "graph" ? (
+                <DependencyGraphView
+                  selectedId={selectedReqId}
+                  onSelect={setSelectedReqId}
+                  onOpenDetails={() => setPanel("details")}
+                  refreshKey={data}
+                />
+              ) : (
+                <RequirementDetail
+                  requirement={selectedReq}
+                  onVerify={handleVerifyRequirement}
+                  onFixTest={handleFixTest}
+                  onAddTest={handleAddTest}
+                  onAddScenario={handleAddScenario}
+                  onAcceptScenario={handleAcceptScenario}
+                  onRejectScenario={handleRejectScenario}
+                  onRejectSuggestedScenario={handleRejectSuggestedScenario}
+                  onRunTest={handleRunTest}
+                  onRunAllTests={handleRunAllTests}
+                  runningTests={runningTests}
+                  onUpdateRequirement={handleUpdateRequirement}
+                />
+              )}
             </div>
 
             {/* Right panel: Chat (collapsible) */}